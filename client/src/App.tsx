@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -8,6 +8,7 @@ import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { PasswordChangeModal } from "@/components/PasswordChangeModal";
+import type { Permission } from "@shared/schema";
 
 // Layout components
 import { SuperAdminLayout } from "@/components/Layout/SuperAdminLayout";
@@ -17,6 +18,8 @@ import { UserLayout } from "@/components/Layout/UserLayout";
 // Page components
 import { Landing } from "@/pages/Landing";
 import NotFound from "@/pages/not-found";
+import { VerifyCertificate } from "@/pages/VerifyCertificate";
+import { ResetPassword } from "@/pages/ResetPassword";
 
 // SuperAdmin pages
 import { SuperAdminDashboard } from "@/pages/superadmin/Dashboard";
@@ -35,6 +38,14 @@ import { SuperAdminSupport } from "@/pages/superadmin/Support";
 import { AdminDashboard } from "@/pages/admin/Dashboard";
 import { AdminUsers } from "@/pages/admin/Users";
 import { AdminCourses } from "@/pages/admin/Courses";
+import { AdminLearningPaths } from "@/pages/admin/LearningPaths";
+import { AdminAssignmentRules } from "@/pages/admin/AssignmentRules";
+import { AdminMandatoryTraining } from "@/pages/admin/MandatoryTraining";
+import { AdminRoles } from "@/pages/admin/Roles";
+import { AdminClassroomSessions } from "@/pages/admin/ClassroomSessions";
+import { AdminExternalTraining } from "@/pages/admin/ExternalTraining";
+import { AdminAssessmentMarking } from "@/pages/admin/AssessmentMarking";
+import { AdminSingleSignOn } from "@/pages/admin/SingleSignOn";
 import { AdminBilling } from "@/pages/admin/Billing";
 import { AdminOrganisationSettings } from "@/pages/admin/OrganisationSettings";
 import { AdminProfile } from "@/pages/admin/Profile";
@@ -68,9 +79,15 @@ import { UserCourses } from "@/pages/user/Courses";
 import { UserSettings } from "@/pages/user/Settings";
 import { UserProfile } from "@/pages/user/Profile";
 import { UserSupport } from "@/pages/user/Support";
+import { UserTeam } from "@/pages/user/Team";
+import { UserClassroom } from "@/pages/user/Classroom";
+import { UserExternalTraining } from "@/pages/user/ExternalTraining";
 
-function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode; requiredRole?: string }) {
+function ProtectedRoute({ children, requiredRole, requiredPermission }: { children: React.ReactNode; requiredRole?: string; requiredPermission?: Permission }) {
   const { isAuthenticated, isLoading, user } = useAuth();
+  // A custom role can open up individual admin pages to users without the admin role
+  const hasAccess = !requiredRole || user?.role === requiredRole ||
+    (!!requiredPermission && !!user?.permissions?.includes(requiredPermission));
   const { toast } = useToast();
   const [showPasswordChangeModal, setShowPasswordChangeModal] = useState(false);
 
@@ -87,7 +104,7 @@ function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode;
       return;
     }
 
-    if (!isLoading && isAuthenticated && requiredRole && user?.role !== requiredRole) {
+    if (!isLoading && isAuthenticated && !hasAccess) {
       toast({
         title: "Access Denied",
         description: "You don't have permission to access this page",
@@ -104,7 +121,7 @@ function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode;
     if (!isLoading && isAuthenticated && user?.requiresPasswordChange) {
       setShowPasswordChangeModal(true);
     }
-  }, [isAuthenticated, isLoading, user, requiredRole, toast]);
+  }, [isAuthenticated, isLoading, user, hasAccess, toast]);
 
   const handlePasswordChangeSuccess = (updatedUser: any) => {
     // Update the user data in the query cache
@@ -151,7 +168,7 @@ function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode;
     );
   }
 
-  if (requiredRole && user?.role !== requiredRole) {
+  if (!hasAccess) {
     return null;
   }
 
@@ -160,6 +177,18 @@ function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode;
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
+  const [isVerifyPage, verifyParams] = useRoute('/verify/:code');
+  const [isResetPasswordPage] = useRoute('/reset-password');
+
+  // Certificate verification is public - reached by scanning the QR code on a certificate
+  if (isVerifyPage && verifyParams) {
+    return <VerifyCertificate code={verifyParams.code} />;
+  }
+
+  // Password reset links from email work whether or not someone is signed in
+  if (isResetPasswordPage) {
+    return <ResetPassword />;
+  }
 
   // Show loading screen while checking authentication
   if (isLoading) {
@@ -372,7 +401,7 @@ function Router() {
       </Route>
       
       <Route path="/admin/users">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="users.view">
           <AdminLayout>
             <AdminUsers />
           </AdminLayout>
@@ -387,8 +416,72 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
-      <Route path="/admin/training-matrix">
+      <Route path="/admin/learning-paths">
+        <ProtectedRoute requiredRole="admin">
+          <AdminLayout>
+            <AdminLearningPaths />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/assignment-rules">
+        <ProtectedRoute requiredRole="admin">
+          <AdminLayout>
+            <AdminAssignmentRules />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/classroom">
+        <ProtectedRoute requiredRole="admin" requiredPermission="courses.assign">
+          <AdminLayout>
+            <AdminClassroomSessions />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/external-training">
+        <ProtectedRoute requiredRole="admin" requiredPermission="courses.assign">
+          <AdminLayout>
+            <AdminExternalTraining />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/assessment-marking">
+        <ProtectedRoute requiredRole="admin" requiredPermission="courses.assign">
+          <AdminLayout>
+            <AdminAssessmentMarking />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/roles">
+        <ProtectedRoute requiredRole="admin" requiredPermission="roles.manage">
+          <AdminLayout>
+            <AdminRoles />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/mandatory-training">
+        <ProtectedRoute requiredRole="admin">
+          <AdminLayout>
+            <AdminMandatoryTraining />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/sso">
         <ProtectedRoute requiredRole="admin">
+          <AdminLayout>
+            <AdminSingleSignOn />
+          </AdminLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/training-matrix">
+        <ProtectedRoute requiredRole="admin" requiredPermission="reports.view">
           <AdminLayout>
             <AdminTrainingMatrix />
           </AdminLayout>
@@ -404,7 +497,7 @@ function Router() {
       </Route>
       
       <Route path="/admin/billing">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="billing.manage">
           <AdminLayout>
             <AdminBilling />
           </AdminLayout>
@@ -452,7 +545,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/consent-preferences">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <ConsentPreferences />
           </AdminLayout>
@@ -461,7 +554,7 @@ function Router() {
       
       {/* GDPR Privacy Settings (feature flag protected) */}
       <Route path="/admin/privacy-settings">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <PrivacySettings />
           </AdminLayout>
@@ -470,7 +563,7 @@ function Router() {
 
       {/* GDPR Cookie Settings (feature flag protected) */}
       <Route path="/admin/cookie-settings">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <CookieSettings />
           </AdminLayout>
@@ -479,7 +572,7 @@ function Router() {
 
       {/* GDPR User Rights Management (feature flag protected) */}
       <Route path="/admin/user-rights">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <AdminUserRights />
           </AdminLayout>
@@ -488,7 +581,7 @@ function Router() {
 
       {/* GDPR Register of Processing Activities (Article 30 compliance) */}
       <Route path="/admin/processing-activities">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <RegisterOfProcessing />
           </AdminLayout>
@@ -497,7 +590,7 @@ function Router() {
 
       {/* GDPR Breach Management (Articles 33 & 34 compliance) */}
       <Route path="/admin/breach-management">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <BreachManagement />
           </AdminLayout>
@@ -506,7 +599,7 @@ function Router() {
 
       {/* GDPR International Transfers (Chapter V Articles 44-49 compliance) */}
       <Route path="/admin/international-transfers">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <InternationalTransfers />
           </AdminLayout>
@@ -524,7 +617,7 @@ function Router() {
 
       {/* GDPR Dashboard (feature flag protected) */}
       <Route path="/admin/gdpr-dashboard">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <GdprDashboard />
           </AdminLayout>
@@ -533,7 +626,7 @@ function Router() {
 
       {/* GDPR Compliance Export (feature flag protected) */}
       <Route path="/admin/compliance-export">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <ComplianceExport />
           </AdminLayout>
@@ -542,7 +635,7 @@ function Router() {
 
       {/* Admin GDPR User Rights */}
       <Route path="/admin/gdpr/user-rights">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <AdminUserRights />
           </AdminLayout>
@@ -550,7 +643,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/gdpr/user-rights/new">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <AdminUserRights />
           </AdminLayout>
@@ -559,7 +652,7 @@ function Router() {
 
       {/* Admin GDPR Breach Management */}
       <Route path="/admin/gdpr/breaches">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <BreachManagement />
           </AdminLayout>
@@ -567,7 +660,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/gdpr/breaches/new">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <BreachManagement />
           </AdminLayout>
@@ -576,7 +669,7 @@ function Router() {
 
       {/* Admin GDPR Consent Management */}
       <Route path="/admin/gdpr/consent">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <ConsentPreferences />
           </AdminLayout>
@@ -585,7 +678,7 @@ function Router() {
 
       {/* Admin GDPR Data Retention */}
       <Route path="/admin/gdpr/data-retention">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <DataRetention />
           </AdminLayout>
@@ -594,7 +687,7 @@ function Router() {
 
       {/* Admin GDPR Compliance Documents */}
       <Route path="/admin/gdpr/compliance-documents">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <ComplianceDocuments />
           </AdminLayout>
@@ -603,7 +696,7 @@ function Router() {
 
       {/* Admin GDPR Privacy Settings */}
       <Route path="/admin/gdpr/privacy-settings">
-        <ProtectedRoute requiredRole="admin">
+        <ProtectedRoute requiredRole="admin" requiredPermission="gdpr.manage">
           <AdminLayout>
             <PrivacySettings />
           </AdminLayout>
@@ -627,6 +720,30 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/user/classroom">
+        <ProtectedRoute requiredRole="user">
+          <UserLayout>
+            <UserClassroom />
+          </UserLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/user/external-training">
+        <ProtectedRoute requiredRole="user">
+          <UserLayout>
+            <UserExternalTraining />
+          </UserLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/user/team">
+        <ProtectedRoute requiredRole="user">
+          <UserLayout>
+            <UserTeam />
+          </UserLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/user/settings">
         <ProtectedRoute requiredRole="user">
           <UserLayout>
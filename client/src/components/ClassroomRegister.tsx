@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ClassroomSessionSummary {
+  id: string;
+  title: string;
+  courseTitle: string;
+  startsAt: string;
+  endsAt: string;
+  deliveryMode: 'in_person' | 'virtual';
+  venue: string | null;
+  meetingUrl: string | null;
+  trainerName: string | null;
+  cancelledAt: string | null;
+  places: { capacity: number; booked: number; waitlisted: number; available: number };
+}
+
+interface ClassroomBooking {
+  id: string;
+  userId: string;
+  status: 'booked' | 'waitlisted' | 'cancelled' | 'attended' | 'no_show';
+  bookedAt: string;
+  attendanceMarkedAt: string | null;
+  completionId: string | null;
+  user: { id: string; firstName: string | null; lastName: string | null; email: string | null; department: string | null } | null;
+}
+
+interface ClassroomRegisterProps {
+  session: ClassroomSessionSummary;
+  onClose: () => void;
+  // Learners who can be booked on by the person running the session; omit to hide booking
+  bookableUsers?: { id: string; firstName: string | null; lastName: string | null; email: string | null }[];
+}
+
+export const BOOKING_STATUS_BADGES: Record<ClassroomBooking['status'], { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'badge-info' },
+  waitlisted: { label: 'Waiting list', className: 'badge-warning' },
+  cancelled: { label: 'Cancelled', className: 'badge-ghost' },
+  attended: { label: 'Attended', className: 'badge-success' },
+  no_show: { label: 'Did not attend', className: 'badge-error' },
+};
+
+export const formatSessionTime = (session: Pick<ClassroomSessionSummary, 'startsAt' | 'endsAt'>) => {
+  const start = new Date(session.startsAt);
+  const end = new Date(session.endsAt);
+  const time = (date: Date) => date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+  return `${start.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}, ${time(start)} - ${time(end)}`;
+};
+
+export const describeSessionLocation = (session: Pick<ClassroomSessionSummary, 'deliveryMode' | 'venue' | 'meetingUrl'>) =>
+  session.deliveryMode === 'virtual' ? 'Online' : session.venue || 'Venue to be confirmed';
+
+// The register for a classroom session - who is booked or waiting, and their attendance
+export function ClassroomRegister({ session, onClose, bookableUsers }: ClassroomRegisterProps) {
+  const [learnerToBook, setLearnerToBook] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: bookings = [], isLoading } = useQuery<ClassroomBooking[]>({
+    queryKey: ['/api/classroom/sessions', session.id, 'bookings'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/classroom/sessions/${session.id}/bookings`);
+      return response.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/classroom/sessions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/classroom/trainer-sessions'] });
+  };
+
+  const attendanceMutation = useMutation({
+    mutationFn: async ({ bookingId, attended }: { bookingId: string; attended: boolean }) =>
+      apiRequest('POST', `/api/classroom/bookings/${bookingId}/attendance`, { attended }),
+    onSuccess: (_data, { attended }) => {
+      invalidate();
+      toast({ title: "Success", description: attended ? "Marked as attended - the course is now complete" : "Marked as did not attend" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to mark attendance", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (bookingId: string) => apiRequest('POST', `/api/classroom/bookings/${bookingId}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Booking cancelled" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to cancel booking", variant: "destructive" });
+    },
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/classroom/sessions/${session.id}/bookings`, { userIds: [userId] });
+      return response.json();
+    },
+    onSuccess: (data: { results: { status?: string; error?: string }[] }) => {
+      invalidate();
+      setLearnerToBook("");
+      const [result] = data.results;
+      if (result?.error) {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      } else {
+        toast({ title: "Success", description: result?.status === 'waitlisted' ? "Session is full - added to the waiting list" : "Learner booked" });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to book learner", variant: "destructive" });
+    },
+  });
+
+  const hasStarted = new Date(session.startsAt) <= new Date();
+  const activeBookings = bookings.filter(b => b.status !== 'cancelled');
+  const bookedUserIds = new Set(activeBookings.map(b => b.userId));
+  const learnerName = (booking: ClassroomBooking) =>
+    booking.user ? `${booking.user.firstName || ''} ${booking.user.lastName || ''}`.trim() || booking.user.email : 'Unknown user';
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box max-w-4xl">
+        <h3 className="font-bold text-lg">{session.title}</h3>
+        <p className="text-sm text-base-content/70 mb-4">
+          {formatSessionTime(session)} &middot; {describeSessionLocation(session)} &middot; {session.places.booked} of {session.places.capacity} places booked
+          {session.places.waitlisted > 0 && `, ${session.places.waitlisted} waiting`}
+        </p>
+
+        {bookableUsers && !hasStarted && !session.cancelledAt && (
+          <div className="flex gap-2 mb-4">
+            <select
+              className="select select-bordered select-sm flex-1"
+              value={learnerToBook}
+              onChange={(e) => setLearnerToBook(e.target.value)}
+              data-testid="select-classroom-book-learner"
+            >
+              <option value="">Book a learner...</option>
+              {bookableUsers.filter(u => !bookedUserIds.has(u.id)).map(u => (
+                <option key={u.id} value={u.id}>{`${u.firstName || ''} ${u.lastName || ''}`.trim() || u.email}</option>
+              ))}
+            </select>
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => bookMutation.mutate(learnerToBook)}
+              disabled={!learnerToBook || bookMutation.isPending}
+              data-testid="button-classroom-book-learner"
+            >
+              <i className="fas fa-user-plus"></i> Book
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : activeBookings.length === 0 ? (
+          <p className="text-center py-8 text-base-content/60" data-testid="text-no-bookings">Nobody has booked this session yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra" data-testid="table-classroom-register">
+              <thead>
+                <tr>
+                  <th>Learner</th>
+                  <th>Department</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {activeBookings.map(booking => (
+                  <tr key={booking.id} data-testid={`row-booking-${booking.id}`}>
+                    <td>
+                      <div className="font-semibold">{learnerName(booking)}</div>
+                      <div className="text-xs text-base-content/60">{booking.user?.email}</div>
+                    </td>
+                    <td className="text-sm">{booking.user?.department || '-'}</td>
+                    <td>
+                      <span className={`badge ${BOOKING_STATUS_BADGES[booking.status].className}`}>
+                        {BOOKING_STATUS_BADGES[booking.status].label}
+                      </span>
+                    </td>
+                    <td>
+                      <div className="flex gap-1 justify-end">
+                        {hasStarted && !session.cancelledAt && booking.status !== 'waitlisted' && !booking.completionId && (
+                          <>
+                            <button
+                              className="btn btn-success btn-xs"
+                              onClick={() => attendanceMutation.mutate({ bookingId: booking.id, attended: true })}
+                              disabled={attendanceMutation.isPending}
+                              data-testid={`button-mark-attended-${booking.id}`}
+                            >
+                              <i className="fas fa-check"></i> Attended
+                            </button>
+                            {booking.status !== 'no_show' && (
+                              <button
+                                className="btn btn-ghost btn-xs"
+                                onClick={() => attendanceMutation.mutate({ bookingId: booking.id, attended: false })}
+                                disabled={attendanceMutation.isPending}
+                                data-testid={`button-mark-no-show-${booking.id}`}
+                              >
+                                Did not attend
+                              </button>
+                            )}
+                          </>
+                        )}
+                        {!hasStarted && (booking.status === 'booked' || booking.status === 'waitlisted') && (
+                          <button
+                            className="btn btn-ghost btn-xs text-error"
+                            onClick={() => cancelMutation.mutate(booking.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-booking-${booking.id}`}
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose} data-testid="button-close-register">Close</button>
+        </div>
+        <p className="text-xs text-base-content/60 text-right">Marking someone as attended completes the course and issues their certificate.</p>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
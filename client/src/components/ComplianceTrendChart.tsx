@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from "recharts";
+
+interface ComplianceTrendPoint {
+  date: string;
+  required: number;
+  inDate: number;
+  percent: number | null;
+  targetPercent: number | null;
+  assigned: number;
+  overdue: number;
+  expired: number;
+}
+
+interface ComplianceTrend {
+  from: string;
+  to: string;
+  points: ComplianceTrendPoint[];
+}
+
+interface ComplianceTrendChartProps {
+  // '/api/admin/compliance/trends' or '/api/superadmin/compliance/trends'
+  endpoint: string;
+  departments?: string[];
+  courses?: { id: string; title: string }[];
+}
+
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Compliance and overdue counts over time, from the nightly compliance snapshots
+export function ComplianceTrendChart({ endpoint, departments = [], courses = [] }: ComplianceTrendChartProps) {
+  const ninetyDaysAgo = new Date();
+  ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
+  const [from, setFrom] = useState(toDateInput(ninetyDaysAgo));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [department, setDepartment] = useState("");
+  const [courseId, setCourseId] = useState("");
+
+  const { data: trend, isLoading } = useQuery<ComplianceTrend>({
+    queryKey: [endpoint, from, to, department, courseId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      if (department) params.append('department', department);
+      if (courseId) params.append('courseId', courseId);
+      const response = await fetch(`${endpoint}?${params.toString()}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch compliance trend');
+      return response.json();
+    },
+    enabled: !!from && !!to,
+  });
+
+  const points = (trend?.points || []).map(point => ({
+    ...point,
+    label: point.date.split('-').reverse().slice(0, 2).join('/'),
+  }));
+  const targetPercent = points.length > 0 ? points[points.length - 1].targetPercent : null;
+
+  return (
+    <div className="card bg-base-100 border border-base-300 shadow-md mb-8" data-testid="card-compliance-trend">
+      <div className="card-body">
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-end gap-4">
+          <h3 className="card-title text-base-content">
+            <i className="fas fa-history text-primary"></i>
+            Compliance Trend
+          </h3>
+          <div className="flex flex-wrap gap-2 items-end">
+            <label className="form-control">
+              <span className="label-text text-xs">From</span>
+              <input type="date" className="input input-bordered input-sm" value={from} max={to} onChange={(e) => setFrom(e.target.value)} data-testid="input-trend-from" />
+            </label>
+            <label className="form-control">
+              <span className="label-text text-xs">To</span>
+              <input type="date" className="input input-bordered input-sm" value={to} min={from} onChange={(e) => setTo(e.target.value)} data-testid="input-trend-to" />
+            </label>
+            {departments.length > 0 && (
+              <select
+                className="select select-bordered select-sm"
+                value={department}
+                onChange={(e) => { setDepartment(e.target.value); setCourseId(""); }}
+                data-testid="select-trend-department"
+              >
+                <option value="">All departments</option>
+                {departments.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            )}
+            {courses.length > 0 && (
+              <select
+                className="select select-bordered select-sm"
+                value={courseId}
+                onChange={(e) => { setCourseId(e.target.value); setDepartment(""); }}
+                data-testid="select-trend-course"
+              >
+                <option value="">All courses</option>
+                {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+              </select>
+            )}
+          </div>
+        </div>
+
+        <div className="h-72 bg-base-50 rounded-lg border border-base-200 p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <span className="loading loading-spinner loading-lg text-primary"></span>
+            </div>
+          ) : points.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-center">
+              <div>
+                <div className="text-4xl mb-2">📅</div>
+                <p className="text-sm text-base-content/60">No compliance snapshots in this date range. Snapshots are recorded every night.</p>
+              </div>
+            </div>
+          ) : (
+            <ChartContainer
+              config={{
+                percent: {
+                  label: "Mandatory training in date (%)",
+                  color: "hsl(var(--su))",
+                },
+                overdue: {
+                  label: "Overdue",
+                  color: "hsl(var(--er))",
+                },
+                expired: {
+                  label: "Expired",
+                  color: "hsl(var(--wa))",
+                },
+              }}
+              className="h-full w-full"
+            >
+              <LineChart data={points}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--bc) / 0.1)" />
+                <XAxis dataKey="label" tick={{ fontSize: 11, fill: 'hsl(var(--bc) / 0.7)' }} />
+                <YAxis yAxisId="percent" domain={[0, 100]} tick={{ fontSize: 11, fill: 'hsl(var(--bc) / 0.7)' }} />
+                <YAxis yAxisId="count" orientation="right" allowDecimals={false} tick={{ fontSize: 11, fill: 'hsl(var(--bc) / 0.7)' }} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {targetPercent !== null && (
+                  <ReferenceLine yAxisId="percent" y={targetPercent} stroke="hsl(var(--su))" strokeDasharray="4 4" />
+                )}
+                <Line yAxisId="percent" type="monotone" dataKey="percent" stroke="hsl(var(--su))" strokeWidth={2} dot={false} connectNulls />
+                <Line yAxisId="count" type="monotone" dataKey="overdue" stroke="hsl(var(--er))" strokeWidth={2} dot={false} />
+                <Line yAxisId="count" type="monotone" dataKey="expired" stroke="hsl(var(--wa))" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </div>
+        {targetPercent !== null && points.length > 0 && (
+          <p className="text-xs text-base-content/60">Dashed line: target of {targetPercent}%.</p>
+        )}
+      </div>
+    </div>
+  );
+}
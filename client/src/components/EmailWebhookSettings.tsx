@@ -0,0 +1,91 @@
+import { useToast } from "@/hooks/use-toast";
+
+// URL segment of each provider's delivery webhook - see server/services/EmailDeliveryEventService.ts
+const WEBHOOK_PROVIDERS: Record<string, { slug: string; keyHelp: string }> = {
+  sendgrid_api: {
+    slug: 'sendgrid',
+    keyHelp: 'Turn on signed event webhooks in SendGrid (Mail Settings → Event Webhook) and paste the verification key.',
+  },
+  mailgun_api: {
+    slug: 'mailgun',
+    keyHelp: 'Paste the HTTP webhook signing key from Mailgun (Sending → Webhooks).',
+  },
+  postmark_api: {
+    slug: 'postmark',
+    keyHelp: 'Choose a secret and enter it as the basic auth password on the Postmark webhook.',
+  },
+  brevo_api: {
+    slug: 'brevo',
+    keyHelp: 'Choose a secret and set it as the bearer token of the Brevo webhook.',
+  },
+  mailjet_api: {
+    slug: 'mailjet',
+    keyHelp: 'Choose a secret and add it to the Mailjet event URL as basic auth, e.g. https://events:SECRET@…',
+  },
+  sparkpost_api: {
+    slug: 'sparkpost',
+    keyHelp: 'Choose a secret and enter it as the basic auth password on the SparkPost webhook.',
+  },
+};
+
+interface EmailWebhookSettingsProps {
+  provider: string;
+  signingKey: string;
+  onSigningKeyChange: (value: string) => void;
+}
+
+// Delivery event webhook URL and signing key for an API email provider
+export function EmailWebhookSettings({ provider, signingKey, onSigningKeyChange }: EmailWebhookSettingsProps) {
+  const { toast } = useToast();
+  const config = WEBHOOK_PROVIDERS[provider];
+
+  if (!config) {
+    return null;
+  }
+
+  const webhookUrl = `${window.location.origin}/api/webhooks/email/${config.slug}`;
+  const isConfigured = signingKey.startsWith('••');
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(webhookUrl);
+    toast({ title: "Success", description: "Webhook URL copied" });
+  };
+
+  return (
+    <div className="space-y-2 p-4 bg-base-200 rounded-lg" data-testid="section-email-webhook">
+      <div className="font-semibold">Delivery Events Webhook</div>
+      <p className="text-sm text-base-content/70">
+        Records deliveries, opens and clicks, and stops emailing addresses that hard bounce or report spam.
+      </p>
+      <div className="form-control">
+        <label className="label">
+          <span className="label-text">Webhook URL</span>
+        </label>
+        <div className="join">
+          <input type="text" className="input input-bordered join-item flex-1 font-mono text-sm" value={webhookUrl} readOnly data-testid="input-webhook-url" />
+          <button type="button" className="btn join-item" onClick={copyUrl} data-testid="button-copy-webhook-url">
+            <i className="fas fa-copy"></i>
+          </button>
+        </div>
+      </div>
+      <div className="form-control">
+        <label className="label">
+          <span className="label-text">Webhook Signing Key</span>
+        </label>
+        <input
+          type="password"
+          className="input input-bordered"
+          placeholder={isConfigured ? "Signing key configured" : "Enter the webhook signing key"}
+          value={signingKey}
+          onChange={(e) => onSigningKeyChange(e.target.value)}
+          data-testid="input-webhook-signing-key"
+        />
+        <div className="label">
+          <span className="label-text-alt">
+            {isConfigured ? '✓ Signing key is configured. ' : ''}{config.keyHelp}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import type { UploadResult } from "@uppy/core";
+
+export interface ExternalTrainingRecordSummary {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string | null;
+  department: string | null;
+  courseId: string;
+  courseTitle: string;
+  provider: string;
+  externalCourseTitle: string | null;
+  completedAt: string;
+  expiryDate: string | null;
+  evidenceUrl: string | null;
+  evidenceFileName: string | null;
+  notes: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  submittedByName: string | null;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
+interface ExternalTrainingFormProps {
+  onClose: () => void;
+  // Learners an admin can record training for; omit when learners submit their own
+  learners?: { id: string; firstName: string | null; lastName: string | null; email: string | null }[];
+}
+
+export const EXTERNAL_TRAINING_STATUS_BADGES: Record<ExternalTrainingRecordSummary['status'], { label: string; className: string }> = {
+  pending: { label: 'Awaiting review', className: 'badge-warning' },
+  approved: { label: 'Approved', className: 'badge-success' },
+  rejected: { label: 'Rejected', className: 'badge-error' },
+};
+
+export const formatRecordDate = (date: string | null) => date ? new Date(date).toLocaleDateString('en-GB') : '-';
+
+const emptyForm = {
+  userId: '',
+  courseId: '',
+  provider: '',
+  externalCourseTitle: '',
+  completedAt: '',
+  expiryDate: '',
+  notes: '',
+};
+
+// Record training completed elsewhere, with the certificate uploaded as evidence
+export function ExternalTrainingForm({ onClose, learners }: ExternalTrainingFormProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [evidence, setEvidence] = useState<{ url: string; fileName: string } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: courses = [] } = useQuery<{ id: string; title: string; certificateExpiryPeriod: number | null }[]>({
+    queryKey: ['/api/external-training/courses'],
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/external-training', {
+      ...formData,
+      userId: formData.userId || undefined,
+      evidenceUrl: evidence?.url,
+      evidenceFileName: evidence?.fileName,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/external-training'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/external-training/mine'] });
+      toast({ title: "Success", description: "External training submitted for review" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to submit external training", variant: "destructive" });
+    },
+  });
+
+  const handleGetUploadParameters = async () => {
+    const response = await fetch('/api/objects/upload', {
+      method: 'POST',
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      throw new Error('Failed to get upload URL');
+    }
+    const data = await response.json();
+    return {
+      method: 'PUT' as const,
+      url: data.uploadURL
+    };
+  };
+
+  const handleUploadComplete = (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
+    const uploadedFile = result.successful?.[0];
+    if (uploadedFile?.uploadURL) {
+      setEvidence({ url: uploadedFile.uploadURL, fileName: uploadedFile.name || 'evidence' });
+    }
+  };
+
+  const selectedCourse = courses.find(c => c.id === formData.courseId);
+  const canSubmit = formData.courseId && formData.provider.trim() && formData.completedAt && evidence && (!learners || formData.userId);
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box max-w-2xl">
+        <h3 className="font-bold text-lg mb-4">Record External Training</h3>
+
+        <div className="space-y-4">
+          {learners && (
+            <div className="form-control">
+              <label className="label"><span className="label-text">Learner</span></label>
+              <select
+                className="select select-bordered"
+                value={formData.userId}
+                onChange={(e) => setFormData({ ...formData, userId: e.target.value })}
+                data-testid="select-external-training-learner"
+              >
+                <option value="">Select a learner...</option>
+                {learners.map(u => (
+                  <option key={u.id} value={u.id}>{`${u.firstName || ''} ${u.lastName || ''}`.trim() || u.email}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-control">
+            <label className="label"><span className="label-text">Course it satisfies</span></label>
+            <select
+              className="select select-bordered"
+              value={formData.courseId}
+              onChange={(e) => setFormData({ ...formData, courseId: e.target.value })}
+              data-testid="select-external-training-course"
+            >
+              <option value="">Select a course...</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="form-control">
+              <label className="label"><span className="label-text">Training provider</span></label>
+              <input
+                type="text"
+                className="input input-bordered"
+                placeholder="e.g. previous employer or awarding body"
+                value={formData.provider}
+                onChange={(e) => setFormData({ ...formData, provider: e.target.value })}
+                data-testid="input-external-training-provider"
+              />
+            </div>
+            <div className="form-control">
+              <label className="label"><span className="label-text">Provider's course title (optional)</span></label>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={formData.externalCourseTitle}
+                onChange={(e) => setFormData({ ...formData, externalCourseTitle: e.target.value })}
+                data-testid="input-external-training-title"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="form-control">
+              <label className="label"><span className="label-text">Completion date</span></label>
+              <input
+                type="date"
+                className="input input-bordered"
+                value={formData.completedAt}
+                onChange={(e) => setFormData({ ...formData, completedAt: e.target.value })}
+                data-testid="input-external-training-completed"
+              />
+            </div>
+            <div className="form-control">
+              <label className="label"><span className="label-text">Expiry date (optional)</span></label>
+              <input
+                type="date"
+                className="input input-bordered"
+                value={formData.expiryDate}
+                onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                data-testid="input-external-training-expiry"
+              />
+              {!formData.expiryDate && selectedCourse?.certificateExpiryPeriod && (
+                <label className="label">
+                  <span className="label-text-alt">Left blank, it expires {selectedCourse.certificateExpiryPeriod} months after completion</span>
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="form-control">
+            <label className="label"><span className="label-text">Notes (optional)</span></label>
+            <textarea
+              className="textarea textarea-bordered"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              data-testid="input-external-training-notes"
+            />
+          </div>
+
+          <div className="form-control">
+            <label className="label"><span className="label-text">Certificate or other evidence</span></label>
+            <div className="flex items-center gap-3">
+              <ObjectUploader
+                maxNumberOfFiles={1}
+                maxFileSize={10485760} // 10MB
+                onGetUploadParameters={handleGetUploadParameters}
+                onComplete={handleUploadComplete}
+                buttonClassName="btn btn-sm btn-outline"
+              >
+                <i className="fas fa-upload mr-2"></i>
+                {evidence ? 'Replace file' : 'Upload file'}
+              </ObjectUploader>
+              {evidence && (
+                <span className="text-sm" data-testid="text-external-training-evidence">
+                  <i className="fas fa-file mr-1"></i>{evidence.fileName}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose} data-testid="button-cancel-external-training">Cancel</button>
+          <button
+            className="btn btn-primary"
+            onClick={() => submitMutation.mutate()}
+            disabled={!canSubmit || submitMutation.isPending}
+            data-testid="button-submit-external-training"
+          >
+            {submitMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+            Submit for review
+          </button>
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
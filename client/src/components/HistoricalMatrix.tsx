@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+interface SnapshotCell {
+  status: string;
+  label: string;
+  dueDate?: string | null;
+  completionDate?: string | null;
+  expiryDate?: string | null;
+  score?: number | null;
+}
+
+interface SnapshotMatrix {
+  snapshotDate: string;
+  staff: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    department: string | null;
+    jobTitle: string | null;
+  }[];
+  courses: {
+    id: string;
+    title: string;
+    certificateExpiryPeriod: number | null;
+    mandatory: boolean;
+  }[];
+  cells: SnapshotCell[][];
+}
+
+interface HistoricalMatrixProps {
+  onClose: () => void;
+}
+
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const getStatusClasses = (status: string) => {
+  switch (status) {
+    case 'red': return 'bg-error text-error-content';
+    case 'amber': return 'bg-warning text-warning-content';
+    case 'green': return 'bg-success text-success-content';
+    case 'blue': return 'bg-info text-info-content';
+    case 'grey': return 'bg-base-300 text-base-content';
+    case 'failed': return 'bg-error/70 text-error-content';
+    case 'blank': return 'bg-base-100 text-base-content opacity-50';
+    default: return 'bg-base-100 text-base-content';
+  }
+};
+
+// Read-only view of the training matrix as it was recorded by the nightly compliance snapshot
+export function HistoricalMatrix({ onClose }: HistoricalMatrixProps) {
+  const yesterday = new Date();
+  yesterday.setDate(yesterday.getDate() - 1);
+  const [date, setDate] = useState(toDateInput(yesterday));
+
+  const { data: snapshot, isLoading, error } = useQuery<SnapshotMatrix>({
+    queryKey: ['/api/admin/compliance/matrix', date],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/compliance/matrix?date=${date}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to fetch snapshot');
+      return data;
+    },
+    enabled: !!date,
+    retry: false,
+  });
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box max-w-6xl">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-4">
+          <div>
+            <h3 className="font-bold text-lg">Training Matrix on a Past Date</h3>
+            <p className="text-sm text-base-content/60">Shows the matrix exactly as recorded at the end of the chosen day.</p>
+          </div>
+          <div className="form-control">
+            <label className="label"><span className="label-text">Date</span></label>
+            <input
+              type="date"
+              className="input input-bordered input-sm"
+              value={date}
+              max={toDateInput(new Date())}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-historical-matrix-date"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : error ? (
+          <div className="alert alert-warning" data-testid="alert-no-snapshot">
+            <i className="fas fa-history"></i>
+            <span>{(error as Error).message}</span>
+          </div>
+        ) : snapshot ? (
+          <>
+            {snapshot.snapshotDate !== date && (
+              <div className="alert alert-info mb-4" data-testid="alert-snapshot-date">
+                <i className="fas fa-info-circle"></i>
+                <span>No snapshot was recorded on this date. Showing the latest earlier snapshot, from {snapshot.snapshotDate.split('-').reverse().join('/')}.</span>
+              </div>
+            )}
+            {snapshot.staff.length === 0 || snapshot.courses.length === 0 ? (
+              <p className="text-center text-base-content/60 py-8">No training had been assigned on this date.</p>
+            ) : (
+              <div className="overflow-auto max-h-[60vh]">
+                <table className="table table-xs table-pin-rows table-pin-cols" data-testid="table-historical-matrix">
+                  <thead>
+                    <tr>
+                      <th>Staff</th>
+                      {snapshot.courses.map(course => (
+                        <td key={course.id} className="text-center min-w-24">
+                          {course.title}
+                          {course.mandatory && <span className="badge badge-primary badge-xs ml-1">Mandatory</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshot.staff.map((staffMember, staffIndex) => (
+                      <tr key={staffMember.id}>
+                        <th className="bg-base-100">
+                          <div className="font-medium">{staffMember.firstName} {staffMember.lastName}</div>
+                          <div className="text-xs text-base-content/60">{staffMember.department || '-'}</div>
+                        </th>
+                        {snapshot.courses.map((course, courseIndex) => {
+                          const cell = snapshot.cells[staffIndex]?.[courseIndex];
+                          return (
+                            <td key={course.id} className="p-1">
+                              <div
+                                className={`rounded px-2 py-1 text-center text-xs ${getStatusClasses(cell?.status || 'blank')}`}
+                                title={cell?.expiryDate ? `Expiry: ${cell.expiryDate}` : cell?.dueDate ? `Due: ${cell.dueDate}` : undefined}
+                              >
+                                {cell?.label || '-'}
+                              </div>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        ) : null}
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose} data-testid="button-close-historical-matrix">Close</button>
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { ThemeProvider } from "@/components/ThemeProvider";
 import { FeatureUpgradeModal } from "@/components/FeatureUpgradeModal";
 import { Footer } from "./Footer";
 import { useIsGdprEnabled, useIsGdprFeatureEnabled } from "@/hooks/useGdpr";
+import type { Permission } from "@shared/schema";
 import inteLMSLogo from '@assets/inteLMS_1757337182057.png';
 
 interface AdminLayoutProps {
@@ -18,6 +19,8 @@ interface MenuItem {
   label: string;
   requiresFeature?: string;
   gdprFeature?: string;
+  // Lets users with a custom role see the item; admins see everything
+  permission?: Permission;
 }
 
 interface GdprMenuItem extends MenuItem {
@@ -163,29 +166,42 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     }
   };
 
-  const menuItems: MenuItem[] = [
+  const allMenuItems: MenuItem[] = [
     { path: "/admin", icon: "fas fa-tachometer-alt", label: "Dashboard" },
-    { path: "/admin/users", icon: "fas fa-users", label: "Users" },
+    { path: "/admin/users", icon: "fas fa-users", label: "Users", permission: "users.view" },
+    { path: "/admin/roles", icon: "fas fa-user-tag", label: "Roles & Permissions", permission: "roles.manage" },
     { path: "/admin/courses", icon: "fas fa-graduation-cap", label: "Courses" },
+    { path: "/admin/learning-paths", icon: "fas fa-route", label: "Learning Paths" },
+    { path: "/admin/classroom", icon: "fas fa-chalkboard-teacher", label: "Classroom Sessions", permission: "courses.assign" },
+    { path: "/admin/external-training", icon: "fas fa-award", label: "External Training", permission: "courses.assign" },
+    { path: "/admin/assessment-marking", icon: "fas fa-marker", label: "Assessment Marking", permission: "courses.assign" },
+    { path: "/admin/assignment-rules", icon: "fas fa-magic", label: "Assignment Rules" },
+    { path: "/admin/mandatory-training", icon: "fas fa-clipboard-check", label: "Mandatory Training" },
     { 
       path: "/admin/training-matrix", 
       icon: "fas fa-table", 
       label: "Training Matrix",
-      requiresFeature: "training_matrix"
+      requiresFeature: "training_matrix",
+      permission: "reports.view"
     },
     { path: "/admin/certificates", icon: "fas fa-certificate", label: "Certificates" },
     { path: "/admin/email-templates", icon: "fas fa-envelope", label: "Email Templates" },
     { path: "/admin/support", icon: "fas fa-headset", label: "Support" },
-    { path: "/admin/billing", icon: "fas fa-credit-card", label: "Billing" },
+    { path: "/admin/billing", icon: "fas fa-credit-card", label: "Billing", permission: "billing.manage" },
     { 
       path: "/admin/audit-log", 
       icon: "fas fa-history", 
       label: "Audit Log",
       requiresFeature: "audit_log"
     },
+    { path: "/admin/sso", icon: "fas fa-key", label: "Single Sign-On" },
     { path: "/admin/settings", icon: "fas fa-cog", label: "Organisation Settings" },
   ];
 
+  const isAdmin = user?.role === 'admin';
+  const canSee = (permission?: Permission) => isAdmin || (!!permission && !!user?.permissions?.includes(permission));
+  const menuItems = allMenuItems.filter(item => canSee(item.permission));
+
   const gdprMenuItems: GdprMenuItem[] = [
     { 
       path: "/admin/gdpr-dashboard", 
@@ -227,6 +243,9 @@ export function AdminLayout({ children }: AdminLayoutProps) {
 
   // Filter GDPR menu items based on enabled features
   const availableGdprItems = gdprMenuItems.filter(item => {
+    if (!canSee('gdpr.manage')) {
+      return false;
+    }
     switch (item.gdprFeature) {
       case 'general':
         return true; // Dashboard and export available when GDPR enabled
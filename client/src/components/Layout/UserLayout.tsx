@@ -3,6 +3,7 @@ import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import { Footer } from "./Footer";
+import type { Permission } from "@shared/schema";
 import inteLMSLogo from '@assets/inteLMS_1757337182057.png';
 
 interface UserLayoutProps {
@@ -77,9 +78,27 @@ export function UserLayout({ children }: UserLayoutProps) {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  // Admin pages a custom role opens up, in the order they appear in the admin menu
+  const adminPages: { permission: Permission; path: string; icon: string; label: string }[] = [
+    { permission: "users.view", path: "/admin/users", icon: "fas fa-users", label: "Users" },
+    { permission: "roles.manage", path: "/admin/roles", icon: "fas fa-user-tag", label: "Roles & Permissions" },
+    { permission: "courses.assign", path: "/admin/classroom", icon: "fas fa-chalkboard-teacher", label: "Classroom Sessions" },
+    { permission: "courses.assign", path: "/admin/external-training", icon: "fas fa-award", label: "External Training" },
+    { permission: "reports.view", path: "/admin/training-matrix", icon: "fas fa-table", label: "Training Matrix" },
+    { permission: "billing.manage", path: "/admin/billing", icon: "fas fa-credit-card", label: "Billing" },
+    { permission: "gdpr.manage", path: "/admin/gdpr-dashboard", icon: "fas fa-shield-alt", label: "Privacy Compliance" },
+  ];
+
   const menuItems = [
     { path: "/user", icon: "fas fa-tachometer-alt", label: "Dashboard" },
     { path: "/user/courses", icon: "fas fa-graduation-cap", label: "My Courses" },
+    { path: "/user/classroom", icon: "fas fa-chalkboard-teacher", label: "Classroom Training" },
+    { path: "/user/external-training", icon: "fas fa-award", label: "External Training" },
+    // Line managers also get a view of their team's training
+    ...(user?.isManager ? [{ path: "/user/team", icon: "fas fa-users", label: "My Team" }] : []),
+    ...adminPages
+      .filter(page => user?.permissions?.includes(page.permission))
+      .map(({ path, icon, label }) => ({ path, icon, label })),
     { path: "/user/support", icon: "fas fa-headset", label: "Support" },
     { path: "/user/settings", icon: "fas fa-cog", label: "Settings" },
   ];
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ReportFilters {
+  departments: string[];
+  roles: string[];
+  courses: string[];
+  statuses: string[];
+  mandatoryOnly: boolean;
+}
+
+interface ReportSubscription {
+  id: string;
+  name: string;
+  reportType: 'training_matrix' | 'overdue' | 'completions';
+  filters: Partial<ReportFilters>;
+  format: string;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  hour: number;
+  recipients: string[];
+  isActive: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: string | null;
+  lastError: string | null;
+}
+
+interface ReportForm {
+  name: string;
+  reportType: ReportSubscription['reportType'];
+  format: string;
+  frequency: ReportSubscription['frequency'];
+  dayOfWeek: string;
+  dayOfMonth: string;
+  hour: string;
+  recipients: string;
+  useCurrentFilters: boolean;
+}
+
+interface ScheduledReportsProps {
+  currentFilters: ReportFilters;
+  courses: { id: string; title: string }[];
+}
+
+const REPORT_TYPES: Record<ReportSubscription['reportType'], string> = {
+  training_matrix: 'Training matrix',
+  overdue: 'Overdue list',
+  completions: 'Completion analytics',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  green: 'Completed & current',
+  amber: 'Expiring soon',
+  red: 'Overdue/expired',
+  grey: 'Not completed',
+};
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const emptyForm: ReportForm = {
+  name: "",
+  reportType: 'training_matrix',
+  format: 'csv',
+  frequency: 'weekly',
+  dayOfWeek: "1",
+  dayOfMonth: "1",
+  hour: "7",
+  recipients: "",
+  useCurrentFilters: true,
+};
+
+/**
+ * Saved training matrix reports that are emailed to a recipient list on a schedule
+ */
+export function ScheduledReports({ currentFilters, courses }: ScheduledReportsProps) {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editing, setEditing] = useState<ReportSubscription | null>(null);
+  const [form, setForm] = useState<ReportForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reports = [], isLoading } = useQuery<ReportSubscription[]>({
+    queryKey: ['/api/report-subscriptions'],
+  });
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEditor = (report?: ReportSubscription) => {
+    if (report) {
+      setEditing(report);
+      setForm({
+        name: report.name,
+        reportType: report.reportType,
+        format: report.format,
+        frequency: report.frequency,
+        dayOfWeek: String(report.dayOfWeek ?? 1),
+        dayOfMonth: String(report.dayOfMonth ?? 1),
+        hour: String(report.hour),
+        recipients: report.recipients.join(', '),
+        useCurrentFilters: false,
+      });
+    }
+    setShowEditor(true);
+  };
+
+  const toRequestBody = () => ({
+    name: form.name,
+    reportType: form.reportType,
+    format: form.reportType === 'training_matrix' ? form.format : 'csv',
+    frequency: form.frequency,
+    dayOfWeek: parseInt(form.dayOfWeek),
+    dayOfMonth: parseInt(form.dayOfMonth),
+    hour: parseInt(form.hour),
+    recipients: form.recipients.split(/[\s,;]+/).filter(Boolean),
+    ...(form.useCurrentFilters && { filters: currentFilters }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing) {
+        return apiRequest('PUT', `/api/report-subscriptions/${editing.id}`, toRequestBody());
+      }
+      return apiRequest('POST', '/api/report-subscriptions', toRequestBody());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-subscriptions'] });
+      closeEditor();
+      toast({ title: "Success", description: "Scheduled report saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save scheduled report", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (report: ReportSubscription) => {
+      return apiRequest('PUT', `/api/report-subscriptions/${report.id}`, { isActive: !report.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-subscriptions'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update scheduled report", variant: "destructive" });
+    },
+  });
+
+  const sendNowMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/report-subscriptions/${id}/send`);
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-subscriptions'] });
+      toast({ title: "Success", description: data.message });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-subscriptions'] });
+      toast({ title: "Error", description: error.message || "Failed to send report", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/report-subscriptions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-subscriptions'] });
+      toast({ title: "Success", description: "Scheduled report deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete scheduled report", variant: "destructive" });
+    },
+  });
+
+  const describeSchedule = (report: ReportSubscription) => {
+    const time = `${String(report.hour).padStart(2, '0')}:00`;
+    if (report.frequency === 'daily') return `Daily at ${time}`;
+    if (report.frequency === 'weekly') return `${DAYS[report.dayOfWeek ?? 1]}s at ${time}`;
+    return `Day ${report.dayOfMonth ?? 1} of each month at ${time}`;
+  };
+
+  const describeFilters = (filters: Partial<ReportFilters>) => {
+    const parts: string[] = [];
+    if (filters.departments?.length) parts.push(filters.departments.join(', '));
+    if (filters.roles?.length) parts.push(filters.roles.join(', '));
+    if (filters.courses?.length) parts.push(`${filters.courses.length} course(s)`);
+    if (filters.statuses?.length) parts.push(filters.statuses.map(s => STATUS_LABELS[s] || s).join(', '));
+    if (filters.mandatoryOnly) parts.push('Mandatory only');
+    return parts.length > 0 ? parts.join(' · ') : 'All staff and courses';
+  };
+
+  const describeCurrentFilters = () => describeFilters({
+    ...currentFilters,
+    courses: currentFilters.courses.filter(id => courses.some(c => c.id === id)),
+  });
+
+  return (
+    <div className="card bg-base-100 shadow-sm mt-6" data-testid="card-scheduled-reports">
+      <div className="card-body">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="card-title">
+              <i className="fas fa-calendar-alt"></i>
+              Scheduled Reports
+            </h2>
+            <p className="text-sm text-base-content/70">Email this matrix, the overdue list or completion analytics to a list of people on a schedule.</p>
+          </div>
+          <button className="btn btn-primary btn-sm" onClick={() => openEditor()} data-testid="button-create-scheduled-report">
+            <i className="fas fa-plus"></i> Schedule Report
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <span className="loading loading-spinner loading-md"></span>
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-base-content/60 py-4">No scheduled reports yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Report</th>
+                  <th>Filters</th>
+                  <th>Schedule</th>
+                  <th>Recipients</th>
+                  <th>Last sent</th>
+                  <th>Active</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {reports.map((report) => (
+                  <tr key={report.id} data-testid={`row-scheduled-report-${report.id}`}>
+                    <td>
+                      <div className="font-semibold">{report.name}</div>
+                      <div className="text-xs text-base-content/60">{REPORT_TYPES[report.reportType]} · {report.format.toUpperCase()}</div>
+                    </td>
+                    <td className="text-sm">{report.reportType === 'completions' ? '-' : describeFilters(report.filters)}</td>
+                    <td className="text-sm">
+                      {describeSchedule(report)}
+                      {report.isActive && report.nextRunAt && (
+                        <div className="text-xs text-base-content/60">Next: {new Date(report.nextRunAt).toLocaleString('en-GB')}</div>
+                      )}
+                    </td>
+                    <td className="text-sm">{report.recipients.join(', ')}</td>
+                    <td className="text-sm">
+                      {report.lastRunAt ? new Date(report.lastRunAt).toLocaleString('en-GB') : 'Never'}
+                      {report.lastRunStatus === 'failed' && (
+                        <div className="badge badge-error badge-sm ml-1" title={report.lastError || undefined}>Failed</div>
+                      )}
+                      {report.lastRunStatus !== 'failed' && report.lastError && (
+                        <div className="badge badge-warning badge-sm ml-1" title={report.lastError}>Partly queued</div>
+                      )}
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        className="toggle toggle-success toggle-sm"
+                        checked={report.isActive}
+                        onChange={() => toggleMutation.mutate(report)}
+                        disabled={toggleMutation.isPending}
+                        data-testid={`toggle-scheduled-report-${report.id}`}
+                      />
+                    </td>
+                    <td>
+                      <div className="flex gap-1">
+                        <button
+                          className="btn btn-ghost btn-xs"
+                          onClick={() => sendNowMutation.mutate(report.id)}
+                          disabled={sendNowMutation.isPending}
+                          title="Send now"
+                          data-testid={`button-send-scheduled-report-${report.id}`}
+                        >
+                          {sendNowMutation.isPending && sendNowMutation.variables === report.id
+                            ? <span className="loading loading-spinner loading-xs"></span>
+                            : <i className="fas fa-paper-plane"></i>}
+                        </button>
+                        <button className="btn btn-ghost btn-xs" onClick={() => openEditor(report)} data-testid={`button-edit-scheduled-report-${report.id}`}>
+                          <i className="fas fa-edit"></i>
+                        </button>
+                        <button className="btn btn-ghost btn-xs text-error" onClick={() => deleteMutation.mutate(report.id)} data-testid={`button-delete-scheduled-report-${report.id}`}>
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">{editing ? 'Edit Scheduled Report' : 'Schedule Report'}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Report name</span></label>
+                <input className="input input-bordered" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Weekly care team compliance" data-testid="input-scheduled-report-name" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Report</span></label>
+                <select className="select select-bordered" value={form.reportType} onChange={(e) => setForm({ ...form, reportType: e.target.value as ReportForm['reportType'] })} data-testid="select-scheduled-report-type">
+                  {Object.entries(REPORT_TYPES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Format</span></label>
+                <select
+                  className="select select-bordered"
+                  value={form.reportType === 'training_matrix' ? form.format : 'csv'}
+                  onChange={(e) => setForm({ ...form, format: e.target.value })}
+                  disabled={form.reportType !== 'training_matrix'}
+                  data-testid="select-scheduled-report-format"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="xlsx">Excel</option>
+                  <option value="pdf">PDF</option>
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Frequency</span></label>
+                <select className="select select-bordered" value={form.frequency} onChange={(e) => setForm({ ...form, frequency: e.target.value as ReportForm['frequency'] })} data-testid="select-scheduled-report-frequency">
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Time</span></label>
+                <select className="select select-bordered" value={form.hour} onChange={(e) => setForm({ ...form, hour: e.target.value })} data-testid="select-scheduled-report-hour">
+                  {Array.from({ length: 24 }, (_, hour) => <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>)}
+                </select>
+              </div>
+              {form.frequency === 'weekly' && (
+                <div className="form-control">
+                  <label className="label"><span className="label-text">Day</span></label>
+                  <select className="select select-bordered" value={form.dayOfWeek} onChange={(e) => setForm({ ...form, dayOfWeek: e.target.value })} data-testid="select-scheduled-report-day-of-week">
+                    {DAYS.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                  </select>
+                </div>
+              )}
+              {form.frequency === 'monthly' && (
+                <div className="form-control">
+                  <label className="label"><span className="label-text">Day of month</span></label>
+                  <select className="select select-bordered" value={form.dayOfMonth} onChange={(e) => setForm({ ...form, dayOfMonth: e.target.value })} data-testid="select-scheduled-report-day-of-month">
+                    {Array.from({ length: 28 }, (_, index) => <option key={index + 1} value={index + 1}>{index + 1}</option>)}
+                  </select>
+                </div>
+              )}
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Recipients</span></label>
+                <textarea
+                  className="textarea textarea-bordered"
+                  rows={2}
+                  value={form.recipients}
+                  onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                  placeholder="manager@example.com, hr@example.com"
+                  data-testid="input-scheduled-report-recipients"
+                />
+              </div>
+              {form.reportType !== 'completions' && (
+                <div className="form-control md:col-span-2">
+                  <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={form.useCurrentFilters}
+                      onChange={(e) => setForm({ ...form, useCurrentFilters: e.target.checked })}
+                      data-testid="checkbox-scheduled-report-use-filters"
+                    />
+                    <span className="label-text">
+                      {editing ? 'Replace the saved filters with the current view' : 'Use the current matrix filters'}
+                      <span className="block text-xs text-base-content/60">{describeCurrentFilters()}</span>
+                    </span>
+                  </label>
+                </div>
+              )}
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeEditor}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !form.name || !form.recipients.trim()}
+                data-testid="button-save-scheduled-report"
+              >
+                {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
@@ -46,7 +46,9 @@ const PLACEHOLDERS = [
   '{{SCORE_PERCENT}}',
   '{{PASS_FAIL}}',
   '{{DATE_COMPLETED}}',
-  '{{CERTIFICATE_ID}}'
+  '{{CERTIFICATE_ID}}',
+  '{{VERIFY_URL}}',
+  '{{VERIFY_QR}}'
 ];
 
 const FONT_FAMILIES = [
@@ -259,7 +261,9 @@ export function VisualCertificateEditor({ onSave, initialTemplate }: VisualCerti
       '{{SCORE_PERCENT}}': '95%',
       '{{PASS_FAIL}}': 'PASSED',
       '{{DATE_COMPLETED}}': new Date().toLocaleDateString(),
-      '{{CERTIFICATE_ID}}': 'CERT-2025-001'
+      '{{CERTIFICATE_ID}}': 'K7QM-2XRD-9FBN-4TWC',
+      '{{VERIFY_URL}}': `${window.location.origin}/verify/K7QM-2XRD-9FBN-4TWC`,
+      '{{VERIFY_QR}}': '[QR code]'
     };
 
     return {
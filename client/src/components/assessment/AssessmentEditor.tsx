@@ -0,0 +1,365 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type QuestionType = 'single_choice' | 'multiple_choice' | 'true_false' | 'free_text';
+
+interface EditableQuestion {
+  id?: string;
+  key: string; // stable React key - saved questions use their id
+  type: QuestionType;
+  prompt: string;
+  options: { id: string; text: string }[];
+  correctOptionIds: string[];
+  points: number;
+}
+
+interface AssessmentSettings {
+  questionsPerAttempt: number | null;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  timeLimitMinutes: number | null;
+  maxAttempts: number | null;
+}
+
+interface AssessmentEditorProps {
+  courseId: string;
+  courseTitle: string;
+  onClose: () => void;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  free_text: 'Written answer (marked by an admin)',
+};
+
+const TRUE_FALSE_OPTIONS = [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }];
+
+const defaultSettings: AssessmentSettings = {
+  questionsPerAttempt: null,
+  shuffleQuestions: true,
+  shuffleOptions: true,
+  timeLimitMinutes: null,
+  maxAttempts: null,
+};
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const newQuestion = (type: QuestionType): EditableQuestion => ({
+  key: newId(),
+  type,
+  prompt: '',
+  options: type === 'true_false' ? TRUE_FALSE_OPTIONS : type === 'free_text' ? [] : [{ id: newId(), text: '' }, { id: newId(), text: '' }],
+  correctOptionIds: [],
+  points: 1,
+});
+
+const parseOptionalNumber = (value: string) => value ? parseInt(value) || null : null;
+
+// Question bank and attempt settings for a native assessment course
+export function AssessmentEditor({ courseId, courseTitle, onClose }: AssessmentEditorProps) {
+  const [settings, setSettings] = useState<AssessmentSettings>(defaultSettings);
+  const [questions, setQuestions] = useState<EditableQuestion[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ settings: AssessmentSettings | null; questions: (Omit<EditableQuestion, 'key'> & { id: string })[] }>({
+    queryKey: ['/api/courses', courseId, 'assessment'],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setSettings(data.settings ? {
+        questionsPerAttempt: data.settings.questionsPerAttempt,
+        shuffleQuestions: data.settings.shuffleQuestions,
+        shuffleOptions: data.settings.shuffleOptions,
+        timeLimitMinutes: data.settings.timeLimitMinutes,
+        maxAttempts: data.settings.maxAttempts,
+      } : defaultSettings);
+      setQuestions(data.questions.map(q => ({
+        id: q.id,
+        key: q.id,
+        type: q.type,
+        prompt: q.prompt,
+        options: q.options,
+        correctOptionIds: q.correctOptionIds,
+        points: q.points,
+      })));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest('PUT', `/api/courses/${courseId}/assessment`, {
+      settings,
+      questions: questions.map(({ key, ...question }) => question),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId, 'assessment'] });
+      toast({ title: "Success", description: "Assessment saved" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save assessment", variant: "destructive" });
+    },
+  });
+
+  const updateQuestion = (key: string, changes: Partial<EditableQuestion>) => {
+    setQuestions(prev => prev.map(q => q.key === key ? { ...q, ...changes } : q));
+  };
+
+  const changeType = (question: EditableQuestion, type: QuestionType) => {
+    const fresh = newQuestion(type);
+    // Keep the options already written when switching between the two choice types
+    const keepOptions = question.type !== 'true_false' && question.type !== 'free_text' && (type === 'single_choice' || type === 'multiple_choice');
+    updateQuestion(question.key, {
+      type,
+      options: keepOptions ? question.options : fresh.options,
+      correctOptionIds: keepOptions && type === 'multiple_choice' ? question.correctOptionIds : keepOptions ? question.correctOptionIds.slice(0, 1) : [],
+    });
+  };
+
+  const toggleCorrect = (question: EditableQuestion, optionId: string) => {
+    if (question.type === 'multiple_choice') {
+      const correct = question.correctOptionIds.includes(optionId)
+        ? question.correctOptionIds.filter(id => id !== optionId)
+        : [...question.correctOptionIds, optionId];
+      updateQuestion(question.key, { correctOptionIds: correct });
+    } else {
+      updateQuestion(question.key, { correctOptionIds: [optionId] });
+    }
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    setQuestions(prev => {
+      const next = prev.slice();
+      const [moved] = next.splice(index, 1);
+      next.splice(target, 0, moved);
+      return next;
+    });
+  };
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-4xl">
+        <h3 className="font-bold text-lg mb-4" data-testid="text-assessment-editor-title">Assessment: {courseTitle}</h3>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : (
+          <div className="space-y-6">
+            {/* Attempt settings */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="form-control">
+                <label className="label"><span className="label-text">Questions per attempt</span></label>
+                <input
+                  type="number"
+                  min="1"
+                  className="input input-bordered"
+                  placeholder={`All (${questions.length})`}
+                  value={settings.questionsPerAttempt ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, questionsPerAttempt: parseOptionalNumber(e.target.value) }))}
+                  data-testid="input-questions-per-attempt"
+                />
+                <label className="label"><span className="label-text-alt">Drawn at random from the bank</span></label>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Time limit (minutes)</span></label>
+                <input
+                  type="number"
+                  min="1"
+                  className="input input-bordered"
+                  placeholder="No limit"
+                  value={settings.timeLimitMinutes ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, timeLimitMinutes: parseOptionalNumber(e.target.value) }))}
+                  data-testid="input-time-limit"
+                />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Attempts allowed</span></label>
+                <input
+                  type="number"
+                  min="1"
+                  className="input input-bordered"
+                  placeholder="Unlimited"
+                  value={settings.maxAttempts ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, maxAttempts: parseOptionalNumber(e.target.value) }))}
+                  data-testid="input-max-attempts"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              <label className="label cursor-pointer gap-3">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={settings.shuffleQuestions}
+                  onChange={(e) => setSettings(prev => ({ ...prev, shuffleQuestions: e.target.checked }))}
+                  data-testid="checkbox-shuffle-questions"
+                />
+                <span className="label-text">Shuffle question order</span>
+              </label>
+              <label className="label cursor-pointer gap-3">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={settings.shuffleOptions}
+                  onChange={(e) => setSettings(prev => ({ ...prev, shuffleOptions: e.target.checked }))}
+                  data-testid="checkbox-shuffle-options"
+                />
+                <span className="label-text">Shuffle answer options</span>
+              </label>
+            </div>
+
+            {/* Question bank */}
+            <div className="space-y-4">
+              {questions.map((question, index) => (
+                <div key={question.key} className="card bg-base-200" data-testid={`card-edit-question-${index + 1}`}>
+                  <div className="card-body p-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">Question {index + 1}</span>
+                      <select
+                        className="select select-bordered select-sm"
+                        value={question.type}
+                        onChange={(e) => changeType(question, e.target.value as QuestionType)}
+                        data-testid={`select-question-type-${index + 1}`}
+                      >
+                        {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                          <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-2 text-sm">
+                        Marks
+                        <input
+                          type="number"
+                          min="1"
+                          className="input input-bordered input-sm w-20"
+                          value={question.points}
+                          onChange={(e) => updateQuestion(question.key, { points: parseInt(e.target.value) || 1 })}
+                          data-testid={`input-question-points-${index + 1}`}
+                        />
+                      </label>
+                      <div className="ml-auto flex gap-1">
+                        <button className="btn btn-ghost btn-xs" onClick={() => moveQuestion(index, -1)} disabled={index === 0} title="Move up">
+                          <i className="fas fa-arrow-up"></i>
+                        </button>
+                        <button className="btn btn-ghost btn-xs" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1} title="Move down">
+                          <i className="fas fa-arrow-down"></i>
+                        </button>
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => setQuestions(prev => prev.filter(q => q.key !== question.key))}
+                          data-testid={`button-remove-question-${index + 1}`}
+                        >
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      </div>
+                    </div>
+
+                    <textarea
+                      className="textarea textarea-bordered w-full"
+                      rows={2}
+                      placeholder="Question text"
+                      value={question.prompt}
+                      onChange={(e) => updateQuestion(question.key, { prompt: e.target.value })}
+                      data-testid={`input-question-prompt-${index + 1}`}
+                    />
+
+                    {question.type !== 'free_text' && (
+                      <div className="space-y-2">
+                        <p className="text-xs text-base-content/60">
+                          {question.type === 'multiple_choice' ? 'Tick every correct answer' : 'Select the correct answer'}
+                        </p>
+                        {question.options.map(option => (
+                          <div key={option.id} className="flex items-center gap-2">
+                            <input
+                              type={question.type === 'multiple_choice' ? 'checkbox' : 'radio'}
+                              name={`correct-${question.key}`}
+                              className={question.type === 'multiple_choice' ? 'checkbox checkbox-success' : 'radio radio-success'}
+                              checked={question.correctOptionIds.includes(option.id)}
+                              onChange={() => toggleCorrect(question, option.id)}
+                            />
+                            {question.type === 'true_false' ? (
+                              <span>{option.text}</span>
+                            ) : (
+                              <>
+                                <input
+                                  type="text"
+                                  className="input input-bordered input-sm flex-1"
+                                  placeholder="Answer option"
+                                  value={option.text}
+                                  onChange={(e) => updateQuestion(question.key, {
+                                    options: question.options.map(o => o.id === option.id ? { ...o, text: e.target.value } : o),
+                                  })}
+                                />
+                                <button
+                                  className="btn btn-ghost btn-xs"
+                                  onClick={() => updateQuestion(question.key, {
+                                    options: question.options.filter(o => o.id !== option.id),
+                                    correctOptionIds: question.correctOptionIds.filter(id => id !== option.id),
+                                  })}
+                                  disabled={question.options.length <= 2}
+                                >
+                                  <i className="fas fa-times"></i>
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        ))}
+                        {question.type !== 'true_false' && (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            onClick={() => updateQuestion(question.key, { options: [...question.options, { id: newId(), text: '' }] })}
+                          >
+                            <i className="fas fa-plus"></i> Add option
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {questions.length === 0 && (
+                <p className="text-center text-base-content/60 py-6" data-testid="text-no-questions">No questions yet - add the first one below.</p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                  <button
+                    key={type}
+                    className="btn btn-outline btn-sm"
+                    onClick={() => setQuestions(prev => [...prev, newQuestion(type)])}
+                    data-testid={`button-add-question-${type}`}
+                  >
+                    <i className="fas fa-plus"></i> {QUESTION_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose} data-testid="button-cancel-assessment-editor">Cancel</button>
+          <button
+            className="btn btn-primary"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || isLoading}
+            data-testid="button-save-assessment"
+          >
+            {saveMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+            Save Assessment
+          </button>
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AssessmentQuestion {
+  questionId: string;
+  type: 'single_choice' | 'multiple_choice' | 'true_false' | 'free_text';
+  prompt: string;
+  options: { id: string; text: string }[];
+  points: number;
+}
+
+type Answers = Record<string, string[] | string>;
+
+interface AssessmentAttempt {
+  id: string;
+  attemptNumber: number;
+  status: 'in_progress' | 'awaiting_marking' | 'completed';
+  questions: AssessmentQuestion[];
+  answers: Answers;
+  startedAt: string | null;
+  expiresAt: string | null;
+  submittedAt: string | null;
+  score: number | null;
+  passed: boolean | null;
+}
+
+interface AssessmentState {
+  courseTitle: string;
+  passmark: number;
+  questionCount: number;
+  timeLimitMinutes: number | null;
+  maxAttempts: number | null;
+  attemptsUsed: number;
+  canStart: boolean;
+  assignmentCompleted: boolean;
+  current: AssessmentAttempt | null;
+  attempts: AssessmentAttempt[];
+}
+
+interface AssessmentPlayerProps {
+  assignmentId: string;
+  courseId: string;
+  courseTitle: string;
+  onClose: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Native assessments - questions from the course's bank, answered in the browser
+export function AssessmentPlayer({ assignmentId, courseId, courseTitle, onClose }: AssessmentPlayerProps) {
+  const [answers, setAnswers] = useState<Answers>({});
+  const [dirty, setDirty] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const submittingRef = useRef(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const stateKey = ['/api/assessments', assignmentId];
+  const { data: state, isLoading } = useQuery<AssessmentState>({
+    queryKey: stateKey,
+  });
+
+  const attempt = state?.current?.status === 'in_progress' ? state.current : null;
+
+  // Pick up answers saved earlier when resuming
+  useEffect(() => {
+    if (attempt) {
+      setAnswers(attempt.answers || {});
+      setDirty(false);
+    }
+  }, [attempt?.id]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: stateKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/lms/enrolments', courseId, 'state'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/learning-paths'] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/assessments/${assignmentId}/attempts`),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to start assessment", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (toSave: Answers) => apiRequest('PUT', `/api/assessment-attempts/${attempt!.id}/answers`, { answers: toSave }),
+    onSuccess: () => setDirty(false),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/assessment-attempts/${attempt!.id}/submit`, { answers });
+      return await response.json() as AssessmentAttempt;
+    },
+    onSuccess: (submitted) => {
+      refresh();
+      if (submitted.status === 'awaiting_marking') {
+        toast({ title: "Success", description: "Submitted - your written answers will be marked by an administrator" });
+      } else {
+        toast({
+          title: submitted.passed ? "Success" : "Not passed",
+          description: `You scored ${submitted.score}%`,
+          variant: submitted.passed ? "default" : "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      submittingRef.current = false;
+      toast({ title: "Error", description: error.message || "Failed to submit assessment", variant: "destructive" });
+    },
+  });
+
+  // Save answers a moment after the learner stops changing them
+  useEffect(() => {
+    if (!attempt || !dirty) return;
+    const timer = setTimeout(() => saveMutation.mutate(answers), 1500);
+    return () => clearTimeout(timer);
+  }, [answers, dirty, attempt?.id]);
+
+  // Countdown, handing the attempt in when the time runs out
+  const expiresAt = attempt?.expiresAt ? new Date(attempt.expiresAt).getTime() : null;
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  useEffect(() => {
+    if (expiresAt && now >= expiresAt && !submittingRef.current) {
+      submittingRef.current = true;
+      submitMutation.mutate();
+    }
+  }, [now, expiresAt]);
+
+  useEffect(() => {
+    submittingRef.current = false;
+  }, [attempt?.id]);
+
+  const setAnswer = (questionId: string, value: string[] | string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+    setDirty(true);
+  };
+
+  const toggleOption = (questionId: string, optionId: string) => {
+    const chosen = Array.isArray(answers[questionId]) ? answers[questionId] as string[] : [];
+    setAnswer(questionId, chosen.includes(optionId) ? chosen.filter(id => id !== optionId) : [...chosen, optionId]);
+  };
+
+  const isAnswered = (question: AssessmentQuestion) => {
+    const answer = answers[question.questionId];
+    return Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+  };
+
+  const handleSubmit = () => {
+    const unanswered = attempt ? attempt.questions.filter(q => !isAnswered(q)).length : 0;
+    if (unanswered > 0 && !confirm(`You haven't answered ${unanswered} question(s). Submit anyway?`)) {
+      return;
+    }
+    submittingRef.current = true;
+    submitMutation.mutate();
+  };
+
+  const handleClose = () => {
+    if (attempt && dirty) {
+      saveMutation.mutate(answers);
+    }
+    onClose();
+  };
+
+  const lastAttempt = state?.attempts[state.attempts.length - 1];
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-3xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg" data-testid="text-assessment-title">{courseTitle}</h3>
+          <div className="flex items-center gap-3">
+            {attempt && expiresAt && (
+              <span
+                className={`badge badge-lg ${expiresAt - now < 60000 ? 'badge-error' : 'badge-ghost'}`}
+                data-testid="text-assessment-time-remaining"
+              >
+                <i className="fas fa-clock mr-2"></i>{formatRemaining(expiresAt - now)}
+              </span>
+            )}
+            <button className="btn btn-sm btn-circle" onClick={handleClose} data-testid="button-close-assessment">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        {isLoading || !state ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : attempt ? (
+          <div className="space-y-6">
+            {attempt.questions.map((question, index) => (
+              <div key={question.questionId} className="card bg-base-200" data-testid={`card-question-${index + 1}`}>
+                <div className="card-body">
+                  <div className="flex justify-between gap-4">
+                    <h4 className="font-semibold whitespace-pre-line">{index + 1}. {question.prompt}</h4>
+                    <span className="text-xs text-base-content/60 whitespace-nowrap">{question.points} {question.points === 1 ? 'mark' : 'marks'}</span>
+                  </div>
+                  {question.type === 'multiple_choice' && (
+                    <p className="text-sm text-base-content/60">Select all that apply</p>
+                  )}
+
+                  {question.type === 'free_text' ? (
+                    <textarea
+                      className="textarea textarea-bordered mt-2"
+                      rows={4}
+                      value={(answers[question.questionId] as string) || ''}
+                      onChange={(e) => setAnswer(question.questionId, e.target.value)}
+                      data-testid={`input-answer-${index + 1}`}
+                    />
+                  ) : (
+                    <div className="space-y-1 mt-2">
+                      {question.options.map(option => {
+                        const chosen = Array.isArray(answers[question.questionId]) ? answers[question.questionId] as string[] : [];
+                        return (
+                          <label key={option.id} className="label cursor-pointer justify-start gap-3">
+                            <input
+                              type={question.type === 'multiple_choice' ? 'checkbox' : 'radio'}
+                              name={`question-${question.questionId}`}
+                              className={question.type === 'multiple_choice' ? 'checkbox checkbox-primary' : 'radio radio-primary'}
+                              checked={chosen.includes(option.id)}
+                              onChange={() => question.type === 'multiple_choice'
+                                ? toggleOption(question.questionId, option.id)
+                                : setAnswer(question.questionId, [option.id])}
+                              data-testid={`option-${index + 1}-${option.id}`}
+                            />
+                            <span className="label-text">{option.text}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-base-content/60">
+                {saveMutation.isPending ? 'Saving...' : dirty ? 'Unsaved changes' : 'Answers saved'}
+              </span>
+              <button
+                className="btn btn-primary"
+                onClick={handleSubmit}
+                disabled={submitMutation.isPending}
+                data-testid="button-submit-assessment"
+              >
+                {submitMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+                Submit
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="stat bg-base-200 rounded-lg p-4">
+                <div className="stat-title">Questions</div>
+                <div className="stat-value text-2xl">{state.questionCount}</div>
+              </div>
+              <div className="stat bg-base-200 rounded-lg p-4">
+                <div className="stat-title">Pass Mark</div>
+                <div className="stat-value text-2xl">{state.passmark}%</div>
+              </div>
+              <div className="stat bg-base-200 rounded-lg p-4">
+                <div className="stat-title">Time Limit</div>
+                <div className="stat-value text-2xl">{state.timeLimitMinutes ? `${state.timeLimitMinutes} min` : 'None'}</div>
+              </div>
+              <div className="stat bg-base-200 rounded-lg p-4">
+                <div className="stat-title">Attempts</div>
+                <div className="stat-value text-2xl">{state.attemptsUsed}{state.maxAttempts ? ` / ${state.maxAttempts}` : ''}</div>
+              </div>
+            </div>
+
+            {state.current?.status === 'awaiting_marking' && (
+              <div className="alert alert-info" data-testid="alert-awaiting-marking">
+                <i className="fas fa-hourglass-half"></i>
+                <span>Your attempt has been submitted. Your written answers are waiting to be marked by an administrator.</span>
+              </div>
+            )}
+
+            {lastAttempt?.status === 'completed' && (
+              <div className={`alert ${lastAttempt.passed ? 'alert-success' : 'alert-error'}`} data-testid="alert-last-result">
+                <i className={`fas ${lastAttempt.passed ? 'fa-check-circle' : 'fa-times-circle'}`}></i>
+                <span>
+                  Attempt {lastAttempt.attemptNumber}: you scored {lastAttempt.score}%
+                  {lastAttempt.passed ? ' and passed.' : ` - ${state.passmark}% is needed to pass.`}
+                </span>
+              </div>
+            )}
+
+            {!state.assignmentCompleted && !state.canStart && !state.current && state.attemptsUsed > 0 && (
+              <p className="text-base-content/70">You have used all your attempts at this assessment.</p>
+            )}
+            {!state.canStart && state.questionCount === 0 && (
+              <p className="text-base-content/70">This assessment has no questions yet.</p>
+            )}
+
+            <div className="modal-action">
+              <button className="btn" onClick={handleClose} data-testid="button-close-assessment-footer">Close</button>
+              {state.canStart && (
+                <button
+                  className="btn btn-primary"
+                  onClick={() => startMutation.mutate()}
+                  disabled={startMutation.isPending}
+                  data-testid="button-start-assessment"
+                >
+                  {startMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+                  {state.attemptsUsed > 0 ? 'Try Again' : 'Start Assessment'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={handleClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+
+interface ForgotPasswordProps {
+  initialEmail: string;
+  onBack: () => void;
+}
+
+/**
+ * Request a password reset link by email
+ */
+export function ForgotPassword({ initialEmail, onBack }: ForgotPasswordProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [sentMessage, setSentMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/password-reset/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSentMessage(data.message);
+      } else {
+        setError(data.message || 'Failed to request password reset');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" data-testid="form-forgot-password">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Reset your password</h2>
+        <p className="text-gray-600 text-sm">
+          Enter the email address for your account and we'll send you a link to choose a new password.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm" data-testid="text-forgot-password-error">
+          {error}
+        </div>
+      )}
+
+      {sentMessage ? (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" data-testid="text-forgot-password-sent">
+          {sentMessage} The link expires in an hour.
+        </div>
+      ) : (
+        <>
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <i className="fas fa-envelope text-gray-400"></i>
+            </div>
+            <input
+              type="email"
+              placeholder="Enter your email address"
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#634396] focus:border-transparent transition-all"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoFocus
+              required
+              data-testid="input-forgot-password-email"
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-[#634396] hover:bg-[#5a3a87] text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+            disabled={isLoading}
+            data-testid="button-send-reset-link"
+          >
+            {isLoading ? <span className="loading loading-spinner loading-sm"></span> : <i className="fas fa-paper-plane"></i>}
+            Send Reset Link
+          </button>
+        </>
+      )}
+
+      <button type="button" className="text-sm text-gray-600 hover:underline" onClick={onBack} data-testid="button-forgot-password-back">
+        Back to login
+      </button>
+    </form>
+  );
+}
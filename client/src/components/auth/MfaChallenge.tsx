@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { RecoveryCodes } from './RecoveryCodes';
+
+interface MfaChallengeProps {
+  enrolmentRequired: boolean;
+  onRestart: (message?: string) => void;
+}
+
+interface Enrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+const inputClassName = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#634396] focus:border-transparent transition-all";
+const primaryButtonClassName = "w-full bg-[#634396] hover:bg-[#5a3a87] text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl";
+
+/**
+ * Second sign-in step: enter a TOTP or recovery code, or set up an authenticator app when MFA is required
+ */
+export function MfaChallenge({ enrolmentRequired, onRestart }: MfaChallengeProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [redirectUrl, setRedirectUrl] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const post = async (url: string, body?: object) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body || {}),
+    });
+    const data = await response.json();
+    if (!response.ok && data.restartLogin) {
+      onRestart(data.message);
+    }
+    return { ok: response.ok, data };
+  };
+
+  useEffect(() => {
+    if (!enrolmentRequired) return;
+    post('/api/login/mfa/enrol')
+      .then(({ ok, data }) => ok ? setEnrolment(data) : setError(data.message || 'Failed to start two-factor setup'))
+      .catch(() => setError('Network error. Please try again.'));
+  }, [enrolmentRequired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      if (enrolmentRequired) {
+        const { ok, data } = await post('/api/login/mfa/enrol/verify', { code });
+        if (ok) {
+          setRecoveryCodes(data.recoveryCodes);
+          setRedirectUrl(data.redirectUrl || '/dashboard');
+        } else {
+          setError(data.message || 'Incorrect code');
+        }
+      } else {
+        const { ok, data } = await post('/api/login/mfa', useRecoveryCode ? { recoveryCode: code } : { code });
+        if (ok) {
+          window.location.href = data.redirectUrl || '/dashboard';
+        } else {
+          setError(data.message || 'Incorrect code');
+        }
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setCode('');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6" data-testid="mfa-enrolled">
+        <h2 className="text-2xl font-bold text-gray-800">Two-factor authentication is on</h2>
+        <RecoveryCodes codes={recoveryCodes} />
+        <button type="button" className={primaryButtonClassName} onClick={() => { window.location.href = redirectUrl; }} data-testid="button-mfa-continue">
+          <i className="fas fa-arrow-right"></i>
+          I've Saved My Codes - Continue
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" data-testid="form-mfa">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">
+          {enrolmentRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+        </h2>
+        <p className="text-gray-600 text-sm">
+          {enrolmentRequired
+            ? 'Your account requires an authenticator app. Scan the QR code with Google Authenticator, Microsoft Authenticator or similar, then enter the 6-digit code it shows.'
+            : useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm" data-testid="text-mfa-error">
+          {error}
+        </div>
+      )}
+
+      {enrolmentRequired && (
+        enrolment ? (
+          <div className="flex flex-col items-center gap-2">
+            <img src={enrolment.qrCodeDataUrl} alt="Authenticator QR code" className="w-48 h-48" data-testid="img-mfa-qr" />
+            <div className="text-xs text-gray-500">Can't scan? Enter this key instead:</div>
+            <code className="text-sm font-mono break-all text-center" data-testid="text-mfa-secret">{enrolment.secret}</code>
+          </div>
+        ) : (
+          <div className="flex justify-center py-6">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        )
+      )}
+
+      <input
+        type="text"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        className={`${inputClassName} text-center tracking-widest font-mono text-lg`}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoFocus
+        required
+        data-testid="input-mfa-code"
+      />
+
+      <button type="submit" className={primaryButtonClassName} disabled={isLoading || (enrolmentRequired && !enrolment)} data-testid="button-mfa-verify">
+        {isLoading ? <span className="loading loading-spinner loading-sm"></span> : <i className="fas fa-shield-halved"></i>}
+        Verify
+      </button>
+
+      <div className="flex justify-between text-sm">
+        {!enrolmentRequired ? (
+          <button
+            type="button"
+            className="text-[#634396] hover:underline"
+            onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+            data-testid="button-toggle-recovery-code"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        ) : <span />}
+        <button type="button" className="text-gray-600 hover:underline" onClick={() => onRestart()} data-testid="button-mfa-back">
+          Back to login
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RecoveryCodes } from "./RecoveryCodes";
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enrolledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+type Action = 'enrol' | 'regenerate' | 'disable' | null;
+
+/**
+ * Profile card for turning two-factor authentication on or off and replacing recovery codes
+ */
+export function MfaSettings() {
+  const [action, setAction] = useState<Action>(null);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<MfaStatus>({
+    queryKey: ['/api/mfa'],
+  });
+
+  const reset = () => {
+    setAction(null);
+    setEnrolment(null);
+    setCode("");
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Two-factor authentication request failed",
+      variant: "destructive",
+    });
+    setCode("");
+  };
+
+  const startEnrolmentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/mfa/enrol');
+      return response.json();
+    },
+    onSuccess: (data: Enrolment) => {
+      setRecoveryCodes(null);
+      setEnrolment(data);
+      setAction('enrol');
+    },
+    onError,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const url = action === 'enrol' ? '/api/mfa/enrol/verify'
+        : action === 'regenerate' ? '/api/mfa/recovery-codes'
+        : '/api/mfa/disable';
+      const response = await apiRequest('POST', url, { code });
+      return response.json();
+    },
+    onSuccess: (data: { recoveryCodes?: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mfa'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      setRecoveryCodes(data.recoveryCodes || null);
+      toast({
+        title: "Success",
+        description: action === 'enrol' ? "Two-factor authentication is now on"
+          : action === 'regenerate' ? "New recovery codes generated"
+          : "Two-factor authentication is now off",
+      });
+      reset();
+    },
+    onError,
+  });
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-8 mt-6" data-testid="card-mfa-settings">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-bold">Two-Factor Authentication</h2>
+          <p className="text-sm text-base-content/70 mt-1">
+            Protect your password sign-in with a code from an authenticator app.
+          </p>
+        </div>
+        <span className={`badge ${status.enabled ? 'badge-success' : 'badge-ghost'}`} data-testid="badge-mfa-status">
+          {status.enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {status.required && !status.enabled && (
+        <div className="alert alert-warning mb-4">
+          <i className="fas fa-exclamation-triangle"></i>
+          <span>Your organisation requires two-factor authentication for your account. You will be asked to set it up at your next sign-in.</span>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-4">
+          <RecoveryCodes codes={recoveryCodes} />
+          <button className="btn btn-sm btn-ghost mt-2" onClick={() => setRecoveryCodes(null)} data-testid="button-dismiss-recovery-codes">
+            Done
+          </button>
+        </div>
+      )}
+
+      {action ? (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitMutation.mutate();
+          }}
+        >
+          {action === 'enrol' && enrolment && (
+            <div className="flex flex-col sm:flex-row gap-4 items-center">
+              <img src={enrolment.qrCodeDataUrl} alt="Authenticator QR code" className="w-40 h-40" data-testid="img-mfa-qr" />
+              <div className="text-sm space-y-2">
+                <p>Scan the QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+                <p className="text-base-content/70">Can't scan? Enter this key instead:</p>
+                <code className="font-mono break-all" data-testid="text-mfa-secret">{enrolment.secret}</code>
+              </div>
+            </div>
+          )}
+          {action !== 'enrol' && (
+            <p className="text-sm">
+              {action === 'regenerate'
+                ? 'Enter a code from your authenticator app. Your existing recovery codes will stop working.'
+                : 'Enter a code from your authenticator app or one of your recovery codes.'}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input input-bordered w-48 font-mono"
+              placeholder="123456"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              data-testid="input-mfa-code"
+            />
+            <button type="submit" className="btn btn-primary" disabled={submitMutation.isPending} data-testid="button-mfa-confirm">
+              {submitMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Confirm'}
+            </button>
+            <button type="button" className="btn btn-ghost" onClick={reset} data-testid="button-mfa-cancel">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : status.enabled ? (
+        <div className="space-y-3">
+          <p className="text-sm" data-testid="text-recovery-codes-remaining">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining
+          </p>
+          <div className="flex gap-2">
+            <button className="btn btn-outline btn-sm" onClick={() => { setRecoveryCodes(null); setAction('regenerate'); }} data-testid="button-regenerate-recovery-codes">
+              <i className="fas fa-rotate"></i>
+              New Recovery Codes
+            </button>
+            {!status.required && (
+              <button className="btn btn-outline btn-error btn-sm" onClick={() => { setRecoveryCodes(null); setAction('disable'); }} data-testid="button-disable-mfa">
+                <i className="fas fa-lock-open"></i>
+                Turn Off
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={() => startEnrolmentMutation.mutate()}
+          disabled={startEnrolmentMutation.isPending}
+          data-testid="button-enable-mfa"
+        >
+          <i className="fas fa-shield-halved"></i>
+          Set Up Two-Factor Authentication
+        </button>
+      )}
+    </div>
+  );
+}
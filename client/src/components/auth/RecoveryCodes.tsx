@@ -0,0 +1,37 @@
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const download = () => {
+    const blob = new Blob([`inteLMS recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'intelms-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="recovery-codes">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-gray-50 border border-gray-200 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code} data-testid={`text-recovery-code-${code}`}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button type="button" className="btn btn-sm btn-outline" onClick={() => navigator.clipboard.writeText(codes.join('\n'))} data-testid="button-copy-recovery-codes">
+          <i className="fas fa-copy"></i> Copy
+        </button>
+        <button type="button" className="btn btn-sm btn-outline" onClick={download} data-testid="button-download-recovery-codes">
+          <i className="fas fa-download"></i> Download
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import inteLMSLogo from '@assets/inteLMS_1757337182057.png';
+import { MfaChallenge } from './MfaChallenge';
+import { ForgotPassword } from './ForgotPassword';
 
 type AuthMode = 'login' | 'signup';
 type AccountType = 'individual' | 'organisation';
@@ -10,8 +12,15 @@ export function SignIn() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [error, setError] = useState('');
+  // SSO callbacks send failures back to the landing page as ?ssoError=
+  const [error, setError] = useState(() => new URLSearchParams(window.location.search).get('ssoError') || '');
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password (or an SSO sign-in, returning with ?ssoMfa=) is accepted but a second factor is still needed
+  const [mfaStep, setMfaStep] = useState<{ enrolmentRequired: boolean } | null>(() => {
+    const ssoMfa = new URLSearchParams(window.location.search).get('ssoMfa');
+    return ssoMfa ? { enrolmentRequired: ssoMfa === 'enrol' } : null;
+  });
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
 
   // Individual signup fields
   const [firstName, setFirstName] = useState('');
@@ -68,7 +77,9 @@ export function SignIn() {
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.mfaRequired) {
+        setMfaStep({ enrolmentRequired: !!data.enrolmentRequired });
+      } else if (response.ok) {
         window.location.href = data.redirectUrl || '/dashboard';
       } else {
         setError(data.message || 'Quick login failed');
@@ -96,9 +107,16 @@ export function SignIn() {
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.mfaRequired) {
+        // Password accepted - ask for the authenticator code before signing in
+        setPassword('');
+        setMfaStep({ enrolmentRequired: !!data.enrolmentRequired });
+      } else if (response.ok) {
         // Login successful, redirect to appropriate dashboard
         window.location.href = data.redirectUrl || '/dashboard';
+      } else if (data.ssoLoginUrl) {
+        // Organisation enforces single sign-on - hand over to its identity provider
+        window.location.href = data.ssoLoginUrl;
       } else {
         setError(data.message || 'Login failed');
       }
@@ -110,6 +128,30 @@ export function SignIn() {
   };
 
 
+  const handleSsoLogin = async () => {
+    setError('');
+    if (!email) {
+      setError('Enter your email address to sign in with single sign-on');
+      return;
+    }
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/sso/discover?email=${encodeURIComponent(email)}`);
+      const data = await response.json();
+
+      if (response.ok && data.ssoEnabled) {
+        window.location.href = data.loginUrl;
+      } else {
+        setError(data.message || 'Single sign-on is not set up for this email address');
+        setIsLoading(false);
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
   const handleIndividualSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -334,8 +376,27 @@ export function SignIn() {
             </div>
           )}
 
+          {/* Second factor */}
+          {authMode === 'login' && mfaStep && (
+            <MfaChallenge
+              enrolmentRequired={mfaStep.enrolmentRequired}
+              onRestart={(message) => {
+                setMfaStep(null);
+                setError(message || '');
+              }}
+            />
+          )}
+
+          {/* Forgot password */}
+          {authMode === 'login' && showForgotPassword && (
+            <ForgotPassword
+              initialEmail={email}
+              onBack={() => setShowForgotPassword(false)}
+            />
+          )}
+
           {/* Login Form */}
-          {authMode === 'login' && (
+          {authMode === 'login' && !mfaStep && !showForgotPassword && (
             <form onSubmit={handleSubmit} className="space-y-6">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -388,6 +449,17 @@ export function SignIn() {
                     Remember Me
                   </label>
                 </div>
+                <button
+                  type="button"
+                  className="text-sm text-[#634396] hover:underline"
+                  onClick={() => {
+                    setError('');
+                    setShowForgotPassword(true);
+                  }}
+                  data-testid="button-forgot-password"
+                >
+                  Forgot password?
+                </button>
               </div>
 
               <button 
@@ -408,6 +480,17 @@ export function SignIn() {
                   </>
                 )}
               </button>
+
+              <button 
+                type="button" 
+                className="w-full border border-[#634396] text-[#634396] hover:bg-[#634396]/5 font-semibold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center gap-2"
+                onClick={handleSsoLogin}
+                data-testid="button-sso-signin"
+                disabled={isLoading}
+              >
+                <i className="fas fa-building-lock"></i>
+                Sign In With Single Sign-On
+              </button>
             </form>
           )}
 
@@ -778,7 +861,7 @@ export function SignIn() {
           )}
 
           {/* Quick Login Section - Only show on login mode */}
-          {authMode === 'login' && (
+          {authMode === 'login' && !mfaStep && !showForgotPassword && (
             <div className="mt-8">
               <div className="relative">
                 <div className="absolute inset-0 flex items-center">
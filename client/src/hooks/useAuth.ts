@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { User, Permission } from "@shared/schema";
+
+// The current user, with what their role lets them do
+export type AuthUser = User & { permissions?: Permission[] };
 
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User>({
+  const { data: user, isLoading, error } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
     staleTime: 0, // Always revalidate
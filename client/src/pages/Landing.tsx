@@ -8,7 +8,11 @@ import elderlyImage1 from '@assets/stock_images/elderly_care_nurse_w_677752cb.jp
 import elderlyImage2 from '@assets/stock_images/elderly_care_nurse_w_d02fbe22.jpg';
 
 export function Landing() {
-  const [showLoginForm, setShowLoginForm] = useState(false);
+  // SSO sign-ins return here with ?ssoError= or ?ssoMfa= - go straight to the form to show it
+  const [showLoginForm, setShowLoginForm] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return params.has('ssoError') || params.has('ssoMfa');
+  });
   const [contactForm, setContactForm] = useState({
     name: '',
     email: '',
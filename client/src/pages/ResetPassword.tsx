@@ -0,0 +1,119 @@
+import { useState } from "react";
+import inteLMSLogo from '@assets/inteLMS_1757337182057.png';
+
+export function ResetPassword() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token') || '');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/password-reset/complete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, newPassword, confirmPassword }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSuccessMessage(data.message);
+      } else {
+        setError(data.message || 'Failed to reset password');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200 flex items-center justify-center p-4">
+      <div className="card bg-base-100 shadow-lg w-full max-w-md">
+        <div className="card-body">
+          <div className="flex items-center justify-between mb-4">
+            <img src={inteLMSLogo} alt="inteLMS" className="h-10" />
+            <span className="text-sm text-base-content/60">Reset password</span>
+          </div>
+
+          {!token ? (
+            <div className="alert alert-error" data-testid="alert-reset-link-missing">
+              <i className="fas fa-circle-xmark"></i>
+              <span>This reset link is incomplete. Open the link from your email again, or request a new one from the login page.</span>
+            </div>
+          ) : successMessage ? (
+            <>
+              <div className="alert alert-success" data-testid="alert-password-reset">
+                <i className="fas fa-circle-check"></i>
+                <span>{successMessage}</span>
+              </div>
+              <a href="/" className="btn btn-primary mt-4" data-testid="link-back-to-login">
+                Go to Login
+              </a>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="alert alert-error" data-testid="alert-reset-error">
+                  <i className="fas fa-circle-xmark"></i>
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <label className="form-control w-full">
+                <div className="label">
+                  <span className="label-text">New Password</span>
+                </div>
+                <input
+                  type="password"
+                  className="input input-bordered w-full"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  minLength={6}
+                  autoComplete="new-password"
+                  required
+                  data-testid="input-new-password"
+                />
+              </label>
+
+              <label className="form-control w-full">
+                <div className="label">
+                  <span className="label-text">Confirm New Password</span>
+                </div>
+                <input
+                  type="password"
+                  className="input input-bordered w-full"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  minLength={6}
+                  autoComplete="new-password"
+                  required
+                  data-testid="input-confirm-password"
+                />
+              </label>
+
+              <button type="submit" className="btn btn-primary w-full" disabled={isLoading} data-testid="button-reset-password">
+                {isLoading ? <span className="loading loading-spinner loading-sm"></span> : 'Reset Password'}
+              </button>
+              <div className="text-sm text-base-content/60">
+                Resetting your password signs you out on every device.
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import inteLMSLogo from '@assets/inteLMS_1757337182057.png';
+
+interface CertificateVerification {
+  verificationCode: string;
+  learnerName: string | null;
+  courseTitle: string | null;
+  organisationName: string | null;
+  issuedAt: string;
+  expiryDate: string | null;
+  status: 'valid' | 'expired' | 'revoked';
+  revokedAt: string | null;
+}
+
+const statusDisplay = {
+  valid: { label: 'Valid certificate', icon: 'fa-circle-check', className: 'alert-success' },
+  expired: { label: 'This certificate has expired', icon: 'fa-clock', className: 'alert-warning' },
+  revoked: { label: 'This certificate has been revoked', icon: 'fa-ban', className: 'alert-error' },
+};
+
+export function VerifyCertificate({ code }: { code: string }) {
+  const { data: certificate, isLoading, error } = useQuery<CertificateVerification>({
+    queryKey: ['/api/certificates/verify', code],
+  });
+
+  return (
+    <div className="min-h-screen bg-base-200 flex items-center justify-center p-4">
+      <div className="card bg-base-100 shadow-lg w-full max-w-lg">
+        <div className="card-body">
+          <div className="flex items-center justify-between mb-4">
+            <img src={inteLMSLogo} alt="inteLMS" className="h-10" />
+            <span className="text-sm text-base-content/60">Certificate verification</span>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <span className="loading loading-spinner loading-lg"></span>
+            </div>
+          ) : error || !certificate ? (
+            <div className="alert alert-error" data-testid="alert-certificate-not-found">
+              <i className="fas fa-circle-xmark"></i>
+              <div>
+                <div className="font-semibold">Certificate not found</div>
+                <div className="text-sm">
+                  No certificate matches the code <span className="font-mono">{code}</span>. Check the code and try again.
+                </div>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className={`alert ${statusDisplay[certificate.status].className}`} data-testid="alert-certificate-status">
+                <i className={`fas ${statusDisplay[certificate.status].icon}`}></i>
+                <div>
+                  <div className="font-semibold">{statusDisplay[certificate.status].label}</div>
+                  {certificate.status === 'revoked' && certificate.revokedAt && (
+                    <div className="text-sm">Revoked on {new Date(certificate.revokedAt).toLocaleDateString()}</div>
+                  )}
+                </div>
+              </div>
+
+              <dl className="grid grid-cols-3 gap-y-3 mt-4 text-sm">
+                <dt className="text-base-content/60">Learner</dt>
+                <dd className="col-span-2 font-semibold" data-testid="text-learner-name">{certificate.learnerName || '-'}</dd>
+
+                <dt className="text-base-content/60">Course</dt>
+                <dd className="col-span-2" data-testid="text-course-title">{certificate.courseTitle || '-'}</dd>
+
+                <dt className="text-base-content/60">Issued by</dt>
+                <dd className="col-span-2" data-testid="text-organisation-name">{certificate.organisationName || '-'}</dd>
+
+                <dt className="text-base-content/60">Issued</dt>
+                <dd className="col-span-2" data-testid="text-issued-date">
+                  {new Date(certificate.issuedAt).toLocaleDateString()}
+                </dd>
+
+                <dt className="text-base-content/60">Expires</dt>
+                <dd className="col-span-2" data-testid="text-expiry-date">
+                  {certificate.expiryDate ? new Date(certificate.expiryDate).toLocaleDateString() : 'Never'}
+                </dd>
+
+                <dt className="text-base-content/60">Code</dt>
+                <dd className="col-span-2 font-mono" data-testid="text-verification-code">{certificate.verificationCode}</dd>
+              </dl>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
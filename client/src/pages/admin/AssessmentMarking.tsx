@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AttemptToMark {
+  id: string;
+  attemptNumber: number;
+  submittedAt: string | null;
+  userName: string;
+  department: string | null;
+  courseTitle: string;
+  autoScore: number;
+  writtenAnswers: { questionId: string; prompt: string; points: number; answer: string | string[] }[];
+}
+
+export function AdminAssessmentMarking() {
+  const [marking, setMarking] = useState<AttemptToMark | null>(null);
+  const [marks, setMarks] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: attempts = [], isLoading } = useQuery<AttemptToMark[]>({
+    queryKey: ['/api/assessment-marking'],
+  });
+
+  const closeMarking = () => {
+    setMarking(null);
+    setMarks({});
+  };
+
+  const markMutation = useMutation({
+    mutationFn: async () => {
+      if (!marking) throw new Error('No attempt selected');
+      const response = await apiRequest('POST', `/api/assessment-marking/${marking.id}`, { marks });
+      return await response.json();
+    },
+    onSuccess: (result: { score: number; passed: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assessment-marking'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/training-matrix'] });
+      closeMarking();
+      toast({ title: "Success", description: `Marked - ${result.score}% (${result.passed ? 'pass' : 'fail'})` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to mark attempt", variant: "destructive" });
+    },
+  });
+
+  const allMarked = !!marking && marking.writtenAnswers.every(a => marks[a.questionId] !== undefined);
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Assessment Marking</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold" data-testid="text-page-title">Assessment Marking</h1>
+        <p className="text-base-content/70">Assessment attempts with written answers wait here until they are marked. The result is recorded once every answer is marked.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+      ) : attempts.length === 0 ? (
+        <div className="text-center py-12 text-base-content/60" data-testid="text-no-attempts-to-mark">
+          <i className="fas fa-clipboard-check text-4xl mb-4"></i>
+          <p>Nothing to mark.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra" data-testid="table-assessment-marking">
+            <thead>
+              <tr>
+                <th>Learner</th>
+                <th>Course</th>
+                <th>Attempt</th>
+                <th>Submitted</th>
+                <th>Choice questions</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map(attempt => (
+                <tr key={attempt.id} data-testid={`row-assessment-attempt-${attempt.id}`}>
+                  <td>
+                    <div className="font-semibold">{attempt.userName}</div>
+                    {attempt.department && <div className="text-xs text-base-content/60">{attempt.department}</div>}
+                  </td>
+                  <td>{attempt.courseTitle}</td>
+                  <td>{attempt.attemptNumber}</td>
+                  <td>{attempt.submittedAt ? new Date(attempt.submittedAt).toLocaleString() : '-'}</td>
+                  <td>{attempt.autoScore}%</td>
+                  <td>
+                    <button
+                      className="btn btn-sm btn-primary"
+                      onClick={() => setMarking(attempt)}
+                      data-testid={`button-mark-attempt-${attempt.id}`}
+                    >
+                      <i className="fas fa-pen"></i> Mark
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Marking Modal */}
+      {marking && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-3xl">
+            <h3 className="font-bold text-lg mb-1" data-testid="text-marking-title">{marking.courseTitle}</h3>
+            <p className="text-sm text-base-content/70 mb-4">{marking.userName} - attempt {marking.attemptNumber}</p>
+
+            <div className="space-y-4">
+              {marking.writtenAnswers.map((written, index) => (
+                <div key={written.questionId} className="card bg-base-200" data-testid={`card-written-answer-${index + 1}`}>
+                  <div className="card-body p-4">
+                    <div className="flex justify-between gap-4">
+                      <p className="font-semibold">{written.prompt}</p>
+                      <span className="badge badge-ghost">{written.points} {written.points === 1 ? 'mark' : 'marks'}</span>
+                    </div>
+                    <p className="whitespace-pre-wrap bg-base-100 rounded p-3 text-sm">
+                      {(Array.isArray(written.answer) ? written.answer.join(', ') : written.answer) || <span className="italic text-base-content/60">No answer given</span>}
+                    </p>
+                    <div className="join">
+                      <button
+                        className={`btn btn-sm join-item ${marks[written.questionId] === true ? 'btn-success' : 'btn-outline'}`}
+                        onClick={() => setMarks(prev => ({ ...prev, [written.questionId]: true }))}
+                        data-testid={`button-mark-correct-${index + 1}`}
+                      >
+                        <i className="fas fa-check"></i> Correct
+                      </button>
+                      <button
+                        className={`btn btn-sm join-item ${marks[written.questionId] === false ? 'btn-error' : 'btn-outline'}`}
+                        onClick={() => setMarks(prev => ({ ...prev, [written.questionId]: false }))}
+                        data-testid={`button-mark-incorrect-${index + 1}`}
+                      >
+                        <i className="fas fa-times"></i> Incorrect
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeMarking} data-testid="button-cancel-marking">Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => markMutation.mutate()}
+                disabled={!allMarked || markMutation.isPending}
+                data-testid="button-submit-marking"
+              >
+                {markMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+                Record Result
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeMarking}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
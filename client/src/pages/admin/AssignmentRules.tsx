@@ -0,0 +1,375 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Course {
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface UserGroup {
+  id: string;
+  displayName: string;
+  memberCount: number;
+}
+
+interface AssignmentRule {
+  id: string;
+  name: string;
+  courseId: string;
+  courseTitle: string;
+  department: string | null;
+  jobTitle: string | null;
+  groupId: string | null;
+  createdOnOrAfter: string | null;
+  dueDaysAfterStart: number | null;
+  isActive: boolean;
+  lastRunAt: string | null;
+}
+
+interface RuleForm {
+  name: string;
+  courseId: string;
+  department: string;
+  jobTitle: string;
+  groupId: string;
+  createdOnOrAfter: string;
+  dueDaysAfterStart: string;
+}
+
+interface RulePreview {
+  matchingUsers: number;
+  alreadyAssigned: number;
+  users: {
+    id: string;
+    name: string;
+    email: string | null;
+    department: string | null;
+    jobTitle: string | null;
+    alreadyAssigned: boolean;
+    dueDate: string | null;
+  }[];
+}
+
+const emptyForm: RuleForm = {
+  name: "",
+  courseId: "",
+  department: "",
+  jobTitle: "",
+  groupId: "",
+  createdOnOrAfter: "",
+  dueDaysAfterStart: "",
+};
+
+export function AdminAssignmentRules() {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery<AssignmentRule[]>({
+    queryKey: ['/api/assignment-rules'],
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const { data: userGroups = [] } = useQuery<UserGroup[]>({
+    queryKey: ['/api/user-groups'],
+  });
+
+  const toRequestBody = () => ({
+    name: form.name,
+    courseId: form.courseId,
+    department: form.department || null,
+    jobTitle: form.jobTitle || null,
+    groupId: form.groupId || null,
+    createdOnOrAfter: form.createdOnOrAfter || null,
+    dueDaysAfterStart: form.dueDaysAfterStart ? parseInt(form.dueDaysAfterStart) : null,
+  });
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditingRule(null);
+    setForm(emptyForm);
+    setPreview(null);
+  };
+
+  const openEditor = (rule?: AssignmentRule) => {
+    if (rule) {
+      setEditingRule(rule);
+      setForm({
+        name: rule.name,
+        courseId: rule.courseId,
+        department: rule.department || "",
+        jobTitle: rule.jobTitle || "",
+        groupId: rule.groupId || "",
+        createdOnOrAfter: rule.createdOnOrAfter ? rule.createdOnOrAfter.slice(0, 10) : "",
+        dueDaysAfterStart: rule.dueDaysAfterStart !== null ? String(rule.dueDaysAfterStart) : "",
+      });
+    }
+    setShowEditor(true);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/assignment-rules/preview', toRequestBody());
+      return response.json();
+    },
+    onSuccess: (data: RulePreview) => setPreview(data),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to preview rule", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editingRule) {
+        return apiRequest('PUT', `/api/assignment-rules/${editingRule.id}`, toRequestBody());
+      }
+      return apiRequest('POST', '/api/assignment-rules', toRequestBody());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      closeEditor();
+      toast({ title: "Success", description: "Assignment rule saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save assignment rule", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: AssignmentRule) => {
+      return apiRequest('PUT', `/api/assignment-rules/${rule.id}`, { isActive: !rule.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update assignment rule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/assignment-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({ title: "Success", description: "Assignment rule deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete assignment rule", variant: "destructive" });
+    },
+  });
+
+  const describeConditions = (rule: AssignmentRule) => {
+    const parts: string[] = [];
+    if (rule.department) parts.push(`department is ${rule.department}`);
+    if (rule.jobTitle) parts.push(`job title is ${rule.jobTitle}`);
+    if (rule.groupId) parts.push(`group is ${userGroups.find(g => g.id === rule.groupId)?.displayName || 'a deleted group'}`);
+    if (rule.createdOnOrAfter) parts.push(`started on or after ${new Date(rule.createdOnOrAfter).toLocaleDateString('en-GB')}`);
+    return parts.length > 0 ? `Users whose ${parts.join(' and ')}` : 'All active users';
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    // Any change to the conditions makes the previous preview stale
+    setPreview(null);
+  };
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Assignment Rules</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Assignment Rules</h1>
+          <p className="text-base-content/70">Automatically assign courses to users by department, job title, group and start date.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => openEditor()} data-testid="button-create-rule">
+          <i className="fas fa-plus"></i> New Rule
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading loading-spinner loading-lg"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-12">
+          <i className="fas fa-magic text-6xl text-base-content/30 mb-4"></i>
+          <h3 className="text-2xl font-bold mb-2">No assignment rules yet</h3>
+          <p className="text-base-content/60">Rules assign courses to new and existing users that match them.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Rule</th>
+                <th>Course</th>
+                <th>Applies to</th>
+                <th>Due</th>
+                <th>Last run</th>
+                <th>Active</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id} data-testid={`row-rule-${rule.id}`}>
+                  <td className="font-semibold">{rule.name}</td>
+                  <td>{rule.courseTitle}</td>
+                  <td className="text-sm">{describeConditions(rule)}</td>
+                  <td className="text-sm">{rule.dueDaysAfterStart !== null ? `${rule.dueDaysAfterStart} days after start` : 'No due date'}</td>
+                  <td className="text-sm">{rule.lastRunAt ? new Date(rule.lastRunAt).toLocaleString('en-GB') : 'Never'}</td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-success"
+                      checked={rule.isActive}
+                      onChange={() => toggleMutation.mutate(rule)}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`toggle-rule-${rule.id}`}
+                    />
+                  </td>
+                  <td>
+                    <div className="flex gap-1">
+                      <button className="btn btn-ghost btn-xs" onClick={() => openEditor(rule)} data-testid={`button-edit-rule-${rule.id}`}>
+                        <i className="fas fa-edit"></i>
+                      </button>
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => deleteMutation.mutate(rule.id)} data-testid={`button-delete-rule-${rule.id}`}>
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-3xl">
+            <h3 className="font-bold text-lg mb-4">{editingRule ? 'Edit Assignment Rule' : 'New Assignment Rule'}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Rule name</span></label>
+                <input className="input input-bordered" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} placeholder="e.g. Carers - Safeguarding L2" data-testid="input-rule-name" />
+              </div>
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Course</span></label>
+                <select className="select select-bordered" value={form.courseId} onChange={(e) => updateForm({ courseId: e.target.value })} data-testid="select-rule-course">
+                  <option value="">Select a course...</option>
+                  {courses.filter(c => c.status !== 'archived').map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Department</span></label>
+                <input className="input input-bordered" value={form.department} onChange={(e) => updateForm({ department: e.target.value })} placeholder="Any department" data-testid="input-rule-department" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Job title</span></label>
+                <input className="input input-bordered" value={form.jobTitle} onChange={(e) => updateForm({ jobTitle: e.target.value })} placeholder="Any job title" data-testid="input-rule-job-title" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">User group</span></label>
+                <select className="select select-bordered" value={form.groupId} onChange={(e) => updateForm({ groupId: e.target.value })} data-testid="select-rule-group">
+                  <option value="">Any group</option>
+                  {userGroups.map(g => <option key={g.id} value={g.id}>{g.displayName} ({g.memberCount})</option>)}
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Started on or after</span></label>
+                <input type="date" className="input input-bordered" value={form.createdOnOrAfter} onChange={(e) => updateForm({ createdOnOrAfter: e.target.value })} data-testid="input-rule-start-date" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Due (days after start)</span></label>
+                <input type="number" min="0" className="input input-bordered" value={form.dueDaysAfterStart} onChange={(e) => updateForm({ dueDaysAfterStart: e.target.value })} placeholder="No due date" data-testid="input-rule-due-days" />
+              </div>
+            </div>
+
+            {preview && (
+              <div className="mt-6" data-testid="rule-preview">
+                <div className="alert alert-info mb-2">
+                  <i className="fas fa-users"></i>
+                  <span>
+                    {preview.matchingUsers} user(s) match this rule. {preview.matchingUsers - preview.alreadyAssigned} would be assigned
+                    {preview.alreadyAssigned > 0 ? `, ${preview.alreadyAssigned} already have the course` : ''}.
+                  </span>
+                </div>
+                {preview.users.length > 0 && (
+                  <div className="max-h-56 overflow-y-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>User</th>
+                          <th>Department</th>
+                          <th>Job title</th>
+                          <th>Due</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.users.map((u) => (
+                          <tr key={u.id} className={u.alreadyAssigned ? 'opacity-50' : ''}>
+                            <td>{u.name}{u.alreadyAssigned && <span className="badge badge-ghost badge-sm ml-2">Already assigned</span>}</td>
+                            <td>{u.department || '-'}</td>
+                            <td>{u.jobTitle || '-'}</td>
+                            <td>{u.dueDate ? new Date(u.dueDate).toLocaleDateString('en-GB') : '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeEditor}>Cancel</button>
+              <button
+                className="btn btn-outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending || !form.courseId}
+                data-testid="button-preview-rule"
+              >
+                {previewMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : <><i className="fas fa-eye"></i> Preview</>}
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !form.name || !form.courseId}
+                data-testid="button-save-rule"
+              >
+                {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+            {!editingRule && (
+              <p className="text-xs text-base-content/60 text-right">New rules are saved switched off. Turn them on from the list once the preview looks right.</p>
+            )}
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 interface Certificate {
   id: string;
@@ -10,6 +12,9 @@ interface Certificate {
   certificateUrl: string;
   issuedAt: string;
   expiryDate?: string;
+  verificationCode?: string | null;
+  revokedAt?: string | null;
+  revocationReason?: string | null;
   user?: {
     firstName: string;
     lastName: string;
@@ -23,6 +28,10 @@ interface Certificate {
 export default function Certificates() {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [revokingCertificate, setRevokingCertificate] = useState<Certificate | null>(null);
+  const [revocationReason, setRevocationReason] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   // Fetch certificates for the organization
   const { data: certificates, isLoading } = useQuery({
@@ -48,6 +57,24 @@ export default function Certificates() {
     window.open(`/api/certificates/${certificate.id}/download`, '_blank');
   };
 
+  const revokeMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) =>
+      apiRequest('POST', `/api/certificates/${id}/revoke`, { reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/certificates', user?.organisationId] });
+      closeRevokeDialog();
+      toast({ title: "Success", description: "Certificate revoked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to revoke certificate", variant: "destructive" });
+    },
+  });
+
+  const closeRevokeDialog = () => {
+    setRevokingCertificate(null);
+    setRevocationReason("");
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -113,6 +140,7 @@ export default function Certificates() {
                     <th>Course</th>
                     <th>Issued Date</th>
                     <th>Expiry Date</th>
+                    <th>Status</th>
                     <th>Actions</th>
                   </tr>
                 </thead>
@@ -148,14 +176,49 @@ export default function Certificates() {
                         </span>
                       </td>
                       <td>
-                        <button
-                          className="btn btn-sm btn-outline"
-                          onClick={() => handleDownload(certificate)}
-                          data-testid={`button-download-${certificate.id}`}
-                        >
-                          <i className="fas fa-download"></i>
-                          Download
-                        </button>
+                        {certificate.revokedAt ? (
+                          <div className="tooltip" data-tip={certificate.revocationReason || 'No reason given'}>
+                            <span className="badge badge-error" data-testid={`badge-revoked-${certificate.id}`}>Revoked</span>
+                          </div>
+                        ) : certificate.expiryDate && new Date(certificate.expiryDate) < new Date() ? (
+                          <span className="badge badge-warning" data-testid={`badge-expired-${certificate.id}`}>Expired</span>
+                        ) : (
+                          <span className="badge badge-success" data-testid={`badge-valid-${certificate.id}`}>Valid</span>
+                        )}
+                      </td>
+                      <td>
+                        <div className="flex gap-2">
+                          <button
+                            className="btn btn-sm btn-outline"
+                            onClick={() => handleDownload(certificate)}
+                            data-testid={`button-download-${certificate.id}`}
+                          >
+                            <i className="fas fa-download"></i>
+                            Download
+                          </button>
+                          {certificate.verificationCode && (
+                            <a
+                              className="btn btn-sm btn-ghost"
+                              href={`/verify/${certificate.verificationCode}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title="Open verification page"
+                              data-testid={`link-verify-${certificate.id}`}
+                            >
+                              <i className="fas fa-qrcode"></i>
+                            </a>
+                          )}
+                          {!certificate.revokedAt && (
+                            <button
+                              className="btn btn-sm btn-ghost text-error"
+                              onClick={() => setRevokingCertificate(certificate)}
+                              data-testid={`button-revoke-${certificate.id}`}
+                            >
+                              <i className="fas fa-ban"></i>
+                              Revoke
+                            </button>
+                          )}
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -200,6 +263,44 @@ export default function Certificates() {
           </div>
         </div>
       )}
+
+      {/* Revoke Certificate Dialog */}
+      {revokingCertificate && (
+        <dialog className="modal modal-open">
+          <div className="modal-box">
+            <h3 className="font-bold text-lg">Revoke certificate</h3>
+            <p className="py-2 text-sm">
+              The certificate for <strong>{revokingCertificate.user?.firstName} {revokingCertificate.user?.lastName}</strong> ({revokingCertificate.course?.title}) will show as revoked to anyone who verifies it. This cannot be undone.
+            </p>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Reason</span>
+              </label>
+              <textarea
+                className="textarea textarea-bordered"
+                placeholder="e.g. Issued in error"
+                value={revocationReason}
+                onChange={(e) => setRevocationReason(e.target.value)}
+                data-testid="textarea-revocation-reason"
+              />
+            </div>
+            <div className="modal-action">
+              <button className="btn" onClick={closeRevokeDialog}>Cancel</button>
+              <button
+                className="btn btn-error"
+                onClick={() => revokeMutation.mutate({ id: revokingCertificate.id, reason: revocationReason })}
+                disabled={revokeMutation.isPending}
+                data-testid="button-confirm-revoke"
+              >
+                {revokeMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Revoke'}
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeRevokeDialog}>close</button>
+          </form>
+        </dialog>
+      )}
     </div>
   );
 }
\ No newline at end of file
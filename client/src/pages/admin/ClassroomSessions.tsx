@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ClassroomRegister,
+  formatSessionTime,
+  describeSessionLocation,
+  type ClassroomSessionSummary,
+} from "@/components/ClassroomRegister";
+
+interface ClassroomSession extends ClassroomSessionSummary {
+  courseId: string;
+  description: string | null;
+  capacity: number;
+  trainerId: string | null;
+  selfBookingEnabled: boolean;
+}
+
+interface Course {
+  id: string;
+  title: string;
+}
+
+interface OrgUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  role: string;
+  status: string;
+}
+
+interface SessionForm {
+  title: string;
+  courseId: string;
+  description: string;
+  startsAt: string;
+  endsAt: string;
+  deliveryMode: 'in_person' | 'virtual';
+  venue: string;
+  meetingUrl: string;
+  capacity: string;
+  trainerId: string;
+  selfBookingEnabled: boolean;
+}
+
+const emptyForm: SessionForm = {
+  title: "",
+  courseId: "",
+  description: "",
+  startsAt: "",
+  endsAt: "",
+  deliveryMode: "in_person",
+  venue: "",
+  meetingUrl: "",
+  capacity: "12",
+  trainerId: "",
+  selfBookingEnabled: true,
+};
+
+// datetime-local inputs work in local time without a zone
+const toDateTimeInput = (date: string) => {
+  const d = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export function AdminClassroomSessions() {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editing, setEditing] = useState<ClassroomSession | null>(null);
+  const [form, setForm] = useState<SessionForm>(emptyForm);
+  const [registerSessionId, setRegisterSessionId] = useState<string | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ClassroomSession[]>({
+    queryKey: ['/api/classroom/sessions'],
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const { data: users = [] } = useQuery<OrgUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const activeUsers = users.filter(u => u.status === 'active');
+  const learners = activeUsers.filter(u => u.role === 'user');
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEditor = (session?: ClassroomSession) => {
+    if (session) {
+      setEditing(session);
+      setForm({
+        title: session.title,
+        courseId: session.courseId,
+        description: session.description || "",
+        startsAt: toDateTimeInput(session.startsAt),
+        endsAt: toDateTimeInput(session.endsAt),
+        deliveryMode: session.deliveryMode,
+        venue: session.venue || "",
+        meetingUrl: session.meetingUrl || "",
+        capacity: String(session.capacity),
+        trainerId: session.trainerId || "",
+        selfBookingEnabled: session.selfBookingEnabled,
+      });
+    }
+    setShowEditor(true);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/classroom/sessions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        title: form.title,
+        courseId: form.courseId,
+        description: form.description || null,
+        startsAt: new Date(form.startsAt).toISOString(),
+        endsAt: new Date(form.endsAt).toISOString(),
+        deliveryMode: form.deliveryMode,
+        venue: form.deliveryMode === 'in_person' ? form.venue || null : null,
+        meetingUrl: form.meetingUrl || null,
+        capacity: parseInt(form.capacity),
+        trainerId: form.trainerId || null,
+        selfBookingEnabled: form.selfBookingEnabled,
+      };
+      if (editing) {
+        return apiRequest('PUT', `/api/classroom/sessions/${editing.id}`, body);
+      }
+      return apiRequest('POST', '/api/classroom/sessions', body);
+    },
+    onSuccess: () => {
+      invalidate();
+      closeEditor();
+      toast({ title: "Success", description: editing ? "Session saved - booked learners have been sent the new details" : "Session created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save session", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('POST', `/api/classroom/sessions/${id}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Session cancelled and learners notified" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to cancel session", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/classroom/sessions/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Session deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete session", variant: "destructive" });
+    },
+  });
+
+  const now = new Date();
+  const visibleSessions = sessions
+    .filter(s => showPast || new Date(s.endsAt) >= now)
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  const registerSession = sessions.find(s => s.id === registerSessionId);
+
+  const capacity = parseInt(form.capacity);
+  const isFormValid = !!form.title.trim() && !!form.courseId && !!form.startsAt && !!form.endsAt &&
+    new Date(form.endsAt) > new Date(form.startsAt) && capacity >= 1 &&
+    (form.deliveryMode === 'in_person' || !!form.meetingUrl);
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Classroom Sessions</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Classroom Sessions</h1>
+          <p className="text-base-content/70">Face-to-face and virtual training. Attendance counts towards the course just like an e-learning pass.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => openEditor()} data-testid="button-create-session">
+          <i className="fas fa-plus"></i> Add Session
+        </button>
+      </div>
+
+      <label className="label cursor-pointer justify-start gap-3 mb-4">
+        <input type="checkbox" className="checkbox checkbox-sm" checked={showPast} onChange={(e) => setShowPast(e.target.checked)} data-testid="checkbox-show-past-sessions" />
+        <span className="label-text">Show past sessions</span>
+      </label>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading loading-spinner loading-lg"></div>
+        </div>
+      ) : visibleSessions.length === 0 ? (
+        <div className="text-center py-12">
+          <i className="fas fa-chalkboard-teacher text-6xl text-base-content/30 mb-4"></i>
+          <h3 className="text-2xl font-bold mb-2">No classroom sessions</h3>
+          <p className="text-base-content/60">Schedule a session for training that is delivered in person or over a video call.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Session</th>
+                <th>When</th>
+                <th>Where</th>
+                <th>Trainer</th>
+                <th>Places</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleSessions.map((session) => {
+                const isPast = new Date(session.startsAt) <= now;
+                return (
+                  <tr key={session.id} data-testid={`row-session-${session.id}`}>
+                    <td>
+                      <div className="font-semibold">{session.title}</div>
+                      <div className="text-sm text-base-content/60">{session.courseTitle}</div>
+                      {session.cancelledAt && <span className="badge badge-error badge-sm">Cancelled</span>}
+                    </td>
+                    <td className="text-sm">{formatSessionTime(session)}</td>
+                    <td className="text-sm">
+                      {session.deliveryMode === 'virtual' ? <><i className="fas fa-video mr-1"></i>Online</> : describeSessionLocation(session)}
+                    </td>
+                    <td className="text-sm">{session.trainerName || '-'}</td>
+                    <td className="text-sm" data-testid={`text-session-places-${session.id}`}>
+                      {session.places.booked} / {session.places.capacity}
+                      {session.places.waitlisted > 0 && <div className="text-xs text-warning">{session.places.waitlisted} waiting</div>}
+                    </td>
+                    <td>
+                      <div className="flex gap-1">
+                        <button className="btn btn-ghost btn-xs" onClick={() => setRegisterSessionId(session.id)} title="Register" data-testid={`button-register-${session.id}`}>
+                          <i className="fas fa-clipboard-list"></i>
+                        </button>
+                        {!session.cancelledAt && !isPast && (
+                          <>
+                            <button className="btn btn-ghost btn-xs" onClick={() => openEditor(session)} title="Edit" data-testid={`button-edit-session-${session.id}`}>
+                              <i className="fas fa-edit"></i>
+                            </button>
+                            <button
+                              className="btn btn-ghost btn-xs text-warning"
+                              onClick={() => confirm('Cancel this session? Everyone booked will be told.') && cancelMutation.mutate(session.id)}
+                              title="Cancel session"
+                              data-testid={`button-cancel-session-${session.id}`}
+                            >
+                              <i className="fas fa-ban"></i>
+                            </button>
+                          </>
+                        )}
+                        {session.places.booked === 0 && session.places.waitlisted === 0 && (
+                          <button className="btn btn-ghost btn-xs text-error" onClick={() => deleteMutation.mutate(session.id)} title="Delete" data-testid={`button-delete-session-${session.id}`}>
+                            <i className="fas fa-trash"></i>
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {registerSession && (
+        <ClassroomRegister
+          session={registerSession}
+          onClose={() => setRegisterSessionId(null)}
+          bookableUsers={learners}
+        />
+      )}
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">{editing ? 'Edit Session' : 'Add Session'}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Title</span></label>
+                <input className="input input-bordered" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder="e.g. Manual Handling - Leeds" data-testid="input-session-title" />
+              </div>
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Course</span></label>
+                <select className="select select-bordered" value={form.courseId} onChange={(e) => setForm({ ...form, courseId: e.target.value })} data-testid="select-session-course">
+                  <option value="">Select the course this session delivers...</option>
+                  {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+              </div>
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Description</span></label>
+                <textarea className="textarea textarea-bordered" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-session-description" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Starts</span></label>
+                <input type="datetime-local" className="input input-bordered" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} data-testid="input-session-starts" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Ends</span></label>
+                <input type="datetime-local" className="input input-bordered" value={form.endsAt} min={form.startsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} data-testid="input-session-ends" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Delivery</span></label>
+                <select className="select select-bordered" value={form.deliveryMode} onChange={(e) => setForm({ ...form, deliveryMode: e.target.value as SessionForm['deliveryMode'] })} data-testid="select-session-delivery">
+                  <option value="in_person">In person</option>
+                  <option value="virtual">Virtual</option>
+                </select>
+              </div>
+              {form.deliveryMode === 'in_person' ? (
+                <div className="form-control">
+                  <label className="label"><span className="label-text">Venue</span></label>
+                  <input className="input input-bordered" value={form.venue} onChange={(e) => setForm({ ...form, venue: e.target.value })} data-testid="input-session-venue" />
+                </div>
+              ) : (
+                <div className="form-control">
+                  <label className="label"><span className="label-text">Meeting link</span></label>
+                  <input type="url" className="input input-bordered" value={form.meetingUrl} onChange={(e) => setForm({ ...form, meetingUrl: e.target.value })} placeholder="https://" data-testid="input-session-meeting-url" />
+                </div>
+              )}
+              <div className="form-control">
+                <label className="label"><span className="label-text">Capacity</span></label>
+                <input type="number" min="1" className="input input-bordered" value={form.capacity} onChange={(e) => setForm({ ...form, capacity: e.target.value })} data-testid="input-session-capacity" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Trainer</span></label>
+                <select className="select select-bordered" value={form.trainerId} onChange={(e) => setForm({ ...form, trainerId: e.target.value })} data-testid="select-session-trainer">
+                  <option value="">No trainer</option>
+                  {activeUsers.map(u => <option key={u.id} value={u.id}>{`${u.firstName || ''} ${u.lastName || ''}`.trim() || u.email}</option>)}
+                </select>
+              </div>
+              <div className="form-control md:col-span-2">
+                <label className="label cursor-pointer justify-start gap-3">
+                  <input type="checkbox" className="checkbox checkbox-primary" checked={form.selfBookingEnabled} onChange={(e) => setForm({ ...form, selfBookingEnabled: e.target.checked })} data-testid="checkbox-session-self-booking" />
+                  <span className="label-text">Learners can book themselves on</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeEditor}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !isFormValid}
+                data-testid="button-save-session"
+              >
+                {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+            <p className="text-xs text-base-content/60 text-right">Trainers can mark attendance for their own sessions from their account.</p>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { ComplianceTrendChart } from "@/components/ComplianceTrendChart";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, AreaChart, Area } from "recharts";
 
@@ -8,7 +9,20 @@ interface OrganisationStats {
   activeUsers: number;
   coursesAssigned: number;
   coursesCompleted: number;
-  complianceRate: number;
+  complianceRate: number | null;
+  complianceTarget: number | null;
+  complianceRequired: number;
+  complianceInDate: number;
+  complianceByDepartment: DepartmentCompliance[];
+}
+
+interface DepartmentCompliance {
+  department: string;
+  required: number;
+  inDate: number;
+  percent: number | null;
+  targetPercent: number | null;
+  meetsTarget: boolean;
 }
 
 interface Organisation {
@@ -63,6 +77,12 @@ export function AdminDashboard() {
     enabled: !!user?.organisationId,
   });
 
+  // Mandatory courses, for narrowing the compliance trend to one course
+  const { data: mandatoryCourses = [] } = useQuery<{ courseId: string; courseTitle: string }[]>({
+    queryKey: ['/api/mandatory-courses'],
+    enabled: !!user?.organisationId,
+  });
+
   // Fetch expiring training
   const { data: expiringTraining = [], isLoading: expiringLoading } = useQuery<ExpiringTraining[]>({
     queryKey: ['/api/admin/expiring-training', user?.organisationId],
@@ -182,14 +202,83 @@ export function AdminDashboard() {
           <div className="stat-value stat-performance" data-testid="stat-compliance-rate">
             {isLoading ? (
               <span className="loading loading-spinner loading-md"></span>
+            ) : stats?.complianceRate !== null && stats?.complianceRate !== undefined ? (
+              `${stats.complianceRate}%`
             ) : (
-              `${stats?.complianceRate || 0}%`
+              '-'
             )}
           </div>
-          <div className="stat-desc">Overall completion</div>
+          <div className="stat-desc">
+            {stats?.complianceRate !== null && stats?.complianceRate !== undefined
+              ? `Mandatory training in date${stats.complianceTarget ? ` (target ${stats.complianceTarget}%)` : ''}`
+              : <Link href="/admin/mandatory-training" className="link">Set mandatory courses</Link>}
+          </div>
         </div>
       </div>
 
+      {/* Compliance by Department */}
+      {stats && stats.complianceByDepartment?.length > 0 && (
+        <div className="card bg-base-100 border border-base-300 shadow-md mb-8" data-testid="card-compliance-by-department">
+          <div className="card-body">
+            <div className="flex justify-between items-center">
+              <h3 className="card-title text-base-content">
+                <i className="fas fa-clipboard-check text-primary"></i>
+                Compliance by Department
+              </h3>
+              <Link href="/admin/mandatory-training" className="btn btn-ghost btn-sm" data-testid="link-mandatory-training">
+                Manage mandatory training
+              </Link>
+            </div>
+            <p className="text-sm text-base-content/60">
+              {stats.complianceInDate} of {stats.complianceRequired} required courses are in date.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Department</th>
+                    <th>In date</th>
+                    <th className="w-1/2">Compliance</th>
+                    <th>Target</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.complianceByDepartment.map((row) => (
+                    <tr key={row.department} data-testid={`row-department-compliance-${row.department}`}>
+                      <td className="font-medium">{row.department}</td>
+                      <td>{row.inDate} / {row.required}</td>
+                      <td>
+                        <div className="flex items-center gap-2">
+                          <progress
+                            className={`progress w-full ${row.meetsTarget ? 'progress-success' : 'progress-error'}`}
+                            value={row.percent ?? 0}
+                            max="100"
+                          ></progress>
+                          <span className="text-sm w-14 text-right">{row.percent ?? 0}%</span>
+                        </div>
+                      </td>
+                      <td>
+                        <span className={`badge badge-sm ${row.meetsTarget ? 'badge-success' : 'badge-error'}`}>
+                          {row.targetPercent}%
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ComplianceTrendChart
+        endpoint="/api/admin/compliance/trends"
+        departments={stats?.complianceByDepartment?.map(row => row.department) || []}
+        courses={mandatoryCourses
+          .filter((course, index) => mandatoryCourses.findIndex(c => c.courseId === course.courseId) === index)
+          .map(course => ({ id: course.courseId, title: course.courseTitle }))}
+      />
+
       {/* Charts and Analytics */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 mb-8">
         {/* Course Completion Trend Chart */}
@@ -332,7 +421,7 @@ export function AdminDashboard() {
                   </ChartContainer>
                   <div className="text-center mt-4">
                     <div className="text-2xl font-bold text-success">
-                      {stats.complianceRate}%
+                      {stats.coursesAssigned > 0 ? Math.round(((stats.coursesCompleted || 0) / stats.coursesAssigned) * 100) : 0}%
                     </div>
                     <div className="text-sm text-base-content/60">
                       Completion Rate
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ExternalTrainingForm,
+  EXTERNAL_TRAINING_STATUS_BADGES,
+  formatRecordDate,
+  type ExternalTrainingRecordSummary,
+} from "@/components/ExternalTrainingForm";
+
+interface OrgUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  role: string;
+  status: string;
+}
+
+type StatusFilter = ExternalTrainingRecordSummary['status'] | 'all';
+
+export function AdminExternalTraining() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [showForm, setShowForm] = useState(false);
+  const [reviewing, setReviewing] = useState<ExternalTrainingRecordSummary | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: records = [], isLoading } = useQuery<ExternalTrainingRecordSummary[]>({
+    queryKey: ['/api/external-training'],
+  });
+
+  const { data: users = [] } = useQuery<OrgUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const learners = users.filter(u => u.status === 'active' && u.role === 'user');
+
+  const closeReview = () => {
+    setReviewing(null);
+    setReviewNotes("");
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'approve' | 'reject' }) =>
+      apiRequest('POST', `/api/external-training/${id}/${decision}`, decision === 'approve' ? { reviewNotes } : { reason: reviewNotes }),
+    onSuccess: (_data, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/external-training'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/training-matrix'] });
+      closeReview();
+      toast({ title: "Success", description: decision === 'approve' ? "Approved - the course is now complete for this learner" : "Record rejected" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to review record", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/external-training/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/external-training'] });
+      toast({ title: "Success", description: "Record deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete record", variant: "destructive" });
+    },
+  });
+
+  const filtered = statusFilter === 'all' ? records : records.filter(r => r.status === statusFilter);
+  const pendingCount = records.filter(r => r.status === 'pending').length;
+  const filters: [StatusFilter, string][] = [
+    ['pending', `Awaiting review${pendingCount > 0 ? ` (${pendingCount})` : ''}`],
+    ['approved', 'Approved'],
+    ['rejected', 'Rejected'],
+    ['all', 'All'],
+  ];
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">External Training</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">External Training</h1>
+          <p className="text-base-content/70">Certificates from previous employers and outside providers. Approved records count towards the course they map to.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => setShowForm(true)} data-testid="button-add-external-training">
+          <i className="fas fa-plus"></i> Record Training
+        </button>
+      </div>
+
+      <div role="tablist" className="tabs tabs-boxed mb-6">
+        {filters.map(([filter, label]) => (
+          <a
+            key={filter}
+            role="tab"
+            className={`tab ${statusFilter === filter ? 'tab-active' : ''}`}
+            onClick={() => setStatusFilter(filter)}
+            data-testid={`tab-external-training-${filter}`}
+          >
+            {label}
+          </a>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-12 text-base-content/60" data-testid="text-no-external-training">
+          <i className="fas fa-award text-4xl mb-4"></i>
+          <p>No external training records here.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra" data-testid="table-external-training">
+            <thead>
+              <tr>
+                <th>Learner</th>
+                <th>Course</th>
+                <th>Provider</th>
+                <th>Completed</th>
+                <th>Expires</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(record => (
+                <tr key={record.id} data-testid={`row-external-training-${record.id}`}>
+                  <td>
+                    <div className="font-semibold">{record.userName}</div>
+                    <div className="text-xs text-base-content/60">{record.department || record.userEmail}</div>
+                  </td>
+                  <td>
+                    <div>{record.courseTitle}</div>
+                    {record.externalCourseTitle && <div className="text-xs text-base-content/60">{record.externalCourseTitle}</div>}
+                  </td>
+                  <td>{record.provider}</td>
+                  <td>{formatRecordDate(record.completedAt)}</td>
+                  <td>{formatRecordDate(record.expiryDate)}</td>
+                  <td>
+                    <span className={`badge ${EXTERNAL_TRAINING_STATUS_BADGES[record.status].className}`}>
+                      {EXTERNAL_TRAINING_STATUS_BADGES[record.status].label}
+                    </span>
+                  </td>
+                  <td>
+                    <div className="flex gap-1 justify-end">
+                      <button className="btn btn-ghost btn-xs" onClick={() => setReviewing(record)} data-testid={`button-review-${record.id}`}>
+                        <i className="fas fa-search"></i> {record.status === 'pending' ? 'Review' : 'View'}
+                      </button>
+                      {record.status !== 'approved' && (
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => {
+                            if (confirm(`Delete the external training record for ${record.userName}?`)) {
+                              deleteMutation.mutate(record.id);
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-${record.id}`}
+                        >
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Review Modal */}
+      {reviewing && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">External Training - {reviewing.userName}</h3>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div><span className="text-base-content/60">Course:</span> {reviewing.courseTitle}</div>
+              <div><span className="text-base-content/60">Provider:</span> {reviewing.provider}</div>
+              {reviewing.externalCourseTitle && (
+                <div className="col-span-2"><span className="text-base-content/60">Provider's course:</span> {reviewing.externalCourseTitle}</div>
+              )}
+              <div><span className="text-base-content/60">Completed:</span> {formatRecordDate(reviewing.completedAt)}</div>
+              <div><span className="text-base-content/60">Expires:</span> {reviewing.expiryDate ? formatRecordDate(reviewing.expiryDate) : 'Course expiry period'}</div>
+              <div><span className="text-base-content/60">Submitted by:</span> {reviewing.submittedByName || '-'} on {formatRecordDate(reviewing.createdAt)}</div>
+              {reviewing.reviewedAt && (
+                <div><span className="text-base-content/60">Reviewed by:</span> {reviewing.reviewedByName || '-'} on {formatRecordDate(reviewing.reviewedAt)}</div>
+              )}
+              {reviewing.notes && (
+                <div className="col-span-2"><span className="text-base-content/60">Notes:</span> {reviewing.notes}</div>
+              )}
+              {reviewing.reviewNotes && (
+                <div className="col-span-2"><span className="text-base-content/60">Review notes:</span> {reviewing.reviewNotes}</div>
+              )}
+            </div>
+
+            {reviewing.evidenceUrl && (
+              <a
+                href={`/api/external-training/${reviewing.id}/evidence`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="btn btn-outline btn-sm mt-4"
+                data-testid="link-review-evidence"
+              >
+                <i className="fas fa-file"></i> {reviewing.evidenceFileName || 'View evidence'}
+              </a>
+            )}
+
+            {reviewing.status === 'pending' && (
+              <div className="form-control mt-4">
+                <label className="label"><span className="label-text">Notes (required to reject - the learner sees them)</span></label>
+                <textarea
+                  className="textarea textarea-bordered"
+                  rows={2}
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  data-testid="input-review-notes"
+                />
+              </div>
+            )}
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeReview} data-testid="button-close-review">Close</button>
+              {reviewing.status === 'pending' && (
+                <>
+                  <button
+                    className="btn btn-error btn-outline"
+                    onClick={() => reviewMutation.mutate({ id: reviewing.id, decision: 'reject' })}
+                    disabled={!reviewNotes.trim() || reviewMutation.isPending}
+                    data-testid="button-reject-external-training"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    className="btn btn-success"
+                    onClick={() => reviewMutation.mutate({ id: reviewing.id, decision: 'approve' })}
+                    disabled={reviewMutation.isPending}
+                    data-testid="button-approve-external-training"
+                  >
+                    {reviewMutation.isPending && <span className="loading loading-spinner loading-sm"></span>}
+                    Approve
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeReview}>close</button>
+          </form>
+        </dialog>
+      )}
+
+      {showForm && <ExternalTrainingForm onClose={() => setShowForm(false)} learners={learners} />}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Course {
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: string;
+  status: string;
+}
+
+interface LearningPathStep {
+  id: string;
+  courseId: string;
+  courseTitle: string;
+  sortOrder: number;
+  prerequisiteCourseIds: string[];
+  usesDefaultPrerequisite: boolean;
+}
+
+interface LearningPath {
+  id: string;
+  title: string;
+  description?: string | null;
+  status: 'draft' | 'published' | 'archived';
+  steps: LearningPathStep[];
+  enrolmentCount: number;
+  completedCount: number;
+}
+
+interface DraftStep {
+  courseId: string;
+  // null = unlocks after the previous course, [] = available straight away
+  prerequisiteCourseIds: string[] | null;
+}
+
+export function AdminLearningPaths() {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingPath, setEditingPath] = useState<LearningPath | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [steps, setSteps] = useState<DraftStep[]>([]);
+  const [courseToAdd, setCourseToAdd] = useState("");
+  const [assigningPath, setAssigningPath] = useState<LearningPath | null>(null);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: learningPaths = [], isLoading } = useQuery<LearningPath[]>({
+    queryKey: ['/api/learning-paths'],
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const learners = users.filter(u => u.role === 'user' && u.status === 'active');
+  const courseTitle = (courseId: string) => courses.find(c => c.id === courseId)?.title || 'Unknown course';
+
+  const resetEditor = () => {
+    setShowEditor(false);
+    setEditingPath(null);
+    setTitle("");
+    setDescription("");
+    setSteps([]);
+    setCourseToAdd("");
+  };
+
+  const savePathMutation = useMutation({
+    mutationFn: async (status?: LearningPath['status']) => {
+      const body = {
+        title,
+        description: description || null,
+        courses: steps,
+        ...(status && { status }),
+      };
+      if (editingPath) {
+        return apiRequest('PUT', `/api/learning-paths/${editingPath.id}`, body);
+      }
+      return apiRequest('POST', '/api/learning-paths', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/learning-paths'] });
+      resetEditor();
+      toast({ title: "Success", description: "Learning path saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save learning path", variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: LearningPath['status'] }) => {
+      return apiRequest('PUT', `/api/learning-paths/${id}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/learning-paths'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update learning path", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/learning-paths/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/learning-paths'] });
+      toast({ title: "Success", description: "Learning path deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete learning path", variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/learning-paths/${assigningPath?.id}/assign`, {
+        userIds: selectedUsers,
+        dueDate: dueDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { enrolled: number; skipped: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/learning-paths'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/training-matrix'] });
+      setAssigningPath(null);
+      setSelectedUsers([]);
+      setDueDate("");
+      toast({
+        title: "Success",
+        description: `Learning path assigned to ${result.enrolled} user(s)${result.skipped ? `, ${result.skipped} already enrolled` : ''}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to assign learning path", variant: "destructive" });
+    },
+  });
+
+  const openEditor = (path?: LearningPath) => {
+    if (path) {
+      setEditingPath(path);
+      setTitle(path.title);
+      setDescription(path.description || "");
+      setSteps(path.steps.map(step => ({
+        courseId: step.courseId,
+        prerequisiteCourseIds: step.usesDefaultPrerequisite ? null : step.prerequisiteCourseIds,
+      })));
+    }
+    setShowEditor(true);
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    // Explicit prerequisites may no longer be earlier in the path - fall back to sequential
+    setSteps(next.map(step => ({ ...step, prerequisiteCourseIds: step.prerequisiteCourseIds?.length ? null : step.prerequisiteCourseIds })));
+  };
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Learning Paths</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Learning Paths</h1>
+          <p className="text-base-content/70">Group courses into an ordered programme. Each course unlocks once the previous one is passed.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => openEditor()} data-testid="button-create-learning-path">
+          <i className="fas fa-plus"></i> New Learning Path
+        </button>
+      </div>
+
+      {/* Learning Paths List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading loading-spinner loading-lg"></div>
+        </div>
+      ) : learningPaths.length === 0 ? (
+        <div className="text-center py-12">
+          <i className="fas fa-route text-6xl text-base-content/30 mb-4"></i>
+          <h3 className="text-2xl font-bold mb-2">No learning paths yet</h3>
+          <p className="text-base-content/60">Create a learning path to assign several courses in order.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {learningPaths.map((path) => (
+            <div key={path.id} className="card bg-base-100 shadow-sm" data-testid={`card-learning-path-${path.id}`}>
+              <div className="card-body">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="card-title">{path.title}</h3>
+                      <div className={`badge ${path.status === 'published' ? 'badge-success' : path.status === 'archived' ? 'badge-ghost' : 'badge-warning'}`}>
+                        {path.status}
+                      </div>
+                    </div>
+                    {path.description && <p className="text-base-content/60">{path.description}</p>}
+                    <div className="text-sm text-base-content/70 mt-1">
+                      {path.enrolmentCount} enrolled • {path.completedCount} completed
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {path.status === 'published' && (
+                      <button className="btn btn-primary btn-sm" onClick={() => setAssigningPath(path)} data-testid={`button-assign-learning-path-${path.id}`}>
+                        <i className="fas fa-user-plus"></i> Assign
+                      </button>
+                    )}
+                    {path.status === 'draft' && (
+                      <button className="btn btn-success btn-sm" onClick={() => statusMutation.mutate({ id: path.id, status: 'published' })} data-testid={`button-publish-learning-path-${path.id}`}>
+                        Publish
+                      </button>
+                    )}
+                    {path.status === 'published' && (
+                      <button className="btn btn-ghost btn-sm" onClick={() => statusMutation.mutate({ id: path.id, status: 'archived' })}>
+                        Archive
+                      </button>
+                    )}
+                    <button className="btn btn-outline btn-sm" onClick={() => openEditor(path)} data-testid={`button-edit-learning-path-${path.id}`}>
+                      <i className="fas fa-edit"></i> Edit
+                    </button>
+                    {path.enrolmentCount === 0 && (
+                      <button className="btn btn-error btn-outline btn-sm" onClick={() => deleteMutation.mutate(path.id)}>
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <ol className="list-decimal list-inside text-sm mt-2 space-y-1">
+                  {path.steps.map((step) => (
+                    <li key={step.id}>
+                      {step.courseTitle}
+                      {step.prerequisiteCourseIds.length > 0 && (
+                        <span className="text-base-content/50"> — after {step.prerequisiteCourseIds.map(courseTitle).join(', ')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">{editingPath ? 'Edit Learning Path' : 'New Learning Path'}</h3>
+
+            <div className="space-y-4">
+              <div className="form-control">
+                <label className="label"><span className="label-text">Title</span></label>
+                <input className="input input-bordered" value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-learning-path-title" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Description</span></label>
+                <textarea className="textarea textarea-bordered" value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+
+              <div>
+                <label className="label"><span className="label-text">Courses (in order)</span></label>
+                <div className="space-y-2">
+                  {steps.map((step, index) => (
+                    <div key={step.courseId} className="flex items-center gap-2 bg-base-200 rounded-lg p-2">
+                      <span className="font-mono w-6 text-center">{index + 1}</span>
+                      <span className="flex-1">{courseTitle(step.courseId)}</span>
+                      {index > 0 && (
+                        <label className="label cursor-pointer gap-2">
+                          <span className="label-text text-xs">Requires previous</span>
+                          <input
+                            type="checkbox"
+                            className="checkbox checkbox-sm"
+                            checked={step.prerequisiteCourseIds === null}
+                            onChange={(e) => setSteps(steps.map((s, i) => i === index ? { ...s, prerequisiteCourseIds: e.target.checked ? null : [] } : s))}
+                          />
+                        </label>
+                      )}
+                      <button className="btn btn-ghost btn-xs" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                        <i className="fas fa-arrow-up"></i>
+                      </button>
+                      <button className="btn btn-ghost btn-xs" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                        <i className="fas fa-arrow-down"></i>
+                      </button>
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => setSteps(steps.filter((_, i) => i !== index))}>
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <select className="select select-bordered flex-1" value={courseToAdd} onChange={(e) => setCourseToAdd(e.target.value)} data-testid="select-learning-path-course">
+                    <option value="">Select a course to add...</option>
+                    {courses
+                      .filter(c => c.status !== 'archived' && !steps.some(s => s.courseId === c.id))
+                      .map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                  </select>
+                  <button
+                    className="btn btn-outline"
+                    disabled={!courseToAdd}
+                    onClick={() => {
+                      setSteps([...steps, { courseId: courseToAdd, prerequisiteCourseIds: null }]);
+                      setCourseToAdd("");
+                    }}
+                    data-testid="button-add-learning-path-course"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={resetEditor}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => savePathMutation.mutate(undefined)}
+                disabled={savePathMutation.isPending || !title || steps.length === 0}
+                data-testid="button-save-learning-path"
+              >
+                {savePathMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={resetEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+
+      {/* Assign Modal */}
+      {assigningPath && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">Assign: {assigningPath.title}</h3>
+            <p className="text-sm text-base-content/70 mb-4">
+              Each learner gets all {assigningPath.steps.length} courses. Later courses stay locked until the earlier ones are passed.
+            </p>
+
+            <div className="max-h-64 overflow-y-auto border border-base-300 rounded-lg p-2 mb-4">
+              {learners.map((learner) => (
+                <label key={learner.id} className="label cursor-pointer justify-start gap-3">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={selectedUsers.includes(learner.id)}
+                    onChange={(e) => setSelectedUsers(e.target.checked
+                      ? [...selectedUsers, learner.id]
+                      : selectedUsers.filter(id => id !== learner.id))}
+                  />
+                  <span className="label-text">{learner.firstName} {learner.lastName} <span className="text-base-content/50">({learner.email})</span></span>
+                </label>
+              ))}
+            </div>
+
+            <div className="form-control">
+              <label className="label"><span className="label-text">Due date (optional)</span></label>
+              <input type="date" className="input input-bordered" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={() => { setAssigningPath(null); setSelectedUsers([]); }}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => assignMutation.mutate()}
+                disabled={assignMutation.isPending || selectedUsers.length === 0}
+                data-testid="button-confirm-assign-learning-path"
+              >
+                {assignMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Assign Learning Path'}
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={() => setAssigningPath(null)}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
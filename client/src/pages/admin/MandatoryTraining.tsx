@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Course {
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface ComplianceFigures {
+  required: number;
+  inDate: number;
+  percent: number | null;
+  targetPercent: number | null;
+  meetsTarget: boolean;
+}
+
+interface MandatoryCourse {
+  id: string;
+  courseId: string;
+  courseTitle: string;
+  department: string | null;
+  jobTitle: string | null;
+  targetPercent: number;
+  compliance: ComplianceFigures | null;
+}
+
+interface MandatoryCourseForm {
+  courseId: string;
+  department: string;
+  jobTitle: string;
+  targetPercent: string;
+}
+
+const emptyForm: MandatoryCourseForm = {
+  courseId: "",
+  department: "",
+  jobTitle: "",
+  targetPercent: "100",
+};
+
+export function AdminMandatoryTraining() {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editing, setEditing] = useState<MandatoryCourse | null>(null);
+  const [form, setForm] = useState<MandatoryCourseForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: designations = [], isLoading } = useQuery<MandatoryCourse[]>({
+    queryKey: ['/api/mandatory-courses'],
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEditor = (designation?: MandatoryCourse) => {
+    if (designation) {
+      setEditing(designation);
+      setForm({
+        courseId: designation.courseId,
+        department: designation.department || "",
+        jobTitle: designation.jobTitle || "",
+        targetPercent: String(designation.targetPercent),
+      });
+    }
+    setShowEditor(true);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/mandatory-courses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        courseId: form.courseId,
+        department: form.department || null,
+        jobTitle: form.jobTitle || null,
+        targetPercent: parseInt(form.targetPercent),
+      };
+      if (editing) {
+        return apiRequest('PUT', `/api/mandatory-courses/${editing.id}`, body);
+      }
+      return apiRequest('POST', '/api/mandatory-courses', body);
+    },
+    onSuccess: () => {
+      invalidate();
+      closeEditor();
+      toast({ title: "Success", description: "Mandatory course saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save mandatory course", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/mandatory-courses/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Mandatory course removed" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove mandatory course", variant: "destructive" });
+    },
+  });
+
+  const describeScope = (designation: MandatoryCourse) => {
+    const parts: string[] = [];
+    if (designation.department) parts.push(`department is ${designation.department}`);
+    if (designation.jobTitle) parts.push(`job title is ${designation.jobTitle}`);
+    return parts.length > 0 ? `Staff whose ${parts.join(' and ')}` : 'All staff';
+  };
+
+  const targetPercent = parseInt(form.targetPercent);
+  const isFormValid = !!form.courseId && targetPercent >= 1 && targetPercent <= 100;
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Mandatory Training</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Mandatory Training</h1>
+          <p className="text-base-content/70">Set the courses your staff must keep in date, and the compliance you are aiming for.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => openEditor()} data-testid="button-create-mandatory-course">
+          <i className="fas fa-plus"></i> Add Mandatory Course
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading loading-spinner loading-lg"></div>
+        </div>
+      ) : designations.length === 0 ? (
+        <div className="text-center py-12">
+          <i className="fas fa-clipboard-check text-6xl text-base-content/30 mb-4"></i>
+          <h3 className="text-2xl font-bold mb-2">No mandatory courses yet</h3>
+          <p className="text-base-content/60">The dashboard compliance rate is worked out from the courses you mark as mandatory.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Course</th>
+                <th>Required for</th>
+                <th>In date</th>
+                <th>Compliance</th>
+                <th>Target</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {designations.map((designation) => (
+                <tr key={designation.id} data-testid={`row-mandatory-course-${designation.id}`}>
+                  <td className="font-semibold">{designation.courseTitle}</td>
+                  <td className="text-sm">{describeScope(designation)}</td>
+                  <td className="text-sm">
+                    {designation.compliance ? `${designation.compliance.inDate} of ${designation.compliance.required}` : '-'}
+                  </td>
+                  <td>
+                    {designation.compliance?.percent !== null && designation.compliance?.percent !== undefined ? (
+                      <span
+                        className={`badge ${designation.compliance.meetsTarget ? 'badge-success' : 'badge-error'}`}
+                        data-testid={`badge-compliance-${designation.id}`}
+                      >
+                        {designation.compliance.percent}%
+                      </span>
+                    ) : (
+                      <span className="text-sm text-base-content/60">No matching staff</span>
+                    )}
+                  </td>
+                  <td>{designation.targetPercent}%</td>
+                  <td>
+                    <div className="flex gap-1">
+                      <button className="btn btn-ghost btn-xs" onClick={() => openEditor(designation)} data-testid={`button-edit-mandatory-course-${designation.id}`}>
+                        <i className="fas fa-edit"></i>
+                      </button>
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => deleteMutation.mutate(designation.id)} data-testid={`button-delete-mandatory-course-${designation.id}`}>
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">{editing ? 'Edit Mandatory Course' : 'Add Mandatory Course'}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="form-control md:col-span-2">
+                <label className="label"><span className="label-text">Course</span></label>
+                <select className="select select-bordered" value={form.courseId} onChange={(e) => setForm({ ...form, courseId: e.target.value })} data-testid="select-mandatory-course">
+                  <option value="">Select a course...</option>
+                  {courses.filter(c => c.status !== 'archived').map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Department</span></label>
+                <input className="input input-bordered" value={form.department} onChange={(e) => setForm({ ...form, department: e.target.value })} placeholder="All departments" data-testid="input-mandatory-department" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Job title</span></label>
+                <input className="input input-bordered" value={form.jobTitle} onChange={(e) => setForm({ ...form, jobTitle: e.target.value })} placeholder="All job titles" data-testid="input-mandatory-job-title" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Target compliance (%)</span></label>
+                <input type="number" min="1" max="100" className="input input-bordered" value={form.targetPercent} onChange={(e) => setForm({ ...form, targetPercent: e.target.value })} data-testid="input-mandatory-target" />
+              </div>
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeEditor}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !isFormValid}
+                data-testid="button-save-mandatory-course"
+              >
+                {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+            <p className="text-xs text-base-content/60 text-right">Staff count as compliant once they hold a pass that has not expired.</p>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
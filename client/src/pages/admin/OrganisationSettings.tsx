@@ -17,6 +17,14 @@ interface OrganisationSettings {
   defaultCertificateDownload: boolean;
 }
 
+interface LearnerDigestSettings {
+  learnerEmailDelivery: 'immediate' | 'daily' | 'weekly';
+  digestHour: number;
+  digestWeekday: number;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 interface Organisation {
   id: string;
   name: string;
@@ -104,6 +112,12 @@ export function AdminOrganisationSettings() {
     reminderDays: 7,
   });
 
+  const [digestSettings, setDigestSettings] = useState<LearnerDigestSettings>({
+    learnerEmailDelivery: 'immediate',
+    digestHour: 8,
+    digestWeekday: 1,
+  });
+
   const [privacyData, setPrivacyData] = useState({
     defaultCertificateDownload: false,
   });
@@ -497,6 +511,43 @@ The {{organisationDisplayName}} Team`
     enabled: !!user?.organisationId,
   });
 
+  // Organisation default for learner assignment emails - each event, or a daily/weekly digest
+  const { data: savedDigestSettings } = useQuery<LearnerDigestSettings>({
+    queryKey: ['/api/organisations', user?.organisationId, 'notification-settings'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/organisations/${user?.organisationId}/notification-settings`);
+      return response.json();
+    },
+    enabled: !!user?.organisationId,
+  });
+
+  useEffect(() => {
+    if (savedDigestSettings) {
+      setDigestSettings(savedDigestSettings);
+    }
+  }, [savedDigestSettings]);
+
+  const saveDigestSettingsMutation = useMutation({
+    mutationFn: async (settings: LearnerDigestSettings) => {
+      const response = await apiRequest('PUT', `/api/organisations/${user?.organisationId}/notification-settings`, settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organisations', user?.organisationId, 'notification-settings'] });
+      toast({
+        title: "Success",
+        description: "Learner email delivery saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save learner email delivery",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Load email settings when org settings become available
   useEffect(() => {
     if (orgSettings) {
@@ -729,6 +780,52 @@ The {{organisationDisplayName}} Team`
     },
   });
 
+  // Require two-factor authentication for every admin of the organisation
+  const saveMfaPolicyMutation = useMutation({
+    mutationFn: async (requireAdminMfa: boolean) => {
+      const response = await apiRequest('PUT', `/api/organisations/${user?.organisationId}/mfa-policy`, { requireAdminMfa });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organisations', user?.organisationId] });
+      toast({
+        title: "Success",
+        description: data.requireAdminMfa
+          ? "Administrators will be asked to set up two-factor authentication at their next sign-in"
+          : "Two-factor authentication is now optional for administrators",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update two-factor authentication policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Clear an admin's authenticator (lost phone) - they enrol again at their next sign-in
+  const resetMfaMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/users/${userId}/mfa/reset`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset",
+      });
+      refetchAdminUsers();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
   const saveEmailSettings = () => {
     if (!user?.organisationId) return;
     saveEmailSettingsMutation.mutate(emailSettings);
@@ -1250,6 +1347,79 @@ The {{organisationDisplayName}} Team`
                   </label>
                 </div>
               </div>
+
+              <div className="divider">Learner Email Delivery</div>
+
+              <div className="space-y-4" data-testid="section-learner-digests">
+                <p className="text-sm text-base-content/60">
+                  Learners can get an email for every course assigned to them or one digest a day or week. This is the default for learners who haven't chosen for themselves.
+                </p>
+
+                <div className="form-control max-w-xs">
+                  <label className="label">
+                    <span className="label-text">Default Delivery</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={digestSettings.learnerEmailDelivery}
+                    onChange={(e) => setDigestSettings(prev => ({ ...prev, learnerEmailDelivery: e.target.value as LearnerDigestSettings['learnerEmailDelivery'] }))}
+                    data-testid="select-learner-email-delivery"
+                  >
+                    <option value="immediate">Immediately - one email per event</option>
+                    <option value="daily">Daily digest</option>
+                    <option value="weekly">Weekly digest</option>
+                  </select>
+                </div>
+
+                <div className="flex flex-wrap gap-4">
+                  <div className="form-control w-full max-w-xs">
+                    <label className="label">
+                      <span className="label-text">Digest Time</span>
+                    </label>
+                    <select
+                      className="select select-bordered"
+                      value={digestSettings.digestHour}
+                      onChange={(e) => setDigestSettings(prev => ({ ...prev, digestHour: parseInt(e.target.value) }))}
+                      data-testid="select-digest-hour"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{hour.toString().padStart(2, '0')}:00</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-control w-full max-w-xs">
+                    <label className="label">
+                      <span className="label-text">Weekly Digest Day</span>
+                    </label>
+                    <select
+                      className="select select-bordered"
+                      value={digestSettings.digestWeekday}
+                      onChange={(e) => setDigestSettings(prev => ({ ...prev, digestWeekday: parseInt(e.target.value) }))}
+                      data-testid="select-digest-weekday"
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>{day}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => saveDigestSettingsMutation.mutate(digestSettings)}
+                    disabled={saveDigestSettingsMutation.isPending}
+                    data-testid="button-save-learner-digests"
+                  >
+                    {saveDigestSettingsMutation.isPending ? (
+                      <span className="loading loading-spinner loading-sm"></span>
+                    ) : (
+                      'Save Delivery Settings'
+                    )}
+                  </button>
+                </div>
+              </div>
             </div>
           )}
 
@@ -1318,6 +1488,28 @@ The {{organisationDisplayName}} Team`
                 </div>
               </div>
 
+              {/* Two-Factor Authentication Policy */}
+              <div className="card bg-base-100 border">
+                <div className="card-body">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="card-title">Two-Factor Authentication</h4>
+                      <div className="text-sm text-base-content/60">
+                        Require administrators to enter a code from an authenticator app when they sign in with a password
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-primary"
+                      checked={!!orgSettings?.requireAdminMfa}
+                      onChange={(e) => saveMfaPolicyMutation.mutate(e.target.checked)}
+                      disabled={saveMfaPolicyMutation.isPending}
+                      data-testid="toggle-require-admin-mfa"
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Current Admin Users */}
               <div className="card bg-base-100 border">
                 <div className="card-body">
@@ -1341,6 +1533,7 @@ The {{organisationDisplayName}} Team`
                             <th>Email</th>
                             <th>Role</th>
                             <th>Last Active</th>
+                            <th>2FA</th>
                             <th>Actions</th>
                           </tr>
                         </thead>
@@ -1386,6 +1579,28 @@ The {{organisationDisplayName}} Team`
                                 </span>
                               </td>
                               <td>
+                                {adminUser.mfaEnabled ? (
+                                  <div className="badge badge-success badge-sm" data-testid={`badge-mfa-${adminUser.id}`}>On</div>
+                                ) : (
+                                  <div className="badge badge-ghost badge-sm" data-testid={`badge-mfa-${adminUser.id}`}>Off</div>
+                                )}
+                              </td>
+                              <td>
+                                {adminUser.mfaEnabled && adminUser.id !== user?.id && adminUser.role !== 'superadmin' && (
+                                  <button
+                                    className="btn btn-sm btn-ghost mr-2"
+                                    onClick={() => {
+                                      if (confirm(`Reset two-factor authentication for ${adminUser.email}? They will set it up again at their next sign-in.`)) {
+                                        resetMfaMutation.mutate(adminUser.id);
+                                      }
+                                    }}
+                                    disabled={resetMfaMutation.isPending}
+                                    data-testid={`button-reset-mfa-${adminUser.id}`}
+                                  >
+                                    <i className="fas fa-shield-halved mr-1"></i>
+                                    Reset 2FA
+                                  </button>
+                                )}
                                 {adminUser.id !== user?.id && adminUser.role !== 'superadmin' && (
                                   <button 
                                     className="btn btn-sm btn-error btn-outline"
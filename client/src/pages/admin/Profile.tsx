@@ -4,6 +4,7 @@ import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ImageUpload } from "@/components/ImageUpload";
+import { MfaSettings } from "@/components/auth/MfaSettings";
 
 interface User {
   id: string;
@@ -347,6 +348,8 @@ export function AdminProfile() {
           </div>
         </form>
       </div>
+
+      <MfaSettings />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PermissionOption {
+  key: string;
+  description: string;
+}
+
+interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  userCount: number;
+}
+
+interface RoleForm {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const emptyForm: RoleForm = {
+  name: "",
+  description: "",
+  permissions: [],
+};
+
+export function AdminRoles() {
+  const [showEditor, setShowEditor] = useState(false);
+  const [editing, setEditing] = useState<CustomRole | null>(null);
+  const [form, setForm] = useState<RoleForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: roles = [], isLoading } = useQuery<CustomRole[]>({
+    queryKey: ['/api/roles'],
+  });
+
+  const { data: permissionOptions = [] } = useQuery<PermissionOption[]>({
+    queryKey: ['/api/roles/permissions'],
+  });
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEditor = (role?: CustomRole) => {
+    if (role) {
+      setEditing(role);
+      setForm({
+        name: role.name,
+        description: role.description || "",
+        permissions: role.permissions,
+      });
+    }
+    setShowEditor(true);
+  };
+
+  const togglePermission = (key: string) => {
+    setForm({
+      ...form,
+      permissions: form.permissions.includes(key)
+        ? form.permissions.filter(p => p !== key)
+        : [...form.permissions, key],
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        description: form.description || null,
+        permissions: form.permissions,
+      };
+      if (editing) {
+        return apiRequest('PUT', `/api/roles/${editing.id}`, body);
+      }
+      return apiRequest('POST', '/api/roles', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      closeEditor();
+      toast({ title: "Success", description: "Role saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save role", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/roles/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: "Success", description: "Role deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete role", variant: "destructive" });
+    },
+  });
+
+  const describePermission = (key: string) =>
+    permissionOptions.find(option => option.key === key)?.description || key;
+
+  const isFormValid = form.name.trim().length > 0;
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Roles & Permissions</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Roles & Permissions</h1>
+          <p className="text-base-content/70">Give staff access to parts of the admin area, such as GDPR or course assignment, without making them admins.</p>
+        </div>
+        <button className="btn btn-primary" onClick={() => openEditor()} data-testid="button-create-role">
+          <i className="fas fa-plus"></i> Add Role
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading loading-spinner loading-lg"></div>
+        </div>
+      ) : roles.length === 0 ? (
+        <div className="text-center py-12">
+          <i className="fas fa-user-tag text-6xl text-base-content/30 mb-4"></i>
+          <h3 className="text-2xl font-bold mb-2">No custom roles yet</h3>
+          <p className="text-base-content/60">Create a role, then give it to users from the Users page.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra">
+            <thead>
+              <tr>
+                <th>Role</th>
+                <th>Permissions</th>
+                <th>Users</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((role) => (
+                <tr key={role.id} data-testid={`row-role-${role.id}`}>
+                  <td>
+                    <div className="font-semibold">{role.name}</div>
+                    {role.description && <div className="text-sm text-base-content/60">{role.description}</div>}
+                  </td>
+                  <td>
+                    <div className="flex flex-wrap gap-1">
+                      {role.permissions.length === 0 ? (
+                        <span className="text-sm text-base-content/60">None</span>
+                      ) : role.permissions.map(permission => (
+                        <span key={permission} className="badge badge-outline badge-sm">{describePermission(permission)}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td data-testid={`text-role-users-${role.id}`}>{role.userCount}</td>
+                  <td>
+                    <div className="flex gap-1">
+                      <button className="btn btn-ghost btn-xs" onClick={() => openEditor(role)} data-testid={`button-edit-role-${role.id}`}>
+                        <i className="fas fa-edit"></i>
+                      </button>
+                      <button
+                        className="btn btn-ghost btn-xs text-error"
+                        onClick={() => {
+                          if (role.userCount === 0 || confirm(`${role.userCount} user(s) hold this role and will lose its permissions. Delete it?`)) {
+                            deleteMutation.mutate(role.id);
+                          }
+                        }}
+                        data-testid={`button-delete-role-${role.id}`}
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {showEditor && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">{editing ? 'Edit Role' : 'Add Role'}</h3>
+
+            <div className="grid grid-cols-1 gap-4">
+              <div className="form-control">
+                <label className="label"><span className="label-text">Name</span></label>
+                <input className="input input-bordered" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. GDPR Officer" data-testid="input-role-name" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Description</span></label>
+                <input className="input input-bordered" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-role-description" />
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Permissions</span></label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {permissionOptions.map(option => (
+                    <label key={option.key} className="label cursor-pointer justify-start gap-3">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-primary checkbox-sm"
+                        checked={form.permissions.includes(option.key)}
+                        onChange={() => togglePermission(option.key)}
+                        data-testid={`checkbox-permission-${option.key}`}
+                      />
+                      <span className="label-text">{option.description}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="modal-action">
+              <button className="btn" onClick={closeEditor}>Cancel</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !isFormValid}
+                data-testid="button-save-role"
+              >
+                {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Save'}
+              </button>
+            </div>
+            <p className="text-xs text-base-content/60 text-right">Changes to roles are recorded in the audit log.</p>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeEditor}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
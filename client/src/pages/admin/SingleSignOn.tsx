@@ -0,0 +1,622 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type SsoProtocol = 'saml' | 'oidc';
+type MappedField = 'email' | 'firstName' | 'lastName' | 'department' | 'jobTitle';
+
+interface SsoConfig {
+  organisationId: string;
+  configured: boolean;
+  protocol?: SsoProtocol;
+  isEnabled?: boolean;
+  enforceSso?: boolean;
+  emailDomains?: string[] | null;
+  emailDomainVerification?: EmailDomainVerification[];
+  samlEntityId?: string | null;
+  samlSsoUrl?: string | null;
+  samlCertificate?: string | null;
+  hasSamlMetadata?: boolean;
+  oidcIssuerUrl?: string | null;
+  oidcClientId?: string | null;
+  hasOidcClientSecret?: boolean;
+  attributeMapping?: Partial<Record<MappedField, string>> | null;
+  jitProvisioning?: boolean;
+  serviceProvider: {
+    samlEntityId: string;
+    samlAcsUrl: string;
+    samlMetadataUrl: string;
+    oidcRedirectUri: string;
+  };
+}
+
+interface EmailDomainVerification {
+  id: string;
+  domain: string;
+  verified: boolean;
+  txtRecord: { name: string; value: string };
+}
+
+interface ScimToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ScimTokenList {
+  baseUrl: string;
+  tokens: ScimToken[];
+}
+
+interface SsoForm {
+  protocol: SsoProtocol;
+  isEnabled: boolean;
+  enforceSso: boolean;
+  emailDomains: string;
+  samlMetadataXml: string;
+  samlEntityId: string;
+  samlSsoUrl: string;
+  samlCertificate: string;
+  oidcIssuerUrl: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  attributeMapping: Record<MappedField, string>;
+  jitProvisioning: boolean;
+}
+
+const mappedFields: { key: MappedField; label: string; samlDefault: string; oidcDefault: string }[] = [
+  { key: 'email', label: 'Email', samlDefault: 'email / mail', oidcDefault: 'email' },
+  { key: 'firstName', label: 'First name', samlDefault: 'givenName', oidcDefault: 'given_name' },
+  { key: 'lastName', label: 'Last name', samlDefault: 'sn / surname', oidcDefault: 'family_name' },
+  { key: 'department', label: 'Department', samlDefault: 'department', oidcDefault: 'department' },
+  { key: 'jobTitle', label: 'Job title', samlDefault: 'title / jobTitle', oidcDefault: 'job_title' },
+];
+
+const emptyForm: SsoForm = {
+  protocol: 'saml',
+  isEnabled: false,
+  enforceSso: false,
+  emailDomains: "",
+  samlMetadataXml: "",
+  samlEntityId: "",
+  samlSsoUrl: "",
+  samlCertificate: "",
+  oidcIssuerUrl: "",
+  oidcClientId: "",
+  oidcClientSecret: "",
+  attributeMapping: { email: "", firstName: "", lastName: "", department: "", jobTitle: "" },
+  jitProvisioning: true,
+};
+
+export function AdminSingleSignOn() {
+  const [form, setForm] = useState<SsoForm>(emptyForm);
+  const [metadataFileName, setMetadataFileName] = useState("");
+  const [scimTokenName, setScimTokenName] = useState("");
+  const [newScimToken, setNewScimToken] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: config, isLoading } = useQuery<SsoConfig>({
+    queryKey: ['/api/sso-config'],
+  });
+
+  const { data: scim } = useQuery<ScimTokenList>({
+    queryKey: ['/api/scim-tokens'],
+  });
+
+  useEffect(() => {
+    if (!config?.configured) return;
+    setForm({
+      protocol: config.protocol || 'saml',
+      isEnabled: !!config.isEnabled,
+      enforceSso: !!config.enforceSso,
+      emailDomains: (config.emailDomains || []).join(", "),
+      samlMetadataXml: "",
+      samlEntityId: config.samlEntityId || "",
+      samlSsoUrl: config.samlSsoUrl || "",
+      samlCertificate: config.samlCertificate || "",
+      oidcIssuerUrl: config.oidcIssuerUrl || "",
+      oidcClientId: config.oidcClientId || "",
+      oidcClientSecret: "",
+      attributeMapping: { ...emptyForm.attributeMapping, ...(config.attributeMapping || {}) },
+      jitProvisioning: config.jitProvisioning ?? true,
+    });
+    setMetadataFileName("");
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const attributeMapping = Object.fromEntries(
+        Object.entries(form.attributeMapping).filter(([, value]) => value.trim()).map(([key, value]) => [key, value.trim()])
+      );
+      return apiRequest('PUT', '/api/sso-config', {
+        protocol: form.protocol,
+        isEnabled: form.isEnabled,
+        enforceSso: form.enforceSso,
+        emailDomains: form.emailDomains.split(",").map(domain => domain.trim()).filter(Boolean),
+        samlMetadataXml: form.samlMetadataXml || undefined,
+        samlEntityId: form.samlEntityId || null,
+        samlSsoUrl: form.samlSsoUrl || null,
+        samlCertificate: form.samlCertificate || null,
+        oidcIssuerUrl: form.oidcIssuerUrl || null,
+        oidcClientId: form.oidcClientId || null,
+        oidcClientSecret: form.oidcClientSecret || undefined,
+        attributeMapping,
+        jitProvisioning: form.jitProvisioning,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sso-config'] });
+      toast({ title: "Success", description: "Single sign-on settings saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save single sign-on settings", variant: "destructive" });
+    },
+  });
+
+  const verifyDomainMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('POST', `/api/sso-config/email-domains/${id}/verify`, { organisationId: config?.organisationId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sso-config'] });
+      toast({ title: "Success", description: "Email domain verified" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to verify email domain", variant: "destructive" });
+    },
+  });
+
+  const createScimTokenMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/scim-tokens', { name });
+      return response.json();
+    },
+    onSuccess: (created: { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scim-tokens'] });
+      setNewScimToken(created.token);
+      setScimTokenName("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create SCIM token", variant: "destructive" });
+    },
+  });
+
+  const revokeScimTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/scim-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scim-tokens'] });
+      toast({ title: "Success", description: "SCIM token revoked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to revoke SCIM token", variant: "destructive" });
+    },
+  });
+
+  const updateForm = (changes: Partial<SsoForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleMetadataUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    updateForm({ samlMetadataXml: await file.text() });
+    setMetadataFileName(file.name);
+  };
+
+  const copyToClipboard = (value: string) => {
+    navigator.clipboard.writeText(value);
+    toast({ title: "Copied", description: "Copied to clipboard" });
+  };
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="loading loading-spinner loading-lg"></div>
+      </div>
+    );
+  }
+
+  const serviceProviderValues = form.protocol === 'saml'
+    ? [
+        { label: 'Entity ID', value: config.serviceProvider.samlEntityId },
+        { label: 'ACS URL', value: config.serviceProvider.samlAcsUrl },
+        { label: 'Metadata URL', value: config.serviceProvider.samlMetadataUrl },
+      ]
+    : [
+        { label: 'Redirect URI', value: config.serviceProvider.oidcRedirectUri },
+      ];
+
+  return (
+    <div>
+      {/* Breadcrumbs */}
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li><a data-testid="link-admin">Admin</a></li>
+          <li className="font-semibold" data-testid="text-current-page">Single Sign-On</li>
+        </ul>
+      </div>
+
+      {/* Page Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Single Sign-On</h1>
+          <p className="text-base-content/70">Let your users sign in with your organisation's identity provider (SAML 2.0 or OpenID Connect).</p>
+        </div>
+        <button
+          className="btn btn-primary"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-sso"
+        >
+          {saveMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : <><i className="fas fa-save"></i> Save</>}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Identity Provider */}
+          <div className="card bg-base-100 shadow-sm">
+            <div className="card-body">
+              <h2 className="card-title">Identity provider</h2>
+
+              <div className="flex gap-1 bg-base-200 p-1 rounded-lg w-fit">
+                {(['saml', 'oidc'] as SsoProtocol[]).map(protocol => (
+                  <button
+                    key={protocol}
+                    className={`btn btn-sm ${form.protocol === protocol ? 'btn-primary' : 'btn-ghost'}`}
+                    onClick={() => updateForm({ protocol })}
+                    data-testid={`button-protocol-${protocol}`}
+                  >
+                    {protocol === 'saml' ? 'SAML 2.0' : 'OpenID Connect'}
+                  </button>
+                ))}
+              </div>
+
+              {form.protocol === 'saml' ? (
+                <div className="space-y-4 mt-2">
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text">IdP metadata XML</span>
+                      {config.hasSamlMetadata && !metadataFileName && (
+                        <span className="label-text-alt text-success"><i className="fas fa-check"></i> Metadata uploaded</span>
+                      )}
+                    </label>
+                    <input
+                      type="file"
+                      accept=".xml,application/xml,text/xml"
+                      className="file-input file-input-bordered w-full"
+                      onChange={handleMetadataUpload}
+                      data-testid="input-saml-metadata"
+                    />
+                    <label className="label">
+                      <span className="label-text-alt">Uploading metadata fills in the fields below when you save.</span>
+                    </label>
+                  </div>
+
+                  <div className="form-control">
+                    <label className="label"><span className="label-text">IdP entity ID</span></label>
+                    <input
+                      type="text"
+                      className="input input-bordered"
+                      value={form.samlEntityId}
+                      onChange={(e) => updateForm({ samlEntityId: e.target.value })}
+                      disabled={!!form.samlMetadataXml}
+                      data-testid="input-saml-entity-id"
+                    />
+                  </div>
+
+                  <div className="form-control">
+                    <label className="label"><span className="label-text">IdP sign-in URL</span></label>
+                    <input
+                      type="url"
+                      className="input input-bordered"
+                      placeholder="https://idp.example.org/saml2/sso"
+                      value={form.samlSsoUrl}
+                      onChange={(e) => updateForm({ samlSsoUrl: e.target.value })}
+                      disabled={!!form.samlMetadataXml}
+                      data-testid="input-saml-sso-url"
+                    />
+                  </div>
+
+                  <div className="form-control">
+                    <label className="label"><span className="label-text">IdP signing certificate</span></label>
+                    <textarea
+                      className="textarea textarea-bordered font-mono text-xs h-28"
+                      placeholder="MIIC..."
+                      value={form.samlCertificate}
+                      onChange={(e) => updateForm({ samlCertificate: e.target.value })}
+                      disabled={!!form.samlMetadataXml}
+                      data-testid="textarea-saml-certificate"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4 mt-2">
+                  <div className="form-control">
+                    <label className="label"><span className="label-text">Issuer URL</span></label>
+                    <input
+                      type="url"
+                      className="input input-bordered"
+                      placeholder="https://login.microsoftonline.com/{tenant}/v2.0"
+                      value={form.oidcIssuerUrl}
+                      onChange={(e) => updateForm({ oidcIssuerUrl: e.target.value })}
+                      data-testid="input-oidc-issuer"
+                    />
+                  </div>
+
+                  <div className="form-control">
+                    <label className="label"><span className="label-text">Client ID</span></label>
+                    <input
+                      type="text"
+                      className="input input-bordered"
+                      value={form.oidcClientId}
+                      onChange={(e) => updateForm({ oidcClientId: e.target.value })}
+                      data-testid="input-oidc-client-id"
+                    />
+                  </div>
+
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text">Client secret</span>
+                      {config.hasOidcClientSecret && (
+                        <span className="label-text-alt text-success"><i className="fas fa-check"></i> Secret stored</span>
+                      )}
+                    </label>
+                    <input
+                      type="password"
+                      className="input input-bordered"
+                      placeholder={config.hasOidcClientSecret ? "Leave blank to keep the stored secret" : ""}
+                      value={form.oidcClientSecret}
+                      onChange={(e) => updateForm({ oidcClientSecret: e.target.value })}
+                      data-testid="input-oidc-client-secret"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Attribute Mapping */}
+          <div className="card bg-base-100 shadow-sm">
+            <div className="card-body">
+              <h2 className="card-title">Attribute mapping</h2>
+              <p className="text-sm text-base-content/70">
+                The {form.protocol === 'saml' ? 'SAML attribute' : 'claim'} your identity provider uses for each field. Leave blank to use the usual names.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                {mappedFields.map(field => (
+                  <div className="form-control" key={field.key}>
+                    <label className="label"><span className="label-text">{field.label}</span></label>
+                    <input
+                      type="text"
+                      className="input input-bordered input-sm"
+                      placeholder={form.protocol === 'saml' ? field.samlDefault : field.oidcDefault}
+                      value={form.attributeMapping[field.key]}
+                      onChange={(e) => updateForm({ attributeMapping: { ...form.attributeMapping, [field.key]: e.target.value } })}
+                      data-testid={`input-mapping-${field.key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* SCIM Provisioning */}
+          <div className="card bg-base-100 shadow-sm">
+            <div className="card-body">
+              <h2 className="card-title">User provisioning (SCIM)</h2>
+              <p className="text-sm text-base-content/70">
+                Let your identity provider create, update and deactivate users and groups automatically.
+                Deactivated users stop using a licence; groups can be used in assignment rules.
+              </p>
+
+              {scim && (
+                <div className="mt-2">
+                  <div className="text-xs text-base-content/60">SCIM base URL</div>
+                  <div className="flex items-center gap-2">
+                    <code className="text-xs break-all flex-1" data-testid="text-scim-base-url">{scim.baseUrl}</code>
+                    <button className="btn btn-ghost btn-xs" onClick={() => copyToClipboard(scim.baseUrl)} data-testid="button-copy-scim-base-url">
+                      <i className="fas fa-copy"></i>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {newScimToken && (
+                <div className="alert alert-warning mt-2" data-testid="alert-new-scim-token">
+                  <i className="fas fa-key"></i>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold">Copy this token now - it will not be shown again</div>
+                    <code className="text-xs break-all">{newScimToken}</code>
+                  </div>
+                  <button className="btn btn-sm" onClick={() => copyToClipboard(newScimToken)} data-testid="button-copy-scim-token">
+                    <i className="fas fa-copy"></i> Copy
+                  </button>
+                  <button className="btn btn-sm btn-ghost" onClick={() => setNewScimToken(null)} data-testid="button-dismiss-scim-token">
+                    Done
+                  </button>
+                </div>
+              )}
+
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  className="input input-bordered input-sm flex-1"
+                  placeholder="Token name, e.g. Entra ID"
+                  value={scimTokenName}
+                  onChange={(e) => setScimTokenName(e.target.value)}
+                  data-testid="input-scim-token-name"
+                />
+                <button
+                  className="btn btn-sm btn-primary"
+                  onClick={() => createScimTokenMutation.mutate(scimTokenName.trim())}
+                  disabled={!scimTokenName.trim() || createScimTokenMutation.isPending}
+                  data-testid="button-create-scim-token"
+                >
+                  {createScimTokenMutation.isPending ? <span className="loading loading-spinner loading-xs"></span> : <><i className="fas fa-plus"></i> Create token</>}
+                </button>
+              </div>
+
+              {scim && scim.tokens.length > 0 && (
+                <div className="overflow-x-auto mt-2">
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th>Name</th>
+                        <th>Token</th>
+                        <th>Last used</th>
+                        <th>Status</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scim.tokens.map(token => (
+                        <tr key={token.id} data-testid={`row-scim-token-${token.id}`}>
+                          <td>{token.name}</td>
+                          <td><code className="text-xs">{token.tokenPrefix}...</code></td>
+                          <td>{token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}</td>
+                          <td>
+                            {token.revokedAt
+                              ? <span className="badge badge-error badge-sm">Revoked</span>
+                              : <span className="badge badge-success badge-sm">Active</span>}
+                          </td>
+                          <td className="text-right">
+                            {!token.revokedAt && (
+                              <button
+                                className="btn btn-ghost btn-xs text-error"
+                                onClick={() => {
+                                  if (confirm(`Revoke "${token.name}"? Your identity provider will stop syncing users.`)) {
+                                    revokeScimTokenMutation.mutate(token.id);
+                                  }
+                                }}
+                                disabled={revokeScimTokenMutation.isPending}
+                                data-testid={`button-revoke-scim-token-${token.id}`}
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Sign-in Options */}
+          <div className="card bg-base-100 shadow-sm">
+            <div className="card-body space-y-2">
+              <h2 className="card-title">Sign-in options</h2>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-success"
+                  checked={form.isEnabled}
+                  onChange={(e) => updateForm({ isEnabled: e.target.checked, enforceSso: e.target.checked && form.enforceSso })}
+                  data-testid="toggle-sso-enabled"
+                />
+                <span className="label-text">Enable single sign-on</span>
+              </label>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-warning"
+                  checked={form.enforceSso}
+                  onChange={(e) => updateForm({ enforceSso: e.target.checked })}
+                  disabled={!form.isEnabled}
+                  data-testid="toggle-sso-enforced"
+                />
+                <span className="label-text">Require single sign-on (disable password login)</span>
+              </label>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-success"
+                  checked={form.jitProvisioning}
+                  onChange={(e) => updateForm({ jitProvisioning: e.target.checked })}
+                  data-testid="toggle-jit-provisioning"
+                />
+                <span className="label-text">Create accounts on first sign-in</span>
+              </label>
+              <p className="text-xs text-base-content/60">New accounts are learners and use one of your licences.</p>
+
+              <div className="form-control">
+                <label className="label"><span className="label-text">Email domains</span></label>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder="nhs.net, example.gov.uk"
+                  value={form.emailDomains}
+                  onChange={(e) => updateForm({ emailDomains: e.target.value })}
+                  data-testid="input-email-domains"
+                />
+                <label className="label">
+                  <span className="label-text-alt">Once verified, people with these addresses are sent to your identity provider even before they have an account.</span>
+                </label>
+                {(config.emailDomainVerification || []).map(entry => (
+                  <div key={entry.id} className="text-xs border border-base-300 rounded p-2 mt-2" data-testid={`email-domain-${entry.domain}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{entry.domain}</span>
+                      {entry.verified ? (
+                        <span className="badge badge-success badge-sm">Verified</span>
+                      ) : (
+                        <button
+                          type="button"
+                          className="btn btn-xs btn-outline"
+                          onClick={() => verifyDomainMutation.mutate(entry.id)}
+                          disabled={verifyDomainMutation.isPending}
+                          data-testid={`button-verify-domain-${entry.domain}`}
+                        >
+                          Verify
+                        </button>
+                      )}
+                    </div>
+                    {!entry.verified && (
+                      <div className="mt-1 text-base-content/60 break-all">
+                        Add a TXT record named <code>{entry.txtRecord.name}</code> with the value <code>{entry.txtRecord.value}</code>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Service Provider Details */}
+          <div className="card bg-base-100 shadow-sm">
+            <div className="card-body">
+              <h2 className="card-title">Give these to your IdP administrator</h2>
+              <div className="space-y-3">
+                {serviceProviderValues.map(item => (
+                  <div key={item.label}>
+                    <div className="text-xs text-base-content/60">{item.label}</div>
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs break-all flex-1">{item.value}</code>
+                      <button className="btn btn-ghost btn-xs" onClick={() => copyToClipboard(item.value)} data-testid={`button-copy-${item.label.toLowerCase().replace(/\s+/g, '-')}`}>
+                        <i className="fas fa-copy"></i>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,15 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { TrainingMatrixStatusIcon } from "@/components/TrainingMatrixStatusIcon";
+import { ScheduledReports } from "@/components/ScheduledReports";
+import { HistoricalMatrix } from "@/components/HistoricalMatrix";
 
 interface TrainingMatrixData {
   staff: StaffMember[];
   courses: CourseInfo[];
   matrix: MatrixCell[][];
+  learningPaths?: LearningPathInfo[];
+  learningPathMatrix?: (LearningPathCell | null)[][];
   summary: {
     red: number;
     amber: number;
@@ -37,6 +41,18 @@ interface CourseInfo {
   status: string;
 }
 
+interface LearningPathInfo {
+  id: string;
+  title: string;
+}
+
+interface LearningPathCell {
+  completedSteps: number;
+  totalSteps: number;
+  percentComplete: number;
+  status: 'not_started' | 'in_progress' | 'completed';
+}
+
 interface MatrixCell {
   status: 'red' | 'amber' | 'green' | 'blue' | 'grey' | 'blank' | 'failed';
   label: string;
@@ -47,6 +63,8 @@ interface MatrixCell {
   attemptCount: number;
   assignmentId?: string;
   completionId?: string;
+  external?: boolean; // completed through approved external training
+  provider?: string;
 }
 
 interface FilterState {
@@ -76,6 +94,7 @@ export function AdminTrainingMatrix() {
     cell: MatrixCell;
   } | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [showHistoricalMatrix, setShowHistoricalMatrix] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
   const { toast } = useToast();
@@ -242,7 +261,7 @@ export function AdminTrainingMatrix() {
     }
   };
 
-  const exportData = async (format: 'csv' | 'pdf') => {
+  const exportData = async (format: 'csv' | 'xlsx' | 'pdf') => {
     setIsExporting(true);
     try {
       const response = await fetch('/api/training-matrix/export', {
@@ -322,6 +341,14 @@ export function AdminTrainingMatrix() {
             <i className="fas fa-save"></i>
             Save Current View
           </button>
+          <button 
+            className="btn btn-outline btn-sm"
+            onClick={() => setShowHistoricalMatrix(true)}
+            data-testid="button-historical-matrix"
+          >
+            <i className="fas fa-history"></i>
+            View Past Date
+          </button>
           <div className="dropdown dropdown-end">
             <div tabIndex={0} role="button" className="btn btn-outline btn-sm" data-testid="button-export">
               <i className="fas fa-download"></i>
@@ -334,6 +361,12 @@ export function AdminTrainingMatrix() {
                   Export as CSV
                 </a>
               </li>
+              <li>
+                <a onClick={() => exportData('xlsx')} data-testid="button-export-xlsx">
+                  <i className="fas fa-file-excel"></i>
+                  Export as Excel
+                </a>
+              </li>
               <li>
                 <a onClick={() => exportData('pdf')} data-testid="button-export-pdf">
                   <i className="fas fa-file-pdf"></i>
@@ -725,6 +758,16 @@ export function AdminTrainingMatrix() {
                       </div>
                     </th>
                   ))}
+                  {(matrixData.learningPaths || []).map((path) => (
+                    <th key={path.id} className="text-center min-w-[140px] p-2" data-testid={`header-learning-path-${path.id}`}>
+                      <div className="flex flex-col items-center gap-1">
+                        <div className="font-medium text-xs leading-tight text-center break-words">{path.title}</div>
+                        <div className="text-xs text-base-content/60 text-center">
+                          <i className="fas fa-route mr-1"></i>Learning path
+                        </div>
+                      </div>
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
@@ -766,7 +809,33 @@ export function AdminTrainingMatrix() {
                                   {cell.label}
                                 </div>
                               )}
+                              {cell.external && (
+                                <span className="badge badge-outline badge-xs" title={cell.provider} data-testid={`badge-external-${staff.id}-${course.id}`}>
+                                  External
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                    {(matrixData.learningPaths || []).map((path, pathIndex) => {
+                      const pathCell = matrixData.learningPathMatrix?.[staffIndex]?.[pathIndex];
+                      return (
+                        <td key={`${staff.id}-${path.id}`} className="text-center p-2 min-w-[140px]" data-testid={`cell-learning-path-${staff.id}-${path.id}`}>
+                          {pathCell ? (
+                            <div className="flex flex-col items-center gap-1">
+                              <progress
+                                className={`progress w-24 ${pathCell.status === 'completed' ? 'progress-success' : 'progress-info'}`}
+                                value={pathCell.percentComplete}
+                                max="100"
+                              ></progress>
+                              <div className="text-xs">
+                                {pathCell.completedSteps}/{pathCell.totalSteps} courses
+                              </div>
                             </div>
+                          ) : (
+                            <span className="text-base-content/40">-</span>
                           )}
                         </td>
                       );
@@ -779,6 +848,21 @@ export function AdminTrainingMatrix() {
         </div>
       </div>
 
+      <ScheduledReports
+        currentFilters={{
+          departments: filters.departments,
+          roles: filters.roles,
+          courses: filters.courses,
+          statuses: filters.statuses,
+          mandatoryOnly: filters.mandatoryOnly,
+        }}
+        courses={matrixData.courses}
+      />
+
+      {showHistoricalMatrix && (
+        <HistoricalMatrix onClose={() => setShowHistoricalMatrix(false)} />
+      )}
+
       {/* Enhanced Course Results Modal */}
       {showDetailModal && selectedCell && (
         <div className="modal modal-open">
@@ -890,6 +974,14 @@ export function AdminTrainingMatrix() {
                             </span>
                           </div>
                         </div>
+                        {cell.external && (
+                          <div className="flex justify-between">
+                            <span>External provider:</span>
+                            <span className="font-medium" data-testid="results-external-provider">
+                              {cell.provider}
+                            </span>
+                          </div>
+                        )}
                         {cell.completionDate && (
                           <div className="flex justify-between">
                             <span>Completed:</span>
@@ -4,6 +4,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { LicenseLimitModal } from "@/components/LicenseLimitModal";
+import { EMAIL_LOCALES } from "@shared/schema";
 
 interface User {
   id: string;
@@ -16,8 +17,13 @@ interface User {
   lastActive?: string;
   jobTitle?: string;
   department?: string;
+  preferredLanguage?: string | null;
   allowCertificateDownload: boolean;
   profileImageUrl?: string;
+  lockedUntil?: string | null;
+  managerId?: string | null;
+  isManager?: boolean;
+  customRoleId?: string | null;
 }
 
 interface LicenseInfo {
@@ -96,6 +102,7 @@ export function AdminUsers() {
     lastName: "",
     jobTitle: "",
     department: "",
+    preferredLanguage: "",
     allowCertificateDownload: false,
     status: "active",
   });
@@ -107,14 +114,24 @@ export function AdminUsers() {
     lastName: "",
     jobTitle: "",
     department: "",
+    preferredLanguage: "",
     allowCertificateDownload: false,
     status: "active",
+    managerId: "",
+    isManager: false,
+    customRoleId: "",
   });
 
   const { data: users = [], isLoading } = useQuery<User[]>({
     queryKey: ['/api/users'],
   });
 
+  const canManageRoles = !!currentUser?.permissions?.includes('roles.manage');
+  const { data: customRoles = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/roles'],
+    enabled: canManageRoles,
+  });
+
   // Fetch user assignments for the selected user
   const { data: userAssignments = [], isLoading: assignmentsLoading } = useQuery<Assignment[]>({
     queryKey: ['/api/assignments/user', selectedUser?.id],
@@ -131,6 +148,7 @@ export function AdminUsers() {
     mutationFn: async (data: any) => {
       return await apiRequest('POST', '/api/users', {
         ...data,
+        preferredLanguage: data.preferredLanguage || null,
         role: 'user',
         organisationId: currentUser?.organisationId,
       });
@@ -174,6 +192,22 @@ export function AdminUsers() {
     },
   });
 
+  const updateManagerMutation = useMutation({
+    mutationFn: async ({ userId, isManager }: { userId: string; isManager: boolean }) => {
+      return await apiRequest('PATCH', `/api/users/${userId}/manager`, { isManager });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update line manager",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateUserStatusMutation = useMutation({
     mutationFn: async ({ userId, status }: { userId: string; status: string }) => {
       return await apiRequest('PATCH', `/api/users/${userId}/status`, { status });
@@ -197,6 +231,26 @@ export function AdminUsers() {
     },
   });
 
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest('POST', `/api/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Success",
+        description: "User unlocked - they can log in again",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to unlock user",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: string) => {
       return await apiRequest('DELETE', `/api/users/${userId}`);
@@ -367,6 +421,7 @@ export function AdminUsers() {
       lastName: "",
       jobTitle: "",
       department: "",
+      preferredLanguage: "",
       allowCertificateDownload: false,
       status: "active",
     });
@@ -379,8 +434,12 @@ export function AdminUsers() {
       lastName: "",
       jobTitle: "",
       department: "",
+      preferredLanguage: "",
       allowCertificateDownload: false,
       status: "active",
+      managerId: "",
+      isManager: false,
+      customRoleId: "",
     });
   };
 
@@ -430,8 +489,12 @@ export function AdminUsers() {
       lastName: user.lastName,
       jobTitle: user.jobTitle || "",
       department: user.department || "",
+      preferredLanguage: user.preferredLanguage || "",
       allowCertificateDownload: user.allowCertificateDownload,
       status: user.status,
+      managerId: user.managerId || "",
+      isManager: !!user.isManager,
+      customRoleId: user.customRoleId || "",
     });
     setShowEditModal(true);
   };
@@ -439,10 +502,14 @@ export function AdminUsers() {
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedUser) {
+      const { isManager, ...profile } = editFormData;
       updateUserMutation.mutate({
         userId: selectedUser.id,
-        data: editFormData
+        data: profile
       });
+      if (canManageRoles && isManager !== !!selectedUser.isManager) {
+        updateManagerMutation.mutate({ userId: selectedUser.id, isManager });
+      }
       setShowEditModal(false);
       resetEditForm();
     }
@@ -506,6 +573,8 @@ export function AdminUsers() {
     }
   };
 
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+
   const handleToggleUserStatus = async (user: User) => {
     const newStatus = user.status === 'active' ? 'inactive' : 'active';
     
@@ -938,6 +1007,12 @@ export function AdminUsers() {
                         <div className={`badge ${user.status === 'active' ? 'badge-success' : 'badge-error'}`} data-testid={`badge-user-status-${user.id}`}>
                           {user.status}
                         </div>
+                        {isLocked(user) && (
+                          <div className="badge badge-warning ml-1" title={`Locked until ${new Date(user.lockedUntil!).toLocaleString()}`} data-testid={`badge-user-locked-${user.id}`}>
+                            <i className="fas fa-lock mr-1"></i>
+                            Locked
+                          </div>
+                        )}
                       </td>
                       <td>
                         <div className={`badge ${user.allowCertificateDownload ? 'badge-primary' : 'badge-ghost'}`} data-testid={`badge-cert-download-${user.id}`}>
@@ -960,6 +1035,17 @@ export function AdminUsers() {
                           >
                             <i className="fas fa-eye"></i>
                           </button>
+                          {isLocked(user) && (
+                            <button
+                              className="btn btn-sm btn-info"
+                              onClick={() => unlockUserMutation.mutate(user.id)}
+                              disabled={unlockUserMutation.isPending}
+                              title="Unlock account"
+                              data-testid={`button-unlock-user-${user.id}`}
+                            >
+                              <i className="fas fa-lock-open"></i>
+                            </button>
+                          )}
                           <button 
                             className={`btn btn-sm ${user.status === 'active' ? 'btn-warning' : 'btn-success'}`}
                             onClick={() => handleToggleUserStatus(user)}
@@ -1069,6 +1155,22 @@ export function AdminUsers() {
                     data-testid="input-user-department"
                   />
                 </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Email Language</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={formData.preferredLanguage}
+                    onChange={(e) => setFormData(prev => ({ ...prev, preferredLanguage: e.target.value }))}
+                    data-testid="select-user-preferred-language"
+                  >
+                    <option value="">Default (English)</option>
+                    {Object.entries(EMAIL_LOCALES).map(([locale, name]) => (
+                      <option key={locale} value={locale}>{name}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="form-control">
@@ -1823,6 +1925,22 @@ export function AdminUsers() {
                     data-testid="input-edit-department"
                   />
                 </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Email Language</span>
+                  </label>
+                  <select
+                    className="select select-bordered"
+                    value={editFormData.preferredLanguage}
+                    onChange={(e) => setEditFormData({...editFormData, preferredLanguage: e.target.value})}
+                    data-testid="select-edit-preferred-language"
+                  >
+                    <option value="">Default (English)</option>
+                    {Object.entries(EMAIL_LOCALES).map(([locale, name]) => (
+                      <option key={locale} value={locale}>{name}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="form-control">
@@ -1857,6 +1975,69 @@ export function AdminUsers() {
                 </label>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Reports To</span>
+                  </label>
+                  <select 
+                    className="select select-bordered"
+                    value={editFormData.managerId}
+                    onChange={(e) => setEditFormData({...editFormData, managerId: e.target.value})}
+                    data-testid="select-edit-manager"
+                  >
+                    <option value="">No manager</option>
+                    {users
+                      .filter(u => u.id !== selectedUser?.id && u.status === 'active')
+                      .map(u => (
+                        <option key={u.id} value={u.id}>
+                          {u.firstName} {u.lastName}{u.isManager ? '' : ' (not a manager)'}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="form-control">
+                  <label className="label cursor-pointer justify-start gap-3 mt-9">
+                    <input 
+                      type="checkbox" 
+                      className="toggle"
+                      checked={editFormData.isManager}
+                      onChange={(e) => setEditFormData({...editFormData, isManager: e.target.checked})}
+                      disabled={!canManageRoles}
+                      data-testid="toggle-edit-is-manager"
+                      style={{
+                        '--tglbg': editFormData.isManager ? '#4ade80' : '#d1d5db',
+                        backgroundColor: editFormData.isManager ? '#4ade80' : '#d1d5db',
+                      } as React.CSSProperties}
+                    />
+                    <span className="label-text">Line Manager (can view and assign training for their team)</span>
+                  </label>
+                </div>
+              </div>
+
+              {canManageRoles && (
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Custom Role</span>
+                  </label>
+                  <select 
+                    className="select select-bordered"
+                    value={editFormData.customRoleId}
+                    onChange={(e) => setEditFormData({...editFormData, customRoleId: e.target.value})}
+                    disabled={selectedUser?.role !== 'user'}
+                    data-testid="select-edit-custom-role"
+                  >
+                    <option value="">No custom role</option>
+                    {customRoles.map(role => (
+                      <option key={role.id} value={role.id}>{role.name}</option>
+                    ))}
+                  </select>
+                  <label className="label">
+                    <span className="label-text-alt">Gives this user access to parts of the admin area. Admins already have full access.</span>
+                  </label>
+                </div>
+              )}
+
               <div className="modal-action">
                 <button 
                   type="button" 
@@ -5,6 +5,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { ImageUpload } from "@/components/ImageUpload";
+import { AssessmentEditor } from "@/components/assessment/AssessmentEditor";
 import type { UploadResult } from "@uppy/core";
 
 interface ScormValidation {
@@ -33,6 +34,8 @@ export function SuperAdminCourseBuilder() {
   const [showScormPreview, setShowScormPreview] = useState(false);
   const [scormPackageInfo, setScormPackageInfo] = useState<ScormPackageInfo | null>(null);
   const [isProcessingScorm, setIsProcessingScorm] = useState(false);
+  const [courseType, setCourseType] = useState<'scorm' | 'assessment'>('scorm');
+  const [assessmentCourse, setAssessmentCourse] = useState<{ id: string; title: string } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
@@ -88,18 +91,23 @@ export function SuperAdminCourseBuilder() {
 
   const createCourseMutation = useMutation({
     mutationFn: async (data: any) => {
-      return await apiRequest('POST', '/api/courses', {
+      const response = await apiRequest('POST', '/api/courses', {
         ...data,
         status: 'published',
       });
+      return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (course: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
       queryClient.invalidateQueries({ queryKey: ['/api/courses/categories'] });
       toast({
         title: "Success",
         description: "Course published to library successfully",
       });
+      // Assessments are written straight after the course is created
+      if (course.scormVersion === 'assessment') {
+        setAssessmentCourse({ id: course.id, title: course.title });
+      }
       resetForm();
       setActiveTab(0);
     },
@@ -151,6 +159,7 @@ export function SuperAdminCourseBuilder() {
     });
     setScormPackageInfo(null);
     setIsProcessingScorm(false);
+    setCourseType('scorm');
     setShowNewCategoryModal(false);
     setShowNewFolderModal(false);
     setNewCategoryName("");
@@ -267,6 +276,25 @@ export function SuperAdminCourseBuilder() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (courseType === 'assessment') {
+      if (!formData.title) {
+        toast({
+          title: "Validation Error",
+          description: "Please provide a title",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { scormPackageUrl, ...details } = formData;
+      createCourseMutation.mutate({
+        ...details,
+        scormVersion: 'assessment',
+        certificateExpiryPeriod: formData.neverExpires ? null : formData.certificateExpiryPeriod,
+      });
+      return;
+    }
+
     if (!formData.title || !formData.scormPackageUrl) {
       toast({
         title: "Validation Error",
@@ -373,114 +401,154 @@ export function SuperAdminCourseBuilder() {
           {/* Tab Content */}
           {activeTab === 0 && (
             <form onSubmit={handleSubmit} className="space-y-6">
-              {/* SCORM Package Upload */}
+              {/* Course Type */}
               <div className="form-control">
                 <label className="label">
-                  <span className="label-text">SCORM Package Upload *</span>
+                  <span className="label-text">Course Type</span>
                 </label>
-                <ObjectUploader
-                  maxNumberOfFiles={1}
-                  maxFileSize={104857600} // 100MB
-                  onGetUploadParameters={handleScormUpload}
-                  onComplete={handleScormComplete}
-                  buttonClassName="btn btn-outline w-full"
-                >
-                  <i className="fas fa-upload mr-2"></i>
-                  {isProcessingScorm ? "Processing..." : formData.scormPackageUrl ? "Change SCORM Package" : "Upload SCORM Package (.zip)"}
-                </ObjectUploader>
+                <div className="flex gap-6">
+                  <label className="label cursor-pointer gap-2">
+                    <input
+                      type="radio"
+                      name="courseType"
+                      className="radio"
+                      checked={courseType === 'scorm'}
+                      onChange={() => setCourseType('scorm')}
+                      data-testid="radio-course-type-scorm"
+                    />
+                    <span className="label-text">SCORM package</span>
+                  </label>
+                  <label className="label cursor-pointer gap-2">
+                    <input
+                      type="radio"
+                      name="courseType"
+                      className="radio"
+                      checked={courseType === 'assessment'}
+                      onChange={() => setCourseType('assessment')}
+                      data-testid="radio-course-type-assessment"
+                    />
+                    <span className="label-text">Assessment (quiz built here)</span>
+                  </label>
+                </div>
+              </div>
+
+              {courseType === 'assessment' && (
+                <div className="alert alert-info">
+                  <i className="fas fa-info-circle"></i>
+                  <span>After publishing you'll add the questions, time limit and attempt limit. Results are scored against the pass mark below.</span>
+                </div>
+              )}
+
+              {/* SCORM Package Upload */}
+              {courseType === 'scorm' && (
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">SCORM Package Upload *</span>
+                  </label>
+                  <ObjectUploader
+                    maxNumberOfFiles={1}
+                    maxFileSize={104857600} // 100MB
+                    onGetUploadParameters={handleScormUpload}
+                    onComplete={handleScormComplete}
+                    buttonClassName="btn btn-outline w-full"
+                  >
+                    <i className="fas fa-upload mr-2"></i>
+                    {isProcessingScorm ? "Processing..." : formData.scormPackageUrl ? "Change SCORM Package" : "Upload SCORM Package (.zip)"}
+                  </ObjectUploader>
                 
-                {/* SCORM Package Status and Actions */}
-                {formData.scormPackageUrl && (
-                  <div className="mt-4 p-4 bg-base-100 rounded-lg border">
-                    {isProcessingScorm ? (
-                      <div className="flex items-center gap-2">
-                        <span className="loading loading-spinner loading-sm"></span>
-                        <span>Processing SCORM package...</span>
-                      </div>
-                    ) : scormPackageInfo ? (
-                      <div className="space-y-3">
-                        {/* Package Info */}
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <h4 className="font-semibold" data-testid="text-package-title">{scormPackageInfo.title}</h4>
-                            <p className="text-sm text-base-content/60">Package ID: {scormPackageInfo.packageId}</p>
-                          </div>
-                          <div className={`badge ${
-                            scormPackageInfo.validation?.status === 'valid' ? 'badge-success' : 
-                            scormPackageInfo.validation?.status === 'draft' ? 'badge-warning' : 'badge-error'
-                          }`} data-testid="badge-validation-status">
-                            {(scormPackageInfo.validation?.status || 'unknown').toUpperCase()}
-                          </div>
+                  {/* SCORM Package Status and Actions */}
+                  {formData.scormPackageUrl && (
+                    <div className="mt-4 p-4 bg-base-100 rounded-lg border">
+                      {isProcessingScorm ? (
+                        <div className="flex items-center gap-2">
+                          <span className="loading loading-spinner loading-sm"></span>
+                          <span>Processing SCORM package...</span>
                         </div>
-                        
-                        {/* Validation Details */}
-                        <div className="grid grid-cols-2 gap-2 text-sm">
-                          <div className="flex items-center gap-2">
-                            <i className={`fas ${scormPackageInfo.validation?.manifestFound ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
-                            <span>Manifest Found</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <i className={`fas ${scormPackageInfo.validation?.launchFileFound ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
-                            <span>Launch File Found</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <i className={`fas ${scormPackageInfo.validation?.launchFileCanOpen ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
-                            <span>Launch File Accessible</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <i className="fas fa-info-circle text-info"></i>
-                            <span>SCORM {scormPackageInfo.version}</span>
+                      ) : scormPackageInfo ? (
+                        <div className="space-y-3">
+                          {/* Package Info */}
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <h4 className="font-semibold" data-testid="text-package-title">{scormPackageInfo.title}</h4>
+                              <p className="text-sm text-base-content/60">Package ID: {scormPackageInfo.packageId}</p>
+                            </div>
+                            <div className={`badge ${
+                              scormPackageInfo.validation?.status === 'valid' ? 'badge-success' : 
+                              scormPackageInfo.validation?.status === 'draft' ? 'badge-warning' : 'badge-error'
+                            }`} data-testid="badge-validation-status">
+                              {(scormPackageInfo.validation?.status || 'unknown').toUpperCase()}
+                            </div>
                           </div>
-                        </div>
                         
-                        {/* Error Messages */}
-                        {scormPackageInfo.validation?.errors && scormPackageInfo.validation.errors.length > 0 && (
-                          <div className="alert alert-error text-sm">
-                            <i className="fas fa-exclamation-triangle"></i>
-                            <div>
-                              <p className="font-semibold">Validation Errors:</p>
-                              <ul className="list-disc list-inside">
-                                {scormPackageInfo.validation.errors.map((error, index) => (
-                                  <li key={index}>{error}</li>
-                                ))}
-                              </ul>
+                          {/* Validation Details */}
+                          <div className="grid grid-cols-2 gap-2 text-sm">
+                            <div className="flex items-center gap-2">
+                              <i className={`fas ${scormPackageInfo.validation?.manifestFound ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
+                              <span>Manifest Found</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <i className={`fas ${scormPackageInfo.validation?.launchFileFound ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
+                              <span>Launch File Found</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <i className={`fas ${scormPackageInfo.validation?.launchFileCanOpen ? 'fa-check text-success' : 'fa-times text-error'}`}></i>
+                              <span>Launch File Accessible</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <i className="fas fa-info-circle text-info"></i>
+                              <span>SCORM {scormPackageInfo.version}</span>
                             </div>
                           </div>
-                        )}
                         
-                        {/* Action Buttons */}
-                        <div className="flex gap-2 justify-end">
-                          <button 
-                            type="button"
-                            className="btn btn-sm btn-outline"
-                            onClick={handleTestPackage}
-                            data-testid="button-test-package"
-                          >
-                            <i className="fas fa-vial"></i> Test Package
-                          </button>
-                          <button 
-                            type="button"
-                            className="btn btn-sm btn-primary"
-                            onClick={handlePreviewCourse}
-                            disabled={scormPackageInfo.validation?.status === 'error'}
-                            data-testid="button-preview-package"
-                          >
-                            <i className="fas fa-eye"></i> Preview Course
-                          </button>
+                          {/* Error Messages */}
+                          {scormPackageInfo.validation?.errors && scormPackageInfo.validation.errors.length > 0 && (
+                            <div className="alert alert-error text-sm">
+                              <i className="fas fa-exclamation-triangle"></i>
+                              <div>
+                                <p className="font-semibold">Validation Errors:</p>
+                                <ul className="list-disc list-inside">
+                                  {scormPackageInfo.validation.errors.map((error, index) => (
+                                    <li key={index}>{error}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            </div>
+                          )}
+                        
+                          {/* Action Buttons */}
+                          <div className="flex gap-2 justify-end">
+                            <button 
+                              type="button"
+                              className="btn btn-sm btn-outline"
+                              onClick={handleTestPackage}
+                              data-testid="button-test-package"
+                            >
+                              <i className="fas fa-vial"></i> Test Package
+                            </button>
+                            <button 
+                              type="button"
+                              className="btn btn-sm btn-primary"
+                              onClick={handlePreviewCourse}
+                              disabled={scormPackageInfo.validation?.status === 'error'}
+                              data-testid="button-preview-package"
+                            >
+                              <i className="fas fa-eye"></i> Preview Course
+                            </button>
+                          </div>
                         </div>
-                      </div>
-                    ) : (
-                      <div className="text-sm text-success">
-                        <i className="fas fa-check"></i> SCORM package uploaded (processing...)
-                      </div>
-                    )}
-                  </div>
-                )}
+                      ) : (
+                        <div className="text-sm text-success">
+                          <i className="fas fa-check"></i> SCORM package uploaded (processing...)
+                        </div>
+                      )}
+                    </div>
+                  )}
                 
-                <label className="label">
-                  <span className="label-text-alt">Upload a SCORM 1.2 or SCORM 2004 compliant package (.zip)</span>
-                </label>
-              </div>
+                  <label className="label">
+                    <span className="label-text-alt">Upload a SCORM 1.2 or SCORM 2004 compliant package (.zip)</span>
+                  </label>
+                </div>
+              )}
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="form-control">
@@ -652,7 +720,7 @@ export function SuperAdminCourseBuilder() {
                   type="button" 
                   className="btn btn-secondary"
                   onClick={() => setActiveTab(1)}
-                  disabled={!formData.scormPackageUrl}
+                  disabled={courseType === 'assessment' || !formData.scormPackageUrl}
                   data-testid="button-preview-course"
                 >
                   Preview
@@ -732,9 +800,13 @@ export function SuperAdminCourseBuilder() {
                         'No folder selected'
                       }
                     </span></div>
-                    <div><strong>SCORM Package:</strong> <span className={formData.scormPackageUrl ? 'text-success' : 'text-error'} data-testid="text-summary-scorm">
-                      {formData.scormPackageUrl ? 'Uploaded ✓' : 'Not uploaded ✗'}
-                    </span></div>
+                    {courseType === 'assessment' ? (
+                      <div><strong>Type:</strong> <span data-testid="text-summary-type">Assessment - questions are added after publishing</span></div>
+                    ) : (
+                      <div><strong>SCORM Package:</strong> <span className={formData.scormPackageUrl ? 'text-success' : 'text-error'} data-testid="text-summary-scorm">
+                        {formData.scormPackageUrl ? 'Uploaded ✓' : 'Not uploaded ✗'}
+                      </span></div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -755,7 +827,7 @@ export function SuperAdminCourseBuilder() {
                 <button 
                   className="btn btn-primary"
                   onClick={handleSubmit}
-                  disabled={createCourseMutation.isPending || !formData.scormPackageUrl}
+                  disabled={createCourseMutation.isPending || (courseType === 'scorm' && !formData.scormPackageUrl)}
                   data-testid="button-final-publish"
                 >
                   {createCourseMutation.isPending ? (
@@ -770,6 +842,14 @@ export function SuperAdminCourseBuilder() {
         </div>
       </div>
 
+      {assessmentCourse && (
+        <AssessmentEditor
+          courseId={assessmentCourse.id}
+          courseTitle={assessmentCourse.title}
+          onClose={() => setAssessmentCourse(null)}
+        />
+      )}
+
       {/* SCORM Preview Modal */}
       {showScormPreview && (
         <dialog className="modal modal-open">
@@ -4,6 +4,7 @@ import { Link, useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ImageUpload } from "@/components/ImageUpload";
+import { AssessmentEditor } from "@/components/assessment/AssessmentEditor";
 
 interface Course {
   id: string;
@@ -17,12 +18,35 @@ interface Course {
   category: string;
   tags: string;
   certificateExpiryPeriod?: number;
+  recertificationLeadDays?: number | null;
+  scormVersion?: string | null;
+  launchUrlOverride?: string | null;
+  xapiActivityId?: string | null;
+  cmi5MoveOn?: string | null;
   status: string;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+interface CourseVersion {
+  id: string;
+  versionNumber: number;
+  scormPackageUrl: string | null;
+  scormVersion: string | null;
+  passmark: number | null;
+  changeNotes: string | null;
+  requiresRetraining: boolean;
+  createdAt: string;
+  isCurrent: boolean;
+  passes: number;
+}
+
+// Editing any of these publishes a new course version
+const VERSIONED_FIELDS = ['scormPackageUrl', 'scormVersion', 'launchUrlOverride', 'xapiActivityId', 'passmark'] as const;
+
+const emptyVersionOptions = { versionNotes: '', requireRetraining: false, retrainingDueDate: '' };
+
 interface CourseFolder {
   id: string;
   name: string;
@@ -46,15 +70,36 @@ interface CourseAnalytics {
   averageTimeToComplete: number;
 }
 
+interface ItemAnalysisQuestion {
+  interactionId: string;
+  description: string | null;
+  type: string | null;
+  responses: number;
+  correct: number;
+  percentCorrect: number | null;
+  averageLatencySeconds: number | null;
+  correctResponses: string[];
+  commonWrongResponses: { response: string; count: number }[];
+}
+
+interface ItemAnalysis {
+  courseId: string;
+  learners: number;
+  attempts: number;
+  questions: ItemAnalysisQuestion[];
+}
+
 export function SuperAdminCourses() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [selectedFolder, setSelectedFolder] = useState("");
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
+  const [showAssessmentEditor, setShowAssessmentEditor] = useState(false);
   const [showAnalyticsModal, setShowAnalyticsModal] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editFormData, setEditFormData] = useState<Partial<Course>>({});
+  const [versionOptions, setVersionOptions] = useState(emptyVersionOptions);
   const [showArchiveModal, setShowArchiveModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [confirmText, setConfirmText] = useState("");
@@ -86,21 +131,36 @@ export function SuperAdminCourses() {
     enabled: !!selectedCourse && showAnalyticsModal,
   });
 
+  const { data: itemAnalysis, isLoading: itemAnalysisLoading } = useQuery<ItemAnalysis>({
+    queryKey: [`/api/courses/${selectedCourse?.id}/item-analysis`],
+    enabled: !!selectedCourse && showAnalyticsModal,
+  });
+
   const { data: folders = [], isLoading: foldersLoading } = useQuery<CourseFolder[]>({
     queryKey: ['/api/course-folders'],
   });
 
+  const { data: courseVersions = [] } = useQuery<CourseVersion[]>({
+    queryKey: ['/api/courses', selectedCourse?.id, 'versions'],
+    enabled: showDetailsModal && !!selectedCourse,
+  });
+
   const updateCourseMutation = useMutation({
     mutationFn: async (data: Partial<Course>) => {
       if (!selectedCourse) throw new Error('No course selected');
-      return await apiRequest('PUT', `/api/courses/${selectedCourse.id}`, data);
+      const response = await apiRequest('PUT', `/api/courses/${selectedCourse.id}`, { ...data, ...versionOptions });
+      return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { publishedVersion?: { versionNumber: number; learnersReassigned: number } }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
       setIsEditing(false);
+      setVersionOptions(emptyVersionOptions);
+      const published = result.publishedVersion;
       toast({
         title: "Success",
-        description: "Course updated successfully",
+        description: published
+          ? `Version ${published.versionNumber} published${published.learnersReassigned > 0 ? ` - ${published.learnersReassigned} learner(s) reassigned for retraining` : ''}`
+          : "Course updated successfully",
       });
     },
     onError: (error: any) => {
@@ -363,7 +423,12 @@ export function SuperAdminCourses() {
         folderId: selectedCourse.folderId,
         tags: selectedCourse.tags,
         certificateExpiryPeriod: selectedCourse.certificateExpiryPeriod,
+        recertificationLeadDays: selectedCourse.recertificationLeadDays,
         scormPackageUrl: selectedCourse.scormPackageUrl,
+        scormVersion: selectedCourse.scormVersion,
+        launchUrlOverride: selectedCourse.launchUrlOverride,
+        xapiActivityId: selectedCourse.xapiActivityId,
+        cmi5MoveOn: selectedCourse.cmi5MoveOn,
         coverImageUrl: selectedCourse.coverImageUrl,
       });
       setIsEditing(true);
@@ -377,8 +442,13 @@ export function SuperAdminCourses() {
   const handleCancelEdit = () => {
     setIsEditing(false);
     setEditFormData({});
+    setVersionOptions(emptyVersionOptions);
   };
 
+  const publishesNewVersion = !!selectedCourse && VERSIONED_FIELDS.some(field =>
+    editFormData[field] !== undefined && (editFormData[field] ?? null) !== (selectedCourse[field] ?? null)
+  );
+
   const handlePreviewCourse = () => {
     if (selectedCourse?.scormPackageUrl) {
       // Open SCORM package in new window for preview
@@ -766,6 +836,11 @@ export function SuperAdminCourses() {
                       <div><strong>Certificate Expiry:</strong> <span data-testid="text-details-certificate-expiry">
                         {selectedCourse.certificateExpiryPeriod ? `${selectedCourse.certificateExpiryPeriod} months` : 'Never expires'}
                       </span></div>
+                      {selectedCourse.certificateExpiryPeriod ? (
+                        <div><strong>Recertification:</strong> <span data-testid="text-details-recertification">
+                          {selectedCourse.recertificationLeadDays != null ? `Reassigned ${selectedCourse.recertificationLeadDays} days before expiry` : 'Manual'}
+                        </span></div>
+                      ) : null}
                     </div>
                   </div>
                 </div>
@@ -774,11 +849,15 @@ export function SuperAdminCourses() {
                   <div>
                     <h4 className="font-semibold mb-2">Content & Media</h4>
                     <div className="space-y-2 text-sm">
-                      <div><strong>SCORM Package:</strong> 
-                        <span data-testid="text-details-scorm" className={selectedCourse.scormPackageUrl ? 'text-success' : 'text-error'}>
-                          {selectedCourse.scormPackageUrl ? ' ✓ Uploaded' : ' ✗ Not uploaded'}
-                        </span>
-                      </div>
+                      {selectedCourse.scormVersion === 'assessment' ? (
+                        <div><strong>Type:</strong> <span data-testid="text-details-type">Assessment</span></div>
+                      ) : (
+                        <div><strong>SCORM Package:</strong> 
+                          <span data-testid="text-details-scorm" className={selectedCourse.scormPackageUrl ? 'text-success' : 'text-error'}>
+                            {selectedCourse.scormPackageUrl ? ' ✓ Uploaded' : ' ✗ Not uploaded'}
+                          </span>
+                        </div>
+                      )}
                       <div><strong>Cover Image:</strong> 
                         <span data-testid="text-details-cover" className={selectedCourse.coverImageUrl ? 'text-success' : 'text-error'}>
                           {selectedCourse.coverImageUrl ? ' ✓ Uploaded' : ' ✗ Not uploaded'}
@@ -796,6 +875,42 @@ export function SuperAdminCourses() {
                     </div>
                   </div>
                 </div>
+
+                {courseVersions.length > 0 && (
+                  <div className="md:col-span-3">
+                    <h4 className="font-semibold mb-2">Versions</h4>
+                    <div className="overflow-x-auto">
+                      <table className="table table-sm" data-testid="table-course-versions">
+                        <thead>
+                          <tr>
+                            <th>Version</th>
+                            <th>Published</th>
+                            <th>Standard</th>
+                            <th>Pass Mark</th>
+                            <th>Passes</th>
+                            <th>Notes</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {courseVersions.map(version => (
+                            <tr key={version.id} data-testid={`row-course-version-${version.versionNumber}`}>
+                              <td>
+                                v{version.versionNumber}
+                                {version.isCurrent && <span className="badge badge-success badge-sm ml-2">Current</span>}
+                                {version.requiresRetraining && <span className="badge badge-warning badge-sm ml-2">Retraining</span>}
+                              </td>
+                              <td>{new Date(version.createdAt).toLocaleDateString()}</td>
+                              <td>{version.scormVersion || '-'}</td>
+                              <td>{version.passmark != null ? `${version.passmark}%` : '-'}</td>
+                              <td>{version.passes}</td>
+                              <td className="text-base-content/70">{version.changeNotes || '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -948,18 +1063,116 @@ export function SuperAdminCourses() {
                     </label>
                   </div>
 
-                  <div className="form-control">
-                    <label className="label">
-                      <span className="label-text">SCORM Package URL</span>
-                    </label>
-                    <input 
-                      type="text" 
-                      className="input input-bordered" 
-                      value={editFormData.scormPackageUrl || ''}
-                      onChange={(e) => setEditFormData(prev => ({ ...prev, scormPackageUrl: e.target.value }))}
-                      data-testid="input-edit-scorm-url"
-                    />
-                  </div>
+                  {editFormData.certificateExpiryPeriod ? (
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text">Recertify Before Expiry (days)</span>
+                      </label>
+                      <input 
+                        type="number" 
+                        min="0"
+                        className="input input-bordered" 
+                        placeholder="Leave empty to recertify manually"
+                        value={editFormData.recertificationLeadDays ?? ''}
+                        onChange={(e) => setEditFormData(prev => ({ ...prev, recertificationLeadDays: e.target.value ? parseInt(e.target.value) : null }))}
+                        data-testid="input-edit-recertification-lead-days"
+                      />
+                      <label className="label">
+                        <span className="label-text-alt">Learners are reassigned the course this many days before their certificate expires</span>
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {editFormData.scormVersion !== 'assessment' && (
+                    <>
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">SCORM Package URL</span>
+                        </label>
+                        <input 
+                          type="text" 
+                          className="input input-bordered" 
+                          value={editFormData.scormPackageUrl || ''}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, scormPackageUrl: e.target.value }))}
+                          data-testid="input-edit-scorm-url"
+                        />
+                      </div>
+
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">Content Standard</span>
+                        </label>
+                        <select
+                          className="select select-bordered"
+                          value={editFormData.scormVersion || '1.2'}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, scormVersion: e.target.value }))}
+                          data-testid="select-edit-content-standard"
+                        >
+                          <option value="1.2">SCORM 1.2</option>
+                          <option value="2004">SCORM 2004</option>
+                          <option value="xapi">xAPI (Tin Can)</option>
+                          <option value="cmi5">cmi5</option>
+                        </select>
+                      </div>
+                    </>
+                  )}
+
+                  {(editFormData.scormVersion === 'xapi' || editFormData.scormVersion === 'cmi5') && (
+                    <>
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">Launch URL</span>
+                        </label>
+                        <input 
+                          type="text" 
+                          className="input input-bordered" 
+                          placeholder="Defaults to the package URL"
+                          value={editFormData.launchUrlOverride || ''}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, launchUrlOverride: e.target.value || null }))}
+                          data-testid="input-edit-launch-url"
+                        />
+                      </div>
+
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">Activity ID</span>
+                        </label>
+                        <input 
+                          type="text" 
+                          className="input input-bordered" 
+                          placeholder="https://example.com/activities/course-id"
+                          value={editFormData.xapiActivityId || ''}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, xapiActivityId: e.target.value || null }))}
+                          data-testid="input-edit-xapi-activity-id"
+                        />
+                        <label className="label">
+                          <span className="label-text-alt">
+                            {editFormData.scormVersion === 'cmi5' ? 'The AU id from cmi5.xml' : 'The root activity id from tincan.xml'}
+                          </span>
+                        </label>
+                      </div>
+
+                      {editFormData.scormVersion === 'cmi5' && (
+                        <div className="form-control">
+                          <label className="label">
+                            <span className="label-text">Move On Criteria</span>
+                          </label>
+                          <select
+                            className="select select-bordered"
+                            value={editFormData.cmi5MoveOn || 'CompletedOrPassed'}
+                            onChange={(e) => setEditFormData(prev => ({ ...prev, cmi5MoveOn: e.target.value }))}
+                            data-testid="select-edit-cmi5-move-on"
+                          >
+                            <option value="CompletedOrPassed">Completed or passed</option>
+                            <option value="CompletedAndPassed">Completed and passed</option>
+                            <option value="Completed">Completed</option>
+                            <option value="Passed">Passed</option>
+                            <option value="NotApplicable">Not applicable (satisfied on launch)</option>
+                          </select>
+                        </div>
+                      )}
+                    </>
+                  )}
 
                   <div className="form-control">
                     <label className="label">
@@ -973,6 +1186,51 @@ export function SuperAdminCourses() {
                     />
                   </div>
                 </div>
+
+                {publishesNewVersion && (
+                  <div className="md:col-span-2 border border-warning rounded-lg p-4 space-y-3" data-testid="panel-new-version">
+                    <div className="text-sm">
+                      <i className="fas fa-code-branch mr-2 text-warning"></i>
+                      Saving publishes a new version of this course. Learners part-way through keep the version they started.
+                    </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text">What changed</span>
+                      </label>
+                      <input
+                        type="text"
+                        className="input input-bordered"
+                        value={versionOptions.versionNotes}
+                        onChange={(e) => setVersionOptions(prev => ({ ...prev, versionNotes: e.target.value }))}
+                        data-testid="input-version-notes"
+                      />
+                    </div>
+                    <label className="label cursor-pointer justify-start gap-3">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-warning"
+                        checked={versionOptions.requireRetraining}
+                        onChange={(e) => setVersionOptions(prev => ({ ...prev, requireRetraining: e.target.checked }))}
+                        data-testid="checkbox-require-retraining"
+                      />
+                      <span className="label-text">Learners who already passed must retrain on the new version</span>
+                    </label>
+                    {versionOptions.requireRetraining && (
+                      <div className="form-control">
+                        <label className="label">
+                          <span className="label-text">Retraining due date (optional)</span>
+                        </label>
+                        <input
+                          type="date"
+                          className="input input-bordered w-60"
+                          value={versionOptions.retrainingDueDate}
+                          onChange={(e) => setVersionOptions(prev => ({ ...prev, retrainingDueDate: e.target.value }))}
+                          data-testid="input-retraining-due-date"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
@@ -981,13 +1239,23 @@ export function SuperAdminCourses() {
                 <>
                   {selectedCourse?.status !== 'archived' && (
                     <>
-                      <button 
-                        className="btn btn-sm btn-outline" 
-                        onClick={handlePreviewCourse}
-                        data-testid="button-preview-course-details"
-                      >
-                        <i className="fas fa-play"></i> Preview
-                      </button>
+                      {selectedCourse?.scormVersion === 'assessment' ? (
+                        <button
+                          className="btn btn-sm btn-outline"
+                          onClick={() => setShowAssessmentEditor(true)}
+                          data-testid="button-edit-assessment-questions"
+                        >
+                          <i className="fas fa-list-check"></i> Edit Questions
+                        </button>
+                      ) : (
+                        <button 
+                          className="btn btn-sm btn-outline" 
+                          onClick={handlePreviewCourse}
+                          data-testid="button-preview-course-details"
+                        >
+                          <i className="fas fa-play"></i> Preview
+                        </button>
+                      )}
                       <button 
                         className="btn btn-sm btn-secondary" 
                         onClick={handleEditCourse}
@@ -1062,6 +1330,7 @@ export function SuperAdminCourses() {
                   setShowDetailsModal(false);
                   setIsEditing(false);
                   setEditFormData({});
+                  setVersionOptions(emptyVersionOptions);
                 }}
                 data-testid="button-close-course-details"
               >
@@ -1074,11 +1343,20 @@ export function SuperAdminCourses() {
               setShowDetailsModal(false);
               setIsEditing(false);
               setEditFormData({});
+              setVersionOptions(emptyVersionOptions);
             }}>close</button>
           </form>
         </dialog>
       )}
 
+      {showAssessmentEditor && selectedCourse && (
+        <AssessmentEditor
+          courseId={selectedCourse.id}
+          courseTitle={selectedCourse.title}
+          onClose={() => setShowAssessmentEditor(false)}
+        />
+      )}
+
       {/* Course Analytics Modal */}
       {showAnalyticsModal && selectedCourse && (
         <dialog className="modal modal-open">
@@ -1163,6 +1441,74 @@ export function SuperAdminCourses() {
               </div>
             )}
 
+            <div className="divider">Question Analysis</div>
+
+            {itemAnalysisLoading ? (
+              <div className="flex justify-center items-center py-4">
+                <span className="loading loading-spinner"></span>
+              </div>
+            ) : !itemAnalysis || itemAnalysis.questions.length === 0 ? (
+              <div className="text-center text-base-content/60 py-4" data-testid="text-item-analysis-empty">
+                No question responses have been recorded for this course yet.
+              </div>
+            ) : (
+              <div>
+                <p className="text-sm text-base-content/60 mb-2">
+                  {itemAnalysis.questions.length} questions answered across {itemAnalysis.attempts} attempts by {itemAnalysis.learners} learners. Hardest questions first.
+                </p>
+                <div className="overflow-x-auto max-h-96">
+                  <table className="table table-sm table-zebra" data-testid="table-item-analysis">
+                    <thead>
+                      <tr>
+                        <th>Question</th>
+                        <th>Responses</th>
+                        <th>% Correct</th>
+                        <th>Avg. Time</th>
+                        <th>Most Common Wrong Answers</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {itemAnalysis.questions.map((question) => (
+                        <tr key={question.interactionId} data-testid={`row-item-analysis-${question.interactionId}`}>
+                          <td>
+                            <div className="font-medium">{question.description || question.interactionId}</div>
+                            <div className="text-xs text-base-content/60">
+                              {question.type || 'unknown type'}
+                              {question.correctResponses.length > 0 && ` · Correct: ${question.correctResponses.join(', ')}`}
+                            </div>
+                          </td>
+                          <td>{question.responses}</td>
+                          <td>
+                            {question.percentCorrect === null ? (
+                              <span className="text-base-content/60">N/A</span>
+                            ) : (
+                              <span className={`badge badge-sm ${question.percentCorrect < 50 ? 'badge-error' : question.percentCorrect < 75 ? 'badge-warning' : 'badge-success'}`}>
+                                {question.percentCorrect}%
+                              </span>
+                            )}
+                          </td>
+                          <td>{question.averageLatencySeconds !== null ? `${question.averageLatencySeconds}s` : 'N/A'}</td>
+                          <td>
+                            {question.commonWrongResponses.length === 0 ? (
+                              <span className="text-base-content/60">-</span>
+                            ) : (
+                              <ul className="text-xs space-y-1">
+                                {question.commonWrongResponses.map((wrong) => (
+                                  <li key={wrong.response}>
+                                    <span className="font-mono">{wrong.response}</span> ({wrong.count})
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             <div className="modal-action">
               <button 
                 className="btn"
@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ComplianceTrendChart } from "@/components/ComplianceTrendChart";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, LineChart, Line, AreaChart, Area } from "recharts";
 
@@ -408,6 +409,9 @@ export function SuperAdminDashboard() {
       </div>
 
 
+      {/* Platform-wide compliance from the nightly snapshots */}
+      <ComplianceTrendChart endpoint="/api/superadmin/compliance/trends" />
+
       {/* Personal To-Do List */}
       <div className="card bg-base-200 shadow-sm">
         <div className="card-body">
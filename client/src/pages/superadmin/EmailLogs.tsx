@@ -1,8 +1,8 @@
 import { useState, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Eye, Filter, Search, RefreshCw, Calendar, Mail, CheckCircle, XCircle, Clock, AlertCircle, Zap, Database } from "lucide-react";
+import { Eye, Filter, Search, RefreshCw, Calendar, Mail, CheckCircle, XCircle, Clock, AlertCircle, Zap, Database, RotateCcw } from "lucide-react";
 
 interface EmailSendRecord {
   id: string;
@@ -14,7 +14,7 @@ interface EmailSendRecord {
   htmlContent: string;
   textContent?: string;
   templateVariables?: Record<string, any>;
-  status: 'queued' | 'sending' | 'sent' | 'failed' | 'retrying';
+  status: 'queued' | 'sending' | 'sent' | 'failed' | 'retrying' | 'dead_letter';
   provider?: string;
   providerMessageId?: string;
   errorMessage?: string;
@@ -77,7 +77,8 @@ export function SuperAdminEmailLogs() {
       Object.entries(filterParams as typeof filters).forEach(([key, value]) => {
         if (value) queryParams.set(key, String(value));
       });
-      return await apiRequest('GET', `/api/superadmin/email-logs?${queryParams}`);
+      const response = await apiRequest('GET', `/api/superadmin/email-logs?${queryParams}`);
+      return await response.json();
     },
     refetchInterval: 30000, // Refresh every 30 seconds
   });
@@ -85,10 +86,27 @@ export function SuperAdminEmailLogs() {
   // Email detail query
   const { data: emailDetail } = useQuery<EmailLogDetailResponse>({
     queryKey: ['/api/superadmin/email-logs', selectedEmailId],
-    queryFn: async () => await apiRequest('GET', `/api/superadmin/email-logs/${selectedEmailId}`),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/superadmin/email-logs/${selectedEmailId}`);
+      return await response.json();
+    },
     enabled: !!selectedEmailId,
   });
 
+  const requeueMutation = useMutation({
+    mutationFn: async (emailId: string) => {
+      const response = await apiRequest('POST', `/api/superadmin/email-logs/${emailId}/requeue`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/superadmin/email-logs'] });
+      toast({ title: "Success", description: "Email requeued - it will be sent on the next queue run" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to requeue email", variant: "destructive" });
+    },
+  });
+
   const emailLogs = emailLogsResponse?.data || [];
   const pagination = emailLogsResponse?.pagination;
 
@@ -128,6 +146,7 @@ export function SuperAdminEmailLogs() {
       sent: { class: 'badge-success', icon: CheckCircle, text: 'Sent' },
       failed: { class: 'badge-error', icon: XCircle, text: retryCount > 0 ? 'Failed (Retry)' : 'Failed' },
       retrying: { class: 'badge-warning', icon: RefreshCw, text: `Retrying (${retryCount})` },
+      dead_letter: { class: 'badge-error', icon: AlertCircle, text: 'Dead Letter' },
     };
     
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.queued;
@@ -250,6 +269,7 @@ export function SuperAdminEmailLogs() {
                   <option value="sent">Sent</option>
                   <option value="failed">Failed</option>
                   <option value="retrying">Retrying</option>
+                  <option value="dead_letter">Dead Letter</option>
                 </select>
               </div>
               <div className="form-control">
@@ -429,14 +449,27 @@ export function SuperAdminEmailLogs() {
                         )}
                       </td>
                       <td>
-                        <button
-                          className="btn btn-ghost btn-sm"
-                          onClick={() => handleViewDetails(email.id)}
-                          data-testid={`button-view-details-${email.id}`}
-                        >
-                          <Eye className="w-4 h-4" />
-                          View
-                        </button>
+                        <div className="flex gap-1">
+                          <button
+                            className="btn btn-ghost btn-sm"
+                            onClick={() => handleViewDetails(email.id)}
+                            data-testid={`button-view-details-${email.id}`}
+                          >
+                            <Eye className="w-4 h-4" />
+                            View
+                          </button>
+                          {(email.status === 'dead_letter' || email.status === 'failed') && (
+                            <button
+                              className="btn btn-ghost btn-sm"
+                              onClick={() => requeueMutation.mutate(email.id)}
+                              disabled={requeueMutation.isPending}
+                              data-testid={`button-requeue-${email.id}`}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                              Requeue
+                            </button>
+                          )}
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -641,6 +674,17 @@ export function SuperAdminEmailLogs() {
             </div>
 
             <div className="modal-action">
+              {emailDetail.data.status === 'dead_letter' && (
+                <button
+                  className="btn btn-outline"
+                  onClick={() => requeueMutation.mutate(emailDetail.data!.id, { onSuccess: closeDetailModal })}
+                  disabled={requeueMutation.isPending}
+                  data-testid="button-requeue-detail"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Requeue
+                </button>
+              )}
               <button 
                 className="btn btn-primary"
                 onClick={closeDetailModal}
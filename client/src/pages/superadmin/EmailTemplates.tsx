@@ -4,7 +4,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import ErrorBoundary from "@/components/ui/error-boundary";
 import { DataLoadFailurePanel, FailurePanel } from "@/components/ui/failure-panel";
-import { Eye, Send, Edit, RefreshCw, X, ChevronRight, Save, AlertCircle, Type, Code, FileText, Zap, Plus } from "lucide-react";
+import { Eye, Send, Edit, RefreshCw, X, ChevronRight, Save, AlertCircle, Type, Code, FileText, Zap, Plus, Languages } from "lucide-react";
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 
@@ -137,6 +137,99 @@ const quillFormats = [
   'link'
 ];
 
+interface TranslationCompletenessResponse {
+  ok: boolean;
+  error?: string;
+  data?: {
+    baseLocale: string;
+    locales: {
+      locale: string;
+      name: string;
+      fallbackChain: string[];
+      translated: number;
+      total: number;
+    }[];
+    templates: {
+      key: string;
+      resolvedLocales: Record<string, string>; // Requested locale -> locale the email is sent in
+    }[];
+  };
+}
+
+// Which automated emails have been translated into each language learners can choose
+function TranslationCompleteness() {
+  const translationsQuery = useQuery<TranslationCompletenessResponse>({
+    queryKey: ['/api/superadmin/email/translations'],
+    refetchOnWindowFocus: false,
+  });
+
+  const completeness = translationsQuery.data?.data;
+  if (translationsQuery.isLoading || !completeness) {
+    return null;
+  }
+
+  // Only languages with their own translations - en-GB is sent from the base templates
+  const translatedLocales = completeness.locales.filter(locale => locale.locale !== 'en-GB');
+
+  return (
+    <div className="card bg-base-100 shadow-sm mt-6" data-testid="card-translation-completeness">
+      <div className="card-body">
+        <h2 className="card-title">
+          <Languages className="w-5 h-5" />
+          Translations
+        </h2>
+        <p className="text-sm text-base-content/70">
+          Emails are sent in each user's preferred language. Templates without a translation fall back along the chain shown.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-4">
+          {translatedLocales.map(locale => (
+            <div key={locale.locale} className="stat bg-base-200 rounded-lg" data-testid={`stat-translation-${locale.locale}`}>
+              <div className="stat-title">{locale.name}</div>
+              <div className={`stat-value ${locale.translated === locale.total ? 'text-success' : 'text-warning'}`}>
+                {locale.translated}/{locale.total}
+              </div>
+              <div className="stat-desc">{locale.fallbackChain.join(' → ')}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm w-full" data-testid="table-translation-completeness">
+            <thead>
+              <tr>
+                <th>Template</th>
+                {translatedLocales.map(locale => (
+                  <th key={locale.locale}>{locale.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {completeness.templates.map(template => (
+                <tr key={template.key} data-testid={`row-translation-${template.key}`}>
+                  <td className="font-mono text-xs">{template.key}</td>
+                  {translatedLocales.map(locale => {
+                    const sentIn = template.resolvedLocales[locale.locale];
+                    return (
+                      <td key={locale.locale}>
+                        {sentIn === locale.locale ? (
+                          <div className="badge badge-success badge-sm">Translated</div>
+                        ) : (
+                          <div className="badge badge-warning badge-sm">Falls back to {sentIn}</div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function SuperAdminEmailTemplatesContent() {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [showDetailDrawer, setShowDetailDrawer] = useState(false);
@@ -754,6 +847,8 @@ function SuperAdminEmailTemplatesContent() {
       {/* Main Content */}
       {renderContent()}
 
+      <TranslationCompleteness />
+
       {/* Template Detail Drawer */}
       {showDetailDrawer && selectedTemplateData && (
         <div className="drawer drawer-end">
@@ -5,6 +5,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { ImageUpload } from "@/components/ImageUpload";
 import { VisualCertificateEditor, type CertificateTemplate as VisualCertificateTemplate } from "@/components/VisualCertificateEditor";
+import { EmailWebhookSettings } from "@/components/EmailWebhookSettings";
 
 // Email provider configurations
 const emailProviders = {
@@ -97,6 +98,8 @@ export function SuperAdminSettings() {
     '{{PASS_FAIL}}',
     '{{DATE_COMPLETED}}',
     '{{CERTIFICATE_ID}}',
+    '{{VERIFY_URL}}',
+    '{{VERIFY_QR}}',
     '{{BACKGROUND_IMAGE}}',
     '{{SIGNATURE_IMAGE}}'
   ];
@@ -127,6 +130,7 @@ export function SuperAdminSettings() {
     apiBaseUrl: '',
     apiDomain: '', // Mailgun
     apiRegion: '', // SES
+    webhookSigningKey: '',
     hasPassword: false,
   });
 
@@ -223,6 +227,7 @@ export function SuperAdminSettings() {
         apiBaseUrl: data.apiBaseUrl || '',
         apiDomain: data.apiDomain || '',
         apiRegion: data.apiRegion || '',
+        webhookSigningKey: data.webhookSigningKey || '',
         hasPassword: data.hasPassword || false,
       });
     }
@@ -245,6 +250,7 @@ export function SuperAdminSettings() {
         apiBaseUrl: '',
         apiDomain: '',
         apiRegion: '',
+        webhookSigningKey: '',
         // Keep common fields when switching provider
         fromEmail: prev.fromEmail,
         fromName: prev.fromName,
@@ -425,6 +431,7 @@ export function SuperAdminSettings() {
         if (emailData.apiRegion) {
           settings.apiRegion = emailData.apiRegion;
         }
+        settings.webhookSigningKey = emailData.webhookSigningKey;
       }
 
       const method = systemEmailData ? 'PUT' : 'POST';
@@ -570,7 +577,7 @@ export function SuperAdminSettings() {
       settingsToSave = apiSettings;
     } else {
       // Remove API fields for SMTP
-      const { apiKey, apiSecret, apiBaseUrl, apiDomain, apiRegion, ...smtpSettings } = emailSettings;
+      const { apiKey, apiSecret, apiBaseUrl, apiDomain, apiRegion, webhookSigningKey, ...smtpSettings } = emailSettings;
       settingsToSave = smtpSettings;
       
       // Handle masked password for SMTP
@@ -630,6 +637,32 @@ export function SuperAdminSettings() {
     }
   });
 
+  // Platform policy - require two-factor authentication for superadmins
+  const { data: mfaPolicy } = useQuery<{ requireSuperadminMfa: boolean }>({
+    queryKey: ['/api/superadmin/mfa-policy'],
+  });
+
+  const saveMfaPolicyMutation = useMutation({
+    mutationFn: async (requireSuperadminMfa: boolean) => {
+      const response = await apiRequest('PUT', '/api/superadmin/mfa-policy', { requireSuperadminMfa });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/superadmin/mfa-policy'] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication policy updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update two-factor authentication policy",
+        variant: "destructive",
+      });
+    }
+  });
+
   const insertPlaceholder = (placeholder: string) => {
     setTemplateEditor(prev => prev + placeholder);
   };
@@ -694,7 +727,9 @@ export function SuperAdminSettings() {
       '{{SCORE_PERCENT}}': '92%',
       '{{PASS_FAIL}}': 'PASS',
       '{{DATE_COMPLETED}}': new Date().toLocaleDateString(),
-      '{{CERTIFICATE_ID}}': 'CERT-2024-001',
+      '{{CERTIFICATE_ID}}': 'K7QM-2XRD-9FBN-4TWC',
+      '{{VERIFY_URL}}': `${window.location.origin}/verify/K7QM-2XRD-9FBN-4TWC`,
+      '{{VERIFY_QR}}': '<div style="width: 90px; height: 90px; border: 1px dashed #999; display: flex; align-items: center; justify-content: center; font-size: 10px;">QR code</div>',
       '{{BACKGROUND_IMAGE}}': backgroundImage ? `<img src="${backgroundImage}" alt="Certificate Background" style="position: absolute; top: 0; left: 0; width: 100%; height: 100%; object-fit: cover; z-index: -1;" />` : '',
       '{{SIGNATURE_IMAGE}}': signatureImage ? `<img src="${signatureImage}" alt="Signature" style="max-width: 200px; height: auto;" />` : ''
     };
@@ -933,6 +968,25 @@ export function SuperAdminSettings() {
                 </div>
               </div>
 
+              <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-4">
+                  <input
+                    type="checkbox"
+                    className="toggle toggle-primary"
+                    checked={!!mfaPolicy?.requireSuperadminMfa}
+                    onChange={(e) => saveMfaPolicyMutation.mutate(e.target.checked)}
+                    disabled={saveMfaPolicyMutation.isPending}
+                    data-testid="toggle-require-superadmin-mfa"
+                  />
+                  <div>
+                    <span className="label-text font-medium">Require two-factor authentication for superadmins</span>
+                    <div className="text-sm text-base-content/60">
+                      Superadmins without an authenticator app will be asked to set one up at their next sign-in
+                    </div>
+                  </div>
+                </label>
+              </div>
+
               <div className="form-control">
                 <label className="label">
                   <span className="label-text">Password Policy Text</span>
@@ -1282,6 +1336,11 @@ export function SuperAdminSettings() {
                         </div>
                       )}
 
+                      <EmailWebhookSettings
+                        provider={emailSettings.provider}
+                        signingKey={emailSettings.webhookSigningKey}
+                        onSigningKeyChange={(value) => setEmailSettings(prev => ({ ...prev, webhookSigningKey: value }))}
+                      />
                     </div>
                   )}
 
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ClassroomRegister,
+  BOOKING_STATUS_BADGES,
+  formatSessionTime,
+  describeSessionLocation,
+  type ClassroomSessionSummary,
+} from "@/components/ClassroomRegister";
+
+interface MyBooking {
+  id: string;
+  status: keyof typeof BOOKING_STATUS_BADGES;
+}
+
+interface UpcomingSession extends ClassroomSessionSummary {
+  description: string | null;
+  myBooking: MyBooking | null;
+}
+
+interface BookingWithSession extends MyBooking {
+  session: ClassroomSessionSummary;
+}
+
+type ClassroomTab = 'upcoming' | 'bookings' | 'running';
+
+// Learners book classroom sessions here; trainers also take the register for sessions they run
+export function UserClassroom() {
+  const [activeTab, setActiveTab] = useState<ClassroomTab>('upcoming');
+  const [registerSessionId, setRegisterSessionId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: upcoming = [], isLoading: upcomingLoading } = useQuery<UpcomingSession[]>({
+    queryKey: ['/api/classroom/upcoming'],
+  });
+
+  const { data: myBookings = [], isLoading: bookingsLoading } = useQuery<BookingWithSession[]>({
+    queryKey: ['/api/classroom/my-bookings'],
+  });
+
+  const { data: runningSessions = [] } = useQuery<ClassroomSessionSummary[]>({
+    queryKey: ['/api/classroom/trainer-sessions'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/classroom/upcoming'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/classroom/my-bookings'] });
+  };
+
+  const bookMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest('POST', `/api/classroom/sessions/${sessionId}/book`);
+      return response.json();
+    },
+    onSuccess: (booking: MyBooking) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: booking.status === 'waitlisted'
+          ? "The session is full - you're on the waiting list"
+          : "You're booked on - check your email for the calendar invite",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to book session", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (bookingId: string) => apiRequest('POST', `/api/classroom/bookings/${bookingId}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Booking cancelled" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to cancel booking", variant: "destructive" });
+    },
+  });
+
+  const tabs: [ClassroomTab, string][] = [
+    ['upcoming', 'Upcoming Sessions'],
+    ['bookings', 'My Bookings'],
+    ...(runningSessions.length > 0 ? [['running', 'Sessions I Run'] as [ClassroomTab, string]] : []),
+  ];
+  const registerSession = runningSessions.find(s => s.id === registerSessionId);
+  const now = new Date();
+
+  return (
+    <div>
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li className="font-semibold" data-testid="text-current-page">Classroom Training</li>
+        </ul>
+      </div>
+
+      <h1 className="text-3xl font-bold mb-6" data-testid="text-page-title">Classroom Training</h1>
+
+      <div role="tablist" className="tabs tabs-boxed mb-6">
+        {tabs.map(([tab, label]) => (
+          <a
+            key={tab}
+            role="tab"
+            className={`tab ${activeTab === tab ? 'tab-active' : ''}`}
+            onClick={() => setActiveTab(tab)}
+            data-testid={`tab-classroom-${tab}`}
+          >
+            {label}
+          </a>
+        ))}
+      </div>
+
+      {activeTab === 'upcoming' && (
+        upcomingLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : upcoming.length === 0 ? (
+          <div className="text-center py-12 text-base-content/60" data-testid="text-no-upcoming-sessions">
+            <i className="fas fa-chalkboard-teacher text-4xl mb-4"></i>
+            <p>There are no sessions open for booking at the moment.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {upcoming.map(session => (
+              <div key={session.id} className="card bg-base-100 border border-base-300 shadow-sm" data-testid={`card-session-${session.id}`}>
+                <div className="card-body">
+                  <h3 className="card-title text-base">{session.title}</h3>
+                  <p className="text-sm text-base-content/60">{session.courseTitle}</p>
+                  {session.description && <p className="text-sm">{session.description}</p>}
+                  <div className="text-sm space-y-1 mt-2">
+                    <div><i className="fas fa-calendar mr-2 text-primary"></i>{formatSessionTime(session)}</div>
+                    <div>
+                      <i className={`fas ${session.deliveryMode === 'virtual' ? 'fa-video' : 'fa-map-marker-alt'} mr-2 text-primary`}></i>
+                      {describeSessionLocation(session)}
+                    </div>
+                    {session.trainerName && <div><i className="fas fa-user mr-2 text-primary"></i>{session.trainerName}</div>}
+                    <div>
+                      <i className="fas fa-users mr-2 text-primary"></i>
+                      {session.places.available > 0 ? `${session.places.available} place${session.places.available === 1 ? '' : 's'} left` : 'Full - waiting list open'}
+                    </div>
+                  </div>
+                  <div className="card-actions justify-end items-center mt-2">
+                    {session.myBooking ? (
+                      <>
+                        <span className={`badge ${BOOKING_STATUS_BADGES[session.myBooking.status].className}`}>
+                          {BOOKING_STATUS_BADGES[session.myBooking.status].label}
+                        </span>
+                        <button
+                          className="btn btn-ghost btn-sm text-error"
+                          onClick={() => cancelMutation.mutate(session.myBooking!.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-my-booking-${session.id}`}
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        className="btn btn-primary btn-sm"
+                        onClick={() => bookMutation.mutate(session.id)}
+                        disabled={bookMutation.isPending}
+                        data-testid={`button-book-session-${session.id}`}
+                      >
+                        {session.places.available > 0 ? 'Book a place' : 'Join waiting list'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {activeTab === 'bookings' && (
+        bookingsLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : myBookings.length === 0 ? (
+          <div className="text-center py-12 text-base-content/60" data-testid="text-no-bookings">
+            <p>You haven't booked any classroom sessions yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra" data-testid="table-my-bookings">
+              <thead>
+                <tr>
+                  <th>Session</th>
+                  <th>When</th>
+                  <th>Where</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {myBookings.map(booking => (
+                  <tr key={booking.id} data-testid={`row-my-booking-${booking.id}`}>
+                    <td>
+                      <div className="font-semibold">{booking.session.title}</div>
+                      <div className="text-sm text-base-content/60">{booking.session.courseTitle}</div>
+                    </td>
+                    <td className="text-sm">{formatSessionTime(booking.session)}</td>
+                    <td className="text-sm">
+                      {booking.session.deliveryMode === 'virtual' && booking.session.meetingUrl && booking.status === 'booked' ? (
+                        <a href={booking.session.meetingUrl} target="_blank" rel="noopener noreferrer" className="link link-primary">Join online</a>
+                      ) : describeSessionLocation(booking.session)}
+                    </td>
+                    <td>
+                      {booking.session.cancelledAt ? (
+                        <span className="badge badge-error">Session cancelled</span>
+                      ) : (
+                        <span className={`badge ${BOOKING_STATUS_BADGES[booking.status].className}`}>
+                          {BOOKING_STATUS_BADGES[booking.status].label}
+                        </span>
+                      )}
+                    </td>
+                    <td>
+                      {(booking.status === 'booked' || booking.status === 'waitlisted') && new Date(booking.session.startsAt) > now && (
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => cancelMutation.mutate(booking.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-booking-${booking.id}`}
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {activeTab === 'running' && (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra" data-testid="table-running-sessions">
+            <thead>
+              <tr>
+                <th>Session</th>
+                <th>When</th>
+                <th>Where</th>
+                <th>Places</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runningSessions.map(session => (
+                <tr key={session.id} data-testid={`row-running-session-${session.id}`}>
+                  <td>
+                    <div className="font-semibold">{session.title}</div>
+                    <div className="text-sm text-base-content/60">{session.courseTitle}</div>
+                    {session.cancelledAt && <span className="badge badge-error badge-sm">Cancelled</span>}
+                  </td>
+                  <td className="text-sm">{formatSessionTime(session)}</td>
+                  <td className="text-sm">{describeSessionLocation(session)}</td>
+                  <td className="text-sm">{session.places.booked} / {session.places.capacity}</td>
+                  <td>
+                    <button className="btn btn-primary btn-xs" onClick={() => setRegisterSessionId(session.id)} data-testid={`button-take-register-${session.id}`}>
+                      <i className="fas fa-clipboard-list"></i> Register
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {registerSession && (
+        <ClassroomRegister session={registerSession} onClose={() => setRegisterSessionId(null)} />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { CoursePlayer } from "@/components/scorm/CoursePlayer";
+import { AssessmentPlayer } from "@/components/assessment/AssessmentPlayer";
 import { useAuth } from "@/hooks/useAuth";
 
 // SCORM 2004 (3rd Ed.) attempt state interface
@@ -345,6 +346,20 @@ function CourseActionButton({ assignment, onStartCourse, onStartOver }: { assign
 
   const buttonProps = getButtonProps();
 
+  if (assignment.isLocked) {
+    return (
+      <button
+        className="btn btn-disabled"
+        disabled
+        title="Pass the previous course in your learning path to unlock this course"
+        data-testid={`button-locked-course-${assignment.id}`}
+      >
+        <i className="fas fa-lock"></i>
+        Locked
+      </button>
+    );
+  }
+
   return (
     <>
       <div className="flex gap-2">
@@ -363,8 +378,8 @@ function CourseActionButton({ assignment, onStartCourse, onStartOver }: { assign
           {buttonProps.text}
         </button>
       
-      {/* Start Over button - only show for in-progress courses */}
-      {state.status === 'in_progress' && (
+      {/* Start Over button - only show for in-progress courses. Assessment attempts can't be thrown away. */}
+      {state.status === 'in_progress' && assignment.scormVersion !== 'assessment' && (
         <button 
           className="btn btn-success"
           onClick={() => setShowStartOverDialog(true)}
@@ -470,6 +485,11 @@ function CourseStatus({ assignment }: { assignment: Assignment }) {
   return (
     <div className="flex flex-col gap-2">
       {getStatusBadge(state.status)}
+      {(assignment.recertificationCycle ?? 1) > 1 && state.status !== 'completed' && (
+        <div className="badge badge-warning badge-sm whitespace-nowrap" data-testid={`badge-recertification-${assignment.id}`}>
+          <i className="fas fa-redo mr-1"></i> Renewal
+        </div>
+      )}
       {state.progressPercent !== undefined && state.status !== 'completed' && (
         <div>
           <progress 
@@ -499,17 +519,88 @@ interface Assignment {
   startedAt?: string;
   completedAt?: string;
   notificationsEnabled: boolean;
+  learningPathEnrolmentId?: string | null;
+  isLocked?: boolean;
+  recertificationCycle?: number;
   // Course details from join
   courseTitle: string;
   courseDescription?: string;
   coverImageUrl?: string;
   estimatedDuration: number;
   passmark: number;
+  scormVersion?: string | null; // "1.2", "2004", "xapi", "cmi5" or "assessment"
   progress?: number; // This would come from completions if we add it later
   score?: number;
   attemptNumber?: number;
 }
 
+interface LearningPathStep {
+  courseId: string;
+  courseTitle: string;
+  assignmentId: string | null;
+  isLocked: boolean;
+  passed: boolean;
+  status: string;
+}
+
+interface LearningPathProgress {
+  enrolmentId: string;
+  learningPathId: string;
+  title: string;
+  description?: string | null;
+  status: 'not_started' | 'in_progress' | 'completed';
+  dueDate?: string | null;
+  completedSteps: number;
+  totalSteps: number;
+  percentComplete: number;
+  steps: LearningPathStep[];
+}
+
+// Learning path progress card - one row per course in path order
+function LearningPathCard({ path }: { path: LearningPathProgress }) {
+  return (
+    <div className="card bg-base-100 shadow-sm" data-testid={`card-learning-path-${path.learningPathId}`}>
+      <div className="card-body">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <h3 className="card-title text-lg">
+              <i className="fas fa-route text-primary"></i>
+              {path.title}
+            </h3>
+            {path.description && (
+              <p className="text-sm text-base-content/60">{path.description}</p>
+            )}
+          </div>
+          <div className="text-sm text-right">
+            <div className="font-semibold" data-testid={`text-learning-path-progress-${path.learningPathId}`}>
+              {path.completedSteps} of {path.totalSteps} courses passed
+            </div>
+            {path.dueDate && (
+              <div className="text-base-content/60">Due: {new Date(path.dueDate).toLocaleDateString()}</div>
+            )}
+          </div>
+        </div>
+        <progress
+          className={`progress w-full ${path.status === 'completed' ? 'progress-success' : 'progress-primary'}`}
+          value={path.percentComplete}
+          max="100"
+        ></progress>
+        <ul className="steps steps-vertical lg:steps-horizontal w-full mt-2">
+          {path.steps.map((step) => (
+            <li
+              key={step.courseId}
+              className={`step ${step.passed ? 'step-success' : step.isLocked ? '' : 'step-primary'}`}
+              data-content={step.passed ? '✓' : step.isLocked ? '🔒' : undefined}
+            >
+              <span className="text-xs">{step.courseTitle}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
 export function UserCourses() {
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
   const [showPlayer, setShowPlayer] = useState(false);
@@ -522,6 +613,10 @@ export function UserCourses() {
     queryKey: ['/api/assignments'],
   });
 
+  const { data: learningPaths = [] } = useQuery<LearningPathProgress[]>({
+    queryKey: ['/api/user/learning-paths'],
+  });
+
   // Listen for ATTEMPT_UPDATED messages from CoursePlayer
   useEffect(() => {
     const handleMessage = (e: MessageEvent) => {
@@ -535,6 +630,10 @@ export function UserCourses() {
         queryClient.invalidateQueries({
           queryKey: ['/api/assignments']
         });
+        // A pass may unlock the next course in a learning path
+        queryClient.invalidateQueries({
+          queryKey: ['/api/user/learning-paths']
+        });
       }
     };
 
@@ -545,6 +644,11 @@ export function UserCourses() {
   }, [queryClient]);
 
   const handleStartCourse = (assignment: Assignment) => {
+    // xAPI and cmi5 content reports to the LRS directly, so it launches in its own window
+    if (assignment.scormVersion === 'xapi' || assignment.scormVersion === 'cmi5') {
+      window.open(`/lms/launch/${assignment.courseId}`, '_blank');
+      return;
+    }
     setSelectedAssignment(assignment);
     setStartFresh(false); // Normal start/resume
     setShowPlayer(true);
@@ -597,6 +701,16 @@ export function UserCourses() {
         <h1 className="text-3xl font-bold" data-testid="text-page-title">My Courses</h1>
       </div>
 
+      {/* Learning Paths */}
+      {learningPaths.length > 0 && (
+        <div className="mb-6 space-y-4" data-testid="section-learning-paths">
+          <h2 className="text-xl font-semibold">My Learning Paths</h2>
+          {learningPaths.map((path) => (
+            <LearningPathCard key={path.enrolmentId} path={path} />
+          ))}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="card bg-base-200 shadow-sm mb-6">
         <div className="card-body">
@@ -750,7 +864,15 @@ export function UserCourses() {
       </div>
 
       {/* Course Player Modal */}
-      {showPlayer && selectedAssignment && (
+      {showPlayer && selectedAssignment?.scormVersion === 'assessment' && (
+        <AssessmentPlayer
+          assignmentId={selectedAssignment.id}
+          courseId={selectedAssignment.courseId}
+          courseTitle={selectedAssignment.courseTitle}
+          onClose={handleClosePlayer}
+        />
+      )}
+      {showPlayer && selectedAssignment && selectedAssignment.scormVersion !== 'assessment' && (
         <CoursePlayer
           assignmentId={selectedAssignment.id}
           courseId={selectedAssignment.courseId}
@@ -3,6 +3,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { CoursePlayer } from "@/components/scorm/CoursePlayer";
+import { AssessmentPlayer } from "@/components/assessment/AssessmentPlayer";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, AreaChart, Area } from "recharts";
 
@@ -47,6 +48,7 @@ interface Assignment {
   coverImageUrl?: string;
   estimatedDuration: number;
   passmark: number;
+  scormVersion?: string | null;
   progress?: number; // This would come from completions if we add it later
 }
 
@@ -411,8 +413,8 @@ function CourseActionButton({ assignment, onStartCourse }: { assignment: Assignm
           {buttonProps.text}
         </button>
 
-        {/* Start Over button - only show for in-progress courses */}
-        {state.status === 'in_progress' && (
+        {/* Start Over button - only show for in-progress courses. Assessment attempts can't be thrown away. */}
+        {state.status === 'in_progress' && assignment.scormVersion !== 'assessment' && (
           <button 
             className="btn btn-sm btn-success"
             onClick={() => setShowStartOverDialog(true)}
@@ -1126,7 +1128,15 @@ export function UserDashboard() {
       </div>
 
       {/* Course Player Modal */}
-      {showPlayer && selectedAssignment && (
+      {showPlayer && selectedAssignment?.scormVersion === 'assessment' && (
+        <AssessmentPlayer
+          assignmentId={selectedAssignment.id}
+          courseId={selectedAssignment.courseId}
+          courseTitle={selectedAssignment.courseTitle}
+          onClose={handleClosePlayer}
+        />
+      )}
+      {showPlayer && selectedAssignment && selectedAssignment.scormVersion !== 'assessment' && (
         <CoursePlayer
           assignmentId={selectedAssignment.id}
           courseId={selectedAssignment.courseId}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ExternalTrainingForm,
+  EXTERNAL_TRAINING_STATUS_BADGES,
+  formatRecordDate,
+  type ExternalTrainingRecordSummary,
+} from "@/components/ExternalTrainingForm";
+
+// Learners record training they completed elsewhere and follow its review
+export function UserExternalTraining() {
+  const [showForm, setShowForm] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: records = [], isLoading } = useQuery<ExternalTrainingRecordSummary[]>({
+    queryKey: ['/api/external-training/mine'],
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/external-training/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/external-training/mine'] });
+      toast({ title: "Success", description: "Record withdrawn" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to withdraw record", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div>
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li className="font-semibold" data-testid="text-current-page">External Training</li>
+        </ul>
+      </div>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">External Training</h1>
+          <p className="text-base-content/60 mt-1">
+            Training you completed with a previous employer or another provider. Once approved it counts towards your required courses.
+          </p>
+        </div>
+        <button className="btn btn-primary" onClick={() => setShowForm(true)} data-testid="button-add-external-training">
+          <i className="fas fa-plus"></i> Add Training
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-12 text-base-content/60" data-testid="text-no-external-training">
+          <i className="fas fa-award text-4xl mb-4"></i>
+          <p>You haven't recorded any external training yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra" data-testid="table-my-external-training">
+            <thead>
+              <tr>
+                <th>Course</th>
+                <th>Provider</th>
+                <th>Completed</th>
+                <th>Expires</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map(record => (
+                <tr key={record.id} data-testid={`row-external-training-${record.id}`}>
+                  <td>
+                    <div className="font-semibold">{record.courseTitle}</div>
+                    {record.externalCourseTitle && <div className="text-sm text-base-content/60">{record.externalCourseTitle}</div>}
+                  </td>
+                  <td>{record.provider}</td>
+                  <td>{formatRecordDate(record.completedAt)}</td>
+                  <td>{formatRecordDate(record.expiryDate)}</td>
+                  <td>
+                    <span className={`badge ${EXTERNAL_TRAINING_STATUS_BADGES[record.status].className}`}>
+                      {EXTERNAL_TRAINING_STATUS_BADGES[record.status].label}
+                    </span>
+                    {record.status === 'rejected' && record.reviewNotes && (
+                      <div className="text-xs text-base-content/60 mt-1">{record.reviewNotes}</div>
+                    )}
+                  </td>
+                  <td>
+                    <div className="flex gap-1 justify-end">
+                      {record.evidenceUrl && (
+                        <a
+                          href={`/api/external-training/${record.id}/evidence`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="btn btn-ghost btn-xs"
+                          data-testid={`link-evidence-${record.id}`}
+                        >
+                          <i className="fas fa-file"></i> Evidence
+                        </a>
+                      )}
+                      {record.status === 'pending' && (
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => withdrawMutation.mutate(record.id)}
+                          disabled={withdrawMutation.isPending}
+                          data-testid={`button-withdraw-${record.id}`}
+                        >
+                          Withdraw
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showForm && <ExternalTrainingForm onClose={() => setShowForm(false)} />}
+    </div>
+  );
+}
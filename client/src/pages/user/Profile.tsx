@@ -4,7 +4,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { MfaSettings } from "@/components/auth/MfaSettings";
 import type { UploadResult } from "@uppy/core";
+import { EMAIL_LOCALES } from "@shared/schema";
 
 export function UserProfile() {
   const { user } = useAuth();
@@ -18,6 +20,7 @@ export function UserProfile() {
     email: user?.email || '',
     jobTitle: user?.jobTitle || '',
     department: user?.department || '',
+    preferredLanguage: user?.preferredLanguage || '',
     profileImageUrl: user?.profileImageUrl || '',
   });
 
@@ -44,7 +47,7 @@ export function UserProfile() {
     },
   });
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -64,6 +67,7 @@ export function UserProfile() {
       email: user?.email || '',
       jobTitle: user?.jobTitle || '',
       department: user?.department || '',
+      preferredLanguage: user?.preferredLanguage || '',
       profileImageUrl: user?.profileImageUrl || '',
     });
     setIsEditing(false);
@@ -316,6 +320,28 @@ export function UserProfile() {
                   />
                 </div>
 
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text">Email Language</span>
+                  </label>
+                  <select
+                    name="preferredLanguage"
+                    className="select select-bordered"
+                    value={formData.preferredLanguage}
+                    onChange={handleInputChange}
+                    disabled={!isEditing}
+                    data-testid="select-preferred-language"
+                  >
+                    <option value="">Default (English)</option>
+                    {Object.entries(EMAIL_LOCALES).map(([locale, name]) => (
+                      <option key={locale} value={locale}>{name}</option>
+                    ))}
+                  </select>
+                  <label className="label">
+                    <span className="label-text-alt">The language your course and account emails are sent in</span>
+                  </label>
+                </div>
+
                 {/* Account Information */}
                 <div className="divider">Account Information</div>
                 
@@ -351,6 +377,8 @@ export function UserProfile() {
           </div>
         </div>
       </div>
+
+      <MfaSettings />
     </div>
   );
 }
\ No newline at end of file
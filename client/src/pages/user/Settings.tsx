@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -13,6 +13,19 @@ interface Certificate {
   expiryDate?: string;
 }
 
+type EmailDeliveryFrequency = 'immediate' | 'daily' | 'weekly';
+
+interface NotificationPreferences {
+  emailDeliveryFrequency: EmailDeliveryFrequency | null;
+  organisationDefault: EmailDeliveryFrequency;
+}
+
+const DELIVERY_LABELS: Record<EmailDeliveryFrequency, string> = {
+  immediate: 'Immediately - one email per course',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
 export function UserSettings() {
   const [activeTab, setActiveTab] = useState(0);
   const [showAccessDeniedModal, setShowAccessDeniedModal] = useState(false);
@@ -33,6 +46,19 @@ export function UserSettings() {
     completionEmails: true,
   });
 
+  // '' follows the organisation default
+  const [emailDelivery, setEmailDelivery] = useState<EmailDeliveryFrequency | ''>('');
+
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/user/notification-preferences'],
+  });
+
+  useEffect(() => {
+    if (notificationPreferences) {
+      setEmailDelivery(notificationPreferences.emailDeliveryFrequency || '');
+    }
+  }, [notificationPreferences]);
+
   const { data: certificates = [], isLoading: certificatesLoading } = useQuery<Certificate[]>({
     queryKey: ['/api/user/certificates'],
     enabled: user?.allowCertificateDownload === true,
@@ -70,6 +96,27 @@ export function UserSettings() {
   });
 
 
+  const saveNotificationsMutation = useMutation({
+    mutationFn: async (emailDeliveryFrequency: EmailDeliveryFrequency | null) => {
+      const response = await apiRequest('PUT', '/api/user/notification-preferences', { emailDeliveryFrequency });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/notification-preferences'] });
+      toast({
+        title: "Success",
+        description: "Notification preferences saved",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save notification preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePasswordSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!passwordData.currentPassword || !passwordData.newPassword || !passwordData.confirmPassword) {
@@ -227,6 +274,28 @@ export function UserSettings() {
             <div className="space-y-6">
               <h3 className="text-lg font-semibold">Notification Preferences</h3>
               
+              <div className="form-control max-w-md">
+                <label className="label">
+                  <span className="label-text font-semibold">Course Email Delivery</span>
+                </label>
+                <select
+                  className="select select-bordered"
+                  value={emailDelivery}
+                  onChange={(e) => setEmailDelivery(e.target.value as EmailDeliveryFrequency | '')}
+                  data-testid="select-email-delivery"
+                >
+                  <option value="">
+                    Organisation default{notificationPreferences ? ` (${DELIVERY_LABELS[notificationPreferences.organisationDefault]})` : ''}
+                  </option>
+                  {(Object.keys(DELIVERY_LABELS) as EmailDeliveryFrequency[]).map(frequency => (
+                    <option key={frequency} value={frequency}>{DELIVERY_LABELS[frequency]}</option>
+                  ))}
+                </select>
+                <label className="label">
+                  <span className="label-text-alt">A digest collects new and overdue course emails into one email a day or week</span>
+                </label>
+              </div>
+
               <div className="space-y-4">
                 <div className="form-control">
                   <label className="label cursor-pointer justify-start gap-3">
@@ -292,9 +361,15 @@ export function UserSettings() {
               <div className="flex justify-end">
                 <button 
                   className="btn btn-primary"
+                  onClick={() => saveNotificationsMutation.mutate(emailDelivery || null)}
+                  disabled={saveNotificationsMutation.isPending}
                   data-testid="button-save-notifications"
                 >
-                  Save Preferences
+                  {saveNotificationsMutation.isPending ? (
+                    <span className="loading loading-spinner loading-sm"></span>
+                  ) : (
+                    'Save Preferences'
+                  )}
                 </button>
               </div>
             </div>
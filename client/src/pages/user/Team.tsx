@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TrainingMatrixStatusIcon } from "@/components/TrainingMatrixStatusIcon";
+
+interface TeamMember {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  department: string | null;
+  jobTitle: string | null;
+  status: string;
+  managerId: string | null;
+  isManager: boolean;
+  lastActive: string | null;
+  isDirectReport: boolean;
+}
+
+interface TeamMatrix {
+  staff: { id: string; firstName: string; lastName: string; department?: string }[];
+  courses: { id: string; title: string }[];
+  matrix: {
+    status: 'red' | 'amber' | 'green' | 'blue' | 'grey' | 'blank' | 'failed';
+    label: string;
+    dueDate?: string;
+    expiryDate?: string;
+  }[][];
+}
+
+interface OverdueItem {
+  staffName: string;
+  email: string | null;
+  department: string | null;
+  courseTitle: string;
+  dueDate: string | null;
+}
+
+interface TeamCertificate {
+  id: string;
+  issuedAt: string;
+  expiryDate: string | null;
+  revokedAt: string | null;
+  user: { firstName: string | null; lastName: string | null; email: string | null };
+  course: { title: string } | null;
+}
+
+interface Course {
+  id: string;
+  title: string;
+}
+
+type TeamTab = 'team' | 'matrix' | 'overdue' | 'certificates';
+
+const formatDate = (date: string | null | undefined) => date ? new Date(date).toLocaleDateString('en-GB') : '-';
+
+// Line manager's view of the people who report to them, directly or further down the line
+export function UserTeam() {
+  const [activeTab, setActiveTab] = useState<TeamTab>('team');
+  const [assignTo, setAssignTo] = useState<TeamMember | null>(null);
+  const [assignCourseId, setAssignCourseId] = useState("");
+  const [assignDueDate, setAssignDueDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: team = [], isLoading: teamLoading } = useQuery<TeamMember[]>({
+    queryKey: ['/api/manager/team'],
+  });
+
+  const { data: matrix, isLoading: matrixLoading } = useQuery<TeamMatrix>({
+    queryKey: ['/api/manager/training-matrix'],
+    enabled: activeTab === 'matrix',
+  });
+
+  const { data: overdue = [], isLoading: overdueLoading } = useQuery<OverdueItem[]>({
+    queryKey: ['/api/manager/overdue'],
+  });
+
+  const { data: certificates = [], isLoading: certificatesLoading } = useQuery<TeamCertificate[]>({
+    queryKey: ['/api/manager/certificates'],
+    enabled: activeTab === 'certificates',
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/manager/courses'],
+    enabled: !!assignTo,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (data: { userId: string; courseId: string; dueDate?: string }) => {
+      return await apiRequest('POST', '/api/assignments', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/training-matrix'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/overdue'] });
+      toast({
+        title: "Success",
+        description: "Course assigned successfully",
+      });
+      closeAssignModal();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message?.includes('409') ? "This person is already assigned that course" : "Failed to assign course",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeAssignModal = () => {
+    setAssignTo(null);
+    setAssignCourseId("");
+    setAssignDueDate("");
+  };
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignTo || !assignCourseId) return;
+    assignMutation.mutate({
+      userId: assignTo.id,
+      courseId: assignCourseId,
+      dueDate: assignDueDate || undefined,
+    });
+  };
+
+  const directReports = team.filter(member => member.isDirectReport).length;
+
+  return (
+    <div>
+      <div className="text-sm breadcrumbs mb-6">
+        <ul>
+          <li className="font-semibold" data-testid="text-current-page">My Team</li>
+        </ul>
+      </div>
+
+      <h1 className="text-3xl font-bold mb-6" data-testid="text-page-title">My Team</h1>
+
+      <div className="stats stats-vertical lg:stats-horizontal shadow mb-6 w-full">
+        <div className="stat">
+          <div className="stat-title">Team members</div>
+          <div className="stat-value text-primary" data-testid="stat-team-size">{team.length}</div>
+          <div className="stat-desc">{directReports} direct report{directReports === 1 ? '' : 's'}</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Overdue training</div>
+          <div className={`stat-value ${overdue.length > 0 ? 'text-error' : 'text-success'}`} data-testid="stat-team-overdue">{overdue.length}</div>
+          <div className="stat-desc">Courses past their due date</div>
+        </div>
+      </div>
+
+      <div role="tablist" className="tabs tabs-boxed mb-6">
+        {([
+          ['team', 'Team'],
+          ['matrix', 'Training Matrix'],
+          ['overdue', 'Overdue'],
+          ['certificates', 'Certificates'],
+        ] as [TeamTab, string][]).map(([tab, label]) => (
+          <a
+            key={tab}
+            role="tab"
+            className={`tab ${activeTab === tab ? 'tab-active' : ''}`}
+            onClick={() => setActiveTab(tab)}
+            data-testid={`tab-team-${tab}`}
+          >
+            {label}
+          </a>
+        ))}
+      </div>
+
+      {activeTab === 'team' && (
+        teamLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : team.length === 0 ? (
+          <div className="text-center py-12 text-base-content/60" data-testid="text-no-team">
+            <i className="fas fa-users text-4xl mb-4"></i>
+            <p>Nobody reports to you yet. Ask your administrator to set up your team's reporting lines.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra" data-testid="table-team">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Job Title</th>
+                  <th>Department</th>
+                  <th>Reports</th>
+                  <th>Last Active</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {team.map(member => (
+                  <tr key={member.id} data-testid={`row-team-member-${member.id}`}>
+                    <td>
+                      <div className="font-medium">{member.firstName} {member.lastName}</div>
+                      <div className="text-sm text-base-content/60">{member.email}</div>
+                    </td>
+                    <td>{member.jobTitle || '-'}</td>
+                    <td>{member.department || '-'}</td>
+                    <td>
+                      <span className={`badge ${member.isDirectReport ? 'badge-primary' : 'badge-ghost'}`}>
+                        {member.isDirectReport ? 'Direct' : 'Indirect'}
+                      </span>
+                      {member.status !== 'active' && <span className="badge badge-warning ml-1">Inactive</span>}
+                    </td>
+                    <td>{formatDate(member.lastActive)}</td>
+                    <td>
+                      <button
+                        className="btn btn-sm btn-primary"
+                        onClick={() => setAssignTo(member)}
+                        disabled={member.status !== 'active'}
+                        data-testid={`button-assign-${member.id}`}
+                      >
+                        <i className="fas fa-plus"></i> Assign Course
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {activeTab === 'matrix' && (
+        matrixLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : !matrix || matrix.staff.length === 0 || matrix.courses.length === 0 ? (
+          <p className="text-center py-12 text-base-content/60" data-testid="text-no-team-matrix">No training has been assigned to your team yet.</p>
+        ) : (
+          <div className="overflow-auto max-h-[70vh]">
+            <table className="table table-xs table-pin-rows table-pin-cols" data-testid="table-team-matrix">
+              <thead>
+                <tr>
+                  <th>Staff</th>
+                  {matrix.courses.map(course => (
+                    <td key={course.id} className="text-center min-w-24">{course.title}</td>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.staff.map((staffMember, staffIndex) => (
+                  <tr key={staffMember.id}>
+                    <th className="bg-base-100">
+                      <div className="font-medium">{staffMember.firstName} {staffMember.lastName}</div>
+                      <div className="text-xs text-base-content/60">{staffMember.department || '-'}</div>
+                    </th>
+                    {matrix.courses.map((course, courseIndex) => {
+                      const cell = matrix.matrix[staffIndex]?.[courseIndex];
+                      return (
+                        <td key={course.id} className="text-center" title={cell?.label}>
+                          {cell && <TrainingMatrixStatusIcon status={cell.status} size="sm" />}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {activeTab === 'overdue' && (
+        overdueLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : overdue.length === 0 ? (
+          <p className="text-center py-12 text-base-content/60" data-testid="text-no-team-overdue">Nobody in your team has overdue training.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra" data-testid="table-team-overdue">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Department</th>
+                  <th>Course</th>
+                  <th>Due Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overdue.map((item, index) => (
+                  <tr key={`${item.email}-${item.courseTitle}-${index}`}>
+                    <td>
+                      <div className="font-medium">{item.staffName}</div>
+                      <div className="text-sm text-base-content/60">{item.email}</div>
+                    </td>
+                    <td>{item.department || '-'}</td>
+                    <td>{item.courseTitle}</td>
+                    <td className="text-error">{formatDate(item.dueDate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {activeTab === 'certificates' && (
+        certificatesLoading ? (
+          <div className="flex justify-center py-12"><span className="loading loading-spinner loading-lg"></span></div>
+        ) : certificates.length === 0 ? (
+          <p className="text-center py-12 text-base-content/60" data-testid="text-no-team-certificates">Your team has not earned any certificates yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-zebra" data-testid="table-team-certificates">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Course</th>
+                  <th>Issued</th>
+                  <th>Expires</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificates.map(certificate => (
+                  <tr key={certificate.id}>
+                    <td>{certificate.user.firstName} {certificate.user.lastName}</td>
+                    <td>{certificate.course?.title || 'Unknown course'}</td>
+                    <td>{formatDate(certificate.issuedAt)}</td>
+                    <td>
+                      {certificate.revokedAt ? <span className="badge badge-error">Revoked</span> : formatDate(certificate.expiryDate)}
+                    </td>
+                    <td>
+                      <button
+                        className="btn btn-sm btn-ghost"
+                        onClick={() => window.open(`/api/certificates/${certificate.id}/download`, '_blank')}
+                        data-testid={`button-download-certificate-${certificate.id}`}
+                      >
+                        <i className="fas fa-download"></i>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {assignTo && (
+        <dialog className="modal modal-open">
+          <div className="modal-box">
+            <h3 className="font-bold text-lg mb-4">Assign a course to {assignTo.firstName} {assignTo.lastName}</h3>
+            <form onSubmit={handleAssign} className="space-y-4">
+              <div className="form-control">
+                <label className="label"><span className="label-text">Course</span></label>
+                <select
+                  className="select select-bordered"
+                  value={assignCourseId}
+                  onChange={(e) => setAssignCourseId(e.target.value)}
+                  required
+                  data-testid="select-assign-course"
+                >
+                  <option value="">Select a course</option>
+                  {courses.map(course => <option key={course.id} value={course.id}>{course.title}</option>)}
+                </select>
+              </div>
+              <div className="form-control">
+                <label className="label"><span className="label-text">Due Date (optional)</span></label>
+                <input
+                  type="date"
+                  className="input input-bordered"
+                  value={assignDueDate}
+                  onChange={(e) => setAssignDueDate(e.target.value)}
+                  data-testid="input-assign-due-date"
+                />
+              </div>
+              <div className="modal-action">
+                <button type="button" className="btn" onClick={closeAssignModal} data-testid="button-cancel-assign">Cancel</button>
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={!assignCourseId || assignMutation.isPending}
+                  data-testid="button-confirm-assign"
+                >
+                  {assignMutation.isPending ? <span className="loading loading-spinner loading-sm"></span> : 'Assign'}
+                </button>
+              </div>
+            </form>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={closeAssignModal}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
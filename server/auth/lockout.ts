@@ -0,0 +1,53 @@
+/**
+ * Login Lockout
+ * Consecutive failed sign-ins lock password login for progressively longer: 5 minutes after
+ * the fifth failure, doubling with each further failure up to a day. Admins can unlock early
+ * and a password reset clears the lock.
+ */
+
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 5 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export function lockoutDurationMs(failedAttempts: number): number {
+  if (failedAttempts < LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+}
+
+export function isLockedOut(user: User): boolean {
+  return !!user.lockedUntil && user.lockedUntil.getTime() > Date.now();
+}
+
+/**
+ * Message for a refused sign-in, naming when the user can try again
+ */
+export function lockoutMessage(user: User): string {
+  const minutes = Math.max(1, Math.ceil(((user.lockedUntil?.getTime() || 0) - Date.now()) / 60000));
+  return `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or reset your password.`;
+}
+
+/**
+ * Count a failed password or MFA code and lock the account once the threshold is reached
+ */
+export async function recordFailedLogin(user: User): Promise<User> {
+  const updated = await storage.incrementFailedLoginAttempts(user.id);
+  const duration = lockoutDurationMs(updated.failedLoginAttempts);
+  if (duration === 0) {
+    return updated;
+  }
+
+  console.log(`🔒 Account locked for ${Math.round(duration / 60000)} minutes after ${updated.failedLoginAttempts} failed sign-ins: ${updated.email}`);
+  return await storage.updateUser(user.id, { lockedUntil: new Date(Date.now() + duration) });
+}
+
+export async function clearFailedLogins(user: User): Promise<User> {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+    return user;
+  }
+  return await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+}
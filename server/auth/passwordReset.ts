@@ -0,0 +1,88 @@
+/**
+ * Self-service Password Reset
+ * Reset links carry a random token; only its hash is stored. A link expires after an hour,
+ * works once, and requesting a new one cancels any earlier link for the user.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import { emailOrchestrator } from "../services/EmailOrchestrator";
+import { emailLocaleService } from "../services/EmailLocaleService";
+import type { User } from "@shared/schema";
+
+export const RESET_TOKEN_TTL_HOURS = 1;
+
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function resetUrl(token: string): string {
+  return `${process.env.REPLIT_URL || 'http://localhost:5000'}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Issue a new reset link for the user and email it in their preferred language
+ */
+export async function sendPasswordResetEmail(user: User, ipAddress: string): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+
+  await storage.deletePasswordResetTokensForUser(user.id);
+  const resetToken = await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashResetToken(token),
+    expiresAt,
+    requestedIp: ipAddress,
+  });
+
+  const organisation = user.organisationId ? await storage.getOrganisation(user.organisationId) : undefined;
+  const name = `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || '';
+  const template = emailLocaleService.render('passwordReset', {
+    userName: user.firstName || name,
+    resetLink: resetUrl(token),
+    expiryTime: `${RESET_TOKEN_TTL_HOURS} hour${RESET_TOKEN_TTL_HOURS === 1 ? '' : 's'}`,
+    orgName: organisation?.displayName || organisation?.name || 'inteLMS',
+  }, user.preferredLanguage);
+
+  const result = await emailOrchestrator.queue({
+    triggerEvent: 'PASSWORD_RESET',
+    templateKey: 'password_reset',
+    toEmail: user.email!,
+    context: {
+      user: {
+        id: user.id,
+        name,
+        email: user.email || undefined,
+        firstName: user.firstName || undefined,
+        lastName: user.lastName || undefined,
+        fullName: name,
+      },
+      org: {
+        name: organisation?.displayName || organisation?.name || 'inteLMS',
+        displayName: organisation?.displayName || undefined,
+      },
+      admin: {
+        contact_email: organisation?.contactEmail || process.env.SUPPORT_EMAIL || 'support@intellms.app',
+      },
+      reset: {
+        reset_url: resetUrl(token),
+        request_time: new Date().toUTCString(),
+        ip_address: ipAddress,
+        expires_at: expiresAt.toUTCString(),
+        expires_in_hours: RESET_TOKEN_TTL_HOURS,
+      },
+    },
+    organisationId: user.organisationId || undefined,
+    resourceId: resetToken.id,
+    preRenderedContent: {
+      subject: template.subject,
+      htmlBody: template.html,
+      textBody: template.text,
+    },
+    priority: 1,
+  });
+
+  if (!result.success) {
+    console.warn(`⚠️ Failed to queue password reset email for ${user.email}:`, result.error?.message);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Permissions
+ * Admin features are gated by named permissions rather than role comparisons. Superadmins and
+ * organisation admins hold every permission; an organisation can also define custom roles - named
+ * bundles of permissions - and give one to any of its learners, e.g. a GDPR officer or a training
+ * coordinator. Changes to role definitions are written to the organisation's audit log.
+ */
+
+import { storage } from "../storage";
+import { PERMISSION_KEYS, type OrganisationRole, type Permission, type User } from "@shared/schema";
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'users.view': 'View users',
+  'users.manage': 'Create and edit users',
+  'users.delete': 'Delete users',
+  'courses.assign': 'Assign courses to users',
+  'reports.view': 'View the training matrix and reports',
+  'gdpr.manage': 'Manage GDPR and privacy compliance',
+  'billing.manage': 'Manage billing and subscriptions',
+  'roles.manage': 'Manage custom roles and who holds them',
+};
+
+/**
+ * Everything the user may do: the whole catalogue for admins, otherwise what their custom role grants
+ */
+export async function getUserPermissions(user: Pick<User, 'role' | 'organisationId' | 'customRoleId'>): Promise<Permission[]> {
+  if (user.role === 'superadmin' || user.role === 'admin') {
+    return [...PERMISSION_KEYS];
+  }
+  if (!user.customRoleId || !user.organisationId) {
+    return [];
+  }
+  const role = await storage.getOrganisationRole(user.customRoleId);
+  // A role only ever applies within the organisation that defined it
+  if (!role || role.organisationId !== user.organisationId) {
+    return [];
+  }
+  return role.permissions.filter(permission => PERMISSION_KEYS.includes(permission));
+}
+
+export async function hasPermission(user: Pick<User, 'role' | 'organisationId' | 'customRoleId'>, permission: Permission): Promise<boolean> {
+  return (await getUserPermissions(user)).includes(permission);
+}
+
+export type RoleAuditAction = 'role_created' | 'role_updated' | 'role_deleted' | 'role_granted' | 'role_revoked';
+
+/**
+ * Write a custom role change to the audit log. Failures are logged but never block the change.
+ */
+export async function recordRoleChange(
+  req: any,
+  actor: User,
+  action: RoleAuditAction,
+  role: Pick<OrganisationRole, 'id' | 'organisationId' | 'name' | 'permissions'>,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      organisationId: role.organisationId,
+      userId: actor.id,
+      action,
+      resource: 'organisation_role',
+      resourceId: role.id,
+      details: { roleName: role.name, permissions: role.permissions, ...details },
+      ipAddress: req.ip || req.connection?.remoteAddress || '',
+      userAgent: req.get?.('User-Agent') || '',
+    });
+  } catch (error) {
+    console.error('[Permissions] Failed to write role audit log:', error);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * iCalendar (RFC 5545) Invitations
+ * Builds the .ics file attached to classroom booking emails so learners can add the session to
+ * Outlook, Google Calendar or Apple Calendar. Times are written in UTC; calendar apps show them
+ * in the learner's own time zone. A cancellation reuses the event UID with METHOD:CANCEL so the
+ * calendar removes the entry it added earlier.
+ */
+
+import type { EmailAttachment } from "../services/adapters/BaseAdapter";
+
+const PRODUCT_ID = '-//inteLMS//Classroom Sessions//EN';
+
+// Lines longer than 75 octets must be folded (RFC 5545 section 3.1)
+const MAX_LINE_LENGTH = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  organizerName: string;
+  organizerEmail: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  sequence?: number; // bump when the event changes so calendars replace their copy
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values cannot be backslash-escaped - quote any with separators and drop quotes (RFC 5545 section 3.2)
+function paramValue(value: string): string {
+  const clean = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+// Folds at 75 octets, not characters, and never inside a multi-byte character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildCalendarInvite(event: CalendarEvent, method: 'REQUEST' | 'CANCEL' = 'REQUEST'): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(event.startsAt)}`,
+    `DTEND:${formatDate(event.endsAt)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `ORGANIZER;CN=${paramValue(event.organizerName)}:mailto:${event.organizerEmail}`,
+    `ATTENDEE;CN=${paramValue(event.attendeeName)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${event.attendeeEmail}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The invite as an email attachment
+ */
+export function calendarAttachment(event: CalendarEvent, method: 'REQUEST' | 'CANCEL' = 'REQUEST'): EmailAttachment {
+  return {
+    filename: method === 'CANCEL' ? 'cancelled.ics' : 'invite.ics',
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: Buffer.from(buildCalendarInvite(event, method), 'utf8').toString('base64'),
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Standalone email queue worker - run as many as needed with `npm run worker:email`.
+ * Set EMAIL_QUEUE_WORKER=external on the web servers to leave sending to these processes.
+ */
+
+import 'dotenv/config';
+import { pool } from './db';
+import { emailQueueWorker } from './services/EmailQueueWorker';
+
+emailQueueWorker.start();
+
+const shutdown = async (signal: string) => {
+  console.log(`📭 ${signal} received - finishing the current email batch before exiting`);
+  await emailQueueWorker.stop();
+  await pool.end();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -9,6 +9,9 @@ const app = express();
 // Add raw body parsing middleware for Stripe webhooks (before JSON parsing)
 app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
 
+// Email provider delivery webhooks are verified against the raw body too
+app.use('/api/webhooks/email', express.raw({ type: '*/*' }));
+
 // Standard JSON and URL-encoded parsing for all other routes
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -243,6 +246,214 @@ app.use((req, res, next) => {
     console.error('⚠️  GDPR breach monitoring is DISABLED - manual monitoring required!');
   }
 
+  // ===== CERTIFICATE VERIFICATION CODES =====
+  // Certificates issued before verification codes existed get one, so every certificate can be verified
+  try {
+    const { certificateService } = await import('./services/certificateService.js');
+    const backfilled = await certificateService.backfillVerificationCodes();
+    if (backfilled > 0) {
+      console.log(`✅ Added verification codes to ${backfilled} existing certificate(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to backfill certificate verification codes:', error);
+  }
+
+  // ===== SSO EMAIL DOMAINS =====
+  // Domains saved before verification existed stop routing to the IdP until they are verified
+  try {
+    const { backfillSsoEmailDomains } = await import('./sso/domains.js');
+    const listed = await backfillSsoEmailDomains();
+    if (listed > 0) {
+      console.log(`🔐 Listed ${listed} existing SSO email domain(s) for verification`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to backfill SSO email domains:', error);
+  }
+
+  // ===== RECERTIFICATION =====
+  // Reassign courses whose certificates are about to expire and send expiry notifications
+  try {
+    const { recertificationService } = await import('./services/RecertificationService.js');
+    const RECERTIFICATION_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+    
+    const recertificationLoop = async () => {
+      try {
+        await recertificationService.processDueRecertifications();
+      } catch (error) {
+        console.error('❌ Recertification sweep failed:', error);
+        // Don't throw - keep the server running
+      }
+    };
+    
+    // Initial run delayed so it doesn't compete with startup work
+    setTimeout(recertificationLoop, 3 * 60 * 1000);
+    setInterval(recertificationLoop, RECERTIFICATION_INTERVAL_MS);
+    
+    console.log(`✅ Recertification scheduling active - checking every ${RECERTIFICATION_INTERVAL_MS / 1000 / 60 / 60} hours`);
+  } catch (error) {
+    console.error('❌ Failed to initialize recertification scheduling:', error);
+  }
+
+  // ===== ASSIGNMENT RULES NIGHTLY SWEEP =====
+  // Catch users the create/update hooks missed (e.g. rules turned on later, direct data changes)
+  try {
+    const { assignmentRuleService } = await import('./services/AssignmentRuleService.js');
+    const SWEEP_HOUR = 2; // 02:00 server time
+    
+    const scheduleAssignmentRuleSweep = () => {
+      const now = new Date();
+      const nextRun = new Date(now);
+      nextRun.setHours(SWEEP_HOUR, 0, 0, 0);
+      if (nextRun <= now) {
+        nextRun.setDate(nextRun.getDate() + 1);
+      }
+      
+      setTimeout(async () => {
+        try {
+          await assignmentRuleService.runSweep();
+        } catch (error) {
+          console.error('❌ Assignment rule sweep failed:', error);
+          // Don't throw - keep the server running
+        }
+        scheduleAssignmentRuleSweep();
+      }, nextRun.getTime() - now.getTime());
+    };
+    
+    scheduleAssignmentRuleSweep();
+    console.log(`✅ Assignment rule sweep scheduled nightly at ${SWEEP_HOUR}:00`);
+  } catch (error) {
+    console.error('❌ Failed to initialize assignment rule sweep:', error);
+  }
+
+  // ===== SCHEDULED REPORTS =====
+  // Email saved report definitions to their recipients when they fall due
+  try {
+    const { reportSubscriptionService } = await import('./services/ReportSubscriptionService.js');
+    const REPORT_SCHEDULER_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+    
+    const reportSchedulerLoop = async () => {
+      try {
+        await reportSubscriptionService.runDueReports();
+      } catch (error) {
+        console.error('❌ Scheduled report run failed:', error);
+        // Don't throw - keep the server running
+      }
+    };
+    
+    // Initial run delayed so it doesn't compete with startup work
+    setTimeout(reportSchedulerLoop, 4 * 60 * 1000);
+    setInterval(reportSchedulerLoop, REPORT_SCHEDULER_INTERVAL_MS);
+    
+    console.log(`✅ Scheduled reports active - checking every ${REPORT_SCHEDULER_INTERVAL_MS / 1000 / 60} minutes`);
+  } catch (error) {
+    console.error('❌ Failed to initialize scheduled reports:', error);
+  }
+
+  // ===== COMPLIANCE SNAPSHOTS =====
+  // Record each organisation's compliance at the end of the day so trends can be reported later
+  try {
+    const { complianceSnapshotService } = await import('./services/ComplianceSnapshotService.js');
+    const SNAPSHOT_HOUR = 23;
+    const SNAPSHOT_MINUTE = 45; // 23:45 server time, so each snapshot reflects the day it is dated
+    
+    const scheduleComplianceSnapshots = () => {
+      const now = new Date();
+      const nextRun = new Date(now);
+      nextRun.setHours(SNAPSHOT_HOUR, SNAPSHOT_MINUTE, 0, 0);
+      if (nextRun <= now) {
+        nextRun.setDate(nextRun.getDate() + 1);
+      }
+      
+      setTimeout(async () => {
+        try {
+          await complianceSnapshotService.runNightlySnapshots();
+        } catch (error) {
+          console.error('❌ Compliance snapshot run failed:', error);
+          // Don't throw - keep the server running
+        }
+        scheduleComplianceSnapshots();
+      }, nextRun.getTime() - now.getTime());
+    };
+    
+    scheduleComplianceSnapshots();
+    console.log(`✅ Compliance snapshots scheduled nightly at ${SNAPSHOT_HOUR}:${SNAPSHOT_MINUTE}`);
+  } catch (error) {
+    console.error('❌ Failed to initialize compliance snapshots:', error);
+  }
+
+  // ===== MANAGER DIGESTS =====
+  // Weekly summary of each line manager's team training that needs attention
+  try {
+    const { teamService } = await import('./services/TeamService.js');
+    const DIGEST_DAY = 1; // Monday
+    const DIGEST_HOUR = 8;
+    
+    const scheduleManagerDigests = () => {
+      const now = new Date();
+      const nextRun = new Date(now);
+      nextRun.setHours(DIGEST_HOUR, 0, 0, 0);
+      nextRun.setDate(nextRun.getDate() + ((DIGEST_DAY - nextRun.getDay() + 7) % 7));
+      if (nextRun <= now) {
+        nextRun.setDate(nextRun.getDate() + 7);
+      }
+      
+      setTimeout(async () => {
+        try {
+          await teamService.sendManagerDigests();
+        } catch (error) {
+          console.error('❌ Manager digest run failed:', error);
+          // Don't throw - keep the server running
+        }
+        scheduleManagerDigests();
+      }, nextRun.getTime() - now.getTime());
+    };
+    
+    scheduleManagerDigests();
+    console.log(`✅ Manager digests scheduled weekly on Mondays at ${DIGEST_HOUR}:00`);
+  } catch (error) {
+    console.error('❌ Failed to initialize manager digests:', error);
+  }
+
+  // ===== LEARNER DIGESTS =====
+  // Daily and weekly digests for learners who don't want an email per assignment. Runs hourly so
+  // each organisation's digest hour is met
+  try {
+    const { learnerDigestService } = await import('./services/LearnerDigestService.js');
+    const LEARNER_DIGEST_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+    
+    const learnerDigestLoop = async () => {
+      try {
+        await learnerDigestService.sendDueDigests();
+      } catch (error) {
+        console.error('❌ Learner digest run failed:', error);
+        // Don't throw - keep the server running
+      }
+    };
+    
+    // Initial run delayed so it doesn't compete with startup work
+    setTimeout(learnerDigestLoop, 6 * 60 * 1000);
+    setInterval(learnerDigestLoop, LEARNER_DIGEST_INTERVAL_MS);
+    
+    console.log(`✅ Learner digests active - checking every ${LEARNER_DIGEST_INTERVAL_MS / 1000 / 60} minutes`);
+  } catch (error) {
+    console.error('❌ Failed to initialize learner digests:', error);
+  }
+
+  // ===== EMAIL QUEUE =====
+  // Deliver queued emails and their retries. Set EMAIL_QUEUE_WORKER=external when separate
+  // `npm run worker:email` processes do the sending
+  if (process.env.EMAIL_QUEUE_WORKER !== 'external') {
+    try {
+      const { emailQueueWorker } = await import('./services/EmailQueueWorker.js');
+      emailQueueWorker.start();
+      console.log('✅ Email queue worker running in the web process');
+    } catch (error) {
+      console.error('❌ Failed to start email queue worker:', error);
+    }
+  } else {
+    console.log('📭 Email queue worker disabled in the web process - EMAIL_QUEUE_WORKER=external');
+  }
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,67 @@
+/**
+ * MFA Policy and Audit
+ * Organisations can require TOTP for their admins; the platform setting requires it for superadmins.
+ * Enrolment, resets and failed challenges are written to the system access audit log.
+ */
+
+import { storage } from "../storage";
+import { comprehensiveAuditService } from "../services/ComprehensiveAuditService";
+import type { User } from "@shared/schema";
+
+export const SUPERADMIN_MFA_SETTING = 'require_superadmin_mfa';
+
+// System access logs need an organisation - superadmin events are filed under the platform
+const PLATFORM_AUDIT_ORGANISATION = 'platform';
+
+/**
+ * Whether the user must have MFA to sign in with a password
+ */
+export async function isMfaRequired(user: User): Promise<boolean> {
+  if (user.role === 'superadmin') {
+    const setting = await storage.getPlatformSetting(SUPERADMIN_MFA_SETTING);
+    return setting?.value === 'true';
+  }
+  if (user.role === 'admin' && user.organisationId) {
+    const settings = await storage.getOrganisationSettings(user.organisationId);
+    return !!settings?.requireAdminMfa;
+  }
+  return false;
+}
+
+export type MfaAuditAction =
+  | 'mfa_enrolled'
+  | 'mfa_disabled'
+  | 'mfa_reset'
+  | 'mfa_recovery_codes_regenerated'
+  | 'mfa_recovery_code_used'
+  | 'mfa_challenge_failed';
+
+/**
+ * Record an MFA event against the affected user. Resets name the admin who performed them.
+ * Audit failures are logged but never block sign-in.
+ */
+export async function recordMfaEvent(
+  req: any,
+  user: User,
+  action: MfaAuditAction,
+  outcome: 'success' | 'failure',
+  performedBy?: User
+): Promise<void> {
+  try {
+    await comprehensiveAuditService.logSystemAccess({
+      organisationId: user.organisationId || PLATFORM_AUDIT_ORGANISATION,
+      userId: user.id,
+      userEmail: user.email || undefined,
+      userRole: user.role,
+      accessType: 'mfa',
+      accessMethod: 'web',
+      outcome,
+      privilegedOperation: action === 'mfa_reset',
+      resourceAccessed: 'user_mfa',
+      actionPerformed: performedBy ? `${action} by ${performedBy.email || performedBy.id}` : action,
+      req,
+    });
+  } catch (error) {
+    console.error(`[MFA] Failed to record ${action} for user ${user.id}:`, error);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * TOTP (RFC 6238) and Recovery Codes
+ * 30-second, 6-digit SHA-1 codes as used by Google Authenticator, Microsoft Authenticator and 1Password.
+ * Recovery codes are single use and only their hashes are stored.
+ */
+
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ISSUER = 'inteLMS';
+
+// Accept the previous and next code too - phone clocks drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+function codeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * Check a code against the secret. Returns the matching time step, or null.
+ * Steps at or before lastUsedStep are refused so a code cannot be replayed.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalised = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalised)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = codeForStep(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalised))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI plus a QR code of it for the authenticator app to scan
+ */
+export async function buildTotpEnrolment(secret: string, accountName: string): Promise<{ secret: string; otpauthUrl: string; qrCodeDataUrl: string }> {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, ''), 'utf8').digest('hex');
+}
+
+/**
+ * Fresh set of recovery codes (xxxxx-xxxxx) and the hashes to store
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
@@ -18,10 +18,29 @@ const mailerService = new MailerService();
 import { scormService } from "./services/scormService";
 import { certificateService } from "./services/certificateService";
 import { ScormPreviewService } from "./services/scormPreviewService";
-import { insertUserSchema, insertOrganisationSchema, insertCourseSchema, insertAssignmentSchema, insertEmailProviderConfigsSchema, insertPrivacySettingsSchema, insertUserRightRequestSchema, insertConsentRecordSchema, insertCookieInventorySchema, insertComplianceDocumentSchema, insertComplianceDocumentTemplateSchema, insertComplianceDocumentAuditSchema, insertComplianceDocumentPublicationSchema, emailTemplateTypeEnum } from "@shared/schema";
+import { insertUserSchema, updateUserSchema, insertOrganisationSchema, insertCourseSchema, insertAssignmentSchema, insertEmailProviderConfigsSchema, insertPrivacySettingsSchema, insertUserRightRequestSchema, insertConsentRecordSchema, insertCookieInventorySchema, insertComplianceDocumentSchema, insertComplianceDocumentTemplateSchema, insertComplianceDocumentAuditSchema, insertComplianceDocumentPublicationSchema, insertReportSubscriptionSchema, insertMandatoryCourseSchema, insertOrganisationRoleSchema, insertClassroomSessionSchema, insertExternalTrainingRecordSchema, insertCourseAssessmentSchema, insertAssessmentQuestionSchema, emailTemplateTypeEnum, emailDeliveryFrequencyEnum, EMAIL_LOCALES } from "@shared/schema";
 import { scormRoutes } from "./scorm/routes";
 import { ScormApiDispatcher } from "./scorm/api-dispatch";
+import { ScormPersistence } from "./scorm/persist";
+import { buildItemAnalysis } from "./scorm/interactions";
+import { xapiRoutes } from "./xapi/routes";
+import { createLaunch as createXapiLaunch } from "./xapi/launch";
+import { buildSamlLoginUrl, generateSamlSpMetadata, parseIdpMetadata, samlAcsUrl, samlSpEntityId, validateSamlResponse } from "./sso/saml";
+import { buildOidcLoginUrl, completeOidcLogin, oidcCallbackUrl } from "./sso/oidc";
+import { mapSsoIdentity, resolveSsoUser, SsoLoginError, type SsoIdentity } from "./sso/provisioning";
+import { domainVerificationRecord, generateDomainVerificationToken, hasDomainVerificationRecord, normaliseEmailDomain } from "./sso/domains";
+import { createScimRoutes, generateScimToken } from "./scim/routes";
+import { scimBaseUrl } from "./scim/resources";
+import { buildTotpEnrolment, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from "./mfa/totp";
+import { isMfaRequired, recordMfaEvent, SUPERADMIN_MFA_SETTING } from "./mfa/policy";
+import { clearFailedLogins, isLockedOut, lockoutMessage, recordFailedLogin } from "./auth/lockout";
+import { hashResetToken, sendPasswordResetEmail } from "./auth/passwordReset";
+import { getUserPermissions, hasPermission, PERMISSION_DESCRIPTIONS, recordRoleChange } from "./auth/permissions";
 import { stripeWebhookService } from "./services/StripeWebhookService";
+import { emailDeliveryEventService, EmailWebhookError } from "./services/EmailDeliveryEventService";
+import { emailQueueWorker, EmailQueueError } from "./services/EmailQueueWorker";
+import { emailLocaleService } from "./services/EmailLocaleService";
+import { learnerDigestService } from "./services/LearnerDigestService";
 import { emailTemplateEngine } from "./services/EmailTemplateEngineService";
 import { emailTemplateResolver } from "./services/EmailTemplateResolutionService";
 import { EmailTemplateService } from "./services/EmailTemplateService";
@@ -32,12 +51,26 @@ import { emailService } from "./services/emailService";
 import { EmailOrchestrator } from "./services/EmailOrchestrator";
 import { emailNotificationService } from "./services/EmailNotificationService";
 import { automatedEmailService } from "./services/AutomatedEmailService";
+import { learningPathService } from "./services/LearningPathService";
+import { trainingMatrixService } from "./services/TrainingMatrixService";
+import { complianceService } from "./services/ComplianceService";
+import { complianceSnapshotService } from "./services/ComplianceSnapshotService";
+import { teamService } from "./services/TeamService";
+import { classroomService, ClassroomBookingError } from "./services/ClassroomService";
+import { externalTrainingService, ExternalTrainingError } from "./services/ExternalTrainingService";
+import { courseVersionService, CourseVersionError, VERSIONED_COURSE_FIELDS } from "./services/CourseVersionService";
+import { assessmentService, AssessmentError } from "./services/AssessmentService";
+import { trainingMatrixExportService, TRAINING_MATRIX_EXPORT_FORMATS } from "./services/TrainingMatrixExportService";
+import { reportSubscriptionService } from "./services/ReportSubscriptionService";
+import { recertificationService } from "./services/RecertificationService";
+import { assignmentRuleService } from "./services/AssignmentRuleService";
 import { breachNotificationService } from "./services/BreachNotificationService";
 import { breachDeadlineService } from "./services/BreachDeadlineService";
 import { dataRetentionService } from "./services/DataRetentionService";
 import { users } from "@shared/schema";
+import type { ClassroomSession, ExternalTrainingRecord, OrganisationRole, OrganisationSsoConfig, Permission, ReportSubscription, SsoEmailDomain, User } from "@shared/schema";
 import { eq } from "drizzle-orm";
-import { gdprConfig, isGdprEnabled, isGdprFeatureEnabled, getCurrentPolicyVersion } from "./config/gdpr";
+import { gdprConfig, isGdprEnabled, isGdprFeatureEnabled, getCurrentPolicyVersion, type GdprConfig } from "./config/gdpr";
 import { ComplianceDocumentGenerationService } from "./services/ComplianceDocumentGenerationService";
 import { ageVerificationService } from "./services/AgeVerificationService";
 import { parentalConsentService } from "./services/ParentalConsentService";
@@ -127,9 +160,12 @@ async function validateUserRightsAccess(
     return { authorized: false, error: 'Invalid user role' };
   }
 
-  // Operation-specific role checks
+  // Admins and anyone whose custom role grants GDPR management handle other people's requests
+  const canManage = await hasPermission(currentUser, 'gdpr.manage');
+
+  // Operation-specific permission checks
   if (['process', 'export'].includes(operation)) {
-    if (!['admin', 'superadmin'].includes(currentUser.role)) {
+    if (!canManage) {
       return { authorized: false, error: 'Admin privileges required for this operation' };
     }
   }
@@ -142,8 +178,8 @@ async function validateUserRightsAccess(
     }
 
     // Organization scoping validation
-    if (currentUser.role === 'admin') {
-      // Admin can only access requests from their organization
+    if (currentUser.role !== 'superadmin' && canManage) {
+      // Admins and GDPR officers can only access requests from their organization
       if (targetRequest.organisationId !== currentUser.organisationId) {
         return { 
           authorized: false, 
@@ -172,6 +208,9 @@ async function validateUserRightsAccess(
 // Initialize EmailOrchestrator for the new email system
 const emailOrchestrator = new EmailOrchestrator();
 
+// Stores question-level SCORM interactions and objectives on commit
+const scormPersistence = new ScormPersistence();
+
 // TEMPORARILY DISABLED: Initialize and register breach notification templates
 // (async () => {
 //   try {
@@ -228,8 +267,9 @@ async function canUserModifyTarget(currentUser: any, targetUser: any): Promise<{
     return { canModify: true };
   }
   
-  // Admin can only modify regular users in their organization
-  if (currentUser.role === 'admin') {
+  // Admins - and users whose custom role lets them manage users, which the route has checked -
+  // can only modify regular users in their organization
+  if (currentUser.role === 'admin' || (currentUser.role === 'user' && currentUser.customRoleId)) {
     // Cannot modify users outside their organization
     if (targetUser.organisationId !== currentUser.organisationId) {
       return { canModify: false, error: 'Access denied - cannot modify users outside your organization' };
@@ -676,9 +716,10 @@ const upload = multer({
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session middleware for simple authentication
   const MemStore = MemoryStore(session);
+  const sessionStore = new MemStore({ checkPeriod: 86400000 });
   app.use(session({
     secret: process.env.SESSION_SECRET || 'demo-secret-key',
-    store: new MemStore({ checkPeriod: 86400000 }),
+    store: sessionStore,
     resave: false,
     saveUninitialized: false,
     cookie: {
@@ -704,6 +745,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   }
 
+  // Permission middleware - use after requireAuth; the user must hold every permission listed
+  function requirePermission(...permissions: Permission[]) {
+    return async (req: any, res: any, next: any) => {
+      try {
+        const user = await getCurrentUser(req);
+        const granted = user ? await getUserPermissions(user) : [];
+        if (!user || !permissions.every(permission => granted.includes(permission))) {
+          console.log(`🔒 Permission denied for ${req.method} ${req.path} - requires ${permissions.join(', ')}`);
+          return res.status(403).json({ message: 'Access denied' });
+        }
+        next();
+      } catch (error) {
+        console.error('Error checking permissions:', error);
+        res.status(500).json({ message: 'Failed to check permissions' });
+      }
+    };
+  }
+
+  // GDPR feature flag guard - use before requirePermission so a disabled feature is a 404 for everyone
+  function requireGdpr(feature?: keyof GdprConfig['features']) {
+    return (req: any, res: any, next: any) => {
+      if (!isGdprEnabled() || (feature && !isGdprFeatureEnabled(feature))) {
+        return res.status(404).json({ message: "Endpoint not found" });
+      }
+      next();
+    };
+  }
+
   // Helper function to check license availability
   async function checkLicenseCapacity(userId: string, additionalActiveUsers: number = 1): Promise<{ canProceed: boolean; error?: string }> {
     try {
@@ -718,14 +787,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return { canProceed: false, error: 'User not associated with an organization' };
       }
 
+      return await checkOrganisationLicenseCapacity(user.organisationId, additionalActiveUsers);
+    } catch (error) {
+      console.error('Error checking license capacity:', error);
+      return { canProceed: false, error: 'Failed to check license capacity' };
+    }
+  }
+
+  // License availability for an organisation - used directly where there is no acting user (SSO provisioning)
+  async function checkOrganisationLicenseCapacity(organisationId: string, additionalActiveUsers: number = 1): Promise<{ canProceed: boolean; error?: string }> {
+    try {
       // Get organization and subscription info
-      const organisation = await storage.getOrganisation(user.organisationId);
+      const organisation = await storage.getOrganisation(organisationId);
       if (!organisation) {
         return { canProceed: false, error: 'Organization not found' };
       }
 
       // Count active users in the organization, EXCLUDING admin users from license count
-      const allUsers = await storage.getUsersByOrganisation(user.organisationId);
+      const allUsers = await storage.getUsersByOrganisation(organisationId);
       const activeNonAdminUsers = allUsers.filter(u => u.status === 'active' && u.role !== 'admin' && u.role !== 'superadmin');
       const currentActiveCount = activeNonAdminUsers.length;
 
@@ -841,6 +920,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
+  // Helper function to narrow an organisation-wide view to one manager's team (the `managerId` filter).
+  // Returns null when no manager was given; a manager from another organisation gives an empty team, not everyone.
+  async function getTeamFilter(managerId: unknown, organisationId: string): Promise<Set<string> | null> {
+    if (!managerId || typeof managerId !== 'string') {
+      return null;
+    }
+    const manager = await storage.getUser(managerId);
+    if (!manager || manager.organisationId !== organisationId) {
+      return new Set();
+    }
+    return new Set(await teamService.getTeamMemberIds(manager));
+  }
+
+  // Helper function to get the courses an organisation may assign - published courses in its allowed categories
+  // Learning path steps must be courses the organisation can assign - returns the problem, if any
+  async function findUnassignableCourse(organisationId: string, courseIds: string[]): Promise<string | null> {
+    if (courseIds.length === 0) {
+      return null;
+    }
+    const assignable = new Set((await getAssignableCourses(organisationId)).map(course => course.id));
+    const unavailable = courseIds.find(courseId => !assignable.has(courseId));
+    return unavailable ? `Course ${unavailable} is not available to this organisation` : null;
+  }
+
+  async function getAssignableCourses(organisationId: string) {
+    // Get organization's allowed course folders/categories
+    const allowedFolders = await storage.getOrganisationFolderAccess(organisationId);
+    const allowedFolderIds = allowedFolders.map(folder => folder.id);
+
+    // Get all courses and filter by organization's category access
+    const courses = await storage.getAllCourses();
+    return courses.filter(course => {
+      // Only show published courses
+      if (course.status !== 'published') {
+        return false;
+      }
+      
+      // If no specific folder access is granted, show no courses
+      if (allowedFolderIds.length === 0) {
+        return false;
+      }
+      
+      // Show courses that are in the organization's allowed categories
+      // If course has no folder (folderId is null), don't show it unless organization has access to 'uncategorized'
+      if (course.folderId) {
+        return allowedFolderIds.includes(course.folderId);
+      } else {
+        // Handle uncategorized courses - only show if organization has been granted general access
+        // For now, we'll exclude uncategorized courses to maintain strict category-based access
+        return false;
+      }
+    });
+  }
+
   // Initialize SCORM preview service
   const scormPreviewService = new ScormPreviewService();
 
@@ -1056,15 +1189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const demoAccount = demoUsers[email as keyof typeof demoUsers];
       
       if (demoAccount && password === demoAccount.password && demoAccount.user) {
-        req.session.user = demoAccount.user;
-        return res.json({ 
-          message: "Login successful",
-          user: demoAccount.user,
-          requiresPasswordChange: demoAccount.user.requiresPasswordChange || false,
-          redirectUrl: demoAccount.user.role === 'superadmin' ? '/superadmin' 
-            : demoAccount.user.role === 'admin' ? '/admin'
-            : '/user'
-        });
+        return await completePasswordLogin(req, res, demoAccount.user);
       }
 
       // Check for regular users in the database
@@ -1081,11 +1206,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
+      // Locked accounts are refused before the password is even checked
+      if (isLockedOut(user)) {
+        console.log(`❌ Login refused for locked account: ${email}`);
+        return res.status(423).json({ message: lockoutMessage(user), locked: true });
+      }
+      
       // Compare the provided password with the stored hash
       const passwordMatch = await bcrypt.compare(password, user.passwordHash);
       
       if (!passwordMatch) {
         console.log(`❌ Password mismatch for user: ${email}`);
+        const failed = await recordFailedLogin(user);
+        if (isLockedOut(failed)) {
+          return res.status(423).json({ message: lockoutMessage(failed), locked: true });
+        }
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
@@ -1095,1359 +1230,1693 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Account is not active" });
       }
       
-      // Authentication successful - create session
-      console.log(`✅ Authentication successful for user: ${email} (role: ${user.role})`);
-      req.session.user = user;
+      // Organisations can require their users to sign in through their own identity provider
+      if (user.role !== 'superadmin' && user.organisationId) {
+        const ssoConfig = await storage.getSsoConfig(user.organisationId);
+        if (ssoConfig?.isEnabled && ssoConfig.enforceSso) {
+          console.log(`❌ Password login refused for ${email} - organisation requires SSO`);
+          return res.status(403).json({
+            message: "Your organisation requires you to sign in with single sign-on",
+            ssoLoginUrl: `/api/sso/${user.organisationId}/login`
+          });
+        }
+      }
       
-      return res.json({ 
-        message: "Login successful",
-        user: user,
-        requiresPasswordChange: user.requiresPasswordChange || false,
-        redirectUrl: user.role === 'superadmin' ? '/superadmin' 
-          : user.role === 'admin' ? '/admin'
-          : '/user'
-      });
+      // Authentication successful - create session (after the MFA step if the user has one)
+      console.log(`✅ Authentication successful for user: ${email} (role: ${user.role})`);
+      return await completePasswordLogin(req, res, user);
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ message: "Login failed" });
     }
   });
 
-  // Change password endpoint for users with temporary passwords
-  app.post('/api/auth/change-password', async (req: any, res) => {
+  // ===== MULTI-FACTOR AUTHENTICATION =====
+
+  const MFA_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+  const MFA_MAX_ATTEMPTS = 5;
+
+  const mfaCodeBodySchema = z.object({
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+  });
+
+  function loginResponse(user: User) {
+    return {
+      message: "Login successful",
+      user,
+      requiresPasswordChange: user.requiresPasswordChange || false,
+      redirectUrl: user.role === 'superadmin' ? '/superadmin'
+        : user.role === 'admin' ? '/admin'
+        : '/user'
+    };
+  }
+
+  // Every factor passed - start the session and reset the failed sign-in count
+  async function signIn(req: any, user: User): Promise<User> {
+    const signedIn = await clearFailedLogins(user);
+    req.session.user = signedIn;
+    return signedIn;
+  }
+
+  // First factor passed - hold the user at the MFA step if they use MFA or their policy says they must enrol
+  async function holdForMfa(req: any, user: User): Promise<{ enrolmentRequired: boolean } | null> {
+    const enrolmentRequired = !user.mfaEnabled && await isMfaRequired(user);
+    if (!user.mfaEnabled && !enrolmentRequired) {
+      return null;
+    }
+    req.session.pendingMfa = { userId: user.id, attempts: 0, expiresAt: Date.now() + MFA_CHALLENGE_TTL_MS };
+    return { enrolmentRequired };
+  }
+
+  // Password accepted - sign in straight away, or hold the user at the MFA step until they pass it
+  async function completePasswordLogin(req: any, res: any, user: User) {
+    const mfa = await holdForMfa(req, user);
+    if (mfa) {
+      const { enrolmentRequired } = mfa;
+      return res.json({
+        mfaRequired: true,
+        enrolmentRequired,
+        message: enrolmentRequired
+          ? "Your organisation requires two-factor authentication. Set it up to continue."
+          : "Enter the code from your authenticator app",
+      });
+    }
+
+    return res.json(loginResponse(await signIn(req, user)));
+  }
+
+  // The user who has passed the password step but not the MFA step yet
+  async function getPendingMfaUser(req: any): Promise<User | undefined> {
+    const pending = req.session?.pendingMfa;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingMfa;
+      return undefined;
+    }
+    const user = await storage.getUser(pending.userId);
+    return user?.status === 'active' && !isLockedOut(user) ? user : undefined;
+  }
+
+  // Count a failed code; too many and the password has to be entered again.
+  // Codes count towards the account lockout too, so restarting the login does not reset the limit.
+  async function failPendingMfa(req: any, res: any, user: User, message: string) {
+    await recordMfaEvent(req, user, 'mfa_challenge_failed', 'failure');
+    const failed = await recordFailedLogin(user);
+    if (isLockedOut(failed)) {
+      delete req.session.pendingMfa;
+      return res.status(423).json({ message: lockoutMessage(failed), locked: true, restartLogin: true });
+    }
+    req.session.pendingMfa.attempts += 1;
+    if (req.session.pendingMfa.attempts >= MFA_MAX_ATTEMPTS) {
+      delete req.session.pendingMfa;
+      return res.status(401).json({ message: 'Too many incorrect codes. Please log in again.', restartLogin: true });
+    }
+    return res.status(401).json({ message });
+  }
+
+  // Check a TOTP or recovery code - accepted TOTP steps cannot be replayed and recovery codes are used up
+  async function verifyMfaCode(req: any, user: User, body: z.infer<typeof mfaCodeBodySchema>): Promise<boolean> {
+    const mfa = await storage.getUserMfa(user.id);
+    if (!mfa) {
+      return false;
+    }
+
+    if (body.recoveryCode) {
+      if (!(await storage.consumeRecoveryCode(user.id, hashRecoveryCode(body.recoveryCode)))) {
+        return false;
+      }
+      await recordMfaEvent(req, user, 'mfa_recovery_code_used', 'success');
+      return true;
+    }
+
+    const step = body.code ? verifyTotp(mfa.totpSecret, body.code, mfa.lastUsedStep) : null;
+    if (step === null) {
+      return false;
+    }
+    await storage.updateUserMfa(user.id, { lastUsedStep: step });
+    return true;
+  }
+
+  // Save a confirmed TOTP secret with a fresh set of recovery codes
+  async function enableMfa(req: any, user: User, totpSecret: string, step: number): Promise<{ user: User; recoveryCodes: string[] }> {
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.upsertUserMfa({ userId: user.id, totpSecret, lastUsedStep: step, recoveryCodeHashes: hashes });
+    const updated = await storage.updateUser(user.id, { mfaEnabled: true });
+    await recordMfaEvent(req, updated, 'mfa_enrolled', 'success');
+    console.log(`🔐 MFA enrolled for ${updated.email}`);
+    return { user: updated, recoveryCodes: codes };
+  }
+
+  // Second login step - TOTP code or a recovery code
+  app.post('/api/login/mfa', async (req: any, res) => {
     try {
-      const { currentPassword, newPassword, confirmPassword } = req.body;
-      
-      // Check if user is logged in
-      if (!req.session?.user) {
-        return res.status(401).json({ message: 'Not authenticated' });
+      const user = await getPendingMfaUser(req);
+      if (!user) {
+        return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.', restartLogin: true });
       }
-      
-      // Validate inputs
-      if (!currentPassword || !newPassword || !confirmPassword) {
-        return res.status(400).json({ message: 'All fields are required' });
+      if (!user.mfaEnabled) {
+        return res.status(400).json({ message: 'Set up two-factor authentication to continue' });
       }
-      
-      if (newPassword !== confirmPassword) {
-        return res.status(400).json({ message: 'New passwords do not match' });
+
+      const body = mfaCodeBodySchema.parse(req.body);
+      if (!(await verifyMfaCode(req, user, body))) {
+        return await failPendingMfa(req, res, user, body.recoveryCode ? 'Invalid recovery code' : 'Incorrect code');
       }
-      
-      if (newPassword.length < 6) {
-        return res.status(400).json({ message: 'New password must be at least 6 characters long' });
+
+      delete req.session.pendingMfa;
+      const signedIn = await signIn(req, user);
+      console.log(`✅ MFA verified for ${user.email}`);
+      res.json(loginResponse(signedIn));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid code', errors: error.errors });
       }
-      
-      // Get current user from database
-      const user = await storage.getUser(req.session.user.id);
+      console.error('MFA verification error:', error);
+      res.status(500).json({ message: 'Failed to verify code' });
+    }
+  });
+
+  // Enrolment during login, when MFA is required but not set up yet
+  app.post('/api/login/mfa/enrol', async (req: any, res) => {
+    try {
+      const user = await getPendingMfaUser(req);
       if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+        return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.', restartLogin: true });
       }
-      
-      // Verify current password
-      if (!user.passwordHash) {
-        return res.status(400).json({ message: 'User has no password set' });
+      if (user.mfaEnabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already set up' });
       }
-      
-      const currentPasswordMatch = await bcrypt.compare(currentPassword, user.passwordHash);
-      if (!currentPasswordMatch) {
-        return res.status(400).json({ message: 'Current password is incorrect' });
+
+      const secret = generateTotpSecret();
+      req.session.pendingMfa.enrolmentSecret = secret;
+      res.json(await buildTotpEnrolment(secret, user.email || user.id));
+    } catch (error) {
+      console.error('MFA enrolment error:', error);
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+
+  app.post('/api/login/mfa/enrol/verify', async (req: any, res) => {
+    try {
+      const user = await getPendingMfaUser(req);
+      const secret = req.session?.pendingMfa?.enrolmentSecret;
+      if (!user || !secret) {
+        return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.', restartLogin: true });
       }
-      
-      // Don't allow setting the same password
-      const samePassword = await bcrypt.compare(newPassword, user.passwordHash);
-      if (samePassword) {
-        return res.status(400).json({ message: 'New password must be different from current password' });
+
+      const body = mfaCodeBodySchema.parse(req.body);
+      const step = body.code ? verifyTotp(secret, body.code) : null;
+      if (step === null) {
+        return await failPendingMfa(req, res, user, 'Incorrect code');
       }
-      
-      // Hash the new password
-      const saltRounds = 10;
-      const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
-      
-      // Update user password and clear requiresPasswordChange flag directly in database
-      await db.update(users)
-        .set({ 
-          passwordHash: newPasswordHash,
-          requiresPasswordChange: false,
-          updatedAt: new Date()
-        })
-        .where(eq(users.id, user.id));
-      
-      // Update session with new user data
-      const updatedUser = await storage.getUser(user.id);
-      req.session.user = updatedUser;
-      
-      console.log(`✅ Password changed successfully for user: ${user.email}`);
-      
-      return res.json({ 
-        message: 'Password changed successfully',
-        user: updatedUser
-      });
-      
+
+      const enrolled = await enableMfa(req, user, secret, step);
+      delete req.session.pendingMfa;
+      const signedIn = await signIn(req, enrolled.user);
+      res.json({ ...loginResponse(signedIn), recoveryCodes: enrolled.recoveryCodes });
     } catch (error) {
-      console.error('Change password error:', error);
-      res.status(500).json({ message: 'Failed to change password' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid code', errors: error.errors });
+      }
+      console.error('MFA enrolment verification error:', error);
+      res.status(500).json({ message: 'Failed to set up two-factor authentication' });
     }
   });
 
-  // Secure credential update endpoint for superadmin
-  app.patch('/api/account/credentials', requireAuth, async (req: any, res) => {
+  // MFA status for the signed-in user
+  app.get('/api/mfa', requireAuth, async (req: any, res) => {
     try {
-      const { newEmail, newPassword, currentPassword } = req.body;
-      const userId = getUserIdFromSession(req);
-      
-      if (!userId) {
-        return res.status(401).json({ message: 'Not authenticated' });
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
 
-      // Get current user
-      const user = await storage.getUser(userId);
+      const mfa = user.mfaEnabled ? await storage.getUserMfa(user.id) : undefined;
+      res.json({
+        enabled: !!user.mfaEnabled,
+        required: await isMfaRequired(user),
+        enrolledAt: mfa?.enrolledAt || null,
+        recoveryCodesRemaining: mfa?.recoveryCodeHashes.length ?? 0,
+      });
+    } catch (error) {
+      console.error('Error fetching MFA status:', error);
+      res.status(500).json({ message: 'Failed to fetch two-factor status' });
+    }
+  });
+
+  // Start enrolment from the profile page - the secret is only saved once a code confirms it
+  app.post('/api/mfa/enrol', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
-
-      // Validate inputs
-      if (!newEmail && !newPassword) {
-        return res.status(400).json({ message: 'Either new email or new password is required' });
+      if (user.mfaEnabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already set up' });
       }
 
-      let updateData: any = {};
-
-      // Handle email update
-      if (newEmail) {
-        if (!newEmail.includes('@')) {
-          return res.status(400).json({ message: 'Invalid email format' });
-        }
+      const secret = generateTotpSecret();
+      req.session.mfaEnrolmentSecret = secret;
+      res.json(await buildTotpEnrolment(secret, user.email || user.id));
+    } catch (error) {
+      console.error('MFA enrolment error:', error);
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
 
-        // Check if email is already taken
-        try {
-          const existingUser = await storage.getUserByEmail(newEmail);
-          if (existingUser && existingUser.id !== userId) {
-            return res.status(409).json({ message: 'Email already in use' });
-          }
-        } catch (error) {
-          // If getUserByEmail throws, email is not found, which is good
-        }
+  app.post('/api/mfa/enrol/verify', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const secret = req.session.mfaEnrolmentSecret;
+      if (!user || !secret) {
+        return res.status(400).json({ message: 'Start two-factor setup again' });
+      }
 
-        updateData.email = newEmail;
-        console.log(`📧 Updating email for user ${userId} to ${newEmail}`);
+      const body = mfaCodeBodySchema.parse(req.body);
+      const step = body.code ? verifyTotp(secret, body.code) : null;
+      if (step === null) {
+        await recordMfaEvent(req, user, 'mfa_challenge_failed', 'failure');
+        return res.status(400).json({ message: 'Incorrect code' });
       }
 
-      // Handle password update
-      if (newPassword) {
-        // Password validation
-        if (newPassword.length < 8) {
-          return res.status(400).json({ message: 'Password must be at least 8 characters long' });
-        }
+      const enrolled = await enableMfa(req, user, secret, step);
+      delete req.session.mfaEnrolmentSecret;
+      req.session.user = enrolled.user;
+      res.json({ recoveryCodes: enrolled.recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid code', errors: error.errors });
+      }
+      console.error('MFA enrolment verification error:', error);
+      res.status(500).json({ message: 'Failed to set up two-factor authentication' });
+    }
+  });
 
-        // For demo users (no existing password hash), skip current password check
-        const isDemoUser = user.id === 'demo-superadmin' && !user.passwordHash;
-        
-        if (!isDemoUser && user.passwordHash) {
-          // Require current password for security
-          if (!currentPassword) {
-            return res.status(400).json({ message: 'Current password is required to set new password' });
-          }
+  // Replace the recovery codes - needs a current TOTP code
+  app.post('/api/mfa/recovery-codes', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user?.mfaEnabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is not set up' });
+      }
 
-          const currentPasswordMatch = await bcrypt.compare(currentPassword, user.passwordHash);
-          if (!currentPasswordMatch) {
-            return res.status(400).json({ message: 'Current password is incorrect' });
-          }
+      const body = mfaCodeBodySchema.parse(req.body);
+      if (!(await verifyMfaCode(req, user, { code: body.code }))) {
+        await recordMfaEvent(req, user, 'mfa_challenge_failed', 'failure');
+        return res.status(400).json({ message: 'Incorrect code' });
+      }
 
-          // Don't allow setting the same password
-          const samePassword = await bcrypt.compare(newPassword, user.passwordHash);
-          if (samePassword) {
-            return res.status(400).json({ message: 'New password must be different from current password' });
-          }
-        }
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserMfa(user.id, { recoveryCodeHashes: hashes });
+      await recordMfaEvent(req, user, 'mfa_recovery_codes_regenerated', 'success');
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid code', errors: error.errors });
+      }
+      console.error('Error regenerating recovery codes:', error);
+      res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+    }
+  });
 
-        // Hash the new password
-        const saltRounds = 12;
-        const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
-        updateData.passwordHash = newPasswordHash;
-        updateData.requiresPasswordChange = false;
-        
-        console.log(`🔐 Updating password for user ${userId}`);
+  // Turn MFA off - not allowed while the user's role requires it
+  app.post('/api/mfa/disable', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user?.mfaEnabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is not set up' });
+      }
+      if (await isMfaRequired(user)) {
+        return res.status(403).json({ message: 'Two-factor authentication is required for your account' });
       }
 
-      // Update user in database
-      await storage.updateUser(userId, updateData);
+      const body = mfaCodeBodySchema.parse(req.body);
+      if (!(await verifyMfaCode(req, user, body))) {
+        await recordMfaEvent(req, user, 'mfa_challenge_failed', 'failure');
+        return res.status(400).json({ message: 'Incorrect code' });
+      }
 
-      // Audit log for security
-      console.log(`🔒 SECURITY AUDIT: User ${userId} (${user.email}) updated credentials`, {
-        changedEmail: !!newEmail,
-        changedPassword: !!newPassword,
-        timestamp: new Date().toISOString(),
-        userAgent: req.headers['user-agent'],
-        ip: req.ip || req.connection.remoteAddress
-      });
+      await storage.deleteUserMfa(user.id);
+      req.session.user = await storage.updateUser(user.id, { mfaEnabled: false });
+      await recordMfaEvent(req, user, 'mfa_disabled', 'success');
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid code', errors: error.errors });
+      }
+      console.error('Error disabling MFA:', error);
+      res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+    }
+  });
 
-      // Invalidate all sessions for security if password was changed
-      if (newPassword) {
-        // Force logout by clearing current session
-        req.session.destroy((err: any) => {
-          if (err) {
-            console.error('Error destroying session:', err);
-          }
-        });
-        
-        return res.json({ 
-          message: 'Credentials updated successfully. Please log in again with your new credentials.',
-          requiresRelogin: true
-        });
+  // Reset another user's MFA (lost phone) - they set it up again at their next sign-in
+  app.post('/api/users/:id/mfa/reset', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Update session with new user data if only email was changed
-      const updatedUser = await storage.getUser(userId);
-      req.session.user = updatedUser;
+      // Admins act within their organisation; a custom role only reaches its learners
+      const target = await storage.getUser(req.params.id);
+      if (!target || (user.role !== 'superadmin' && (target.organisationId !== user.organisationId || target.role === 'superadmin')) ||
+          (user.role === 'user' && target.role !== 'user')) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (target.id === user.id) {
+        return res.status(400).json({ message: 'Manage your own two-factor authentication from your profile' });
+      }
 
-      res.json({ 
-        message: 'Credentials updated successfully',
-        user: updatedUser,
-        requiresRelogin: false
-      });
+      await storage.deleteUserMfa(target.id);
+      const updated = await storage.updateUser(target.id, { mfaEnabled: false });
+      await recordMfaEvent(req, updated, 'mfa_reset', 'success', user);
+      console.log(`🔐 MFA reset for ${target.email} by ${user.email}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error resetting MFA:', error);
+      res.status(500).json({ message: 'Failed to reset two-factor authentication' });
+    }
+  });
+
+  // Organisation policy - require MFA for every admin of the organisation
+  app.put('/api/organisations/:id/mfa-policy', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (user.role === 'admin' && user.organisationId !== req.params.id) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { requireAdminMfa } = z.object({ requireAdminMfa: z.boolean() }).parse(req.body);
+      const existing = await storage.getOrganisationSettings(req.params.id);
+      const settings = existing
+        ? await storage.updateOrganisationSettings(req.params.id, { requireAdminMfa })
+        : await storage.createOrganisationSettings({ organisationId: req.params.id, requireAdminMfa });
 
+      console.log(`🔐 Admin MFA ${requireAdminMfa ? 'required' : 'optional'} for organisation ${req.params.id} (set by ${user.email})`);
+      res.json({ requireAdminMfa: !!settings.requireAdminMfa });
     } catch (error) {
-      console.error('Error updating credentials:', error);
-      res.status(500).json({ message: 'Failed to update credentials' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid MFA policy', errors: error.errors });
+      }
+      console.error('Error updating MFA policy:', error);
+      res.status(500).json({ message: 'Failed to update MFA policy' });
     }
   });
 
-  // Handle logout as both GET and POST
-  const handleLogout = (req: any, res: any) => {
-    req.session.destroy((err: any) => {
-      if (err) {
-        console.error('Logout error:', err);
-        return res.status(500).json({ message: "Logout failed" });
+  // Learner digest defaults - how learners who haven't chosen for themselves get assignment emails
+  app.get('/api/organisations/:id/notification-settings', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      
-      // For GET requests (direct navigation), redirect to home
-      if (req.method === 'GET') {
-        res.redirect('/');
-      } else {
-        // For POST requests (API calls), return JSON
-        res.json({ message: "Logged out successfully" });
+      if (user.role === 'admin' && user.organisationId !== req.params.id) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-    });
-  };
 
-  app.get('/api/logout', handleLogout);
-  app.post('/api/logout', handleLogout);
+      const settings = await storage.getOrgNotificationSettings(req.params.id);
+      res.json({
+        learnerEmailDelivery: settings?.learnerEmailDelivery || 'immediate',
+        digestHour: settings?.digestHour ?? 8,
+        digestWeekday: settings?.digestWeekday ?? 1,
+      });
+    } catch (error) {
+      console.error('Error fetching notification settings:', error);
+      res.status(500).json({ message: 'Failed to fetch notification settings' });
+    }
+  });
 
-  // Registration endpoints
-  app.post('/api/register/individual', async (req: any, res) => {
+  app.put('/api/organisations/:id/notification-settings', requireAuth, async (req: any, res) => {
     try {
-      const { firstName, lastName, email, password, confirmPassword } = req.body;
-      
-      if (!firstName || !lastName || !email || !password || !confirmPassword) {
-        return res.status(400).json({ message: "All fields are required" });
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      if (user.role === 'admin' && user.organisationId !== req.params.id) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      if (password !== confirmPassword) {
-        return res.status(400).json({ message: "Passwords do not match" });
+      const data = z.object({
+        learnerEmailDelivery: z.enum(emailDeliveryFrequencyEnum.enumValues),
+        digestHour: z.number().int().min(0).max(23),
+        digestWeekday: z.number().int().min(0).max(6),
+      }).parse(req.body);
+      const settings = await storage.upsertOrgNotificationSettings({ orgId: req.params.id, ...data, updatedBy: user.id });
+
+      console.log(`📬 Learner email delivery for organisation ${req.params.id} set to ${data.learnerEmailDelivery} (by ${user.email})`);
+      res.json({
+        learnerEmailDelivery: settings.learnerEmailDelivery,
+        digestHour: settings.digestHour,
+        digestWeekday: settings.digestWeekday,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid notification settings', errors: error.errors });
       }
+      console.error('Error updating notification settings:', error);
+      res.status(500).json({ message: 'Failed to update notification settings' });
+    }
+  });
 
-      if (password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters long" });
+  // Platform policy - require MFA for superadmins
+  app.get('/api/superadmin/mfa-policy', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied - SuperAdmin only' });
       }
 
-      // Check if user already exists
-      const existingUser = await storage.getUserByEmail(email);
-      if (existingUser) {
-        return res.status(409).json({ message: "User with this email already exists" });
+      const setting = await storage.getPlatformSetting(SUPERADMIN_MFA_SETTING);
+      res.json({ requireSuperadminMfa: setting?.value === 'true' });
+    } catch (error) {
+      console.error('Error fetching platform MFA policy:', error);
+      res.status(500).json({ message: 'Failed to fetch MFA policy' });
+    }
+  });
+
+  app.put('/api/superadmin/mfa-policy', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied - SuperAdmin only' });
       }
 
-      // Create individual user account (not tied to organisation)
-      const userData = {
-        email,
-        firstName,
-        lastName,
-        role: 'user' as const,
-        status: 'active' as const,
-        organisationId: null, // Individual user - not tied to organisation
-        allowCertificateDownload: true, // Default access to certificates
-      };
+      const { requireSuperadminMfa } = z.object({ requireSuperadminMfa: z.boolean() }).parse(req.body);
+      await storage.setPlatformSetting(SUPERADMIN_MFA_SETTING, String(requireSuperadminMfa), 'Require two-factor authentication for superadmins');
 
-      const newUser = await storage.createUser(userData);
-      
-      // Send welcome email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
-      if (EMAIL_TEMPLATES_V2_ENABLED) {
-        try {
-          const context = {
-            user: {
-              name: `${newUser.firstName} ${newUser.lastName}`,
-              email: newUser.email || undefined,
-              firstName: newUser.firstName || undefined,
-              lastName: newUser.lastName || undefined,
-              fullName: `${newUser.firstName} ${newUser.lastName}`
-            },
-            addedBy: {
-              name: 'Self Registration'
-            },
-            addedAt: new Date().toISOString(),
-            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`,
-            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
-          };
+      console.log(`🔐 Superadmin MFA ${requireSuperadminMfa ? 'required' : 'optional'} (set by ${user.email})`);
+      res.json({ requireSuperadminMfa });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid MFA policy', errors: error.errors });
+      }
+      console.error('Error updating platform MFA policy:', error);
+      res.status(500).json({ message: 'Failed to update MFA policy' });
+    }
+  });
 
-          await emailOrchestrator.queue({
-            triggerEvent: 'USER_FAST_ADD',
-            templateKey: 'new_user_welcome',
-            toEmail: newUser.email!,
-            context,
-            organisationId: undefined, // Individual users don't have an org
-            resourceId: newUser.id,
-            priority: 1
-          });
-          
-          console.log(`✅ USER_FAST_ADD email queued for ${newUser.email} (Individual registration)`);
-        } catch (emailError) {
-          console.warn('⚠️ Failed to queue USER_FAST_ADD email:', emailError);
-          // Don't fail registration if email fails
-        }
+  // ===== PASSWORD RESET AND LOCKOUT =====
+
+  // At most one reset email per user in this window, so the form cannot be used to flood an inbox
+  const PASSWORD_RESET_RESEND_MS = 2 * 60 * 1000;
+  const PASSWORD_RESET_REQUESTED_MESSAGE = 'If an account exists for that email address, we have sent a link to reset the password.';
+
+  // Sign the user out everywhere - persisted sessions in the sessions table and the in-memory session store
+  async function invalidateUserSessions(userId: string): Promise<void> {
+    const removed = await storage.deleteUserSessions(userId);
+    const active = await new Promise<Record<string, any>>((resolve, reject) => {
+      sessionStore.all((err: any, all: any) => err ? reject(err) : resolve(all || {}));
+    });
+    const sids = Object.keys(active).filter(sid => active[sid]?.user?.id === userId || active[sid]?.pendingMfa?.userId === userId);
+    await Promise.all(sids.map(sid => new Promise<void>(resolve => sessionStore.destroy(sid, () => resolve()))));
+    console.log(`🔐 Signed out ${removed + sids.length} session(s) for user ${userId}`);
+  }
+
+  // Forgot password - always the same response so it cannot be used to find out which emails have accounts
+  app.post('/api/password-reset/request', async (req: any, res) => {
+    try {
+      const { email } = z.object({ email: z.string().trim().email() }).parse(req.body);
+      const user = await storage.getUserByEmail(email);
+
+      if (!user?.email || user.status !== 'active') {
+        console.log(`🔐 Password reset requested for unknown or inactive account: ${email}`);
+        return res.json({ message: PASSWORD_RESET_REQUESTED_MESSAGE });
       }
-      
-      // Log the user in automatically
-      req.session.user = newUser;
 
-      return res.status(201).json({ 
-        message: "Individual account created successfully",
-        user: newUser,
-        redirectUrl: '/user'
-      });
+      const latest = await storage.getLatestPasswordResetToken(user.id);
+      if (latest?.createdAt && Date.now() - latest.createdAt.getTime() < PASSWORD_RESET_RESEND_MS) {
+        console.log(`🔐 Password reset email for ${email} already sent recently - not sending another`);
+        return res.json({ message: PASSWORD_RESET_REQUESTED_MESSAGE });
+      }
+
+      await sendPasswordResetEmail(user, req.ip || 'unknown');
+      console.log(`🔐 Password reset email sent to ${email}`);
+      res.json({ message: PASSWORD_RESET_REQUESTED_MESSAGE });
     } catch (error) {
-      console.error("Individual registration error:", error);
-      res.status(500).json({ message: "Registration failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Enter a valid email address' });
+      }
+      console.error('Password reset request error:', error);
+      res.status(500).json({ message: 'Failed to request password reset' });
     }
   });
 
-  app.post('/api/register/organisation', async (req: any, res) => {
+  // Set a new password from a reset link - the link is used up and every session for the user is ended
+  app.post('/api/password-reset/complete', async (req: any, res) => {
     try {
-      const { 
-        organisationName, 
-        organisationDisplayName,
-        organisationSubdomain,
-        contactEmail,
-        contactPhone,
-        address,
-        adminFirstName,
-        adminLastName,
-        adminEmail,
-        adminPassword,
-        confirmPassword
-      } = req.body;
-      
-      if (!organisationName || !organisationDisplayName || !organisationSubdomain || 
-          !adminFirstName || !adminLastName || !adminEmail || !adminPassword || !confirmPassword) {
-        return res.status(400).json({ message: "All required fields must be filled" });
-      }
+      const { token, newPassword, confirmPassword } = z.object({
+        token: z.string().min(1),
+        newPassword: z.string(),
+        confirmPassword: z.string(),
+      }).parse(req.body);
 
-      if (adminPassword !== confirmPassword) {
-        return res.status(400).json({ message: "Passwords do not match" });
+      if (newPassword !== confirmPassword) {
+        return res.status(400).json({ message: 'New passwords do not match' });
+      }
+      if (newPassword.length < 6) {
+        return res.status(400).json({ message: 'New password must be at least 6 characters long' });
       }
 
-      if (adminPassword.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters long" });
+      const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() < Date.now()) {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired. Please request a new one.' });
       }
 
-      // Validate subdomain format (alphanumeric, hyphens, lowercase)
-      const subdomainRegex = /^[a-z0-9-]+$/;
-      if (!subdomainRegex.test(organisationSubdomain)) {
-        return res.status(400).json({ message: "Subdomain can only contain lowercase letters, numbers, and hyphens" });
+      const user = await storage.getUser(resetToken.userId);
+      if (!user || user.status !== 'active') {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired. Please request a new one.' });
       }
 
-      // Check if admin email already exists
-      const existingUser = await storage.getUserByEmail(adminEmail);
-      if (existingUser) {
-        return res.status(409).json({ message: "User with this email already exists" });
+      // Claim the token before changing anything, so a link used twice at once only works once
+      if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(400).json({ message: 'This reset link is invalid or has expired. Please request a new one.' });
       }
 
-      // Check if organisation subdomain already exists
-      try {
-        const existingOrg = await storage.getOrganisationBySubdomain(organisationSubdomain);
-        if (existingOrg) {
-          return res.status(409).json({ message: "Subdomain is already taken" });
-        }
-      } catch (error) {
-        // Organisation doesn't exist, which is what we want
-      }
-
-      // Create organisation first
-      const organisationData = {
-        name: organisationName,
-        displayName: organisationDisplayName,
-        subdomain: organisationSubdomain,
-        contactEmail,
-        contactPhone,
-        address,
-        status: 'active' as const,
-      };
-
-      const newOrganisation = await storage.createOrganisation(organisationData);
-      
-      // Create admin user for the organisation
-      const adminUserData = {
-        email: adminEmail,
-        firstName: adminFirstName,
-        lastName: adminLastName,
-        role: 'admin' as const,
-        status: 'active' as const,
-        organisationId: newOrganisation.id,
-        allowCertificateDownload: true,
-      };
-
-      const newAdmin = await storage.createUser(adminUserData);
-      
-      // Send welcome email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
-      if (EMAIL_TEMPLATES_V2_ENABLED) {
-        try {
-          const context = {
-            user: {
-              name: `${newAdmin.firstName} ${newAdmin.lastName}`,
-              email: newAdmin.email || undefined,
-              firstName: newAdmin.firstName || undefined,
-              lastName: newAdmin.lastName || undefined,
-              fullName: `${newAdmin.firstName} ${newAdmin.lastName}`
-            },
-            org: {
-              name: newOrganisation.name,
-              displayName: newOrganisation.displayName || newOrganisation.name
-            },
-            addedBy: {
-              name: 'System Registration'
-            },
-            addedAt: new Date().toISOString(),
-            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`,
-            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
-          };
-
-          await emailOrchestrator.queue({
-            triggerEvent: 'ORG_FAST_ADD',
-            templateKey: 'new_org_welcome',
-            toEmail: newAdmin.email!,
-            context,
-            organisationId: newOrganisation.id,
-            resourceId: newOrganisation.id,
-            priority: 1
-          });
-          
-          console.log(`✅ ORG_FAST_ADD email queued for ${newAdmin.email}`);
-        } catch (emailError) {
-          console.warn('⚠️ Failed to queue ORG_FAST_ADD email:', emailError);
-          // Don't fail registration if email fails
-        }
-      }
-      
-      // Log the admin in automatically
-      req.session.user = newAdmin;
+      await db.update(users)
+        .set({
+          passwordHash: await bcrypt.hash(newPassword, 10),
+          requiresPasswordChange: false,
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, user.id));
+      await storage.deletePasswordResetTokensForUser(user.id);
+      await invalidateUserSessions(user.id);
 
-      return res.status(201).json({ 
-        message: "Organisation and admin account created successfully",
-        user: newAdmin,
-        organisation: newOrganisation,
-        redirectUrl: '/admin'
-      });
+      console.log(`✅ Password reset for user: ${user.email}`);
+      res.json({ message: 'Your password has been reset. You can now log in with your new password.' });
     } catch (error) {
-      console.error("Organisation registration error:", error);
-      res.status(500).json({ message: "Registration failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid password reset request', errors: error.errors });
+      }
+      console.error('Password reset error:', error);
+      res.status(500).json({ message: 'Failed to reset password' });
     }
   });
 
-  app.get('/api/auth/user', requireAuth, async (req: any, res) => {
+  // Lift a lockout early - admins for their own organisation, superadmins for anyone
+  app.post('/api/users/:id/unlock', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
       if (!user) {
-        return res.status(404).json({ message: "User not found" });
+        return res.status(403).json({ message: 'Access denied' });
       }
-      res.json(user);
-    } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
-    }
-  });
 
-  // GDPR Configuration Endpoint (feature flag protected)
-  app.get('/api/config/gdpr', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
-    try {
-      // Return the GDPR configuration for frontend use
-      res.json({
-        enabled: gdprConfig.enabled,
-        environment: gdprConfig.environment,
-        features: gdprConfig.features,
-        settings: gdprConfig.settings,
-      });
+      // Admins act within their organisation; a custom role only reaches its learners
+      const target = await storage.getUser(req.params.id);
+      if (!target || (user.role !== 'superadmin' && (target.organisationId !== user.organisationId || target.role === 'superadmin')) ||
+          (user.role === 'user' && target.role !== 'user')) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const updated = await clearFailedLogins(target);
+      console.log(`🔓 Account unlocked for ${target.email} by ${user.email}`);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching GDPR config:", error);
-      res.status(500).json({ message: "Failed to fetch GDPR configuration" });
+      console.error('Error unlocking user:', error);
+      res.status(500).json({ message: 'Failed to unlock user' });
     }
   });
 
-  // GDPR Privacy Settings Routes (feature flag protected)
-  
-  // Get organization's privacy settings
-  app.get('/api/gdpr/privacy-settings', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Change password endpoint for users with temporary passwords
+  app.post('/api/auth/change-password', async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Organization required" });
+      const { currentPassword, newPassword, confirmPassword } = req.body;
+      
+      // Check if user is logged in
+      if (!req.session?.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
       }
-
-      // Only allow admin or superadmin to access privacy settings
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      
+      // Validate inputs
+      if (!currentPassword || !newPassword || !confirmPassword) {
+        return res.status(400).json({ message: 'All fields are required' });
       }
-
-      const privacySettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
       
-      if (!privacySettings) {
-        // Return default settings if none exist
-        return res.json({
-          organisationId: currentUser.organisationId,
-          dataRetentionPeriod: 2555, // 7 years default
-          cookieSettings: {},
-          privacyContacts: {},
-          internationalTransfers: {},
-          settings: {}
-        });
+      if (newPassword !== confirmPassword) {
+        return res.status(400).json({ message: 'New passwords do not match' });
       }
-
-      res.json(privacySettings);
+      
+      if (newPassword.length < 6) {
+        return res.status(400).json({ message: 'New password must be at least 6 characters long' });
+      }
+      
+      // Get current user from database
+      const user = await storage.getUser(req.session.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Verify current password
+      if (!user.passwordHash) {
+        return res.status(400).json({ message: 'User has no password set' });
+      }
+      
+      const currentPasswordMatch = await bcrypt.compare(currentPassword, user.passwordHash);
+      if (!currentPasswordMatch) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+      
+      // Don't allow setting the same password
+      const samePassword = await bcrypt.compare(newPassword, user.passwordHash);
+      if (samePassword) {
+        return res.status(400).json({ message: 'New password must be different from current password' });
+      }
+      
+      // Hash the new password
+      const saltRounds = 10;
+      const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
+      
+      // Update user password and clear requiresPasswordChange flag directly in database
+      await db.update(users)
+        .set({ 
+          passwordHash: newPasswordHash,
+          requiresPasswordChange: false,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, user.id));
+      
+      // Update session with new user data
+      const updatedUser = await storage.getUser(user.id);
+      req.session.user = updatedUser;
+      
+      console.log(`✅ Password changed successfully for user: ${user.email}`);
+      
+      return res.json({ 
+        message: 'Password changed successfully',
+        user: updatedUser
+      });
+      
     } catch (error) {
-      console.error("Error fetching privacy settings:", error);
-      res.status(500).json({ message: "Failed to fetch privacy settings" });
+      console.error('Change password error:', error);
+      res.status(500).json({ message: 'Failed to change password' });
     }
   });
 
-  // Create initial privacy settings for organization
-  app.post('/api/gdpr/privacy-settings', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Secure credential update endpoint for superadmin
+  app.patch('/api/account/credentials', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Organization required" });
+      const { newEmail, newPassword, currentPassword } = req.body;
+      const userId = getUserIdFromSession(req);
+      
+      if (!userId) {
+        return res.status(401).json({ message: 'Not authenticated' });
       }
 
-      // Only allow admin or superadmin to create privacy settings
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      // Get current user
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
 
-      // Check if settings already exist
-      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
-      if (existingSettings) {
-        return res.status(409).json({ message: "Privacy settings already exist for this organization" });
+      // Validate inputs
+      if (!newEmail && !newPassword) {
+        return res.status(400).json({ message: 'Either new email or new password is required' });
       }
 
-      // Validate request body
-      const settingsData = insertPrivacySettingsSchema.parse({
-        ...req.body,
-        organisationId: currentUser.organisationId
-      });
+      let updateData: any = {};
 
-      const privacySettings = await storage.createPrivacySettings(settingsData);
-      res.status(201).json(privacySettings);
-    } catch (error: any) {
-      console.error("Error creating privacy settings:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create privacy settings" });
-    }
-  });
+      // Handle email update
+      if (newEmail) {
+        if (!newEmail.includes('@')) {
+          return res.status(400).json({ message: 'Invalid email format' });
+        }
 
-  // Update organization's privacy settings
-  app.patch('/api/gdpr/privacy-settings', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Organization required" });
-      }
+        // Check if email is already taken
+        try {
+          const existingUser = await storage.getUserByEmail(newEmail);
+          if (existingUser && existingUser.id !== userId) {
+            return res.status(409).json({ message: 'Email already in use' });
+          }
+        } catch (error) {
+          // If getUserByEmail throws, email is not found, which is good
+        }
 
-      // Only allow admin or superadmin to update privacy settings
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
+        updateData.email = newEmail;
+        console.log(`📧 Updating email for user ${userId} to ${newEmail}`);
       }
 
-      // Find existing settings
-      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
-      if (!existingSettings) {
-        return res.status(404).json({ message: "Privacy settings not found" });
+      // Handle password update
+      if (newPassword) {
+        // Password validation
+        if (newPassword.length < 8) {
+          return res.status(400).json({ message: 'Password must be at least 8 characters long' });
+        }
+
+        // For demo users (no existing password hash), skip current password check
+        const isDemoUser = user.id === 'demo-superadmin' && !user.passwordHash;
+        
+        if (!isDemoUser && user.passwordHash) {
+          // Require current password for security
+          if (!currentPassword) {
+            return res.status(400).json({ message: 'Current password is required to set new password' });
+          }
+
+          const currentPasswordMatch = await bcrypt.compare(currentPassword, user.passwordHash);
+          if (!currentPasswordMatch) {
+            return res.status(400).json({ message: 'Current password is incorrect' });
+          }
+
+          // Don't allow setting the same password
+          const samePassword = await bcrypt.compare(newPassword, user.passwordHash);
+          if (samePassword) {
+            return res.status(400).json({ message: 'New password must be different from current password' });
+          }
+        }
+
+        // Hash the new password
+        const saltRounds = 12;
+        const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
+        updateData.passwordHash = newPasswordHash;
+        updateData.requiresPasswordChange = false;
+        
+        console.log(`🔐 Updating password for user ${userId}`);
       }
 
-      // Validate request body (partial update)
-      const updateSchema = insertPrivacySettingsSchema.partial().omit({ organisationId: true });
-      const updateData = updateSchema.parse(req.body);
+      // Update user in database
+      await storage.updateUser(userId, updateData);
 
-      const updatedSettings = await storage.updatePrivacySettings(existingSettings.id, updateData);
-      res.json(updatedSettings);
-    } catch (error: any) {
-      console.error("Error updating privacy settings:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      // Audit log for security
+      console.log(`🔒 SECURITY AUDIT: User ${userId} (${user.email}) updated credentials`, {
+        changedEmail: !!newEmail,
+        changedPassword: !!newPassword,
+        timestamp: new Date().toISOString(),
+        userAgent: req.headers['user-agent'],
+        ip: req.ip || req.connection.remoteAddress
+      });
+
+      // Invalidate all sessions for security if password was changed
+      if (newPassword) {
+        // Force logout by clearing current session
+        req.session.destroy((err: any) => {
+          if (err) {
+            console.error('Error destroying session:', err);
+          }
+        });
+        
+        return res.json({ 
+          message: 'Credentials updated successfully. Please log in again with your new credentials.',
+          requiresRelogin: true
+        });
       }
-      res.status(500).json({ message: "Failed to update privacy settings" });
+
+      // Update session with new user data if only email was changed
+      const updatedUser = await storage.getUser(userId);
+      req.session.user = updatedUser;
+
+      res.json({ 
+        message: 'Credentials updated successfully',
+        user: updatedUser,
+        requiresRelogin: false
+      });
+
+    } catch (error) {
+      console.error('Error updating credentials:', error);
+      res.status(500).json({ message: 'Failed to update credentials' });
     }
   });
 
-  // Delete organization's privacy settings
-  app.delete('/api/gdpr/privacy-settings', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
+  // Handle logout as both GET and POST
+  const handleLogout = (req: any, res: any) => {
+    req.session.destroy((err: any) => {
+      if (err) {
+        console.error('Logout error:', err);
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      
+      // For GET requests (direct navigation), redirect to home
+      if (req.method === 'GET') {
+        res.redirect('/');
+      } else {
+        // For POST requests (API calls), return JSON
+        res.json({ message: "Logged out successfully" });
+      }
+    });
+  };
+
+  app.get('/api/logout', handleLogout);
+  app.post('/api/logout', handleLogout);
+
+  // Single sign-on (per-organisation SAML 2.0 / OIDC)
+  const ssoBaseUrl = () => process.env.REPLIT_URL || 'http://localhost:5000';
+
+  const ssoConfigBodySchema = z.object({
+    organisationId: z.string().optional(),
+    protocol: z.enum(['saml', 'oidc']),
+    isEnabled: z.boolean(),
+    enforceSso: z.boolean(),
+    emailDomains: z.array(z.string()).optional(),
+    samlMetadataXml: z.string().nullable().optional(),
+    samlEntityId: z.string().nullable().optional(),
+    samlSsoUrl: z.string().nullable().optional(),
+    samlCertificate: z.string().nullable().optional(),
+    oidcIssuerUrl: z.string().nullable().optional(),
+    oidcClientId: z.string().nullable().optional(),
+    oidcClientSecret: z.string().nullable().optional(),
+    attributeMapping: z.object({
+      email: z.string().optional(),
+      firstName: z.string().optional(),
+      lastName: z.string().optional(),
+      department: z.string().optional(),
+      jobTitle: z.string().optional(),
+    }).optional(),
+    jitProvisioning: z.boolean(),
+  });
+
+  // The client secret is write-only - admins see whether one is stored, never the value
+  function toSsoConfigResponse(config: OrganisationSsoConfig, domains: SsoEmailDomain[]) {
+    const { oidcClientSecret, samlMetadataXml, ...rest } = config;
+    const baseUrl = ssoBaseUrl();
+    return {
+      ...rest,
+      hasOidcClientSecret: !!oidcClientSecret,
+      hasSamlMetadata: !!samlMetadataXml,
+      // Unverified domains are listed with the TXT record that proves them but route nobody yet
+      emailDomainVerification: domains.map(entry => ({
+        id: entry.id,
+        domain: entry.domain,
+        verified: !!entry.verifiedAt,
+        txtRecord: domainVerificationRecord(entry.domain, entry.verificationToken),
+      })),
+      serviceProvider: {
+        samlEntityId: samlSpEntityId(baseUrl, config.organisationId),
+        samlAcsUrl: samlAcsUrl(baseUrl, config.organisationId),
+        samlMetadataUrl: `${baseUrl}/api/sso/${config.organisationId}/saml/metadata`,
+        oidcRedirectUri: oidcCallbackUrl(baseUrl, config.organisationId),
+      },
+    };
+  }
+
+  function ssoLandingUrl(user: any): string {
+    return user.role === 'superadmin' ? '/superadmin' : user.role === 'admin' ? '/admin' : '/user';
+  }
+
+  function redirectWithSsoError(res: any, message: string) {
+    res.redirect(`/?ssoError=${encodeURIComponent(message)}`);
+  }
+
+  // A fresh session id for the signed-in user, so one planted before the IdP round trip is worthless
+  function regenerateSession(req: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      req.session.regenerate((error: any) => error ? reject(error) : resolve());
+    });
+  }
+
+  // Sign-in errors from the IdP side are logged in full but only our own messages reach the learner.
+  // The IdP is the first factor only - users with MFA, or whose policy requires it, still pass our MFA step.
+  async function completeSsoLogin(req: any, res: any, config: OrganisationSsoConfig, identity: SsoIdentity) {
+    try {
+      const user = await resolveSsoUser(config, identity, (organisationId) => checkOrganisationLicenseCapacity(organisationId, 1));
+      await regenerateSession(req);
+
+      const mfa = await holdForMfa(req, user);
+      if (mfa) {
+        console.log(`🔐 SSO login for ${user.email} waiting for MFA (organisation ${config.organisationId})`);
+        return res.redirect(`/?ssoMfa=${mfa.enrolmentRequired ? 'enrol' : 'verify'}`);
+      }
+
+      req.session.user = user;
+      console.log(`✅ SSO login successful for ${user.email} (organisation ${config.organisationId})`);
+      res.redirect(ssoLandingUrl(user));
+    } catch (error) {
+      console.error(`❌ SSO login refused for organisation ${config.organisationId}:`, error);
+      redirectWithSsoError(res, error instanceof SsoLoginError ? error.message : 'Single sign-on failed. Please try again.');
     }
-    
+  }
+
+  // Find the identity provider for an email address - an existing user's organisation, then a claimed email domain
+  app.get('/api/sso/discover', async (req, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Organization required" });
+      const email = typeof req.query.email === 'string' ? req.query.email.trim().toLowerCase() : '';
+      if (!email.includes('@')) {
+        return res.status(400).json({ message: 'Email is required' });
       }
 
-      // Only allow admin or superadmin to delete privacy settings
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      let config: OrganisationSsoConfig | undefined;
+      const user = await storage.getUserByEmail(email);
+      if (user?.organisationId && user.role !== 'superadmin') {
+        config = await storage.getSsoConfig(user.organisationId);
+      }
+      if (!config?.isEnabled) {
+        config = await storage.getSsoConfigByEmailDomain(email.split('@')[1]);
       }
 
-      // Find existing settings to ensure they belong to the user's organization
-      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
-      if (!existingSettings) {
-        return res.status(404).json({ message: "Privacy settings not found" });
+      if (!config?.isEnabled) {
+        return res.json({ ssoEnabled: false });
       }
 
-      // Delete the settings
-      await storage.deletePrivacySettings(existingSettings.id);
-      res.status(204).send(); // 204 No Content for successful deletion
-    } catch (error: any) {
-      console.error("Error deleting privacy settings:", error);
-      res.status(500).json({ message: "Failed to delete privacy settings" });
+      res.json({
+        ssoEnabled: true,
+        enforced: config.enforceSso,
+        loginUrl: `/api/sso/${config.organisationId}/login`,
+      });
+    } catch (error) {
+      console.error('Error discovering SSO configuration:', error);
+      res.status(500).json({ message: 'Failed to look up single sign-on' });
     }
   });
 
-  // GDPR Consent Routes (feature flag protected)
-  
-  // Get user's current consent status
-  app.get('/api/gdpr/consent', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Start a sign-in with the organisation's identity provider
+  app.get('/api/sso/:organisationId/login', async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      const config = await storage.getSsoConfig(req.params.organisationId);
+      if (!config?.isEnabled) {
+        return redirectWithSsoError(res, 'Single sign-on is not enabled for this organisation');
       }
 
-      // Get current active consent for the user
-      const currentConsent = await storage.getCurrentUserConsent(currentUser.id, currentUser.organisationId);
-      
-      if (!currentConsent) {
-        return res.status(404).json({ message: "No consent record found" });
+      if (config.protocol === 'oidc') {
+        const { url, checks } = await buildOidcLoginUrl(config, ssoBaseUrl());
+        req.session.oidcLogin = checks;
+        return res.redirect(url);
       }
 
-      res.json(currentConsent);
-    } catch (error: any) {
-      console.error("Error fetching consent:", error);
-      res.status(500).json({ message: "Failed to fetch consent status" });
+      res.redirect(await buildSamlLoginUrl(config, ssoBaseUrl(), config.organisationId));
+    } catch (error) {
+      console.error('Error starting SSO login:', error);
+      redirectWithSsoError(res, 'Could not reach your identity provider. Please try again.');
     }
   });
 
-  // Grant or update consent
-  app.post('/api/gdpr/consent', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
+  // SAML assertion consumer service - the IdP posts the signed response here
+  app.post('/api/sso/:organisationId/saml/acs', async (req: any, res) => {
+    const config = await storage.getSsoConfig(req.params.organisationId);
+    if (!config?.isEnabled || config.protocol !== 'saml') {
+      return redirectWithSsoError(res, 'Single sign-on is not enabled for this organisation');
     }
-    
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
-
-      // Validate request body
-      const consentSchema = insertConsentRecordSchema.extend({
-        consentType: z.string().min(1, "Consent type is required"),
-        lawfulBasis: z.enum(['consent', 'contract', 'legal_obligation', 'vital_interests', 'public_task', 'legitimate_interests']),
-        purpose: z.string().min(1, "Purpose is required"),
-        policyVersion: z.string().min(1, "Policy version is required"),
-        marketingConsents: z.record(z.boolean()).optional().default({}),
-        cookieConsents: z.record(z.boolean()).optional().default({})
-      });
 
-      const consentData = consentSchema.parse(req.body);
+    let identity: SsoIdentity;
+    try {
+      const profile = await validateSamlResponse(config, ssoBaseUrl(), req.body);
+      identity = mapSsoIdentity(config, profile.nameID, profile);
+    } catch (error) {
+      console.error(`❌ Invalid SAML response for organisation ${config.organisationId}:`, error);
+      return redirectWithSsoError(res, 'Your identity provider\'s response could not be verified');
+    }
 
-      // Create new consent record (immutable history)
-      const newConsent = await storage.createConsentRecord({
-        userId: currentUser.id,
-        organisationId: currentUser.organisationId,
-        consentType: consentData.consentType,
-        status: 'granted',
-        lawfulBasis: consentData.lawfulBasis,
-        purpose: consentData.purpose,
-        timestamp: new Date(),
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown',
-        policyVersion: consentData.policyVersion,
-        marketingConsents: consentData.marketingConsents || {},
-        cookieConsents: consentData.cookieConsents || {},
-        metadata: consentData.metadata || {}
-      });
+    await completeSsoLogin(req, res, config, identity);
+  });
 
-      res.status(201).json(newConsent);
-    } catch (error: any) {
-      console.error("Error creating consent record:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+  // SAML service provider metadata for the organisation's IdP administrators
+  app.get('/api/sso/:organisationId/saml/metadata', async (req, res) => {
+    try {
+      const config = await storage.getSsoConfig(req.params.organisationId);
+      if (!config) {
+        return res.status(404).json({ message: 'Single sign-on is not configured' });
       }
-      res.status(500).json({ message: "Failed to create consent record" });
+      res.type('application/xml').send(generateSamlSpMetadata(config, ssoBaseUrl()));
+    } catch (error) {
+      console.error('Error generating SAML metadata:', error);
+      res.status(500).json({ message: 'Failed to generate metadata' });
     }
   });
 
-  // Withdraw consent
-  app.delete('/api/gdpr/consent/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
+  // OIDC redirect URI
+  app.get('/api/sso/:organisationId/oidc/callback', async (req: any, res) => {
+    const config = await storage.getSsoConfig(req.params.organisationId);
+    const checks = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+
+    if (!config?.isEnabled || config.protocol !== 'oidc') {
+      return redirectWithSsoError(res, 'Single sign-on is not enabled for this organisation');
     }
-    
+    if (!checks || checks.organisationId !== config.organisationId) {
+      return redirectWithSsoError(res, 'Your sign-in session expired. Please try again.');
+    }
+
+    let identity: SsoIdentity;
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
+      const callbackUrl = new URL(req.originalUrl, oidcCallbackUrl(ssoBaseUrl(), config.organisationId));
+      const claims = await completeOidcLogin(config, callbackUrl, checks);
+      identity = mapSsoIdentity(config, String(claims.sub), claims);
+    } catch (error) {
+      console.error(`❌ OIDC callback failed for organisation ${config.organisationId}:`, error);
+      return redirectWithSsoError(res, 'Your identity provider\'s response could not be verified');
+    }
 
-      const { id } = req.params;
-      
-      // Find the consent record
-      const existingConsent = await storage.getConsentRecord(id);
-      if (!existingConsent) {
-        return res.status(404).json({ message: "Consent record not found" });
-      }
+    await completeSsoLogin(req, res, config, identity);
+  });
 
-      // Check ownership - users can only withdraw their own consent
-      if (existingConsent.userId !== currentUser.id) {
-        return res.status(403).json({ message: "Access denied - can only withdraw your own consent" });
+  // Get the SSO configuration for the admin's organisation
+  app.get('/api/sso-config', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Check organization scope
-      if (existingConsent.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied - consent belongs to different organization" });
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Mark as withdrawn (maintain immutable history)
-      const withdrawnConsent = await storage.updateConsentRecord(id, {
-        status: 'withdrawn',
-        withdrawnAt: new Date(),
-        metadata: {
-          ...existingConsent.metadata,
-          withdrawnByIp: req.ip || req.connection.remoteAddress || 'unknown',
-          withdrawnByUserAgent: req.get('User-Agent') || 'unknown'
-        }
-      });
+      const config = await storage.getSsoConfig(organisationId);
+      if (!config) {
+        const baseUrl = ssoBaseUrl();
+        return res.json({
+          organisationId,
+          configured: false,
+          serviceProvider: {
+            samlEntityId: samlSpEntityId(baseUrl, organisationId),
+            samlAcsUrl: samlAcsUrl(baseUrl, organisationId),
+            samlMetadataUrl: `${baseUrl}/api/sso/${organisationId}/saml/metadata`,
+            oidcRedirectUri: oidcCallbackUrl(baseUrl, organisationId),
+          },
+        });
+      }
 
-      res.json(withdrawnConsent);
-    } catch (error: any) {
-      console.error("Error withdrawing consent:", error);
-      res.status(500).json({ message: "Failed to withdraw consent" });
+      res.json({ ...toSsoConfigResponse(config, await storage.getSsoEmailDomains(organisationId)), configured: true });
+    } catch (error) {
+      console.error('Error fetching SSO configuration:', error);
+      res.status(500).json({ message: 'Failed to fetch SSO configuration' });
     }
   });
 
-  // Get user's consent history (immutable log)
-  app.get('/api/gdpr/consent/history', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Save the SSO configuration - uploaded IdP metadata fills in the SAML endpoint and certificate
+  app.put('/api/sso-config', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Get all consent records for the user (ordered by most recent first)
-      const consentHistory = await storage.getConsentRecordsByUser(currentUser.id);
-      
-      // Filter to only records for current organization (multi-tenant safety)
-      const orgConsentHistory = consentHistory.filter(
-        record => record.organisationId === currentUser.organisationId
-      );
+      const body = ssoConfigBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
 
-      res.json(orgConsentHistory);
-    } catch (error: any) {
-      console.error("Error fetching consent history:", error);
-      res.status(500).json({ message: "Failed to fetch consent history" });
-    }
-  });
+      const existing = await storage.getSsoConfig(organisationId);
+      const emailDomains = Array.from(new Set((body.emailDomains || []).map(normaliseEmailDomain).filter(Boolean)));
 
-  // Admin endpoint: Get organization's consent records (for compliance auditing)
-  app.get('/api/gdpr/consent/admin', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      // A domain another organisation has verified stays with that organisation
+      for (const domain of emailDomains) {
+        const owner = await storage.getVerifiedSsoEmailDomain(domain);
+        if (owner && owner.organisationId !== organisationId) {
+          return res.status(409).json({ message: `${domain} is already used by another organisation` });
+        }
       }
 
-      // Only allow admin or superadmin to view organization consent records
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions - admin access required" });
+      let saml = {
+        samlMetadataXml: body.samlMetadataXml ?? existing?.samlMetadataXml ?? null,
+        samlEntityId: body.samlEntityId ?? existing?.samlEntityId ?? null,
+        samlSsoUrl: body.samlSsoUrl ?? existing?.samlSsoUrl ?? null,
+        samlCertificate: body.samlCertificate ?? existing?.samlCertificate ?? null,
+      };
+      if (body.samlMetadataXml) {
+        try {
+          const metadata = parseIdpMetadata(body.samlMetadataXml);
+          saml = {
+            samlMetadataXml: body.samlMetadataXml,
+            samlEntityId: metadata.entityId,
+            samlSsoUrl: metadata.ssoUrl,
+            samlCertificate: metadata.certificate,
+          };
+        } catch (error) {
+          return res.status(400).json({ message: `Invalid IdP metadata: ${error instanceof Error ? error.message : 'could not be read'}` });
+        }
       }
 
-      // Get all consent records for the organization
-      const orgConsentRecords = await storage.getConsentRecordsByOrganisation(currentUser.organisationId);
+      // Blank secret on save keeps the stored one
+      const oidcClientSecret = body.oidcClientSecret || existing?.oidcClientSecret || null;
 
-      res.json(orgConsentRecords);
-    } catch (error: any) {
-      console.error("Error fetching organization consent records:", error);
-      res.status(500).json({ message: "Failed to fetch consent records" });
-    }
-  });
+      if (body.isEnabled) {
+        const missing = body.protocol === 'saml'
+          ? (!saml.samlSsoUrl || !saml.samlCertificate)
+          : (!body.oidcIssuerUrl || !body.oidcClientId || !oidcClientSecret);
+        if (missing) {
+          return res.status(400).json({ message: 'Complete the identity provider settings before enabling single sign-on' });
+        }
+      }
 
-  // Get current GDPR policy version
-  app.get('/api/gdpr/policy-version', async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
-    try {
-      const policyVersion = getCurrentPolicyVersion();
-      res.json({ 
-        policyVersion,
-        lastUpdated: new Date().toISOString() // Could be made dynamic if needed
-      });
-    } catch (error: any) {
-      console.error("Error fetching policy version:", error);
-      res.status(500).json({ message: "Failed to fetch policy version" });
+      const config = await storage.upsertSsoConfig({
+        organisationId,
+        protocol: body.protocol,
+        isEnabled: body.isEnabled,
+        enforceSso: body.isEnabled && body.enforceSso,
+        emailDomains,
+        ...saml,
+        oidcIssuerUrl: body.oidcIssuerUrl ?? null,
+        oidcClientId: body.oidcClientId ?? null,
+        oidcClientSecret,
+        attributeMapping: body.attributeMapping || {},
+        jitProvisioning: body.jitProvisioning,
+      });
+
+      const domains = await storage.syncSsoEmailDomains(
+        organisationId,
+        emailDomains.map(domain => ({ domain, verificationToken: generateDomainVerificationToken() }))
+      );
+
+      console.log(`🔐 SSO configuration for organisation ${organisationId} updated by ${user.email} (${config.protocol}, enabled: ${config.isEnabled}, enforced: ${config.enforceSso})`);
+      res.json({ ...toSsoConfigResponse(config, domains), configured: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid SSO configuration', errors: error.errors });
+      }
+      console.error('Error saving SSO configuration:', error);
+      res.status(500).json({ message: 'Failed to save SSO configuration' });
     }
   });
 
-  // GDPR Cookie Inventory Routes (feature flag protected)
-  
-  // Get organization's cookie inventory
-  app.get('/api/gdpr/cookies', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Verify an email domain - admins prove it with the DNS TXT record, superadmins may approve it outright
+  app.post('/api/sso-config/email-domains/:id/verify', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // RBAC: Only admins and superadmins can manage cookie inventory
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
+      const organisationId = user.role === 'superadmin' ? req.body?.organisationId : user.organisationId;
+      const entry = organisationId
+        ? (await storage.getSsoEmailDomains(organisationId)).find(domain => domain.id === req.params.id)
+        : undefined;
+      if (!entry) {
+        return res.status(404).json({ message: 'Email domain not found' });
       }
-
-      // For superadmin, require organisationId query parameter
-      let organisationId = currentUser.organisationId;
-      if (currentUser.role === 'superadmin') {
-        const queryOrgId = req.query.organisationId as string;
-        if (!queryOrgId) {
-          return res.status(400).json({ message: "organisationId parameter required for superadmin" });
-        }
-        organisationId = queryOrgId;
+      if (entry.verifiedAt) {
+        return res.json({ id: entry.id, domain: entry.domain, verified: true });
       }
 
-      if (!organisationId) {
-        return res.status(400).json({ message: "No organisation ID available" });
+      const approved = user.role === 'superadmin';
+      if (!approved && !(await hasDomainVerificationRecord(entry.domain, entry.verificationToken))) {
+        const { name, value } = domainVerificationRecord(entry.domain, entry.verificationToken);
+        return res.status(400).json({ message: `Add a TXT record named ${name} with the value ${value}, then try again` });
       }
 
-      // Get optional category filter
-      const category = req.query.category as string;
-      
-      let cookies;
-      if (category) {
-        cookies = await storage.getCookieInventoriesByCategory(organisationId, category);
-      } else {
-        cookies = await storage.getCookieInventoriesByOrganisation(organisationId);
+      try {
+        await storage.verifySsoEmailDomain(entry.id, approved ? user.id : null);
+      } catch (error: any) {
+        if (error?.code === '23505') {
+          return res.status(409).json({ message: `${entry.domain} is already used by another organisation` });
+        }
+        throw error;
       }
 
-      res.json(cookies);
-    } catch (error: any) {
-      console.error("Error fetching cookie inventory:", error);
-      res.status(500).json({ message: "Failed to fetch cookie inventory" });
+      console.log(`🔐 Email domain ${entry.domain} verified for organisation ${organisationId} by ${user.email} (${approved ? 'superadmin approval' : 'DNS record'})`);
+      res.json({ id: entry.id, domain: entry.domain, verified: true });
+    } catch (error) {
+      console.error('Error verifying SSO email domain:', error);
+      res.status(500).json({ message: 'Failed to verify email domain' });
     }
   });
 
-  // Create new cookie inventory entry
-  app.post('/api/gdpr/cookies', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // ===== SCIM PROVISIONING TOKENS =====
+
+  const scimTokenBodySchema = z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    organisationId: z.string().optional(),
+  });
+
+  // List SCIM tokens (never the token itself) for the admin's organisation
+  app.get('/api/scim-tokens', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // RBAC: Only admins and superadmins can manage cookie inventory
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // For superadmin, use organisationId from request body; for admin, use their own
-      let organisationId = currentUser.organisationId;
-      if (currentUser.role === 'superadmin') {
-        if (!req.body.organisationId) {
-          return res.status(400).json({ message: "organisationId required in request body for superadmin" });
-        }
-        organisationId = req.body.organisationId;
+      const tokens = await storage.getScimTokensByOrganisation(organisationId);
+      res.json({
+        baseUrl: scimBaseUrl(),
+        tokens: tokens.map(({ tokenHash, ...token }) => token),
+      });
+    } catch (error) {
+      console.error('Error fetching SCIM tokens:', error);
+      res.status(500).json({ message: 'Failed to fetch SCIM tokens' });
+    }
+  });
+
+  // Create a SCIM token - the response is the only time the token is shown
+  app.post('/api/scim-tokens', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
+      const body = scimTokenBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
       if (!organisationId) {
-        return res.status(400).json({ message: "No organisation ID available" });
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Validate input using Zod schema
-      const cookieData = {
-        ...req.body,
-        organisationId
-      };
-
-      const validatedData = insertCookieInventorySchema.parse(cookieData);
-      const newCookie = await storage.createCookieInventory(validatedData);
+      const { token, tokenHash, tokenPrefix } = generateScimToken();
+      const { tokenHash: _, ...created } = await storage.createScimToken({
+        organisationId,
+        name: body.name,
+        tokenHash,
+        tokenPrefix,
+        createdBy: user.id,
+      });
 
-      res.status(201).json(newCookie);
-    } catch (error: any) {
-      console.error("Error creating cookie inventory:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: error.errors 
-        });
+      console.log(`🔐 SCIM token "${created.name}" created for organisation ${organisationId} by ${user.email}`);
+      res.status(201).json({ ...created, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid token data', errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create cookie inventory entry" });
+      console.error('Error creating SCIM token:', error);
+      res.status(500).json({ message: 'Failed to create SCIM token' });
     }
   });
 
-  // Update cookie inventory entry
-  app.patch('/api/gdpr/cookies/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Revoke a SCIM token - the identity provider stops syncing immediately
+  app.delete('/api/scim-tokens/:id', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      const user = await getCurrentUser(req);
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // RBAC: Only admins and superadmins can manage cookie inventory
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      const cookieId = req.params.id;
-      
-      // Check if cookie exists and user has permission to edit it
-      const existingCookie = await storage.getCookieInventory(cookieId);
-      if (!existingCookie) {
-        return res.status(404).json({ message: "Cookie not found" });
+      const tokens = await storage.getScimTokensByOrganisation(organisationId);
+      const token = tokens.find(t => t.id === req.params.id);
+      if (!token) {
+        return res.status(404).json({ message: 'SCIM token not found' });
       }
 
-      // For admin users, ensure they can only edit cookies from their organisation
-      if (currentUser.role === 'admin' && existingCookie.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied - can only edit cookies from your organisation" });
+      if (!token.revokedAt) {
+        await storage.updateScimToken(token.id, { revokedAt: new Date() });
+        console.log(`🔐 SCIM token "${token.name}" revoked for organisation ${organisationId} by ${user.email}`);
       }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error revoking SCIM token:', error);
+      res.status(500).json({ message: 'Failed to revoke SCIM token' });
+    }
+  });
 
-      // Remove organisationId from update data to prevent changing it
-      const { organisationId, ...updateData } = req.body;
-
-      // Validate partial update using Zod schema
-      const validatedData = insertCookieInventorySchema.partial().parse(updateData);
-      const updatedCookie = await storage.updateCookieInventory(cookieId, validatedData);
+  // User groups (provisioned over SCIM) with member counts - used as assignment rule targets
+  app.get('/api/user-groups', requireAuth, requirePermission('users.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
 
-      res.json(updatedCookie);
-    } catch (error: any) {
-      console.error("Error updating cookie inventory:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: error.errors 
-        });
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
-      res.status(500).json({ message: "Failed to update cookie inventory entry" });
+
+      const [groups, members] = await Promise.all([
+        storage.getUserGroupsByOrganisation(organisationId),
+        storage.getUserGroupMembersByOrganisation(organisationId),
+      ]);
+      res.json(groups.map(group => ({
+        ...group,
+        memberCount: members.filter(member => member.groupId === group.id).length,
+      })));
+    } catch (error) {
+      console.error('Error fetching user groups:', error);
+      res.status(500).json({ message: 'Failed to fetch user groups' });
     }
   });
 
-  // Delete cookie inventory entry
-  app.delete('/api/gdpr/cookies/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Registration endpoints
+  app.post('/api/register/individual', async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      const { firstName, lastName, email, password, confirmPassword } = req.body;
+      
+      if (!firstName || !lastName || !email || !password || !confirmPassword) {
+        return res.status(400).json({ message: "All fields are required" });
       }
 
-      // RBAC: Only admins and superadmins can manage cookie inventory
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
+      if (password !== confirmPassword) {
+        return res.status(400).json({ message: "Passwords do not match" });
       }
 
-      const cookieId = req.params.id;
-      
-      // Check if cookie exists and user has permission to delete it
-      const existingCookie = await storage.getCookieInventory(cookieId);
-      if (!existingCookie) {
-        return res.status(404).json({ message: "Cookie not found" });
+      if (password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters long" });
       }
 
-      // For admin users, ensure they can only delete cookies from their organisation
-      if (currentUser.role === 'admin' && existingCookie.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied - can only delete cookies from your organisation" });
+      // Check if user already exists
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(409).json({ message: "User with this email already exists" });
       }
 
-      await storage.deleteCookieInventory(cookieId);
-
-      res.status(204).send();
-    } catch (error: any) {
-      console.error("Error deleting cookie inventory:", error);
-      res.status(500).json({ message: "Failed to delete cookie inventory entry" });
-    }
-  });
+      // Create individual user account (not tied to organisation)
+      const userData = {
+        email,
+        firstName,
+        lastName,
+        role: 'user' as const,
+        status: 'active' as const,
+        organisationId: null, // Individual user - not tied to organisation
+        allowCertificateDownload: true, // Default access to certificates
+      };
 
-  // ===== PECR MARKETING CONSENT ROUTES =====
+      const newUser = await storage.createUser(userData);
+      
+      // Send welcome email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
+      if (EMAIL_TEMPLATES_V2_ENABLED) {
+        try {
+          const context = {
+            user: {
+              name: `${newUser.firstName} ${newUser.lastName}`,
+              email: newUser.email || undefined,
+              firstName: newUser.firstName || undefined,
+              lastName: newUser.lastName || undefined,
+              fullName: `${newUser.firstName} ${newUser.lastName}`
+            },
+            addedBy: {
+              name: 'Self Registration'
+            },
+            addedAt: new Date().toISOString(),
+            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`,
+            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
+          };
 
-  // Get user's marketing consent preferences
-  app.get('/api/gdpr/marketing-consent', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+          await emailOrchestrator.queue({
+            triggerEvent: 'USER_FAST_ADD',
+            templateKey: 'new_user_welcome',
+            toEmail: newUser.email!,
+            context,
+            organisationId: undefined, // Individual users don't have an org
+            resourceId: newUser.id,
+            priority: 1
+          });
+          
+          console.log(`✅ USER_FAST_ADD email queued for ${newUser.email} (Individual registration)`);
+        } catch (emailError) {
+          console.warn('⚠️ Failed to queue USER_FAST_ADD email:', emailError);
+          // Don't fail registration if email fails
+        }
       }
-
-      // Get user's marketing consents
-      const marketingConsents = await storage.getMarketingConsentsByUser(currentUser.id, currentUser.organisationId);
       
-      // Get communication preferences
-      const communicationPreferences = await storage.getCommunicationPreferencesByUser(currentUser.id, currentUser.organisationId);
-
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        userId: currentUser.id,
-        action: 'view_marketing_consent',
-        resource: 'marketing_consent',
-        resourceId: 'user_preferences',
-        details: {
-          consentsCount: marketingConsents.length,
-          preferencesCount: communicationPreferences.length
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
+      // Log the user in automatically
+      req.session.user = newUser;
 
-      res.json({
-        marketingConsents,
-        communicationPreferences
+      return res.status(201).json({ 
+        message: "Individual account created successfully",
+        user: newUser,
+        redirectUrl: '/user'
       });
-    } catch (error: any) {
-      console.error("Error fetching marketing consent:", error);
-      res.status(500).json({ message: "Failed to fetch marketing consent preferences" });
+    } catch (error) {
+      console.error("Individual registration error:", error);
+      res.status(500).json({ message: "Registration failed" });
     }
   });
 
-  // Update user's marketing consent preferences
-  app.post('/api/gdpr/marketing-consent', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  app.post('/api/register/organisation', async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      const { 
+        organisationName, 
+        organisationDisplayName,
+        organisationSubdomain,
+        contactEmail,
+        contactPhone,
+        address,
+        adminFirstName,
+        adminLastName,
+        adminEmail,
+        adminPassword,
+        confirmPassword
+      } = req.body;
+      
+      if (!organisationName || !organisationDisplayName || !organisationSubdomain || 
+          !adminFirstName || !adminLastName || !adminEmail || !adminPassword || !confirmPassword) {
+        return res.status(400).json({ message: "All required fields must be filled" });
       }
 
-      // Validate request body
-      const consentSchema = z.object({
-        consentType: z.enum(['email_marketing', 'sms_marketing', 'phone_marketing', 'post_marketing', 'push_marketing']),
-        consentStatus: z.enum(['granted', 'withdrawn']),
-        consentSource: z.enum(['website_form', 'email_signup', 'phone_call', 'in_person', 'api']),
-        evidenceType: z.enum(['checkbox', 'email_confirmation', 'verbal_agreement', 'written_form', 'api_request']).optional(),
-        communicationFrequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'occasional']).optional(),
-      });
+      if (adminPassword !== confirmPassword) {
+        return res.status(400).json({ message: "Passwords do not match" });
+      }
 
-      const consentData = consentSchema.parse(req.body);
+      if (adminPassword.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters long" });
+      }
 
-      // Check if consent already exists
-      const existingConsent = await storage.getMarketingConsentByUserAndType(
-        currentUser.id, 
-        currentUser.organisationId, 
-        consentData.consentType
-      );
+      // Validate subdomain format (alphanumeric, hyphens, lowercase)
+      const subdomainRegex = /^[a-z0-9-]+$/;
+      if (!subdomainRegex.test(organisationSubdomain)) {
+        return res.status(400).json({ message: "Subdomain can only contain lowercase letters, numbers, and hyphens" });
+      }
 
-      let resultConsent;
-      if (existingConsent) {
-        // Update existing consent
-        resultConsent = await storage.updateMarketingConsent(existingConsent.id, {
-          consentStatus: consentData.consentStatus,
-          consentSource: consentData.consentSource,
-          evidenceType: consentData.evidenceType,
-          communicationFrequency: consentData.communicationFrequency,
-          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-          userAgent: req.get('User-Agent') || 'unknown',
-        });
-      } else {
-        // Create new consent
-        resultConsent = await storage.createMarketingConsent({
-          userId: currentUser.id,
-          organisationId: currentUser.organisationId,
-          consentType: consentData.consentType,
-          consentStatus: consentData.consentStatus,
-          lawfulBasis: 'consent',
-          consentSource: consentData.consentSource,
-          evidenceType: consentData.evidenceType,
-          consentGivenAt: new Date().toISOString(),
-          communicationFrequency: consentData.communicationFrequency,
-          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-          userAgent: req.get('User-Agent') || 'unknown',
-        });
+      // Check if admin email already exists
+      const existingUser = await storage.getUserByEmail(adminEmail);
+      if (existingUser) {
+        return res.status(409).json({ message: "User with this email already exists" });
       }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        userId: currentUser.id,
-        action: existingConsent ? 'update_marketing_consent' : 'grant_marketing_consent',
-        resource: 'marketing_consent',
-        resourceId: resultConsent.id,
-        details: {
-          consentType: consentData.consentType,
-          consentStatus: consentData.consentStatus,
-          consentSource: consentData.consentSource,
-          isUpdate: !!existingConsent
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
+      // Check if organisation subdomain already exists
+      try {
+        const existingOrg = await storage.getOrganisationBySubdomain(organisationSubdomain);
+        if (existingOrg) {
+          return res.status(409).json({ message: "Subdomain is already taken" });
+        }
+      } catch (error) {
+        // Organisation doesn't exist, which is what we want
+      }
+
+      // Create organisation first
+      const organisationData = {
+        name: organisationName,
+        displayName: organisationDisplayName,
+        subdomain: organisationSubdomain,
+        contactEmail,
+        contactPhone,
+        address,
+        status: 'active' as const,
+      };
+
+      const newOrganisation = await storage.createOrganisation(organisationData);
+      
+      // Create admin user for the organisation
+      const adminUserData = {
+        email: adminEmail,
+        firstName: adminFirstName,
+        lastName: adminLastName,
+        role: 'admin' as const,
+        status: 'active' as const,
+        organisationId: newOrganisation.id,
+        allowCertificateDownload: true,
+      };
+
+      const newAdmin = await storage.createUser(adminUserData);
+      
+      // Send welcome email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
+      if (EMAIL_TEMPLATES_V2_ENABLED) {
+        try {
+          const context = {
+            user: {
+              name: `${newAdmin.firstName} ${newAdmin.lastName}`,
+              email: newAdmin.email || undefined,
+              firstName: newAdmin.firstName || undefined,
+              lastName: newAdmin.lastName || undefined,
+              fullName: `${newAdmin.firstName} ${newAdmin.lastName}`
+            },
+            org: {
+              name: newOrganisation.name,
+              displayName: newOrganisation.displayName || newOrganisation.name
+            },
+            addedBy: {
+              name: 'System Registration'
+            },
+            addedAt: new Date().toISOString(),
+            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`,
+            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
+          };
+
+          await emailOrchestrator.queue({
+            triggerEvent: 'ORG_FAST_ADD',
+            templateKey: 'new_org_welcome',
+            toEmail: newAdmin.email!,
+            context,
+            organisationId: newOrganisation.id,
+            resourceId: newOrganisation.id,
+            priority: 1
+          });
+          
+          console.log(`✅ ORG_FAST_ADD email queued for ${newAdmin.email}`);
+        } catch (emailError) {
+          console.warn('⚠️ Failed to queue ORG_FAST_ADD email:', emailError);
+          // Don't fail registration if email fails
+        }
+      }
+      
+      // Log the admin in automatically
+      req.session.user = newAdmin;
+
+      return res.status(201).json({ 
+        message: "Organisation and admin account created successfully",
+        user: newAdmin,
+        organisation: newOrganisation,
+        redirectUrl: '/admin'
       });
+    } catch (error) {
+      console.error("Organisation registration error:", error);
+      res.status(500).json({ message: "Registration failed" });
+    }
+  });
 
-      res.json(resultConsent);
-    } catch (error: any) {
-      console.error("Error updating marketing consent:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+  app.get('/api/auth/user', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.status(500).json({ message: "Failed to update marketing consent" });
+      // Permissions let the client show the features a custom role opens up
+      res.json({ ...user, permissions: await getUserPermissions(user) });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  // Withdraw specific marketing consent
-  app.post('/api/gdpr/marketing-consent/withdraw', requireAuth, async (req: any, res) => {
+  // GDPR Configuration Endpoint (feature flag protected)
+  app.get('/api/config/gdpr', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
     
+    try {
+      // Return the GDPR configuration for frontend use
+      res.json({
+        enabled: gdprConfig.enabled,
+        environment: gdprConfig.environment,
+        features: gdprConfig.features,
+        settings: gdprConfig.settings,
+      });
+    } catch (error) {
+      console.error("Error fetching GDPR config:", error);
+      res.status(500).json({ message: "Failed to fetch GDPR configuration" });
+    }
+  });
+
+  // GDPR Privacy Settings Routes (feature flag protected)
+  
+  // Get organization's privacy settings
+  app.get('/api/gdpr/privacy-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+        return res.status(401).json({ message: "Organization required" });
       }
 
-      // Validate request body
-      const withdrawSchema = z.object({
-        consentType: z.enum(['email_marketing', 'sms_marketing', 'phone_marketing', 'post_marketing', 'push_marketing']),
-        withdrawalReason: z.string().optional()
-      });
-
-      const { consentType, withdrawalReason } = withdrawSchema.parse(req.body);
-
-      // Find existing consent
-      const existingConsent = await storage.getMarketingConsentByUserAndType(
-        currentUser.id, 
-        currentUser.organisationId, 
-        consentType
-      );
-
-      if (!existingConsent) {
-        return res.status(404).json({ message: "Marketing consent not found" });
+      const privacySettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
+      
+      if (!privacySettings) {
+        // Return default settings if none exist
+        return res.json({
+          organisationId: currentUser.organisationId,
+          dataRetentionPeriod: 2555, // 7 years default
+          cookieSettings: {},
+          privacyContacts: {},
+          internationalTransfers: {},
+          settings: {}
+        });
       }
 
-      if (existingConsent.consentStatus === 'withdrawn') {
-        return res.status(400).json({ message: "Consent already withdrawn" });
-      }
+      res.json(privacySettings);
+    } catch (error) {
+      console.error("Error fetching privacy settings:", error);
+      res.status(500).json({ message: "Failed to fetch privacy settings" });
+    }
+  });
 
-      // Withdraw consent
-      const withdrawnConsent = await storage.withdrawMarketingConsent(existingConsent.id, withdrawalReason);
+  // Create initial privacy settings for organization
+  app.post('/api/gdpr/privacy-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Organization required" });
+      }
 
-      // Add to suppression list
-      if (currentUser.email) {
-        await storage.addToSuppressionList(
-          { email: currentUser.email },
-          currentUser.organisationId,
-          `Marketing consent withdrawn: ${withdrawalReason || 'User request'}`,
-          [consentType.replace('_marketing', '')]
-        );
+      // Check if settings already exist
+      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
+      if (existingSettings) {
+        return res.status(409).json({ message: "Privacy settings already exist for this organization" });
       }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        userId: currentUser.id,
-        action: 'withdraw_marketing_consent',
-        resource: 'marketing_consent',
-        resourceId: withdrawnConsent.id,
-        details: {
-          consentType,
-          withdrawalReason,
-          addedToSuppressionList: !!currentUser.email
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
+      // Validate request body
+      const settingsData = insertPrivacySettingsSchema.parse({
+        ...req.body,
+        organisationId: currentUser.organisationId
       });
 
-      res.json(withdrawnConsent);
+      const privacySettings = await storage.createPrivacySettings(settingsData);
+      res.status(201).json(privacySettings);
     } catch (error: any) {
-      console.error("Error withdrawing marketing consent:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      console.error("Error creating privacy settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to withdraw marketing consent" });
+      res.status(500).json({ message: "Failed to create privacy settings" });
     }
   });
 
-  // Get/Update communication preferences
-  app.get('/api/gdpr/communication-preferences', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Update organization's privacy settings
+  app.patch('/api/gdpr/privacy-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+        return res.status(401).json({ message: "Organization required" });
       }
 
-      const preferences = await storage.getCommunicationPreferencesByUser(currentUser.id, currentUser.organisationId);
+      // Find existing settings
+      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
+      if (!existingSettings) {
+        return res.status(404).json({ message: "Privacy settings not found" });
+      }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        userId: currentUser.id,
-        action: 'view_communication_preferences',
-        resource: 'communication_preferences',
-        resourceId: 'user_preferences',
-        details: {
-          preferencesCount: preferences.length
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
+      // Validate request body (partial update)
+      const updateSchema = insertPrivacySettingsSchema.partial().omit({ organisationId: true });
+      const updateData = updateSchema.parse(req.body);
 
-      res.json(preferences);
+      const updatedSettings = await storage.updatePrivacySettings(existingSettings.id, updateData);
+      res.json(updatedSettings);
     } catch (error: any) {
-      console.error("Error fetching communication preferences:", error);
-      res.status(500).json({ message: "Failed to fetch communication preferences" });
+      console.error("Error updating privacy settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update privacy settings" });
     }
   });
 
-  app.post('/api/gdpr/communication-preferences', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-    
+  // Delete organization's privacy settings
+  app.delete('/api/gdpr/privacy-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+        return res.status(401).json({ message: "Organization required" });
       }
 
-      // Validate request body
-      const preferencesSchema = z.object({
-        preferences: z.array(z.object({
-          communicationType: z.enum(['service_essential', 'service_updates', 'marketing', 'newsletter', 'promotional']),
-          channel: z.enum(['email', 'sms', 'phone', 'post', 'push']),
-          isEnabled: z.boolean(),
-          frequency: z.enum(['immediate', 'daily', 'weekly', 'monthly', 'quarterly']).optional(),
-        })),
-        globalOptOut: z.boolean().optional()
-      });
-
-      const { preferences: preferencesUpdates, globalOptOut } = preferencesSchema.parse(req.body);
-
-      // Handle global opt-out
-      if (globalOptOut !== undefined) {
-        for (const pref of preferencesUpdates) {
-          pref.globalOptOut = globalOptOut;
-        }
+      // Find existing settings to ensure they belong to the user's organization
+      const existingSettings = await storage.getPrivacySettingsByOrganisation(currentUser.organisationId);
+      if (!existingSettings) {
+        return res.status(404).json({ message: "Privacy settings not found" });
       }
 
-      // Bulk update preferences
-      const updatedPreferences = await storage.bulkUpdateCommunicationPreferences(
-        currentUser.id,
-        currentUser.organisationId,
-        preferencesUpdates
-      );
-
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        userId: currentUser.id,
-        action: 'update_communication_preferences',
-        resource: 'communication_preferences',
-        resourceId: 'bulk_update',
-        details: {
-          updatedCount: updatedPreferences.length,
-          globalOptOut,
-          preferences: preferencesUpdates.map(p => ({ type: p.communicationType, channel: p.channel, enabled: p.isEnabled }))
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
-
-      res.json(updatedPreferences);
+      // Delete the settings
+      await storage.deletePrivacySettings(existingSettings.id);
+      res.status(204).send(); // 204 No Content for successful deletion
     } catch (error: any) {
-      console.error("Error updating communication preferences:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to update communication preferences" });
+      console.error("Error deleting privacy settings:", error);
+      res.status(500).json({ message: "Failed to delete privacy settings" });
     }
   });
 
-  // Admin: Get organization's marketing consents (admin/superadmin only)
-  app.get('/api/gdpr/marketing-consent/admin', requireAuth, async (req: any, res) => {
+  // GDPR Consent Routes (feature flag protected)
+  
+  // Get user's current consent status
+  app.get('/api/gdpr/consent', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2459,37 +2928,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
+      // Get current active consent for the user
+      const currentConsent = await storage.getCurrentUserConsent(currentUser.id, currentUser.organisationId);
+      
+      if (!currentConsent) {
+        return res.status(404).json({ message: "No consent record found" });
       }
 
-      const consents = await storage.getMarketingConsentsByOrganisation(currentUser.organisationId);
-
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_organization_marketing_consents',
-        resource: 'marketing_consent',
-        resourceId: 'organization_audit',
-        details: {
-          consentsCount: consents.length,
-          adminRole: currentUser.role
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
-
-      res.json(consents);
+      res.json(currentConsent);
     } catch (error: any) {
-      console.error("Error fetching organization marketing consents:", error);
-      res.status(500).json({ message: "Failed to fetch organization marketing consents" });
+      console.error("Error fetching consent:", error);
+      res.status(500).json({ message: "Failed to fetch consent status" });
     }
   });
 
-  // Admin: Get marketing campaigns
-  app.get('/api/gdpr/marketing-campaigns', requireAuth, async (req: any, res) => {
+  // Grant or update consent
+  app.post('/api/gdpr/consent', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2501,39 +2955,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
-      }
+      // Validate request body
+      const consentSchema = insertConsentRecordSchema.extend({
+        consentType: z.string().min(1, "Consent type is required"),
+        lawfulBasis: z.enum(['consent', 'contract', 'legal_obligation', 'vital_interests', 'public_task', 'legitimate_interests']),
+        purpose: z.string().min(1, "Purpose is required"),
+        policyVersion: z.string().min(1, "Policy version is required"),
+        marketingConsents: z.record(z.boolean()).optional().default({}),
+        cookieConsents: z.record(z.boolean()).optional().default({})
+      });
 
-      const status = req.query.status as string;
-      const campaigns = await storage.getMarketingCampaignsByOrganisation(currentUser.organisationId, status);
+      const consentData = consentSchema.parse(req.body);
 
-      // GDPR Audit Logging
-      await logGdprAudit({
+      // Create new consent record (immutable history)
+      const newConsent = await storage.createConsentRecord({
+        userId: currentUser.id,
         organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_marketing_campaigns',
-        resource: 'marketing_campaign',
-        resourceId: 'organization_campaigns',
-        details: {
-          campaignCount: campaigns.length,
-          filterStatus: status,
-          adminRole: currentUser.role
-        },
+        consentType: consentData.consentType,
+        status: 'granted',
+        lawfulBasis: consentData.lawfulBasis,
+        purpose: consentData.purpose,
+        timestamp: new Date(),
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
+        userAgent: req.get('User-Agent') || 'unknown',
+        policyVersion: consentData.policyVersion,
+        marketingConsents: consentData.marketingConsents || {},
+        cookieConsents: consentData.cookieConsents || {},
+        metadata: consentData.metadata || {}
       });
 
-      res.json(campaigns);
+      res.status(201).json(newConsent);
     } catch (error: any) {
-      console.error("Error fetching marketing campaigns:", error);
-      res.status(500).json({ message: "Failed to fetch marketing campaigns" });
+      console.error("Error creating consent record:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create consent record" });
     }
   });
 
-  // Admin: Create marketing campaign
-  app.post('/api/gdpr/marketing-campaigns', requireAuth, async (req: any, res) => {
+  // Withdraw consent
+  app.delete('/api/gdpr/consent/:id', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2545,61 +3007,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
+      const { id } = req.params;
+      
+      // Find the consent record
+      const existingConsent = await storage.getConsentRecord(id);
+      if (!existingConsent) {
+        return res.status(404).json({ message: "Consent record not found" });
       }
 
-      // Validate request body
-      const campaignSchema = z.object({
-        name: z.string().min(1, "Campaign name is required"),
-        campaignType: z.enum(['email', 'sms', 'phone', 'post', 'push']),
-        status: z.enum(['draft', 'scheduled', 'active', 'paused', 'completed', 'cancelled']).default('draft'),
-        requiredConsentTypes: z.array(z.string()).min(1, "At least one consent type is required"),
-        scheduledAt: z.string().optional(),
-        content: z.record(z.any()).optional(),
-        targetAudience: z.record(z.any()).optional(),
-      });
-
-      const campaignData = campaignSchema.parse(req.body);
+      // Check ownership - users can only withdraw their own consent
+      if (existingConsent.userId !== currentUser.id) {
+        return res.status(403).json({ message: "Access denied - can only withdraw your own consent" });
+      }
 
-      const campaign = await storage.createMarketingCampaign({
-        organisationId: currentUser.organisationId,
-        createdBy: currentUser.id,
-        ...campaignData,
-        complianceChecked: false, // Will be checked before sending
-      });
+      // Check organization scope
+      if (existingConsent.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied - consent belongs to different organization" });
+      }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'create_marketing_campaign',
-        resource: 'marketing_campaign',
-        resourceId: campaign.id,
-        details: {
-          campaignName: campaignData.name,
-          campaignType: campaignData.campaignType,
-          requiredConsentTypes: campaignData.requiredConsentTypes,
-          status: campaignData.status,
-          scheduledAt: campaignData.scheduledAt
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
+      // Mark as withdrawn (maintain immutable history)
+      const withdrawnConsent = await storage.updateConsentRecord(id, {
+        status: 'withdrawn',
+        withdrawnAt: new Date(),
+        metadata: {
+          ...existingConsent.metadata,
+          withdrawnByIp: req.ip || req.connection.remoteAddress || 'unknown',
+          withdrawnByUserAgent: req.get('User-Agent') || 'unknown'
+        }
       });
 
-      res.status(201).json(campaign);
+      res.json(withdrawnConsent);
     } catch (error: any) {
-      console.error("Error creating marketing campaign:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create marketing campaign" });
+      console.error("Error withdrawing consent:", error);
+      res.status(500).json({ message: "Failed to withdraw consent" });
     }
   });
 
-  // Admin: Get consent history and audit trail
-  app.get('/api/gdpr/consent-history', requireAuth, async (req: any, res) => {
+  // Get user's consent history (immutable log)
+  app.get('/api/gdpr/consent/history', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2611,90 +3056,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
-      }
+      // Get all consent records for the user (ordered by most recent first)
+      const consentHistory = await storage.getConsentRecordsByUser(currentUser.id);
+      
+      // Filter to only records for current organization (multi-tenant safety)
+      const orgConsentHistory = consentHistory.filter(
+        record => record.organisationId === currentUser.organisationId
+      );
 
-      const userId = req.query.userId as string;
-      const consentType = req.query.consentType as string;
+      res.json(orgConsentHistory);
+    } catch (error: any) {
+      console.error("Error fetching consent history:", error);
+      res.status(500).json({ message: "Failed to fetch consent history" });
+    }
+  });
 
-      let history;
-      if (userId) {
-        history = await storage.getConsentAuditTrail(userId, currentUser.organisationId, consentType);
-      } else {
-        // Get all history for the organization
-        history = await storage.getConsentHistoryByUser('', currentUser.organisationId);
+  // Admin endpoint: Get organization's consent records (for compliance auditing)
+  app.get('/api/gdpr/consent/admin', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_consent_history',
-        resource: 'marketing_consent',
-        resourceId: userId || 'organization_history',
-        details: {
-          historyCount: history.length,
-          targetUserId: userId,
-          consentTypeFilter: consentType,
-          adminRole: currentUser.role
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
+      // Get all consent records for the organization
+      const orgConsentRecords = await storage.getConsentRecordsByOrganisation(currentUser.organisationId);
 
-      res.json(history);
+      res.json(orgConsentRecords);
     } catch (error: any) {
-      console.error("Error fetching consent history:", error);
-      res.status(500).json({ message: "Failed to fetch consent history" });
+      console.error("Error fetching organization consent records:", error);
+      res.status(500).json({ message: "Failed to fetch consent records" });
     }
   });
 
-  // Admin: Get suppression list
-  app.get('/api/gdpr/suppression-list', requireAuth, async (req: any, res) => {
+  // Get current GDPR policy version
+  app.get('/api/gdpr/policy-version', async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
     
+    try {
+      const policyVersion = getCurrentPolicyVersion();
+      res.json({ 
+        policyVersion,
+        lastUpdated: new Date().toISOString() // Could be made dynamic if needed
+      });
+    } catch (error: any) {
+      console.error("Error fetching policy version:", error);
+      res.status(500).json({ message: "Failed to fetch policy version" });
+    }
+  });
+
+  // GDPR Cookie Inventory Routes (feature flag protected)
+  
+  // Get organization's cookie inventory
+  app.get('/api/gdpr/cookies', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
+      // For superadmin, require organisationId query parameter
+      let organisationId = currentUser.organisationId;
+      if (currentUser.role === 'superadmin') {
+        const queryOrgId = req.query.organisationId as string;
+        if (!queryOrgId) {
+          return res.status(400).json({ message: "organisationId parameter required for superadmin" });
+        }
+        organisationId = queryOrgId;
       }
 
-      const suppressionList = await storage.getSuppressionListByOrganisation(currentUser.organisationId);
+      if (!organisationId) {
+        return res.status(400).json({ message: "No organisation ID available" });
+      }
 
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_suppression_list',
-        resource: 'suppression_list',
-        resourceId: 'organization_list',
-        details: {
-          suppressionCount: suppressionList.length,
-          adminRole: currentUser.role
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
+      // Get optional category filter
+      const category = req.query.category as string;
+      
+      let cookies;
+      if (category) {
+        cookies = await storage.getCookieInventoriesByCategory(organisationId, category);
+      } else {
+        cookies = await storage.getCookieInventoriesByOrganisation(organisationId);
+      }
 
-      res.json(suppressionList);
+      res.json(cookies);
     } catch (error: any) {
-      console.error("Error fetching suppression list:", error);
-      res.status(500).json({ message: "Failed to fetch suppression list" });
+      console.error("Error fetching cookie inventory:", error);
+      res.status(500).json({ message: "Failed to fetch cookie inventory" });
     }
   });
 
-  // Admin: Add to suppression list
-  app.post('/api/gdpr/suppression-list', requireAuth, async (req: any, res) => {
+  // Create new cookie inventory entry
+  app.post('/api/gdpr/cookies', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      // For superadmin, use organisationId from request body; for admin, use their own
+      let organisationId = currentUser.organisationId;
+      if (currentUser.role === 'superadmin') {
+        if (!req.body.organisationId) {
+          return res.status(400).json({ message: "organisationId required in request body for superadmin" });
+        }
+        organisationId = req.body.organisationId;
+      }
+
+      if (!organisationId) {
+        return res.status(400).json({ message: "No organisation ID available" });
+      }
+
+      // Validate input using Zod schema
+      const cookieData = {
+        ...req.body,
+        organisationId
+      };
+
+      const validatedData = insertCookieInventorySchema.parse(cookieData);
+      const newCookie = await storage.createCookieInventory(validatedData);
+
+      res.status(201).json(newCookie);
+    } catch (error: any) {
+      console.error("Error creating cookie inventory:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create cookie inventory entry" });
+    }
+  });
+
+  // Update cookie inventory entry
+  app.patch('/api/gdpr/cookies/:id', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const cookieId = req.params.id;
+      
+      // Check if cookie exists and user has permission to edit it
+      const existingCookie = await storage.getCookieInventory(cookieId);
+      if (!existingCookie) {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
+
+      // For admin users, ensure they can only edit cookies from their organisation
+      if (currentUser.role !== 'superadmin' && existingCookie.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied - can only edit cookies from your organisation" });
+      }
+
+      // Remove organisationId from update data to prevent changing it
+      const { organisationId, ...updateData } = req.body;
+
+      // Validate partial update using Zod schema
+      const validatedData = insertCookieInventorySchema.partial().parse(updateData);
+      const updatedCookie = await storage.updateCookieInventory(cookieId, validatedData);
+
+      res.json(updatedCookie);
+    } catch (error: any) {
+      console.error("Error updating cookie inventory:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update cookie inventory entry" });
+    }
+  });
+
+  // Delete cookie inventory entry
+  app.delete('/api/gdpr/cookies/:id', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const cookieId = req.params.id;
+      
+      // Check if cookie exists and user has permission to delete it
+      const existingCookie = await storage.getCookieInventory(cookieId);
+      if (!existingCookie) {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
+
+      // For admin users, ensure they can only delete cookies from their organisation
+      if (currentUser.role !== 'superadmin' && existingCookie.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied - can only delete cookies from your organisation" });
+      }
+
+      await storage.deleteCookieInventory(cookieId);
+
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting cookie inventory:", error);
+      res.status(500).json({ message: "Failed to delete cookie inventory entry" });
+    }
+  });
+
+  // ===== PECR MARKETING CONSENT ROUTES =====
+
+  // Get user's marketing consent preferences
+  app.get('/api/gdpr/marketing-consent', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2706,61 +3278,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
-      }
-
-      // Validate request body
-      const suppressionSchema = z.object({
-        contacts: z.array(z.object({
-          email: z.string().email().optional(),
-          phone: z.string().optional(),
-        })).min(1, "At least one contact is required"),
-        reason: z.string().min(1, "Reason is required"),
-        channels: z.array(z.enum(['email', 'sms', 'phone', 'post', 'push'])).min(1, "At least one channel is required"),
-      });
-
-      const { contacts, reason, channels } = suppressionSchema.parse(req.body);
-
-      let addedCount = 0;
-      if (contacts.length === 1) {
-        const entry = await storage.addToSuppressionList(contacts[0], currentUser.organisationId, reason, channels);
-        addedCount = 1;
-      } else {
-        addedCount = await storage.bulkAddToSuppressionList(contacts, currentUser.organisationId, reason, channels);
-      }
+      // Get user's marketing consents
+      const marketingConsents = await storage.getMarketingConsentsByUser(currentUser.id, currentUser.organisationId);
+      
+      // Get communication preferences
+      const communicationPreferences = await storage.getCommunicationPreferencesByUser(currentUser.id, currentUser.organisationId);
 
       // GDPR Audit Logging
       await logGdprAudit({
         organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'add_to_suppression_list',
-        resource: 'suppression_list',
-        resourceId: 'bulk_add',
+        userId: currentUser.id,
+        action: 'view_marketing_consent',
+        resource: 'marketing_consent',
+        resourceId: 'user_preferences',
         details: {
-          contactsCount: contacts.length,
-          addedCount,
-          reason,
-          channels,
-          adminRole: currentUser.role
+          consentsCount: marketingConsents.length,
+          preferencesCount: communicationPreferences.length
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.status(201).json({ addedCount, message: `${addedCount} contacts added to suppression list` });
+      res.json({
+        marketingConsents,
+        communicationPreferences
+      });
     } catch (error: any) {
-      console.error("Error adding to suppression list:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to add to suppression list" });
+      console.error("Error fetching marketing consent:", error);
+      res.status(500).json({ message: "Failed to fetch marketing consent preferences" });
     }
   });
 
-  // Admin: PECR compliance report
-  app.get('/api/gdpr/marketing-consent/compliance', requireAuth, async (req: any, res) => {
+  // Update user's marketing consent preferences
+  app.post('/api/gdpr/marketing-consent', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -2772,673 +3322,586 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin or superadmin
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Admin privileges required" });
-      }
-
-      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Default 30 days ago
-      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
-
-      // Get consent history report
-      const consentReport = await storage.getConsentHistoryReport(currentUser.organisationId, startDate, endDate);
-      
-      // Get active marketing consents
-      const activeConsents = await storage.getMarketingConsentsByOrganisation(currentUser.organisationId);
-      const activeConsentsByType = activeConsents
-        .filter(c => c.consentStatus === 'granted')
-        .reduce((acc, consent) => {
-          acc[consent.consentType] = (acc[consent.consentType] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
+      // Validate request body
+      const consentSchema = z.object({
+        consentType: z.enum(['email_marketing', 'sms_marketing', 'phone_marketing', 'post_marketing', 'push_marketing']),
+        consentStatus: z.enum(['granted', 'withdrawn']),
+        consentSource: z.enum(['website_form', 'email_signup', 'phone_call', 'in_person', 'api']),
+        evidenceType: z.enum(['checkbox', 'email_confirmation', 'verbal_agreement', 'written_form', 'api_request']).optional(),
+        communicationFrequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'occasional']).optional(),
+      });
 
-      // Get suppression list stats
-      const suppressionList = await storage.getSuppressionListByOrganisation(currentUser.organisationId);
-      const suppressionByChannel = suppressionList.reduce((acc, item) => {
-        item.channels.forEach(channel => {
-          acc[channel] = (acc[channel] || 0) + 1;
-        });
-        return acc;
-      }, {} as Record<string, number>);
+      const consentData = consentSchema.parse(req.body);
 
-      const complianceReport = {
-        reportPeriod: { startDate, endDate },
-        consentActivity: consentReport,
-        activeConsents: {
-          total: activeConsents.filter(c => c.consentStatus === 'granted').length,
-          byType: activeConsentsByType
-        },
-        suppressionList: {
-          total: suppressionList.length,
-          byChannel: suppressionByChannel
-        },
-        pecrCompliance: {
-          optInRate: consentReport.totalGrants / (consentReport.totalGrants + consentReport.totalWithdrawals) * 100,
-          withdrawalRate: consentReport.totalWithdrawals / (consentReport.totalGrants + consentReport.totalWithdrawals) * 100,
-          evidenceCollection: activeConsents.filter(c => c.consentEvidence).length / activeConsents.length * 100
-        }
-      };
+      // Check if consent already exists
+      const existingConsent = await storage.getMarketingConsentByUserAndType(
+        currentUser.id, 
+        currentUser.organisationId, 
+        consentData.consentType
+      );
+
+      let resultConsent;
+      if (existingConsent) {
+        // Update existing consent
+        resultConsent = await storage.updateMarketingConsent(existingConsent.id, {
+          consentStatus: consentData.consentStatus,
+          consentSource: consentData.consentSource,
+          evidenceType: consentData.evidenceType,
+          communicationFrequency: consentData.communicationFrequency,
+          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+          userAgent: req.get('User-Agent') || 'unknown',
+        });
+      } else {
+        // Create new consent
+        resultConsent = await storage.createMarketingConsent({
+          userId: currentUser.id,
+          organisationId: currentUser.organisationId,
+          consentType: consentData.consentType,
+          consentStatus: consentData.consentStatus,
+          lawfulBasis: 'consent',
+          consentSource: consentData.consentSource,
+          evidenceType: consentData.evidenceType,
+          consentGivenAt: new Date().toISOString(),
+          communicationFrequency: consentData.communicationFrequency,
+          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+          userAgent: req.get('User-Agent') || 'unknown',
+        });
+      }
 
       // GDPR Audit Logging
       await logGdprAudit({
         organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_pecr_compliance_report',
+        userId: currentUser.id,
+        action: existingConsent ? 'update_marketing_consent' : 'grant_marketing_consent',
         resource: 'marketing_consent',
-        resourceId: 'compliance_report',
+        resourceId: resultConsent.id,
         details: {
-          reportPeriod: { startDate, endDate },
-          totalConsents: activeConsents.length,
-          totalSuppressions: suppressionList.length,
-          adminRole: currentUser.role
+          consentType: consentData.consentType,
+          consentStatus: consentData.consentStatus,
+          consentSource: consentData.consentSource,
+          isUpdate: !!existingConsent
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(complianceReport);
+      res.json(resultConsent);
     } catch (error: any) {
-      console.error("Error generating PECR compliance report:", error);
-      res.status(500).json({ message: "Failed to generate PECR compliance report" });
+      console.error("Error updating marketing consent:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update marketing consent" });
     }
   });
 
-  // ===== GDPR USER RIGHTS REQUEST ROUTES =====
-
-  // Get user's own rights requests
-  app.get('/api/gdpr/user-rights', requireAuth, async (req: any, res) => {
+  // Withdraw specific marketing consent
+  app.post('/api/gdpr/marketing-consent/withdraw', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
-
+    
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Enhanced RBAC validation
-      const accessValidation = await validateUserRightsAccess(currentUser, null, 'view');
-      if (!accessValidation.authorized) {
-        return res.status(403).json({ message: accessValidation.error });
+      // Validate request body
+      const withdrawSchema = z.object({
+        consentType: z.enum(['email_marketing', 'sms_marketing', 'phone_marketing', 'post_marketing', 'push_marketing']),
+        withdrawalReason: z.string().optional()
+      });
+
+      const { consentType, withdrawalReason } = withdrawSchema.parse(req.body);
+
+      // Find existing consent
+      const existingConsent = await storage.getMarketingConsentByUserAndType(
+        currentUser.id, 
+        currentUser.organisationId, 
+        consentType
+      );
+
+      if (!existingConsent) {
+        return res.status(404).json({ message: "Marketing consent not found" });
       }
 
-      const requests = await storage.getUserRightRequestsByUser(currentUser.id);
-      
-      // Enhance requests with SLA status
-      const enhancedRequests = requests.map(request => ({
-        ...request,
-        ...calculateSlaStatus(request.requestedAt, request.verifiedAt)
-      }));
+      if (existingConsent.consentStatus === 'withdrawn') {
+        return res.status(400).json({ message: "Consent already withdrawn" });
+      }
 
-      // GDPR Audit Logging - View own requests
+      // Withdraw consent
+      const withdrawnConsent = await storage.withdrawMarketingConsent(existingConsent.id, withdrawalReason);
+
+      // Add to suppression list
+      if (currentUser.email) {
+        await storage.addToSuppressionList(
+          { email: currentUser.email },
+          currentUser.organisationId,
+          `Marketing consent withdrawn: ${withdrawalReason || 'User request'}`,
+          [consentType.replace('_marketing', '')]
+        );
+      }
+
+      // GDPR Audit Logging
       await logGdprAudit({
-        organisationId: currentUser.organisationId!,
+        organisationId: currentUser.organisationId,
         userId: currentUser.id,
-        action: 'view_own_user_rights_requests',
-        resource: 'user_rights_request',
-        resourceId: 'list',
+        action: 'withdraw_marketing_consent',
+        resource: 'marketing_consent',
+        resourceId: withdrawnConsent.id,
         details: {
-          requestCount: requests.length,
-          userRole: currentUser.role
+          consentType,
+          withdrawalReason,
+          addedToSuppressionList: !!currentUser.email
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(enhancedRequests);
+      res.json(withdrawnConsent);
     } catch (error: any) {
-      console.error("Error fetching user rights requests:", error);
-      res.status(500).json({ message: "Failed to fetch user rights requests" });
+      console.error("Error withdrawing marketing consent:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to withdraw marketing consent" });
     }
   });
 
-  // Submit new user rights request
-  app.post('/api/gdpr/user-rights', requireAuth, async (req: any, res) => {
+  // Get/Update communication preferences
+  app.get('/api/gdpr/communication-preferences', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
-
+    
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!currentUser.organisationId) {
-        return res.status(400).json({ message: "User must belong to an organisation to submit requests" });
-      }
+      const preferences = await storage.getCommunicationPreferencesByUser(currentUser.id, currentUser.organisationId);
 
-      // Enhanced RBAC validation
-      const accessValidation = await validateUserRightsAccess(currentUser, null, 'create');
-      if (!accessValidation.authorized) {
-        return res.status(403).json({ message: accessValidation.error });
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        userId: currentUser.id,
+        action: 'view_communication_preferences',
+        resource: 'communication_preferences',
+        resourceId: 'user_preferences',
+        details: {
+          preferencesCount: preferences.length
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.json(preferences);
+    } catch (error: any) {
+      console.error("Error fetching communication preferences:", error);
+      res.status(500).json({ message: "Failed to fetch communication preferences" });
+    }
+  });
+
+  app.post('/api/gdpr/communication-preferences', requireAuth, async (req: any, res) => {
+    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
+    if (!isGdprEnabled()) {
+      return res.status(404).json({ message: "Endpoint not found" });
+    }
+    
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
       // Validate request body
-      const requestSchema = insertUserRightRequestSchema.omit({
-        id: true,
-        userId: true,
-        organisationId: true,
-        status: true,
-        requestedAt: true,
-        verifiedAt: true,
-        processedAt: true,
-        completedAt: true,
-        adminNotes: true,
-        createdAt: true,
-        updatedAt: true
-      }).extend({
-        type: z.enum(['access', 'rectification', 'erasure', 'restriction', 'objection', 'portability']),
-        description: z.string().min(10, "Please provide at least 10 characters describing your request"),
+      const preferencesSchema = z.object({
+        preferences: z.array(z.object({
+          communicationType: z.enum(['service_essential', 'service_updates', 'marketing', 'newsletter', 'promotional']),
+          channel: z.enum(['email', 'sms', 'phone', 'post', 'push']),
+          isEnabled: z.boolean(),
+          frequency: z.enum(['immediate', 'daily', 'weekly', 'monthly', 'quarterly']).optional(),
+        })),
+        globalOptOut: z.boolean().optional()
       });
 
-      const requestData = requestSchema.parse(req.body);
+      const { preferences: preferencesUpdates, globalOptOut } = preferencesSchema.parse(req.body);
 
-      // Check for existing pending/in-progress request of same type
-      const existingRequest = await storage.getUserRightRequestPending(currentUser.id, requestData.type);
-      if (existingRequest) {
-        return res.status(409).json({ 
-          message: `You already have a ${requestData.type} request in progress`,
-          existingRequestId: existingRequest.id 
-        });
+      // Handle global opt-out
+      if (globalOptOut !== undefined) {
+        for (const pref of preferencesUpdates) {
+          pref.globalOptOut = globalOptOut;
+        }
       }
 
-      // Create new request with SLA tracking and audit metadata
-      const now = new Date();
-      const slaInfo = calculateSlaStatus(now);
-      
-      const newRequest = await storage.createUserRightRequest({
-        userId: currentUser.id,
-        organisationId: currentUser.organisationId,
-        type: requestData.type as any,
-        description: requestData.description,
-        rejectionReason: requestData.rejectionReason || null,
-        attachments: requestData.attachments || [],
-        metadata: {
-          ...requestData.metadata || {},
-          slaInfo,
-          requestSource: 'user_portal',
-          clientIp: req.ip || req.connection.remoteAddress,
-          userAgent: req.get('User-Agent')
-        }
-      });
+      // Bulk update preferences
+      const updatedPreferences = await storage.bulkUpdateCommunicationPreferences(
+        currentUser.id,
+        currentUser.organisationId,
+        preferencesUpdates
+      );
 
-      // GDPR Audit Logging - Request Creation
+      // GDPR Audit Logging
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         userId: currentUser.id,
-        action: 'create_user_rights_request',
-        resource: 'user_rights_request',
-        resourceId: newRequest.id,
+        action: 'update_communication_preferences',
+        resource: 'communication_preferences',
+        resourceId: 'bulk_update',
         details: {
-          requestType: requestData.type,
-          description: requestData.description,
-          slaInfo,
-          legalBasis: 'GDPR_Article_12_13_15_16_17_18_20_21' // Legal framework basis
+          updatedCount: updatedPreferences.length,
+          globalOptOut,
+          preferences: preferencesUpdates.map(p => ({ type: p.communicationType, channel: p.channel, enabled: p.isEnabled }))
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      // Enhance response with SLA information
-      const enhancedRequest = {
-        ...newRequest,
-        ...slaInfo
-      };
-
-      res.status(201).json(enhancedRequest);
+      res.json(updatedPreferences);
     } catch (error: any) {
-      console.error("Error creating user rights request:", error);
-      if (error.name === 'ZodError') {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: error.errors 
-        });
+      console.error("Error updating communication preferences:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create user rights request" });
+      res.status(500).json({ message: "Failed to update communication preferences" });
     }
   });
 
-  // Admin: Get all user rights requests for organisation
-  app.get('/api/gdpr/user-rights/admin', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  // Admin: Get organization's marketing consents (admin/superadmin only)
+  app.get('/api/gdpr/marketing-consent/admin', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
-      }
-
-      // Enhanced RBAC validation for admin operations
-      const accessValidation = await validateUserRightsAccess(currentUser, null, 'view');
-      if (!accessValidation.authorized) {
-        return res.status(403).json({ message: accessValidation.error });
-      }
-
-      // RBAC: Only admins and superadmins can view organisation requests
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
-      }
-
-      const { type, status, search, limit = '50', offset = '0' } = req.query;
-
-      // Enhanced organization scoping with security controls
-      let organisationId = currentUser.organisationId;
-      let isAccessingOtherOrg = false;
-
-      if (currentUser.role === 'superadmin') {
-        // SuperAdmin organization scoping with audit requirements
-        const requestedOrgId = req.query.organisationId as string;
-        
-        if (requestedOrgId && requestedOrgId !== currentUser.organisationId) {
-          // Accessing another organization's data - requires explicit audit
-          organisationId = requestedOrgId;
-          isAccessingOtherOrg = true;
-          
-          // Verify the target organization exists
-          const targetOrg = await storage.getOrganisation(organisationId);
-          if (!targetOrg) {
-            return res.status(404).json({ message: "Target organisation not found" });
-          }
-        } else {
-          // Default to SuperAdmin's own organization if not specified
-          organisationId = currentUser.organisationId;
-        }
-      } else if (currentUser.role === 'admin') {
-        // Admin can ONLY access their own organization's data
-        organisationId = currentUser.organisationId;
-        
-        if (req.query.organisationId && req.query.organisationId !== organisationId) {
-          return res.status(403).json({ 
-            message: "Access denied - cannot access other organisations' GDPR data" 
-          });
-        }
-      }
-
-      if (!organisationId) {
-        return res.status(400).json({ message: "Organisation ID required" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      const filters = {
-        type: type as string,
-        status: status as string,
-        search: search as string,
-        limit: Math.min(parseInt(limit as string, 10), 100), // Security limit
-        offset: Math.max(parseInt(offset as string, 10), 0)
-      };
-
-      const requests = await storage.getUserRightRequestsWithFilters(organisationId, filters);
-
-      // Enhance requests with SLA status and compliance information
-      const enhancedRequests = requests.map(request => {
-        const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
-        return {
-          ...request,
-          ...slaStatus,
-          complianceStatus: slaStatus.isOverdue ? 'non_compliant' : 'compliant'
-        };
-      });
+      const consents = await storage.getMarketingConsentsByOrganisation(currentUser.organisationId);
 
-      // GDPR Audit Logging - Admin viewing organization requests
+      // GDPR Audit Logging
       await logGdprAudit({
-        organisationId,
+        organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: isAccessingOtherOrg ? 'superadmin_view_org_user_rights_requests' : 'admin_view_user_rights_requests',
-        resource: 'user_rights_request',
-        resourceId: 'admin_list',
+        action: 'view_organization_marketing_consents',
+        resource: 'marketing_consent',
+        resourceId: 'organization_audit',
         details: {
-          requestCount: requests.length,
-          adminRole: currentUser.role,
-          targetOrgId: organisationId,
-          isAccessingOtherOrg,
-          filters,
-          overdueCount: enhancedRequests.filter(r => r.isOverdue).length,
-          complianceStatus: enhancedRequests.some(r => r.isOverdue) ? 'has_overdue_requests' : 'all_compliant'
+          consentsCount: consents.length,
+          adminRole: currentUser.role
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      // Add compliance metadata to response
-      const responseData = {
-        requests: enhancedRequests,
-        metadata: {
-          totalRequests: enhancedRequests.length,
-          overdueRequests: enhancedRequests.filter(r => r.isOverdue).length,
-          urgentRequests: enhancedRequests.filter(r => r.slaStatus === 'urgent').length,
-          complianceOverview: {
-            compliant: enhancedRequests.filter(r => !r.isOverdue).length,
-            overdue: enhancedRequests.filter(r => r.isOverdue).length,
-            totalProcessed: enhancedRequests.filter(r => r.status === 'completed').length
-          }
-        }
-      };
-
-      res.json(responseData);
+      res.json(consents);
     } catch (error: any) {
-      console.error("Error fetching admin user rights requests:", error);
-      res.status(500).json({ message: "Failed to fetch user rights requests" });
+      console.error("Error fetching organization marketing consents:", error);
+      res.status(500).json({ message: "Failed to fetch organization marketing consents" });
     }
   });
 
-  // Get individual user rights request details
-  app.get('/api/gdpr/user-rights/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  // Admin: Get marketing campaigns
+  app.get('/api/gdpr/marketing-campaigns', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
-      }
-
-      const requestId = req.params.id;
-
-      // Enhanced RBAC validation for viewing individual requests
-      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'view');
-      if (!accessValidation.authorized) {
-        return res.status(403).json({ message: accessValidation.error });
-      }
-
-      const request = accessValidation.targetRequest!;
-
-      // Additional security validations
-      if (!request) {
-        return res.status(404).json({ message: "User rights request not found" });
-      }
-
-      // Role-based access control for individual request viewing
-      if (currentUser.role === 'user' && request.userId !== currentUser.id) {
-        return res.status(403).json({ message: "Access denied - can only view your own requests" });
-      }
-
-      if (currentUser.role === 'admin' && request.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ 
-          message: "Access denied - cannot view requests from outside your organization" 
-        });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Calculate current SLA status for the response
-      const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
-
-      // Enhance request with SLA information and compliance status
-      const enhancedRequest = {
-        ...request,
-        ...slaStatus,
-        complianceStatus: slaStatus.isOverdue ? 'non_compliant' : 'compliant',
-        availableActions: getAvailableActions(request.status, currentUser.role)
-      };
+      const status = req.query.status as string;
+      const campaigns = await storage.getMarketingCampaignsByOrganisation(currentUser.organisationId, status);
 
-      // GDPR Audit Logging - View individual request
+      // GDPR Audit Logging
       await logGdprAudit({
-        organisationId: request.organisationId,
-        userId: currentUser.role === 'user' ? currentUser.id : undefined,
-        adminId: ['admin', 'superadmin'].includes(currentUser.role) ? currentUser.id : undefined,
-        action: currentUser.role === 'user' ? 'view_own_user_rights_request' : 'admin_view_user_rights_request',
-        resource: 'user_rights_request',
-        resourceId: requestId,
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'view_marketing_campaigns',
+        resource: 'marketing_campaign',
+        resourceId: 'organization_campaigns',
         details: {
-          requestType: request.type,
-          requestStatus: request.status,
-          targetUserId: request.userId,
-          viewedByRole: currentUser.role,
-          slaStatus,
-          complianceStatus: slaStatus.isOverdue ? 'SLA_BREACH_DETECTED' : 'COMPLIANT',
-          isAccessingOwnRequest: currentUser.id === request.userId
+          campaignCount: campaigns.length,
+          filterStatus: status,
+          adminRole: currentUser.role
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(enhancedRequest);
+      res.json(campaigns);
     } catch (error: any) {
-      console.error("Error fetching user rights request:", error);
-      res.status(500).json({ message: "Failed to fetch user rights request" });
+      console.error("Error fetching marketing campaigns:", error);
+      res.status(500).json({ message: "Failed to fetch marketing campaigns" });
     }
   });
 
-  // Admin: Process/update user rights request
-  app.patch('/api/gdpr/user-rights/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
+  // Admin: Create marketing campaign
+  app.post('/api/gdpr/marketing-campaigns', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      // Validate request body
+      const campaignSchema = z.object({
+        name: z.string().min(1, "Campaign name is required"),
+        campaignType: z.enum(['email', 'sms', 'phone', 'post', 'push']),
+        status: z.enum(['draft', 'scheduled', 'active', 'paused', 'completed', 'cancelled']).default('draft'),
+        requiredConsentTypes: z.array(z.string()).min(1, "At least one consent type is required"),
+        scheduledAt: z.string().optional(),
+        content: z.record(z.any()).optional(),
+        targetAudience: z.record(z.any()).optional(),
+      });
+
+      const campaignData = campaignSchema.parse(req.body);
+
+      const campaign = await storage.createMarketingCampaign({
+        organisationId: currentUser.organisationId,
+        createdBy: currentUser.id,
+        ...campaignData,
+        complianceChecked: false, // Will be checked before sending
+      });
+
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'create_marketing_campaign',
+        resource: 'marketing_campaign',
+        resourceId: campaign.id,
+        details: {
+          campaignName: campaignData.name,
+          campaignType: campaignData.campaignType,
+          requiredConsentTypes: campaignData.requiredConsentTypes,
+          status: campaignData.status,
+          scheduledAt: campaignData.scheduledAt
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.status(201).json(campaign);
+    } catch (error: any) {
+      console.error("Error creating marketing campaign:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create marketing campaign" });
     }
+  });
 
+  // Admin: Get consent history and audit trail
+  app.get('/api/gdpr/consent-history', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      const requestId = req.params.id;
+      const userId = req.query.userId as string;
+      const consentType = req.query.consentType as string;
 
-      // Enhanced RBAC validation with comprehensive security checks
-      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'process');
-      if (!accessValidation.authorized) {
-        return res.status(403).json({ message: accessValidation.error });
+      let history;
+      if (userId) {
+        history = await storage.getConsentAuditTrail(userId, currentUser.organisationId, consentType);
+      } else {
+        // Get all history for the organization
+        history = await storage.getConsentHistoryByUser('', currentUser.organisationId);
       }
 
-      const existingRequest = accessValidation.targetRequest!;
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'view_consent_history',
+        resource: 'marketing_consent',
+        resourceId: userId || 'organization_history',
+        details: {
+          historyCount: history.length,
+          targetUserId: userId,
+          consentTypeFilter: consentType,
+          adminRole: currentUser.role
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
-      // Additional RBAC: Only admins and superadmins can process requests
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - insufficient privileges" });
-      }
+      res.json(history);
+    } catch (error: any) {
+      console.error("Error fetching consent history:", error);
+      res.status(500).json({ message: "Failed to fetch consent history" });
+    }
+  });
 
-      // Organization scoping validation (already handled in validateUserRightsAccess but double-check)
-      if (currentUser.role === 'admin' && existingRequest.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ 
-          message: "Access denied - cannot process requests outside your organization" 
-        });
+  // Admin: Get suppression list
+  app.get('/api/gdpr/suppression-list', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { action, adminNotes, rejectionReason, attachments } = req.body;
+      const suppressionList = await storage.getSuppressionListByOrganisation(currentUser.organisationId);
 
-      // Validate action is allowed for current request status
-      const validTransitions = {
-        'pending': ['verify', 'reject', 'update'],
-        'in_progress': ['complete', 'reject', 'update'],
-        'completed': ['update'], // Only updates allowed on completed
-        'rejected': ['update'] // Only updates allowed on rejected
-      };
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'view_suppression_list',
+        resource: 'suppression_list',
+        resourceId: 'organization_list',
+        details: {
+          suppressionCount: suppressionList.length,
+          adminRole: currentUser.role
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
-      if (!validTransitions[existingRequest.status]?.includes(action)) {
-        return res.status(400).json({ 
-          message: `Invalid action '${action}' for request status '${existingRequest.status}'` 
-        });
+      res.json(suppressionList);
+    } catch (error: any) {
+      console.error("Error fetching suppression list:", error);
+      res.status(500).json({ message: "Failed to fetch suppression list" });
+    }
+  });
+
+  // Admin: Add to suppression list
+  app.post('/api/gdpr/suppression-list', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Calculate current SLA status before processing
-      const currentSla = calculateSlaStatus(existingRequest.requestedAt, existingRequest.verifiedAt);
+      // Validate request body
+      const suppressionSchema = z.object({
+        contacts: z.array(z.object({
+          email: z.string().email().optional(),
+          phone: z.string().optional(),
+        })).min(1, "At least one contact is required"),
+        reason: z.string().min(1, "Reason is required"),
+        channels: z.array(z.enum(['email', 'sms', 'phone', 'post', 'push'])).min(1, "At least one channel is required"),
+      });
 
-      let updatedRequest;
-      const processingTimestamp = new Date();
+      const { contacts, reason, channels } = suppressionSchema.parse(req.body);
 
-      switch (action) {
-        case 'verify':
-          // Mark as verified and move to in_progress with SLA reset
-          updatedRequest = await storage.updateUserRightRequest(requestId, {
-            status: 'in_progress',
-            verifiedAt: processingTimestamp,
-            adminNotes,
-            metadata: {
-              ...existingRequest.metadata || {},
-              verifiedBy: currentUser.id,
-              verificationTimestamp: processingTimestamp.toISOString(),
-              slaResetDue: calculateSlaStatus(processingTimestamp, processingTimestamp) // SLA resets from verification date
-            }
-          });
+      let addedCount = 0;
+      if (contacts.length === 1) {
+        const entry = await storage.addToSuppressionList(contacts[0], currentUser.organisationId, reason, channels);
+        addedCount = 1;
+      } else {
+        addedCount = await storage.bulkAddToSuppressionList(contacts, currentUser.organisationId, reason, channels);
+      }
 
-          // GDPR Audit Logging - Request Verification
-          await logGdprAudit({
-            organisationId: existingRequest.organisationId,
-            adminId: currentUser.id,
-            action: 'verify_user_rights_request',
-            resource: 'user_rights_request',
-            resourceId: requestId,
-            details: {
-              requestType: existingRequest.type,
-              previousStatus: existingRequest.status,
-              newStatus: 'in_progress',
-              adminNotes,
-              slaStatusBefore: currentSla,
-              slaStatusAfter: calculateSlaStatus(processingTimestamp, processingTimestamp),
-              legalCompliance: currentSla.isOverdue ? 'OVERDUE_PROCESSED' : 'ON_TIME'
-            },
-            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-            userAgent: req.get('User-Agent') || 'unknown'
-          });
-          break;
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'add_to_suppression_list',
+        resource: 'suppression_list',
+        resourceId: 'bulk_add',
+        details: {
+          contactsCount: contacts.length,
+          addedCount,
+          reason,
+          channels,
+          adminRole: currentUser.role
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
-        case 'complete':
-          // Mark as completed with compliance tracking
-          updatedRequest = await storage.updateUserRightRequest(requestId, {
-            status: 'completed',
-            completedAt: processingTimestamp,
-            adminNotes,
-            attachments,
-            metadata: {
-              ...existingRequest.metadata || {},
-              completedBy: currentUser.id,
-              completionTimestamp: processingTimestamp.toISOString(),
-              finalSlaStatus: currentSla,
-              complianceStatus: currentSla.isOverdue ? 'completed_overdue' : 'completed_on_time'
-            }
-          });
+      res.status(201).json({ addedCount, message: `${addedCount} contacts added to suppression list` });
+    } catch (error: any) {
+      console.error("Error adding to suppression list:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add to suppression list" });
+    }
+  });
 
-          // GDPR Audit Logging - Request Completion
-          await logGdprAudit({
-            organisationId: existingRequest.organisationId,
-            adminId: currentUser.id,
-            action: 'complete_user_rights_request',
-            resource: 'user_rights_request',
-            resourceId: requestId,
-            details: {
-              requestType: existingRequest.type,
-              previousStatus: existingRequest.status,
-              newStatus: 'completed',
-              adminNotes,
-              attachments: attachments || [],
-              slaStatus: currentSla,
-              complianceStatus: currentSla.isOverdue ? 'LATE_COMPLETION' : 'ON_TIME_COMPLETION',
-              processingDays: Math.ceil((processingTimestamp.getTime() - new Date(existingRequest.requestedAt).getTime()) / (1000 * 60 * 60 * 24))
-            },
-            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-            userAgent: req.get('User-Agent') || 'unknown'
-          });
-          break;
-
-        case 'reject':
-          // Mark as rejected with comprehensive justification
-          if (!rejectionReason) {
-            return res.status(400).json({ message: "Rejection reason is required for legal compliance" });
-          }
-          
-          updatedRequest = await storage.updateUserRightRequest(requestId, {
-            status: 'rejected',
-            completedAt: processingTimestamp,
-            adminNotes,
-            rejectionReason,
-            attachments,
-            metadata: {
-              ...existingRequest.metadata || {},
-              rejectedBy: currentUser.id,
-              rejectionTimestamp: processingTimestamp.toISOString(),
-              rejectionJustification: rejectionReason,
-              finalSlaStatus: currentSla
-            }
-          });
-
-          // GDPR Audit Logging - Request Rejection (critical for accountability)
-          await logGdprAudit({
-            organisationId: existingRequest.organisationId,
-            adminId: currentUser.id,
-            action: 'reject_user_rights_request',
-            resource: 'user_rights_request',
-            resourceId: requestId,
-            details: {
-              requestType: existingRequest.type,
-              previousStatus: existingRequest.status,
-              newStatus: 'rejected',
-              rejectionReason,
-              adminNotes,
-              slaStatus: currentSla,
-              legalJustification: rejectionReason,
-              complianceStatus: currentSla.isOverdue ? 'REJECTED_AFTER_SLA' : 'REJECTED_WITHIN_SLA'
-            },
-            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-            userAgent: req.get('User-Agent') || 'unknown'
-          });
-          break;
-
-        case 'update':
-          // General update with audit trail
-          const updateData: any = {};
-          if (adminNotes !== undefined) updateData.adminNotes = adminNotes;
-          if (attachments !== undefined) updateData.attachments = attachments;
-          
-          updatedRequest = await storage.updateUserRightRequest(requestId, {
-            ...updateData,
-            metadata: {
-              ...existingRequest.metadata || {},
-              lastUpdatedBy: currentUser.id,
-              lastUpdateTimestamp: processingTimestamp.toISOString()
-            }
-          });
+  // Admin: PECR compliance report
+  app.get('/api/gdpr/marketing-consent/compliance', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
 
-          // GDPR Audit Logging - Request Update
-          await logGdprAudit({
-            organisationId: existingRequest.organisationId,
-            adminId: currentUser.id,
-            action: 'update_user_rights_request',
-            resource: 'user_rights_request',
-            resourceId: requestId,
-            details: {
-              requestType: existingRequest.type,
-              status: existingRequest.status,
-              updatesApplied: updateData,
-              adminNotes,
-              slaStatus: currentSla
-            },
-            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-            userAgent: req.get('User-Agent') || 'unknown'
-          });
-          break;
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Default 30 days ago
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
 
-        default:
-          return res.status(400).json({ 
-            message: "Invalid action. Must be one of: verify, complete, reject, update" 
-          });
-      }
+      // Get consent history report
+      const consentReport = await storage.getConsentHistoryReport(currentUser.organisationId, startDate, endDate);
+      
+      // Get active marketing consents
+      const activeConsents = await storage.getMarketingConsentsByOrganisation(currentUser.organisationId);
+      const activeConsentsByType = activeConsents
+        .filter(c => c.consentStatus === 'granted')
+        .reduce((acc, consent) => {
+          acc[consent.consentType] = (acc[consent.consentType] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>);
 
-      // Enhance response with current SLA information
-      const finalSlaStatus = action === 'verify' 
-        ? calculateSlaStatus(processingTimestamp, processingTimestamp) // Reset SLA from verification
-        : calculateSlaStatus(new Date(existingRequest.requestedAt), existingRequest.verifiedAt);
+      // Get suppression list stats
+      const suppressionList = await storage.getSuppressionListByOrganisation(currentUser.organisationId);
+      const suppressionByChannel = suppressionList.reduce((acc, item) => {
+        item.channels.forEach(channel => {
+          acc[channel] = (acc[channel] || 0) + 1;
+        });
+        return acc;
+      }, {} as Record<string, number>);
 
-      const enhancedResponse = {
-        ...updatedRequest,
-        ...finalSlaStatus,
-        complianceStatus: finalSlaStatus.isOverdue ? 'non_compliant' : 'compliant'
+      const complianceReport = {
+        reportPeriod: { startDate, endDate },
+        consentActivity: consentReport,
+        activeConsents: {
+          total: activeConsents.filter(c => c.consentStatus === 'granted').length,
+          byType: activeConsentsByType
+        },
+        suppressionList: {
+          total: suppressionList.length,
+          byChannel: suppressionByChannel
+        },
+        pecrCompliance: {
+          optInRate: consentReport.totalGrants / (consentReport.totalGrants + consentReport.totalWithdrawals) * 100,
+          withdrawalRate: consentReport.totalWithdrawals / (consentReport.totalGrants + consentReport.totalWithdrawals) * 100,
+          evidenceCollection: activeConsents.filter(c => c.consentEvidence).length / activeConsents.length * 100
+        }
       };
 
-      res.json(enhancedResponse);
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'view_pecr_compliance_report',
+        resource: 'marketing_consent',
+        resourceId: 'compliance_report',
+        details: {
+          reportPeriod: { startDate, endDate },
+          totalConsents: activeConsents.length,
+          totalSuppressions: suppressionList.length,
+          adminRole: currentUser.role
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.json(complianceReport);
     } catch (error: any) {
-      console.error("Error processing user rights request:", error);
-      res.status(500).json({ message: "Failed to process user rights request" });
+      console.error("Error generating PECR compliance report:", error);
+      res.status(500).json({ message: "Failed to generate PECR compliance report" });
     }
   });
 
-  // Data export for access/portability requests
-  app.get('/api/gdpr/user-rights/:id/export', requireAuth, async (req: any, res) => {
+  // ===== GDPR USER RIGHTS REQUEST ROUTES =====
+
+  // Get user's own rights requests
+  app.get('/api/gdpr/user-rights', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
     if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
@@ -3450,1311 +3913,1349 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not found" });
       }
 
-      const requestId = req.params.id;
-
-      // Enhanced RBAC validation for data export operations
-      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'export');
+      // Enhanced RBAC validation
+      const accessValidation = await validateUserRightsAccess(currentUser, null, 'view');
       if (!accessValidation.authorized) {
         return res.status(403).json({ message: accessValidation.error });
       }
 
-      const request = accessValidation.targetRequest!;
+      const requests = await storage.getUserRightRequestsByUser(currentUser.id);
+      
+      // Enhance requests with SLA status
+      const enhancedRequests = requests.map(request => ({
+        ...request,
+        ...calculateSlaStatus(request.requestedAt, request.verifiedAt)
+      }));
 
-      // Additional security validations
-      if (!request) {
-        return res.status(404).json({ message: "User rights request not found" });
-      }
+      // GDPR Audit Logging - View own requests
+      await logGdprAudit({
+        organisationId: currentUser.organisationId!,
+        userId: currentUser.id,
+        action: 'view_own_user_rights_requests',
+        resource: 'user_rights_request',
+        resourceId: 'list',
+        details: {
+          requestCount: requests.length,
+          userRole: currentUser.role
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
-      // Enhanced permission checks with comprehensive RBAC
-      if (currentUser.role === 'user' && request.userId !== currentUser.id) {
-        return res.status(403).json({ message: "Access denied - can only export your own data" });
-      }
+      res.json(enhancedRequests);
+    } catch (error: any) {
+      console.error("Error fetching user rights requests:", error);
+      res.status(500).json({ message: "Failed to fetch user rights requests" });
+    }
+  });
 
-      if (currentUser.role === 'admin' && request.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ 
-          message: "Access denied - cannot export data from outside your organization" 
-        });
-      }
+  // Submit new user rights request
+  app.post('/api/gdpr/user-rights', requireAuth, async (req: any, res) => {
+    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
+    if (!isGdprEnabled()) {
+      return res.status(404).json({ message: "Endpoint not found" });
+    }
 
-      // Only allow export for access and portability requests (legal requirement)
-      if (!['access', 'portability'].includes(request.type)) {
-        return res.status(400).json({ 
-          message: "Data export only available for access and portability requests (GDPR Articles 15 & 20)" 
-        });
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow export for completed requests (compliance requirement)
-      if (request.status !== 'completed') {
-        return res.status(400).json({ 
-          message: "Data export only available for completed requests" 
-        });
+      if (!currentUser.organisationId) {
+        return res.status(400).json({ message: "User must belong to an organisation to submit requests" });
       }
 
-      // Calculate SLA compliance for export tracking
-      const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
-
-      // Get the user whose data is being exported
-      const targetUser = await storage.getUser(request.userId);
-      if (!targetUser) {
-        return res.status(404).json({ message: "Target user not found" });
+      // Enhanced RBAC validation
+      const accessValidation = await validateUserRightsAccess(currentUser, null, 'create');
+      if (!accessValidation.authorized) {
+        return res.status(403).json({ message: accessValidation.error });
       }
 
-      // Collect user data for export
-      const userData = {
-        personal_information: {
-          id: targetUser.id,
-          email: targetUser.email,
-          firstName: targetUser.firstName,
-          lastName: targetUser.lastName,
-          jobTitle: targetUser.jobTitle,
-          department: targetUser.department,
-          phone: targetUser.phone,
-          bio: targetUser.bio,
-          role: targetUser.role,
-          status: targetUser.status,
-          createdAt: targetUser.createdAt,
-          updatedAt: targetUser.updatedAt,
-          lastActive: targetUser.lastActive
-        },
-        assignments: await storage.getAssignmentsByUser(request.userId),
-        completions: await storage.getCompletionsByUser(request.userId),
-        certificates: await storage.getCertificatesByUser(request.userId),
-        scorm_attempts: await storage.getScormAttemptsByUser(request.userId),
-        consent_records: await storage.getConsentRecordsByUser(request.userId),
-        user_rights_requests: await storage.getUserRightRequestsByUser(request.userId),
-        export_metadata: {
-          exported_at: new Date().toISOString(),
-          request_id: requestId,
-          request_type: request.type,
-          exported_by: currentUser.id,
-          exported_by_role: currentUser.role,
-          data_format: 'json',
-          gdpr_article: request.type === 'access' ? 'Article 15 (Right of Access)' : 'Article 20 (Right to Data Portability)',
-          legal_basis: request.type === 'access' ? 'GDPR_Article_15' : 'GDPR_Article_20',
-          export_scope: 'complete_user_data',
-          sla_status: slaStatus,
-          compliance_status: slaStatus.isOverdue ? 'exported_after_sla' : 'exported_within_sla'
-        }
-      };
-
-      // CRITICAL: GDPR Audit Logging - Data Export (highest security requirement)
-      await logGdprAudit({
-        organisationId: request.organisationId,
-        userId: currentUser.role === 'user' ? currentUser.id : undefined,
-        adminId: ['admin', 'superadmin'].includes(currentUser.role) ? currentUser.id : undefined,
-        action: 'export_user_data',
-        resource: 'data_export',
-        resourceId: requestId,
-        details: {
-          requestType: request.type,
-          targetUserId: request.userId,
-          exportedByUserId: currentUser.id,
-          exportedByRole: currentUser.role,
-          dataScope: 'complete_user_data',
-          exportFormat: req.query.format || 'json',
-          slaStatus,
-          legalBasis: request.type === 'access' ? 'GDPR_Article_15_Right_of_Access' : 'GDPR_Article_20_Data_Portability',
-          complianceStatus: slaStatus.isOverdue ? 'EXPORTED_AFTER_SLA_BREACH' : 'EXPORTED_WITHIN_SLA',
-          dataCategories: [
-            'personal_information',
-            'assignments', 
-            'completions',
-            'certificates',
-            'scorm_attempts',
-            'consent_records',
-            'user_rights_requests'
-          ],
-          securityLevel: 'high_sensitivity_personal_data'
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
+      // Validate request body
+      const requestSchema = insertUserRightRequestSchema.omit({
+        id: true,
+        userId: true,
+        organisationId: true,
+        status: true,
+        requestedAt: true,
+        verifiedAt: true,
+        processedAt: true,
+        completedAt: true,
+        adminNotes: true,
+        createdAt: true,
+        updatedAt: true
+      }).extend({
+        type: z.enum(['access', 'rectification', 'erasure', 'restriction', 'objection', 'portability']),
+        description: z.string().min(10, "Please provide at least 10 characters describing your request"),
       });
 
-      const format = req.query.format || 'json';
-
-      if (format === 'json') {
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('Content-Disposition', `attachment; filename="user_data_export_${targetUser.id}_${Date.now()}.json"`);
-        res.json(userData);
-      } else if (format === 'csv') {
-        // For CSV, we'll flatten the main personal information
-        const csvData = [
-          ['Field', 'Value'],
-          ['User ID', userData.personal_information.id],
-          ['Email', userData.personal_information.email],
-          ['First Name', userData.personal_information.firstName],
-          ['Last Name', userData.personal_information.lastName],
-          ['Job Title', userData.personal_information.jobTitle],
-          ['Department', userData.personal_information.department],
-          ['Phone', userData.personal_information.phone],
-          ['Role', userData.personal_information.role],
-          ['Status', userData.personal_information.status],
-          ['Created At', userData.personal_information.createdAt],
-          ['Last Active', userData.personal_information.lastActive],
-          ['Total Assignments', userData.assignments.length],
-          ['Total Completions', userData.completions.length],
-          ['Total Certificates', userData.certificates.length]
-        ];
-
-        const csvContent = csvData.map(row => row.map(field => `"${field || ''}"`).join(',')).join('\n');
-        
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="user_data_export_${targetUser.id}_${Date.now()}.csv"`);
-        res.send(csvContent);
-      } else {
-        return res.status(400).json({ message: "Invalid format. Supported formats: json, csv" });
-      }
-
-    } catch (error: any) {
-      console.error("Error exporting user data:", error);
-      res.status(500).json({ message: "Failed to export user data" });
-    }
-  });
-
-  // ===== REGISTER OF PROCESSING ACTIVITIES (ROPA) - ARTICLE 30 COMPLIANCE =====
-
-  /**
-   * Get all processing activities for organisation
-   * GET /api/gdpr/processing-activities
-   * Admin/SuperAdmin only - Article 30 compliance
-   */
-  app.get('/api/gdpr/processing-activities', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
+      const requestData = requestSchema.parse(req.body);
 
-      // RBAC: Only admins and superadmins can access RoPA
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities." });
+      // Check for existing pending/in-progress request of same type
+      const existingRequest = await storage.getUserRightRequestPending(currentUser.id, requestData.type);
+      if (existingRequest) {
+        return res.status(409).json({ 
+          message: `You already have a ${requestData.type} request in progress`,
+          existingRequestId: existingRequest.id 
+        });
       }
 
-      const { search, lawfulBasis, internationalTransfers } = req.query;
-      let activities = [];
-
-      if (search) {
-        activities = await storage.searchProcessingActivities(currentUser.organisationId, search);
-      } else if (lawfulBasis) {
-        activities = await storage.getProcessingActivitiesByLawfulBasis(currentUser.organisationId, lawfulBasis);
-      } else if (internationalTransfers === 'true') {
-        activities = await storage.getProcessingActivitiesWithInternationalTransfers(currentUser.organisationId);
-      } else {
-        activities = await storage.getProcessingActivitiesByOrganisation(currentUser.organisationId);
-      }
+      // Create new request with SLA tracking and audit metadata
+      const now = new Date();
+      const slaInfo = calculateSlaStatus(now);
+      
+      const newRequest = await storage.createUserRightRequest({
+        userId: currentUser.id,
+        organisationId: currentUser.organisationId,
+        type: requestData.type as any,
+        description: requestData.description,
+        rejectionReason: requestData.rejectionReason || null,
+        attachments: requestData.attachments || [],
+        metadata: {
+          ...requestData.metadata || {},
+          slaInfo,
+          requestSource: 'user_portal',
+          clientIp: req.ip || req.connection.remoteAddress,
+          userAgent: req.get('User-Agent')
+        }
+      });
 
-      // GDPR Audit Logging - Processing Activities Access
+      // GDPR Audit Logging - Request Creation
       await logGdprAudit({
         organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'view_processing_activities',
-        resource: 'processing_activity',
-        resourceId: 'list',
+        userId: currentUser.id,
+        action: 'create_user_rights_request',
+        resource: 'user_rights_request',
+        resourceId: newRequest.id,
         details: {
-          activitiesCount: activities.length,
-          searchQuery: search || null,
-          lawfulBasisFilter: lawfulBasis || null,
-          internationalTransfersFilter: internationalTransfers || null,
-          adminRole: currentUser.role,
-          article30Compliance: true,
-          securityLevel: 'compliance_data_access'
+          requestType: requestData.type,
+          description: requestData.description,
+          slaInfo,
+          legalBasis: 'GDPR_Article_12_13_15_16_17_18_20_21' // Legal framework basis
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(activities);
+      // Enhance response with SLA information
+      const enhancedRequest = {
+        ...newRequest,
+        ...slaInfo
+      };
 
+      res.status(201).json(enhancedRequest);
     } catch (error: any) {
-      console.error("Error fetching processing activities:", error);
-      res.status(500).json({ message: "Failed to fetch processing activities" });
+      console.error("Error creating user rights request:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create user rights request" });
     }
   });
 
-  /**
-   * Create new processing activity
-   * POST /api/gdpr/processing-activities
-   * Admin/SuperAdmin only - Article 30 compliance
-   */
-  app.post('/api/gdpr/processing-activities', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  // Admin: Get all user rights requests for organisation
+  app.get('/api/gdpr/user-rights/admin', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admins and superadmins can create RoPA entries
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities." });
+      // Enhanced RBAC validation for admin operations
+      const accessValidation = await validateUserRightsAccess(currentUser, null, 'view');
+      if (!accessValidation.authorized) {
+        return res.status(403).json({ message: accessValidation.error });
       }
 
-      // Validate request body
-      const validationResult = insertProcessingActivitySchema.safeParse({
-        ...req.body,
-        organisationId: currentUser.organisationId
-      });
-
-      if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Invalid processing activity data", 
-          errors: validationResult.error.errors 
-        });
-      }
+      const { type, status, search, limit = '50', offset = '0' } = req.query;
 
-      const activity = await storage.createProcessingActivity(validationResult.data);
+      // Enhanced organization scoping with security controls
+      let organisationId = currentUser.organisationId;
+      let isAccessingOtherOrg = false;
 
-      // GDPR Audit Logging - Processing Activity Created
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'create_processing_activity',
-        resource: 'processing_activity',
-        resourceId: activity.id,
-        details: {
-          activityName: activity.name,
-          lawfulBasis: activity.lawfulBasis,
-          dataCategories: activity.dataCategories,
-          dataSubjects: activity.dataSubjects,
-          internationalTransfers: activity.internationalTransfers,
-          transferCountries: activity.transferCountries,
-          createdByAdmin: currentUser.id,
-          article30Compliance: true
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
-
-      res.status(201).json(activity);
-
-    } catch (error: any) {
-      console.error("Error creating processing activity:", error);
-      res.status(500).json({ message: "Failed to create processing activity" });
-    }
-  });
-
-  /**
-   * Get specific processing activity by ID
-   * GET /api/gdpr/processing-activities/:id
-   * Admin/SuperAdmin only - Article 30 compliance
-   */
-  app.get('/api/gdpr/processing-activities/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (currentUser.role === 'superadmin') {
+        // SuperAdmin organization scoping with audit requirements
+        const requestedOrgId = req.query.organisationId as string;
+        
+        if (requestedOrgId && requestedOrgId !== currentUser.organisationId) {
+          // Accessing another organization's data - requires explicit audit
+          organisationId = requestedOrgId;
+          isAccessingOtherOrg = true;
+          
+          // Verify the target organization exists
+          const targetOrg = await storage.getOrganisation(organisationId);
+          if (!targetOrg) {
+            return res.status(404).json({ message: "Target organisation not found" });
+          }
+        } else {
+          // Default to SuperAdmin's own organization if not specified
+          organisationId = currentUser.organisationId;
+        }
+      } else {
+        // Admins and GDPR officers can ONLY access their own organization's data
+        organisationId = currentUser.organisationId;
+        
+        if (req.query.organisationId && req.query.organisationId !== organisationId) {
+          return res.status(403).json({ 
+            message: "Access denied - cannot access other organisations' GDPR data" 
+          });
+        }
       }
 
-      // RBAC: Only admins and superadmins can access RoPA entries
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities." });
+      if (!organisationId) {
+        return res.status(400).json({ message: "Organisation ID required" });
       }
 
-      const activity = await storage.getProcessingActivity(req.params.id);
+      const filters = {
+        type: type as string,
+        status: status as string,
+        search: search as string,
+        limit: Math.min(parseInt(limit as string, 10), 100), // Security limit
+        offset: Math.max(parseInt(offset as string, 10), 0)
+      };
 
-      if (!activity) {
-        return res.status(404).json({ message: "Processing activity not found" });
-      }
+      const requests = await storage.getUserRightRequestsWithFilters(organisationId, filters);
 
-      // Ensure activity belongs to current user's organisation
-      if (activity.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
-      }
+      // Enhance requests with SLA status and compliance information
+      const enhancedRequests = requests.map(request => {
+        const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
+        return {
+          ...request,
+          ...slaStatus,
+          complianceStatus: slaStatus.isOverdue ? 'non_compliant' : 'compliant'
+        };
+      });
 
-      // GDPR Audit Logging - Individual Processing Activity Access
+      // GDPR Audit Logging - Admin viewing organization requests
       await logGdprAudit({
-        organisationId: currentUser.organisationId,
+        organisationId,
         adminId: currentUser.id,
-        action: 'view_processing_activity',
-        resource: 'processing_activity',
-        resourceId: activity.id,
+        action: isAccessingOtherOrg ? 'superadmin_view_org_user_rights_requests' : 'admin_view_user_rights_requests',
+        resource: 'user_rights_request',
+        resourceId: 'admin_list',
         details: {
-          activityName: activity.name,
-          lawfulBasis: activity.lawfulBasis,
-          dataCategories: activity.dataCategories,
-          internationalTransfers: activity.internationalTransfers,
+          requestCount: requests.length,
           adminRole: currentUser.role,
-          article30Compliance: true,
-          securityLevel: 'compliance_data_access'
+          targetOrgId: organisationId,
+          isAccessingOtherOrg,
+          filters,
+          overdueCount: enhancedRequests.filter(r => r.isOverdue).length,
+          complianceStatus: enhancedRequests.some(r => r.isOverdue) ? 'has_overdue_requests' : 'all_compliant'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(activity);
+      // Add compliance metadata to response
+      const responseData = {
+        requests: enhancedRequests,
+        metadata: {
+          totalRequests: enhancedRequests.length,
+          overdueRequests: enhancedRequests.filter(r => r.isOverdue).length,
+          urgentRequests: enhancedRequests.filter(r => r.slaStatus === 'urgent').length,
+          complianceOverview: {
+            compliant: enhancedRequests.filter(r => !r.isOverdue).length,
+            overdue: enhancedRequests.filter(r => r.isOverdue).length,
+            totalProcessed: enhancedRequests.filter(r => r.status === 'completed').length
+          }
+        }
+      };
 
+      res.json(responseData);
     } catch (error: any) {
-      console.error("Error fetching processing activity:", error);
-      res.status(500).json({ message: "Failed to fetch processing activity" });
+      console.error("Error fetching admin user rights requests:", error);
+      res.status(500).json({ message: "Failed to fetch user rights requests" });
     }
   });
 
-  /**
-   * Update processing activity
-   * PUT /api/gdpr/processing-activities/:id
-   * Admin/SuperAdmin only - Article 30 compliance
-   */
-  app.put('/api/gdpr/processing-activities/:id', requireAuth, async (req: any, res) => {
+  // Get individual user rights request details
+  app.get('/api/gdpr/user-rights/:id', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
+    if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
 
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admins and superadmins can update RoPA entries
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities." });
-      }
+      const requestId = req.params.id;
 
-      // Verify activity exists and belongs to organisation
-      const existingActivity = await storage.getProcessingActivity(req.params.id);
-      if (!existingActivity) {
-        return res.status(404).json({ message: "Processing activity not found" });
+      // Enhanced RBAC validation for viewing individual requests
+      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'view');
+      if (!accessValidation.authorized) {
+        return res.status(403).json({ message: accessValidation.error });
       }
 
-      if (existingActivity.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
+      const request = accessValidation.targetRequest!;
+
+      // Additional security validations
+      if (!request) {
+        return res.status(404).json({ message: "User rights request not found" });
       }
 
-      // Validate request body
-      const validationResult = insertProcessingActivitySchema.omit({ organisationId: true }).safeParse(req.body);
+      // Role-based access control for individual request viewing
+      if (request.userId !== currentUser.id && !(await hasPermission(currentUser, 'gdpr.manage'))) {
+        return res.status(403).json({ message: "Access denied - can only view your own requests" });
+      }
 
-      if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Invalid processing activity data", 
-          errors: validationResult.error.errors 
+      if (currentUser.role !== 'superadmin' && request.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ 
+          message: "Access denied - cannot view requests from outside your organization" 
         });
       }
 
-      const updatedActivity = await storage.updateProcessingActivity(req.params.id, validationResult.data);
+      // Calculate current SLA status for the response
+      const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
 
-      // GDPR Audit Logging - Processing Activity Updated
+      // Enhance request with SLA information and compliance status
+      const enhancedRequest = {
+        ...request,
+        ...slaStatus,
+        complianceStatus: slaStatus.isOverdue ? 'non_compliant' : 'compliant',
+        availableActions: getAvailableActions(request.status, currentUser.role)
+      };
+
+      // GDPR Audit Logging - View individual request
       await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'update_processing_activity',
-        resource: 'processing_activity',
-        resourceId: updatedActivity.id,
+        organisationId: request.organisationId,
+        userId: currentUser.role === 'user' ? currentUser.id : undefined,
+        adminId: ['admin', 'superadmin'].includes(currentUser.role) ? currentUser.id : undefined,
+        action: currentUser.role === 'user' ? 'view_own_user_rights_request' : 'admin_view_user_rights_request',
+        resource: 'user_rights_request',
+        resourceId: requestId,
         details: {
-          activityName: updatedActivity.name,
-          lawfulBasis: updatedActivity.lawfulBasis,
-          dataCategories: updatedActivity.dataCategories,
-          previousData: existingActivity,
-          updatedData: validationResult.data,
-          updatedByAdmin: currentUser.id,
-          article30Compliance: true
+          requestType: request.type,
+          requestStatus: request.status,
+          targetUserId: request.userId,
+          viewedByRole: currentUser.role,
+          slaStatus,
+          complianceStatus: slaStatus.isOverdue ? 'SLA_BREACH_DETECTED' : 'COMPLIANT',
+          isAccessingOwnRequest: currentUser.id === request.userId
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(updatedActivity);
-
+      res.json(enhancedRequest);
     } catch (error: any) {
-      console.error("Error updating processing activity:", error);
-      res.status(500).json({ message: "Failed to update processing activity" });
+      console.error("Error fetching user rights request:", error);
+      res.status(500).json({ message: "Failed to fetch user rights request" });
     }
   });
 
-  /**
-   * Delete processing activity
-   * DELETE /api/gdpr/processing-activities/:id
-   * Admin/SuperAdmin only - Article 30 compliance
-   */
-  app.delete('/api/gdpr/processing-activities/:id', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  // Admin: Process/update user rights request
+  app.patch('/api/gdpr/user-rights/:id', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admins and superadmins can delete RoPA entries
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities." });
-      }
+      const requestId = req.params.id;
 
-      // Verify activity exists and belongs to organisation
-      const existingActivity = await storage.getProcessingActivity(req.params.id);
-      if (!existingActivity) {
-        return res.status(404).json({ message: "Processing activity not found" });
+      // Enhanced RBAC validation with comprehensive security checks
+      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'process');
+      if (!accessValidation.authorized) {
+        return res.status(403).json({ message: accessValidation.error });
       }
 
-      if (existingActivity.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
+      const existingRequest = accessValidation.targetRequest!;
+
+      // Organization scoping validation (already handled in validateUserRightsAccess but double-check)
+      if (currentUser.role !== 'superadmin' && existingRequest.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ 
+          message: "Access denied - cannot process requests outside your organization" 
+        });
       }
 
-      await storage.deleteProcessingActivity(req.params.id);
+      const { action, adminNotes, rejectionReason, attachments } = req.body;
 
-      // GDPR Audit Logging - Processing Activity Deleted (CRITICAL for compliance)
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'delete_processing_activity',
-        resource: 'processing_activity',
-        resourceId: req.params.id,
-        details: {
-          deletedActivity: existingActivity,
-          deletedByAdmin: currentUser.id,
-          article30Compliance: true,
-          securityLevel: 'critical_compliance_record_deletion'
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
+      // Validate action is allowed for current request status
+      const validTransitions = {
+        'pending': ['verify', 'reject', 'update'],
+        'in_progress': ['complete', 'reject', 'update'],
+        'completed': ['update'], // Only updates allowed on completed
+        'rejected': ['update'] // Only updates allowed on rejected
+      };
 
-      res.json({ message: "Processing activity deleted successfully" });
+      if (!validTransitions[existingRequest.status]?.includes(action)) {
+        return res.status(400).json({ 
+          message: `Invalid action '${action}' for request status '${existingRequest.status}'` 
+        });
+      }
+
+      // Calculate current SLA status before processing
+      const currentSla = calculateSlaStatus(existingRequest.requestedAt, existingRequest.verifiedAt);
+
+      let updatedRequest;
+      const processingTimestamp = new Date();
+
+      switch (action) {
+        case 'verify':
+          // Mark as verified and move to in_progress with SLA reset
+          updatedRequest = await storage.updateUserRightRequest(requestId, {
+            status: 'in_progress',
+            verifiedAt: processingTimestamp,
+            adminNotes,
+            metadata: {
+              ...existingRequest.metadata || {},
+              verifiedBy: currentUser.id,
+              verificationTimestamp: processingTimestamp.toISOString(),
+              slaResetDue: calculateSlaStatus(processingTimestamp, processingTimestamp) // SLA resets from verification date
+            }
+          });
+
+          // GDPR Audit Logging - Request Verification
+          await logGdprAudit({
+            organisationId: existingRequest.organisationId,
+            adminId: currentUser.id,
+            action: 'verify_user_rights_request',
+            resource: 'user_rights_request',
+            resourceId: requestId,
+            details: {
+              requestType: existingRequest.type,
+              previousStatus: existingRequest.status,
+              newStatus: 'in_progress',
+              adminNotes,
+              slaStatusBefore: currentSla,
+              slaStatusAfter: calculateSlaStatus(processingTimestamp, processingTimestamp),
+              legalCompliance: currentSla.isOverdue ? 'OVERDUE_PROCESSED' : 'ON_TIME'
+            },
+            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+            userAgent: req.get('User-Agent') || 'unknown'
+          });
+          break;
+
+        case 'complete':
+          // Mark as completed with compliance tracking
+          updatedRequest = await storage.updateUserRightRequest(requestId, {
+            status: 'completed',
+            completedAt: processingTimestamp,
+            adminNotes,
+            attachments,
+            metadata: {
+              ...existingRequest.metadata || {},
+              completedBy: currentUser.id,
+              completionTimestamp: processingTimestamp.toISOString(),
+              finalSlaStatus: currentSla,
+              complianceStatus: currentSla.isOverdue ? 'completed_overdue' : 'completed_on_time'
+            }
+          });
+
+          // GDPR Audit Logging - Request Completion
+          await logGdprAudit({
+            organisationId: existingRequest.organisationId,
+            adminId: currentUser.id,
+            action: 'complete_user_rights_request',
+            resource: 'user_rights_request',
+            resourceId: requestId,
+            details: {
+              requestType: existingRequest.type,
+              previousStatus: existingRequest.status,
+              newStatus: 'completed',
+              adminNotes,
+              attachments: attachments || [],
+              slaStatus: currentSla,
+              complianceStatus: currentSla.isOverdue ? 'LATE_COMPLETION' : 'ON_TIME_COMPLETION',
+              processingDays: Math.ceil((processingTimestamp.getTime() - new Date(existingRequest.requestedAt).getTime()) / (1000 * 60 * 60 * 24))
+            },
+            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+            userAgent: req.get('User-Agent') || 'unknown'
+          });
+          break;
+
+        case 'reject':
+          // Mark as rejected with comprehensive justification
+          if (!rejectionReason) {
+            return res.status(400).json({ message: "Rejection reason is required for legal compliance" });
+          }
+          
+          updatedRequest = await storage.updateUserRightRequest(requestId, {
+            status: 'rejected',
+            completedAt: processingTimestamp,
+            adminNotes,
+            rejectionReason,
+            attachments,
+            metadata: {
+              ...existingRequest.metadata || {},
+              rejectedBy: currentUser.id,
+              rejectionTimestamp: processingTimestamp.toISOString(),
+              rejectionJustification: rejectionReason,
+              finalSlaStatus: currentSla
+            }
+          });
+
+          // GDPR Audit Logging - Request Rejection (critical for accountability)
+          await logGdprAudit({
+            organisationId: existingRequest.organisationId,
+            adminId: currentUser.id,
+            action: 'reject_user_rights_request',
+            resource: 'user_rights_request',
+            resourceId: requestId,
+            details: {
+              requestType: existingRequest.type,
+              previousStatus: existingRequest.status,
+              newStatus: 'rejected',
+              rejectionReason,
+              adminNotes,
+              slaStatus: currentSla,
+              legalJustification: rejectionReason,
+              complianceStatus: currentSla.isOverdue ? 'REJECTED_AFTER_SLA' : 'REJECTED_WITHIN_SLA'
+            },
+            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+            userAgent: req.get('User-Agent') || 'unknown'
+          });
+          break;
+
+        case 'update':
+          // General update with audit trail
+          const updateData: any = {};
+          if (adminNotes !== undefined) updateData.adminNotes = adminNotes;
+          if (attachments !== undefined) updateData.attachments = attachments;
+          
+          updatedRequest = await storage.updateUserRightRequest(requestId, {
+            ...updateData,
+            metadata: {
+              ...existingRequest.metadata || {},
+              lastUpdatedBy: currentUser.id,
+              lastUpdateTimestamp: processingTimestamp.toISOString()
+            }
+          });
+
+          // GDPR Audit Logging - Request Update
+          await logGdprAudit({
+            organisationId: existingRequest.organisationId,
+            adminId: currentUser.id,
+            action: 'update_user_rights_request',
+            resource: 'user_rights_request',
+            resourceId: requestId,
+            details: {
+              requestType: existingRequest.type,
+              status: existingRequest.status,
+              updatesApplied: updateData,
+              adminNotes,
+              slaStatus: currentSla
+            },
+            ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+            userAgent: req.get('User-Agent') || 'unknown'
+          });
+          break;
+
+        default:
+          return res.status(400).json({ 
+            message: "Invalid action. Must be one of: verify, complete, reject, update" 
+          });
+      }
+
+      // Enhance response with current SLA information
+      const finalSlaStatus = action === 'verify' 
+        ? calculateSlaStatus(processingTimestamp, processingTimestamp) // Reset SLA from verification
+        : calculateSlaStatus(new Date(existingRequest.requestedAt), existingRequest.verifiedAt);
+
+      const enhancedResponse = {
+        ...updatedRequest,
+        ...finalSlaStatus,
+        complianceStatus: finalSlaStatus.isOverdue ? 'non_compliant' : 'compliant'
+      };
 
+      res.json(enhancedResponse);
     } catch (error: any) {
-      console.error("Error deleting processing activity:", error);
-      res.status(500).json({ message: "Failed to delete processing activity" });
+      console.error("Error processing user rights request:", error);
+      res.status(500).json({ message: "Failed to process user rights request" });
     }
   });
 
-  /**
-   * Export Register of Processing Activities for compliance audits
-   * GET /api/gdpr/processing-activities/export
-   * Admin/SuperAdmin only - Article 30 compliance
-   * Supports CSV/JSON formats for ICO/supervisory authority submissions
-   */
-  app.get('/api/gdpr/processing-activities/export', requireAuth, async (req: any, res) => {
+  // Data export for access/portability requests
+  app.get('/api/gdpr/user-rights/:id/export', requireAuth, async (req: any, res) => {
     // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('ropaManagement')) {
+    if (!isGdprEnabled()) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
 
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser || !currentUser.organisationId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admins and superadmins can export RoPA
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for Register of Processing Activities export." });
+      const requestId = req.params.id;
+
+      // Enhanced RBAC validation for data export operations
+      const accessValidation = await validateUserRightsAccess(currentUser, requestId, 'export');
+      if (!accessValidation.authorized) {
+        return res.status(403).json({ message: accessValidation.error });
       }
 
-      const activities = await storage.getProcessingActivitiesByOrganisation(currentUser.organisationId);
-      const organisation = await storage.getOrganisation(currentUser.organisationId);
+      const request = accessValidation.targetRequest!;
 
-      const exportData = {
-        export_metadata: {
-          exported_at: new Date().toISOString(),
-          exported_by: `${currentUser.firstName} ${currentUser.lastName}`,
-          exported_by_role: currentUser.role,
-          organisation: organisation?.name,
-          organisation_id: currentUser.organisationId,
-          gdpr_article: 'Article 30 - Records of Processing Activities',
-          legal_requirement: 'UK GDPR Article 30 Compliance',
-          data_controller: organisation?.name,
-          total_activities: activities.length,
-          compliance_status: 'exported_for_supervisory_authority'
-        },
-        processing_activities: activities.map(activity => ({
-          id: activity.id,
-          name: activity.name,
-          purpose: activity.purpose,
-          description: activity.description,
-          lawful_basis: activity.lawfulBasis,
-          data_categories: activity.dataCategories,
-          data_subjects: activity.dataSubjects,
-          recipients: activity.recipients,
-          international_transfers: activity.internationalTransfers,
-          transfer_countries: activity.transferCountries,
-          retention_period: activity.retentionPeriod,
-          security_measures: activity.securityMeasures,
-          dpia_required: activity.dpia.required || false,
-          dpia_completed: activity.dpia.completed || false,
-          created_at: activity.createdAt,
-          updated_at: activity.updatedAt
-        }))
-      };
+      // Additional security validations
+      if (!request) {
+        return res.status(404).json({ message: "User rights request not found" });
+      }
+
+      // Enhanced permission checks with comprehensive RBAC
+      if (request.userId !== currentUser.id && !(await hasPermission(currentUser, 'gdpr.manage'))) {
+        return res.status(403).json({ message: "Access denied - can only export your own data" });
+      }
+
+      if (currentUser.role !== 'superadmin' && request.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ 
+          message: "Access denied - cannot export data from outside your organization" 
+        });
+      }
+
+      // Only allow export for access and portability requests (legal requirement)
+      if (!['access', 'portability'].includes(request.type)) {
+        return res.status(400).json({ 
+          message: "Data export only available for access and portability requests (GDPR Articles 15 & 20)" 
+        });
+      }
+
+      // Only allow export for completed requests (compliance requirement)
+      if (request.status !== 'completed') {
+        return res.status(400).json({ 
+          message: "Data export only available for completed requests" 
+        });
+      }
+
+      // Calculate SLA compliance for export tracking
+      const slaStatus = calculateSlaStatus(request.requestedAt, request.verifiedAt);
+
+      // Get the user whose data is being exported
+      const targetUser = await storage.getUser(request.userId);
+      if (!targetUser) {
+        return res.status(404).json({ message: "Target user not found" });
+      }
+
+      // Collect user data for export
+      const userData = {
+        personal_information: {
+          id: targetUser.id,
+          email: targetUser.email,
+          firstName: targetUser.firstName,
+          lastName: targetUser.lastName,
+          jobTitle: targetUser.jobTitle,
+          department: targetUser.department,
+          phone: targetUser.phone,
+          bio: targetUser.bio,
+          role: targetUser.role,
+          status: targetUser.status,
+          createdAt: targetUser.createdAt,
+          updatedAt: targetUser.updatedAt,
+          lastActive: targetUser.lastActive
+        },
+        assignments: await storage.getAssignmentsByUser(request.userId),
+        completions: await storage.getCompletionsByUser(request.userId),
+        certificates: await storage.getCertificatesByUser(request.userId),
+        scorm_attempts: await storage.getScormAttemptsByUser(request.userId),
+        consent_records: await storage.getConsentRecordsByUser(request.userId),
+        user_rights_requests: await storage.getUserRightRequestsByUser(request.userId),
+        export_metadata: {
+          exported_at: new Date().toISOString(),
+          request_id: requestId,
+          request_type: request.type,
+          exported_by: currentUser.id,
+          exported_by_role: currentUser.role,
+          data_format: 'json',
+          gdpr_article: request.type === 'access' ? 'Article 15 (Right of Access)' : 'Article 20 (Right to Data Portability)',
+          legal_basis: request.type === 'access' ? 'GDPR_Article_15' : 'GDPR_Article_20',
+          export_scope: 'complete_user_data',
+          sla_status: slaStatus,
+          compliance_status: slaStatus.isOverdue ? 'exported_after_sla' : 'exported_within_sla'
+        }
+      };
+
+      // CRITICAL: GDPR Audit Logging - Data Export (highest security requirement)
+      await logGdprAudit({
+        organisationId: request.organisationId,
+        userId: currentUser.role === 'user' ? currentUser.id : undefined,
+        adminId: ['admin', 'superadmin'].includes(currentUser.role) ? currentUser.id : undefined,
+        action: 'export_user_data',
+        resource: 'data_export',
+        resourceId: requestId,
+        details: {
+          requestType: request.type,
+          targetUserId: request.userId,
+          exportedByUserId: currentUser.id,
+          exportedByRole: currentUser.role,
+          dataScope: 'complete_user_data',
+          exportFormat: req.query.format || 'json',
+          slaStatus,
+          legalBasis: request.type === 'access' ? 'GDPR_Article_15_Right_of_Access' : 'GDPR_Article_20_Data_Portability',
+          complianceStatus: slaStatus.isOverdue ? 'EXPORTED_AFTER_SLA_BREACH' : 'EXPORTED_WITHIN_SLA',
+          dataCategories: [
+            'personal_information',
+            'assignments', 
+            'completions',
+            'certificates',
+            'scorm_attempts',
+            'consent_records',
+            'user_rights_requests'
+          ],
+          securityLevel: 'high_sensitivity_personal_data'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
       const format = req.query.format || 'json';
 
       if (format === 'json') {
         res.setHeader('Content-Type', 'application/json');
-        res.setHeader('Content-Disposition', `attachment; filename="ropa_export_${organisation?.name || 'org'}_${Date.now()}.json"`);
-        res.json(exportData);
+        res.setHeader('Content-Disposition', `attachment; filename="user_data_export_${targetUser.id}_${Date.now()}.json"`);
+        res.json(userData);
       } else if (format === 'csv') {
-        // Create CSV export for ICO/supervisory authority submissions
-        const csvHeaders = [
-          'Processing Activity Name',
-          'Purpose',
-          'Description', 
-          'Lawful Basis',
-          'Data Categories',
-          'Data Subjects',
-          'Recipients',
-          'International Transfers',
-          'Transfer Countries',
-          'Retention Period',
-          'Security Measures',
-          'DPIA Required',
-          'DPIA Completed',
-          'Created Date',
-          'Last Updated'
+        // For CSV, we'll flatten the main personal information
+        const csvData = [
+          ['Field', 'Value'],
+          ['User ID', userData.personal_information.id],
+          ['Email', userData.personal_information.email],
+          ['First Name', userData.personal_information.firstName],
+          ['Last Name', userData.personal_information.lastName],
+          ['Job Title', userData.personal_information.jobTitle],
+          ['Department', userData.personal_information.department],
+          ['Phone', userData.personal_information.phone],
+          ['Role', userData.personal_information.role],
+          ['Status', userData.personal_information.status],
+          ['Created At', userData.personal_information.createdAt],
+          ['Last Active', userData.personal_information.lastActive],
+          ['Total Assignments', userData.assignments.length],
+          ['Total Completions', userData.completions.length],
+          ['Total Certificates', userData.certificates.length]
         ];
 
-        const csvRows = activities.map(activity => [
-          `"${activity.name || ''}"`,
-          `"${activity.purpose || ''}"`,
-          `"${activity.description || ''}"`,
-          `"${activity.lawfulBasis || ''}"`,
-          `"${activity.dataCategories.join('; ') || ''}"`,
-          `"${activity.dataSubjects.join('; ') || ''}"`,
-          `"${activity.recipients.join('; ') || ''}"`,
-          `"${activity.internationalTransfers ? 'Yes' : 'No'}"`,
-          `"${activity.transferCountries.join('; ') || ''}"`,
-          `"${activity.retentionPeriod || ''}"`,
-          `"${activity.securityMeasures.join('; ') || ''}"`,
-          `"${activity.dpia?.required ? 'Yes' : 'No'}"`,
-          `"${activity.dpia?.completed ? 'Yes' : 'No'}"`,
-          `"${activity.createdAt ? new Date(activity.createdAt).toLocaleDateString() : ''}"`,
-          `"${activity.updatedAt ? new Date(activity.updatedAt).toLocaleDateString() : ''}"`,
-        ]);
-
-        const csvContent = [csvHeaders.join(','), ...csvRows.map(row => row.join(','))].join('\n');
-
+        const csvContent = csvData.map(row => row.map(field => `"${field || ''}"`).join(',')).join('\n');
+        
         res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="ropa_export_${organisation?.name || 'org'}_${Date.now()}.csv"`);
+        res.setHeader('Content-Disposition', `attachment; filename="user_data_export_${targetUser.id}_${Date.now()}.csv"`);
         res.send(csvContent);
       } else {
         return res.status(400).json({ message: "Invalid format. Supported formats: json, csv" });
       }
 
-      // GDPR Audit Logging - Critical compliance export
+    } catch (error: any) {
+      console.error("Error exporting user data:", error);
+      res.status(500).json({ message: "Failed to export user data" });
+    }
+  });
+
+  // ===== REGISTER OF PROCESSING ACTIVITIES (ROPA) - ARTICLE 30 COMPLIANCE =====
+
+  /**
+   * Get all processing activities for organisation
+   * GET /api/gdpr/processing-activities
+   * Admin/SuperAdmin only - Article 30 compliance
+   */
+  app.get('/api/gdpr/processing-activities', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { search, lawfulBasis, internationalTransfers } = req.query;
+      let activities = [];
+
+      if (search) {
+        activities = await storage.searchProcessingActivities(currentUser.organisationId, search);
+      } else if (lawfulBasis) {
+        activities = await storage.getProcessingActivitiesByLawfulBasis(currentUser.organisationId, lawfulBasis);
+      } else if (internationalTransfers === 'true') {
+        activities = await storage.getProcessingActivitiesWithInternationalTransfers(currentUser.organisationId);
+      } else {
+        activities = await storage.getProcessingActivitiesByOrganisation(currentUser.organisationId);
+      }
+
+      // GDPR Audit Logging - Processing Activities Access
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'export_ropa',
-        resource: 'processing_activities_export',
-        resourceId: `export_${Date.now()}`,
+        action: 'view_processing_activities',
+        resource: 'processing_activity',
+        resourceId: 'list',
         details: {
-          exportFormat: format,
-          totalActivities: activities.length,
-          exportedByAdmin: currentUser.id,
-          exportedByRole: currentUser.role,
-          gdprArticle: 'Article_30_Records_of_Processing',
-          legalRequirement: 'UK_GDPR_Article_30_Compliance',
-          complianceExport: true,
-          securityLevel: 'critical_compliance_export'
+          activitiesCount: activities.length,
+          searchQuery: search || null,
+          lawfulBasisFilter: lawfulBasis || null,
+          internationalTransfersFilter: internationalTransfers || null,
+          adminRole: currentUser.role,
+          article30Compliance: true,
+          securityLevel: 'compliance_data_access'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
+      res.json(activities);
+
     } catch (error: any) {
-      console.error("Error exporting processing activities:", error);
-      res.status(500).json({ message: "Failed to export processing activities" });
+      console.error("Error fetching processing activities:", error);
+      res.status(500).json({ message: "Failed to fetch processing activities" });
     }
   });
 
-  // ===== DATA BREACH MANAGEMENT ROUTES - GDPR ARTICLES 33 & 34 COMPLIANCE =====
-
   /**
-   * Get all data breaches for organization
-   * GET /api/gdpr/breaches
-   * Admin/SuperAdmin only - Articles 33 & 34 compliance
+   * Create new processing activity
+   * POST /api/gdpr/processing-activities
+   * Admin/SuperAdmin only - Article 30 compliance
    */
-  app.get('/api/gdpr/breaches', requireAuth, async (req: any, res) => {
-    // Route guard: if GDPR is disabled, return 404 to hide the endpoint completely
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/processing-activities', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // RBAC: Only admins and superadmins can view breach register
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for breach management." });
+      // Validate request body
+      const validationResult = insertProcessingActivitySchema.safeParse({
+        ...req.body,
+        organisationId: currentUser.organisationId
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid processing activity data", 
+          errors: validationResult.error.errors 
+        });
       }
 
-      const { status, search, severity } = req.query;
-      let breaches: any[];
-
-      if (search) {
-        breaches = await storage.searchDataBreaches(currentUser.organisationId, search as string);
-      } else if (status) {
-        breaches = await storage.getDataBreachesByStatus(currentUser.organisationId, status as string);
-      } else {
-        breaches = await storage.getDataBreachesByOrganisation(currentUser.organisationId);
-      }
-
-      // Filter by severity if specified
-      if (severity) {
-        breaches = breaches.filter(breach => breach.severity === severity);
-      }
+      const activity = await storage.createProcessingActivity(validationResult.data);
 
-      // Add compliance status and deadline information
-      const enrichedBreaches = breaches.map(breach => {
-        const now = new Date();
-        const deadlinePassed = new Date(breach.notificationDeadline) < now;
-        const hoursUntilDeadline = Math.ceil((new Date(breach.notificationDeadline).getTime() - now.getTime()) / (1000 * 60 * 60));
-        
-        return {
-          ...breach,
-          complianceStatus: {
-            icoNotificationRequired: ['medium', 'high', 'critical'].includes(breach.severity),
-            subjectNotificationRequired: ['high', 'critical'].includes(breach.severity),
-            deadlinePassed,
-            hoursUntilDeadline: Math.max(0, hoursUntilDeadline),
-            isOverdue: deadlinePassed && !breach.icoNotifiedAt,
-            isUrgent: hoursUntilDeadline <= 24 && !breach.icoNotifiedAt
-          }
-        };
+      // GDPR Audit Logging - Processing Activity Created
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'create_processing_activity',
+        resource: 'processing_activity',
+        resourceId: activity.id,
+        details: {
+          activityName: activity.name,
+          lawfulBasis: activity.lawfulBasis,
+          dataCategories: activity.dataCategories,
+          dataSubjects: activity.dataSubjects,
+          internationalTransfers: activity.internationalTransfers,
+          transferCountries: activity.transferCountries,
+          createdByAdmin: currentUser.id,
+          article30Compliance: true
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(enrichedBreaches);
+      res.status(201).json(activity);
 
     } catch (error: any) {
-      console.error("Error fetching breaches:", error);
-      res.status(500).json({ message: "Failed to fetch data breaches" });
+      console.error("Error creating processing activity:", error);
+      res.status(500).json({ message: "Failed to create processing activity" });
     }
   });
 
   /**
-   * Create new data breach record
-   * POST /api/gdpr/breaches
-   * Admin/SuperAdmin only - Article 33 compliance
+   * Get specific processing activity by ID
+   * GET /api/gdpr/processing-activities/:id
+   * Admin/SuperAdmin only - Article 30 compliance
    */
-  app.post('/api/gdpr/breaches', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/processing-activities/:id', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required for breach reporting." });
-      }
+      const activity = await storage.getProcessingActivity(req.params.id);
 
-      const breachData = req.body;
-      
-      // Validate required fields
-      const requiredFields = ['title', 'description', 'severity', 'affectedSubjects', 'dataCategories', 'cause', 'impact', 'containmentMeasures', 'preventiveMeasures'];
-      const missingFields = requiredFields.filter(field => !breachData[field]);
-      
-      if (missingFields.length > 0) {
-        return res.status(400).json({ 
-          message: "Missing required fields", 
-          missingFields 
-        });
+      if (!activity) {
+        return res.status(404).json({ message: "Processing activity not found" });
       }
 
-      // Calculate notification deadline (72 hours from detection for ICO)
-      const detectedAt = breachData.detectedAt ? new Date(breachData.detectedAt) : new Date();
-      const notificationDeadline = new Date(detectedAt);
-      notificationDeadline.setHours(notificationDeadline.getHours() + 72);
-
-      const newBreach = await storage.createDataBreach({
-        organisationId: currentUser.organisationId,
-        title: breachData.title,
-        description: breachData.description,
-        severity: breachData.severity,
-        detectedAt,
-        affectedSubjects: breachData.affectedSubjects,
-        dataCategories: breachData.dataCategories || [],
-        cause: breachData.cause,
-        impact: breachData.impact,
-        containmentMeasures: breachData.containmentMeasures,
-        preventiveMeasures: breachData.preventiveMeasures,
-        responsible: breachData.responsible || `${currentUser.firstName} ${currentUser.lastName}`,
-        notificationDeadline,
-        metadata: {
-          reportedBy: currentUser.id,
-          reportedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-          reportedByRole: currentUser.role,
-          reportedAt: new Date().toISOString(),
-          riskAssessment: breachData.riskAssessment || {},
-          gdprArticles: ['Article_33_Notification_to_Supervisory_Authority', 'Article_34_Communication_to_Data_Subject']
-        }
-      });
+      // Ensure activity belongs to current user's organisation
+      if (activity.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
+      }
 
-      // GDPR Audit Logging - Critical breach reported
+      // GDPR Audit Logging - Individual Processing Activity Access
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'create_data_breach',
-        resource: 'data_breach',
-        resourceId: newBreach.id,
+        action: 'view_processing_activity',
+        resource: 'processing_activity',
+        resourceId: activity.id,
         details: {
-          breachSeverity: newBreach.severity,
-          affectedSubjects: newBreach.affectedSubjects,
-          dataCategories: newBreach.dataCategories,
-          notificationDeadline: newBreach.notificationDeadline,
-          reportedByAdmin: currentUser.id,
-          reportedByRole: currentUser.role,
-          gdprArticle33: true,
-          icoNotificationRequired: ['medium', 'high', 'critical'].includes(newBreach.severity),
-          subjectNotificationRequired: ['high', 'critical'].includes(newBreach.severity),
-          complianceStatus: 'breach_detected_and_logged',
-          securityLevel: 'critical_data_breach_report'
+          activityName: activity.name,
+          lawfulBasis: activity.lawfulBasis,
+          dataCategories: activity.dataCategories,
+          internationalTransfers: activity.internationalTransfers,
+          adminRole: currentUser.role,
+          article30Compliance: true,
+          securityLevel: 'compliance_data_access'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.status(201).json(newBreach);
+      res.json(activity);
 
     } catch (error: any) {
-      console.error("Error creating breach:", error);
-      res.status(500).json({ message: "Failed to create data breach record" });
+      console.error("Error fetching processing activity:", error);
+      res.status(500).json({ message: "Failed to fetch processing activity" });
     }
   });
 
   /**
-   * Get single data breach by ID
-   * GET /api/gdpr/breaches/:id
-   * Admin/SuperAdmin only - Articles 33 & 34 compliance
+   * Update processing activity
+   * PUT /api/gdpr/processing-activities/:id
+   * Admin/SuperAdmin only - Article 30 compliance
    */
-  app.get('/api/gdpr/breaches/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.put('/api/gdpr/processing-activities/:id', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // Verify activity exists and belongs to organisation
+      const existingActivity = await storage.getProcessingActivity(req.params.id);
+      if (!existingActivity) {
+        return res.status(404).json({ message: "Processing activity not found" });
       }
 
-      const breach = await storage.getDataBreach(req.params.id);
-      if (!breach) {
-        return res.status(404).json({ message: "Data breach not found" });
+      if (existingActivity.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
       }
 
-      if (breach.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
+      // Validate request body
+      const validationResult = insertProcessingActivitySchema.omit({ organisationId: true }).safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid processing activity data", 
+          errors: validationResult.error.errors 
+        });
       }
 
-      // Add compliance information
-      const now = new Date();
-      const deadlinePassed = new Date(breach.notificationDeadline) < now;
-      const hoursUntilDeadline = Math.ceil((new Date(breach.notificationDeadline).getTime() - now.getTime()) / (1000 * 60 * 60));
+      const updatedActivity = await storage.updateProcessingActivity(req.params.id, validationResult.data);
 
-      const enrichedBreach = {
-        ...breach,
-        complianceStatus: {
-          icoNotificationRequired: ['medium', 'high', 'critical'].includes(breach.severity),
-          subjectNotificationRequired: ['high', 'critical'].includes(breach.severity),
-          deadlinePassed,
-          hoursUntilDeadline: Math.max(0, hoursUntilDeadline),
-          isOverdue: deadlinePassed && !breach.icoNotifiedAt,
-          isUrgent: hoursUntilDeadline <= 24 && !breach.icoNotifiedAt,
-          timelineStatus: {
-            detected: !!breach.detectedAt,
-            reported: !!breach.reportedAt,
-            icoNotified: !!breach.icoNotifiedAt,
-            subjectsNotified: !!breach.subjectsNotifiedAt,
-            resolved: breach.status === 'resolved'
-          }
-        }
-      };
+      // GDPR Audit Logging - Processing Activity Updated
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'update_processing_activity',
+        resource: 'processing_activity',
+        resourceId: updatedActivity.id,
+        details: {
+          activityName: updatedActivity.name,
+          lawfulBasis: updatedActivity.lawfulBasis,
+          dataCategories: updatedActivity.dataCategories,
+          previousData: existingActivity,
+          updatedData: validationResult.data,
+          updatedByAdmin: currentUser.id,
+          article30Compliance: true
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
 
-      res.json(enrichedBreach);
+      res.json(updatedActivity);
 
     } catch (error: any) {
-      console.error("Error fetching breach:", error);
-      res.status(500).json({ message: "Failed to fetch data breach" });
+      console.error("Error updating processing activity:", error);
+      res.status(500).json({ message: "Failed to update processing activity" });
     }
   });
 
   /**
-   * Update data breach record
-   * PUT /api/gdpr/breaches/:id
-   * Admin/SuperAdmin only - Articles 33 & 34 compliance
+   * Delete processing activity
+   * DELETE /api/gdpr/processing-activities/:id
+   * Admin/SuperAdmin only - Article 30 compliance
    */
-  app.put('/api/gdpr/breaches/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.delete('/api/gdpr/processing-activities/:id', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // Verify activity exists and belongs to organisation
+      const existingActivity = await storage.getProcessingActivity(req.params.id);
+      if (!existingActivity) {
+        return res.status(404).json({ message: "Processing activity not found" });
       }
 
-      const existingBreach = await storage.getDataBreach(req.params.id);
-      if (!existingBreach) {
-        return res.status(404).json({ message: "Data breach not found" });
+      if (existingActivity.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Processing activity belongs to different organisation." });
       }
 
-      if (existingBreach.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
-      }
+      await storage.deleteProcessingActivity(req.params.id);
 
-      const updateData = req.body;
-      
-      // Handle status transitions and notifications
-      const statusChanges: any = {};
-      
-      if (updateData.status === 'reported' && !existingBreach.reportedAt) {
-        statusChanges.reportedAt = new Date();
-      }
-      
-      if (updateData.icoNotified && !existingBreach.icoNotifiedAt) {
-        statusChanges.icoNotifiedAt = new Date();
-        statusChanges.status = 'notified_ico';
-      }
-      
-      if (updateData.subjectsNotified && !existingBreach.subjectsNotifiedAt) {
-        statusChanges.subjectsNotifiedAt = new Date();
-      }
-
-      // Update metadata with change log
-      const currentMetadata = existingBreach.metadata || {};
-      const changeLog = currentMetadata.changeLog || [];
-      changeLog.push({
-        timestamp: new Date().toISOString(),
-        updatedBy: currentUser.id,
-        updatedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-        changes: Object.keys(updateData),
-        statusChanges: Object.keys(statusChanges)
-      });
-
-      const updatedBreach = await storage.updateDataBreach(req.params.id, {
-        ...updateData,
-        ...statusChanges,
-        metadata: {
-          ...currentMetadata,
-          changeLog,
-          lastUpdatedBy: currentUser.id,
-          lastUpdatedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-          lastUpdatedAt: new Date().toISOString()
-        }
-      });
-
-      // GDPR Audit Logging - Breach updated
+      // GDPR Audit Logging - Processing Activity Deleted (CRITICAL for compliance)
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'update_data_breach',
-        resource: 'data_breach',
+        action: 'delete_processing_activity',
+        resource: 'processing_activity',
         resourceId: req.params.id,
         details: {
-          previousStatus: existingBreach.status,
-          newStatus: updatedBreach.status,
-          changedFields: Object.keys(updateData),
-          statusChanges: Object.keys(statusChanges),
-          updatedByAdmin: currentUser.id,
-          updatedByRole: currentUser.role,
-          gdprArticle33: true,
-          icoNotified: !!statusChanges.icoNotifiedAt,
-          subjectsNotified: !!statusChanges.subjectsNotifiedAt,
-          complianceStatus: 'breach_record_updated',
-          securityLevel: 'critical_breach_update'
+          deletedActivity: existingActivity,
+          deletedByAdmin: currentUser.id,
+          article30Compliance: true,
+          securityLevel: 'critical_compliance_record_deletion'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json(updatedBreach);
+      res.json({ message: "Processing activity deleted successfully" });
 
     } catch (error: any) {
-      console.error("Error updating breach:", error);
-      res.status(500).json({ message: "Failed to update data breach" });
+      console.error("Error deleting processing activity:", error);
+      res.status(500).json({ message: "Failed to delete processing activity" });
     }
   });
 
   /**
-   * Delete data breach record
-   * DELETE /api/gdpr/breaches/:id
-   * SuperAdmin only - Critical compliance record deletion
+   * Export Register of Processing Activities for compliance audits
+   * GET /api/gdpr/processing-activities/export
+   * Admin/SuperAdmin only - Article 30 compliance
+   * Supports CSV/JSON formats for ICO/supervisory authority submissions
    */
-  app.delete('/api/gdpr/breaches/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/processing-activities/export', requireAuth, requireGdpr('ropaManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // CRITICAL: Only SuperAdmin can delete breach records (legal compliance)
-      if (currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. SuperAdmin privileges required for breach record deletion." });
-      }
+      const activities = await storage.getProcessingActivitiesByOrganisation(currentUser.organisationId);
+      const organisation = await storage.getOrganisation(currentUser.organisationId);
 
-      const existingBreach = await storage.getDataBreach(req.params.id);
-      if (!existingBreach) {
-        return res.status(404).json({ message: "Data breach not found" });
-      }
+      const exportData = {
+        export_metadata: {
+          exported_at: new Date().toISOString(),
+          exported_by: `${currentUser.firstName} ${currentUser.lastName}`,
+          exported_by_role: currentUser.role,
+          organisation: organisation?.name,
+          organisation_id: currentUser.organisationId,
+          gdpr_article: 'Article 30 - Records of Processing Activities',
+          legal_requirement: 'UK GDPR Article 30 Compliance',
+          data_controller: organisation?.name,
+          total_activities: activities.length,
+          compliance_status: 'exported_for_supervisory_authority'
+        },
+        processing_activities: activities.map(activity => ({
+          id: activity.id,
+          name: activity.name,
+          purpose: activity.purpose,
+          description: activity.description,
+          lawful_basis: activity.lawfulBasis,
+          data_categories: activity.dataCategories,
+          data_subjects: activity.dataSubjects,
+          recipients: activity.recipients,
+          international_transfers: activity.internationalTransfers,
+          transfer_countries: activity.transferCountries,
+          retention_period: activity.retentionPeriod,
+          security_measures: activity.securityMeasures,
+          dpia_required: activity.dpia.required || false,
+          dpia_completed: activity.dpia.completed || false,
+          created_at: activity.createdAt,
+          updated_at: activity.updatedAt
+        }))
+      };
 
-      if (existingBreach.organisationId !== currentUser.organisationId) {
-        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
-      }
+      const format = req.query.format || 'json';
 
-      await storage.deleteDataBreach(req.params.id);
+      if (format === 'json') {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="ropa_export_${organisation?.name || 'org'}_${Date.now()}.json"`);
+        res.json(exportData);
+      } else if (format === 'csv') {
+        // Create CSV export for ICO/supervisory authority submissions
+        const csvHeaders = [
+          'Processing Activity Name',
+          'Purpose',
+          'Description', 
+          'Lawful Basis',
+          'Data Categories',
+          'Data Subjects',
+          'Recipients',
+          'International Transfers',
+          'Transfer Countries',
+          'Retention Period',
+          'Security Measures',
+          'DPIA Required',
+          'DPIA Completed',
+          'Created Date',
+          'Last Updated'
+        ];
 
-      // GDPR Audit Logging - CRITICAL breach record deletion
+        const csvRows = activities.map(activity => [
+          `"${activity.name || ''}"`,
+          `"${activity.purpose || ''}"`,
+          `"${activity.description || ''}"`,
+          `"${activity.lawfulBasis || ''}"`,
+          `"${activity.dataCategories.join('; ') || ''}"`,
+          `"${activity.dataSubjects.join('; ') || ''}"`,
+          `"${activity.recipients.join('; ') || ''}"`,
+          `"${activity.internationalTransfers ? 'Yes' : 'No'}"`,
+          `"${activity.transferCountries.join('; ') || ''}"`,
+          `"${activity.retentionPeriod || ''}"`,
+          `"${activity.securityMeasures.join('; ') || ''}"`,
+          `"${activity.dpia?.required ? 'Yes' : 'No'}"`,
+          `"${activity.dpia?.completed ? 'Yes' : 'No'}"`,
+          `"${activity.createdAt ? new Date(activity.createdAt).toLocaleDateString() : ''}"`,
+          `"${activity.updatedAt ? new Date(activity.updatedAt).toLocaleDateString() : ''}"`,
+        ]);
+
+        const csvContent = [csvHeaders.join(','), ...csvRows.map(row => row.join(','))].join('\n');
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="ropa_export_${organisation?.name || 'org'}_${Date.now()}.csv"`);
+        res.send(csvContent);
+      } else {
+        return res.status(400).json({ message: "Invalid format. Supported formats: json, csv" });
+      }
+
+      // GDPR Audit Logging - Critical compliance export
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'delete_data_breach',
-        resource: 'data_breach',
-        resourceId: req.params.id,
+        action: 'export_ropa',
+        resource: 'processing_activities_export',
+        resourceId: `export_${Date.now()}`,
         details: {
-          deletedBreach: existingBreach,
-          deletedByAdmin: currentUser.id,
-          deletedByRole: currentUser.role,
-          gdprArticles: ['Article_33_Notification', 'Article_34_Communication'],
-          complianceImpact: 'critical_breach_record_deletion',
-          legalRequirement: 'Data_breach_records_must_be_maintained_for_compliance',
-          securityLevel: 'critical_compliance_record_deletion',
-          warning: 'Breach records should normally be retained for audit purposes'
+          exportFormat: format,
+          totalActivities: activities.length,
+          exportedByAdmin: currentUser.id,
+          exportedByRole: currentUser.role,
+          gdprArticle: 'Article_30_Records_of_Processing',
+          legalRequirement: 'UK_GDPR_Article_30_Compliance',
+          complianceExport: true,
+          securityLevel: 'critical_compliance_export'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json({ message: "Data breach record deleted successfully" });
-
     } catch (error: any) {
-      console.error("Error deleting breach:", error);
-      res.status(500).json({ message: "Failed to delete data breach" });
+      console.error("Error exporting processing activities:", error);
+      res.status(500).json({ message: "Failed to export processing activities" });
     }
   });
 
+  // ===== DATA BREACH MANAGEMENT ROUTES - GDPR ARTICLES 33 & 34 COMPLIANCE =====
+
   /**
-   * Get breach analytics dashboard
-   * GET /api/gdpr/breaches/analytics
-   * Admin/SuperAdmin only - Compliance reporting
+   * Get all data breaches for organization
+   * GET /api/gdpr/breaches
+   * Admin/SuperAdmin only - Articles 33 & 34 compliance
    */
-  app.get('/api/gdpr/breaches/analytics', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/breaches', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
-      const analytics = await storage.getBreachAnalytics(currentUser.organisationId);
-      
-      // Add ICO compliance metrics
-      const icoRequired = await storage.getBreachesRequiringICONotification(currentUser.organisationId);
-      const subjectRequired = await storage.getBreachesRequiringSubjectNotification(currentUser.organisationId);
-      const overdue = await storage.getOverdueDataBreaches(currentUser.organisationId);
-
-      const enhancedAnalytics = {
-        ...analytics,
-        complianceMetrics: {
-          pendingIcoNotifications: icoRequired.length,
-          pendingSubjectNotifications: subjectRequired.length,
-          overdueNotifications: overdue.length,
-          complianceRate: analytics.totalBreaches > 0 
-            ? Math.round(((analytics.totalBreaches - overdue.length) / analytics.totalBreaches) * 100)
-            : 100
-        },
-        urgentActions: {
-          requiresImmediateAction: overdue.length,
-          urgentDeadlines: icoRequired.filter(breach => {
-            const hoursLeft = Math.ceil((new Date(breach.notificationDeadline).getTime() - new Date().getTime()) / (1000 * 60 * 60));
-            return hoursLeft <= 24 && hoursLeft > 0;
-          }).length
-        }
-      };
+      const { status, search, severity } = req.query;
+      let breaches: any[];
 
-      res.json(enhancedAnalytics);
+      if (search) {
+        breaches = await storage.searchDataBreaches(currentUser.organisationId, search as string);
+      } else if (status) {
+        breaches = await storage.getDataBreachesByStatus(currentUser.organisationId, status as string);
+      } else {
+        breaches = await storage.getDataBreachesByOrganisation(currentUser.organisationId);
+      }
 
-    } catch (error: any) {
-      console.error("Error fetching breach analytics:", error);
-      res.status(500).json({ message: "Failed to fetch breach analytics" });
-    }
-  });
+      // Filter by severity if specified
+      if (severity) {
+        breaches = breaches.filter(breach => breach.severity === severity);
+      }
 
-  /**
-   * Export breach register for ICO compliance
-   * GET /api/gdpr/breaches/export
-   * Admin/SuperAdmin only - Regulatory reporting
-   */
-  app.get('/api/gdpr/breaches/export', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
+      // Add compliance status and deadline information
+      const enrichedBreaches = breaches.map(breach => {
+        const now = new Date();
+        const deadlinePassed = new Date(breach.notificationDeadline) < now;
+        const hoursUntilDeadline = Math.ceil((new Date(breach.notificationDeadline).getTime() - now.getTime()) / (1000 * 60 * 60));
+        
+        return {
+          ...breach,
+          complianceStatus: {
+            icoNotificationRequired: ['medium', 'high', 'critical'].includes(breach.severity),
+            subjectNotificationRequired: ['high', 'critical'].includes(breach.severity),
+            deadlinePassed,
+            hoursUntilDeadline: Math.max(0, hoursUntilDeadline),
+            isOverdue: deadlinePassed && !breach.icoNotifiedAt,
+            isUrgent: hoursUntilDeadline <= 24 && !breach.icoNotifiedAt
+          }
+        };
+      });
+
+      res.json(enrichedBreaches);
+
+    } catch (error: any) {
+      console.error("Error fetching breaches:", error);
+      res.status(500).json({ message: "Failed to fetch data breaches" });
     }
+  });
 
+  /**
+   * Create new data breach record
+   * POST /api/gdpr/breaches
+   * Admin/SuperAdmin only - Article 33 compliance
+   */
+  app.post('/api/gdpr/breaches', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      const breachData = req.body;
+      
+      // Validate required fields
+      const requiredFields = ['title', 'description', 'severity', 'affectedSubjects', 'dataCategories', 'cause', 'impact', 'containmentMeasures', 'preventiveMeasures'];
+      const missingFields = requiredFields.filter(field => !breachData[field]);
+      
+      if (missingFields.length > 0) {
+        return res.status(400).json({ 
+          message: "Missing required fields", 
+          missingFields 
+        });
       }
 
-      const breaches = await storage.getDataBreachesByOrganisation(currentUser.organisationId);
-      const organisation = await storage.getOrganisation(currentUser.organisationId);
-
-      const exportData = {
-        export_metadata: {
-          exported_at: new Date().toISOString(),
-          exported_by: `${currentUser.firstName} ${currentUser.lastName}`,
-          exported_by_role: currentUser.role,
-          organisation: organisation?.name,
-          organisation_id: currentUser.organisationId,
-          gdpr_articles: ['Article 33 - Notification to Supervisory Authority', 'Article 34 - Communication to Data Subject'],
-          legal_requirement: 'UK GDPR Articles 33 & 34 Compliance',
-          data_controller: organisation?.name,
-          total_breaches: breaches.length,
-          compliance_status: 'exported_for_ico_submission'
-        },
-        breach_register: breaches.map(breach => ({
-          breach_id: breach.id,
-          title: breach.title,
-          description: breach.description,
-          severity: breach.severity,
-          status: breach.status,
-          detected_at: breach.detectedAt,
-          reported_at: breach.reportedAt,
-          ico_notified_at: breach.icoNotifiedAt,
-          subjects_notified_at: breach.subjectsNotifiedAt,
-          affected_subjects: breach.affectedSubjects,
-          data_categories: breach.dataCategories,
-          cause: breach.cause,
-          impact: breach.impact,
-          containment_measures: breach.containmentMeasures,
-          preventive_measures: breach.preventiveMeasures,
-          notification_deadline: breach.notificationDeadline,
-          responsible_person: breach.responsible,
-          compliance_status: {
-            ico_notification_required: ['medium', 'high', 'critical'].includes(breach.severity),
-            subject_notification_required: ['high', 'critical'].includes(breach.severity),
-            deadline_met: breach.icoNotifiedAt ? new Date(breach.icoNotifiedAt) <= new Date(breach.notificationDeadline) : false
-          },
-          created_at: breach.createdAt,
-          updated_at: breach.updatedAt
-        }))
-      };
-
-      const format = req.query.format || 'json';
-
-      if (format === 'json') {
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('Content-Disposition', `attachment; filename="breach_register_${organisation?.name || 'org'}_${Date.now()}.json"`);
-        res.json(exportData);
-      } else if (format === 'csv') {
-        const csvHeaders = [
-          'Breach ID', 'Title', 'Description', 'Severity', 'Status', 'Detected Date',
-          'Reported Date', 'ICO Notified Date', 'Subjects Notified Date', 'Affected Subjects',
-          'Data Categories', 'Cause', 'Impact', 'Containment Measures', 'Preventive Measures',
-          'Notification Deadline', 'Responsible Person', 'ICO Notification Required',
-          'Subject Notification Required', 'Deadline Met'
-        ];
-
-        const csvRows = breaches.map(breach => [
-          `"${breach.id || ''}"`,
-          `"${breach.title || ''}"`,
-          `"${breach.description?.replace(/"/g, '""') || ''}"`,
-          `"${breach.severity || ''}"`,
-          `"${breach.status || ''}"`,
-          `"${breach.detectedAt ? new Date(breach.detectedAt).toLocaleDateString() : ''}"`,
-          `"${breach.reportedAt ? new Date(breach.reportedAt).toLocaleDateString() : ''}"`,
-          `"${breach.icoNotifiedAt ? new Date(breach.icoNotifiedAt).toLocaleDateString() : ''}"`,
-          `"${breach.subjectsNotifiedAt ? new Date(breach.subjectsNotifiedAt).toLocaleDateString() : ''}"`,
-          `"${breach.affectedSubjects || 0}"`,
-          `"${breach.dataCategories?.join('; ') || ''}"`,
-          `"${breach.cause?.replace(/"/g, '""') || ''}"`,
-          `"${breach.impact?.replace(/"/g, '""') || ''}"`,
-          `"${breach.containmentMeasures?.replace(/"/g, '""') || ''}"`,
-          `"${breach.preventiveMeasures?.replace(/"/g, '""') || ''}"`,
-          `"${breach.notificationDeadline ? new Date(breach.notificationDeadline).toLocaleDateString() : ''}"`,
-          `"${breach.responsible || ''}"`,
-          `"${['medium', 'high', 'critical'].includes(breach.severity) ? 'Yes' : 'No'}"`,
-          `"${['high', 'critical'].includes(breach.severity) ? 'Yes' : 'No'}"`,
-          `"${breach.icoNotifiedAt ? (new Date(breach.icoNotifiedAt) <= new Date(breach.notificationDeadline) ? 'Yes' : 'No') : 'Pending'}"`
-        ]);
-
-        const csvContent = [csvHeaders.join(','), ...csvRows.map(row => row.join(','))].join('\n');
+      // Calculate notification deadline (72 hours from detection for ICO)
+      const detectedAt = breachData.detectedAt ? new Date(breachData.detectedAt) : new Date();
+      const notificationDeadline = new Date(detectedAt);
+      notificationDeadline.setHours(notificationDeadline.getHours() + 72);
 
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="breach_register_${organisation?.name || 'org'}_${Date.now()}.csv"`);
-        res.send(csvContent);
-      } else {
-        return res.status(400).json({ message: "Invalid format. Supported formats: json, csv" });
-      }
+      const newBreach = await storage.createDataBreach({
+        organisationId: currentUser.organisationId,
+        title: breachData.title,
+        description: breachData.description,
+        severity: breachData.severity,
+        detectedAt,
+        affectedSubjects: breachData.affectedSubjects,
+        dataCategories: breachData.dataCategories || [],
+        cause: breachData.cause,
+        impact: breachData.impact,
+        containmentMeasures: breachData.containmentMeasures,
+        preventiveMeasures: breachData.preventiveMeasures,
+        responsible: breachData.responsible || `${currentUser.firstName} ${currentUser.lastName}`,
+        notificationDeadline,
+        metadata: {
+          reportedBy: currentUser.id,
+          reportedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+          reportedByRole: currentUser.role,
+          reportedAt: new Date().toISOString(),
+          riskAssessment: breachData.riskAssessment || {},
+          gdprArticles: ['Article_33_Notification_to_Supervisory_Authority', 'Article_34_Communication_to_Data_Subject']
+        }
+      });
 
-      // GDPR Audit Logging - Critical compliance export
+      // GDPR Audit Logging - Critical breach reported
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'export_breach_register',
-        resource: 'breach_register_export',
-        resourceId: `export_${Date.now()}`,
+        action: 'create_data_breach',
+        resource: 'data_breach',
+        resourceId: newBreach.id,
         details: {
-          exportFormat: format,
-          totalBreaches: breaches.length,
-          exportedByAdmin: currentUser.id,
-          exportedByRole: currentUser.role,
-          gdprArticles: ['Article_33_Notification_to_Supervisory_Authority', 'Article_34_Communication_to_Data_Subject'],
-          legalRequirement: 'UK_GDPR_Articles_33_34_Compliance',
-          complianceExport: true,
-          icoSubmissionReady: true,
-          securityLevel: 'critical_compliance_export'
+          breachSeverity: newBreach.severity,
+          affectedSubjects: newBreach.affectedSubjects,
+          dataCategories: newBreach.dataCategories,
+          notificationDeadline: newBreach.notificationDeadline,
+          reportedByAdmin: currentUser.id,
+          reportedByRole: currentUser.role,
+          gdprArticle33: true,
+          icoNotificationRequired: ['medium', 'high', 'critical'].includes(newBreach.severity),
+          subjectNotificationRequired: ['high', 'critical'].includes(newBreach.severity),
+          complianceStatus: 'breach_detected_and_logged',
+          securityLevel: 'critical_data_breach_report'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
+      res.status(201).json(newBreach);
+
     } catch (error: any) {
-      console.error("Error exporting breach register:", error);
-      res.status(500).json({ message: "Failed to export breach register" });
+      console.error("Error creating breach:", error);
+      res.status(500).json({ message: "Failed to create data breach record" });
     }
   });
 
-  // ===== BREACH MANAGEMENT PATCH ENDPOINTS - TARGETED OPERATIONS =====
-
   /**
-   * Update risk assessment for breach
-   * PATCH /api/gdpr/breaches/:id/risk-assessment
-   * Admin/SuperAdmin only - Risk evaluation updates
+   * Get single data breach by ID
+   * GET /api/gdpr/breaches/:id
+   * Admin/SuperAdmin only - Articles 33 & 34 compliance
    */
-  app.patch('/api/gdpr/breaches/:id/risk-assessment', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/breaches/:id', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
-      const existingBreach = await storage.getDataBreach(req.params.id);
-      if (!existingBreach) {
+      const breach = await storage.getDataBreach(req.params.id);
+      if (!breach) {
         return res.status(404).json({ message: "Data breach not found" });
       }
 
-      if (existingBreach.organisationId !== currentUser.organisationId) {
+      if (breach.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
       }
 
-      const { likelihood, severityAssessment, riskScore, mitigatingFactors, overallRisk } = req.body;
+      // Add compliance information
+      const now = new Date();
+      const deadlinePassed = new Date(breach.notificationDeadline) < now;
+      const hoursUntilDeadline = Math.ceil((new Date(breach.notificationDeadline).getTime() - now.getTime()) / (1000 * 60 * 60));
 
-      // Update breach metadata with risk assessment
-      const currentMetadata = existingBreach.metadata || {};
-      const updatedRiskAssessment = {
-        ...currentMetadata.riskAssessment,
-        likelihood: likelihood || currentMetadata.riskAssessment?.likelihood,
-        severityAssessment: severityAssessment || currentMetadata.riskAssessment?.severityAssessment,
-        riskScore: riskScore || currentMetadata.riskAssessment?.riskScore,
-        mitigatingFactors: mitigatingFactors || currentMetadata.riskAssessment?.mitigatingFactors,
-        overallRisk: overallRisk || currentMetadata.riskAssessment?.overallRisk,
-        assessedAt: new Date().toISOString(),
-        assessedBy: currentUser.id,
-        assessedByName: `${currentUser.firstName} ${currentUser.lastName}`
+      const enrichedBreach = {
+        ...breach,
+        complianceStatus: {
+          icoNotificationRequired: ['medium', 'high', 'critical'].includes(breach.severity),
+          subjectNotificationRequired: ['high', 'critical'].includes(breach.severity),
+          deadlinePassed,
+          hoursUntilDeadline: Math.max(0, hoursUntilDeadline),
+          isOverdue: deadlinePassed && !breach.icoNotifiedAt,
+          isUrgent: hoursUntilDeadline <= 24 && !breach.icoNotifiedAt,
+          timelineStatus: {
+            detected: !!breach.detectedAt,
+            reported: !!breach.reportedAt,
+            icoNotified: !!breach.icoNotifiedAt,
+            subjectsNotified: !!breach.subjectsNotifiedAt,
+            resolved: breach.status === 'resolved'
+          }
+        }
       };
 
-      const updatedBreach = await storage.updateDataBreach(req.params.id, {
-        metadata: {
-          ...currentMetadata,
-          riskAssessment: updatedRiskAssessment,
-          lastUpdatedBy: currentUser.id,
-          lastUpdatedAt: new Date().toISOString()
-        }
-      });
-
-      // GDPR Audit Logging - Risk assessment update
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'update_breach_risk_assessment',
-        resource: 'data_breach',
-        resourceId: req.params.id,
-        details: {
-          previousRiskAssessment: currentMetadata.riskAssessment || null,
-          newRiskAssessment: updatedRiskAssessment,
-          assessedByAdmin: currentUser.id,
-          assessedByRole: currentUser.role,
-          gdprArticles: ['Article_33_Risk_Assessment', 'Article_34_Risk_Evaluation'],
-          complianceStatus: 'risk_assessment_updated',
-          securityLevel: 'critical_risk_evaluation'
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
-
-      res.json(updatedBreach);
+      res.json(enrichedBreach);
 
     } catch (error: any) {
-      console.error("Error updating breach risk assessment:", error);
-      res.status(500).json({ message: "Failed to update risk assessment" });
+      console.error("Error fetching breach:", error);
+      res.status(500).json({ message: "Failed to fetch data breach" });
     }
   });
 
   /**
-   * Mark breach as ICO notified and send notification
-   * PATCH /api/gdpr/breaches/:id/ico-notify
-   * Admin/SuperAdmin only - Article 33 ICO notification
+   * Update data breach record
+   * PUT /api/gdpr/breaches/:id
+   * Admin/SuperAdmin only - Articles 33 & 34 compliance
    */
-  app.patch('/api/gdpr/breaches/:id/ico-notify', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.put('/api/gdpr/breaches/:id', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const existingBreach = await storage.getDataBreach(req.params.id);
       if (!existingBreach) {
         return res.status(404).json({ message: "Data breach not found" });
@@ -4764,93 +5265,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
       }
 
-      // Check if already notified
-      if (existingBreach.icoNotifiedAt) {
-        return res.status(400).json({ message: "ICO already notified for this breach" });
+      const updateData = req.body;
+      
+      // Handle status transitions and notifications
+      const statusChanges: any = {};
+      
+      if (updateData.status === 'reported' && !existingBreach.reportedAt) {
+        statusChanges.reportedAt = new Date();
       }
-
-      // Get organization details for notification
-      const organisation = await getOrgById(storage, currentUser.organisationId);
-      if (!organisation) {
-        return res.status(400).json({ message: "Organisation not found" });
+      
+      if (updateData.icoNotified && !existingBreach.icoNotifiedAt) {
+        statusChanges.icoNotifiedAt = new Date();
+        statusChanges.status = 'notified_ico';
+      }
+      
+      if (updateData.subjectsNotified && !existingBreach.subjectsNotifiedAt) {
+        statusChanges.subjectsNotifiedAt = new Date();
       }
 
-      // Send ICO notification via BreachNotificationService
-      const notificationResult = await breachNotificationService.sendICONotification(
-        existingBreach.id,
-        currentUser.organisationId,
-        {
-          id: currentUser.id,
-          name: `${currentUser.firstName} ${currentUser.lastName}`,
-          email: currentUser.email
-        }
-      );
+      // Update metadata with change log
+      const currentMetadata = existingBreach.metadata || {};
+      const changeLog = currentMetadata.changeLog || [];
+      changeLog.push({
+        timestamp: new Date().toISOString(),
+        updatedBy: currentUser.id,
+        updatedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+        changes: Object.keys(updateData),
+        statusChanges: Object.keys(statusChanges)
+      });
 
-      // Update breach status
-      const now = new Date();
       const updatedBreach = await storage.updateDataBreach(req.params.id, {
-        icoNotifiedAt: now,
-        status: 'notified_ico',
+        ...updateData,
+        ...statusChanges,
         metadata: {
-          ...existingBreach.metadata,
-          icoNotification: {
-            notifiedAt: now.toISOString(),
-            notifiedBy: currentUser.id,
-            notifiedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-            emailResult: notificationResult,
-            referenceNumber: `ICO-${existingBreach.id.substring(0, 8).toUpperCase()}-${Date.now()}`
-          },
+          ...currentMetadata,
+          changeLog,
           lastUpdatedBy: currentUser.id,
-          lastUpdatedAt: now.toISOString()
+          lastUpdatedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+          lastUpdatedAt: new Date().toISOString()
         }
       });
 
-      // GDPR Audit Logging - ICO notification sent
+      // GDPR Audit Logging - Breach updated
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'notify_ico_data_breach',
+        action: 'update_data_breach',
         resource: 'data_breach',
         resourceId: req.params.id,
         details: {
-          breachSeverity: existingBreach.severity,
-          affectedSubjects: existingBreach.affectedSubjects,
-          notificationDeadline: existingBreach.notificationDeadline,
-          deadlineCompliance: now <= new Date(existingBreach.notificationDeadline),
-          hoursAfterDetection: Math.round((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60)),
-          notifiedByAdmin: currentUser.id,
-          notifiedByRole: currentUser.role,
-          emailResult: notificationResult,
+          previousStatus: existingBreach.status,
+          newStatus: updatedBreach.status,
+          changedFields: Object.keys(updateData),
+          statusChanges: Object.keys(statusChanges),
+          updatedByAdmin: currentUser.id,
+          updatedByRole: currentUser.role,
           gdprArticle33: true,
-          complianceStatus: 'ico_notified_article_33',
-          securityLevel: 'critical_regulatory_notification'
+          icoNotified: !!statusChanges.icoNotifiedAt,
+          subjectsNotified: !!statusChanges.subjectsNotifiedAt,
+          complianceStatus: 'breach_record_updated',
+          securityLevel: 'critical_breach_update'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json({
-        ...updatedBreach,
-        notificationResult,
-        complianceStatus: {
-          icoNotified: true,
-          deadlineMet: now <= new Date(existingBreach.notificationDeadline),
-          hoursAfterDetection: Math.round((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60))
-        }
-      });
+      res.json(updatedBreach);
 
     } catch (error: any) {
-      console.error("Error notifying ICO:", error);
-      res.status(500).json({ message: "Failed to notify ICO" });
+      console.error("Error updating breach:", error);
+      res.status(500).json({ message: "Failed to update data breach" });
     }
   });
 
   /**
-   * Send individual notifications to affected data subjects
-   * PATCH /api/gdpr/breaches/:id/notify-subjects
-   * Admin/SuperAdmin only - Article 34 individual notifications
+   * Delete data breach record
+   * DELETE /api/gdpr/breaches/:id
+   * SuperAdmin only - Critical compliance record deletion
    */
-  app.patch('/api/gdpr/breaches/:id/notify-subjects', requireAuth, async (req: any, res) => {
+  app.delete('/api/gdpr/breaches/:id', requireAuth, async (req: any, res) => {
     if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
       return res.status(404).json({ message: "Endpoint not found" });
     }
@@ -4861,8 +5354,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // CRITICAL: Only SuperAdmin can delete breach records (legal compliance)
+      if (currentUser.role !== 'superadmin') {
+        return res.status(403).json({ message: "Access denied. SuperAdmin privileges required for breach record deletion." });
       }
 
       const existingBreach = await storage.getDataBreach(req.params.id);
@@ -4874,116 +5368,227 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
       }
 
-      // Check if high-risk breach requiring individual notification
-      if (!['high', 'critical'].includes(existingBreach.severity)) {
-        return res.status(400).json({ 
-          message: "Individual notification not required for low/medium risk breaches" 
-        });
-      }
-
-      const { recipientEmails, notificationMessage } = req.body;
-
-      if (!recipientEmails || !Array.isArray(recipientEmails) || recipientEmails.length === 0) {
-        return res.status(400).json({ message: "Recipient emails required" });
-      }
-
-      // Get organization details
-      const organisation = await getOrgById(storage, currentUser.organisationId);
-      if (!organisation) {
-        return res.status(400).json({ message: "Organisation not found" });
-      }
-
-      // Send bulk notifications via BreachNotificationService
-      const notificationResults = await breachNotificationService.sendIndividualNotifications(
-        existingBreach.id,
-        currentUser.organisationId,
-        recipientEmails,
-        {
-          id: currentUser.id,
-          name: `${currentUser.firstName} ${currentUser.lastName}`,
-          email: currentUser.email
-        },
-        notificationMessage
-      );
-
-      // Update breach with subject notification status
-      const now = new Date();
-      const updatedBreach = await storage.updateDataBreach(req.params.id, {
-        subjectsNotifiedAt: now,
-        status: existingBreach.icoNotifiedAt ? 'notified_subjects' : 'assessed',
-        metadata: {
-          ...existingBreach.metadata,
-          subjectNotifications: {
-            notifiedAt: now.toISOString(),
-            notifiedBy: currentUser.id,
-            notifiedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-            totalRecipients: recipientEmails.length,
-            results: notificationResults,
-            customMessage: notificationMessage
-          },
-          lastUpdatedBy: currentUser.id,
-          lastUpdatedAt: now.toISOString()
-        }
-      });
+      await storage.deleteDataBreach(req.params.id);
 
-      // GDPR Audit Logging - Subject notifications sent
+      // GDPR Audit Logging - CRITICAL breach record deletion
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'notify_subjects_data_breach',
+        action: 'delete_data_breach',
         resource: 'data_breach',
         resourceId: req.params.id,
         details: {
-          breachSeverity: existingBreach.severity,
-          totalRecipientsNotified: recipientEmails.length,
-          successfulNotifications: notificationResults.filter(r => !r.error).length,
-          failedNotifications: notificationResults.filter(r => r.error).length,
-          notifiedByAdmin: currentUser.id,
-          notifiedByRole: currentUser.role,
-          gdprArticle34: true,
-          complianceStatus: 'subjects_notified_article_34',
-          securityLevel: 'critical_subject_notifications',
-          customMessage: !!notificationMessage
+          deletedBreach: existingBreach,
+          deletedByAdmin: currentUser.id,
+          deletedByRole: currentUser.role,
+          gdprArticles: ['Article_33_Notification', 'Article_34_Communication'],
+          complianceImpact: 'critical_breach_record_deletion',
+          legalRequirement: 'Data_breach_records_must_be_maintained_for_compliance',
+          securityLevel: 'critical_compliance_record_deletion',
+          warning: 'Breach records should normally be retained for audit purposes'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.json({
-        ...updatedBreach,
-        notificationResults,
-        summary: {
-          totalSent: recipientEmails.length,
-          successful: notificationResults.filter(r => !r.error).length,
-          failed: notificationResults.filter(r => r.error).length
-        }
-      });
+      res.json({ message: "Data breach record deleted successfully" });
 
     } catch (error: any) {
-      console.error("Error notifying subjects:", error);
-      res.status(500).json({ message: "Failed to notify affected subjects" });
+      console.error("Error deleting breach:", error);
+      res.status(500).json({ message: "Failed to delete data breach" });
     }
   });
 
   /**
-   * Close/resolve data breach
-   * PATCH /api/gdpr/breaches/:id/resolve
-   * Admin/SuperAdmin only - Breach resolution
+   * Get breach analytics dashboard
+   * GET /api/gdpr/breaches/analytics
+   * Admin/SuperAdmin only - Compliance reporting
    */
-  app.patch('/api/gdpr/breaches/:id/resolve', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('breachManagement')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/breaches/analytics', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
+      const analytics = await storage.getBreachAnalytics(currentUser.organisationId);
+      
+      // Add ICO compliance metrics
+      const icoRequired = await storage.getBreachesRequiringICONotification(currentUser.organisationId);
+      const subjectRequired = await storage.getBreachesRequiringSubjectNotification(currentUser.organisationId);
+      const overdue = await storage.getOverdueDataBreaches(currentUser.organisationId);
+
+      const enhancedAnalytics = {
+        ...analytics,
+        complianceMetrics: {
+          pendingIcoNotifications: icoRequired.length,
+          pendingSubjectNotifications: subjectRequired.length,
+          overdueNotifications: overdue.length,
+          complianceRate: analytics.totalBreaches > 0 
+            ? Math.round(((analytics.totalBreaches - overdue.length) / analytics.totalBreaches) * 100)
+            : 100
+        },
+        urgentActions: {
+          requiresImmediateAction: overdue.length,
+          urgentDeadlines: icoRequired.filter(breach => {
+            const hoursLeft = Math.ceil((new Date(breach.notificationDeadline).getTime() - new Date().getTime()) / (1000 * 60 * 60));
+            return hoursLeft <= 24 && hoursLeft > 0;
+          }).length
+        }
+      };
+
+      res.json(enhancedAnalytics);
+
+    } catch (error: any) {
+      console.error("Error fetching breach analytics:", error);
+      res.status(500).json({ message: "Failed to fetch breach analytics" });
+    }
+  });
+
+  /**
+   * Export breach register for ICO compliance
+   * GET /api/gdpr/breaches/export
+   * Admin/SuperAdmin only - Regulatory reporting
+   */
+  app.get('/api/gdpr/breaches/export', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const breaches = await storage.getDataBreachesByOrganisation(currentUser.organisationId);
+      const organisation = await storage.getOrganisation(currentUser.organisationId);
+
+      const exportData = {
+        export_metadata: {
+          exported_at: new Date().toISOString(),
+          exported_by: `${currentUser.firstName} ${currentUser.lastName}`,
+          exported_by_role: currentUser.role,
+          organisation: organisation?.name,
+          organisation_id: currentUser.organisationId,
+          gdpr_articles: ['Article 33 - Notification to Supervisory Authority', 'Article 34 - Communication to Data Subject'],
+          legal_requirement: 'UK GDPR Articles 33 & 34 Compliance',
+          data_controller: organisation?.name,
+          total_breaches: breaches.length,
+          compliance_status: 'exported_for_ico_submission'
+        },
+        breach_register: breaches.map(breach => ({
+          breach_id: breach.id,
+          title: breach.title,
+          description: breach.description,
+          severity: breach.severity,
+          status: breach.status,
+          detected_at: breach.detectedAt,
+          reported_at: breach.reportedAt,
+          ico_notified_at: breach.icoNotifiedAt,
+          subjects_notified_at: breach.subjectsNotifiedAt,
+          affected_subjects: breach.affectedSubjects,
+          data_categories: breach.dataCategories,
+          cause: breach.cause,
+          impact: breach.impact,
+          containment_measures: breach.containmentMeasures,
+          preventive_measures: breach.preventiveMeasures,
+          notification_deadline: breach.notificationDeadline,
+          responsible_person: breach.responsible,
+          compliance_status: {
+            ico_notification_required: ['medium', 'high', 'critical'].includes(breach.severity),
+            subject_notification_required: ['high', 'critical'].includes(breach.severity),
+            deadline_met: breach.icoNotifiedAt ? new Date(breach.icoNotifiedAt) <= new Date(breach.notificationDeadline) : false
+          },
+          created_at: breach.createdAt,
+          updated_at: breach.updatedAt
+        }))
+      };
+
+      const format = req.query.format || 'json';
+
+      if (format === 'json') {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="breach_register_${organisation?.name || 'org'}_${Date.now()}.json"`);
+        res.json(exportData);
+      } else if (format === 'csv') {
+        const csvHeaders = [
+          'Breach ID', 'Title', 'Description', 'Severity', 'Status', 'Detected Date',
+          'Reported Date', 'ICO Notified Date', 'Subjects Notified Date', 'Affected Subjects',
+          'Data Categories', 'Cause', 'Impact', 'Containment Measures', 'Preventive Measures',
+          'Notification Deadline', 'Responsible Person', 'ICO Notification Required',
+          'Subject Notification Required', 'Deadline Met'
+        ];
+
+        const csvRows = breaches.map(breach => [
+          `"${breach.id || ''}"`,
+          `"${breach.title || ''}"`,
+          `"${breach.description?.replace(/"/g, '""') || ''}"`,
+          `"${breach.severity || ''}"`,
+          `"${breach.status || ''}"`,
+          `"${breach.detectedAt ? new Date(breach.detectedAt).toLocaleDateString() : ''}"`,
+          `"${breach.reportedAt ? new Date(breach.reportedAt).toLocaleDateString() : ''}"`,
+          `"${breach.icoNotifiedAt ? new Date(breach.icoNotifiedAt).toLocaleDateString() : ''}"`,
+          `"${breach.subjectsNotifiedAt ? new Date(breach.subjectsNotifiedAt).toLocaleDateString() : ''}"`,
+          `"${breach.affectedSubjects || 0}"`,
+          `"${breach.dataCategories?.join('; ') || ''}"`,
+          `"${breach.cause?.replace(/"/g, '""') || ''}"`,
+          `"${breach.impact?.replace(/"/g, '""') || ''}"`,
+          `"${breach.containmentMeasures?.replace(/"/g, '""') || ''}"`,
+          `"${breach.preventiveMeasures?.replace(/"/g, '""') || ''}"`,
+          `"${breach.notificationDeadline ? new Date(breach.notificationDeadline).toLocaleDateString() : ''}"`,
+          `"${breach.responsible || ''}"`,
+          `"${['medium', 'high', 'critical'].includes(breach.severity) ? 'Yes' : 'No'}"`,
+          `"${['high', 'critical'].includes(breach.severity) ? 'Yes' : 'No'}"`,
+          `"${breach.icoNotifiedAt ? (new Date(breach.icoNotifiedAt) <= new Date(breach.notificationDeadline) ? 'Yes' : 'No') : 'Pending'}"`
+        ]);
+
+        const csvContent = [csvHeaders.join(','), ...csvRows.map(row => row.join(','))].join('\n');
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="breach_register_${organisation?.name || 'org'}_${Date.now()}.csv"`);
+        res.send(csvContent);
+      } else {
+        return res.status(400).json({ message: "Invalid format. Supported formats: json, csv" });
+      }
+
+      // GDPR Audit Logging - Critical compliance export
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'export_breach_register',
+        resource: 'breach_register_export',
+        resourceId: `export_${Date.now()}`,
+        details: {
+          exportFormat: format,
+          totalBreaches: breaches.length,
+          exportedByAdmin: currentUser.id,
+          exportedByRole: currentUser.role,
+          gdprArticles: ['Article_33_Notification_to_Supervisory_Authority', 'Article_34_Communication_to_Data_Subject'],
+          legalRequirement: 'UK_GDPR_Articles_33_34_Compliance',
+          complianceExport: true,
+          icoSubmissionReady: true,
+          securityLevel: 'critical_compliance_export'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+    } catch (error: any) {
+      console.error("Error exporting breach register:", error);
+      res.status(500).json({ message: "Failed to export breach register" });
+    }
+  });
+
+  // ===== BREACH MANAGEMENT PATCH ENDPOINTS - TARGETED OPERATIONS =====
+
+  /**
+   * Update risk assessment for breach
+   * PATCH /api/gdpr/breaches/:id/risk-assessment
+   * Admin/SuperAdmin only - Risk evaluation updates
+   */
+  app.patch('/api/gdpr/breaches/:id/risk-assessment', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
 
       const existingBreach = await storage.getDataBreach(req.params.id);
       if (!existingBreach) {
@@ -4994,50 +5599,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
       }
 
-      if (existingBreach.status === 'resolved') {
-        return res.status(400).json({ message: "Breach is already resolved" });
-      }
+      const { likelihood, severityAssessment, riskScore, mitigatingFactors, overallRisk } = req.body;
 
-      const { resolutionNotes, lessonsLearned, preventiveMeasures } = req.body;
+      // Update breach metadata with risk assessment
+      const currentMetadata = existingBreach.metadata || {};
+      const updatedRiskAssessment = {
+        ...currentMetadata.riskAssessment,
+        likelihood: likelihood || currentMetadata.riskAssessment?.likelihood,
+        severityAssessment: severityAssessment || currentMetadata.riskAssessment?.severityAssessment,
+        riskScore: riskScore || currentMetadata.riskAssessment?.riskScore,
+        mitigatingFactors: mitigatingFactors || currentMetadata.riskAssessment?.mitigatingFactors,
+        overallRisk: overallRisk || currentMetadata.riskAssessment?.overallRisk,
+        assessedAt: new Date().toISOString(),
+        assessedBy: currentUser.id,
+        assessedByName: `${currentUser.firstName} ${currentUser.lastName}`
+      };
 
-      // Update breach to resolved status
-      const now = new Date();
       const updatedBreach = await storage.updateDataBreach(req.params.id, {
-        status: 'resolved',
         metadata: {
-          ...existingBreach.metadata,
-          resolution: {
-            resolvedAt: now.toISOString(),
-            resolvedBy: currentUser.id,
-            resolvedByName: `${currentUser.firstName} ${currentUser.lastName}`,
-            resolutionNotes: resolutionNotes || '',
-            lessonsLearned: lessonsLearned || '',
-            additionalPreventiveMeasures: preventiveMeasures || ''
-          },
+          ...currentMetadata,
+          riskAssessment: updatedRiskAssessment,
           lastUpdatedBy: currentUser.id,
-          lastUpdatedAt: now.toISOString()
+          lastUpdatedAt: new Date().toISOString()
         }
       });
 
-      // GDPR Audit Logging - Breach resolved
+      // GDPR Audit Logging - Risk assessment update
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'resolve_data_breach',
+        action: 'update_breach_risk_assessment',
         resource: 'data_breach',
         resourceId: req.params.id,
         details: {
-          breachSeverity: existingBreach.severity,
-          daysToResolution: Math.ceil((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60 * 24)),
-          icoNotified: !!existingBreach.icoNotifiedAt,
-          subjectsNotified: !!existingBreach.subjectsNotifiedAt,
-          resolvedByAdmin: currentUser.id,
-          resolvedByRole: currentUser.role,
-          resolutionNotes: resolutionNotes || '',
-          lessonsLearned: lessonsLearned || '',
-          gdprCompliance: true,
-          complianceStatus: 'breach_resolved_and_closed',
-          securityLevel: 'critical_breach_resolution'
+          previousRiskAssessment: currentMetadata.riskAssessment || null,
+          newRiskAssessment: updatedRiskAssessment,
+          assessedByAdmin: currentUser.id,
+          assessedByRole: currentUser.role,
+          gdprArticles: ['Article_33_Risk_Assessment', 'Article_34_Risk_Evaluation'],
+          complianceStatus: 'risk_assessment_updated',
+          securityLevel: 'critical_risk_evaluation'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
@@ -5046,225 +5647,471 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedBreach);
 
     } catch (error: any) {
-      console.error("Error resolving breach:", error);
-      res.status(500).json({ message: "Failed to resolve breach" });
+      console.error("Error updating breach risk assessment:", error);
+      res.status(500).json({ message: "Failed to update risk assessment" });
     }
   });
 
-  // ===== ENHANCED DATA RETENTION POLICY ROUTES =====
-  // GDPR Article 5(e) Storage Limitation Compliance with Automated Lifecycle Management
-
   /**
-   * Get organization's data retention policies
-   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   * Mark breach as ICO notified and send notification
+   * PATCH /api/gdpr/breaches/:id/ico-notify
+   * Admin/SuperAdmin only - Article 33 ICO notification
    */
-  app.get('/api/gdpr/retention-policies', requireAuth, async (req: any, res) => {
-    // Route guard: GDPR and data retention feature must be enabled
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/breaches/:id/ico-notify', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // RBAC: Only admin and superadmin can manage retention policies
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      const existingBreach = await storage.getDataBreach(req.params.id);
+      if (!existingBreach) {
+        return res.status(404).json({ message: "Data breach not found" });
       }
 
-      const policies = await storage.getDataRetentionPoliciesByOrganisation(currentUser.organisationId);
-      res.json(policies);
+      if (existingBreach.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
+      }
 
-    } catch (error) {
-      console.error("Error fetching retention policies:", error);
-      res.status(500).json({ message: "Failed to fetch retention policies" });
-    }
-  });
-
-  /**
-   * Create new data retention policy
-   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
-   */
-  app.post('/api/gdpr/retention-policies', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      // Check if already notified
+      if (existingBreach.icoNotifiedAt) {
+        return res.status(400).json({ message: "ICO already notified for this breach" });
       }
 
-      // RBAC: Only admin and superadmin can create retention policies
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // Get organization details for notification
+      const organisation = await getOrgById(storage, currentUser.organisationId);
+      if (!organisation) {
+        return res.status(400).json({ message: "Organisation not found" });
       }
 
-      const policyData = {
-        ...req.body,
-        organisationId: currentUser.organisationId,
-        createdBy: currentUser.id
-      };
-
-      // Validate legal basis and regulatory requirement
-      if (!policyData.legalBasis) {
-        return res.status(400).json({ message: "Legal basis is required for retention policy" });
-      }
+      // Send ICO notification via BreachNotificationService
+      const notificationResult = await breachNotificationService.sendICONotification(
+        existingBreach.id,
+        currentUser.organisationId,
+        {
+          id: currentUser.id,
+          name: `${currentUser.firstName} ${currentUser.lastName}`,
+          email: currentUser.email
+        }
+      );
 
-      const policy = await storage.createDataRetentionPolicy(policyData);
+      // Update breach status
+      const now = new Date();
+      const updatedBreach = await storage.updateDataBreach(req.params.id, {
+        icoNotifiedAt: now,
+        status: 'notified_ico',
+        metadata: {
+          ...existingBreach.metadata,
+          icoNotification: {
+            notifiedAt: now.toISOString(),
+            notifiedBy: currentUser.id,
+            notifiedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+            emailResult: notificationResult,
+            referenceNumber: `ICO-${existingBreach.id.substring(0, 8).toUpperCase()}-${Date.now()}`
+          },
+          lastUpdatedBy: currentUser.id,
+          lastUpdatedAt: now.toISOString()
+        }
+      });
 
-      // GDPR Audit Logging
+      // GDPR Audit Logging - ICO notification sent
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'create_retention_policy',
-        resource: 'data_retention_policy',
-        resourceId: policy.id,
+        action: 'notify_ico_data_breach',
+        resource: 'data_breach',
+        resourceId: req.params.id,
         details: {
-          dataType: policy.dataType,
-          retentionPeriod: policy.retentionPeriod,
-          legalBasis: policy.legalBasis,
-          automaticDeletion: policy.automaticDeletion,
-          createdByAdmin: currentUser.id,
-          complianceLevel: 'gdpr_article_5e'
+          breachSeverity: existingBreach.severity,
+          affectedSubjects: existingBreach.affectedSubjects,
+          notificationDeadline: existingBreach.notificationDeadline,
+          deadlineCompliance: now <= new Date(existingBreach.notificationDeadline),
+          hoursAfterDetection: Math.round((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60)),
+          notifiedByAdmin: currentUser.id,
+          notifiedByRole: currentUser.role,
+          emailResult: notificationResult,
+          gdprArticle33: true,
+          complianceStatus: 'ico_notified_article_33',
+          securityLevel: 'critical_regulatory_notification'
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.status(201).json(policy);
+      res.json({
+        ...updatedBreach,
+        notificationResult,
+        complianceStatus: {
+          icoNotified: true,
+          deadlineMet: now <= new Date(existingBreach.notificationDeadline),
+          hoursAfterDetection: Math.round((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60))
+        }
+      });
 
-    } catch (error) {
-      console.error("Error creating retention policy:", error);
-      res.status(500).json({ message: "Failed to create retention policy" });
+    } catch (error: any) {
+      console.error("Error notifying ICO:", error);
+      res.status(500).json({ message: "Failed to notify ICO" });
     }
   });
 
   /**
-   * Update existing data retention policy
-   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   * Send individual notifications to affected data subjects
+   * PATCH /api/gdpr/breaches/:id/notify-subjects
+   * Admin/SuperAdmin only - Article 34 individual notifications
    */
-  app.put('/api/gdpr/retention-policies/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/breaches/:id/notify-subjects', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // RBAC: Only admin and superadmin can update retention policies
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      const existingBreach = await storage.getDataBreach(req.params.id);
+      if (!existingBreach) {
+        return res.status(404).json({ message: "Data breach not found" });
       }
 
-      const existingPolicy = await storage.getDataRetentionPolicy(req.params.id);
-      if (!existingPolicy || existingPolicy.organisationId !== currentUser.organisationId) {
-        return res.status(404).json({ message: "Retention policy not found" });
+      if (existingBreach.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
       }
 
-      const updatedPolicy = await storage.updateDataRetentionPolicy(req.params.id, req.body);
-
-      // GDPR Audit Logging
-      await logGdprAudit({
-        organisationId: currentUser.organisationId,
-        adminId: currentUser.id,
-        action: 'update_retention_policy',
-        resource: 'data_retention_policy',
-        resourceId: req.params.id,
-        details: {
-          changes: req.body,
-          previousPolicy: existingPolicy,
-          updatedByAdmin: currentUser.id,
-          complianceLevel: 'gdpr_article_5e'
-        },
-        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown'
-      });
-
-      res.json(updatedPolicy);
-
-    } catch (error) {
-      console.error("Error updating retention policy:", error);
-      res.status(500).json({ message: "Failed to update retention policy" });
-    }
-  });
+      // Check if high-risk breach requiring individual notification
+      if (!['high', 'critical'].includes(existingBreach.severity)) {
+        return res.status(400).json({ 
+          message: "Individual notification not required for low/medium risk breaches" 
+        });
+      }
 
-  /**
-   * Delete data retention policy
-   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
-   */
-  app.delete('/api/gdpr/retention-policies/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
+      const { recipientEmails, notificationMessage } = req.body;
 
-    try {
-      const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!recipientEmails || !Array.isArray(recipientEmails) || recipientEmails.length === 0) {
+        return res.status(400).json({ message: "Recipient emails required" });
       }
 
-      // RBAC: Only admin and superadmin can delete retention policies
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // Get organization details
+      const organisation = await getOrgById(storage, currentUser.organisationId);
+      if (!organisation) {
+        return res.status(400).json({ message: "Organisation not found" });
       }
 
-      const existingPolicy = await storage.getDataRetentionPolicy(req.params.id);
-      if (!existingPolicy || existingPolicy.organisationId !== currentUser.organisationId) {
-        return res.status(404).json({ message: "Retention policy not found" });
-      }
+      // Send bulk notifications via BreachNotificationService
+      const notificationResults = await breachNotificationService.sendIndividualNotifications(
+        existingBreach.id,
+        currentUser.organisationId,
+        recipientEmails,
+        {
+          id: currentUser.id,
+          name: `${currentUser.firstName} ${currentUser.lastName}`,
+          email: currentUser.email
+        },
+        notificationMessage
+      );
 
-      await storage.deleteDataRetentionPolicy(req.params.id);
+      // Update breach with subject notification status
+      const now = new Date();
+      const updatedBreach = await storage.updateDataBreach(req.params.id, {
+        subjectsNotifiedAt: now,
+        status: existingBreach.icoNotifiedAt ? 'notified_subjects' : 'assessed',
+        metadata: {
+          ...existingBreach.metadata,
+          subjectNotifications: {
+            notifiedAt: now.toISOString(),
+            notifiedBy: currentUser.id,
+            notifiedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+            totalRecipients: recipientEmails.length,
+            results: notificationResults,
+            customMessage: notificationMessage
+          },
+          lastUpdatedBy: currentUser.id,
+          lastUpdatedAt: now.toISOString()
+        }
+      });
 
-      // GDPR Audit Logging
+      // GDPR Audit Logging - Subject notifications sent
       await logGdprAudit({
         organisationId: currentUser.organisationId,
         adminId: currentUser.id,
-        action: 'delete_retention_policy',
-        resource: 'data_retention_policy',
+        action: 'notify_subjects_data_breach',
+        resource: 'data_breach',
         resourceId: req.params.id,
         details: {
-          deletedPolicy: existingPolicy,
-          deletedByAdmin: currentUser.id,
-          complianceLevel: 'gdpr_article_5e'
+          breachSeverity: existingBreach.severity,
+          totalRecipientsNotified: recipientEmails.length,
+          successfulNotifications: notificationResults.filter(r => !r.error).length,
+          failedNotifications: notificationResults.filter(r => r.error).length,
+          notifiedByAdmin: currentUser.id,
+          notifiedByRole: currentUser.role,
+          gdprArticle34: true,
+          complianceStatus: 'subjects_notified_article_34',
+          securityLevel: 'critical_subject_notifications',
+          customMessage: !!notificationMessage
         },
         ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown'
       });
 
-      res.status(204).send();
+      res.json({
+        ...updatedBreach,
+        notificationResults,
+        summary: {
+          totalSent: recipientEmails.length,
+          successful: notificationResults.filter(r => !r.error).length,
+          failed: notificationResults.filter(r => r.error).length
+        }
+      });
 
-    } catch (error) {
-      console.error("Error deleting retention policy:", error);
-      res.status(500).json({ message: "Failed to delete retention policy" });
+    } catch (error: any) {
+      console.error("Error notifying subjects:", error);
+      res.status(500).json({ message: "Failed to notify affected subjects" });
     }
   });
 
   /**
-   * Get data lifecycle records for organization
-   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   * Close/resolve data breach
+   * PATCH /api/gdpr/breaches/:id/resolve
+   * Admin/SuperAdmin only - Breach resolution
    */
-  app.get('/api/gdpr/data-lifecycle', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/breaches/:id/resolve', requireAuth, requireGdpr('breachManagement'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
-      if (!currentUser) {
-        return res.status(401).json({ message: "User not found" });
+      if (!currentUser || !currentUser.organisationId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      // RBAC: Only admin and superadmin can view lifecycle data
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      const existingBreach = await storage.getDataBreach(req.params.id);
+      if (!existingBreach) {
+        return res.status(404).json({ message: "Data breach not found" });
+      }
+
+      if (existingBreach.organisationId !== currentUser.organisationId) {
+        return res.status(403).json({ message: "Access denied. Breach belongs to different organisation." });
+      }
+
+      if (existingBreach.status === 'resolved') {
+        return res.status(400).json({ message: "Breach is already resolved" });
+      }
+
+      const { resolutionNotes, lessonsLearned, preventiveMeasures } = req.body;
+
+      // Update breach to resolved status
+      const now = new Date();
+      const updatedBreach = await storage.updateDataBreach(req.params.id, {
+        status: 'resolved',
+        metadata: {
+          ...existingBreach.metadata,
+          resolution: {
+            resolvedAt: now.toISOString(),
+            resolvedBy: currentUser.id,
+            resolvedByName: `${currentUser.firstName} ${currentUser.lastName}`,
+            resolutionNotes: resolutionNotes || '',
+            lessonsLearned: lessonsLearned || '',
+            additionalPreventiveMeasures: preventiveMeasures || ''
+          },
+          lastUpdatedBy: currentUser.id,
+          lastUpdatedAt: now.toISOString()
+        }
+      });
+
+      // GDPR Audit Logging - Breach resolved
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'resolve_data_breach',
+        resource: 'data_breach',
+        resourceId: req.params.id,
+        details: {
+          breachSeverity: existingBreach.severity,
+          daysToResolution: Math.ceil((now.getTime() - new Date(existingBreach.detectedAt).getTime()) / (1000 * 60 * 60 * 24)),
+          icoNotified: !!existingBreach.icoNotifiedAt,
+          subjectsNotified: !!existingBreach.subjectsNotifiedAt,
+          resolvedByAdmin: currentUser.id,
+          resolvedByRole: currentUser.role,
+          resolutionNotes: resolutionNotes || '',
+          lessonsLearned: lessonsLearned || '',
+          gdprCompliance: true,
+          complianceStatus: 'breach_resolved_and_closed',
+          securityLevel: 'critical_breach_resolution'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.json(updatedBreach);
+
+    } catch (error: any) {
+      console.error("Error resolving breach:", error);
+      res.status(500).json({ message: "Failed to resolve breach" });
+    }
+  });
+
+  // ===== ENHANCED DATA RETENTION POLICY ROUTES =====
+  // GDPR Article 5(e) Storage Limitation Compliance with Automated Lifecycle Management
+
+  /**
+   * Get organization's data retention policies
+   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   */
+  app.get('/api/gdpr/retention-policies', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const policies = await storage.getDataRetentionPoliciesByOrganisation(currentUser.organisationId);
+      res.json(policies);
+
+    } catch (error) {
+      console.error("Error fetching retention policies:", error);
+      res.status(500).json({ message: "Failed to fetch retention policies" });
+    }
+  });
+
+  /**
+   * Create new data retention policy
+   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   */
+  app.post('/api/gdpr/retention-policies', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const policyData = {
+        ...req.body,
+        organisationId: currentUser.organisationId,
+        createdBy: currentUser.id
+      };
+
+      // Validate legal basis and regulatory requirement
+      if (!policyData.legalBasis) {
+        return res.status(400).json({ message: "Legal basis is required for retention policy" });
+      }
+
+      const policy = await storage.createDataRetentionPolicy(policyData);
+
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'create_retention_policy',
+        resource: 'data_retention_policy',
+        resourceId: policy.id,
+        details: {
+          dataType: policy.dataType,
+          retentionPeriod: policy.retentionPeriod,
+          legalBasis: policy.legalBasis,
+          automaticDeletion: policy.automaticDeletion,
+          createdByAdmin: currentUser.id,
+          complianceLevel: 'gdpr_article_5e'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.status(201).json(policy);
+
+    } catch (error) {
+      console.error("Error creating retention policy:", error);
+      res.status(500).json({ message: "Failed to create retention policy" });
+    }
+  });
+
+  /**
+   * Update existing data retention policy
+   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   */
+  app.put('/api/gdpr/retention-policies/:id', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const existingPolicy = await storage.getDataRetentionPolicy(req.params.id);
+      if (!existingPolicy || existingPolicy.organisationId !== currentUser.organisationId) {
+        return res.status(404).json({ message: "Retention policy not found" });
+      }
+
+      const updatedPolicy = await storage.updateDataRetentionPolicy(req.params.id, req.body);
+
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'update_retention_policy',
+        resource: 'data_retention_policy',
+        resourceId: req.params.id,
+        details: {
+          changes: req.body,
+          previousPolicy: existingPolicy,
+          updatedByAdmin: currentUser.id,
+          complianceLevel: 'gdpr_article_5e'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.json(updatedPolicy);
+
+    } catch (error) {
+      console.error("Error updating retention policy:", error);
+      res.status(500).json({ message: "Failed to update retention policy" });
+    }
+  });
+
+  /**
+   * Delete data retention policy
+   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   */
+  app.delete('/api/gdpr/retention-policies/:id', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const existingPolicy = await storage.getDataRetentionPolicy(req.params.id);
+      if (!existingPolicy || existingPolicy.organisationId !== currentUser.organisationId) {
+        return res.status(404).json({ message: "Retention policy not found" });
+      }
+
+      await storage.deleteDataRetentionPolicy(req.params.id);
+
+      // GDPR Audit Logging
+      await logGdprAudit({
+        organisationId: currentUser.organisationId,
+        adminId: currentUser.id,
+        action: 'delete_retention_policy',
+        resource: 'data_retention_policy',
+        resourceId: req.params.id,
+        details: {
+          deletedPolicy: existingPolicy,
+          deletedByAdmin: currentUser.id,
+          complianceLevel: 'gdpr_article_5e'
+        },
+        ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
+        userAgent: req.get('User-Agent') || 'unknown'
+      });
+
+      res.status(204).send();
+
+    } catch (error) {
+      console.error("Error deleting retention policy:", error);
+      res.status(500).json({ message: "Failed to delete retention policy" });
+    }
+  });
+
+  /**
+   * Get data lifecycle records for organization
+   * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
+   */
+  app.get('/api/gdpr/data-lifecycle', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      if (!currentUser) {
+        return res.status(401).json({ message: "User not found" });
       }
 
       const { status, dataType, userId } = req.query;
@@ -5295,22 +6142,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Execute manual retention scan for organization
    * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
    */
-  app.post('/api/gdpr/retention-scan', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/retention-scan', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admin and superadmin can execute retention scans
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const scanResult = await dataRetentionService.executeManualRetentionScan(currentUser.organisationId);
 
       // GDPR Audit Logging
@@ -5345,22 +6183,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Get retention status and overview for organization
    * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
    */
-  app.get('/api/gdpr/retention-status', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/retention-status', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admin and superadmin can view retention status
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const retentionStatus = await dataRetentionService.getRetentionStatus(currentUser.organisationId);
       const complianceReport = await storage.getRetentionComplianceReport(currentUser.organisationId);
 
@@ -5379,22 +6208,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Get retention compliance audits for organization
    * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
    */
-  app.get('/api/gdpr/retention-audits', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/retention-audits', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admin and superadmin can view compliance audits
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const { policyId } = req.query;
       let audits;
 
@@ -5416,22 +6236,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Get secure deletion certificates for organization
    * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
    */
-  app.get('/api/gdpr/deletion-certificates', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/deletion-certificates', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admin and superadmin can view deletion certificates
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const { userId } = req.query;
       let certificates;
 
@@ -5453,22 +6264,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Get specific deletion certificate by certificate number
    * Feature Guard: GDPR enabled + dataRetention feature + Admin role required
    */
-  app.get('/api/gdpr/deletion-certificates/:certificateNumber', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('dataRetention')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/deletion-certificates/:certificateNumber', requireAuth, requireGdpr('dataRetention'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // RBAC: Only admin and superadmin can view deletion certificates
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
-      }
-
       const certificate = await storage.getSecureDeletionCertificateByNumber(req.params.certificateNumber);
       
       if (!certificate || certificate.organisationId !== currentUser.organisationId) {
@@ -5486,22 +6288,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== INTERNATIONAL TRANSFERS API ROUTES - GDPR CHAPTER V COMPLIANCE =====
 
   // Get international transfers analytics and compliance overview
-  app.get('/api/gdpr/international-transfers/analytics', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/international-transfers/analytics', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access international transfers analytics
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const analytics = await storage.getTransferAnalytics(currentUser.organisationId);
       res.json(analytics);
 
@@ -5512,22 +6305,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all international transfers for organization
-  app.get('/api/gdpr/international-transfers', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/international-transfers', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access international transfers
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const { status, country, riskLevel, mechanism } = req.query;
       let transfers;
 
@@ -5552,22 +6336,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new international transfer
-  app.post('/api/gdpr/international-transfers', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/international-transfers', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to create international transfers
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const transferData = {
         ...req.body,
         organisationId: currentUser.organisationId,
@@ -5624,22 +6399,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific international transfer
-  app.get('/api/gdpr/international-transfers/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/international-transfers/:id', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access international transfers
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const transfer = await storage.getInternationalTransfer(req.params.id);
       
       if (!transfer || transfer.organisationId !== currentUser.organisationId) {
@@ -5655,22 +6421,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update international transfer
-  app.patch('/api/gdpr/international-transfers/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/international-transfers/:id', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to update international transfers
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const transfer = await storage.getInternationalTransfer(req.params.id);
       
       if (!transfer || transfer.organisationId !== currentUser.organisationId) {
@@ -5729,22 +6486,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete international transfer
-  app.delete('/api/gdpr/international-transfers/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.delete('/api/gdpr/international-transfers/:id', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to delete international transfers
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const transfer = await storage.getInternationalTransfer(req.params.id);
       
       if (!transfer || transfer.organisationId !== currentUser.organisationId) {
@@ -5780,22 +6528,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Validate transfer compliance
-  app.get('/api/gdpr/international-transfers/:id/compliance', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/international-transfers/:id/compliance', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to validate transfer compliance
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const transfer = await storage.getInternationalTransfer(req.params.id);
       
       if (!transfer || transfer.organisationId !== currentUser.organisationId) {
@@ -5812,22 +6551,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get overdue transfer reviews
-  app.get('/api/gdpr/international-transfers/reviews/overdue', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/international-transfers/reviews/overdue', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access overdue reviews
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const overdueTransfers = await storage.getOverdueTransferReviews(currentUser.organisationId);
       res.json(overdueTransfers);
 
@@ -5840,22 +6570,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== TRANSFER IMPACT ASSESSMENTS (TIA) ROUTES =====
 
   // Get all Transfer Impact Assessments for organization
-  app.get('/api/gdpr/transfer-impact-assessments', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/transfer-impact-assessments', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access TIAs
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const { status, country } = req.query;
       let tias;
 
@@ -5876,22 +6597,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new Transfer Impact Assessment
-  app.post('/api/gdpr/transfer-impact-assessments', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/transfer-impact-assessments', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to create TIAs
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const tiaData = {
         ...req.body,
         organisationId: currentUser.organisationId,
@@ -5936,22 +6648,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific Transfer Impact Assessment
-  app.get('/api/gdpr/transfer-impact-assessments/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/transfer-impact-assessments/:id', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access TIAs
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const tia = await storage.getTransferImpactAssessment(req.params.id);
       
       if (!tia || tia.organisationId !== currentUser.organisationId) {
@@ -5967,22 +6670,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update Transfer Impact Assessment
-  app.patch('/api/gdpr/transfer-impact-assessments/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/transfer-impact-assessments/:id', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to update TIAs
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const tia = await storage.getTransferImpactAssessment(req.params.id);
       
       if (!tia || tia.organisationId !== currentUser.organisationId) {
@@ -6028,22 +6722,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get overdue TIA reviews
-  app.get('/api/gdpr/transfer-impact-assessments/reviews/overdue', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('internationalTransfers')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/transfer-impact-assessments/reviews/overdue', requireAuth, requireGdpr('internationalTransfers'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Only allow admin or superadmin to access overdue TIA reviews
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
-
       const overdueTias = await storage.getOverdueTiaReviews(currentUser.organisationId);
       res.json(overdueTias);
 
@@ -6105,22 +6790,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ===== COMPLIANCE DOCUMENTS ROUTES =====
 
   // Get all compliance documents for organization
-  app.get('/api/gdpr/compliance-documents', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/compliance-documents', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Admin and SuperAdmin can access compliance documents
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -6139,21 +6815,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get compliance documents by type
-  app.get('/api/gdpr/compliance-documents/type/:documentType', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/compliance-documents/type/:documentType', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -6172,21 +6840,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate new compliance document
-  app.post('/api/gdpr/compliance-documents/generate', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/compliance-documents/generate', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const { documentType, templateId, title, description } = req.body;
 
       if (!documentType) {
@@ -6268,21 +6928,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific compliance document
-  app.get('/api/gdpr/compliance-documents/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/compliance-documents/:id', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const document = await storage.getComplianceDocument(req.params.id);
       
       if (!document) {
@@ -6290,7 +6942,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Organization scoping
-      if (currentUser.role === 'admin' && document.organisationId !== currentUser.organisationId) {
+      if (currentUser.role !== 'superadmin' && document.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied - cannot access documents outside your organization" });
       }
 
@@ -6303,21 +6955,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update compliance document
-  app.patch('/api/gdpr/compliance-documents/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/compliance-documents/:id', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const document = await storage.getComplianceDocument(req.params.id);
       
       if (!document) {
@@ -6325,7 +6969,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Organization scoping
-      if (currentUser.role === 'admin' && document.organisationId !== currentUser.organisationId) {
+      if (currentUser.role !== 'superadmin' && document.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied - cannot modify documents outside your organization" });
       }
 
@@ -6375,21 +7019,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Publish compliance document
-  app.post('/api/gdpr/compliance-documents/:id/publish', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/compliance-documents/:id/publish', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const document = await storage.getComplianceDocument(req.params.id);
       
       if (!document) {
@@ -6397,7 +7033,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Organization scoping
-      if (currentUser.role === 'admin' && document.organisationId !== currentUser.organisationId) {
+      if (currentUser.role !== 'superadmin' && document.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied - cannot publish documents outside your organization" });
       }
 
@@ -6457,21 +7093,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get document templates
-  app.get('/api/gdpr/compliance-document-templates', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/compliance-document-templates', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const { documentType } = req.query;
 
       let templates;
@@ -6490,21 +7118,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get document audit trail
-  app.get('/api/gdpr/compliance-documents/:id/audit', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/compliance-documents/:id/audit', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const document = await storage.getComplianceDocument(req.params.id);
       
       if (!document) {
@@ -6512,7 +7132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Organization scoping
-      if (currentUser.role === 'admin' && document.organisationId !== currentUser.organisationId) {
+      if (currentUser.role !== 'superadmin' && document.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied - cannot access audit trail outside your organization" });
       }
 
@@ -6526,21 +7146,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Preview document generation (without saving)
-  app.post('/api/gdpr/compliance-documents/preview', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled() || !isGdprFeatureEnabled('userRights')) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/compliance-documents/preview', requireAuth, requireGdpr('userRights'), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const { documentType, templateId } = req.body;
 
       if (!documentType) {
@@ -6580,21 +7192,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Comprehensive dashboard for tenant compliance monitoring and reporting
 
   // Get dashboard configuration for organization
-  app.get('/api/gdpr/dashboard', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -6650,21 +7254,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update dashboard configuration
-  app.patch('/api/gdpr/dashboard', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.patch('/api/gdpr/dashboard', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.body.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -6720,7 +7316,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // For regular users, limit to their own data visibility
-      if (currentUser.role === 'user') {
+      if (!(await hasPermission(currentUser, 'gdpr.manage'))) {
         // Users can only see aggregate numbers, not detailed breakdowns
         const limitedMetrics = {
           personalDataStatus: 'tracked', // Simplified view
@@ -6760,21 +7356,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get consent trends for dashboard charts
-  app.get('/api/gdpr/dashboard/trends/consent', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/trends/consent', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -6795,21 +7383,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user rights trends for dashboard charts
-  app.get('/api/gdpr/dashboard/trends/user-rights', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/trends/user-rights', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -6830,21 +7410,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get breach response metrics
-  app.get('/api/gdpr/dashboard/metrics/breaches', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/metrics/breaches', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -6864,21 +7436,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get compliance reports for organization
-  app.get('/api/gdpr/dashboard/reports', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/reports', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -6899,21 +7463,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new compliance report
-  app.post('/api/gdpr/dashboard/reports', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/dashboard/reports', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.body.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -6970,21 +7526,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get export jobs for organization
-  app.get('/api/gdpr/dashboard/export-jobs', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/export-jobs', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7005,21 +7553,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new export job
-  app.post('/api/gdpr/dashboard/export-jobs', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/dashboard/export-jobs', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.body.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -7078,21 +7618,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific export job status
-  app.get('/api/gdpr/dashboard/export-jobs/:id', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/dashboard/export-jobs/:id', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      if (!['admin', 'superadmin'].includes(currentUser.role)) {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const job = await storage.getExportJob(req.params.id);
       
       if (!job) {
@@ -7100,7 +7632,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Organization scoping
-      if (currentUser.role === 'admin' && job.organisationId !== currentUser.organisationId) {
+      if (currentUser.role !== 'superadmin' && job.organisationId !== currentUser.organisationId) {
         return res.status(403).json({ message: "Access denied - cannot access export job outside your organization" });
       }
 
@@ -7141,8 +7673,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const requestData = verificationSchema.parse(req.body);
 
-      // Authorization check - admins can verify any user, users can only verify themselves
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin' && requestData.userId !== currentUser.id) {
+      // Authorization check - admins and GDPR officers can verify any user, users can only verify themselves
+      if (requestData.userId !== currentUser.id && !(await hasPermission(currentUser, 'gdpr.manage'))) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -7195,7 +7727,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.params.userId;
 
       // Authorization check
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin' && userId !== currentUser.id) {
+      if (userId !== currentUser.id && !(await hasPermission(currentUser, 'gdpr.manage'))) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -7219,22 +7751,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all age verifications for organization (admin only)
-  app.get('/api/gdpr/age-verifications', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/age-verifications', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7251,11 +7774,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Parental Consent Routes
 
   // Create parental consent request
-  app.post('/api/gdpr/parental-consent', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/parental-consent', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
@@ -7276,11 +7795,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const requestData = consentSchema.parse(req.body);
 
-      // Only admins can create parental consent requests for now
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const consentRecord = await ageVerificationService.createParentalConsentRecord({
         ...requestData,
         organisationId: currentUser.organisationId,
@@ -7316,22 +7830,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Initiate parental consent verification
-  app.post('/api/gdpr/parental-consent/:id/verify', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/parental-consent/:id/verify', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only admins can initiate verification
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const consentId = req.params.id;
       const { verificationMethod } = req.body;
 
@@ -7368,22 +7873,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Grant parental consent after verification
-  app.post('/api/gdpr/parental-consent/:id/grant', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/parental-consent/:id/grant', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only admins can grant consent
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const consentId = req.params.id;
       const { verificationEvidence } = req.body;
 
@@ -7401,22 +7897,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Withdraw parental consent
-  app.post('/api/gdpr/parental-consent/:id/withdraw', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/parental-consent/:id/withdraw', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only admins can process withdrawals
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const consentId = req.params.id;
       const { reason, withdrawalMethod, parentIdentityVerified, withdrawalEvidence } = req.body;
 
@@ -7436,22 +7923,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get parental consent records for organization
-  app.get('/api/gdpr/parental-consents', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/parental-consents', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7475,22 +7953,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Family Account Management Routes
 
   // Create family account
-  app.post('/api/gdpr/family-accounts', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/family-accounts', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only admins can create family accounts
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const {
         primaryParentUserId,
         primaryContactEmail,
@@ -7516,22 +7985,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Link child to family account
-  app.post('/api/gdpr/family-accounts/:id/children', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/family-accounts/:id/children', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only admins can link children
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const familyAccountId = req.params.id;
       const { childUserId } = req.body;
 
@@ -7552,22 +8012,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Child Protection Settings Routes
 
   // Get child protection settings for organization
-  app.get('/api/gdpr/child-protection-settings', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/child-protection-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7582,22 +8033,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update child protection settings
-  app.put('/api/gdpr/child-protection-settings', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.put('/api/gdpr/child-protection-settings', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.body.organisationId || currentUser.organisationId
         : currentUser.organisationId;
@@ -7618,22 +8060,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Compliance Monitoring Routes
 
   // Get parental consent metrics
-  app.get('/api/gdpr/parental-consent/metrics', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/parental-consent/metrics', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7648,22 +8081,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get children approaching age transition
-  app.get('/api/gdpr/age-transitions', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.get('/api/gdpr/age-transitions', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const organisationId = currentUser.role === 'superadmin' 
         ? req.query.organisationId as string || currentUser.organisationId
         : currentUser.organisationId;
@@ -7680,22 +8104,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Process age transition for child
-  app.post('/api/gdpr/age-transitions/:childUserId/process', requireAuth, async (req: any, res) => {
-    if (!isGdprEnabled()) {
-      return res.status(404).json({ message: "Endpoint not found" });
-    }
-
+  app.post('/api/gdpr/age-transitions/:childUserId/process', requireAuth, requireGdpr(), requirePermission('gdpr.manage'), async (req: any, res) => {
     try {
       const currentUser = await getCurrentUser(req);
       if (!currentUser || !currentUser.organisationId) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      // Only allow admin access
-      if (currentUser.role !== 'admin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: "Access denied - admin privileges required" });
-      }
-
       const childUserId = req.params.childUserId;
 
       await ageVerificationService.processAgeTransition(childUserId, currentUser.id);
@@ -7730,7 +8145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not found" });
       }
       const userId = currentUser.id;
-      const { firstName, lastName, email, jobTitle, department, phone, bio, profileImageUrl } = req.body;
+      const { firstName, lastName, email, jobTitle, department, phone, bio, profileImageUrl, preferredLanguage } = req.body;
 
       console.log('Profile update request body:', req.body);
       console.log('Extracted fields:', {
@@ -7741,9 +8156,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         department,
         phone,
         bio,
-        profileImageUrl
+        profileImageUrl,
+        preferredLanguage
       });
 
+      if (preferredLanguage && !(preferredLanguage in EMAIL_LOCALES)) {
+        return res.status(400).json({ message: "Unsupported email language" });
+      }
+
       // Prepare update data, filtering out undefined/null values
       const updateData: any = {
         updatedAt: new Date(),
@@ -7756,6 +8176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (department !== undefined) updateData.department = department;
       if (phone !== undefined) updateData.phone = phone;
       if (bio !== undefined) updateData.bio = bio;
+      if (preferredLanguage !== undefined) updateData.preferredLanguage = preferredLanguage || null;
       
       // Handle profile image URL with ACL policy
       if (profileImageUrl !== undefined) {
@@ -7798,6 +8219,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User statistics endpoint
+  // The learner's own email delivery choice - null follows the organisation default
+  app.get('/api/user/notification-preferences', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const settings = user.organisationId ? await storage.getOrgNotificationSettings(user.organisationId) : undefined;
+      res.json({
+        emailDeliveryFrequency: user.emailDeliveryFrequency,
+        organisationDefault: settings?.learnerEmailDelivery || 'immediate',
+        effectiveFrequency: learnerDigestService.getDeliveryFrequency(user, settings),
+      });
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      res.status(500).json({ message: 'Failed to fetch notification preferences' });
+    }
+  });
+
+  app.put('/api/user/notification-preferences', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { emailDeliveryFrequency } = z.object({
+        emailDeliveryFrequency: z.enum(emailDeliveryFrequencyEnum.enumValues).nullable(),
+      }).parse(req.body);
+      const updated = await storage.updateUser(user.id, { emailDeliveryFrequency });
+
+      res.json({ emailDeliveryFrequency: updated.emailDeliveryFrequency });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid notification preferences', errors: error.errors });
+      }
+      console.error('Error updating notification preferences:', error);
+      res.status(500).json({ message: 'Failed to update notification preferences' });
+    }
+  });
+
   app.get('/api/user/stats', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
@@ -8055,9 +8518,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // 1. User is superadmin
       // 2. User is admin and certificate is from their organization  
       // 3. User owns the certificate AND has certificate download permission enabled
+      // 4. User is the learner's line manager
       const hasAccess = (user.role === 'superadmin') ||
                        (user.role === 'admin' && user.organisationId === certificate.organisationId) ||
-                       (certificate.userId === userId && user.allowCertificateDownload === true);
+                       (certificate.userId === userId && user.allowCertificateDownload === true) ||
+                       (user.isManager && (await teamService.getTeamMemberIds(user)).includes(certificate.userId));
       
       if (!hasAccess) {
         return res.status(403).json({ message: 'Access denied' });
@@ -8076,10 +8541,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const objectStorageService = new ObjectStorageService();
             const objectFile = await objectStorageService.getObjectEntityFile(certificate.certificateUrl);
             
-            // Set appropriate headers for PDF download
+            // Generated certificates are PDFs; evidence uploaded for external training may be an image
+            const [metadata] = await objectFile.getMetadata();
+            const contentType = metadata.contentType || 'application/pdf';
+            const extension = contentType === 'application/pdf' ? 'pdf' : (contentType.split('/')[1] || 'bin').replace('jpeg', 'jpg');
             res.set({
-              'Content-Type': 'application/pdf',
-              'Content-Disposition': `attachment; filename="certificate-${certificate.id}.pdf"`
+              'Content-Type': contentType,
+              'Content-Disposition': `attachment; filename="certificate-${certificate.id}.${extension}"`
             });
             
             // Stream the file directly to the response
@@ -8514,6 +8982,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Put a dead-lettered email back on the queue
+  app.post('/api/superadmin/email-logs/:id/requeue', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied - SuperAdmin only' });
+      }
+
+      const emailSend = await emailQueueWorker.requeue(req.params.id);
+      res.json({ ok: true, data: emailSend });
+    } catch (error) {
+      if (error instanceof EmailQueueError) {
+        return res.status(error.status).json({ ok: false, error: error.message });
+      }
+      console.error('Error requeueing email:', error);
+      res.status(500).json({ ok: false, error: 'Failed to requeue email' });
+    }
+  });
+
   // Certificate Template routes
   app.get('/api/certificate-templates', requireAuth, async (req: any, res) => {
     try {
@@ -8717,7 +9204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Generate certificate
-      const certificateUrl = await certificateService.generateCertificate(completion, completionUser, course, organisation);
+      const { certificateUrl, verificationCode } = await certificateService.generateCertificate(completion, completionUser, course, organisation);
       
       // Create certificate record
       const certificate = await storage.createCertificate({
@@ -8726,6 +9213,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         courseId: completion.courseId,
         organisationId: completion.organisationId,
         certificateUrl,
+        verificationCode,
         expiryDate: course.certificateExpiryPeriod ? 
           new Date(Date.now() + course.certificateExpiryPeriod * 30 * 24 * 60 * 60 * 1000) : 
           null,
@@ -8736,17 +9224,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Send certificate issued email
       if (completionUser.email) {
         try {
-          const { AutomatedEmailTemplates } = await import('./services/AutomatedEmailTemplates');
+          const { emailLocaleService } = await import('./services/EmailLocaleService');
           const userName = completionUser.firstName && completionUser.lastName 
             ? `${completionUser.firstName} ${completionUser.lastName}` 
             : (completionUser.firstName || completionUser.email);
-          const emailTemplate = AutomatedEmailTemplates.certificateIssued({
+          const emailTemplate = emailLocaleService.render('certificateIssued', {
             userName,
             courseName: course.title,
             issueDate: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
             certificateUrl: certificateUrl,
             orgName: organisation.displayName || organisation.name
-          });
+          }, completionUser.preferredLanguage);
 
           await emailOrchestrator.queue({
             triggerEvent: 'CERTIFICATE_ISSUED',
@@ -8839,7 +9327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Generate certificate
-          const certificateUrl = await certificateService.generateCertificate(completion, completionUser, course, organisation);
+          const { certificateUrl, verificationCode } = await certificateService.generateCertificate(completion, completionUser, course, organisation);
           
           // Create certificate record
           const certificate = await storage.createCertificate({
@@ -8848,6 +9336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             courseId: completion.courseId,
             organisationId: completion.organisationId,
             certificateUrl,
+            verificationCode,
             expiryDate: course.certificateExpiryPeriod ? 
               new Date(Date.now() + course.certificateExpiryPeriod * 30 * 24 * 60 * 60 * 1000) : 
               null,
@@ -9058,11 +9547,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Plan Change API - direct subscription update for plan changes
-  app.post('/api/subscriptions/change-plan', requireAuth, async (req: any, res) => {
+  app.post('/api/subscriptions/change-plan', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: 'Only admins can change plans' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { planId, userCount, organisationId } = req.body;
@@ -9176,12 +9665,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Subscription Update - direct subscription update for seat changes
-  app.post('/api/subscriptions/update', requireAuth, async (req: any, res) => {
+  app.post('/api/subscriptions/update', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
       
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
-        return res.status(403).json({ message: 'Access denied - admin only' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { planId, userCount, organisationId } = req.body;
@@ -9204,7 +9693,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const targetOrgId = organisationId || user.organisationId;
       
       // Verify user can only update their own organization (for admins)
-      if (user.role === 'admin' && user.organisationId !== targetOrgId) {
+      if (user.role !== 'superadmin' && user.organisationId !== targetOrgId) {
         console.log('Organisation ID mismatch:', { userOrgId: user.organisationId, requestOrgId: targetOrgId });
         return res.status(403).json({ message: 'Access denied - can only update own organization' });
       }
@@ -9360,16 +9849,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Internal Billing Management API Endpoints
   // POST /billing/org/:orgId/seats → body: { quantity }
-  app.post('/api/billing/org/:orgId/seats', requireAuth, async (req: any, res) => {
+  app.post('/api/billing/org/:orgId/seats', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: 'Access denied - admin only' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { orgId } = req.params;
       const { quantity } = req.body;
 
+      // Billing can only be changed for your own organisation
+      if (user.role !== 'superadmin' && user.organisationId !== orgId) {
+        return res.status(403).json({ message: 'Cannot modify other organizations' });
+      }
+
       if (!quantity || quantity < 1) {
         return res.status(400).json({ message: 'Valid quantity is required' });
       }
@@ -9421,16 +9915,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /billing/org/:orgId/usage → body: { activeUsers, at? }
-  app.post('/api/billing/org/:orgId/usage', requireAuth, async (req: any, res) => {
+  app.post('/api/billing/org/:orgId/usage', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: 'Access denied - admin only' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { orgId } = req.params;
       const { activeUsers, at } = req.body;
 
+      // Billing can only be changed for your own organisation
+      if (user.role !== 'superadmin' && user.organisationId !== orgId) {
+        return res.status(403).json({ message: 'Cannot modify other organizations' });
+      }
+
       if (!activeUsers || activeUsers < 0) {
         return res.status(400).json({ message: 'Valid activeUsers count is required' });
       }
@@ -9488,16 +9987,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /billing/org/:orgId/plan → body: { planId }
-  app.post('/api/billing/org/:orgId/plan', requireAuth, async (req: any, res) => {
+  app.post('/api/billing/org/:orgId/plan', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: 'Access denied - admin only' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { orgId } = req.params;
       const { planId } = req.body;
 
+      // Billing can only be changed for your own organisation
+      if (user.role !== 'superadmin' && user.organisationId !== orgId) {
+        return res.status(403).json({ message: 'Cannot modify other organizations' });
+      }
+
       if (!planId) {
         return res.status(400).json({ message: 'Plan ID is required' });
       }
@@ -9584,11 +10088,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/billing/preview-change → body: { planId, userCount }
-  app.post('/api/billing/preview-change', requireAuth, async (req: any, res) => {
+  app.post('/api/billing/preview-change', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: 'Access denied - admin only' });
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       const { planId, userCount } = req.body;
@@ -9652,13 +10156,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/billing/verify-checkout - Verify checkout sessions and update organization billing
-  app.get('/api/billing/verify-checkout', requireAuth, async (req: any, res) => {
+  app.get('/api/billing/verify-checkout', requireAuth, requirePermission('billing.manage'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      if (!user || user.role !== 'admin') {
+      if (!user) {
         return res.status(403).json({ 
           success: false,
-          message: 'Access denied - admin only' 
+          message: 'Access denied' 
         });
       }
 
@@ -9981,6 +10485,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Email provider delivery events (delivered, bounced, complained, opened, clicked).
+  // The organisation id is only in the URL of webhooks set up on an organisation's own provider account.
+  app.post('/api/webhooks/email/:provider/:organisationId?', async (req: any, res) => {
+    try {
+      const result = await emailDeliveryEventService.handleWebhook(
+        req.params.provider,
+        req.body,
+        req.headers,
+        req.params.organisationId
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof EmailWebhookError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error processing email delivery webhook:', error);
+      res.status(500).json({ message: 'Failed to process email delivery webhook' });
+    }
+  });
+
   // Subscription Diagnostics API for SuperAdmin
   // GET /api/subscription-diagnostics/:orgId - detailed subscription info with Stripe IDs
   app.get('/api/subscription-diagnostics/:orgId', requireAuth, async (req: any, res) => {
@@ -10762,7 +11286,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get certificates for the organization with user and course details
-      const certificates = await storage.getCertificatesByOrganisation(organisationId);
+      const teamFilter = await getTeamFilter(req.query.managerId, organisationId);
+      const certificates = (await storage.getCertificatesByOrganisation(organisationId))
+        .filter(cert => !teamFilter || teamFilter.has(cert.userId));
       
       // Enrich certificates with user and course data
       const enrichedCertificates = await Promise.all(
@@ -10793,6 +11319,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public certificate verification - the code is printed on the certificate and encoded in its QR code
+  app.get('/api/certificates/verify/:code', async (req, res) => {
+    try {
+      const code = req.params.code.trim().toUpperCase();
+      const certificate = await storage.getCertificateByVerificationCode(code);
+
+      if (!certificate) {
+        return res.status(404).json({ message: 'Certificate not found' });
+      }
+
+      const [learner, course, organisation] = await Promise.all([
+        storage.getUser(certificate.userId),
+        storage.getCourse(certificate.courseId),
+        storage.getOrganisation(certificate.organisationId)
+      ]);
+
+      let status: 'valid' | 'expired' | 'revoked' = 'valid';
+      if (certificate.revokedAt) {
+        status = 'revoked';
+      } else if (certificate.expiryDate && certificate.expiryDate < new Date()) {
+        status = 'expired';
+      }
+
+      // Only what is printed on the certificate itself - no email or score
+      res.json({
+        verificationCode: certificate.verificationCode,
+        learnerName: learner ? `${learner.firstName || ''} ${learner.lastName || ''}`.trim() : null,
+        courseTitle: course?.title || null,
+        organisationName: organisation?.displayName || organisation?.name || null,
+        issuedAt: certificate.issuedAt,
+        expiryDate: certificate.expiryDate,
+        status,
+        revokedAt: certificate.revokedAt,
+      });
+    } catch (error) {
+      console.error('Error verifying certificate:', error);
+      res.status(500).json({ message: 'Failed to verify certificate' });
+    }
+  });
+
+  // Revoke a certificate so it verifies as invalid
+  app.post('/api/certificates/:id/revoke', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const certificate = await storage.getCertificate(req.params.id);
+      if (!certificate) {
+        return res.status(404).json({ message: 'Certificate not found' });
+      }
+
+      if (user.role === 'admin' && certificate.organisationId !== user.organisationId) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      if (certificate.revokedAt) {
+        return res.status(400).json({ message: 'Certificate is already revoked' });
+      }
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+      const updated = await storage.updateCertificate(certificate.id, {
+        revokedAt: new Date(),
+        revokedBy: user.id,
+        revocationReason: reason || null,
+      });
+
+      console.log(`🚫 Certificate ${certificate.id} revoked by ${user.email}`);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      res.status(500).json({ message: 'Failed to revoke certificate' });
+    }
+  });
+
   // SCORM Preview route
   app.get('/api/scorm/preview', requireAuth, async (req: any, res) => {
     try {
@@ -11306,13 +11909,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Assignment not found or access denied' });
       }
 
-      const course = await storage.getCourse(assignment.courseId);
-      if (!course || !course.scormPackageUrl) {
+      if (assignment.isLocked) {
+        return res.status(423).json({ message: 'This course unlocks when the previous course in your learning path is passed' });
+      }
+
+      // Learners stay on the version they started, even after a new one is published
+      const pinned = await courseVersionService.getCourseForAssignment(assignment);
+      const course = pinned?.course;
+      if (!pinned || !course || !course.scormPackageUrl) {
         console.log(`❌ SCORM launch failed: Course ${assignment.courseId} or SCORM package not found`);
         return res.status(404).json({ message: 'Course or SCORM package not found' });
       }
+      const contentKey = courseVersionService.getContentKey(pinned.version);
 
-      console.log(`🚀 SCORM launch for assignment ${assignmentId}, course: ${course.title}`);
+      console.log(`🚀 SCORM launch for assignment ${assignmentId}, course: ${course.title} (version ${pinned.version.versionNumber})`);
       
       try {
         let launchUrl: string;
@@ -11341,8 +11951,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             console.log('✅ EnhancedScormService loaded, processing package...');
             
-            // Use course ID as the extraction directory
-            const packageInfo = await enhancedScormService.processScormPackage(course.scormPackageUrl, assignment.courseId);
+            // Each version extracts to its own directory
+            const packageInfo = await enhancedScormService.processScormPackage(course.scormPackageUrl, contentKey);
             
             console.log('📊 Enhanced processing complete:', {
               title: packageInfo.title,
@@ -11358,12 +11968,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             // Store enhanced SCORM data in database for future use
             try {
-              await storage.updateCourse(course.id, {
+              await courseVersionService.recordManifest(pinned.version, {
                 scormVersion: packageInfo.version,
                 scormOrganizations: packageInfo.organizations,
                 defaultOrganization: packageInfo.defaultOrganization
               });
-              console.log('✅ Course updated with enhanced SCORM data');
+              console.log('✅ Course version updated with enhanced SCORM data');
             } catch (updateError) {
               console.warn('⚠️ Failed to update course with enhanced data:', updateError);
             }
@@ -11373,7 +11983,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Fallback to basic SCORM processing
             const { ImprovedScormService } = await import('./services/improvedScormService');
             const improvedScormService = new ImprovedScormService();
-            const packageInfo = await improvedScormService.processScormPackage(course.scormPackageUrl, assignment.courseId);
+            const packageInfo = await improvedScormService.processScormPackage(course.scormPackageUrl, contentKey);
             
             launchUrl = packageInfo.launchUrl || '';
             scormVersion = packageInfo.version || '1.2';
@@ -11987,7 +12597,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const stats = await storage.getOrganisationStats(user.organisationId);
-      res.json(stats);
+      // Compliance is the share of mandatory training that is in date - null until courses are designated
+      const compliance = await complianceService.getOrganisationCompliance(user.organisationId);
+      res.json({
+        ...stats,
+        complianceRate: compliance.overall.percent,
+        complianceTarget: compliance.overall.targetPercent,
+        complianceRequired: compliance.overall.required,
+        complianceInDate: compliance.overall.inDate,
+        complianceByDepartment: compliance.byDepartment,
+      });
     } catch (error) {
       console.error('Error fetching admin stats:', error);
       res.status(500).json({ message: 'Failed to fetch admin stats' });
@@ -13883,6 +14502,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
+  /**
+   * GET /api/superadmin/email/translations
+   * Which automated email templates each language has a translation for
+   */
+  app.get('/api/superadmin/email/translations', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ ok: false, error: 'Access denied - SuperAdmin required' });
+      }
+
+      res.json({ ok: true, data: emailLocaleService.getTranslationCompleteness() });
+    } catch (error: any) {
+      console.error('Error fetching email translation completeness:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch translation completeness' });
+    }
+  });
+
   /**
    * 1. GET /api/superadmin/email/templates
    * List platform templates with resilient error handling
@@ -14704,7 +15341,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         apiSecret,
         apiBaseUrl,
         apiDomain,
-        apiRegion
+        apiRegion,
+        webhookSigningKey
       } = req.body;
 
       // Get existing settings to prevent masked value override
@@ -14724,6 +15362,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const processedApiKey = cleanSensitiveField(apiKey, existingSettings?.apiKey ?? undefined);
       const processedApiSecret = cleanSensitiveField(apiSecret, existingSettings?.apiSecret ?? undefined);
       const processedSmtpPassword = cleanSensitiveField(smtpPassword, existingSettings?.smtpPassword ?? undefined);
+      const processedWebhookSigningKey = cleanSensitiveField(webhookSigningKey, existingSettings?.webhookSigningKey ?? undefined);
 
       // Provider-aware validation
       const missingFields = [];
@@ -14784,6 +15423,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (apiRegion) {
           emailSettings.apiRegion = apiRegion;
         }
+        emailSettings.webhookSigningKey = processedWebhookSigningKey || null;
       }
 
       const updatedSettings = await storage.updateOrganisationSettings(organisationId, emailSettings);
@@ -15247,6 +15887,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const existingSettings = await storage.getSystemEmailSettings();
+
+      // The signing key is sent back masked unless a new one was entered
+      const webhookSigningKey = emailSettings.webhookSigningKey?.trim();
+      const processedWebhookSigningKey = webhookSigningKey && /^[•*]+$/.test(webhookSigningKey)
+        ? existingSettings?.webhookSigningKey ?? null
+        : webhookSigningKey || null;
+
       // Prepare settings data for storage
       const settingsData = {
         emailProvider: provider,
@@ -15266,12 +15914,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         apiBaseUrl: emailSettings.apiBaseUrl?.trim() || null,
         apiDomain: provider === 'mailgun_api' ? emailSettings.apiDomain?.trim() : null,
         apiRegion: provider === 'ses_api' ? emailSettings.apiRegion : null,
+        webhookSigningKey: provider !== 'smtp_generic' ? processedWebhookSigningKey : null,
         isActive: true,
         updatedBy: user.id,
       };
 
       // Check if settings exist and create or update accordingly
-      const existingSettings = await storage.getSystemEmailSettings();
       let savedSettings;
       
       if (existingSettings) {
@@ -15318,6 +15966,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           apiBaseUrl: '',
           apiDomain: '',
           apiRegion: '',
+          webhookSigningKey: '',
         });
       }
 
@@ -15340,6 +15989,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         apiBaseUrl: settings.apiBaseUrl || '',
         apiDomain: settings.apiDomain || '',
         apiRegion: settings.apiRegion || '',
+        webhookSigningKey: settings.webhookSigningKey ? '••••••••' : '',
       };
 
       res.json(responseData);
@@ -16289,8 +16939,1828 @@ This test was initiated by ${user.email}.
     }
   });
 
-  // Users routes
-  app.get('/api/users', requireAuth, async (req: any, res) => {
+  // Users routes
+  app.get('/api/users', requireAuth, requirePermission('users.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      let users;
+      if (user.role === 'superadmin') {
+        // SuperAdmin can see all users
+        const { role, organisationId, status, search } = req.query;
+        users = await storage.getUsersWithFilters({ role, organisationId, status, search });
+      } else if (user.organisationId) {
+        // Admins and user viewers can only see regular users (role = 'user') from their organisation, filtering out admin/superadmin accounts
+        users = await storage.getUsersWithFilters({ 
+          organisationId: user.organisationId,
+          role: 'user'
+        });
+      } else {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Either role can narrow the list to one manager's team
+      const teamOrganisationId = user.role === 'superadmin' ? req.query.organisationId : user.organisationId;
+      if (req.query.managerId && teamOrganisationId) {
+        const teamFilter = await getTeamFilter(req.query.managerId, teamOrganisationId);
+        users = users.filter(u => !teamFilter || teamFilter.has(u.id));
+      }
+
+      res.json(users);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ message: 'Failed to fetch users' });
+    }
+  });
+
+  // Update user status (deactivate/activate)
+  app.patch('/api/users/:id/status', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      const { id } = req.params;
+      const { status } = req.body;
+
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Get target user and validate modification permissions
+      const targetUser = await storage.getUser(id);
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Use RBAC helper to check modification permissions
+      const permission = await canUserModifyTarget(currentUser, targetUser);
+      if (!permission.canModify) {
+        return res.status(403).json({ message: permission.error });
+      }
+
+      // Validate status
+      if (!['active', 'inactive'].includes(status)) {
+        return res.status(400).json({ message: 'Invalid status. Must be active or inactive.' });
+      }
+
+      // Check license capacity if activating user  
+      if (status === 'active' && targetUser.status !== 'active') {
+        const licenseCheck = await checkLicenseCapacity(currentUser.id, 1);
+        if (!licenseCheck.canProceed) {
+          return res.status(403).json({ 
+            message: licenseCheck.error,
+            code: 'LICENSE_LIMIT_EXCEEDED'
+          });
+        }
+      }
+
+      const updatedUser = await storage.updateUser(id, { status });
+      res.json(updatedUser);
+    } catch (error) {
+      console.error('Error updating user status:', error);
+      res.status(500).json({ message: 'Failed to update user status' });
+    }
+  });
+
+  // Grant or remove the line manager flag - managers see and assign training for their team
+  app.patch('/api/users/:id/manager', requireAuth, requirePermission('users.manage', 'roles.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      const { id } = req.params;
+      const { isManager } = req.body;
+
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const targetUser = await storage.getUser(id);
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const permission = await canUserModifyTarget(currentUser, targetUser);
+      if (!permission.canModify) {
+        return res.status(403).json({ message: permission.error });
+      }
+
+      if (typeof isManager !== 'boolean') {
+        return res.status(400).json({ message: 'isManager must be true or false' });
+      }
+
+      const updatedUser = await storage.updateUser(id, { isManager });
+      res.json(updatedUser);
+    } catch (error) {
+      console.error('Error updating line manager flag:', error);
+      res.status(500).json({ message: 'Failed to update line manager flag' });
+    }
+  });
+
+  // Delete user
+  app.delete('/api/users/:id', requireAuth, requirePermission('users.delete'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      const { id } = req.params;
+
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Get the target user
+      const targetUser = await storage.getUser(id);
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Use RBAC helper to check modification permissions (includes self-deletion protection)
+      const permission = await canUserModifyTarget(currentUser, targetUser);
+      if (!permission.canModify) {
+        return res.status(403).json({ message: permission.error });
+      }
+
+      await storage.deleteUser(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ message: 'Failed to delete user' });
+    }
+  });
+
+  // Bulk update users
+  app.patch('/api/users/bulk', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      const { userIds, action, value } = req.body;
+
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
+        return res.status(400).json({ message: 'User IDs array is required' });
+      }
+
+      if (!action) {
+        return res.status(400).json({ message: 'Action is required' });
+      }
+
+      // Use RBAC helper to validate all target users before processing any
+      const targetUsers = [];
+      for (const userId of userIds) {
+        const targetUser = await storage.getUser(userId);
+        if (!targetUser) {
+          return res.status(404).json({ message: `User not found: ${userId}` });
+        }
+        
+        const permission = await canUserModifyTarget(currentUser, targetUser);
+        if (!permission.canModify) {
+          return res.status(403).json({ message: `${permission.error}: ${targetUser.email}` });
+        }
+        
+        targetUsers.push(targetUser);
+      }
+
+      // Check license capacity if activating users
+      if (action === 'status' && value === 'active') {
+        const usersToActivate = [];
+        for (const userId of userIds) {
+          const targetUser = await storage.getUser(userId);
+          if (targetUser && targetUser.status !== 'active') {
+            usersToActivate.push(userId);
+          }
+        }
+        
+        if (usersToActivate.length > 0) {
+          const licenseCheck = await checkLicenseCapacity(currentUser.id, usersToActivate.length);
+          if (!licenseCheck.canProceed) {
+            return res.status(403).json({ 
+              message: licenseCheck.error,
+              code: 'LICENSE_LIMIT_EXCEEDED'
+            });
+          }
+        }
+      }
+
+      const updatedUsers = [];
+      
+      for (const userId of userIds) {
+        try {
+          let updatedUser;
+          
+          switch (action) {
+            case 'status':
+              updatedUser = await storage.updateUser(userId, { status: value });
+              break;
+            case 'certificates':
+              updatedUser = await storage.updateUser(userId, { allowCertificateDownload: value });
+              break;
+            default:
+              return res.status(400).json({ message: 'Invalid action' });
+          }
+          
+          if (updatedUser) {
+            updatedUsers.push(updatedUser);
+          }
+        } catch (error) {
+          console.error(`Error updating user ${userId}:`, error);
+          // Continue with other users even if one fails
+        }
+      }
+
+      res.json({ 
+        message: `Successfully updated ${updatedUsers.length} out of ${userIds.length} users`,
+        updatedUsers 
+      });
+    } catch (error) {
+      console.error("Error performing bulk user update:", error);
+      res.status(500).json({ message: 'Failed to perform bulk update' });
+    }
+  });
+
+  app.post('/api/users', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Extract password from request body before validation. Custom roles are granted by editing the user.
+      const { password, ...userData } = req.body;
+      const validatedData = insertUserSchema.parse({ ...userData, managerId: userData.managerId || null, customRoleId: null });
+      
+      // Anyone but a superadmin can only create users in their organisation
+      if (user.role !== 'superadmin') {
+        validatedData.organisationId = user.organisationId;
+      }
+
+      // Only administrators can create administrator accounts
+      if (user.role === 'user' && validatedData.role && validatedData.role !== 'user') {
+        return res.status(403).json({ message: 'Access denied - cannot create administrator accounts' });
+      }
+
+      // The manager must be someone in the same organisation
+      if (validatedData.managerId) {
+        const managerError = await teamService.validateManager(null, validatedData.managerId, validatedData.organisationId ?? null);
+        if (managerError) {
+          return res.status(400).json({ message: managerError });
+        }
+      }
+
+      // Check license capacity if creating an active user
+      if (validatedData.status === 'active') {
+        const licenseCheck = await checkLicenseCapacity(user.id, 1);
+        if (!licenseCheck.canProceed) {
+          return res.status(403).json({ 
+            message: licenseCheck.error,
+            code: 'LICENSE_LIMIT_EXCEEDED'
+          });
+        }
+      }
+
+      // Check admin limit if creating an admin user
+      if (validatedData.role === 'admin') {
+        const orgId = validatedData.organisationId || user.organisationId;
+        if (!orgId) {
+          return res.status(400).json({ message: 'Organisation ID is required for admin users' });
+        }
+        
+        const adminLimitCheck = await storage.enforceAdminLimit(orgId);
+        if (!adminLimitCheck.allowed) {
+          return res.status(403).json({
+            message: 'Admin user limit exceeded',
+            code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
+            featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
+            maxAllowed: adminLimitCheck.error?.maxAllowed || 1
+          });
+        }
+      }
+
+      // Generate password and hash it
+      let userDataWithPassword: any = { ...validatedData };
+      let actualPassword = password;
+      
+      // If no password provided, generate a temporary one
+      if (!actualPassword) {
+        // Generate a secure temporary password
+        const chars = 'ABCDEFGHJKMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+        actualPassword = '';
+        for (let i = 0; i < 8; i++) {
+          actualPassword += chars.charAt(Math.floor(Math.random() * chars.length));
+        }
+        console.log(`Generated temporary password for ${validatedData.email}: ${actualPassword}`);
+      }
+      
+      // Hash the password (either provided or generated)
+      if (actualPassword) {
+        if (actualPassword.length < 6) {
+          return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+        }
+        const saltRounds = 10;
+        userDataWithPassword.passwordHash = await bcrypt.hash(actualPassword, saltRounds);
+        
+        // Set requiresPasswordChange to true if this is a generated password (no password was provided originally)
+        userDataWithPassword.requiresPasswordChange = !password; // true if password was auto-generated
+      }
+      
+      // Store the password for email context (use actualPassword instead of original password)
+      const passwordForEmail = actualPassword;
+
+      const newUser = await storage.createUser(userDataWithPassword);
+      
+      // Apply standing assignment rules to the new user
+      try {
+        await assignmentRuleService.applyRulesForUser(newUser);
+      } catch (error) {
+        console.error('[User Creation] Failed to apply assignment rules:', error);
+        // Don't break user creation flow on auto-assignment failure
+      }
+      
+      // Send notifications for new user creation
+      if (newUser.organisationId) {
+        try {
+          if (newUser.role === 'admin') {
+            await emailNotificationService.notifyNewAdminAdded(
+              newUser.organisationId,
+              newUser.id,
+              user.id
+            );
+          } else if (newUser.role === 'user') {
+            await emailNotificationService.notifyNewUserAdded(
+              newUser.organisationId,
+              newUser.id,
+              user.id
+            );
+          }
+        } catch (error) {
+          console.error('[User Creation] Failed to send user notification:', error);
+          // Don't break user creation flow on notification failure
+        }
+      }
+      
+      // Send welcome email with temporary password
+      if (newUser.email && passwordForEmail) {
+        try {
+          // Get organization info
+          let orgName = 'Your Learning Platform';
+          if (newUser.organisationId) {
+            const organisation = await getOrgById(storage, newUser.organisationId);
+            if (organisation) {
+              orgName = organisation.displayName || organisation.name;
+            }
+          }
+
+          // Generate welcome email using hardcoded MJML template, in the user's language
+          const { emailLocaleService } = await import('./services/EmailLocaleService');
+          const userName = newUser.firstName && newUser.lastName 
+            ? `${newUser.firstName} ${newUser.lastName}` 
+            : (newUser.firstName || newUser.email);
+          const emailTemplate = emailLocaleService.render('welcomeEmail', {
+            userName,
+            userEmail: newUser.email,
+            temporaryPassword: passwordForEmail,
+            orgName,
+            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`
+          }, newUser.preferredLanguage);
+
+          await emailOrchestrator.queue({
+            triggerEvent: 'WELCOME_EMAIL',
+            toEmail: newUser.email,
+            context: {},
+            organisationId: newUser.organisationId || undefined,
+            resourceId: newUser.id,
+            priority: 1,
+            preRenderedContent: {
+              subject: emailTemplate.subject,
+              htmlBody: emailTemplate.html,
+              textBody: emailTemplate.text
+            }
+          });
+          
+          console.log(`✅ WELCOME_EMAIL queued for ${newUser.email} with temporary password`);
+        } catch (emailError) {
+          console.warn('⚠️ Failed to queue WELCOME_EMAIL:', emailError);
+          // Don't fail user creation if email fails
+        }
+      }
+      
+      // Send notifications for new user creation (admin notifications)
+      if (EMAIL_TEMPLATES_V2_ENABLED && newUser.organisationId) {
+        try {
+          if (newUser.role === 'admin') {
+            await emailNotificationService.notifyNewAdminAdded(
+              newUser.organisationId,
+              newUser.id,
+              user.id
+            );
+          } else if (newUser.role === 'user') {
+            await emailNotificationService.notifyNewUserAdded(
+              newUser.organisationId,
+              newUser.id,
+              user.id
+            );
+          }
+        } catch (error) {
+          console.error('[User Creation] Failed to send user notification:', error);
+          // Don't break user creation flow on notification failure
+        }
+      }
+      
+      // LEGACY: Send welcome email for admin users with their password
+      // TODO: Remove this when EMAIL_TEMPLATES_V2 is fully deployed
+      if (!EMAIL_TEMPLATES_V2_ENABLED && validatedData.role === 'admin' && password) {
+        try {
+          // For admin users, get their organization ID
+          const orgId = newUser.organisationId || validatedData.organisationId;
+          if (orgId) {
+            const organisation = await getOrgById(storage, orgId);
+            if (organisation) {
+              // TODO: DEPRECATED - Replace with EmailOrchestrator when EMAIL_TEMPLATES_V2 migration is complete
+              // This legacy emailService.sendWelcomeEmail will be removed in favor of:
+              // await emailOrchestrator.triggerEvent('USER_FAST_ADD', { user: newUser, organisation, password })
+              // NOTE: sendWelcomeEmail method doesn't exist on emailService - using mailerService instead
+              if (newUser.email) {
+                await mailerService.send({
+                  to: newUser.email,
+                  subject: 'Welcome to your LMS - Account Created',
+                  html: `<p>Your account has been created. Email: ${newUser.email}, Password: ${password}</p>`,
+                  templateType: 'admin_welcome'
+                });
+              }
+              console.log(`Welcome email sent to admin user: ${newUser.email}`);
+            } else {
+              console.log(`No organization found for admin user: ${newUser.email}`);
+            }
+          } else {
+            console.log(`No organization ID for admin user: ${newUser.email}`);
+          }
+        } catch (emailError) {
+          console.error('Failed to send welcome email:', emailError);
+          // Don't fail the user creation if email sending fails
+        }
+      }
+      
+      // Send new user added notification to organization admins (only for regular users, not admins)
+      if (newUser.role !== 'admin' && newUser.role !== 'superadmin' && newUser.organisationId) {
+        const organization = await storage.getOrganisation(newUser.organisationId);
+        if (organization) {
+          const adminEmails = await getOrganizationAdminEmails(organization.id);
+          
+          await sendMultiRecipientNotification(
+            'New User Added',
+            adminEmails,
+            (adminEmail) => emailTemplateService.sendNewUserNotification(
+              adminEmail,
+              buildNewUserNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, newUser, user),
+              organization.id
+            )
+          );
+        }
+      }
+      
+      res.status(201).json({ 
+        ...newUser, 
+        welcomeEmailSent: validatedData.role === 'admin' && password ? true : false 
+      });
+    } catch (error: any) {
+      console.error('Error creating user:', error);
+      
+      // Handle duplicate email error
+      if (error?.code === '23505' && error?.constraint === 'users_email_unique') {
+        return res.status(409).json({ 
+          message: 'A user with this email address already exists',
+          error: 'DUPLICATE_EMAIL'
+        });
+      }
+      
+      res.status(500).json({ message: 'Failed to create user' });
+    }
+  });
+
+  // Update user by ID (for admin updates)
+  app.put('/api/users/:id', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const currentUserId = req.session.user?.id;
+      const currentUser = await storage.getUser(currentUserId);
+      
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { id } = req.params;
+      
+      // Get the target user to update
+      const targetUser = await storage.getUser(id);
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Use RBAC helper to check modification permissions
+      const permission = await canUserModifyTarget(currentUser, targetUser);
+      if (!permission.canModify) {
+        return res.status(403).json({ message: permission.error });
+      }
+
+      // Only profile fields may change here - role, organisation, credentials, lockout and manager flags are rejected
+      const validation = updateUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: 'Invalid user data',
+          errors: validation.error.errors
+        });
+      }
+      const updateData: any = {
+        ...validation.data,
+        updatedAt: new Date(),
+      };
+
+      // Granting a custom role needs the role management permission and a role from the user's organisation
+      let roleChange: { granted?: OrganisationRole; revoked?: OrganisationRole } | null = null;
+      if ('customRoleId' in updateData) {
+        updateData.customRoleId = updateData.customRoleId || null;
+        if (updateData.customRoleId !== targetUser.customRoleId) {
+          if (!(await hasPermission(currentUser, 'roles.manage'))) {
+            return res.status(403).json({ message: 'Access denied - cannot change custom roles' });
+          }
+          const granted = updateData.customRoleId ? await storage.getOrganisationRole(updateData.customRoleId) : undefined;
+          if (updateData.customRoleId && (!granted || granted.organisationId !== targetUser.organisationId)) {
+            return res.status(400).json({ message: 'Role not found in this organisation' });
+          }
+          const revoked = targetUser.customRoleId ? await storage.getOrganisationRole(targetUser.customRoleId) : undefined;
+          roleChange = { granted, revoked };
+        }
+      }
+
+      if ('preferredLanguage' in updateData) {
+        updateData.preferredLanguage = updateData.preferredLanguage || null;
+        if (updateData.preferredLanguage && !(updateData.preferredLanguage in EMAIL_LOCALES)) {
+          return res.status(400).json({ message: 'Unsupported email language' });
+        }
+      }
+
+      // Reporting line changes must not cross organisations or create a loop
+      if ('managerId' in updateData) {
+        updateData.managerId = updateData.managerId || null;
+        if (updateData.managerId) {
+          const managerError = await teamService.validateManager(targetUser.id, updateData.managerId, targetUser.organisationId);
+          if (managerError) {
+            return res.status(400).json({ message: managerError });
+          }
+        }
+      }
+
+      // Check license capacity if activating a user
+      if (updateData.status === 'active' && targetUser.status !== 'active') {
+        const licenseCheck = await checkLicenseCapacity(currentUser.id, 1);
+        if (!licenseCheck.canProceed) {
+          return res.status(403).json({ 
+            message: licenseCheck.error,
+            code: 'LICENSE_LIMIT_EXCEEDED'
+          });
+        }
+      }
+
+      const updatedUser = await storage.updateUser(id, updateData);
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (roleChange?.revoked) {
+        await recordRoleChange(req, currentUser, 'role_revoked', roleChange.revoked, { userId: updatedUser.id, userEmail: updatedUser.email });
+      }
+      if (roleChange?.granted) {
+        await recordRoleChange(req, currentUser, 'role_granted', roleChange.granted, { userId: updatedUser.id, userEmail: updatedUser.email });
+      }
+
+      // A department / job title / status change may bring the user under an assignment rule
+      try {
+        await assignmentRuleService.applyRulesForUser(updatedUser);
+      } catch (error) {
+        console.error('[User Update] Failed to apply assignment rules:', error);
+      }
+
+      res.json(updatedUser);
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({ message: 'Failed to update user' });
+    }
+  });
+
+  // Create individual assignments
+  app.post('/api/assignments', requireAuth, async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      
+      // Managers can assign to their own team as well as anyone who may assign courses
+      const canAssign = !!currentUser && await hasPermission(currentUser, 'courses.assign');
+      if (!currentUser || (!canAssign && !currentUser.isManager)) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { courseId, userId, dueDate, notificationsEnabled } = req.body;
+      let { organisationId, assignedBy } = req.body;
+
+      if (!courseId || !userId) {
+        return res.status(400).json({ message: 'Course ID and User ID are required' });
+      }
+
+      // Verify the course exists
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      // Verify the user exists and is in the right organization (for admins)
+      const targetUser = await storage.getUser(userId);
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Anyone but a superadmin can only assign to users in their organisation
+      if (currentUser.role !== 'superadmin') {
+        if (targetUser.organisationId !== currentUser.organisationId) {
+          return res.status(403).json({ message: 'Access denied: User not in your organization' });
+        }
+      }
+
+      // A manager can only assign their team courses their organisation has access to, in their own name
+      if (!canAssign) {
+        const team = await teamService.getTeamMemberIds(currentUser);
+        if (!team.includes(targetUser.id)) {
+          return res.status(403).json({ message: 'Access denied: User not in your team' });
+        }
+        const assignableCourses = await getAssignableCourses(currentUser.organisationId!);
+        if (!assignableCourses.some(c => c.id === course.id)) {
+          return res.status(403).json({ message: 'Access denied: Course not available to your organisation' });
+        }
+        organisationId = currentUser.organisationId;
+        assignedBy = currentUser.id;
+      }
+
+      // RACE CONDITION FIX: Create assignment data first, then handle duplicate constraint
+      const assignmentData = {
+        courseId,
+        userId,
+        organisationId: organisationId || currentUser.organisationId,
+        assignedBy: assignedBy || currentUser.id,
+        status: 'not_started' as const,
+        dueDate: dueDate ? new Date(dueDate) : null,
+        notificationsEnabled: notificationsEnabled || true
+      };
+
+      let assignment;
+      try {
+        // Try to create the assignment - database unique constraint will prevent duplicates
+        assignment = await storage.createAssignment(assignmentData);
+      } catch (error: any) {
+        // Handle unique constraint violation (duplicate assignment)
+        if (error.code === '23505' || error.message?.includes('duplicate') || error.message?.includes('unique')) {
+          console.log(`🔄 Duplicate assignment detected for user ${userId} and course ${courseId}, checking existing assignment`);
+          const existingAssignment = await storage.getExistingAssignment(courseId, userId);
+          if (existingAssignment) {
+            return res.status(409).json({ 
+              message: `This user is already assigned to ${course.title}. Cannot assign duplicate courses.`,
+              error: 'DUPLICATE_ASSIGNMENT',
+              existingAssignmentId: existingAssignment.id
+            });
+          }
+        }
+        // Re-throw other errors
+        throw error;
+      }
+      
+      // Send course assignment email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
+      if (EMAIL_TEMPLATES_V2_ENABLED) {
+        try {
+          const organisation = assignment.organisationId ? await storage.getOrganisation(assignment.organisationId) : null;
+          const context = {
+            user: {
+              name: `${targetUser.firstName} ${targetUser.lastName}`,
+              email: targetUser.email ?? undefined,
+              firstName: targetUser.firstName ?? undefined,
+              lastName: targetUser.lastName ?? undefined,
+              fullName: `${targetUser.firstName} ${targetUser.lastName}`
+            },
+            course: {
+              title: course.title,
+              description: course.description ?? undefined,
+              estimatedDuration: course.estimatedDuration
+            },
+            org: organisation ? {
+              name: organisation.name,
+              displayName: organisation.displayName || organisation.name
+            } : undefined,
+            assignedBy: {
+              name: `${currentUser.firstName || ''} ${currentUser.lastName || ''}`.trim() || currentUser.email || 'Administrator'
+            },
+            assignedAt: new Date().toISOString(),
+            dueDate: assignmentData.dueDate?.toISOString() || undefined,
+            courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${courseId}`,
+            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
+          };
+
+          // Only queue email if user has a valid email address
+          if (targetUser.email) {
+            await emailOrchestrator.queue({
+              triggerEvent: 'COURSE_ASSIGNED',
+              templateKey: 'course_assigned',
+              toEmail: targetUser.email,
+              context,
+              organisationId: assignment.organisationId || undefined,
+              priority: 2,
+              resourceId: `COURSE_ASSIGNED:${targetUser.email}:${courseId}:${assignment.id}`
+            });
+          }
+          
+          console.log(`✅ COURSE_ASSIGNED email queued for ${targetUser.email} (Individual assignment: ${course.title})`);
+        } catch (emailError) {
+          console.warn('⚠️ Failed to queue COURSE_ASSIGNED email:', emailError);
+          // Don't fail assignment if email fails
+        }
+      }
+      
+      // LEGACY: Send course assignment notification to organization admins
+      // TODO: Remove this when EMAIL_TEMPLATES_V2 is fully deployed
+      if (!EMAIL_TEMPLATES_V2_ENABLED && assignment.organisationId) {
+        const organization = await storage.getOrganisation(assignment.organisationId);
+        if (organization) {
+          const adminEmails = await getOrganizationAdminEmails(organization.id);
+          
+          await sendMultiRecipientNotification(
+            'Course Assignment',
+            adminEmails,
+            (adminEmail) => emailTemplateService.sendCourseAssignedNotification(
+              adminEmail,
+              buildCourseAssignedNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, targetUser, course, currentUser, assignment.dueDate?.toISOString()),
+              organization.id
+            )
+          );
+        }
+      }
+      
+      res.status(201).json(assignment);
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      res.status(500).json({ message: 'Failed to create assignment' });
+    }
+  });
+
+  // Clean up duplicate assignments (SUPERADMIN ONLY - global operation)
+  app.delete('/api/assignments/duplicates', requireAuth, async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      
+      // SECURITY: Restrict to SUPERADMIN only - this is a GLOBAL operation that affects ALL organizations
+      if (!currentUser || currentUser.role !== 'superadmin') {
+        return res.status(403).json({ 
+          message: 'Access denied - SuperAdmin privileges required',
+          reason: 'Duplicate cleanup is a global system operation'
+        });
+      }
+
+      // Find and remove duplicate assignments
+      const duplicateGroups = await storage.findDuplicateAssignments();
+      
+      if (duplicateGroups.length === 0) {
+        return res.json({ 
+          message: 'No duplicate assignments found',
+          duplicatesRemoved: 0,
+          duplicateGroups: 0
+        });
+      }
+
+      // Remove duplicate assignments (keeping earliest ones)
+      const result = await storage.removeDuplicateAssignments();
+      
+      console.log(`✅ Duplicate cleanup completed: ${result.duplicatesRemoved} duplicates removed from ${result.duplicateGroups} groups`);
+      
+      res.json({ 
+        message: `Successfully removed ${result.duplicatesRemoved} duplicate assignments from ${result.duplicateGroups} groups`,
+        duplicatesRemoved: result.duplicatesRemoved,
+        duplicateGroups: result.duplicateGroups,
+        details: duplicateGroups.map(group => ({
+          courseId: group.courseId,
+          userId: group.userId,
+          duplicatesFound: group.count,
+          duplicatesRemoved: group.duplicateIds.length
+        }))
+      });
+    } catch (error) {
+      console.error('Error cleaning up duplicate assignments:', error);
+      res.status(500).json({ message: 'Failed to clean up duplicate assignments' });
+    }
+  });
+
+  // Clean up duplicate assignments within organization (ADMIN safe - organization-scoped)
+  app.delete('/api/assignments/duplicates/organization', requireAuth, async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      
+      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // For admin users, use their organization. For superadmin, allow specifying organization
+      const organisationId = currentUser.role === 'superadmin' && req.query.organisationId 
+        ? req.query.organisationId as string 
+        : currentUser.organisationId;
+
+      if (!organisationId) {
+        return res.status(400).json({ 
+          message: 'Organization ID required',
+          reason: 'Cannot determine target organization for cleanup operation'
+        });
+      }
+
+      // Find and remove duplicate assignments within the organization
+      const duplicateGroups = await storage.findDuplicateAssignmentsByOrganisation(organisationId);
+      
+      if (duplicateGroups.length === 0) {
+        return res.json({ 
+          message: 'No duplicate assignments found in this organization',
+          duplicatesRemoved: 0,
+          duplicateGroups: 0
+        });
+      }
+
+      // Remove duplicate assignments within the organization (keeping earliest ones)
+      const result = await storage.removeDuplicateAssignmentsByOrganisation(organisationId);
+      
+      console.log(`✅ Organization-scoped duplicate cleanup completed for org ${organisationId}: ${result.duplicatesRemoved} duplicates removed from ${result.duplicateGroups} groups`);
+      
+      res.json({ 
+        message: `Successfully removed ${result.duplicatesRemoved} duplicate assignments from ${result.duplicateGroups} groups in your organization`,
+        duplicatesRemoved: result.duplicatesRemoved,
+        duplicateGroups: result.duplicateGroups,
+        organisationId,
+        details: duplicateGroups.map(group => ({
+          courseId: group.courseId,
+          userId: group.userId,
+          duplicatesFound: group.count,
+          duplicatesRemoved: group.duplicateIds.length
+        }))
+      });
+    } catch (error) {
+      console.error('Error cleaning up organization duplicate assignments:', error);
+      res.status(500).json({ message: 'Failed to clean up duplicate assignments' });
+    }
+  });
+
+  // Get admin users for organization
+  app.get('/api/admin/admin-users/:organisationId', requireAuth, async (req: any, res) => {
+    try {
+      const currentUserId = req.session.user?.id;
+      const currentUser = await storage.getUser(currentUserId);
+      
+      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = req.params.organisationId;
+      
+      // Admin can only view admin users for their own organization
+      if (currentUser.role === 'admin' && currentUser.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Get all admin and superadmin users for the organization
+      const adminUsers = await storage.getUsersWithFilters({
+        organisationId,
+        role: ['admin', 'superadmin']
+      });
+
+      res.json(adminUsers);
+    } catch (error) {
+      console.error('Error fetching admin users:', error);
+      res.status(500).json({ message: 'Failed to fetch admin users' });
+    }
+  });
+
+  // Promote user to admin
+  app.post('/api/admin/promote-user/:userId', requireAuth, async (req: any, res) => {
+    try {
+      const currentUserId = req.session.user?.id;
+      const currentUser = await storage.getUser(currentUserId);
+      
+      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { userId } = req.params;
+      const targetUser = await storage.getUser(userId);
+      
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Admin can only promote users within their organization
+      if (currentUser.role === 'admin') {
+        if (targetUser.organisationId !== currentUser.organisationId) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
+
+      // Cannot promote superadmins or existing admins
+      if (targetUser.role === 'superadmin' || targetUser.role === 'admin') {
+        return res.status(400).json({ message: 'User is already an administrator' });
+      }
+
+      // Check admin limit before promoting
+      const orgId = targetUser.organisationId;
+      if (!orgId) {
+        return res.status(400).json({ message: 'User must be associated with an organisation' });
+      }
+      
+      const adminLimitCheck = await storage.enforceAdminLimit(orgId);
+      if (!adminLimitCheck.allowed) {
+        return res.status(403).json({
+          message: 'Admin user limit exceeded',
+          code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
+          featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
+          maxAllowed: adminLimitCheck.error?.maxAllowed || 1
+        });
+      }
+
+      const updatedUser = await storage.updateUser(userId, { role: 'admin' });
+      
+      // Send new admin added notification using EmailNotificationService
+      try {
+        await emailNotificationService.notifyNewAdminAdded(
+          targetUser.organisationId!,
+          updatedUser.id,
+          currentUser.id
+        );
+      } catch (error) {
+        console.error('[User Promotion] Failed to send admin notification:', error);
+        // Don't break promotion flow on notification failure
+      }
+      
+      res.json({ message: 'User promoted to admin successfully', user: updatedUser });
+    } catch (error) {
+      console.error('Error promoting user to admin:', error);
+      res.status(500).json({ message: 'Failed to promote user to admin' });
+    }
+  });
+
+  // Remove admin privileges (demote to user)
+  app.post('/api/admin/demote-user/:userId', requireAuth, async (req: any, res) => {
+    try {
+      const currentUserId = req.session.user?.id;
+      const currentUser = await storage.getUser(currentUserId);
+      
+      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { userId } = req.params;
+      const targetUser = await storage.getUser(userId);
+      
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // Admin can only demote users within their organization
+      if (currentUser.role === 'admin') {
+        if (targetUser.organisationId !== currentUser.organisationId) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+      }
+
+      // Cannot demote yourself
+      if (targetUser.id === currentUser.id) {
+        return res.status(400).json({ message: 'Cannot remove your own admin privileges' });
+      }
+
+      // Cannot demote superadmins unless you are a superadmin
+      if (targetUser.role === 'superadmin' && currentUser.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Cannot demote superadmin users' });
+      }
+
+      // Cannot demote if not an admin
+      if (targetUser.role !== 'admin' && targetUser.role !== 'superadmin') {
+        return res.status(400).json({ message: 'User is not an administrator' });
+      }
+
+      const updatedUser = await storage.updateUser(userId, { role: 'user' });
+      res.json({ message: 'Admin privileges removed successfully', user: updatedUser });
+    } catch (error) {
+      console.error('Error demoting admin user:', error);
+      res.status(500).json({ message: 'Failed to remove admin privileges' });
+    }
+  });
+
+  // Get overdue assignments count
+  app.get('/api/admin/overdue-count/:organisationId', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const organisationId = req.params.organisationId;
+      
+      // Only superadmins can see other organisations' figures
+      if (!user || (user.role !== 'superadmin' && user.organisationId !== organisationId)) {
+        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      }
+
+      const now = new Date();
+      
+      // Get all assignments for the organisation
+      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
+      
+      // Get all users for the organisation to filter by active status
+      const users = await storage.getUsersByOrganisation(organisationId);
+      const teamFilter = await getTeamFilter(req.query.managerId, organisationId);
+      const activeUserIds = new Set(users
+        .filter(user => user.status === 'active' && (!teamFilter || teamFilter.has(user.id)))
+        .map(user => user.id));
+      
+      // Count overdue assignments (due date passed or status is overdue) for ACTIVE users only
+      const overdueCount = assignments.filter(assignment => {
+        // Only count assignments for active users
+        if (!activeUserIds.has(assignment.userId)) {
+          return false;
+        }
+        
+        if (assignment.status === 'overdue') {
+          return true;
+        }
+        if (assignment.dueDate) {
+          const dueDate = new Date(assignment.dueDate);
+          return dueDate < now && assignment.status !== 'completed';
+        }
+        return false;
+      }).length;
+      
+      res.json({ overdueCount });
+    } catch (error) {
+      console.error('Error fetching overdue count:', error);
+      res.status(500).json({ message: 'Failed to fetch overdue count' });
+    }
+  });
+
+  // Get expiring training data
+  app.get('/api/admin/expiring-training/:organisationId', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = req.params.organisationId;
+      
+      // For admins, ensure they can only access their own organisation's data
+      if (user.role !== 'superadmin' && user.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      }
+
+      const now = new Date();
+      const sevenDaysFromNow = new Date();
+      sevenDaysFromNow.setDate(now.getDate() + 7);
+      const thirtyDaysFromNow = new Date();
+      thirtyDaysFromNow.setDate(now.getDate() + 30);
+      const ninetyDaysFromNow = new Date();
+      ninetyDaysFromNow.setDate(now.getDate() + 90);
+      
+      // Get all assignments for the organisation
+      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
+      
+      // Get all users for the organisation
+      const users = await storage.getUsersByOrganisation(organisationId);
+      const teamFilter = await getTeamFilter(req.query.managerId, organisationId);
+      const activeUsers = users.filter(u => u.status === 'active' && u.role === 'user' && (!teamFilter || teamFilter.has(u.id)));
+      
+      // Get all courses
+      const courses = await storage.getAllCourses();
+      
+      // Get all completions
+      const completions = await storage.getCompletionsByOrganisation(organisationId);
+      
+      const expiringTraining = [];
+      
+      for (const assignment of assignments) {
+        // Skip if assignment is already completed
+        if (assignment.status === 'completed') continue;
+        
+        const user = activeUsers.find(u => u.id === assignment.userId);
+        const course = courses.find(c => c.id === assignment.courseId);
+        
+        if (!user || !course) continue;
+        
+        // Check if user has any completions for this course
+        const userCompletions = completions.filter(c => 
+          c.userId === assignment.userId && 
+          c.courseId === assignment.courseId &&
+          c.status === 'pass'
+        );
+        
+        const latestCompletion = userCompletions.sort((a, b) => 
+          new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
+        )[0];
+        
+        let daysUntilDue = null;
+        let isExpiring = false;
+        
+        if (latestCompletion && course.certificateExpiryPeriod) {
+          // Course is completed but might be expiring
+          const completionDate = new Date(latestCompletion.completedAt!);
+          const expiryDate = new Date(completionDate);
+          expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
+          
+          if (expiryDate <= ninetyDaysFromNow) {
+            daysUntilDue = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+            isExpiring = true;
+          }
+        } else if (!latestCompletion && assignment.dueDate) {
+          // Course is not completed and has a due date
+          const dueDate = new Date(assignment.dueDate);
+          if (dueDate <= ninetyDaysFromNow) {
+            daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+            isExpiring = true;
+          }
+        }
+        
+        if (isExpiring && daysUntilDue !== null) {
+          expiringTraining.push({
+            userId: user.id,
+            userName: `${user.firstName} ${user.lastName}`,
+            courseId: course.id,
+            courseTitle: course.title,
+            dueDate: latestCompletion && course.certificateExpiryPeriod ? 
+              new Date(new Date(latestCompletion.completedAt!).setMonth(
+                new Date(latestCompletion.completedAt!).getMonth() + course.certificateExpiryPeriod
+              )).toISOString() : 
+              assignment.dueDate,
+            daysUntilDue,
+            isExpiry: !!latestCompletion
+          });
+        }
+      }
+      
+      res.json(expiringTraining);
+    } catch (error) {
+      console.error('Error fetching expiring training:', error);
+      res.status(500).json({ message: 'Failed to fetch expiring training' });
+    }
+  });
+
+  // Recertification history - every assignment cycle for a learner on a course
+  app.get('/api/admin/recertification/:userId/:courseId', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const learner = await storage.getUser(req.params.userId);
+      if (!learner || (user.role !== 'superadmin' && learner.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const history = await recertificationService.getHistory(learner.id, req.params.courseId);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching recertification history:', error);
+      res.status(500).json({ message: 'Failed to fetch recertification history' });
+    }
+  });
+
+  // Run the recertification sweep now instead of waiting for the scheduler
+  app.post('/api/superadmin/recertification/run', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const result = await recertificationService.processDueRecertifications();
+      res.json(result);
+    } catch (error) {
+      console.error('Error running recertification:', error);
+      res.status(500).json({ message: 'Failed to run recertification' });
+    }
+  });
+
+  // Get recent completions for admin dashboard
+  app.get('/api/admin/recent-completions/:organisationId', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = req.params.organisationId;
+      
+      // For admins, ensure they can only access their own organisation's data
+      if (user.role !== 'superadmin' && user.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      }
+
+      // Get all users for the organisation
+      const users = await storage.getUsersByOrganisation(organisationId);
+      const teamFilter = await getTeamFilter(req.query.managerId, organisationId);
+      const userMap = new Map(users.filter(u => !teamFilter || teamFilter.has(u.id)).map(u => [u.id, u]));
+      
+      // Get all courses
+      const courses = await storage.getAllCourses();
+      const courseMap = new Map(courses.map(c => [c.id, c]));
+      
+      // Get recent completions (last 30 days)
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      
+      const allCompletions = await storage.getCompletionsByOrganisation(organisationId);
+      const recentCompletions = allCompletions
+        .filter(completion => {
+          const user = userMap.get(completion.userId);
+          const completionDate = new Date(completion.completedAt!);
+          return user && 
+                 user.organisationId === organisationId && 
+                 completion.status === 'pass' && 
+                 completionDate >= thirtyDaysAgo;
+        })
+        .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())
+        .slice(0, 3)
+        .map(completion => {
+          const user = userMap.get(completion.userId);
+          const course = courseMap.get(completion.courseId);
+          return {
+            id: completion.id,
+            userId: completion.userId,
+            userName: user ? `${user.firstName} ${user.lastName}` : 'Unknown User',
+            courseTitle: course?.title || 'Unknown Course',
+            score: completion.score ? parseFloat(completion.score) : 0,
+            completedAt: completion.completedAt
+          };
+        });
+      
+      res.json(recentCompletions);
+    } catch (error) {
+      console.error('Error fetching recent completions:', error);
+      res.status(500).json({ message: 'Failed to fetch recent completions' });
+    }
+  });
+
+  // Get analytics/completions data for admin dashboard  
+  app.get('/api/admin/analytics/completions/:organisationId', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = req.params.organisationId;
+      
+      // For admins, ensure they can only access their own organisation's data
+      if (user.role !== 'superadmin' && user.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      }
+
+      // Get completion analytics for this organisation, or one manager's team within it
+      const teamFilter = await getTeamFilter(req.query.managerId, organisationId);
+      const completionAnalytics = await storage.getCompletionAnalytics(organisationId, teamFilter ? Array.from(teamFilter) : undefined);
+      
+      res.json(completionAnalytics);
+    } catch (error) {
+      console.error('Error fetching completion analytics:', error);
+      res.status(500).json({ message: 'Failed to fetch completion analytics' });
+    }
+  });
+
+  // Audit Log API (Admin access with feature check)
+  app.get('/api/admin/audit-logs/:organisationId', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = req.params.organisationId;
+      
+      // For admins, ensure they can only access their own organisation's data
+      if (user.role === 'admin' && user.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      }
+
+      // Get organisation to check plan features
+      const organisation = await storage.getOrganisation(organisationId);
+      if (!organisation) {
+        return res.status(404).json({ message: 'Organisation not found' });
+      }
+
+      // Check if audit log feature is enabled for the organisation's plan
+      const hasAuditLogAccess = await hasFeatureAccess(organisationId, 'audit_log');
+      if (!hasAuditLogAccess) {
+        return res.status(403).json({ message: 'Audit log feature not available for your plan' });
+      }
+
+      // Get pagination parameters
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      // Fetch audit logs for the organisation
+      const auditLogs = await storage.getAuditLogs(organisationId, limit, offset);
+      
+      res.json(auditLogs);
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      res.status(500).json({ message: 'Failed to fetch audit logs' });
+    }
+  });
+
+  // Create audit log entry (internal use)
+  app.post('/api/admin/audit-logs', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { organisationId, action, resource, resourceId, details } = req.body;
+      
+      // For admins, ensure they can only create logs for their own organisation
+      if (user.role === 'admin' && user.organisationId !== organisationId) {
+        return res.status(403).json({ message: 'Access denied: Cannot create logs for other organisation' });
+      }
+
+      // Create audit log entry
+      const auditLog = await storage.createAuditLog({
+        organisationId,
+        userId: user.id,
+        action,
+        resource,
+        resourceId,
+        details: details || '',
+        ipAddress: req.ip || req.connection.remoteAddress || '',
+        userAgent: req.get('User-Agent') || '',
+      });
+      
+      res.status(201).json(auditLog);
+    } catch (error) {
+      console.error('Error creating audit log:', error);
+      res.status(500).json({ message: 'Failed to create audit log' });
+    }
+  });
+
+  // Get training matrix data
+  app.get('/api/training-matrix', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const currentUser = await getCurrentUser(req);
+      
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = currentUser.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      // Extract filter parameters
+      const { departments, roles, courses: coursesQuery, statuses, staff: staffFilter, mandatoryOnly, managerId } = req.query;
+      const departmentFilter = departments ? departments.split(',') : [];
+      const roleFilter = roles ? roles.split(',') : [];
+      const courseFilter = coursesQuery ? coursesQuery.split(',') : [];
+      const statusFilter = statuses ? statuses.split(',') : [];
+      const staffIdFilter = staffFilter ? staffFilter.split(',') : [];
+      const mandatoryOnlyFilter = mandatoryOnly === 'true';
+      const teamFilter = await getTeamFilter(managerId, organisationId);
+
+      res.json(await trainingMatrixService.buildMatrix(organisationId, {
+        departments: departmentFilter,
+        roles: roleFilter,
+        courses: courseFilter,
+        statuses: statusFilter,
+        staff: staffIdFilter,
+        mandatoryOnly: mandatoryOnlyFilter,
+        teamUserIds: teamFilter ? Array.from(teamFilter) : undefined,
+      }));
+    } catch (error) {
+      console.error('Error fetching training matrix:', error);
+      res.status(500).json({ message: 'Failed to fetch training matrix' });
+    }
+  });
+
+  // Export training matrix data - built in memory and sent as CSV, XLSX or PDF
+  app.post('/api/training-matrix/export', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const { format, filters } = req.body;
+      const currentUser = await getCurrentUser(req);
+
+      if (!currentUser) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      if (!TRAINING_MATRIX_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ message: 'Invalid format. Must be csv, xlsx or pdf' });
+      }
+
+      // Admins can only export their own organisation
+      const organisationId = currentUser.role === 'superadmin' ? (req.body.organisationId || currentUser.organisationId) : currentUser.organisationId;
+      const organization = organisationId ? await storage.getOrganisation(organisationId) : undefined;
+      if (!organization) {
+        return res.status(404).json({ message: 'Organization not found' });
+      }
+
+      const teamFilter = await getTeamFilter(filters?.managerId, organization.id);
+      const file = await trainingMatrixExportService.export(organization, {
+        departments: filters?.departments || [],
+        roles: filters?.roles || [],
+        courses: filters?.courses || [],
+        statuses: filters?.statuses || [],
+        staff: filters?.staff || [],
+        mandatoryOnly: filters?.mandatoryOnly === true,
+        teamUserIds: teamFilter ? Array.from(teamFilter) : undefined,
+      }, format);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=${file.filename}`);
+      res.setHeader('Content-Length', file.content.length.toString());
+      res.end(file.content);
+    } catch (error) {
+      console.error('Error exporting training matrix:', error);
+      res.status(500).json({ message: 'Failed to export data' });
+    }
+  });
+
+  // Bulk import users from CSV
+  app.post('/api/users/bulk-import', requireAuth, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { users: usersData } = req.body;
+      
+      if (!Array.isArray(usersData) || usersData.length === 0) {
+        return res.status(400).json({ message: 'Users array is required' });
+      }
+
+      // Count how many active users will be created (default to active if not specified)
+      const activeUsersToCreate = usersData.filter(userData => 
+        !userData.status || userData.status === 'active'
+      ).length;
+      
+      // Check license capacity if creating active users
+      if (activeUsersToCreate > 0) {
+        const licenseCheck = await checkLicenseCapacity(user.id, activeUsersToCreate);
+        if (!licenseCheck.canProceed) {
+          return res.status(403).json({ 
+            message: licenseCheck.error,
+            code: 'LICENSE_LIMIT_EXCEEDED'
+          });
+        }
+      }
+
+      // Count how many admin users will be created
+      const adminUsersToCreate = usersData.filter(userData => userData.role === 'admin').length;
+      
+      // Check admin limit if creating admin users
+      if (adminUsersToCreate > 0) {
+        const orgId = user.organisationId;
+        if (!orgId) {
+          return res.status(400).json({ message: 'Organisation ID is required for admin users' });
+        }
+        
+        // For bulk import, we need to check if we can create ALL the admin users
+        // Since enforceAdminLimit checks current count vs limit, we need to check each one
+        // For simplicity, we'll reject the entire bulk import if admin limit is exceeded
+        const adminLimitCheck = await storage.enforceAdminLimit(orgId);
+        if (!adminLimitCheck.allowed) {
+          return res.status(403).json({
+            message: `Admin user limit exceeded. Cannot import ${adminUsersToCreate} admin user(s).`,
+            code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
+            featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
+            maxAllowed: adminLimitCheck.error?.maxAllowed || 1,
+            attemptedAdminUsers: adminUsersToCreate
+          });
+        }
+      }
+
+      let created = 0;
+      let failed = 0;
+      const errors: string[] = [];
+      const createdRegularUsers: any[] = [];
+      const createdAdmins: any[] = [];
+
+      for (const userData of usersData) {
+        try {
+          const validatedData = insertUserSchema.parse({ ...userData, customRoleId: null });
+          
+          // Anyone but a superadmin can only create users in their organisation
+          if (user.role !== 'superadmin') {
+            validatedData.organisationId = user.organisationId;
+          }
+
+          // Only administrators can create administrator accounts
+          if (user.role === 'user' && validatedData.role && validatedData.role !== 'user') {
+            throw new Error('Cannot create administrator accounts');
+          }
+
+          const newUser = await storage.createUser(validatedData);
+          created++;
+          
+          // Apply standing assignment rules to the imported user
+          try {
+            await assignmentRuleService.applyRulesForUser(newUser);
+          } catch (ruleError) {
+            console.error(`[Bulk Import] Failed to apply assignment rules for ${newUser.email}:`, ruleError);
+          }
+          
+          // Track created users for email notifications
+          if (newUser.role === 'admin') {
+            createdAdmins.push(newUser);
+          } else if (newUser.role === 'user') {
+            createdRegularUsers.push(newUser);
+          }
+        } catch (error: any) {
+          failed++;
+          errors.push(`${userData.email || 'Unknown'}: ${error.message}`);
+        }
+      }
+      
+      // Send email notifications for bulk user creation
+      if (user.organisationId && (createdRegularUsers.length > 0 || createdAdmins.length > 0)) {
+        const organization = await storage.getOrganisation(user.organisationId);
+        if (organization) {
+          // Send notification for new regular users using EmailNotificationService
+          if (createdRegularUsers.length > 0) {
+            try {
+              // For bulk imports, send a summary notification about the bulk user creation
+              await emailNotificationService.notifyBulkUserAdded(
+                organization.id,
+                createdRegularUsers,
+                user.id
+              );
+              console.log(`[Bulk Import] Queued bulk user notification for ${createdRegularUsers.length} users`);
+            } catch (error) {
+              console.error('[Bulk Import] Failed to send user notification:', error);
+              // Don't break the import flow on notification failure
+            }
+          }
+          
+          // Send notification for new admin users using EmailNotificationService
+          if (createdAdmins.length > 0) {
+            try {
+              await emailNotificationService.notifyBulkAdminAdded(
+                organization.id,
+                createdAdmins.map(admin => admin.id),
+                user.id
+              );
+              console.log(`[Bulk Import] Queued bulk admin notification for ${createdAdmins.length} admins`);
+            } catch (error) {
+              console.error('[Bulk Import] Failed to send admin notification:', error);
+              // Don't break the import flow on notification failure
+            }
+          }
+        }
+      }
+
+      res.status(200).json({ 
+        created, 
+        failed, 
+        errors: errors.slice(0, 10) // Limit error messages
+      });
+    } catch (error) {
+      console.error('Error bulk importing users:', error);
+      res.status(500).json({ message: 'Failed to import users' });
+    }
+  });
+
+  // Courses routes
+  app.get('/api/courses', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      // For admins and coordinators doing course assignment, only return active courses from allowed categories
+      if (user && user.role !== 'superadmin' && await hasPermission(user, 'courses.assign')) {
+        if (!user.organisationId) {
+          return res.status(403).json({ message: 'Admin user must belong to an organization' });
+        }
+
+        const filteredCourses = await getAssignableCourses(user.organisationId);
+
+        console.log(`📚 ${user.email} (Org: ${user.organisationId}) can access ${filteredCourses.length} courses`);
+        res.json(filteredCourses);
+      } else {
+        // For SuperAdmin, fetch all courses (published and archived)
+        const courses = await storage.getAllCourses();
+        res.json(courses);
+      }
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+      res.status(500).json({ message: 'Failed to fetch courses' });
+    }
+  });
+
+  app.put('/api/courses/:id', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { id } = req.params;
+      const course = await storage.getCourse(id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      
+      // Normalize cover image URL if provided
+      const { requireRetraining, versionNotes, retrainingDueDate, currentVersionId, scormOrganizations, defaultOrganization, ...updateData } = req.body;
+      if (updateData.coverImageUrl) {
+        const { ObjectStorageService } = await import('./objectStorage');
+        const objectStorageService = new ObjectStorageService();
+        updateData.coverImageUrl = objectStorageService.normalizeObjectEntityPath(updateData.coverImageUrl);
+      }
+
+      // Package and passmark changes publish a new version rather than overwriting the one learners are taking
+      const content: Record<string, any> = {};
+      VERSIONED_COURSE_FIELDS.forEach(field => {
+        if (field in updateData) {
+          content[field] = updateData[field];
+          delete updateData[field];
+        }
+      });
+
+      let publishedVersion: { versionNumber: number; learnersReassigned: number } | undefined;
+      if (courseVersionService.changesContent(course, content)) {
+        const { version, learnersReassigned } = await courseVersionService.publishVersion(course, {
+          ...content,
+          changeNotes: versionNotes,
+          requireRetraining: !!requireRetraining,
+          retrainingDueDate: retrainingDueDate ? new Date(retrainingDueDate) : null,
+        }, user);
+        publishedVersion = { versionNumber: version.versionNumber, learnersReassigned };
+      }
+      
+      const updatedCourse = await storage.updateCourse(id, updateData);
+      res.json({ ...updatedCourse, publishedVersion });
+    } catch (error) {
+      handleCourseVersionError(res, error, 'update course');
+    }
+  });
+
+  // ===== COURSE VERSIONS =====
+
+  function handleCourseVersionError(res: any, error: unknown, action: string) {
+    if (error instanceof CourseVersionError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  }
+
+  const publishCourseVersionSchema = z.object({
+    scormPackageUrl: z.string().min(1).optional(),
+    scormVersion: z.string().nullable().optional(),
+    launchUrlOverride: z.string().nullable().optional(),
+    xapiActivityId: z.string().nullable().optional(),
+    passmark: z.number().int().min(0).max(100).optional(),
+    changeNotes: z.string().max(2000).nullable().optional(),
+    requireRetraining: z.boolean().optional(),
+    retrainingDueDate: z.coerce.date().nullable().optional(),
+  });
+
+  app.get('/api/courses/:id/versions', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const current = await courseVersionService.ensureCurrentVersion(course);
+      const [versions, completions] = await Promise.all([
+        storage.getCourseVersionsByCourse(course.id),
+        storage.getCompletionsByCourse(course.id),
+      ]);
+
+      res.json(versions.map(version => ({
+        ...version,
+        isCurrent: version.id === current.id,
+        passes: completions.filter(c => c.courseVersionId === version.id && c.status === 'pass').length,
+      })));
+    } catch (error) {
+      handleCourseVersionError(res, error, 'fetch course versions');
+    }
+  });
+
+  app.post('/api/courses/:id/versions', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const input = publishCourseVersionSchema.parse(req.body);
+      const result = await courseVersionService.publishVersion(course, input, user);
+      res.status(201).json(result);
+    } catch (error) {
+      handleCourseVersionError(res, error, 'publish course version');
+    }
+  });
+
+  app.delete('/api/courses/:id', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { id } = req.params;
+      
+      // Verify course exists and is archived before allowing deletion
+      const course = await storage.getCourse(id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      
+      if (course.status !== 'archived') {
+        return res.status(400).json({ message: 'Only archived courses can be deleted permanently' });
+      }
+      
+      await storage.deleteCourse(id);
+      res.json({ message: 'Course deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting course:', error);
+      res.status(500).json({ message: 'Failed to delete course' });
+    }
+  });
+
+  app.post('/api/courses', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      // Normalize cover image URL if provided
+      let courseData = {
+        ...req.body,
+        createdBy: user.id,
+      };
+
+      if (courseData.coverImageUrl) {
+        const { ObjectStorageService } = await import('./objectStorage');
+        const objectStorageService = new ObjectStorageService();
+        courseData.coverImageUrl = objectStorageService.normalizeObjectEntityPath(courseData.coverImageUrl);
+      }
+
+      const validatedData = insertCourseSchema.parse(courseData);
+
+      const course = await storage.createCourse(validatedData);
+      await courseVersionService.ensureCurrentVersion(course);
+      res.status(201).json(course);
+    } catch (error) {
+      console.error('Error creating course:', error);
+      res.status(500).json({ message: 'Failed to create course' });
+    }
+  });
+
+  app.get('/api/courses/:courseId/analytics', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { courseId } = req.params;
+      const analytics = await storage.getCourseAnalytics(courseId);
+      res.json(analytics);
+    } catch (error) {
+      console.error('Error fetching course analytics:', error);
+      res.status(500).json({ message: 'Failed to fetch course analytics' });
+    }
+  });
+
+  // Question-level item analysis built from stored SCORM interactions
+  app.get('/api/courses/:courseId/item-analysis', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
       
@@ -16298,2493 +18768,2228 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      let users;
-      if (user.role === 'superadmin') {
-        // SuperAdmin can see all users
-        const { role, organisationId, status, search } = req.query;
-        users = await storage.getUsersWithFilters({ role, organisationId, status, search });
-      } else if (user.role === 'admin' && user.organisationId) {
-        // Admin can only see regular users (role = 'user') from their organisation, filtering out admin/superadmin accounts
-        users = await storage.getUsersWithFilters({ 
-          organisationId: user.organisationId,
-          role: 'user'
-        });
-      } else {
-        return res.status(403).json({ message: 'Access denied' });
+      const { courseId } = req.params;
+      // Only superadmins see beyond their own organisation's learners, and can narrow to one organisation
+      const organisationId = user.role === 'superadmin'
+        ? (req.query.organisationId as string | undefined)
+        : user.organisationId || undefined;
+
+      if (user.role !== 'superadmin' && !organisationId) {
+        return res.status(400).json({ message: 'User not associated with an organisation' });
       }
 
-      res.json(users);
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const interactions = await storage.getScormInteractionsByCourse(courseId, organisationId);
+      res.json(buildItemAnalysis(courseId, interactions));
     } catch (error) {
-      console.error('Error fetching users:', error);
-      res.status(500).json({ message: 'Failed to fetch users' });
+      console.error('Error fetching course item analysis:', error);
+      res.status(500).json({ message: 'Failed to fetch course item analysis' });
     }
   });
 
-  // Update user status (deactivate/activate)
-  app.patch('/api/users/:id/status', requireAuth, async (req: any, res) => {
+  // Course folder routes
+  app.get('/api/course-folders', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      const { id } = req.params;
-      const { status } = req.body;
-
-      if (!currentUser) {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-
-      // Only SuperAdmin and Admin can update user status
-      if (currentUser.role !== 'superadmin' && currentUser.role !== 'admin') {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Get target user and validate modification permissions
-      const targetUser = await storage.getUser(id);
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
-      }
-
-      // Use RBAC helper to check modification permissions
-      const permission = await canUserModifyTarget(currentUser, targetUser);
-      if (!permission.canModify) {
-        return res.status(403).json({ message: permission.error });
-      }
+      const folders = await storage.getAllCourseFolders();
+      res.json(folders);
+    } catch (error) {
+      console.error('Error fetching course folders:', error);
+      res.status(500).json({ message: 'Failed to fetch course folders' });
+    }
+  });
 
-      // Validate status
-      if (!['active', 'inactive'].includes(status)) {
-        return res.status(400).json({ message: 'Invalid status. Must be active or inactive.' });
+  app.post('/api/course-folders', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Check license capacity if activating user  
-      if (status === 'active' && targetUser.status !== 'active') {
-        const licenseCheck = await checkLicenseCapacity(currentUser.id, 1);
-        if (!licenseCheck.canProceed) {
-          return res.status(403).json({ 
-            message: licenseCheck.error,
-            code: 'LICENSE_LIMIT_EXCEEDED'
-          });
-        }
-      }
+      const folderData = {
+        ...req.body,
+        createdBy: user.id,
+      };
 
-      const updatedUser = await storage.updateUser(id, { status });
-      res.json(updatedUser);
+      const folder = await storage.createCourseFolder(folderData);
+      res.status(201).json(folder);
     } catch (error) {
-      console.error('Error updating user status:', error);
-      res.status(500).json({ message: 'Failed to update user status' });
+      console.error('Error creating course folder:', error);
+      res.status(500).json({ message: 'Failed to create course folder' });
     }
   });
 
-  // Delete user
-  app.delete('/api/users/:id', requireAuth, async (req: any, res) => {
+  app.put('/api/course-folders/:id', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      const { id } = req.params;
-
-      if (!currentUser) {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Only SuperAdmin and Admin can delete users
-      if (currentUser.role !== 'superadmin' && currentUser.role !== 'admin') {
-        return res.status(403).json({ message: 'Access denied' });
-      }
+      const { id } = req.params;
+      const folder = await storage.updateCourseFolder(id, req.body);
+      res.json(folder);
+    } catch (error) {
+      console.error('Error updating course folder:', error);
+      res.status(500).json({ message: 'Failed to update course folder' });
+    }
+  });
 
-      // Get the target user
-      const targetUser = await storage.getUser(id);
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
+  app.delete('/api/course-folders/:id', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Use RBAC helper to check modification permissions (includes self-deletion protection)
-      const permission = await canUserModifyTarget(currentUser, targetUser);
-      if (!permission.canModify) {
-        return res.status(403).json({ message: permission.error });
+      const { id } = req.params;
+      
+      // Check if any courses are in this folder
+      const coursesInFolder = await storage.getCoursesByFolder(id);
+      if (coursesInFolder.length > 0) {
+        return res.status(400).json({ 
+          message: 'Cannot delete folder that contains courses. Please move or delete the courses first.' 
+        });
       }
-
-      await storage.deleteUser(id);
-      res.status(204).send();
+      
+      await storage.deleteCourseFolder(id);
+      res.json({ message: 'Course folder deleted successfully' });
     } catch (error) {
-      console.error('Error deleting user:', error);
-      res.status(500).json({ message: 'Failed to delete user' });
+      console.error('Error deleting course folder:', error);
+      res.status(500).json({ message: 'Failed to delete course folder' });
     }
   });
 
-  // Bulk update users
-  app.patch('/api/users/bulk', requireAuth, async (req: any, res) => {
+  app.get('/api/course-folders/:id/courses', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      const { userIds, action, value } = req.body;
-
-      if (!currentUser) {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-
-      // Only SuperAdmin and Admin can perform bulk operations
-      if (currentUser.role !== 'superadmin' && currentUser.role !== 'admin') {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
-        return res.status(400).json({ message: 'User IDs array is required' });
-      }
+      const { id } = req.params;
+      const courses = await storage.getCoursesByFolder(id);
+      res.json(courses);
+    } catch (error) {
+      console.error('Error fetching courses by folder:', error);
+      res.status(500).json({ message: 'Failed to fetch courses by folder' });
+    }
+  });
 
-      if (!action) {
-        return res.status(400).json({ message: 'Action is required' });
+  // Organisation course folder access routes
+  app.post('/api/organisations/:organisationId/folder-access', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Use RBAC helper to validate all target users before processing any
-      const targetUsers = [];
-      for (const userId of userIds) {
-        const targetUser = await storage.getUser(userId);
-        if (!targetUser) {
-          return res.status(404).json({ message: `User not found: ${userId}` });
-        }
-        
-        const permission = await canUserModifyTarget(currentUser, targetUser);
-        if (!permission.canModify) {
-          return res.status(403).json({ message: `${permission.error}: ${targetUser.email}` });
-        }
-        
-        targetUsers.push(targetUser);
-      }
+      const { organisationId } = req.params;
+      const { folderId } = req.body;
+      
+      const accessData = {
+        organisationId,
+        folderId,
+        grantedBy: user.id,
+      };
 
-      // Check license capacity if activating users
-      if (action === 'status' && value === 'active') {
-        const usersToActivate = [];
-        for (const userId of userIds) {
-          const targetUser = await storage.getUser(userId);
-          if (targetUser && targetUser.status !== 'active') {
-            usersToActivate.push(userId);
-          }
-        }
-        
-        if (usersToActivate.length > 0) {
-          const licenseCheck = await checkLicenseCapacity(currentUser.id, usersToActivate.length);
-          if (!licenseCheck.canProceed) {
-            return res.status(403).json({ 
-              message: licenseCheck.error,
-              code: 'LICENSE_LIMIT_EXCEEDED'
-            });
-          }
-        }
-      }
+      const access = await storage.grantOrganisationFolderAccess(accessData);
+      res.status(201).json(access);
+    } catch (error) {
+      console.error('Error granting folder access:', error);
+      res.status(500).json({ message: 'Failed to grant folder access' });
+    }
+  });
 
-      const updatedUsers = [];
+  app.delete('/api/organisations/:organisationId/folder-access/:folderId', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
       
-      for (const userId of userIds) {
-        try {
-          let updatedUser;
-          
-          switch (action) {
-            case 'status':
-              updatedUser = await storage.updateUser(userId, { status: value });
-              break;
-            case 'certificates':
-              updatedUser = await storage.updateUser(userId, { allowCertificateDownload: value });
-              break;
-            default:
-              return res.status(400).json({ message: 'Invalid action' });
-          }
-          
-          if (updatedUser) {
-            updatedUsers.push(updatedUser);
-          }
-        } catch (error) {
-          console.error(`Error updating user ${userId}:`, error);
-          // Continue with other users even if one fails
-        }
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
       }
-
-      res.json({ 
-        message: `Successfully updated ${updatedUsers.length} out of ${userIds.length} users`,
-        updatedUsers 
-      });
+
+      const { organisationId, folderId } = req.params;
+      
+      await storage.revokeOrganisationFolderAccess(organisationId, folderId);
+      res.json({ message: 'Folder access revoked successfully' });
     } catch (error) {
-      console.error("Error performing bulk user update:", error);
-      res.status(500).json({ message: 'Failed to perform bulk update' });
+      console.error('Error revoking folder access:', error);
+      res.status(500).json({ message: 'Failed to revoke folder access' });
     }
   });
 
-  app.post('/api/users', requireAuth, async (req: any, res) => {
+  app.get('/api/organisations/:organisationId/folder-access', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.session.user?.id;
-      const user = await storage.getUser(userId);
+      const user = await getCurrentUser(req);
       
-      if (!user || (user.role !== 'superadmin' && user.role !== 'admin')) {
+      if (!user || (user.role !== 'superadmin' && user.organisationId !== req.params.organisationId)) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Extract password from request body before validation
-      const { password, ...userData } = req.body;
-      const validatedData = insertUserSchema.parse(userData);
-      
-      // If admin, can only create users in their organisation
-      if (user.role === 'admin') {
-        validatedData.organisationId = user.organisationId;
-      }
+      const { organisationId } = req.params;
+      const folders = await storage.getOrganisationFolderAccess(organisationId);
+      res.json(folders);
+    } catch (error) {
+      console.error('Error fetching organisation folder access:', error);
+      res.status(500).json({ message: 'Failed to fetch organisation folder access' });
+    }
+  });
 
-      // Check license capacity if creating an active user
-      if (validatedData.status === 'active') {
-        const licenseCheck = await checkLicenseCapacity(user.id, 1);
-        if (!licenseCheck.canProceed) {
-          return res.status(403).json({ 
-            message: licenseCheck.error,
-            code: 'LICENSE_LIMIT_EXCEEDED'
-          });
-        }
+  // Assignments routes
+  app.get('/api/assignments', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Check admin limit if creating an admin user
-      if (validatedData.role === 'admin') {
-        const orgId = validatedData.organisationId || user.organisationId;
-        if (!orgId) {
-          return res.status(400).json({ message: 'Organisation ID is required for admin users' });
-        }
-        
-        const adminLimitCheck = await storage.enforceAdminLimit(orgId);
-        if (!adminLimitCheck.allowed) {
-          return res.status(403).json({
-            message: 'Admin user limit exceeded',
-            code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
-            featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
-            maxAllowed: adminLimitCheck.error?.maxAllowed || 1
-          });
-        }
+      let assignments: any[] = [];
+      if (user.role === 'user') {
+        assignments = await storage.getAssignmentsByUser(user.id);
+      } else if (user.role === 'admin' && user.organisationId) {
+        const teamFilter = await getTeamFilter(req.query.managerId, user.organisationId);
+        assignments = (await storage.getAssignmentsByOrganisation(user.organisationId))
+          .filter(assignment => !teamFilter || teamFilter.has(assignment.userId));
+      } else if (user.role === 'superadmin') {
+        // For demo, just return empty array - would need more complex filtering in real app
+        assignments = [];
+      } else {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Generate password and hash it
-      let userDataWithPassword: any = { ...validatedData };
-      let actualPassword = password;
-      
-      // If no password provided, generate a temporary one
-      if (!actualPassword) {
-        // Generate a secure temporary password
-        const chars = 'ABCDEFGHJKMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
-        actualPassword = '';
-        for (let i = 0; i < 8; i++) {
-          actualPassword += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        console.log(`Generated temporary password for ${validatedData.email}: ${actualPassword}`);
-      }
-      
-      // Hash the password (either provided or generated)
-      if (actualPassword) {
-        if (actualPassword.length < 6) {
-          return res.status(400).json({ message: 'Password must be at least 6 characters long' });
-        }
-        const saltRounds = 10;
-        userDataWithPassword.passwordHash = await bcrypt.hash(actualPassword, saltRounds);
-        
-        // Set requiresPasswordChange to true if this is a generated password (no password was provided originally)
-        userDataWithPassword.requiresPasswordChange = !password; // true if password was auto-generated
-      }
-      
-      // Store the password for email context (use actualPassword instead of original password)
-      const passwordForEmail = actualPassword;
+      res.json(assignments);
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+      res.status(500).json({ message: 'Failed to fetch assignments' });
+    }
+  });
 
-      const newUser = await storage.createUser(userDataWithPassword);
+  app.post('/api/assignments', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      const user = await storage.getUser(userId);
       
-      // Send notifications for new user creation
-      if (newUser.organisationId) {
-        try {
-          if (newUser.role === 'admin') {
-            await emailNotificationService.notifyNewAdminAdded(
-              newUser.organisationId,
-              newUser.id,
-              user.id
-            );
-          } else if (newUser.role === 'user') {
-            await emailNotificationService.notifyNewUserAdded(
-              newUser.organisationId,
-              newUser.id,
-              user.id
-            );
-          }
-        } catch (error) {
-          console.error('[User Creation] Failed to send user notification:', error);
-          // Don't break user creation flow on notification failure
-        }
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      
-      // Send welcome email with temporary password
-      if (newUser.email && passwordForEmail) {
-        try {
-          // Get organization info
-          let orgName = 'Your Learning Platform';
-          if (newUser.organisationId) {
-            const organisation = await getOrgById(storage, newUser.organisationId);
-            if (organisation) {
-              orgName = organisation.displayName || organisation.name;
-            }
-          }
 
-          // Generate welcome email using hardcoded MJML template
-          const { AutomatedEmailTemplates } = await import('./services/AutomatedEmailTemplates');
-          const userName = newUser.firstName && newUser.lastName 
-            ? `${newUser.firstName} ${newUser.lastName}` 
-            : (newUser.firstName || newUser.email);
-          const emailTemplate = AutomatedEmailTemplates.welcomeEmail({
-            userName,
-            userEmail: newUser.email,
-            temporaryPassword: passwordForEmail,
-            orgName,
-            loginUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/login`
-          });
+      const validatedData = insertAssignmentSchema.parse({
+        ...req.body,
+        assignedBy: user.id,
+      });
 
-          await emailOrchestrator.queue({
-            triggerEvent: 'WELCOME_EMAIL',
-            toEmail: newUser.email,
-            context: {},
-            organisationId: newUser.organisationId || undefined,
-            resourceId: newUser.id,
-            priority: 1,
-            preRenderedContent: {
-              subject: emailTemplate.subject,
-              htmlBody: emailTemplate.html,
-              textBody: emailTemplate.text
-            }
-          });
-          
-          console.log(`✅ WELCOME_EMAIL queued for ${newUser.email} with temporary password`);
-        } catch (emailError) {
-          console.warn('⚠️ Failed to queue WELCOME_EMAIL:', emailError);
-          // Don't fail user creation if email fails
-        }
+      // Anyone but a superadmin assigns within their own organisation
+      if (user.role !== 'superadmin' && user.organisationId) {
+        validatedData.organisationId = user.organisationId;
       }
+
+      const assignment = await storage.createAssignment(validatedData);
       
-      // Send notifications for new user creation (admin notifications)
-      if (EMAIL_TEMPLATES_V2_ENABLED && newUser.organisationId) {
+      // Send automated course assignment email
+      if (assignment.organisationId && assignment.courseId && assignment.userId) {
         try {
-          if (newUser.role === 'admin') {
-            await emailNotificationService.notifyNewAdminAdded(
-              newUser.organisationId,
-              newUser.id,
-              user.id
-            );
-          } else if (newUser.role === 'user') {
-            await emailNotificationService.notifyNewUserAdded(
-              newUser.organisationId,
-              newUser.id,
-              user.id
-            );
+          const [organization, course, targetUser] = await Promise.all([
+            storage.getOrganisation(assignment.organisationId),
+            storage.getCourse(assignment.courseId),
+            storage.getUser(assignment.userId)
+          ]);
+          
+          if (organization && course && targetUser && targetUser.email) {
+            await automatedEmailService.sendCourseAssigned({
+              userName: `${targetUser.firstName} ${targetUser.lastName}`,
+              courseName: course.title,
+              dueDate: assignment.dueDate?.toISOString(),
+              orgName: organization.displayName || organization.name,
+              courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment.courseId}`,
+              userEmail: targetUser.email,
+              organisationId: assignment.organisationId,
+              courseId: assignment.courseId,
+              assignmentId: assignment.id
+            });
+            
+            console.log(`✅ Course assigned email sent to ${targetUser.email}: ${course.title}`);
           }
-        } catch (error) {
-          console.error('[User Creation] Failed to send user notification:', error);
-          // Don't break user creation flow on notification failure
+        } catch (emailError) {
+          console.warn('⚠️ Failed to send course assignment email:', emailError);
+          // Don't fail assignment if email fails
         }
       }
       
-      // LEGACY: Send welcome email for admin users with their password
+      // LEGACY: Send course assignment notification to organization admins
       // TODO: Remove this when EMAIL_TEMPLATES_V2 is fully deployed
-      if (!EMAIL_TEMPLATES_V2_ENABLED && validatedData.role === 'admin' && password) {
+      if (!EMAIL_TEMPLATES_V2_ENABLED && assignment.organisationId && assignment.courseId && assignment.userId) {
         try {
-          // For admin users, get their organization ID
-          const orgId = newUser.organisationId || validatedData.organisationId;
-          if (orgId) {
-            const organisation = await getOrgById(storage, orgId);
-            if (organisation) {
-              // TODO: DEPRECATED - Replace with EmailOrchestrator when EMAIL_TEMPLATES_V2 migration is complete
-              // This legacy emailService.sendWelcomeEmail will be removed in favor of:
-              // await emailOrchestrator.triggerEvent('USER_FAST_ADD', { user: newUser, organisation, password })
-              // NOTE: sendWelcomeEmail method doesn't exist on emailService - using mailerService instead
-              if (newUser.email) {
-                await mailerService.send({
-                  to: newUser.email,
-                  subject: 'Welcome to your LMS - Account Created',
-                  html: `<p>Your account has been created. Email: ${newUser.email}, Password: ${password}</p>`,
-                  templateType: 'admin_welcome'
-                });
-              }
-              console.log(`Welcome email sent to admin user: ${newUser.email}`);
-            } else {
-              console.log(`No organization found for admin user: ${newUser.email}`);
-            }
-          } else {
-            console.log(`No organization ID for admin user: ${newUser.email}`);
+          const [organization, course, targetUser] = await Promise.all([
+            storage.getOrganisation(assignment.organisationId),
+            storage.getCourse(assignment.courseId),
+            storage.getUser(assignment.userId)
+          ]);
+          
+          if (organization && course && targetUser) {
+            const adminEmails = await getOrganizationAdminEmails(organization.id);
+            
+            await sendMultiRecipientNotification(
+              'Course Assignment',
+              adminEmails,
+              (adminEmail) => emailTemplateService.sendCourseAssignedNotification(
+                adminEmail,
+                buildCourseAssignedNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, targetUser, course, user, assignment.dueDate?.toISOString()),
+                organization.id
+              )
+            );
           }
         } catch (emailError) {
-          console.error('Failed to send welcome email:', emailError);
-          // Don't fail the user creation if email sending fails
+          console.error('Error sending course assignment notification:', emailError);
+          // Don't let email errors break the assignment creation
         }
       }
       
-      // Send new user added notification to organization admins (only for regular users, not admins)
-      if (newUser.role !== 'admin' && newUser.role !== 'superadmin' && newUser.organisationId) {
-        const organization = await storage.getOrganisation(newUser.organisationId);
-        if (organization) {
-          const adminEmails = await getOrganizationAdminEmails(organization.id);
-          
-          await sendMultiRecipientNotification(
-            'New User Added',
-            adminEmails,
-            (adminEmail) => emailTemplateService.sendNewUserNotification(
-              adminEmail,
-              buildNewUserNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, newUser, user),
-              organization.id
-            )
-          );
-        }
+      res.status(201).json(assignment);
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      res.status(500).json({ message: 'Failed to create assignment' });
+    }
+  });
+
+  // ===== LEARNING PATHS =====
+
+  // Shape a learning path with its ordered steps for API responses
+  async function buildLearningPathResponse(learningPath: any) {
+    const steps = await storage.getLearningPathCourses(learningPath.id);
+    const enrolments = await storage.getLearningPathEnrolmentsByPath(learningPath.id);
+    const stepsWithCourses = await Promise.all(steps.map(async (step) => {
+      const course = await storage.getCourse(step.courseId);
+      return {
+        ...step,
+        courseTitle: course?.title || 'Unknown course',
+        prerequisiteCourseIds: learningPathService.getPrerequisites(step, steps),
+        usesDefaultPrerequisite: !Array.isArray(step.prerequisiteCourseIds),
+      };
+    }));
+
+    return {
+      ...learningPath,
+      steps: stepsWithCourses,
+      enrolmentCount: enrolments.length,
+      completedCount: enrolments.filter(e => e.status === 'completed').length,
+    };
+  }
+
+  const learningPathStepsSchema = z.array(z.object({
+    courseId: z.string().min(1),
+    prerequisiteCourseIds: z.array(z.string()).nullable().optional(),
+  })).min(1, 'A learning path needs at least one course');
+
+  const learningPathBodySchema = z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().nullable().optional(),
+    status: z.enum(['draft', 'published', 'archived']).optional(),
+    organisationId: z.string().optional(),
+    courses: learningPathStepsSchema,
+  });
+
+  // Get learning paths for the current admin's organisation
+  app.get('/api/learning-paths', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      
-      res.status(201).json({ 
-        ...newUser, 
-        welcomeEmailSent: validatedData.role === 'admin' && password ? true : false 
+
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      const paths = await storage.getLearningPathsByOrganisation(organisationId);
+      res.json(await Promise.all(paths.map(buildLearningPathResponse)));
+    } catch (error) {
+      console.error('Error fetching learning paths:', error);
+      res.status(500).json({ message: 'Failed to fetch learning paths' });
+    }
+  });
+
+  // Create a learning path
+  app.post('/api/learning-paths', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const body = learningPathBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      const stepError = learningPathService.validateSteps(body.courses)
+        || await findUnassignableCourse(organisationId, body.courses.map(step => step.courseId));
+      if (stepError) {
+        return res.status(400).json({ message: stepError });
+      }
+
+      const learningPath = await storage.createLearningPath({
+        organisationId,
+        title: body.title,
+        description: body.description || null,
+        status: body.status || 'draft',
+        createdBy: user.id,
       });
-    } catch (error: any) {
-      console.error('Error creating user:', error);
-      
-      // Handle duplicate email error
-      if (error?.code === '23505' && error?.constraint === 'users_email_unique') {
-        return res.status(409).json({ 
-          message: 'A user with this email address already exists',
-          error: 'DUPLICATE_EMAIL'
-        });
+
+      await storage.setLearningPathCourses(learningPath.id, body.courses.map((step, index) => ({
+        courseId: step.courseId,
+        sortOrder: index,
+        prerequisiteCourseIds: step.prerequisiteCourseIds ?? null,
+      })));
+
+      res.status(201).json(await buildLearningPathResponse(learningPath));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid learning path data', errors: error.errors });
       }
-      
-      res.status(500).json({ message: 'Failed to create user' });
+      console.error('Error creating learning path:', error);
+      res.status(500).json({ message: 'Failed to create learning path' });
     }
   });
 
-  // Update user by ID (for admin updates)
-  app.put('/api/users/:id', requireAuth, async (req: any, res) => {
+  // Learning path progress for the current learner
+  app.get('/api/user/learning-paths', requireAuth, async (req: any, res) => {
     try {
-      const currentUserId = req.session.user?.id;
-      const currentUser = await storage.getUser(currentUserId);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const userId = getUserIdFromSession(req);
+      if (!userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      res.json(await learningPathService.getUserProgress(userId));
+    } catch (error) {
+      console.error('Error fetching learning path progress:', error);
+      res.status(500).json({ message: 'Failed to fetch learning path progress' });
+    }
+  });
+
+  // Get a single learning path
+  app.get('/api/learning-paths/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { id } = req.params;
-      
-      // Get the target user to update
-      const targetUser = await storage.getUser(id);
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const learningPath = await storage.getLearningPath(req.params.id);
+      if (!learningPath || (user.role !== 'superadmin' && learningPath.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Learning path not found' });
       }
 
-      // Use RBAC helper to check modification permissions
-      const permission = await canUserModifyTarget(currentUser, targetUser);
-      if (!permission.canModify) {
-        return res.status(403).json({ message: permission.error });
+      res.json(await buildLearningPathResponse(learningPath));
+    } catch (error) {
+      console.error('Error fetching learning path:', error);
+      res.status(500).json({ message: 'Failed to fetch learning path' });
+    }
+  });
+
+  // Update a learning path and its steps
+  app.put('/api/learning-paths/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Prepare update data - remove any role changes for security
-      const updateData: any = {
-        ...req.body,
-        updatedAt: new Date(),
-      };
-      
-      // Prevent role modification through this endpoint (use dedicated promote/demote endpoints)
-      if ('role' in updateData) {
-        delete updateData.role;
+      const learningPath = await storage.getLearningPath(req.params.id);
+      if (!learningPath || (user.role !== 'superadmin' && learningPath.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Learning path not found' });
       }
 
-      // Check license capacity if activating a user
-      if (updateData.status === 'active' && targetUser.status !== 'active') {
-        const licenseCheck = await checkLicenseCapacity(currentUser.id, 1);
-        if (!licenseCheck.canProceed) {
-          return res.status(403).json({ 
-            message: licenseCheck.error,
-            code: 'LICENSE_LIMIT_EXCEEDED'
-          });
+      const body = learningPathBodySchema.partial().parse(req.body);
+
+      if (body.courses) {
+        const stepError = learningPathService.validateSteps(body.courses);
+        if (stepError) {
+          return res.status(400).json({ message: stepError });
         }
-      }
 
-      const updatedUser = await storage.updateUser(id, updateData);
-      if (!updatedUser) {
-        return res.status(404).json({ message: 'User not found' });
+        const currentSteps = await storage.getLearningPathCourses(learningPath.id);
+        const addedCourseIds = body.courses.map(step => step.courseId).filter(courseId => !currentSteps.some(step => step.courseId === courseId));
+        const courseError = await findUnassignableCourse(learningPath.organisationId, addedCourseIds);
+        if (courseError) {
+          return res.status(400).json({ message: courseError });
+        }
+
+        // Existing learners keep the assignments they already have; only the ordering rules change
+        const enrolments = await storage.getLearningPathEnrolmentsByPath(learningPath.id);
+        const removedCourse = currentSteps.find(step => !body.courses!.some(c => c.courseId === step.courseId));
+        if (enrolments.length > 0 && removedCourse) {
+          return res.status(409).json({ message: 'Courses cannot be removed from a learning path that has enrolled learners' });
+        }
+
+        await storage.setLearningPathCourses(learningPath.id, body.courses.map((step, index) => ({
+          courseId: step.courseId,
+          sortOrder: index,
+          prerequisiteCourseIds: step.prerequisiteCourseIds ?? null,
+        })));
+
+        // Learners already on the path get the added steps too, locked behind their prerequisites
+        if (enrolments.length > 0) {
+          await learningPathService.addStepsToEnrolments(learningPath, addedCourseIds, user.id);
+        }
       }
 
-      res.json(updatedUser);
+      const updated = await storage.updateLearningPath(learningPath.id, {
+        ...(body.title !== undefined && { title: body.title }),
+        ...(body.description !== undefined && { description: body.description }),
+        ...(body.status !== undefined && { status: body.status }),
+      });
+
+      res.json(await buildLearningPathResponse(updated));
     } catch (error) {
-      console.error('Error updating user:', error);
-      res.status(500).json({ message: 'Failed to update user' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid learning path data', errors: error.errors });
+      }
+      console.error('Error updating learning path:', error);
+      res.status(500).json({ message: 'Failed to update learning path' });
     }
   });
 
-  // Create individual assignments
-  app.post('/api/assignments', requireAuth, async (req: any, res) => {
+  // Delete a learning path (only while nobody is enrolled - archive it otherwise)
+  app.delete('/api/learning-paths/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { courseId, userId, organisationId, dueDate, notificationsEnabled, assignedBy } = req.body;
+      const learningPath = await storage.getLearningPath(req.params.id);
+      if (!learningPath || (user.role !== 'superadmin' && learningPath.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Learning path not found' });
+      }
 
-      if (!courseId || !userId) {
-        return res.status(400).json({ message: 'Course ID and User ID are required' });
+      const enrolments = await storage.getLearningPathEnrolmentsByPath(learningPath.id);
+      if (enrolments.length > 0) {
+        return res.status(409).json({ message: 'This learning path has enrolled learners. Archive it instead.' });
       }
 
-      // Verify the course exists
-      const course = await storage.getCourse(courseId);
-      if (!course) {
-        return res.status(404).json({ message: 'Course not found' });
+      await storage.deleteLearningPath(learningPath.id);
+      res.json({ message: 'Learning path deleted' });
+    } catch (error) {
+      console.error('Error deleting learning path:', error);
+      res.status(500).json({ message: 'Failed to delete learning path' });
+    }
+  });
+
+  // Assign a learning path to users - creates the child assignments
+  app.post('/api/learning-paths/:id/assign', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Verify the user exists and is in the right organization (for admins)
-      const targetUser = await storage.getUser(userId);
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const learningPath = await storage.getLearningPath(req.params.id);
+      if (!learningPath || (user.role !== 'superadmin' && learningPath.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Learning path not found' });
       }
 
-      // If admin, can only assign to users in their organisation
-      if (currentUser.role === 'admin') {
-        if (targetUser.organisationId !== currentUser.organisationId) {
-          return res.status(403).json({ message: 'Access denied: User not in your organization' });
-        }
+      if (learningPath.status !== 'published') {
+        return res.status(400).json({ message: 'Only published learning paths can be assigned' });
       }
 
-      // RACE CONDITION FIX: Create assignment data first, then handle duplicate constraint
-      const assignmentData = {
-        courseId,
-        userId,
-        organisationId: organisationId || currentUser.organisationId,
-        assignedBy: assignedBy || currentUser.id,
-        status: 'not_started' as const,
+      const { userIds, dueDate } = z.object({
+        userIds: z.array(z.string()).min(1, 'Select at least one user'),
+        dueDate: z.string().nullable().optional(),
+      }).parse(req.body);
+
+      // Only learners from the path's organisation can be enrolled
+      const orgUsers = await storage.getUsersByOrganisation(learningPath.organisationId);
+      const validUserIds = userIds.filter(id => orgUsers.some(u => u.id === id));
+      if (validUserIds.length !== userIds.length) {
+        return res.status(400).json({ message: 'All users must belong to the learning path organisation' });
+      }
+
+      const result = await learningPathService.assignPath({
+        learningPath,
+        userIds: validUserIds,
+        assignedBy: user.id,
         dueDate: dueDate ? new Date(dueDate) : null,
-        notificationsEnabled: notificationsEnabled || true
-      };
+      });
 
-      let assignment;
-      try {
-        // Try to create the assignment - database unique constraint will prevent duplicates
-        assignment = await storage.createAssignment(assignmentData);
-      } catch (error: any) {
-        // Handle unique constraint violation (duplicate assignment)
-        if (error.code === '23505' || error.message?.includes('duplicate') || error.message?.includes('unique')) {
-          console.log(`🔄 Duplicate assignment detected for user ${userId} and course ${courseId}, checking existing assignment`);
-          const existingAssignment = await storage.getExistingAssignment(courseId, userId);
-          if (existingAssignment) {
-            return res.status(409).json({ 
-              message: `This user is already assigned to ${course.title}. Cannot assign duplicate courses.`,
-              error: 'DUPLICATE_ASSIGNMENT',
-              existingAssignmentId: existingAssignment.id
-            });
-          }
-        }
-        // Re-throw other errors
-        throw error;
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid assignment data', errors: error.errors });
       }
-      
-      // Send course assignment email using EmailOrchestrator if EMAIL_TEMPLATES_V2 is enabled
-      if (EMAIL_TEMPLATES_V2_ENABLED) {
-        try {
-          const organisation = assignment.organisationId ? await storage.getOrganisation(assignment.organisationId) : null;
-          const context = {
-            user: {
-              name: `${targetUser.firstName} ${targetUser.lastName}`,
-              email: targetUser.email ?? undefined,
-              firstName: targetUser.firstName ?? undefined,
-              lastName: targetUser.lastName ?? undefined,
-              fullName: `${targetUser.firstName} ${targetUser.lastName}`
-            },
-            course: {
-              title: course.title,
-              description: course.description ?? undefined,
-              estimatedDuration: course.estimatedDuration
-            },
-            org: organisation ? {
-              name: organisation.name,
-              displayName: organisation.displayName || organisation.name
-            } : undefined,
-            assignedBy: {
-              name: `${currentUser.firstName || ''} ${currentUser.lastName || ''}`.trim() || currentUser.email || 'Administrator'
-            },
-            assignedAt: new Date().toISOString(),
-            dueDate: assignmentData.dueDate?.toISOString() || undefined,
-            courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${courseId}`,
-            supportEmail: process.env.SUPPORT_EMAIL || 'support@intellms.app'
-          };
+      console.error('Error assigning learning path:', error);
+      res.status(500).json({ message: 'Failed to assign learning path' });
+    }
+  });
+
+  // ===== ASSIGNMENT RULES =====
 
-          // Only queue email if user has a valid email address
-          if (targetUser.email) {
-            await emailOrchestrator.queue({
-              triggerEvent: 'COURSE_ASSIGNED',
-              templateKey: 'course_assigned',
-              toEmail: targetUser.email,
-              context,
-              organisationId: assignment.organisationId || undefined,
-              priority: 2,
-              resourceId: `COURSE_ASSIGNED:${targetUser.email}:${courseId}:${assignment.id}`
-            });
-          }
-          
-          console.log(`✅ COURSE_ASSIGNED email queued for ${targetUser.email} (Individual assignment: ${course.title})`);
-        } catch (emailError) {
-          console.warn('⚠️ Failed to queue COURSE_ASSIGNED email:', emailError);
-          // Don't fail assignment if email fails
-        }
+  const assignmentRuleBodySchema = z.object({
+    name: z.string().min(1, 'Name is required'),
+    courseId: z.string().min(1, 'Course is required'),
+    department: z.string().trim().nullable().optional(),
+    jobTitle: z.string().trim().nullable().optional(),
+    groupId: z.string().nullable().optional(),
+    createdOnOrAfter: z.string().nullable().optional(),
+    dueDaysAfterStart: z.number().int().min(0).nullable().optional(),
+    isActive: z.boolean().optional(),
+    organisationId: z.string().optional(),
+  });
+
+  // Normalise the optional conditions of a rule body - blank strings mean "any"
+  function toAssignmentRuleCriteria(body: Partial<z.infer<typeof assignmentRuleBodySchema>>) {
+    return {
+      ...(body.courseId !== undefined && { courseId: body.courseId }),
+      ...(body.department !== undefined && { department: body.department || null }),
+      ...(body.jobTitle !== undefined && { jobTitle: body.jobTitle || null }),
+      ...(body.groupId !== undefined && { groupId: body.groupId || null }),
+      ...(body.createdOnOrAfter !== undefined && { createdOnOrAfter: body.createdOnOrAfter ? new Date(body.createdOnOrAfter) : null }),
+      ...(body.dueDaysAfterStart !== undefined && { dueDaysAfterStart: body.dueDaysAfterStart }),
+    };
+  }
+
+  // Get assignment rules for the current admin's organisation
+  app.get('/api/assignment-rules', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      
-      // LEGACY: Send course assignment notification to organization admins
-      // TODO: Remove this when EMAIL_TEMPLATES_V2 is fully deployed
-      if (!EMAIL_TEMPLATES_V2_ENABLED && assignment.organisationId) {
-        const organization = await storage.getOrganisation(assignment.organisationId);
-        if (organization) {
-          const adminEmails = await getOrganizationAdminEmails(organization.id);
-          
-          await sendMultiRecipientNotification(
-            'Course Assignment',
-            adminEmails,
-            (adminEmail) => emailTemplateService.sendCourseAssignedNotification(
-              adminEmail,
-              buildCourseAssignedNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, targetUser, course, currentUser, assignment.dueDate?.toISOString()),
-              organization.id
-            )
-          );
-        }
+
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
-      
-      res.status(201).json(assignment);
+
+      const rules = await storage.getAssignmentRulesByOrganisation(organisationId);
+      const rulesWithCourses = await Promise.all(rules.map(async (rule) => {
+        const course = await storage.getCourse(rule.courseId);
+        return { ...rule, courseTitle: course?.title || 'Unknown course' };
+      }));
+      res.json(rulesWithCourses);
     } catch (error) {
-      console.error('Error creating assignment:', error);
-      res.status(500).json({ message: 'Failed to create assignment' });
+      console.error('Error fetching assignment rules:', error);
+      res.status(500).json({ message: 'Failed to fetch assignment rules' });
     }
   });
 
-  // Clean up duplicate assignments (SUPERADMIN ONLY - global operation)
-  app.delete('/api/assignments/duplicates', requireAuth, async (req: any, res) => {
+  // Preview which users a rule would affect (works for unsaved rules)
+  app.post('/api/assignment-rules/preview', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      
-      // SECURITY: Restrict to SUPERADMIN only - this is a GLOBAL operation that affects ALL organizations
-      if (!currentUser || currentUser.role !== 'superadmin') {
-        return res.status(403).json({ 
-          message: 'Access denied - SuperAdmin privileges required',
-          reason: 'Duplicate cleanup is a global system operation'
-        });
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Find and remove duplicate assignments
-      const duplicateGroups = await storage.findDuplicateAssignments();
-      
-      if (duplicateGroups.length === 0) {
-        return res.json({ 
-          message: 'No duplicate assignments found',
-          duplicatesRemoved: 0,
-          duplicateGroups: 0
-        });
+      const body = assignmentRuleBodySchema.omit({ name: true }).parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Remove duplicate assignments (keeping earliest ones)
-      const result = await storage.removeDuplicateAssignments();
-      
-      console.log(`✅ Duplicate cleanup completed: ${result.duplicatesRemoved} duplicates removed from ${result.duplicateGroups} groups`);
-      
-      res.json({ 
-        message: `Successfully removed ${result.duplicatesRemoved} duplicate assignments from ${result.duplicateGroups} groups`,
-        duplicatesRemoved: result.duplicatesRemoved,
-        duplicateGroups: result.duplicateGroups,
-        details: duplicateGroups.map(group => ({
-          courseId: group.courseId,
-          userId: group.userId,
-          duplicatesFound: group.count,
-          duplicatesRemoved: group.duplicateIds.length
-        }))
+      const preview = await assignmentRuleService.previewRule(organisationId, {
+        courseId: body.courseId,
+        department: null,
+        jobTitle: null,
+        groupId: null,
+        createdOnOrAfter: null,
+        dueDaysAfterStart: null,
+        ...toAssignmentRuleCriteria(body),
       });
+      res.json(preview);
     } catch (error) {
-      console.error('Error cleaning up duplicate assignments:', error);
-      res.status(500).json({ message: 'Failed to clean up duplicate assignments' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid rule data', errors: error.errors });
+      }
+      console.error('Error previewing assignment rule:', error);
+      res.status(500).json({ message: 'Failed to preview assignment rule' });
     }
   });
 
-  // Clean up duplicate assignments within organization (ADMIN safe - organization-scoped)
-  app.delete('/api/assignments/duplicates/organization', requireAuth, async (req: any, res) => {
+  // Create an assignment rule
+  app.post('/api/assignment-rules', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      // For admin users, use their organization. For superadmin, allow specifying organization
-      const organisationId = currentUser.role === 'superadmin' && req.query.organisationId 
-        ? req.query.organisationId as string 
-        : currentUser.organisationId;
-
+      const body = assignmentRuleBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
       if (!organisationId) {
-        return res.status(400).json({ 
-          message: 'Organization ID required',
-          reason: 'Cannot determine target organization for cleanup operation'
-        });
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Find and remove duplicate assignments within the organization
-      const duplicateGroups = await storage.findDuplicateAssignmentsByOrganisation(organisationId);
-      
-      if (duplicateGroups.length === 0) {
-        return res.json({ 
-          message: 'No duplicate assignments found in this organization',
-          duplicatesRemoved: 0,
-          duplicateGroups: 0
-        });
+      const course = await storage.getCourse(body.courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (body.groupId && (await storage.getUserGroup(body.groupId))?.organisationId !== organisationId) {
+        return res.status(404).json({ message: 'User group not found' });
       }
 
-      // Remove duplicate assignments within the organization (keeping earliest ones)
-      const result = await storage.removeDuplicateAssignmentsByOrganisation(organisationId);
-      
-      console.log(`✅ Organization-scoped duplicate cleanup completed for org ${organisationId}: ${result.duplicatesRemoved} duplicates removed from ${result.duplicateGroups} groups`);
-      
-      res.json({ 
-        message: `Successfully removed ${result.duplicatesRemoved} duplicate assignments from ${result.duplicateGroups} groups in your organization`,
-        duplicatesRemoved: result.duplicatesRemoved,
-        duplicateGroups: result.duplicateGroups,
+      const rule = await storage.createAssignmentRule({
         organisationId,
-        details: duplicateGroups.map(group => ({
-          courseId: group.courseId,
-          userId: group.userId,
-          duplicatesFound: group.count,
-          duplicatesRemoved: group.duplicateIds.length
-        }))
+        name: body.name,
+        courseId: body.courseId,
+        department: null,
+        jobTitle: null,
+        groupId: null,
+        createdOnOrAfter: null,
+        dueDaysAfterStart: null,
+        ...toAssignmentRuleCriteria(body),
+        isActive: body.isActive ?? false,
+        createdBy: user.id,
       });
+
+      // Active rules apply to existing users straight away
+      if (rule.isActive) {
+        await assignmentRuleService.applyRule(rule);
+      }
+
+      res.status(201).json(rule);
     } catch (error) {
-      console.error('Error cleaning up organization duplicate assignments:', error);
-      res.status(500).json({ message: 'Failed to clean up duplicate assignments' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid rule data', errors: error.errors });
+      }
+      console.error('Error creating assignment rule:', error);
+      res.status(500).json({ message: 'Failed to create assignment rule' });
     }
   });
 
-  // Get admin users for organization
-  app.get('/api/admin/admin-users/:organisationId', requireAuth, async (req: any, res) => {
+  // Update an assignment rule (including turning it on or off)
+  app.put('/api/assignment-rules/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const currentUserId = req.session.user?.id;
-      const currentUser = await storage.getUser(currentUserId);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = req.params.organisationId;
-      
-      // Admin can only view admin users for their own organization
-      if (currentUser.role === 'admin' && currentUser.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied' });
+      const rule = await storage.getAssignmentRule(req.params.id);
+      if (!rule || (user.role !== 'superadmin' && rule.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Assignment rule not found' });
       }
 
-      // Get all admin and superadmin users for the organization
-      const adminUsers = await storage.getUsersWithFilters({
-        organisationId,
-        role: ['admin', 'superadmin']
+      const body = assignmentRuleBodySchema.partial().parse(req.body);
+      if (body.courseId && !(await storage.getCourse(body.courseId))) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (body.groupId && (await storage.getUserGroup(body.groupId))?.organisationId !== rule.organisationId) {
+        return res.status(404).json({ message: 'User group not found' });
+      }
+
+      const updated = await storage.updateAssignmentRule(rule.id, {
+        ...(body.name !== undefined && { name: body.name }),
+        ...toAssignmentRuleCriteria(body),
+        ...(body.isActive !== undefined && { isActive: body.isActive }),
       });
 
-      res.json(adminUsers);
+      if (updated.isActive) {
+        await assignmentRuleService.applyRule(updated);
+      }
+
+      res.json(updated);
     } catch (error) {
-      console.error('Error fetching admin users:', error);
-      res.status(500).json({ message: 'Failed to fetch admin users' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid rule data', errors: error.errors });
+      }
+      console.error('Error updating assignment rule:', error);
+      res.status(500).json({ message: 'Failed to update assignment rule' });
     }
   });
 
-  // Promote user to admin
-  app.post('/api/admin/promote-user/:userId', requireAuth, async (req: any, res) => {
+  // Delete an assignment rule - assignments it already created are kept
+  app.delete('/api/assignment-rules/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const currentUserId = req.session.user?.id;
-      const currentUser = await storage.getUser(currentUserId);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { userId } = req.params;
-      const targetUser = await storage.getUser(userId);
-      
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const rule = await storage.getAssignmentRule(req.params.id);
+      if (!rule || (user.role !== 'superadmin' && rule.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Assignment rule not found' });
       }
 
-      // Admin can only promote users within their organization
-      if (currentUser.role === 'admin') {
-        if (targetUser.organisationId !== currentUser.organisationId) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+      await storage.deleteAssignmentRule(rule.id);
+      res.json({ message: 'Assignment rule deleted' });
+    } catch (error) {
+      console.error('Error deleting assignment rule:', error);
+      res.status(500).json({ message: 'Failed to delete assignment rule' });
+    }
+  });
+
+  // ===== SCHEDULED REPORTS =====
+
+  const reportSubscriptionBodySchema = insertReportSubscriptionSchema
+    .omit({ organisationId: true, createdBy: true })
+    .extend({ organisationId: z.string().optional() });
+
+  // Only the run day that matches the frequency is kept
+  function toReportSchedule(body: Partial<z.infer<typeof reportSubscriptionBodySchema>>, current?: ReportSubscription) {
+    const frequency = body.frequency ?? current?.frequency ?? 'weekly';
+    return {
+      frequency,
+      dayOfWeek: frequency === 'weekly' ? (body.dayOfWeek ?? current?.dayOfWeek ?? 1) : null,
+      dayOfMonth: frequency === 'monthly' ? (body.dayOfMonth ?? current?.dayOfMonth ?? 1) : null,
+      hour: body.hour ?? current?.hour ?? 7,
+    };
+  }
+
+  // Get scheduled reports for the current admin's organisation
+  app.get('/api/report-subscriptions', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Cannot promote superadmins or existing admins
-      if (targetUser.role === 'superadmin' || targetUser.role === 'admin') {
-        return res.status(400).json({ message: 'User is already an administrator' });
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string || user.organisationId) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Check admin limit before promoting
-      const orgId = targetUser.organisationId;
-      if (!orgId) {
-        return res.status(400).json({ message: 'User must be associated with an organisation' });
+      res.json(await storage.getReportSubscriptionsByOrganisation(organisationId));
+    } catch (error) {
+      console.error('Error fetching report subscriptions:', error);
+      res.status(500).json({ message: 'Failed to fetch scheduled reports' });
+    }
+  });
+
+  // Create a scheduled report
+  app.post('/api/report-subscriptions', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
-      
-      const adminLimitCheck = await storage.enforceAdminLimit(orgId);
-      if (!adminLimitCheck.allowed) {
-        return res.status(403).json({
-          message: 'Admin user limit exceeded',
-          code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
-          featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
-          maxAllowed: adminLimitCheck.error?.maxAllowed || 1
-        });
+
+      const body = reportSubscriptionBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? (body.organisationId || user.organisationId) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      if (body.reportType !== 'training_matrix' && body.format && body.format !== 'csv') {
+        return res.status(400).json({ message: 'Excel and PDF are only available for the training matrix report' });
+      }
+
+      const schedule = toReportSchedule(body);
+      const subscription = await storage.createReportSubscription({
+        organisationId,
+        name: body.name,
+        reportType: body.reportType,
+        filters: body.filters || {},
+        format: body.format || 'csv',
+        ...schedule,
+        recipients: body.recipients,
+        isActive: body.isActive ?? true,
+        nextRunAt: reportSubscriptionService.getNextRunAt(schedule),
+        createdBy: user.id,
+      });
+
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid report data', errors: error.errors });
+      }
+      console.error('Error creating report subscription:', error);
+      res.status(500).json({ message: 'Failed to create scheduled report' });
+    }
+  });
+
+  // Update a scheduled report (including pausing or resuming it)
+  app.put('/api/report-subscriptions/:id', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      const updatedUser = await storage.updateUser(userId, { role: 'admin' });
-      
-      // Send new admin added notification using EmailNotificationService
-      try {
-        await emailNotificationService.notifyNewAdminAdded(
-          targetUser.organisationId!,
-          updatedUser.id,
-          currentUser.id
-        );
-      } catch (error) {
-        console.error('[User Promotion] Failed to send admin notification:', error);
-        // Don't break promotion flow on notification failure
+      const subscription = await storage.getReportSubscription(req.params.id);
+      if (!subscription || (user.role !== 'superadmin' && subscription.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Scheduled report not found' });
       }
-      
-      res.json({ message: 'User promoted to admin successfully', user: updatedUser });
+
+      const body = reportSubscriptionBodySchema.partial().parse(req.body);
+      if ((body.reportType ?? subscription.reportType) !== 'training_matrix' && (body.format ?? subscription.format) !== 'csv') {
+        return res.status(400).json({ message: 'Excel and PDF are only available for the training matrix report' });
+      }
+
+      const schedule = toReportSchedule(body, subscription);
+
+      const updated = await storage.updateReportSubscription(subscription.id, {
+        ...(body.name !== undefined && { name: body.name }),
+        ...(body.reportType !== undefined && { reportType: body.reportType }),
+        ...(body.filters !== undefined && { filters: body.filters }),
+        ...(body.format !== undefined && { format: body.format }),
+        ...(body.recipients !== undefined && { recipients: body.recipients }),
+        ...(body.isActive !== undefined && { isActive: body.isActive }),
+        ...schedule,
+        // Rescheduled from now, so a paused report doesn't fire for the runs it missed
+        nextRunAt: reportSubscriptionService.getNextRunAt(schedule),
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error('Error promoting user to admin:', error);
-      res.status(500).json({ message: 'Failed to promote user to admin' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid report data', errors: error.errors });
+      }
+      console.error('Error updating report subscription:', error);
+      res.status(500).json({ message: 'Failed to update scheduled report' });
     }
   });
 
-  // Remove admin privileges (demote to user)
-  app.post('/api/admin/demote-user/:userId', requireAuth, async (req: any, res) => {
+  // Delete a scheduled report
+  app.delete('/api/report-subscriptions/:id', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
     try {
-      const currentUserId = req.session.user?.id;
-      const currentUser = await storage.getUser(currentUserId);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { userId } = req.params;
-      const targetUser = await storage.getUser(userId);
-      
-      if (!targetUser) {
-        return res.status(404).json({ message: 'User not found' });
+      const subscription = await storage.getReportSubscription(req.params.id);
+      if (!subscription || (user.role !== 'superadmin' && subscription.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Scheduled report not found' });
       }
 
-      // Admin can only demote users within their organization
-      if (currentUser.role === 'admin') {
-        if (targetUser.organisationId !== currentUser.organisationId) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
-      }
+      await storage.deleteReportSubscription(subscription.id);
+      res.json({ message: 'Scheduled report deleted' });
+    } catch (error) {
+      console.error('Error deleting report subscription:', error);
+      res.status(500).json({ message: 'Failed to delete scheduled report' });
+    }
+  });
 
-      // Cannot demote yourself
-      if (targetUser.id === currentUser.id) {
-        return res.status(400).json({ message: 'Cannot remove your own admin privileges' });
+  // Send a scheduled report to its recipients now, without changing its schedule
+  app.post('/api/report-subscriptions/:id/send', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Cannot demote superadmins unless you are a superadmin
-      if (targetUser.role === 'superadmin' && currentUser.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Cannot demote superadmin users' });
+      const subscription = await storage.getReportSubscription(req.params.id);
+      if (!subscription || (user.role !== 'superadmin' && subscription.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Scheduled report not found' });
       }
 
-      // Cannot demote if not an admin
-      if (targetUser.role !== 'admin' && targetUser.role !== 'superadmin') {
-        return res.status(400).json({ message: 'User is not an administrator' });
+      const result = await reportSubscriptionService.deliver(subscription);
+      if (result.queued === 0) {
+        return res.status(502).json({ message: result.error || 'Failed to send report', ...result });
       }
 
-      const updatedUser = await storage.updateUser(userId, { role: 'user' });
-      res.json({ message: 'Admin privileges removed successfully', user: updatedUser });
+      res.json({ message: `Report queued for ${result.queued} of ${result.recipients} recipient(s)`, ...result });
     } catch (error) {
-      console.error('Error demoting admin user:', error);
-      res.status(500).json({ message: 'Failed to remove admin privileges' });
+      console.error('Error sending report subscription:', error);
+      res.status(500).json({ message: 'Failed to send scheduled report' });
     }
   });
 
-  // Get overdue assignments count
-  app.get('/api/admin/overdue-count/:organisationId', requireAuth, async (req: any, res) => {
+  // ===== MANDATORY TRAINING =====
+
+  const mandatoryCourseBodySchema = insertMandatoryCourseSchema
+    .omit({ organisationId: true, createdBy: true })
+    .extend({
+      department: z.string().trim().nullable().optional(),
+      jobTitle: z.string().trim().nullable().optional(),
+      organisationId: z.string().optional(),
+    });
+
+  // Get mandatory course designations with their current compliance
+  app.get('/api/mandatory-courses', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const organisationId = req.params.organisationId;
-      const now = new Date();
-      
-      // Get all assignments for the organisation
-      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
-      
-      // Get all users for the organisation to filter by active status
-      const users = await storage.getUsersByOrganisation(organisationId);
-      const activeUserIds = new Set(users.filter(user => user.status === 'active').map(user => user.id));
-      
-      // Count overdue assignments (due date passed or status is overdue) for ACTIVE users only
-      const overdueCount = assignments.filter(assignment => {
-        // Only count assignments for active users
-        if (!activeUserIds.has(assignment.userId)) {
-          return false;
-        }
-        
-        if (assignment.status === 'overdue') {
-          return true;
-        }
-        if (assignment.dueDate) {
-          const dueDate = new Date(assignment.dueDate);
-          return dueDate < now && assignment.status !== 'completed';
-        }
-        return false;
-      }).length;
-      
-      res.json({ overdueCount });
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      const designations = await storage.getMandatoryCoursesByOrganisation(organisationId);
+      const compliance = await complianceService.getOrganisationCompliance(organisationId);
+      res.json(designations.map(designation => {
+        const figures = compliance.byDesignation.find(d => d.mandatoryCourseId === designation.id);
+        return { ...designation, courseTitle: figures?.courseTitle || 'Unknown course', compliance: figures || null };
+      }));
     } catch (error) {
-      console.error('Error fetching overdue count:', error);
-      res.status(500).json({ message: 'Failed to fetch overdue count' });
+      console.error('Error fetching mandatory courses:', error);
+      res.status(500).json({ message: 'Failed to fetch mandatory courses' });
     }
   });
 
-  // Get expiring training data
-  app.get('/api/admin/expiring-training/:organisationId', requireAuth, async (req: any, res) => {
+  // Designate a course as mandatory
+  app.post('/api/mandatory-courses', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = req.params.organisationId;
-      
-      // For admins, ensure they can only access their own organisation's data
-      if (user.role === 'admin' && user.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      const body = mandatoryCourseBodySchema.parse(req.body);
+      const organisationId = user.role === 'superadmin' ? body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      const now = new Date();
-      const sevenDaysFromNow = new Date();
-      sevenDaysFromNow.setDate(now.getDate() + 7);
-      const thirtyDaysFromNow = new Date();
-      thirtyDaysFromNow.setDate(now.getDate() + 30);
-      const ninetyDaysFromNow = new Date();
-      ninetyDaysFromNow.setDate(now.getDate() + 90);
-      
-      // Get all assignments for the organisation
-      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
-      
-      // Get all users for the organisation
-      const users = await storage.getUsersByOrganisation(organisationId);
-      const activeUsers = users.filter(u => u.status === 'active' && u.role === 'user');
-      
-      // Get all courses
-      const courses = await storage.getAllCourses();
-      
-      // Get all completions
-      const completions = await storage.getCompletionsByOrganisation(organisationId);
-      
-      const expiringTraining = [];
-      
-      for (const assignment of assignments) {
-        // Skip if assignment is already completed
-        if (assignment.status === 'completed') continue;
-        
-        const user = activeUsers.find(u => u.id === assignment.userId);
-        const course = courses.find(c => c.id === assignment.courseId);
-        
-        if (!user || !course) continue;
-        
-        // Check if user has any completions for this course
-        const userCompletions = completions.filter(c => 
-          c.userId === assignment.userId && 
-          c.courseId === assignment.courseId &&
-          c.status === 'pass'
-        );
-        
-        const latestCompletion = userCompletions.sort((a, b) => 
-          new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
-        )[0];
-        
-        let daysUntilDue = null;
-        let isExpiring = false;
-        
-        if (latestCompletion && course.certificateExpiryPeriod) {
-          // Course is completed but might be expiring
-          const completionDate = new Date(latestCompletion.completedAt!);
-          const expiryDate = new Date(completionDate);
-          expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
-          
-          if (expiryDate <= ninetyDaysFromNow) {
-            daysUntilDue = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            isExpiring = true;
-          }
-        } else if (!latestCompletion && assignment.dueDate) {
-          // Course is not completed and has a due date
-          const dueDate = new Date(assignment.dueDate);
-          if (dueDate <= ninetyDaysFromNow) {
-            daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            isExpiring = true;
-          }
-        }
-        
-        if (isExpiring && daysUntilDue !== null) {
-          expiringTraining.push({
-            userId: user.id,
-            userName: `${user.firstName} ${user.lastName}`,
-            courseId: course.id,
-            courseTitle: course.title,
-            dueDate: latestCompletion && course.certificateExpiryPeriod ? 
-              new Date(new Date(latestCompletion.completedAt!).setMonth(
-                new Date(latestCompletion.completedAt!).getMonth() + course.certificateExpiryPeriod
-              )).toISOString() : 
-              assignment.dueDate,
-            daysUntilDue,
-            isExpiry: !!latestCompletion
-          });
-        }
+      if (!(await storage.getCourse(body.courseId))) {
+        return res.status(404).json({ message: 'Course not found' });
       }
-      
-      res.json(expiringTraining);
+
+      const designation = await storage.createMandatoryCourse({
+        organisationId,
+        courseId: body.courseId,
+        department: body.department || null,
+        jobTitle: body.jobTitle || null,
+        targetPercent: body.targetPercent ?? 100,
+        createdBy: user.id,
+      });
+      res.status(201).json(designation);
     } catch (error) {
-      console.error('Error fetching expiring training:', error);
-      res.status(500).json({ message: 'Failed to fetch expiring training' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid mandatory course data', errors: error.errors });
+      }
+      console.error('Error creating mandatory course:', error);
+      res.status(500).json({ message: 'Failed to create mandatory course' });
     }
   });
 
-  // Get recent completions for admin dashboard
-  app.get('/api/admin/recent-completions/:organisationId', requireAuth, async (req: any, res) => {
+  // Update a mandatory course designation's scope or target
+  app.put('/api/mandatory-courses/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = req.params.organisationId;
-      
-      // For admins, ensure they can only access their own organisation's data
-      if (user.role === 'admin' && user.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      const designation = await storage.getMandatoryCourse(req.params.id);
+      if (!designation || (user.role !== 'superadmin' && designation.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Mandatory course not found' });
       }
 
-      // Get all users for the organisation
-      const users = await storage.getUsersByOrganisation(organisationId);
-      const userMap = new Map(users.map(u => [u.id, u]));
-      
-      // Get all courses
-      const courses = await storage.getAllCourses();
-      const courseMap = new Map(courses.map(c => [c.id, c]));
-      
-      // Get recent completions (last 30 days)
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      const allCompletions = await storage.getCompletionsByOrganisation(organisationId);
-      const recentCompletions = allCompletions
-        .filter(completion => {
-          const user = userMap.get(completion.userId);
-          const completionDate = new Date(completion.completedAt!);
-          return user && 
-                 user.organisationId === organisationId && 
-                 completion.status === 'pass' && 
-                 completionDate >= thirtyDaysAgo;
-        })
-        .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())
-        .slice(0, 3)
-        .map(completion => {
-          const user = userMap.get(completion.userId);
-          const course = courseMap.get(completion.courseId);
-          return {
-            id: completion.id,
-            userId: completion.userId,
-            userName: user ? `${user.firstName} ${user.lastName}` : 'Unknown User',
-            courseTitle: course?.title || 'Unknown Course',
-            score: completion.score ? parseFloat(completion.score) : 0,
-            completedAt: completion.completedAt
-          };
-        });
-      
-      res.json(recentCompletions);
+      const body = mandatoryCourseBodySchema.partial().parse(req.body);
+      if (body.courseId && !(await storage.getCourse(body.courseId))) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const updated = await storage.updateMandatoryCourse(designation.id, {
+        ...(body.courseId !== undefined && { courseId: body.courseId }),
+        ...(body.department !== undefined && { department: body.department || null }),
+        ...(body.jobTitle !== undefined && { jobTitle: body.jobTitle || null }),
+        ...(body.targetPercent !== undefined && { targetPercent: body.targetPercent }),
+      });
+      res.json(updated);
     } catch (error) {
-      console.error('Error fetching recent completions:', error);
-      res.status(500).json({ message: 'Failed to fetch recent completions' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid mandatory course data', errors: error.errors });
+      }
+      console.error('Error updating mandatory course:', error);
+      res.status(500).json({ message: 'Failed to update mandatory course' });
     }
   });
 
-  // Get analytics/completions data for admin dashboard  
-  app.get('/api/admin/analytics/completions/:organisationId', requireAuth, async (req: any, res) => {
+  // Remove a mandatory course designation - the course and its assignments are unaffected
+  app.delete('/api/mandatory-courses/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = req.params.organisationId;
-      
-      // For admins, ensure they can only access their own organisation's data
-      if (user.role === 'admin' && user.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      const designation = await storage.getMandatoryCourse(req.params.id);
+      if (!designation || (user.role !== 'superadmin' && designation.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Mandatory course not found' });
       }
 
-      // Get completion analytics for this organisation
-      const organisationCompletions = await storage.getCompletionsByOrganisation(organisationId);
-      const users = await storage.getUsersByOrganisation(organisationId);
-      const userIds = users.map(u => u.id);
-      
-      // Filter completions by organisation users and format for chart
-      const completionAnalytics = await storage.getCompletionAnalytics();
-      const filteredAnalytics = completionAnalytics.map(monthData => ({
-        ...monthData,
-        // This would need to be properly filtered in a real implementation
-        // For now, return the data as-is since getCompletionAnalytics may already handle filtering
-      }));
-      
-      res.json(filteredAnalytics);
+      await storage.deleteMandatoryCourse(designation.id);
+      res.json({ message: 'Mandatory course removed' });
     } catch (error) {
-      console.error('Error fetching completion analytics:', error);
-      res.status(500).json({ message: 'Failed to fetch completion analytics' });
+      console.error('Error deleting mandatory course:', error);
+      res.status(500).json({ message: 'Failed to delete mandatory course' });
     }
   });
 
-  // Audit Log API (Admin access with feature check)
-  app.get('/api/admin/audit-logs/:organisationId', requireAuth, async (req: any, res) => {
+  // ===== COMPLIANCE HISTORY =====
+
+  const snapshotDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+  const complianceTrendQuerySchema = z.object({
+    from: snapshotDateSchema.optional(),
+    to: snapshotDateSchema.optional(),
+    department: z.string().optional(),
+    courseId: z.string().optional(),
+    organisationId: z.string().optional(),
+  });
+
+  // Fill in the default range - the last 90 days
+  function toTrendRange(query: z.infer<typeof complianceTrendQuerySchema>) {
+    const to = query.to || complianceSnapshotService.toSnapshotDate();
+    const defaultFrom = new Date();
+    defaultFrom.setDate(defaultFrom.getDate() - 90);
+    return { from: query.from || complianceSnapshotService.toSnapshotDate(defaultFrom), to };
+  }
+
+  // Daily compliance trend for the current admin's organisation, optionally for one department or course
+  app.get('/api/admin/compliance/trends', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = req.params.organisationId;
-      
-      // For admins, ensure they can only access their own organisation's data
-      if (user.role === 'admin' && user.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied: Cannot access other organisation data' });
+      const query = complianceTrendQuerySchema.parse(req.query);
+      const organisationId = user.role === 'superadmin' ? query.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Get organisation to check plan features
-      const organisation = await storage.getOrganisation(organisationId);
-      if (!organisation) {
-        return res.status(404).json({ message: 'Organisation not found' });
+      const { from, to } = toTrendRange(query);
+      const points = await complianceSnapshotService.getTrend(organisationId, from, to, {
+        department: query.department || undefined,
+        courseId: query.courseId || undefined,
+      });
+      res.json({ from, to, points });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid date range', errors: error.errors });
       }
+      console.error('Error fetching compliance trend:', error);
+      res.status(500).json({ message: 'Failed to fetch compliance trend' });
+    }
+  });
 
-      // Check if audit log feature is enabled for the organisation's plan
-      const hasAuditLogAccess = await hasFeatureAccess(organisationId, 'audit_log');
-      if (!hasAuditLogAccess) {
-        return res.status(403).json({ message: 'Audit log feature not available for your plan' });
+  // Daily compliance trend across the platform, or for one organisation
+  app.get('/api/superadmin/compliance/trends', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Get pagination parameters
-      const limit = parseInt(req.query.limit as string) || 50;
-      const offset = parseInt(req.query.offset as string) || 0;
-
-      // Fetch audit logs for the organisation
-      const auditLogs = await storage.getAuditLogs(organisationId, limit, offset);
-      
-      res.json(auditLogs);
+      const query = complianceTrendQuerySchema.parse(req.query);
+      const { from, to } = toTrendRange(query);
+      const points = await complianceSnapshotService.getTrend(query.organisationId || undefined, from, to);
+      res.json({ from, to, points });
     } catch (error) {
-      console.error('Error fetching audit logs:', error);
-      res.status(500).json({ message: 'Failed to fetch audit logs' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid date range', errors: error.errors });
+      }
+      console.error('Error fetching platform compliance trend:', error);
+      res.status(500).json({ message: 'Failed to fetch compliance trend' });
     }
   });
 
-  // Create audit log entry (internal use)
-  app.post('/api/admin/audit-logs', requireAuth, async (req: any, res) => {
+  // The training matrix as it stood on a past date, for audits
+  app.get('/api/admin/compliance/matrix', requireAuth, requirePermission('reports.view'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { organisationId, action, resource, resourceId, details } = req.body;
-      
-      // For admins, ensure they can only create logs for their own organisation
-      if (user.role === 'admin' && user.organisationId !== organisationId) {
-        return res.status(403).json({ message: 'Access denied: Cannot create logs for other organisation' });
+      const date = snapshotDateSchema.parse(req.query.date);
+      const organisationId = user.role === 'superadmin' ? (req.query.organisationId as string) : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Create audit log entry
-      const auditLog = await storage.createAuditLog({
-        organisationId,
-        userId: user.id,
-        action,
-        resource,
-        resourceId,
-        details: details || '',
-        ipAddress: req.ip || req.connection.remoteAddress || '',
-        userAgent: req.get('User-Agent') || '',
-      });
-      
-      res.status(201).json(auditLog);
+      const snapshot = await complianceSnapshotService.getMatrixAt(organisationId, date);
+      if (!snapshot) {
+        return res.status(404).json({ message: `No compliance snapshot was recorded on or before ${date}` });
+      }
+      res.json(snapshot);
     } catch (error) {
-      console.error('Error creating audit log:', error);
-      res.status(500).json({ message: 'Failed to create audit log' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid date', errors: error.errors });
+      }
+      console.error('Error fetching compliance snapshot matrix:', error);
+      res.status(500).json({ message: 'Failed to fetch compliance snapshot' });
     }
   });
 
-  // Get training matrix data
-  app.get('/api/training-matrix', requireAuth, async (req: any, res) => {
+  // Record today's snapshot now rather than waiting for the nightly run
+  app.post('/api/superadmin/compliance/snapshots', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await getCurrentUser(req);
-      
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const organisationId = currentUser.organisationId;
-      if (!organisationId) {
-        return res.status(400).json({ message: 'Organisation ID required' });
+      if (req.body?.organisationId) {
+        await complianceSnapshotService.takeSnapshot(req.body.organisationId);
+        return res.json({ organisations: 1, failed: 0 });
       }
 
-      // Extract filter parameters
-      const { departments, roles, courses: coursesQuery, statuses, staff: staffFilter, mandatoryOnly } = req.query;
-      const departmentFilter = departments ? departments.split(',') : [];
-      const roleFilter = roles ? roles.split(',') : [];
-      const courseFilter = coursesQuery ? coursesQuery.split(',') : [];
-      const statusFilter = statuses ? statuses.split(',') : [];
-      const staffIdFilter = staffFilter ? staffFilter.split(',') : [];
-      const mandatoryOnlyFilter = mandatoryOnly === 'true';
+      res.json(await complianceSnapshotService.runNightlySnapshots());
+    } catch (error) {
+      console.error('Error recording compliance snapshots:', error);
+      res.status(500).json({ message: 'Failed to record compliance snapshots' });
+    }
+  });
 
-      // Get all staff members in the organisation
-      const staff = await storage.getUsersByOrganisation(organisationId);
-      let activeStaff = staff.filter(u => u.status === 'active' && u.role === 'user');
+  // ===== MANAGERS =====
+
+  // Line managers work within their own organisation only; a manager without one has no team
+  async function getCurrentManager(req: any) {
+    const user = await getCurrentUser(req);
+    return user?.isManager && user.organisationId && user.status === 'active' ? user : null;
+  }
 
-      // Apply staff filter
-      if (staffIdFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => staffIdFilter.includes(s.id));
+  // The current manager's team - everyone below them in the reporting line
+  app.get('/api/manager/team', requireAuth, async (req: any, res) => {
+    try {
+      const manager = await getCurrentManager(req);
+      if (!manager) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Apply department filter
-      if (departmentFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => s.department && departmentFilter.includes(s.department));
+      const team = await teamService.getTeam(manager);
+      res.json(team.map(({ user, isDirectReport }) => ({
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        department: user.department,
+        jobTitle: user.jobTitle,
+        status: user.status,
+        managerId: user.managerId,
+        isManager: user.isManager,
+        lastActive: user.lastActive,
+        isDirectReport,
+      })));
+    } catch (error) {
+      console.error('Error fetching manager team:', error);
+      res.status(500).json({ message: 'Failed to fetch team' });
+    }
+  });
+
+  // Training matrix for the current manager's team, with the same filters as the admin matrix
+  app.get('/api/manager/training-matrix', requireAuth, async (req: any, res) => {
+    try {
+      const manager = await getCurrentManager(req);
+      if (!manager) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Apply role/job title filter (treating jobTitle as role)
-      if (roleFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => s.jobTitle && roleFilter.includes(s.jobTitle));
+      const { departments, courses: coursesQuery, statuses, mandatoryOnly } = req.query;
+      res.json(await trainingMatrixService.buildMatrix(manager.organisationId!, {
+        departments: departments ? departments.split(',') : [],
+        courses: coursesQuery ? coursesQuery.split(',') : [],
+        statuses: statuses ? statuses.split(',') : [],
+        mandatoryOnly: mandatoryOnly === 'true',
+        teamUserIds: await teamService.getTeamMemberIds(manager),
+      }));
+    } catch (error) {
+      console.error('Error fetching team training matrix:', error);
+      res.status(500).json({ message: 'Failed to fetch training matrix' });
+    }
+  });
+
+  // Overdue training across the current manager's team
+  app.get('/api/manager/overdue', requireAuth, async (req: any, res) => {
+    try {
+      const manager = await getCurrentManager(req);
+      if (!manager) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Get all courses assigned to users in this organisation
-      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
-      let courseIds = Array.from(new Set(assignments.map(a => a.courseId)));
-      
-      const courses = await Promise.all(
-        courseIds.map(async (courseId) => {
-          return await storage.getCourse(courseId);
-        })
-      );
-      let validCourses = courses.filter((c): c is NonNullable<typeof c> => Boolean(c));
+      res.json(await trainingMatrixService.buildOverdueList(manager.organisationId!, {
+        teamUserIds: await teamService.getTeamMemberIds(manager),
+      }));
+    } catch (error) {
+      console.error('Error fetching team overdue training:', error);
+      res.status(500).json({ message: 'Failed to fetch overdue training' });
+    }
+  });
 
-      // Apply course filter
-      if (courseFilter.length > 0) {
-        validCourses = validCourses.filter(c => courseFilter.includes(c.id));
+  // Certificates held by the current manager's team
+  app.get('/api/manager/certificates', requireAuth, async (req: any, res) => {
+    try {
+      const manager = await getCurrentManager(req);
+      if (!manager) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Get all completions for this organisation
-      const completions = await storage.getCompletionsByOrganisation(organisationId);
-      
-      // Get all certificates for this organisation
-      const certificates = await storage.getCertificatesByOrganisation(organisationId);
-      
-      // Get all SCORM attempts for this organisation to show attempt status
-      const scormAttempts = await storage.getScormAttemptsByOrganisation(organisationId);
+      const team = await teamService.getTeam(manager);
+      const teamById = new Map(team.map(member => [member.user.id, member.user]));
+      const certificates = (await storage.getCertificatesByOrganisation(manager.organisationId!))
+        .filter(cert => teamById.has(cert.userId));
 
-      // Calculate matrix data only for filtered staff and courses
-      const matrix: any[][] = [];
-      const summary = { red: 0, amber: 0, green: 0, grey: 0, blue: 0, failed: 0 };
+      const enrichedCertificates = await Promise.all(certificates.map(async (cert) => {
+        const learner = teamById.get(cert.userId)!;
+        const course = await storage.getCourse(cert.courseId);
+        return {
+          ...cert,
+          user: { firstName: learner.firstName, lastName: learner.lastName, email: learner.email },
+          course: course ? { title: course.title } : null,
+        };
+      }));
 
-      // Current date for expiry calculations (Europe/London timezone)
-      const now = new Date();
-      const thirtyDaysFromNow = new Date();
-      thirtyDaysFromNow.setDate(now.getDate() + 30);
+      res.json(enrichedCertificates);
+    } catch (error) {
+      console.error('Error fetching team certificates:', error);
+      res.status(500).json({ message: 'Failed to fetch certificates' });
+    }
+  });
 
-      // Build matrix for filtered staff and courses
-      for (const staffMember of activeStaff) {
-        const staffRow: any[] = [];
-        
-        for (const course of validCourses) {
-          // Find assignment for this staff member and course
-          const assignment = assignments.find(a => 
-            a.userId === staffMember.id && a.courseId === course.id
-          );
+  // Courses the current manager can assign to their team
+  app.get('/api/manager/courses', requireAuth, async (req: any, res) => {
+    try {
+      const manager = await getCurrentManager(req);
+      if (!manager) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
 
-          if (!assignment) {
-            // No assignment - blank cell
-            staffRow.push({
-              status: 'blank',
-              label: '-',
-              attemptCount: 0
-            });
-            continue;
-          }
+      res.json(await getAssignableCourses(manager.organisationId!));
+    } catch (error) {
+      console.error('Error fetching manager courses:', error);
+      res.status(500).json({ message: 'Failed to fetch courses' });
+    }
+  });
 
-          // Find latest successful completion
-          const userCompletions = completions.filter(c => 
-            c.userId === staffMember.id && 
-            c.courseId === course.id &&
-            c.status === 'pass'
-          );
-          
-          const latestCompletion = userCompletions.sort((a, b) => 
-            new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
-          )[0];
-
-          // Check for failed attempts
-          const failedCompletions = completions.filter(c => 
-            c.userId === staffMember.id && 
-            c.courseId === course.id &&
-            c.status === 'fail'
-          );
+  // Send the weekly manager digests now rather than waiting for the scheduler
+  app.post('/api/superadmin/manager-digests/run', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user || user.role !== 'superadmin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
 
-          const latestFailedCompletion = failedCompletions.sort((a, b) => 
-            new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
-          )[0];
-
-          // If there are failed attempts but no successful completion, show failed status
-          if (!latestCompletion && latestFailedCompletion) {
-            staffRow.push({
-              status: 'failed',
-              label: 'Failed',
-              score: latestFailedCompletion.score ? parseFloat(latestFailedCompletion.score) : null,
-              completionDate: new Date(latestFailedCompletion.completedAt!).toLocaleDateString('en-GB'),
-              attemptCount: completions.filter(c => 
-                c.userId === staffMember.id && c.courseId === course.id
-              ).length,
-              assignmentId: assignment.id,
-              completionId: latestFailedCompletion.id
-            });
-            
-            // Update summary counts for failed attempts
-            if (!summary.failed) summary.failed = 0;
-            summary.failed++;
-            continue;
-          }
+      res.json(await teamService.sendManagerDigests());
+    } catch (error) {
+      console.error('Error sending manager digests:', error);
+      res.status(500).json({ message: 'Failed to send manager digests' });
+    }
+  });
 
-          if (!latestCompletion) {
-            // Not completed - check SCORM attempt status and assignment due date
-            // Only consider active attempts for training matrix status
-            const userAttempts = scormAttempts.filter(a => 
-              a.userId === staffMember.id && 
-              a.courseId === course.id &&
-              a.isActive // Only active attempts
-            );
-            
-            // Only log when there are discrepancies for debugging
-            const allUserAttempts = scormAttempts.filter(a => 
-              a.userId === staffMember.id && a.courseId === course.id
-            );
-            
-            if (allUserAttempts.length > 0 && userAttempts.length !== allUserAttempts.length) {
-              console.log(`🎯 Training Matrix - Found inactive attempts for ${staffMember.firstName} ${staffMember.lastName}:`, {
-                totalAttempts: allUserAttempts.length,
-                activeAttempts: userAttempts.length,
-                courseTitle: course.title
-              });
-            }
-            
-            const latestAttempt = userAttempts.sort((a, b) => 
-              new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
-            )[0];
-            
-            const now = new Date();
-            const sevenDaysFromNow = new Date();
-            sevenDaysFromNow.setDate(now.getDate() + 7);
-            
-            let cellStatus: 'red' | 'amber' | 'blue' | 'grey' | 'failed';
-            let cellLabel: string;
-            
-            // Check SCORM attempt status first for accurate lifecycle tracking
-            if (latestAttempt) {
-              if (latestAttempt.status === 'completed') {
-                // This shouldn't happen as we already checked for completions above
-                cellStatus = 'grey';
-                cellLabel = 'Completed';
-              } else if (latestAttempt.status === 'in_progress') {
-                cellStatus = 'blue';
-                cellLabel = 'In Progress';
-              } else {
-                // not_started or abandoned
-                cellStatus = 'grey';
-                cellLabel = 'Not Started';
-              }
-            } else {
-              // No attempt yet - check assignment status and due date
-              if (assignment.status === 'overdue') {
-                cellStatus = 'red';
-                cellLabel = 'Overdue';
-              } else {
-                // Check due date for assignments that aren't overdue
-                if (assignment.dueDate) {
-                  const dueDate = new Date(assignment.dueDate);
-                  if (dueDate < now) {
-                    cellStatus = 'red';
-                    cellLabel = 'Overdue';
-                  } else if (dueDate <= sevenDaysFromNow) {
-                    cellStatus = 'amber';
-                    cellLabel = 'Due Soon';
-                  } else {
-                    cellStatus = 'grey';
-                    cellLabel = 'Not Started';
-                  }
-                } else {
-                  cellStatus = 'grey';
-                  cellLabel = 'Not Started';
-                }
-              }
-            }
-            
-            staffRow.push({
-              status: cellStatus,
-              label: cellLabel,
-              dueDate: assignment.dueDate ? new Date(assignment.dueDate).toLocaleDateString('en-GB') : null,
-              attemptCount: completions.filter(c => 
-                c.userId === staffMember.id && c.courseId === course.id
-              ).length,
-              assignmentId: assignment.id
-            });
-            
-            // Update summary counts
-            if (cellStatus === 'blue') {
-              if (!summary.blue) summary.blue = 0;
-              summary.blue++;
-            } else {
-              summary[cellStatus]++;
-            }
-            continue;
-          }
+  // ===== CUSTOM ROLES =====
 
-          // Has completion - check expiry
-          const completionDate = new Date(latestCompletion.completedAt!);
-          
-          // Calculate expiry date
-          let expiryDate: Date | null = null;
-          if (course.certificateExpiryPeriod) {
-            expiryDate = new Date(completionDate);
-            expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
-          }
+  // The permission catalogue, for building role definitions
+  app.get('/api/roles/permissions', requireAuth, requirePermission('roles.manage'), async (req: any, res) => {
+    res.json(Object.entries(PERMISSION_DESCRIPTIONS).map(([key, description]) => ({ key, description })));
+  });
 
-          // Determine status
-          let status: 'red' | 'amber' | 'green';
-          let label: string;
-          let dateLabel: string = '';
-
-          if (!expiryDate) {
-            // No expiry
-            status = 'green';
-            label = 'Complete';
-            dateLabel = 'No expiry';
-          } else if (expiryDate < now) {
-            // Expired
-            status = 'red';
-            label = 'Expired';
-            dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
-          } else if (expiryDate <= thirtyDaysFromNow) {
-            // Expiring within 30 days
-            status = 'amber';
-            label = 'Expiring';
-            dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
-          } else {
-            // Valid and not expiring soon
-            status = 'green';
-            label = 'In date';
-            dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
-          }
+  // Custom roles for the current organisation, with how many users hold each
+  app.get('/api/roles', requireAuth, requirePermission('roles.manage'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const organisationId = user?.role === 'superadmin' ? req.query.organisationId : user?.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
 
-          staffRow.push({
-            status,
-            label,
-            date: dateLabel,
-            score: latestCompletion.score ? parseFloat(latestCompletion.score) : null,
-            completionDate: completionDate.toLocaleDateString('en-GB'),
-            expiryDate: expiryDate?.toLocaleDateString('en-GB') || null,
-            attemptCount: userCompletions.length,
-            assignmentId: assignment.id,
-            completionId: latestCompletion.id
-          });
+      const [roles, orgUsers] = await Promise.all([
+        storage.getOrganisationRoles(organisationId),
+        storage.getUsersByOrganisation(organisationId),
+      ]);
+      res.json(roles.map(role => ({
+        ...role,
+        userCount: orgUsers.filter(u => u.customRoleId === role.id).length,
+      })));
+    } catch (error) {
+      console.error('Error fetching custom roles:', error);
+      res.status(500).json({ message: 'Failed to fetch roles' });
+    }
+  });
 
-          summary[status]++;
-        }
-        
-        matrix.push(staffRow);
-      }
-
-      // Apply status filtering if specified
-      let finalStaff = activeStaff;
-      let finalCourses = validCourses;
-      let finalMatrix = matrix;
-      let finalSummary = summary;
-
-      if (statusFilter.length > 0) {
-        const staffToKeep: boolean[] = new Array(activeStaff.length).fill(false);
-        const coursesToKeep: boolean[] = new Array(validCourses.length).fill(false);
-        const filteredMatrix: any[][] = [];
-        const filteredSummary = { red: 0, amber: 0, green: 0, grey: 0, blue: 0 };
-
-        // Check each staff row
-        for (let staffIndex = 0; staffIndex < matrix.length; staffIndex++) {
-          const staffRow = matrix[staffIndex];
-          const filteredRow: any[] = [];
-          let staffHasVisibleCells = false;
-
-          // Check each course cell for this staff member
-          for (let courseIndex = 0; courseIndex < staffRow.length; courseIndex++) {
-            const cell = staffRow[courseIndex];
-            
-            // If this cell matches the status filter
-            if (statusFilter.includes(cell.status)) {
-              filteredRow.push(cell);
-              staffHasVisibleCells = true;
-              coursesToKeep[courseIndex] = true;
-              filteredSummary[cell.status as keyof typeof filteredSummary]++;
-            } else {
-              filteredRow.push(null);
-            }
-          }
+  app.post('/api/roles', requireAuth, requirePermission('roles.manage'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
 
-          // If this staff member has any visible cells, keep them
-          if (staffHasVisibleCells) {
-            filteredMatrix.push(filteredRow);
-            staffToKeep[staffIndex] = true;
-          }
+      const organisationId = user.role === 'superadmin' ? req.body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      const roleData = insertOrganisationRoleSchema.parse({ ...req.body, organisationId, createdBy: user.id });
+      const existing = await storage.getOrganisationRoles(organisationId);
+      if (existing.some(role => role.name.toLowerCase() === roleData.name.toLowerCase())) {
+        return res.status(409).json({ message: 'A role with this name already exists' });
+      }
+
+      const role = await storage.createOrganisationRole(roleData);
+      await recordRoleChange(req, user, 'role_created', role);
+      res.status(201).json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid role data', errors: error.errors });
+      }
+      console.error('Error creating custom role:', error);
+      res.status(500).json({ message: 'Failed to create role' });
+    }
+  });
+
+  app.put('/api/roles/:id', requireAuth, requirePermission('roles.manage'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const existing = await storage.getOrganisationRole(req.params.id);
+      if (!user || !existing || (user.role !== 'superadmin' && existing.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Role not found' });
+      }
+
+      const updates = insertOrganisationRoleSchema
+        .pick({ name: true, description: true, permissions: true })
+        .partial()
+        .parse(req.body);
+      if (updates.name && updates.name.toLowerCase() !== existing.name.toLowerCase()) {
+        const others = await storage.getOrganisationRoles(existing.organisationId);
+        if (others.some(role => role.id !== existing.id && role.name.toLowerCase() === updates.name!.toLowerCase())) {
+          return res.status(409).json({ message: 'A role with this name already exists' });
         }
-
-        // Create final filtered arrays
-        finalStaff = activeStaff.filter((_, index) => staffToKeep[index]);
-        finalCourses = validCourses.filter((_, index) => coursesToKeep[index]);
-        
-        // Remove null columns from filtered matrix
-        finalMatrix = filteredMatrix.map(row => 
-          row.filter((_, colIndex) => coursesToKeep[colIndex])
-        );
-        
-        finalSummary = { ...filteredSummary, failed: 0 };
       }
 
-      res.json({
-        staff: finalStaff.map(s => ({
-          id: s.id,
-          firstName: s.firstName,
-          lastName: s.lastName,
-          email: s.email,
-          department: s.department,
-          jobTitle: s.jobTitle,
-          role: s.role
-        })),
-        courses: finalCourses.map(c => ({
-          id: c.id,
-          title: c.title,
-          category: c.category,
-          certificateExpiryPeriod: c.certificateExpiryPeriod,
-          status: c.status
-        })),
-        matrix: finalMatrix,
-        summary: finalSummary
+      const role = await storage.updateOrganisationRole(existing.id, updates);
+      await recordRoleChange(req, user, 'role_updated', role, {
+        previousName: existing.name,
+        previousPermissions: existing.permissions,
       });
+      res.json(role);
     } catch (error) {
-      console.error('Error fetching training matrix:', error);
-      res.status(500).json({ message: 'Failed to fetch training matrix' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid role data', errors: error.errors });
+      }
+      console.error('Error updating custom role:', error);
+      res.status(500).json({ message: 'Failed to update role' });
     }
   });
 
-  // Export training matrix data
-  app.post('/api/training-matrix/export', requireAuth, async (req: any, res) => {
+  app.delete('/api/roles/:id', requireAuth, requirePermission('roles.manage'), async (req: any, res) => {
     try {
-      const { format, filters, organisationId } = req.body;
-      const currentUser = await getCurrentUser(req);
-
-      if (!currentUser || (currentUser.role !== 'superadmin' && currentUser.role !== 'admin')) {
-        return res.status(403).json({ message: 'Access denied' });
+      const user = await getCurrentUser(req);
+      const existing = await storage.getOrganisationRole(req.params.id);
+      if (!user || !existing || (user.role !== 'superadmin' && existing.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Role not found' });
       }
 
-      // Get organization data for header
-      const organization = await storage.getOrganisation(organisationId);
-      if (!organization) {
-        return res.status(404).json({ message: 'Organization not found' });
-      }
+      const holders = (await storage.getUsersByOrganisation(existing.organisationId)).filter(u => u.customRoleId === existing.id);
+      await storage.deleteOrganisationRole(existing.id);
+      await recordRoleChange(req, user, 'role_deleted', existing, { revokedFrom: holders.map(u => u.id) });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting custom role:', error);
+      res.status(500).json({ message: 'Failed to delete role' });
+    }
+  });
 
-      // Use same filtering logic as main training matrix endpoint
-      const {
-        departments: departmentFilter = [],
-        roles: roleFilter = [],
-        courses: courseFilter = [],
-        statuses: statusFilter = [],
-        staff: staffIdFilter = [],
-        mandatoryOnly = false
-      } = filters || {};
+  // ===== CLASSROOM SESSIONS =====
 
-      // Get all staff members in the organisation
-      const staff = await storage.getUsersByOrganisation(organisationId);
-      let activeStaff = staff.filter(u => u.status === 'active' && u.role === 'user');
+  // Admins and coordinators run every session in their organisation; a trainer runs their own
+  async function canRunClassroomSession(user: User, session: ClassroomSession): Promise<boolean> {
+    if (user.role === 'superadmin') {
+      return true;
+    }
+    if (user.organisationId !== session.organisationId) {
+      return false;
+    }
+    return session.trainerId === user.id || await hasPermission(user, 'courses.assign');
+  }
 
-      // Apply filters
-      if (staffIdFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => staffIdFilter.includes(s.id));
-      }
-      if (departmentFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => s.department && departmentFilter.includes(s.department));
+  // Sessions with the course, trainer and places filled, for lists
+  async function describeClassroomSessions(sessions: ClassroomSession[], organisationId: string) {
+    const [orgUsers, allCourses] = await Promise.all([
+      storage.getUsersByOrganisation(organisationId),
+      storage.getAllCourses(),
+    ]);
+    return Promise.all(sessions.map(async (session) => {
+      const bookings = await storage.getClassroomBookingsBySession(session.id);
+      const trainer = orgUsers.find(u => u.id === session.trainerId);
+      return {
+        ...session,
+        courseTitle: allCourses.find(c => c.id === session.courseId)?.title || 'Unknown course',
+        trainerName: trainer ? `${trainer.firstName || ''} ${trainer.lastName || ''}`.trim() || trainer.email : null,
+        places: classroomService.getPlaces(session, bookings),
+        bookings,
+      };
+    }));
+  }
+
+  // Check a session's course and trainer belong to the organisation and that it ends after it starts
+  async function validateClassroomSession(data: { courseId?: string; trainerId?: string | null; startsAt?: Date; endsAt?: Date }, organisationId: string): Promise<string | null> {
+    if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+      return 'The session must end after it starts';
+    }
+    if (data.courseId) {
+      const assignableCourses = await getAssignableCourses(organisationId);
+      if (!assignableCourses.some(course => course.id === data.courseId)) {
+        return 'Course not available to this organisation';
       }
-      if (roleFilter.length > 0) {
-        activeStaff = activeStaff.filter(s => s.jobTitle && roleFilter.includes(s.jobTitle));
+    }
+    if (data.trainerId) {
+      const trainer = await storage.getUser(data.trainerId);
+      if (!trainer || trainer.organisationId !== organisationId) {
+        return 'Trainer not found in this organisation';
       }
+    }
+    return null;
+  }
 
-      // Get courses and apply filters
-      const assignments = await storage.getAssignmentsByOrganisation(organisationId);
-      let courseIds = Array.from(new Set(assignments.map(a => a.courseId)));
-      
-      const courses = await Promise.all(
-        courseIds.map(async (courseId) => {
-          return await storage.getCourse(courseId);
-        })
-      );
-      let validCourses = courses.filter((c): c is NonNullable<typeof c> => Boolean(c));
+  function handleClassroomError(res: any, error: unknown, action: string) {
+    if (error instanceof ClassroomBookingError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid session data', errors: error.errors });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  }
 
-      if (courseFilter.length > 0) {
-        validCourses = validCourses.filter(c => courseFilter.includes(c.id));
+  // Every session in the organisation, for the admin classroom page
+  app.get('/api/classroom/sessions', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const organisationId = user?.role === 'superadmin' ? req.query.organisationId : user?.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Get completions and build matrix (simplified for export)
-      const completions = await storage.getCompletionsByOrganisation(organisationId);
-      const now = new Date();
-
-      // Build simplified matrix data for export
-      const exportData: any[] = [];
-      
-      for (const staffMember of activeStaff) {
-        const staffData: any = {
-          'Staff Name': `${staffMember.firstName} ${staffMember.lastName}`,
-          'Job Title': staffMember.jobTitle || '',
-        };
-
-        for (const course of validCourses) {
-          const assignment = assignments.find(a => 
-            a.userId === staffMember.id && a.courseId === course.id
-          );
-
-          let status = 'Not assigned';
-          let details = '';
-
-          if (assignment) {
-            const userCompletions = completions.filter(c => 
-              c.userId === staffMember.id && 
-              c.courseId === course.id &&
-              c.status === 'pass'
-            );
-            
-            const latestCompletion = userCompletions.sort((a, b) => 
-              new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
-            )[0];
-
-            if (latestCompletion) {
-              const completionDate = new Date(latestCompletion.completedAt!);
-              let expiryDate: Date | null = null;
-              if (course.certificateExpiryPeriod) {
-                expiryDate = new Date(completionDate);
-                expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
-              }
-
-              if (!expiryDate) {
-                status = 'Complete';
-                details = `Completed: ${completionDate.toLocaleDateString('en-GB')}`;
-              } else if (expiryDate < now) {
-                status = 'Expired';
-                details = `Expired: ${expiryDate.toLocaleDateString('en-GB')}`;
-              } else {
-                status = 'In date';
-                details = `Expires: ${expiryDate.toLocaleDateString('en-GB')}`;
-              }
-            } else {
-              if (assignment.status === 'overdue') {
-                status = 'Overdue';
-              } else if (assignment.status === 'in_progress') {
-                status = 'In progress';
-              } else if (assignment.dueDate) {
-                const dueDate = new Date(assignment.dueDate);
-                if (dueDate < now) {
-                  status = 'Overdue';
-                } else {
-                  status = 'Not started';
-                  details = `Due: ${dueDate.toLocaleDateString('en-GB')}`;
-                }
-              } else {
-                status = 'Not started';
-              }
-            }
-          }
+      const sessions = await storage.getClassroomSessionsByOrganisation(organisationId);
+      const described = await describeClassroomSessions(sessions, organisationId);
+      res.json(described.map(({ bookings, ...session }) => session));
+    } catch (error) {
+      handleClassroomError(res, error, 'fetch classroom sessions');
+    }
+  });
 
-          staffData[course.title] = status;
-          if (details) {
-            staffData[`${course.title} - Details`] = details;
-          }
-        }
+  app.post('/api/classroom/sessions', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
 
-        exportData.push(staffData);
+      const organisationId = user.role === 'superadmin' ? req.body.organisationId : user.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      // Apply status filtering to export data if specified
-      if (statusFilter.length > 0) {
-        // This is complex for export, so we'll export the filtered view but keep all data
-        // The frontend should handle this filtering before calling export
+      const sessionData = insertClassroomSessionSchema.parse({
+        ...req.body,
+        organisationId,
+        trainerId: req.body.trainerId || null,
+        meetingUrl: req.body.meetingUrl || null,
+        createdBy: user.id,
+      });
+      const validationError = await validateClassroomSession(sessionData, organisationId);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
       }
 
-      // Generate export based on format
-      if (format === 'csv') {
-        const { createObjectCsvWriter } = await import('csv-writer');
-        
-        if (exportData.length === 0) {
-          return res.status(400).json({ message: 'No data to export' });
-        }
+      const session = await storage.createClassroomSession(sessionData);
+      res.status(201).json(session);
+    } catch (error) {
+      handleClassroomError(res, error, 'create classroom session');
+    }
+  });
 
-        const headers = Object.keys(exportData[0]).map(key => ({
-          id: key,
-          title: key
-        }));
+  app.put('/api/classroom/sessions/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const existing = await storage.getClassroomSession(req.params.id);
+      if (!user || !existing || !(await canRunClassroomSession(user, existing))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      if (existing.cancelledAt) {
+        return res.status(400).json({ message: 'This session has been cancelled' });
+      }
 
-        const csvWriter = createObjectCsvWriter({
-          path: '/tmp/training-matrix-export.csv',
-          header: headers
+      const updates = insertClassroomSessionSchema
+        .omit({ organisationId: true, createdBy: true })
+        .partial()
+        .parse({
+          ...req.body,
+          ...('trainerId' in req.body ? { trainerId: req.body.trainerId || null } : {}),
+          ...('meetingUrl' in req.body ? { meetingUrl: req.body.meetingUrl || null } : {}),
         });
+      const validationError = await validateClassroomSession({
+        courseId: updates.courseId,
+        trainerId: updates.trainerId,
+        startsAt: updates.startsAt || existing.startsAt,
+        endsAt: updates.endsAt || existing.endsAt,
+      }, existing.organisationId);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
 
-        await csvWriter.writeRecords(exportData);
-        
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', 'attachment; filename=training-matrix.csv');
-        
-        const fs = await import('fs');
-        const csvData = fs.readFileSync('/tmp/training-matrix-export.csv');
-        res.send(csvData);
-        
-        // Clean up
-        fs.unlinkSync('/tmp/training-matrix-export.csv');
-        
-      } else if (format === 'pdf') {
-        const puppeteer = await import('puppeteer');
-        
-        // Create HTML table
-        const exportDate = new Date().toLocaleDateString('en-GB', {
-          weekday: 'long',
-          year: 'numeric', 
-          month: 'long',
-          day: 'numeric'
-        });
-        
-        let html = `
-          <html>
-            <head>
-              <style>
-                body { font-family: Arial, sans-serif; font-size: 10px; margin: 0; padding: 20px; }
-                .header { 
-                  display: flex; 
-                  justify-content: space-between; 
-                  align-items: center; 
-                  margin-bottom: 30px; 
-                  padding-bottom: 15px;
-                  border-bottom: 2px solid #ddd;
-                }
-                .header-left { flex: 1; }
-                .header-right { 
-                  display: flex; 
-                  align-items: center; 
-                  gap: 15px;
-                }
-                .logo { 
-                  max-width: 80px; 
-                  max-height: 60px; 
-                  object-fit: contain;
-                }
-                .title { 
-                  font-size: 24px; 
-                  font-weight: bold; 
-                  margin: 0 0 8px 0; 
-                  color: #333;
-                }
-                .subtitle { 
-                  font-size: 14px; 
-                  color: #666; 
-                  margin: 0 0 5px 0;
-                }
-                .export-date { 
-                  font-size: 12px; 
-                  color: #888; 
-                  margin: 0;
-                }
-                table { 
-                  border-collapse: collapse; 
-                  width: 100%; 
-                  margin-top: 20px;
-                }
-                th, td { 
-                  border: 1px solid #ddd; 
-                  padding: 6px; 
-                  text-align: left; 
-                  font-size: 9px;
-                }
-                th { 
-                  background-color: #f8f9fa; 
-                  font-weight: bold; 
-                  font-size: 10px;
-                }
-                .status-complete { background-color: #d4edda; }
-                .status-overdue { background-color: #f8d7da; }
-                .status-expiring { background-color: #fff3cd; }
-                .status-progress { background-color: #d1ecf1; }
-              </style>
-            </head>
-            <body>
-              <div class="header">
-                <div class="header-left">
-                  <h1 class="title">Training Matrix Report</h1>
-                  <div class="subtitle">${organization.displayName}</div>
-                  <div class="export-date">Generated on ${exportDate}</div>
-                </div>
-                <div class="header-right">
-                  ${organization.logoUrl ? `<img src="${organization.logoUrl.startsWith('http') ? organization.logoUrl : req.protocol + '://' + req.hostname + organization.logoUrl}" alt="${organization.displayName} Logo" class="logo" style="width: 80px; height: 60px; object-fit: contain;">` : ''}
-                </div>
-              </div>
-              <table>
-                <thead>
-                  <tr>
-        `;
-        
-        if (exportData.length > 0) {
-          Object.keys(exportData[0]).forEach(header => {
-            html += `<th>${header}</th>`;
-          });
-        }
-        
-        html += `
-                  </tr>
-                </thead>
-                <tbody>
-        `;
-        
-        exportData.forEach(row => {
-          html += '<tr>';
-          Object.values(row).forEach(value => {
-            let cellClass = '';
-            if (typeof value === 'string') {
-              if (value.includes('Complete') || value.includes('In date')) cellClass = 'status-complete';
-              else if (value.includes('Overdue') || value.includes('Expired')) cellClass = 'status-overdue';
-              else if (value.includes('Expiring')) cellClass = 'status-expiring';
-              else if (value.includes('In progress')) cellClass = 'status-progress';
-            }
-            html += `<td class="${cellClass}">${value || ''}</td>`;
-          });
-          html += '</tr>';
-        });
-        
-        html += `
-                </tbody>
-              </table>
-            </body>
-          </html>
-        `;
-        
-        // Try to find system Chromium binary
-        let executablePath = undefined;
-        try {
-          const { execSync } = await import('child_process');
-          executablePath = execSync('which chromium || which chromium-browser || which google-chrome', 
-            { encoding: 'utf8' }).trim();
-        } catch (e) {
-          console.warn('Could not find system browser, using default Puppeteer Chrome');
-        }
+      const bookings = await storage.getClassroomBookingsBySession(existing.id);
+      if (updates.capacity !== undefined && updates.capacity < classroomService.getPlaces(existing, bookings).booked) {
+        return res.status(400).json({ message: 'Capacity cannot be less than the places already booked' });
+      }
 
-        const browser = await puppeteer.launch({ 
-          headless: true,
-          args: [
-            '--no-sandbox', 
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--disable-accelerated-2d-canvas',
-            '--no-first-run',
-            '--no-zygote',
-            '--disable-gpu',
-            '--disable-web-security',
-            '--allow-running-insecure-content'
-          ],
-          executablePath: executablePath || undefined
-        });
-        const page = await browser.newPage();
-        await page.setContent(html, { waitUntil: 'networkidle0' });
-        
-        // Wait for images to load
-        await page.evaluate(async () => {
-          const images = Array.from(document.querySelectorAll('img'));
-          await Promise.all(images.map(img => {
-            return new Promise((resolve) => {
-              if (img.complete) {
-                resolve(void 0);
-              } else {
-                img.onload = () => resolve(void 0);
-                img.onerror = () => resolve(void 0);
-              }
-            });
-          }));
-        });
-        
-        const pdfBuffer = await page.pdf({ 
-          format: 'A4',
-          landscape: true,
-          margin: { top: '20px', bottom: '20px', left: '20px', right: '20px' },
-          printBackground: true
-        });
-        
-        await browser.close();
-        
-        res.setHeader('Content-Type', 'application/pdf');
-        res.setHeader('Content-Disposition', 'attachment; filename=training-matrix.pdf');
-        res.setHeader('Content-Length', pdfBuffer.length.toString());
-        res.end(pdfBuffer, 'binary');
-        
-      } else {
-        return res.status(400).json({ message: 'Invalid format. Must be csv or pdf' });
+      const session = await storage.updateClassroomSession(existing.id, updates);
+
+      // Calendars need the new details; a bigger room lets the waiting list in
+      const calendarChanged = (['title', 'startsAt', 'endsAt', 'venue', 'meetingUrl', 'deliveryMode'] as const)
+        .some(field => updates[field] !== undefined && String(updates[field]) !== String(existing[field]));
+      if (calendarChanged) {
+        await classroomService.resendInvites(session);
       }
-      
+      await classroomService.promoteFromWaitlist(session);
+
+      res.json(session);
     } catch (error) {
-      console.error('Error exporting training matrix:', error);
-      res.status(500).json({ message: 'Failed to export data' });
+      handleClassroomError(res, error, 'update classroom session');
     }
   });
 
-  // Bulk import users from CSV
-  app.post('/api/users/bulk-import', requireAuth, async (req: any, res) => {
+  // Cancel a session - bookings are kept for the record and everyone is told
+  app.post('/api/classroom/sessions/:id/cancel', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const userId = req.session.user?.id;
-      const user = await storage.getUser(userId);
-      
-      if (!user || (user.role !== 'superadmin' && user.role !== 'admin')) {
-        return res.status(403).json({ message: 'Access denied' });
+      const user = await getCurrentUser(req);
+      const existing = await storage.getClassroomSession(req.params.id);
+      if (!user || !existing || !(await canRunClassroomSession(user, existing))) {
+        return res.status(404).json({ message: 'Session not found' });
       }
-
-      const { users: usersData } = req.body;
-      
-      if (!Array.isArray(usersData) || usersData.length === 0) {
-        return res.status(400).json({ message: 'Users array is required' });
+      if (existing.cancelledAt) {
+        return res.status(400).json({ message: 'This session has already been cancelled' });
       }
 
-      // Count how many active users will be created (default to active if not specified)
-      const activeUsersToCreate = usersData.filter(userData => 
-        !userData.status || userData.status === 'active'
-      ).length;
-      
-      // Check license capacity if creating active users
-      if (activeUsersToCreate > 0) {
-        const licenseCheck = await checkLicenseCapacity(user.id, activeUsersToCreate);
-        if (!licenseCheck.canProceed) {
-          return res.status(403).json({ 
-            message: licenseCheck.error,
-            code: 'LICENSE_LIMIT_EXCEEDED'
-          });
-        }
+      res.json(await classroomService.cancelSession(existing));
+    } catch (error) {
+      handleClassroomError(res, error, 'cancel classroom session');
+    }
+  });
+
+  // Only sessions nobody has booked can be deleted outright - otherwise cancel them
+  app.delete('/api/classroom/sessions/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const existing = await storage.getClassroomSession(req.params.id);
+      if (!user || !existing || !(await canRunClassroomSession(user, existing))) {
+        return res.status(404).json({ message: 'Session not found' });
       }
 
-      // Count how many admin users will be created
-      const adminUsersToCreate = usersData.filter(userData => userData.role === 'admin').length;
-      
-      // Check admin limit if creating admin users
-      if (adminUsersToCreate > 0) {
-        const orgId = user.organisationId;
-        if (!orgId) {
-          return res.status(400).json({ message: 'Organisation ID is required for admin users' });
-        }
-        
-        // For bulk import, we need to check if we can create ALL the admin users
-        // Since enforceAdminLimit checks current count vs limit, we need to check each one
-        // For simplicity, we'll reject the entire bulk import if admin limit is exceeded
-        const adminLimitCheck = await storage.enforceAdminLimit(orgId);
-        if (!adminLimitCheck.allowed) {
-          return res.status(403).json({
-            message: `Admin user limit exceeded. Cannot import ${adminUsersToCreate} admin user(s).`,
-            code: adminLimitCheck.error?.code || 'FEATURE_LOCKED',
-            featureKey: adminLimitCheck.error?.featureKey || 'unlimited_admin_accounts',
-            maxAllowed: adminLimitCheck.error?.maxAllowed || 1,
-            attemptedAdminUsers: adminUsersToCreate
-          });
-        }
+      const bookings = await storage.getClassroomBookingsBySession(existing.id);
+      if (bookings.length > 0) {
+        return res.status(409).json({ message: 'This session has bookings - cancel it instead' });
       }
 
-      let created = 0;
-      let failed = 0;
-      const errors: string[] = [];
-      const createdRegularUsers: any[] = [];
-      const createdAdmins: any[] = [];
+      await storage.deleteClassroomSession(existing.id);
+      res.status(204).send();
+    } catch (error) {
+      handleClassroomError(res, error, 'delete classroom session');
+    }
+  });
 
-      for (const userData of usersData) {
-        try {
-          const validatedData = insertUserSchema.parse(userData);
-          
-          // If admin, can only create users in their organisation
-          if (user.role === 'admin') {
-            validatedData.organisationId = user.organisationId;
-          }
+  // Everyone booked or waiting, for the trainer's register
+  app.get('/api/classroom/sessions/:id/bookings', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const session = await storage.getClassroomSession(req.params.id);
+      if (!user || !session || !(await canRunClassroomSession(user, session))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
 
-          const newUser = await storage.createUser(validatedData);
-          created++;
-          
-          // Track created users for email notifications
-          if (newUser.role === 'admin') {
-            createdAdmins.push(newUser);
-          } else if (newUser.role === 'user') {
-            createdRegularUsers.push(newUser);
-          }
-        } catch (error: any) {
-          failed++;
-          errors.push(`${userData.email || 'Unknown'}: ${error.message}`);
-        }
+      const [bookings, orgUsers] = await Promise.all([
+        storage.getClassroomBookingsBySession(session.id),
+        storage.getUsersByOrganisation(session.organisationId),
+      ]);
+      res.json(bookings.map(booking => {
+        const learner = orgUsers.find(u => u.id === booking.userId);
+        return {
+          ...booking,
+          user: learner ? {
+            id: learner.id,
+            firstName: learner.firstName,
+            lastName: learner.lastName,
+            email: learner.email,
+            department: learner.department,
+          } : null,
+        };
+      }));
+    } catch (error) {
+      handleClassroomError(res, error, 'fetch classroom bookings');
+    }
+  });
+
+  // Book learners onto a session on their behalf
+  app.post('/api/classroom/sessions/:id/bookings', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const session = await storage.getClassroomSession(req.params.id);
+      if (!user || !session || !(await canRunClassroomSession(user, session))) {
+        return res.status(404).json({ message: 'Session not found' });
       }
-      
-      // Send email notifications for bulk user creation
-      if (user.organisationId && (createdRegularUsers.length > 0 || createdAdmins.length > 0)) {
-        const organization = await storage.getOrganisation(user.organisationId);
-        if (organization) {
-          // Send notification for new regular users using EmailNotificationService
-          if (createdRegularUsers.length > 0) {
-            try {
-              // For bulk imports, send a summary notification about the bulk user creation
-              await emailNotificationService.notifyBulkUserAdded(
-                organization.id,
-                createdRegularUsers,
-                user.id
-              );
-              console.log(`[Bulk Import] Queued bulk user notification for ${createdRegularUsers.length} users`);
-            } catch (error) {
-              console.error('[Bulk Import] Failed to send user notification:', error);
-              // Don't break the import flow on notification failure
-            }
-          }
-          
-          // Send notification for new admin users using EmailNotificationService
-          if (createdAdmins.length > 0) {
-            try {
-              await emailNotificationService.notifyBulkAdminAdded(
-                organization.id,
-                createdAdmins.map(admin => admin.id),
-                user.id
-              );
-              console.log(`[Bulk Import] Queued bulk admin notification for ${createdAdmins.length} admins`);
-            } catch (error) {
-              console.error('[Bulk Import] Failed to send admin notification:', error);
-              // Don't break the import flow on notification failure
-            }
+
+      const { userIds } = z.object({ userIds: z.array(z.string()).min(1) }).parse(req.body);
+      const results: { userId: string; status?: string; error?: string }[] = [];
+      for (const userId of userIds) {
+        try {
+          const learner = await storage.getUser(userId);
+          if (!learner) {
+            results.push({ userId, error: 'User not found' });
+            continue;
           }
+          const booking = await classroomService.book(session, learner, user);
+          results.push({ userId, status: booking.status });
+        } catch (error) {
+          results.push({ userId, error: error instanceof ClassroomBookingError ? error.message : 'Failed to book' });
         }
       }
-
-      res.status(200).json({ 
-        created, 
-        failed, 
-        errors: errors.slice(0, 10) // Limit error messages
-      });
+      res.json({ results });
     } catch (error) {
-      console.error('Error bulk importing users:', error);
-      res.status(500).json({ message: 'Failed to import users' });
+      handleClassroomError(res, error, 'book learners onto classroom session');
     }
   });
 
-  // Courses routes
-  app.get('/api/courses', requireAuth, async (req: any, res) => {
+  // Cancel a booking - the learner's own, or anyone's for whoever runs the session
+  app.post('/api/classroom/bookings/:id/cancel', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      // For admins doing course assignment, only return active courses from allowed categories
-      if (user?.role === 'admin') {
-        if (!user.organisationId) {
-          return res.status(403).json({ message: 'Admin user must belong to an organization' });
-        }
+      const booking = await storage.getClassroomBooking(req.params.id);
+      const session = booking ? await storage.getClassroomSession(booking.sessionId) : undefined;
+      if (!user || !booking || !session || (booking.userId !== user.id && !(await canRunClassroomSession(user, session)))) {
+        return res.status(404).json({ message: 'Booking not found' });
+      }
 
-        // Get organization's allowed course folders/categories
-        const allowedFolders = await storage.getOrganisationFolderAccess(user.organisationId);
-        const allowedFolderIds = allowedFolders.map(folder => folder.id);
+      res.json(await classroomService.cancelBooking(session, booking));
+    } catch (error) {
+      handleClassroomError(res, error, 'cancel classroom booking');
+    }
+  });
 
-        // Get all courses and filter by organization's category access
-        const courses = await storage.getAllCourses();
-        const filteredCourses = courses.filter(course => {
-          // Only show published courses
-          if (course.status !== 'published') {
-            return false;
-          }
-          
-          // If no specific folder access is granted, show no courses
-          if (allowedFolderIds.length === 0) {
-            return false;
-          }
-          
-          // Show courses that are in the organization's allowed categories
-          // If course has no folder (folderId is null), don't show it unless organization has access to 'uncategorized'
-          if (course.folderId) {
-            return allowedFolderIds.includes(course.folderId);
-          } else {
-            // Handle uncategorized courses - only show if organization has been granted general access
-            // For now, we'll exclude uncategorized courses to maintain strict category-based access
-            return false;
-          }
-        });
+  // Mark attendance - attending completes the course and issues a certificate
+  app.post('/api/classroom/bookings/:id/attendance', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const booking = await storage.getClassroomBooking(req.params.id);
+      const session = booking ? await storage.getClassroomSession(booking.sessionId) : undefined;
+      if (!user || !booking || !session || !(await canRunClassroomSession(user, session))) {
+        return res.status(404).json({ message: 'Booking not found' });
+      }
 
-        console.log(`📚 Admin ${user.email} (Org: ${user.organisationId}) can access ${filteredCourses.length} courses from ${allowedFolderIds.length} allowed categories`);
-        res.json(filteredCourses);
-      } else {
-        // For SuperAdmin, fetch all courses (published and archived)
-        const courses = await storage.getAllCourses();
-        res.json(courses);
+      const { attended } = z.object({ attended: z.boolean() }).parse(req.body);
+      res.json(await classroomService.markAttendance(session, booking, attended, user));
+    } catch (error) {
+      handleClassroomError(res, error, 'mark classroom attendance');
+    }
+  });
+
+  // Upcoming sessions learners can book themselves onto, with their own booking if they have one
+  app.get('/api/classroom/upcoming', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user?.organisationId) {
+        return res.json([]);
       }
+
+      const now = new Date();
+      const sessions = (await storage.getClassroomSessionsByOrganisation(user.organisationId))
+        .filter(session => session.selfBookingEnabled && !session.cancelledAt && new Date(session.startsAt) > now);
+      const described = await describeClassroomSessions(sessions, user.organisationId);
+      res.json(described.map(({ bookings, ...session }) => ({
+        ...session,
+        myBooking: bookings.find(b => b.userId === user.id && b.status !== 'cancelled') || null,
+      })));
     } catch (error) {
-      console.error('Error fetching courses:', error);
-      res.status(500).json({ message: 'Failed to fetch courses' });
+      handleClassroomError(res, error, 'fetch upcoming classroom sessions');
     }
   });
 
-  app.put('/api/courses/:id', requireAuth, async (req: any, res) => {
+  // The learner's bookings, past and future
+  app.get('/api/classroom/my-bookings', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      if (!user?.organisationId) {
+        return res.json([]);
+      }
+
+      const bookings = await storage.getClassroomBookingsByUser(user.id);
+      const sessions = (await Promise.all(bookings.map(b => storage.getClassroomSession(b.sessionId))))
+        .filter((s): s is ClassroomSession => Boolean(s));
+      const described = await describeClassroomSessions(sessions, user.organisationId);
+      res.json(bookings
+        .map(booking => {
+          const session = described.find(s => s.id === booking.sessionId);
+          if (!session) return null;
+          const { bookings: _bookings, ...sessionDetails } = session;
+          return { ...booking, session: sessionDetails };
+        })
+        .filter(Boolean)
+        .sort((a: any, b: any) => new Date(b.session.startsAt).getTime() - new Date(a.session.startsAt).getTime()));
+    } catch (error) {
+      handleClassroomError(res, error, 'fetch classroom bookings');
+    }
+  });
+
+  // Sessions the current user is the trainer for
+  app.get('/api/classroom/trainer-sessions', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user?.organisationId) {
+        return res.json([]);
       }
 
-      const { id } = req.params;
-      
-      // Normalize cover image URL if provided
-      let updateData = { ...req.body };
-      if (updateData.coverImageUrl) {
-        const { ObjectStorageService } = await import('./objectStorage');
-        const objectStorageService = new ObjectStorageService();
-        updateData.coverImageUrl = objectStorageService.normalizeObjectEntityPath(updateData.coverImageUrl);
+      const sessions = (await storage.getClassroomSessionsByOrganisation(user.organisationId))
+        .filter(session => session.trainerId === user.id);
+      const described = await describeClassroomSessions(sessions, user.organisationId);
+      res.json(described.map(({ bookings, ...session }) => session));
+    } catch (error) {
+      handleClassroomError(res, error, 'fetch trainer sessions');
+    }
+  });
+
+  // Self-booking
+  app.post('/api/classroom/sessions/:id/book', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const session = await storage.getClassroomSession(req.params.id);
+      if (!user || !session || session.organisationId !== user.organisationId) {
+        return res.status(404).json({ message: 'Session not found' });
       }
-      
-      const updatedCourse = await storage.updateCourse(id, updateData);
-      res.json(updatedCourse);
+      if (!session.selfBookingEnabled) {
+        return res.status(403).json({ message: 'This session is booked by your administrator' });
+      }
+
+      res.status(201).json(await classroomService.book(session, user, user));
     } catch (error) {
-      console.error('Error updating course:', error);
-      res.status(500).json({ message: 'Failed to update course' });
+      handleClassroomError(res, error, 'book classroom session');
     }
   });
 
-  app.delete('/api/courses/:id', requireAuth, async (req: any, res) => {
+  // ===== EXTERNAL TRAINING =====
+
+  // The learner, anyone who assigns courses in their organisation, or a superadmin
+  async function canViewExternalTraining(user: User, record: ExternalTrainingRecord): Promise<boolean> {
+    if (user.role === 'superadmin' || record.userId === user.id) {
+      return true;
+    }
+    return user.organisationId === record.organisationId && await hasPermission(user, 'courses.assign');
+  }
+
+  // Records with the learner, course and reviewer names filled, for lists
+  async function describeExternalTraining(records: ExternalTrainingRecord[], organisationId: string) {
+    const [orgUsers, allCourses] = await Promise.all([
+      storage.getUsersByOrganisation(organisationId),
+      storage.getAllCourses(),
+    ]);
+    const nameOf = (userId: string | null) => {
+      const person = orgUsers.find(u => u.id === userId);
+      return person ? `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.email : null;
+    };
+    return records.map(record => {
+      const learner = orgUsers.find(u => u.id === record.userId);
+      return {
+        ...record,
+        userName: nameOf(record.userId) || 'Unknown user',
+        userEmail: learner?.email || null,
+        department: learner?.department || null,
+        courseTitle: allCourses.find(c => c.id === record.courseId)?.title || 'Unknown course',
+        submittedByName: nameOf(record.submittedBy),
+        reviewedByName: nameOf(record.reviewedBy),
+      };
+    });
+  }
+
+  function handleExternalTrainingError(res: any, error: unknown, action: string) {
+    if (error instanceof ExternalTrainingError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid external training record', errors: error.errors });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  }
+
+  // Every record in the organisation, for admins to review
+  app.get('/api/external-training', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const organisationId = user?.role === 'superadmin' ? req.query.organisationId : user?.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      const { id } = req.params;
-      
-      // Verify course exists and is archived before allowing deletion
-      const course = await storage.getCourse(id);
-      if (!course) {
-        return res.status(404).json({ message: 'Course not found' });
+      let records = await storage.getExternalTrainingRecordsByOrganisation(organisationId);
+      if (req.query.status) {
+        records = records.filter(record => record.status === req.query.status);
       }
-      
-      if (course.status !== 'archived') {
-        return res.status(400).json({ message: 'Only archived courses can be deleted permanently' });
+      res.json(await describeExternalTraining(records, organisationId));
+    } catch (error) {
+      handleExternalTrainingError(res, error, 'fetch external training records');
+    }
+  });
+
+  // The current user's own records
+  app.get('/api/external-training/mine', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user?.organisationId) {
+        return res.json([]);
       }
-      
-      await storage.deleteCourse(id);
-      res.json({ message: 'Course deleted successfully' });
+
+      const records = await storage.getExternalTrainingRecordsByUser(user.id);
+      res.json(await describeExternalTraining(records, user.organisationId));
     } catch (error) {
-      console.error('Error deleting course:', error);
-      res.status(500).json({ message: 'Failed to delete course' });
+      handleExternalTrainingError(res, error, 'fetch external training records');
     }
   });
 
-  app.post('/api/courses', requireAuth, async (req: any, res) => {
+  // Courses an external record can be mapped to
+  app.get('/api/external-training/courses', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
+      const organisationId = user?.role === 'superadmin' ? req.query.organisationId : user?.organisationId;
+      if (!organisationId) {
+        return res.json([]);
+      }
+
+      const courses = await getAssignableCourses(organisationId);
+      res.json(courses
+        .map(course => ({ id: course.id, title: course.title, certificateExpiryPeriod: course.certificateExpiryPeriod }))
+        .sort((a, b) => a.title.localeCompare(b.title)));
+    } catch (error) {
+      handleExternalTrainingError(res, error, 'fetch courses');
+    }
+  });
+
+  // Learners submit their own records; anyone who assigns courses can submit for a learner
+  app.post('/api/external-training', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      // Normalize cover image URL if provided
-      let courseData = {
+      let learner: User | undefined = user;
+      if (req.body.userId && req.body.userId !== user.id) {
+        if (!(await hasPermission(user, 'courses.assign'))) {
+          return res.status(403).json({ message: 'Access denied' });
+        }
+        learner = await storage.getUser(req.body.userId);
+        if (!learner || (user.role !== 'superadmin' && learner.organisationId !== user.organisationId)) {
+          return res.status(400).json({ message: 'User not found in this organisation' });
+        }
+      }
+      if (!learner.organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
+      }
+
+      const recordData = insertExternalTrainingRecordSchema.parse({
         ...req.body,
-        createdBy: user.id,
-      };
+        organisationId: learner.organisationId,
+        userId: learner.id,
+        externalCourseTitle: req.body.externalCourseTitle || null,
+        expiryDate: req.body.expiryDate || null,
+        notes: req.body.notes || null,
+        submittedBy: user.id,
+      });
 
-      if (courseData.coverImageUrl) {
-        const { ObjectStorageService } = await import('./objectStorage');
-        const objectStorageService = new ObjectStorageService();
-        courseData.coverImageUrl = objectStorageService.normalizeObjectEntityPath(courseData.coverImageUrl);
+      if (!recordData.evidenceUrl) {
+        return res.status(400).json({ message: 'Please upload the certificate or other evidence' });
+      }
+      if (recordData.completedAt > new Date()) {
+        return res.status(400).json({ message: 'The completion date cannot be in the future' });
+      }
+      if (recordData.expiryDate && recordData.expiryDate <= recordData.completedAt) {
+        return res.status(400).json({ message: 'The expiry date must be after the completion date' });
+      }
+      const assignableCourses = await getAssignableCourses(learner.organisationId);
+      if (!assignableCourses.some(course => course.id === recordData.courseId)) {
+        return res.status(400).json({ message: 'Course not available to this organisation' });
       }
 
-      const validatedData = insertCourseSchema.parse(courseData);
+      // Evidence stays private to the learner; reviewers read it through the evidence route
+      const objectStorageService = new ObjectStorageService();
+      try {
+        recordData.evidenceUrl = await objectStorageService.trySetObjectEntityAclPolicy(recordData.evidenceUrl, {
+          owner: learner.id,
+          visibility: 'private',
+        });
+      } catch (error) {
+        console.error('Error setting external training evidence ACL policy:', error);
+        recordData.evidenceUrl = objectStorageService.normalizeObjectEntityPath(recordData.evidenceUrl);
+      }
 
-      const course = await storage.createCourse(validatedData);
-      res.status(201).json(course);
+      const record = await storage.createExternalTrainingRecord(recordData);
+      res.status(201).json(record);
     } catch (error) {
-      console.error('Error creating course:', error);
-      res.status(500).json({ message: 'Failed to create course' });
+      handleExternalTrainingError(res, error, 'submit external training record');
     }
   });
 
-  app.get('/api/courses/:courseId/analytics', requireAuth, async (req: any, res) => {
+  // Withdraw a record before it counts - approved records are part of the learner's history
+  app.delete('/api/external-training/:id', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
+      const record = await storage.getExternalTrainingRecord(req.params.id);
+      if (!user || !record || !(await canViewExternalTraining(user, record))) {
+        return res.status(404).json({ message: 'Record not found' });
+      }
+      if (record.status === 'approved') {
+        return res.status(400).json({ message: 'Approved records cannot be deleted' });
+      }
+      // Learners can only withdraw records still waiting for review
+      if (record.userId === user.id && record.status !== 'pending' && !(await hasPermission(user, 'courses.assign'))) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { courseId } = req.params;
-      const analytics = await storage.getCourseAnalytics(courseId);
-      res.json(analytics);
+      await storage.deleteExternalTrainingRecord(record.id);
+      res.json({ message: 'Record deleted' });
     } catch (error) {
-      console.error('Error fetching course analytics:', error);
-      res.status(500).json({ message: 'Failed to fetch course analytics' });
+      handleExternalTrainingError(res, error, 'delete external training record');
     }
   });
 
-  // Course folder routes
-  app.get('/api/course-folders', requireAuth, async (req: any, res) => {
+  app.post('/api/external-training/:id/approve', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const record = await storage.getExternalTrainingRecord(req.params.id);
+      if (!user || !record || (user.role !== 'superadmin' && record.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Record not found' });
       }
 
-      const folders = await storage.getAllCourseFolders();
-      res.json(folders);
+      res.json(await externalTrainingService.approve(record, user, req.body.reviewNotes?.trim()));
     } catch (error) {
-      console.error('Error fetching course folders:', error);
-      res.status(500).json({ message: 'Failed to fetch course folders' });
+      handleExternalTrainingError(res, error, 'approve external training record');
     }
   });
 
-  app.post('/api/course-folders', requireAuth, async (req: any, res) => {
+  app.post('/api/external-training/:id/reject', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const record = await storage.getExternalTrainingRecord(req.params.id);
+      if (!user || !record || (user.role !== 'superadmin' && record.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Record not found' });
       }
 
-      const folderData = {
-        ...req.body,
-        createdBy: user.id,
-      };
+      const { reason } = z.object({ reason: z.string().trim().min(1, 'Please give a reason') }).parse(req.body);
+      res.json(await externalTrainingService.reject(record, user, reason));
+    } catch (error) {
+      handleExternalTrainingError(res, error, 'reject external training record');
+    }
+  });
 
-      const folder = await storage.createCourseFolder(folderData);
-      res.status(201).json(folder);
+  // Stream the uploaded evidence
+  app.get('/api/external-training/:id/evidence', requireAuth, async (req: any, res) => {
+    try {
+      const user = await getCurrentUser(req);
+      const record = await storage.getExternalTrainingRecord(req.params.id);
+      if (!user || !record || !(await canViewExternalTraining(user, record))) {
+        return res.status(404).json({ message: 'Record not found' });
+      }
+      if (!record.evidenceUrl) {
+        return res.status(404).json({ message: 'Evidence file not found' });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(record.evidenceUrl);
+      if (record.evidenceFileName) {
+        res.set('Content-Disposition', `inline; filename="${record.evidenceFileName.replace(/"/g, '')}"`);
+      }
+      await objectStorageService.downloadObject(objectFile, res, 0);
     } catch (error) {
-      console.error('Error creating course folder:', error);
-      res.status(500).json({ message: 'Failed to create course folder' });
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: 'Evidence file not found' });
+      }
+      handleExternalTrainingError(res, error, 'fetch external training evidence');
+    }
+  });
+
+  // ===== ASSESSMENTS =====
+
+  function handleAssessmentError(res: any, error: unknown, action: string) {
+    if (error instanceof AssessmentError) {
+      return res.status(error.status).json({ message: error.message });
     }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid assessment', errors: error.errors });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  }
+
+  const saveAssessmentSchema = z.object({
+    settings: insertCourseAssessmentSchema.omit({ courseId: true }),
+    questions: z.array(insertAssessmentQuestionSchema.omit({ courseId: true, sortOrder: true }).extend({
+      id: z.string().optional(),
+    })).max(500),
   });
 
-  app.put('/api/course-folders/:id', requireAuth, async (req: any, res) => {
+  const assessmentAnswersSchema = z.record(z.union([z.string(), z.array(z.string())]));
+
+  // The learner's own attempt, or undefined
+  async function getOwnAssessmentAttempt(req: any) {
+    const userId = getUserIdFromSession(req);
+    const attempt = await storage.getAssessmentAttempt(req.params.id);
+    return attempt && attempt.userId === userId ? attempt : undefined;
+  }
+
+  // Question bank and settings, for the course library
+  app.get('/api/courses/:id/assessment', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
       if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { id } = req.params;
-      const folder = await storage.updateCourseFolder(id, req.body);
-      res.json(folder);
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !assessmentService.isAssessment(course)) {
+        return res.status(404).json({ message: 'Assessment not found' });
+      }
+
+      const [assessment, questions] = await Promise.all([
+        storage.getCourseAssessment(course.id),
+        storage.getAssessmentQuestions(course.id),
+      ]);
+      res.json({ course, settings: assessment || null, questions });
     } catch (error) {
-      console.error('Error updating course folder:', error);
-      res.status(500).json({ message: 'Failed to update course folder' });
+      handleAssessmentError(res, error, 'fetch assessment');
     }
   });
 
-  app.delete('/api/course-folders/:id', requireAuth, async (req: any, res) => {
+  app.put('/api/courses/:id/assessment', requireAuth, async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
       if (!user || user.role !== 'superadmin') {
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const { id } = req.params;
-      
-      // Check if any courses are in this folder
-      const coursesInFolder = await storage.getCoursesByFolder(id);
-      if (coursesInFolder.length > 0) {
-        return res.status(400).json({ 
-          message: 'Cannot delete folder that contains courses. Please move or delete the courses first.' 
-        });
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
       }
-      
-      await storage.deleteCourseFolder(id);
-      res.json({ message: 'Course folder deleted successfully' });
+
+      const { settings, questions } = saveAssessmentSchema.parse(req.body);
+      res.json(await assessmentService.saveAssessment(course, settings, questions));
     } catch (error) {
-      console.error('Error deleting course folder:', error);
-      res.status(500).json({ message: 'Failed to delete course folder' });
+      handleAssessmentError(res, error, 'save assessment');
     }
   });
 
-  app.get('/api/course-folders/:id/courses', requireAuth, async (req: any, res) => {
+  // The learner's view of an assessment assignment - settings, past attempts and any attempt under way
+  app.get('/api/assessments/:assignmentId', requireAuth, async (req: any, res) => {
     try {
-      const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const userId = getUserIdFromSession(req);
+      const assignment = await storage.getAssignment(req.params.assignmentId);
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(403).json({ message: 'Assignment not found or access denied' });
       }
 
-      const { id } = req.params;
-      const courses = await storage.getCoursesByFolder(id);
-      res.json(courses);
+      res.json(await assessmentService.getLearnerState(assignment));
     } catch (error) {
-      console.error('Error fetching courses by folder:', error);
-      res.status(500).json({ message: 'Failed to fetch courses by folder' });
+      handleAssessmentError(res, error, 'fetch assessment');
     }
   });
 
-  // Organisation course folder access routes
-  app.post('/api/organisations/:organisationId/folder-access', requireAuth, async (req: any, res) => {
+  app.post('/api/assessments/:assignmentId/attempts', requireAuth, async (req: any, res) => {
     try {
-      const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const userId = getUserIdFromSession(req);
+      const assignment = await storage.getAssignment(req.params.assignmentId);
+      if (!assignment || assignment.userId !== userId) {
+        return res.status(403).json({ message: 'Assignment not found or access denied' });
       }
 
-      const { organisationId } = req.params;
-      const { folderId } = req.body;
-      
-      const accessData = {
-        organisationId,
-        folderId,
-        grantedBy: user.id,
-      };
-
-      const access = await storage.grantOrganisationFolderAccess(accessData);
-      res.status(201).json(access);
+      res.status(201).json(await assessmentService.startAttempt(assignment));
     } catch (error) {
-      console.error('Error granting folder access:', error);
-      res.status(500).json({ message: 'Failed to grant folder access' });
+      handleAssessmentError(res, error, 'start assessment');
     }
   });
 
-  app.delete('/api/organisations/:organisationId/folder-access/:folderId', requireAuth, async (req: any, res) => {
+  app.put('/api/assessment-attempts/:id/answers', requireAuth, async (req: any, res) => {
     try {
-      const user = await getCurrentUser(req);
-      
-      if (!user || user.role !== 'superadmin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const attempt = await getOwnAssessmentAttempt(req);
+      if (!attempt) {
+        return res.status(404).json({ message: 'Attempt not found' });
       }
 
-      const { organisationId, folderId } = req.params;
-      
-      await storage.revokeOrganisationFolderAccess(organisationId, folderId);
-      res.json({ message: 'Folder access revoked successfully' });
+      res.json(await assessmentService.saveAnswers(attempt, assessmentAnswersSchema.parse(req.body.answers ?? {})));
     } catch (error) {
-      console.error('Error revoking folder access:', error);
-      res.status(500).json({ message: 'Failed to revoke folder access' });
+      handleAssessmentError(res, error, 'save answers');
     }
   });
 
-  app.get('/api/organisations/:organisationId/folder-access', requireAuth, async (req: any, res) => {
+  app.post('/api/assessment-attempts/:id/submit', requireAuth, async (req: any, res) => {
     try {
-      const user = await getCurrentUser(req);
-      
-      if (!user || (user.role !== 'superadmin' && user.organisationId !== req.params.organisationId)) {
-        return res.status(403).json({ message: 'Access denied' });
+      const attempt = await getOwnAssessmentAttempt(req);
+      if (!attempt) {
+        return res.status(404).json({ message: 'Attempt not found' });
       }
 
-      const { organisationId } = req.params;
-      const folders = await storage.getOrganisationFolderAccess(organisationId);
-      res.json(folders);
+      const answers = req.body.answers ? assessmentAnswersSchema.parse(req.body.answers) : undefined;
+      res.json(await assessmentService.submit(attempt, answers));
     } catch (error) {
-      console.error('Error fetching organisation folder access:', error);
-      res.status(500).json({ message: 'Failed to fetch organisation folder access' });
+      handleAssessmentError(res, error, 'submit assessment');
     }
   });
 
-  // Assignments routes
-  app.get('/api/assignments', requireAuth, async (req: any, res) => {
+  // Submitted attempts with written answers waiting to be marked
+  app.get('/api/assessment-marking', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
-      
-      if (!user) {
-        return res.status(403).json({ message: 'Access denied' });
+      const organisationId = user?.role === 'superadmin' ? req.query.organisationId : user?.organisationId;
+      if (!organisationId) {
+        return res.status(400).json({ message: 'Organisation ID required' });
       }
 
-      let assignments: any[] = [];
-      if (user.role === 'user') {
-        assignments = await storage.getAssignmentsByUser(user.id);
-      } else if (user.role === 'admin' && user.organisationId) {
-        assignments = await storage.getAssignmentsByOrganisation(user.organisationId);
-      } else if (user.role === 'superadmin') {
-        // For demo, just return empty array - would need more complex filtering in real app
-        assignments = [];
-      } else {
-        return res.status(403).json({ message: 'Access denied' });
-      }
+      const [attempts, orgUsers, allCourses] = await Promise.all([
+        storage.getAssessmentAttemptsAwaitingMarking(organisationId),
+        storage.getUsersByOrganisation(organisationId),
+        storage.getAllCourses(),
+      ]);
 
-      res.json(assignments);
+      // Nobody marks their own attempt
+      res.json(attempts.filter(attempt => attempt.userId !== user!.id).map(attempt => {
+        const learner = orgUsers.find(u => u.id === attempt.userId);
+        return {
+          id: attempt.id,
+          attemptNumber: attempt.attemptNumber,
+          submittedAt: attempt.submittedAt,
+          userName: learner ? `${learner.firstName || ''} ${learner.lastName || ''}`.trim() || learner.email : 'Unknown user',
+          department: learner?.department || null,
+          courseTitle: allCourses.find(c => c.id === attempt.courseId)?.title || 'Unknown course',
+          // Choice questions are already marked - show how they went alongside the written answers
+          autoScore: assessmentService.score(attempt.questions.filter(q => q.type !== 'free_text'), attempt.answers, {}),
+          writtenAnswers: attempt.questions
+            .filter(q => q.type === 'free_text')
+            .map(q => ({ questionId: q.questionId, prompt: q.prompt, points: q.points, answer: attempt.answers[q.questionId] || '' })),
+        };
+      }));
     } catch (error) {
-      console.error('Error fetching assignments:', error);
-      res.status(500).json({ message: 'Failed to fetch assignments' });
+      handleAssessmentError(res, error, 'fetch attempts to mark');
     }
   });
 
-  app.post('/api/assignments', requireAuth, async (req: any, res) => {
+  app.post('/api/assessment-marking/:id', requireAuth, requirePermission('courses.assign'), async (req: any, res) => {
     try {
-      const userId = req.session.user?.id;
-      const user = await storage.getUser(userId);
-      
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
-        return res.status(403).json({ message: 'Access denied' });
+      const user = await getCurrentUser(req);
+      const attempt = await storage.getAssessmentAttempt(req.params.id);
+      if (!user || !attempt || (user.role !== 'superadmin' && attempt.organisationId !== user.organisationId)) {
+        return res.status(404).json({ message: 'Attempt not found' });
       }
-
-      const validatedData = insertAssignmentSchema.parse({
-        ...req.body,
-        assignedBy: user.id,
-      });
-
-      // If admin, ensure assignment is within their organisation
-      if (user.role === 'admin' && user.organisationId) {
-        validatedData.organisationId = user.organisationId;
+      if (attempt.userId === user.id) {
+        return res.status(403).json({ message: 'You cannot mark your own attempt' });
       }
 
-      const assignment = await storage.createAssignment(validatedData);
-      
-      // Send automated course assignment email
-      if (assignment.organisationId && assignment.courseId && assignment.userId) {
-        try {
-          const [organization, course, targetUser] = await Promise.all([
-            storage.getOrganisation(assignment.organisationId),
-            storage.getCourse(assignment.courseId),
-            storage.getUser(assignment.userId)
-          ]);
-          
-          if (organization && course && targetUser && targetUser.email) {
-            await automatedEmailService.sendCourseAssigned({
-              userName: `${targetUser.firstName} ${targetUser.lastName}`,
-              courseName: course.title,
-              dueDate: assignment.dueDate?.toISOString(),
-              orgName: organization.displayName || organization.name,
-              courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment.courseId}`,
-              userEmail: targetUser.email,
-              organisationId: assignment.organisationId,
-              courseId: assignment.courseId,
-              assignmentId: assignment.id
-            });
-            
-            console.log(`✅ Course assigned email sent to ${targetUser.email}: ${course.title}`);
-          }
-        } catch (emailError) {
-          console.warn('⚠️ Failed to send course assignment email:', emailError);
-          // Don't fail assignment if email fails
-        }
-      }
-      
-      // LEGACY: Send course assignment notification to organization admins
-      // TODO: Remove this when EMAIL_TEMPLATES_V2 is fully deployed
-      if (!EMAIL_TEMPLATES_V2_ENABLED && assignment.organisationId && assignment.courseId && assignment.userId) {
-        try {
-          const [organization, course, targetUser] = await Promise.all([
-            storage.getOrganisation(assignment.organisationId),
-            storage.getCourse(assignment.courseId),
-            storage.getUser(assignment.userId)
-          ]);
-          
-          if (organization && course && targetUser) {
-            const adminEmails = await getOrganizationAdminEmails(organization.id);
-            
-            await sendMultiRecipientNotification(
-              'Course Assignment',
-              adminEmails,
-              (adminEmail) => emailTemplateService.sendCourseAssignedNotification(
-                adminEmail,
-                buildCourseAssignedNotificationData(organization, { name: adminEmail.split('@')[0], email: adminEmail }, targetUser, course, user, assignment.dueDate?.toISOString()),
-                organization.id
-              )
-            );
-          }
-        } catch (emailError) {
-          console.error('Error sending course assignment notification:', emailError);
-          // Don't let email errors break the assignment creation
-        }
-      }
-      
-      res.status(201).json(assignment);
+      const { marks } = z.object({ marks: z.record(z.boolean()) }).parse(req.body);
+      const marked = await assessmentService.mark(attempt, marks, user);
+      res.json({ id: marked.id, score: marked.score, passed: marked.passed });
     } catch (error) {
-      console.error('Error creating assignment:', error);
-      res.status(500).json({ message: 'Failed to create assignment' });
+      handleAssessmentError(res, error, 'mark attempt');
     }
   });
 
@@ -18855,6 +21060,10 @@ This test was initiated by ${user.email}.
         return res.status(404).json({ message: 'Assignment not found' });
       }
 
+      if (assignment.isLocked) {
+        return res.status(423).json({ message: 'This course unlocks when the previous course in your learning path is passed' });
+      }
+
       // Look for existing IN_PROGRESS attempt
       let attempt = await storage.getActiveScormAttempt(userId, assignment.id);
       
@@ -18923,7 +21132,16 @@ This test was initiated by ${user.email}.
         });
       }
 
-      await storage.updateScormAttempt(attemptId, patch);
+      const updatedAttempt = await storage.updateScormAttempt(attemptId, patch);
+
+      if (updatedAttempt && values) {
+        try {
+          await scormPersistence.persistInteractions(updatedAttempt, values);
+        } catch (interactionError) {
+          console.error('Error storing SCORM interactions:', interactionError);
+        }
+      }
+
       return res.json({ 
         ok: true, 
         status: patch.status, 
@@ -18957,6 +21175,30 @@ This test was initiated by ${user.email}.
         });
       }
 
+      // Native assessments keep their own attempts
+      const course = await storage.getCourse(courseId);
+      if (course && assessmentService.isAssessment(course)) {
+        const assessment = await assessmentService.getLearnerState(assignment);
+        const last = assessment.attempts[assessment.attempts.length - 1];
+        if (assessment.assignmentCompleted && last) {
+          return res.json({
+            status: 'completed',
+            hasOpenAttempt: false,
+            canResume: false,
+            attemptId: last.id,
+            lastActivity: last.submittedAt,
+            score: last.score,
+            pass: last.passed,
+          });
+        }
+        return res.json({
+          status: assessment.current ? 'in_progress' : 'not_started',
+          hasOpenAttempt: !!assessment.current,
+          canResume: assessment.current?.status === 'in_progress',
+          attemptId: assessment.current?.id,
+        });
+      }
+
       // Get latest attempt (prefer open attempt)
       const attempt = await storage.getActiveScormAttempt(userId, assignment.id);
       
@@ -19260,19 +21502,19 @@ This test was initiated by ${user.email}.
     }
   });
 
-  // Get assignments for a specific user (admin only)
-  app.get('/api/assignments/user/:userId', requireAuth, async (req: any, res) => {
+  // Get assignments for a specific user
+  app.get('/api/assignments/user/:userId', requireAuth, requirePermission('users.view'), async (req: any, res) => {
     try {
       const user = await getCurrentUser(req);
       
-      if (!user || (user.role !== 'admin' && user.role !== 'superadmin')) {
+      if (!user) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
       const { userId } = req.params;
       
-      // For admins, verify the user belongs to their organisation
-      if (user.role === 'admin') {
+      // Anyone but a superadmin can only see users in their organisation
+      if (user.role !== 'superadmin') {
         const targetUser = await storage.getUser(userId);
         if (!targetUser || targetUser.organisationId !== user.organisationId) {
           return res.status(404).json({ message: 'User not found' });
@@ -19311,7 +21553,11 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const course = await storage.getCourse(assignment.courseId);
+      if (assignment.isLocked) {
+        return res.status(423).json({ message: 'This course unlocks when the previous course in your learning path is passed' });
+      }
+
+      const course = (await courseVersionService.getCourseForAssignment(assignment))?.course;
       if (!course || !course.scormPackageUrl) {
         return res.status(404).json({ message: 'Course or SCORM package not found' });
       }
@@ -19513,10 +21759,12 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ message: 'Assignment not found or access denied' });
       }
 
-      const course = await storage.getCourse(assignment.courseId);
-      if (!course) {
+      // Score against the passmark of the version being taken
+      const pinned = await courseVersionService.getCourseForAssignment(assignment);
+      if (!pinned) {
         return res.status(404).json({ message: 'Course not found' });
       }
+      const { course } = pinned;
 
       const passmark = course.passmark || 80;
 
@@ -19529,6 +21777,7 @@ This test was initiated by ${user.email}.
         assignmentId,
         userId,
         courseId: assignment.courseId,
+        courseVersionId: pinned.version.id,
         organisationId: assignment.organisationId,
         scormVersion: standard, // SCORM version field
         passmark,
@@ -19945,11 +22194,9 @@ This test was initiated by ${user.email}.
       });
 
       // Upsert SCORM attempt record
-      let wasAlreadyPassed = false;
       try {
         const existingAttempt = await storage.getScormAttemptByAttemptId(finalAttemptId);
         if (existingAttempt) {
-          wasAlreadyPassed = existingAttempt.passed || false;
           await storage.updateScormAttempt(finalAttemptId, attemptData);
         } else {
           await storage.createScormAttempt(attemptData);
@@ -19959,36 +22206,11 @@ This test was initiated by ${user.email}.
         // Continue processing even if attempt storage fails
       }
 
-      // Generate certificate if passed status changed from false to true
-      if (passed && !wasAlreadyPassed) {
-        try {
-          const user = await storage.getUser(userId);
-          const organisation = await storage.getOrganisation(assignment.organisationId);
-          
-          if (user && organisation) {
-            const certificateService = (global as any).certificateService;
-            if (certificateService) {
-              const certificateUrl = await certificateService.generateCertificate({
-                id: finalAttemptId,
-                userId,
-                courseId: assignment.courseId,
-                organisationId: assignment.organisationId,
-                score: attemptData.scoreRaw?.toString() || '0'
-              }, user, course, organisation);
-              
-              // Update attempt with certificate URL
-              await storage.updateScormAttempt(finalAttemptId, {
-                certificateUrl,
-                certificateGeneratedAt: new Date()
-              });
-
-              console.log(`🏆 Certificate generated for attempt ${finalAttemptId}: ${certificateUrl}`);
-              attemptData.certificateUrl = certificateUrl;
-            }
-          }
-        } catch (certError) {
-          console.error('Certificate generation error:', certError);
-        }
+      // Store question-level interactions and objectives for item analysis
+      try {
+        await scormPersistence.persistInteractions({ ...attemptData, standard }, scormData);
+      } catch (interactionError) {
+        console.error('Error storing SCORM interactions:', interactionError);
       }
 
       // Update assignment status based on progress
@@ -20013,6 +22235,44 @@ This test was initiated by ${user.email}.
               timeSpent: 0, // Could be derived from session time if needed
               scormData: scormData,
             });
+
+            // The certificate is issued for the completion so the code printed on it is stored and can be verified
+            if (passed) {
+              try {
+                const learner = await storage.getUser(userId);
+                const organisation = await storage.getOrganisation(assignment.organisationId);
+                if (learner && organisation) {
+                  const { certificateUrl, verificationCode } = await certificateService.generateCertificate(completion, learner, course, organisation);
+                  await storage.createCertificate({
+                    completionId: completion.id,
+                    userId,
+                    courseId: assignment.courseId,
+                    organisationId: assignment.organisationId,
+                    certificateUrl,
+                    verificationCode,
+                    expiryDate: course.certificateExpiryPeriod ?
+                      new Date(Date.now() + course.certificateExpiryPeriod * 30 * 24 * 60 * 60 * 1000) :
+                      null,
+                  });
+                  await storage.updateScormAttempt(finalAttemptId, {
+                    certificateUrl,
+                    certificateGeneratedAt: new Date()
+                  });
+
+                  console.log(`🏆 Certificate generated for attempt ${finalAttemptId}: ${certificateUrl}`);
+                  attemptData.certificateUrl = certificateUrl;
+                }
+              } catch (certError) {
+                console.error('Certificate generation error:', certError);
+              }
+            }
+
+            // Unlock the next step of any learning path this course belongs to
+            try {
+              await learningPathService.handleCompletion(completion);
+            } catch (pathError) {
+              console.error('Error updating learning path progress:', pathError);
+            }
             
             // Send course completion/failure notification to organization admins using EmailNotificationService
             try {
@@ -20144,7 +22404,7 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ message: 'Access denied' });
       }
 
-      const course = await storage.getCourse(assignment.courseId);
+      const course = (await courseVersionService.getCourseForAssignment(assignment))?.course;
       if (!course) {
         return res.status(404).json({ message: 'Course not found' });
       }
@@ -20163,6 +22423,13 @@ This test was initiated by ${user.email}.
         timeSpent: completionData.timeSpent,
         scormData: completionData.sessionData,
       });
+
+      // Unlock the next step of any learning path this course belongs to
+      try {
+        await learningPathService.handleCompletion(completion);
+      } catch (pathError) {
+        console.error('Error updating learning path progress:', pathError);
+      }
       
       // Send course completion/failure notification to organization admins using EmailNotificationService
       try {
@@ -20247,7 +22514,7 @@ This test was initiated by ${user.email}.
         const organisation = await storage.getOrganisation(assignment.organisationId);
         
         if (user && organisation) {
-          const certificateUrl = await certificateService.generateCertificate(completion, user, course, organisation);
+          const { certificateUrl, verificationCode } = await certificateService.generateCertificate(completion, user, course, organisation);
           
           console.log(`📜 Auto-generated certificate for ${user.email} - Course: ${course.title}`);
           
@@ -20257,6 +22524,7 @@ This test was initiated by ${user.email}.
             courseId: assignment.courseId,
             organisationId: assignment.organisationId,
             certificateUrl,
+            verificationCode,
             expiryDate: course.certificateExpiryPeriod ? 
               new Date(Date.now() + course.certificateExpiryPeriod * 30 * 24 * 60 * 60 * 1000) : 
               null,
@@ -20406,6 +22674,13 @@ This test was initiated by ${user.email}.
 
             console.log(`📋 Creating completion record:`, completionData);
             const completion = await storage.createCompletion(completionData);
+
+            // Unlock the next step of any learning path this course belongs to
+            try {
+              await learningPathService.handleCompletion(completion);
+            } catch (pathError) {
+              console.error('Error updating learning path progress:', pathError);
+            }
             
             // Send automated course completion/failure emails
             if (completionData.organisationId && completionData.courseId) {
@@ -20604,12 +22879,6 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ error: 'User not found or not associated with organisation' });
       }
 
-      // Find the course
-      const course = await storage.getCourse(courseId);
-      if (!course || course.createdBy !== user.organisationId) {
-        return res.status(404).json({ error: 'Course not found' });
-      }
-
       // Find active assignment for this user and course
       const assignments = await storage.getAssignmentsByUser(userId);
       const assignment = assignments.find((a: any) => a.courseId === courseId && a.status !== 'completed');
@@ -20618,6 +22887,28 @@ This test was initiated by ${user.email}.
         return res.status(403).json({ error: 'No active assignment found for this course' });
       }
 
+      if (assignment.isLocked) {
+        return res.status(423).json({ error: 'This course unlocks when the previous course in your learning path is passed' });
+      }
+
+      // Find the course, as of the version this assignment is pinned to
+      const course = (await courseVersionService.getCourseForAssignment(assignment))?.course;
+      if (!course) {
+        return res.status(404).json({ error: 'Course not found' });
+      }
+
+      // xAPI and cmi5 content talks to our LRS instead of a SCORM API - send the learner straight to it
+      if (course.scormVersion === 'xapi' || course.scormVersion === 'cmi5') {
+        const { session, launchUrl } = await createXapiLaunch({
+          user,
+          course,
+          assignment,
+          baseUrl: `${req.protocol}://${req.get('host')}`,
+        });
+        console.log(`🚀 LMS Launch: Course ${courseId}, User ${userId}, ${course.scormVersion} session ${session.id}`);
+        return res.redirect(launchUrl);
+      }
+
       // Generate unique attempt ID
       const attemptId = `attempt_${Date.now()}_${Math.random().toString(36).substring(7)}`;
       
@@ -20758,6 +23049,12 @@ This test was initiated by ${user.email}.
   // Register new SCORM runtime routes
   app.use('/api/scorm', scormRoutes);
 
+  // xAPI Learning Record Store (xAPI and cmi5 courses)
+  app.use('/api/xapi', xapiRoutes);
+
+  // SCIM 2.0 provisioning (per-organisation bearer tokens)
+  app.use('/api/scim/v2', createScimRoutes(checkOrganisationLicenseCapacity));
+
   // SuperAdmin: Update superadmin profile details
   app.put('/api/superadmin/profile', requireAuth, async (req, res) => {
     try {
@@ -0,0 +1,323 @@
+/**
+ * SCIM Filters and Attribute Paths (RFC 7644 section 3.4.2.2)
+ * Parses filter expressions and PATCH paths and evaluates them against SCIM resource JSON.
+ * Attribute names are case-insensitive and string comparisons ignore case, as for userName.
+ */
+
+export type FilterOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le' | 'pr';
+
+export type FilterNode =
+  | { type: 'compare'; path: string; operator: FilterOperator; value?: string | number | boolean | null }
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; filter: FilterNode }
+  | { type: 'valuePath'; path: string; filter: FilterNode };
+
+export interface AttributePath {
+  schema?: string;
+  attribute: string;
+  filter?: FilterNode;
+  subAttribute?: string;
+}
+
+/**
+ * Raised for filters, paths and values that cannot be used - reported to the client as a 400
+ */
+export class ScimFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScimFilterError';
+  }
+}
+
+const OPERATORS: FilterOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le', 'pr'];
+
+type Token = { kind: 'word' | 'string' | 'punct'; text: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /^\s*(?:("(?:[^"\\]|\\.)*")|([()[\]])|([^\s()[\]"]+))/;
+  let rest = input;
+
+  while (rest.trim()) {
+    const match = pattern.exec(rest);
+    if (!match) {
+      throw new ScimFilterError(`Unexpected input in filter: ${rest}`);
+    }
+    rest = rest.slice(match[0].length);
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'string', text: JSON.parse(match[1]) });
+    } else if (match[2] !== undefined) {
+      tokens.push({ kind: 'punct', text: match[2] });
+    } else if (match[3] !== undefined) {
+      tokens.push({ kind: 'word', text: match[3] });
+    }
+  }
+  return tokens;
+}
+
+class FilterParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ScimFilterError(`Unexpected "${this.tokens[this.position].text}" in filter`);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    let node = this.parseAnd();
+    while (this.peekWord('or')) {
+      this.position++;
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): FilterNode {
+    let node = this.parseNot();
+    while (this.peekWord('and')) {
+      this.position++;
+      node = { type: 'and', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): FilterNode {
+    if (this.peekWord('not')) {
+      this.position++;
+      this.expect('(');
+      const filter = this.parseOr();
+      this.expect(')');
+      return { type: 'not', filter };
+    }
+    return this.parseAtom();
+  }
+
+  private parseAtom(): FilterNode {
+    const token = this.next();
+
+    if (token.kind === 'punct' && token.text === '(') {
+      const node = this.parseOr();
+      this.expect(')');
+      return node;
+    }
+    if (token.kind !== 'word') {
+      throw new ScimFilterError(`Expected an attribute name but found "${token.text}"`);
+    }
+
+    // emails[type eq "work"] - a filter on the elements of a multi-valued attribute
+    if (this.peekPunct('[')) {
+      this.position++;
+      const filter = this.parseOr();
+      this.expect(']');
+      return { type: 'valuePath', path: token.text, filter };
+    }
+
+    const operator = this.next().text.toLowerCase() as FilterOperator;
+    if (!OPERATORS.includes(operator)) {
+      throw new ScimFilterError(`Unsupported filter operator "${operator}"`);
+    }
+    if (operator === 'pr') {
+      return { type: 'compare', path: token.text, operator };
+    }
+
+    const valueToken = this.next();
+    return { type: 'compare', path: token.text, operator, value: literal(valueToken) };
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new ScimFilterError('Filter ended unexpectedly');
+    }
+    return token;
+  }
+
+  private expect(punct: string) {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.text !== punct) {
+      throw new ScimFilterError(`Expected "${punct}" but found "${token.text}"`);
+    }
+  }
+
+  private peekWord(word: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'word' && token.text.toLowerCase() === word;
+  }
+
+  private peekPunct(punct: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'punct' && token.text === punct;
+  }
+}
+
+function literal(token: Token): string | number | boolean | null {
+  if (token.kind === 'string') {
+    return token.text;
+  }
+  const lower = token.text.toLowerCase();
+  if (lower === 'true' || lower === 'false') {
+    return lower === 'true';
+  }
+  if (lower === 'null') {
+    return null;
+  }
+  const number = Number(token.text);
+  if (token.kind === 'word' && !Number.isNaN(number)) {
+    return number;
+  }
+  throw new ScimFilterError(`Invalid comparison value "${token.text}"`);
+}
+
+export function parseFilter(filter: string): FilterNode {
+  return new FilterParser(tokenize(filter)).parse();
+}
+
+/**
+ * Split a URN-prefixed attribute into its schema and name, e.g.
+ * urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department
+ */
+function splitSchema(path: string): { schema?: string; name: string } {
+  if (!path.toLowerCase().startsWith('urn:')) {
+    return { name: path };
+  }
+  const index = path.lastIndexOf(':');
+  const schema = path.slice(0, index);
+  // Core schema attributes live at the top level of the resource
+  if (schema.toLowerCase().startsWith('urn:ietf:params:scim:schemas:core:')) {
+    return { name: path.slice(index + 1) };
+  }
+  return { schema, name: path.slice(index + 1) };
+}
+
+/**
+ * Parse a PATCH path: attribute, attribute.subAttribute or attribute[filter].subAttribute
+ */
+export function parsePath(path: string, extensionSchemas: string[] = []): AttributePath {
+  const trimmed = path.trim();
+
+  // The path may name an extension schema itself - its value is the extension object
+  const extension = extensionSchemas.find(schema => schema.toLowerCase() === trimmed.toLowerCase());
+  if (extension) {
+    return { attribute: extension };
+  }
+
+  const bracket = trimmed.indexOf('[');
+  if (bracket !== -1) {
+    const close = trimmed.lastIndexOf(']');
+    if (close < bracket) {
+      throw new ScimFilterError(`Invalid path "${path}"`);
+    }
+    const { schema, name } = splitSchema(trimmed.slice(0, bracket));
+    const rest = trimmed.slice(close + 1);
+    if (rest && !rest.startsWith('.')) {
+      throw new ScimFilterError(`Invalid path "${path}"`);
+    }
+    return {
+      schema,
+      attribute: name,
+      filter: parseFilter(trimmed.slice(bracket + 1, close)),
+      subAttribute: rest ? rest.slice(1) : undefined,
+    };
+  }
+
+  const { schema, name } = splitSchema(trimmed);
+  const [attribute, subAttribute] = name.split('.');
+  if (!attribute) {
+    throw new ScimFilterError(`Invalid path "${path}"`);
+  }
+  return { schema, attribute, subAttribute };
+}
+
+/**
+ * Find a key on an object ignoring case - SCIM attribute names are case-insensitive
+ */
+export function findKey(object: Record<string, any>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(object).find(key => key.toLowerCase() === lower);
+}
+
+function valuesAt(resource: Record<string, any>, path: string): unknown[] {
+  const { schema, name } = splitSchema(path);
+  let container: any = resource;
+  if (schema) {
+    const schemaKey = findKey(resource, schema);
+    container = schemaKey ? resource[schemaKey] : undefined;
+  }
+
+  let values: unknown[] = [container];
+  for (const part of name.split('.')) {
+    values = values.flatMap(value => {
+      if (!value || typeof value !== 'object') {
+        return [];
+      }
+      const items = Array.isArray(value) ? value : [value];
+      return items.flatMap(item => {
+        const key = item && typeof item === 'object' ? findKey(item, part) : undefined;
+        const found = key ? item[key] : undefined;
+        return found === undefined ? [] : Array.isArray(found) ? found : [found];
+      });
+    });
+  }
+  return values;
+}
+
+function compare(actual: unknown, operator: FilterOperator, expected: string | number | boolean | null | undefined): boolean {
+  if (actual === null || actual === undefined) {
+    return operator === 'eq' && expected === null;
+  }
+  if (typeof actual === 'boolean' || typeof expected === 'boolean') {
+    const matches = String(actual).toLowerCase() === String(expected).toLowerCase();
+    return operator === 'ne' ? !matches : operator === 'eq' && matches;
+  }
+
+  const left = typeof actual === 'number' ? actual : String(actual).toLowerCase();
+  const right = typeof expected === 'number' ? expected : String(expected ?? '').toLowerCase();
+
+  switch (operator) {
+    case 'eq': return left === right;
+    case 'ne': return left !== right;
+    case 'co': return String(left).includes(String(right));
+    case 'sw': return String(left).startsWith(String(right));
+    case 'ew': return String(left).endsWith(String(right));
+    case 'gt': return left > right;
+    case 'ge': return left >= right;
+    case 'lt': return left < right;
+    case 'le': return left <= right;
+    default: return false;
+  }
+}
+
+/**
+ * Whether a resource (or an element of a multi-valued attribute) matches a filter
+ */
+export function matchesFilter(resource: Record<string, any>, filter: FilterNode): boolean {
+  switch (filter.type) {
+    case 'and':
+      return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+    case 'or':
+      return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+    case 'not':
+      return !matchesFilter(resource, filter.filter);
+    case 'valuePath':
+      return valuesAt(resource, filter.path).some(item => !!item && typeof item === 'object' && matchesFilter(item as Record<string, any>, filter.filter));
+    case 'compare': {
+      const values = valuesAt(resource, filter.path);
+      if (filter.operator === 'pr') {
+        return values.some(value => value !== null && value !== '' && !(Array.isArray(value) && value.length === 0));
+      }
+      if (values.length === 0) {
+        return compare(undefined, filter.operator, filter.value);
+      }
+      // Multi-valued attributes match when any value does; "ne" needs every value to differ
+      return filter.operator === 'ne'
+        ? values.every(value => compare(value, 'ne', filter.value))
+        : values.some(value => compare(value, filter.operator, filter.value));
+    }
+  }
+}
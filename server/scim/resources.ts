@@ -0,0 +1,286 @@
+/**
+ * SCIM Resource Mapping
+ * Converts users and user groups to SCIM 2.0 resources and back, and applies PATCH operations
+ * to the resource JSON so every PATCH goes through the same mapping as PUT.
+ */
+
+import { findKey, matchesFilter, parsePath, ScimFilterError } from "./filter";
+import type { User, UserGroup, UserGroupMember } from "@shared/schema";
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+/**
+ * User fields a SCIM client is allowed to set - role and organisation are never taken from SCIM
+ */
+export interface ScimUserFields {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  jobTitle: string | null;
+  department: string | null;
+  scimExternalId: string | null;
+  active: boolean | undefined;
+}
+
+export function scimBaseUrl(): string {
+  return `${process.env.REPLIT_URL || 'http://localhost:5000'}/api/scim/v2`;
+}
+
+export function toScimUser(user: User): Record<string, any> {
+  const displayName = `${user.firstName || ''} ${user.lastName || ''}`.trim();
+  return {
+    schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser],
+    id: user.id,
+    externalId: user.scimExternalId || undefined,
+    userName: user.email,
+    name: {
+      givenName: user.firstName || undefined,
+      familyName: user.lastName || undefined,
+      formatted: displayName || undefined,
+    },
+    displayName: displayName || user.email,
+    emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+    title: user.jobTitle || undefined,
+    active: user.status === 'active',
+    [SCIM_SCHEMAS.enterpriseUser]: {
+      department: user.department || undefined,
+    },
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt?.toISOString(),
+      lastModified: (user.updatedAt || user.createdAt)?.toISOString(),
+      location: `${scimBaseUrl()}/Users/${user.id}`,
+    },
+  };
+}
+
+export function toScimGroup(group: UserGroup, members: UserGroupMember[], usersById: Map<string, User>): Record<string, any> {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: group.id,
+    externalId: group.externalId || undefined,
+    displayName: group.displayName,
+    members: members.map(member => {
+      const user = usersById.get(member.userId);
+      return {
+        value: member.userId,
+        $ref: `${scimBaseUrl()}/Users/${member.userId}`,
+        display: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || undefined : undefined,
+      };
+    }),
+    meta: {
+      resourceType: 'Group',
+      created: group.createdAt?.toISOString(),
+      lastModified: (group.updatedAt || group.createdAt)?.toISOString(),
+      location: `${scimBaseUrl()}/Groups/${group.id}`,
+    },
+  };
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function attribute(resource: Record<string, any>, name: string): any {
+  const key = findKey(resource, name);
+  return key ? resource[key] : undefined;
+}
+
+/**
+ * Azure AD sends booleans as the strings "True" / "False" in PATCH values
+ */
+export function scimBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+    return value.toLowerCase() === 'true';
+  }
+  return undefined;
+}
+
+/**
+ * Read the user fields out of a SCIM User resource (POST, PUT or a patched resource)
+ */
+export function fromScimUser(resource: Record<string, any>): ScimUserFields {
+  const name = attribute(resource, 'name') || {};
+  const emails: any[] = Array.isArray(attribute(resource, 'emails')) ? attribute(resource, 'emails') : [];
+  const primaryEmail = emails.find(email => scimBoolean(email?.primary)) || emails[0];
+  const enterprise = attribute(resource, SCIM_SCHEMAS.enterpriseUser) || {};
+
+  const email = text(attribute(resource, 'userName')) || text(primaryEmail?.value);
+  if (!email) {
+    throw new ScimFilterError('userName is required');
+  }
+
+  return {
+    email: email.toLowerCase(),
+    firstName: text(attribute(name, 'givenName')),
+    lastName: text(attribute(name, 'familyName')),
+    jobTitle: text(attribute(resource, 'title')),
+    department: text(attribute(enterprise, 'department')),
+    scimExternalId: text(attribute(resource, 'externalId')),
+    active: scimBoolean(attribute(resource, 'active')),
+  };
+}
+
+function sameValue(left: any, right: any): boolean {
+  if (left && typeof left === 'object' && right && typeof right === 'object' && 'value' in left && 'value' in right) {
+    return String(left.value) === String(right.value);
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function setAttribute(target: Record<string, any>, name: string, value: any) {
+  const key = findKey(target, name) || name;
+  target[key] = value;
+}
+
+/**
+ * Apply one operation at a path. "add" appends to multi-valued attributes, "replace" overwrites.
+ */
+function applyAtPath(resource: Record<string, any>, op: string, path: string, value: any, extensionSchemas: string[]) {
+  const parsed = parsePath(path, extensionSchemas);
+
+  let container = resource;
+  if (parsed.schema) {
+    const schemaKey = findKey(resource, parsed.schema) || parsed.schema;
+    resource[schemaKey] = resource[schemaKey] || {};
+    container = resource[schemaKey];
+  }
+
+  const key = findKey(container, parsed.attribute) || parsed.attribute;
+  const current = container[key];
+
+  if (parsed.filter) {
+    if (!Array.isArray(current)) {
+      if (op === 'remove') return;
+      throw new ScimFilterError(`No values match path "${path}"`);
+    }
+    const matches = (item: any) => !!item && typeof item === 'object' && matchesFilter(item, parsed.filter!);
+
+    if (op === 'remove') {
+      container[key] = parsed.subAttribute
+        ? current.map(item => {
+            if (!matches(item)) return item;
+            const copy = { ...item };
+            delete copy[findKey(copy, parsed.subAttribute!) || parsed.subAttribute!];
+            return copy;
+          })
+        : current.filter(item => !matches(item));
+      return;
+    }
+
+    let matched = false;
+    container[key] = current.map(item => {
+      if (!matches(item)) return item;
+      matched = true;
+      if (parsed.subAttribute) {
+        const copy = { ...item };
+        setAttribute(copy, parsed.subAttribute, value);
+        return copy;
+      }
+      return op === 'add' && value && typeof value === 'object' ? { ...item, ...value } : value;
+    });
+    if (!matched && op === 'replace') {
+      throw new ScimFilterError(`No values match path "${path}"`);
+    }
+    return;
+  }
+
+  if (parsed.subAttribute) {
+    if (op === 'remove') {
+      if (current && typeof current === 'object') {
+        delete current[findKey(current, parsed.subAttribute) || parsed.subAttribute];
+      }
+      return;
+    }
+    container[key] = current && typeof current === 'object' ? current : {};
+    setAttribute(container[key], parsed.subAttribute, value);
+    return;
+  }
+
+  if (op === 'remove') {
+    // Removing listed values from a multi-valued attribute, e.g. group members
+    if (Array.isArray(current) && value !== undefined) {
+      const toRemove = Array.isArray(value) ? value : [value];
+      container[key] = current.filter(item => !toRemove.some(removed => sameValue(item, removed)));
+    } else {
+      delete container[key];
+    }
+    return;
+  }
+
+  if (op === 'add' && Array.isArray(current)) {
+    const additions = (Array.isArray(value) ? value : [value]).filter(item => !current.some(existing => sameValue(existing, item)));
+    container[key] = [...current, ...additions];
+    return;
+  }
+
+  if (op === 'add' && current && typeof current === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    container[key] = { ...current, ...value };
+    return;
+  }
+
+  container[key] = value;
+}
+
+/**
+ * Apply SCIM PATCH operations to a copy of a resource and return the result
+ */
+export function applyPatchOperations(resource: Record<string, any>, operations: ScimPatchOperation[], extensionSchemas: string[] = []): Record<string, any> {
+  const patched = JSON.parse(JSON.stringify(resource));
+
+  for (const operation of operations) {
+    const op = String(operation.op || '').toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimFilterError(`Unsupported PATCH operation "${operation.op}"`);
+    }
+
+    if (operation.path) {
+      applyAtPath(patched, op, operation.path, operation.value, extensionSchemas);
+      continue;
+    }
+
+    // Without a path the value is an object of attribute paths to set
+    if (op === 'remove' || !operation.value || typeof operation.value !== 'object' || Array.isArray(operation.value)) {
+      throw new ScimFilterError(`PATCH ${op} without a path needs an object value`);
+    }
+    for (const [path, value] of Object.entries(operation.value)) {
+      applyAtPath(patched, op, path, value, extensionSchemas);
+    }
+  }
+
+  return patched;
+}
+
+/**
+ * Keep only the requested attributes, or drop the excluded ones (id and schemas are always returned)
+ */
+export function projectAttributes(resource: Record<string, any>, attributes?: string, excludedAttributes?: string): Record<string, any> {
+  const split = (list?: string) => (list || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const include = split(attributes);
+  const exclude = split(excludedAttributes);
+
+  return Object.fromEntries(Object.entries(resource).filter(([key]) => {
+    const lower = key.toLowerCase();
+    if (lower === 'id' || lower === 'schemas') return true;
+    if (include.length > 0) return include.some(name => name === lower || name.startsWith(`${lower}.`) || name.startsWith(`${lower}:`));
+    return !exclude.includes(lower);
+  }));
+}
@@ -0,0 +1,530 @@
+/**
+ * SCIM 2.0 Provisioning Routes (RFC 7643 / 7644)
+ * Users and Groups for identity providers such as Entra ID and Okta. Every request is authenticated
+ * with an organisation's bearer token and can only see that organisation's users and groups.
+ * Only learner accounts (role 'user') are managed - admins are invisible to the IdP, so a token cannot
+ * rename, deactivate or take over them. Deprovisioned users are deactivated, never deleted, and roles
+ * are never changed over SCIM.
+ */
+
+import express, { Router, type Request, type Response, type NextFunction } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { assignmentRuleService } from '../services/AssignmentRuleService';
+import { scheduleSeatSync } from './seats';
+import { matchesFilter, parseFilter, ScimFilterError } from './filter';
+import {
+  SCIM_SCHEMAS,
+  applyPatchOperations,
+  fromScimUser,
+  projectAttributes,
+  scimBaseUrl,
+  toScimGroup,
+  toScimUser,
+  type ScimPatchOperation,
+} from './resources';
+import type { LicenseCapacityCheck } from '../sso/provisioning';
+import type { ScimToken, User, UserGroup } from '@shared/schema';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+
+interface ScimRequest extends Request {
+  scimToken?: ScimToken;
+}
+
+export function hashScimToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/**
+ * New bearer token - only the hash and a short prefix are stored
+ */
+export function generateScimToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `scim_${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashScimToken(token), tokenPrefix: token.slice(0, 12) };
+}
+
+function scimError(res: Response, status: number, detail: string, scimType?: string) {
+  return res.status(status).json({
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType && { scimType }),
+    detail,
+  });
+}
+
+function listResponse(req: Request, resources: Record<string, any>[]) {
+  const startIndex = Math.max(parseInt(String(req.query.startIndex || '1'), 10) || 1, 1);
+  const countParam = parseInt(String(req.query.count ?? DEFAULT_PAGE_SIZE), 10);
+  const count = Math.min(Math.max(Number.isNaN(countParam) ? DEFAULT_PAGE_SIZE : countParam, 0), MAX_PAGE_SIZE);
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page.map(resource => projectAttributes(resource, req.query.attributes as string, req.query.excludedAttributes as string)),
+  };
+}
+
+function filterResources(req: Request, resources: Record<string, any>[]): Record<string, any>[] {
+  if (typeof req.query.filter !== 'string' || !req.query.filter.trim()) {
+    return resources;
+  }
+  const filter = parseFilter(req.query.filter);
+  return resources.filter(resource => matchesFilter(resource, filter));
+}
+
+// Postgres unique violation - an email or group name already in use
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === '23505';
+}
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof ScimFilterError) {
+    return scimError(res, 400, error.message, 'invalidValue');
+  }
+  if (isUniqueViolation(error)) {
+    return scimError(res, 409, 'A resource with these unique attributes already exists', 'uniqueness');
+  }
+  console.error(`❌ SCIM ${action} error:`, error);
+  return scimError(res, 500, `Failed to ${action}`);
+}
+
+export function createScimRoutes(checkCapacity: LicenseCapacityCheck): Router {
+  const router = Router();
+
+  router.use(express.json({ type: ['application/json', 'application/scim+json'], limit: '5mb' }));
+
+  router.use((_req: Request, res: Response, next: NextFunction) => {
+    res.type('application/scim+json');
+    next();
+  });
+
+  /**
+   * Bearer token authentication - the token decides the organisation
+   */
+  router.use(async (req: ScimRequest, res: Response, next: NextFunction) => {
+    try {
+      const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+      const token = match ? await storage.getScimTokenByHash(hashScimToken(match[1].trim())) : undefined;
+      if (!token || token.revokedAt) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="SCIM"');
+        return scimError(res, 401, 'Invalid or revoked bearer token');
+      }
+
+      const organisation = await storage.getOrganisation(token.organisationId);
+      if (!organisation || organisation.status === 'archived') {
+        return scimError(res, 403, 'Organisation is not active');
+      }
+
+      req.scimToken = token;
+      storage.updateScimToken(token.id, { lastUsedAt: new Date() }).catch(error => {
+        console.error('❌ Failed to record SCIM token use:', error);
+      });
+      next();
+    } catch (error) {
+      console.error('❌ SCIM authentication error:', error);
+      scimError(res, 500, 'Failed to authenticate SCIM request');
+    }
+  });
+
+  // ===== DISCOVERY =====
+
+  router.get('/ServiceProviderConfig', (_req, res) => {
+    res.json({
+      schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'OAuth Bearer Token',
+        description: 'Per-organisation token created under Admin > Single Sign-On',
+        primary: true,
+      }],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${scimBaseUrl()}/ServiceProviderConfig` },
+    });
+  });
+
+  router.get('/ResourceTypes', (_req, res) => {
+    const resourceTypes = [
+      {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'User',
+        name: 'User',
+        endpoint: '/Users',
+        schema: SCIM_SCHEMAS.user,
+        schemaExtensions: [{ schema: SCIM_SCHEMAS.enterpriseUser, required: false }],
+        meta: { resourceType: 'ResourceType', location: `${scimBaseUrl()}/ResourceTypes/User` },
+      },
+      {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        schema: SCIM_SCHEMAS.group,
+        meta: { resourceType: 'ResourceType', location: `${scimBaseUrl()}/ResourceTypes/Group` },
+      },
+    ];
+    res.json({
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults: resourceTypes.length,
+      startIndex: 1,
+      itemsPerPage: resourceTypes.length,
+      Resources: resourceTypes,
+    });
+  });
+
+  // ===== USERS =====
+
+  // Admin and superadmin accounts are managed in the app and never visible to an organisation's IdP
+  async function organisationUsers(organisationId: string): Promise<User[]> {
+    const orgUsers = await storage.getUsersByOrganisation(organisationId);
+    return orgUsers.filter(user => user.role === 'user');
+  }
+
+  async function findOrganisationUser(organisationId: string, id: string): Promise<User | undefined> {
+    const user = await storage.getUser(id);
+    return user && user.organisationId === organisationId && user.role === 'user' ? user : undefined;
+  }
+
+  /**
+   * Write SCIM fields to a user, checking licences when the user becomes active
+   */
+  async function saveUser(res: Response, existing: User, resource: Record<string, any>): Promise<User | undefined> {
+    const fields = fromScimUser(resource);
+
+    if (fields.email !== existing.email) {
+      const emailOwner = await storage.getUserByEmail(fields.email);
+      if (emailOwner && emailOwner.id !== existing.id) {
+        scimError(res, 409, 'userName is already in use', 'uniqueness');
+        return undefined;
+      }
+    }
+
+    const status = fields.active === undefined ? existing.status : fields.active ? 'active' : 'inactive';
+    if (status === 'active' && existing.status !== 'active') {
+      const licenseCheck = await checkCapacity(existing.organisationId!);
+      if (!licenseCheck.canProceed) {
+        scimError(res, 403, licenseCheck.error || 'No licences available');
+        return undefined;
+      }
+    }
+
+    const updated = await storage.updateUser(existing.id, {
+      email: fields.email,
+      firstName: fields.firstName,
+      lastName: fields.lastName,
+      jobTitle: fields.jobTitle,
+      department: fields.department,
+      scimExternalId: fields.scimExternalId,
+      status,
+    });
+
+    if (updated.status !== existing.status) {
+      console.log(`[SCIM] User ${updated.id} ${updated.status === 'active' ? 'reactivated' : 'deactivated'}`);
+      scheduleSeatSync(existing.organisationId!);
+    }
+    if (updated.status === 'active') {
+      await applyAssignmentRules(updated);
+    }
+    return updated;
+  }
+
+  async function applyAssignmentRules(user: User) {
+    try {
+      await assignmentRuleService.applyRulesForUser(user);
+    } catch (error) {
+      console.error(`❌ Failed to apply assignment rules for SCIM user ${user.id}:`, error);
+    }
+  }
+
+  router.get('/Users', async (req: ScimRequest, res) => {
+    try {
+      const users = await organisationUsers(req.scimToken!.organisationId);
+      res.json(listResponse(req, filterResources(req, users.map(toScimUser))));
+    } catch (error) {
+      handleError(res, error, 'list users');
+    }
+  });
+
+  router.get('/Users/:id', async (req: ScimRequest, res) => {
+    try {
+      const user = await findOrganisationUser(req.scimToken!.organisationId, req.params.id);
+      if (!user) {
+        return scimError(res, 404, 'User not found');
+      }
+      res.json(projectAttributes(toScimUser(user), req.query.attributes as string, req.query.excludedAttributes as string));
+    } catch (error) {
+      handleError(res, error, 'fetch user');
+    }
+  });
+
+  router.post('/Users', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const fields = fromScimUser(req.body || {});
+
+      if (await storage.getUserByEmail(fields.email)) {
+        return scimError(res, 409, 'userName is already in use', 'uniqueness');
+      }
+
+      const active = fields.active ?? true;
+      if (active) {
+        const licenseCheck = await checkCapacity(organisationId);
+        if (!licenseCheck.canProceed) {
+          return scimError(res, 403, licenseCheck.error || 'No licences available');
+        }
+      }
+
+      const user = await storage.createUser({
+        email: fields.email,
+        firstName: fields.firstName,
+        lastName: fields.lastName,
+        jobTitle: fields.jobTitle,
+        department: fields.department,
+        scimExternalId: fields.scimExternalId,
+        role: 'user',
+        status: active ? 'active' : 'inactive',
+        organisationId,
+      });
+      console.log(`[SCIM] Provisioned ${user.email} for organisation ${organisationId}`);
+
+      if (active) {
+        scheduleSeatSync(organisationId);
+        await applyAssignmentRules(user);
+      }
+
+      res.status(201).setHeader('Location', `${scimBaseUrl()}/Users/${user.id}`);
+      res.json(toScimUser(user));
+    } catch (error) {
+      handleError(res, error, 'create user');
+    }
+  });
+
+  router.put('/Users/:id', async (req: ScimRequest, res) => {
+    try {
+      const existing = await findOrganisationUser(req.scimToken!.organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'User not found');
+      }
+
+      const updated = await saveUser(res, existing, req.body || {});
+      if (updated) {
+        res.json(toScimUser(updated));
+      }
+    } catch (error) {
+      handleError(res, error, 'replace user');
+    }
+  });
+
+  router.patch('/Users/:id', async (req: ScimRequest, res) => {
+    try {
+      const existing = await findOrganisationUser(req.scimToken!.organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'User not found');
+      }
+
+      const operations: ScimPatchOperation[] = Array.isArray(req.body?.Operations) ? req.body.Operations : [];
+      const patched = applyPatchOperations(toScimUser(existing), operations, [SCIM_SCHEMAS.enterpriseUser]);
+
+      const updated = await saveUser(res, existing, patched);
+      if (updated) {
+        res.json(toScimUser(updated));
+      }
+    } catch (error) {
+      handleError(res, error, 'update user');
+    }
+  });
+
+  /**
+   * DELETE deprovisions: the account is deactivated and leaves its groups, learning history is kept
+   */
+  router.delete('/Users/:id', async (req: ScimRequest, res) => {
+    try {
+      const existing = await findOrganisationUser(req.scimToken!.organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'User not found');
+      }
+
+      await storage.updateUser(existing.id, { status: 'inactive' });
+      await storage.removeUserFromAllGroups(existing.id);
+      console.log(`[SCIM] User ${existing.id} deprovisioned`);
+
+      if (existing.status === 'active') {
+        scheduleSeatSync(existing.organisationId!);
+      }
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, 'delete user');
+    }
+  });
+
+  // ===== GROUPS =====
+
+  async function groupResources(organisationId: string, groups: UserGroup[]): Promise<Record<string, any>[]> {
+    const [members, users] = await Promise.all([
+      storage.getUserGroupMembersByOrganisation(organisationId),
+      organisationUsers(organisationId),
+    ]);
+    const usersById = new Map(users.map(user => [user.id, user]));
+    return groups.map(group => toScimGroup(group, members.filter(member => member.groupId === group.id), usersById));
+  }
+
+  async function findOrganisationGroup(organisationId: string, id: string): Promise<UserGroup | undefined> {
+    const group = await storage.getUserGroup(id);
+    return group && group.organisationId === organisationId ? group : undefined;
+  }
+
+  /**
+   * Make the group's members match the given SCIM members, ignoring ids from other organisations.
+   * Newly added members pick up any assignment rules that target the group.
+   */
+  async function syncMembers(group: UserGroup, members: unknown) {
+    const requested = Array.isArray(members) ? members.map((member: any) => String(member?.value ?? '')).filter(Boolean) : [];
+    const orgUserIds = new Set((await organisationUsers(group.organisationId)).map(user => user.id));
+    const wanted = new Set(requested.filter(id => orgUserIds.has(id)));
+
+    const currentIds = new Set((await storage.getUserGroupMembers(group.id)).map(member => member.userId));
+    const added = Array.from(wanted).filter(id => !currentIds.has(id));
+    // Members SCIM cannot see (admins added in the app) stay in the group
+    const removed = Array.from(currentIds).filter(id => orgUserIds.has(id) && !wanted.has(id));
+
+    await storage.addUserGroupMembers(group.id, group.organisationId, added);
+    await storage.removeUserGroupMembers(group.id, removed);
+
+    for (const userId of added) {
+      const user = await storage.getUser(userId);
+      if (user) {
+        await applyAssignmentRules(user);
+      }
+    }
+  }
+
+  router.get('/Groups', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const groups = await storage.getUserGroupsByOrganisation(organisationId);
+      res.json(listResponse(req, filterResources(req, await groupResources(organisationId, groups))));
+    } catch (error) {
+      handleError(res, error, 'list groups');
+    }
+  });
+
+  router.get('/Groups/:id', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const group = await findOrganisationGroup(organisationId, req.params.id);
+      if (!group) {
+        return scimError(res, 404, 'Group not found');
+      }
+      const [resource] = await groupResources(organisationId, [group]);
+      res.json(projectAttributes(resource, req.query.attributes as string, req.query.excludedAttributes as string));
+    } catch (error) {
+      handleError(res, error, 'fetch group');
+    }
+  });
+
+  router.post('/Groups', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const displayName = typeof req.body?.displayName === 'string' ? req.body.displayName.trim() : '';
+      if (!displayName) {
+        return scimError(res, 400, 'displayName is required', 'invalidValue');
+      }
+
+      const group = await storage.createUserGroup({
+        organisationId,
+        displayName,
+        externalId: typeof req.body.externalId === 'string' ? req.body.externalId : null,
+      });
+      await syncMembers(group, req.body.members);
+
+      const [resource] = await groupResources(organisationId, [group]);
+      res.status(201).setHeader('Location', resource.meta.location);
+      res.json(resource);
+    } catch (error) {
+      handleError(res, error, 'create group');
+    }
+  });
+
+  router.put('/Groups/:id', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const existing = await findOrganisationGroup(organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'Group not found');
+      }
+      const displayName = typeof req.body?.displayName === 'string' ? req.body.displayName.trim() : '';
+      if (!displayName) {
+        return scimError(res, 400, 'displayName is required', 'invalidValue');
+      }
+
+      const group = await storage.updateUserGroup(existing.id, {
+        displayName,
+        externalId: typeof req.body.externalId === 'string' ? req.body.externalId : null,
+      });
+      await syncMembers(group, req.body.members);
+
+      const [resource] = await groupResources(organisationId, [group]);
+      res.json(resource);
+    } catch (error) {
+      handleError(res, error, 'replace group');
+    }
+  });
+
+  router.patch('/Groups/:id', async (req: ScimRequest, res) => {
+    try {
+      const organisationId = req.scimToken!.organisationId;
+      const existing = await findOrganisationGroup(organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'Group not found');
+      }
+
+      const [current] = await groupResources(organisationId, [existing]);
+      const operations: ScimPatchOperation[] = Array.isArray(req.body?.Operations) ? req.body.Operations : [];
+      const patched = applyPatchOperations(current, operations);
+
+      const displayName = typeof patched.displayName === 'string' ? patched.displayName.trim() : '';
+      if (!displayName) {
+        return scimError(res, 400, 'displayName is required', 'invalidValue');
+      }
+
+      let group = existing;
+      if (displayName !== existing.displayName || (patched.externalId ?? null) !== existing.externalId) {
+        group = await storage.updateUserGroup(existing.id, {
+          displayName,
+          externalId: typeof patched.externalId === 'string' ? patched.externalId : null,
+        });
+      }
+      await syncMembers(group, patched.members);
+
+      // Okta and Entra ID only need the status for membership changes
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, 'update group');
+    }
+  });
+
+  router.delete('/Groups/:id', async (req: ScimRequest, res) => {
+    try {
+      const existing = await findOrganisationGroup(req.scimToken!.organisationId, req.params.id);
+      if (!existing) {
+        return scimError(res, 404, 'Group not found');
+      }
+
+      await storage.deleteUserGroup(existing.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, 'delete group');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,59 @@
+/**
+ * Active Seat Sync
+ * SCIM provisioning changes who is active, so metered organisations report the new active-user
+ * count to Stripe. Changes are coalesced per organisation - an IdP often deprovisions in bursts.
+ */
+
+import { storage } from "../storage";
+import { billingLockService } from "../services/BillingLockService";
+import { getStripeService } from "../services/StripeService";
+
+const LOG_PREFIX = '[SCIM]';
+const SYNC_DELAY_MS = 10 * 1000;
+
+const pendingSyncs = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Report the organisation's active non-admin users as usage on its metered subscription item
+ */
+export async function syncActiveSeats(organisationId: string): Promise<void> {
+  const organisation = await storage.getOrganisation(organisationId);
+  if (!organisation?.planId || !organisation.stripeSubscriptionItemId) {
+    return;
+  }
+  const plan = await storage.getPlan(organisation.planId);
+  if (plan?.billingModel !== 'metered_per_active_user') {
+    return;
+  }
+  const subscriptionItemId = organisation.stripeSubscriptionItemId;
+
+  await billingLockService.withLock('usage_sync', organisationId, async () => {
+    // Same seat rule as the licence check - admins are not billed
+    const orgUsers = await storage.getUsersByOrganisation(organisationId);
+    const activeUsers = orgUsers.filter(u => u.status === 'active' && u.role !== 'admin' && u.role !== 'superadmin').length;
+
+    await getStripeService().createUsageRecord(subscriptionItemId, activeUsers, organisationId);
+    await storage.updateOrganisation(organisationId, {
+      activeUserCount: activeUsers,
+      lastBillingSync: new Date(),
+    });
+    console.log(`${LOG_PREFIX} Synced ${activeUsers} active seat(s) for organisation ${organisationId}`);
+  }, { lockReason: 'scim_provisioning' });
+}
+
+/**
+ * Queue a seat sync for the organisation, replacing any sync already waiting
+ */
+export function scheduleSeatSync(organisationId: string): void {
+  const pending = pendingSyncs.get(organisationId);
+  if (pending) {
+    clearTimeout(pending);
+  }
+
+  pendingSyncs.set(organisationId, setTimeout(() => {
+    pendingSyncs.delete(organisationId);
+    syncActiveSeats(organisationId).catch(error => {
+      console.error(`${LOG_PREFIX} Failed to sync active seats for organisation ${organisationId}:`, error);
+    });
+  }, SYNC_DELAY_MS));
+}
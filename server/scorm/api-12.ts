@@ -23,6 +23,12 @@ export class Scorm12API implements ScormAPI12 {
   private onCommit: (data: Record<string, string>) => Promise<void>;
   private onTerminate: () => Promise<void>;
 
+  // Supported children of the collection elements (returned for <collection>._children)
+  private readonly collectionChildren: Record<string, string> = {
+    'cmi.interactions._children': 'id,objectives,time,type,correct_responses,weighting,student_response,result,latency',
+    'cmi.objectives._children': 'id,score,status'
+  };
+
   // SCORM 1.2 Error Codes
   private readonly errorCodes: Record<string, string> = {
     '0': 'No error',
@@ -160,7 +166,7 @@ export class Scorm12API implements ScormAPI12 {
       return '';
     }
     
-    const value = this.data[element] || '';
+    const value = this.getCollectionValue(element) ?? (this.data[element] || '');
     this.lastError = '0';
     
     console.log(`📖 SCORM 1.2 GetValue("${element}") = "${value}"`);
@@ -192,6 +198,12 @@ export class Scorm12API implements ScormAPI12 {
       return 'false';
     }
     
+    // Collection entries must be written in order - n can be at most the current _count
+    if (!this.isValidCollectionIndex(element)) {
+      this.lastError = '201'; // Invalid argument error
+      return 'false';
+    }
+    
     // Validate value based on element type
     if (!this.isValidValue(element, value)) {
       this.lastError = '405'; // Incorrect data type
@@ -260,6 +272,49 @@ export class Scorm12API implements ScormAPI12 {
     });
   }
 
+  /**
+   * Resolve _count and _children for interactions and objectives.
+   * Counts are derived from the stored entries so they survive resume.
+   */
+  private getCollectionValue(element: string): string | undefined {
+    if (this.collectionChildren[element]) {
+      return this.collectionChildren[element];
+    }
+    if (element.endsWith('.score._children')) {
+      return 'raw,min,max';
+    }
+    if (element.endsWith('._count')) {
+      return String(this.countEntries(element.slice(0, -'_count'.length)));
+    }
+    return undefined;
+  }
+
+  private countEntries(prefix: string): number {
+    let count = 0;
+    for (const key of Object.keys(this.data)) {
+      if (!key.startsWith(prefix)) continue;
+      const index = parseInt(key.slice(prefix.length), 10);
+      if (!isNaN(index) && index + 1 > count) {
+        count = index + 1;
+      }
+    }
+    return count;
+  }
+
+  private isValidCollectionIndex(element: string): boolean {
+    const match = element.match(/^(cmi\.(?:interactions|objectives)\.)(\d+)\.(?:(objectives|correct_responses)\.(\d+)\.)?/);
+    if (!match) {
+      return true;
+    }
+    if (parseInt(match[2], 10) > this.countEntries(match[1])) {
+      return false;
+    }
+    if (match[3]) {
+      return parseInt(match[4], 10) <= this.countEntries(`${match[1]}${match[2]}.${match[3]}.`);
+    }
+    return true;
+  }
+
   private isValidElement(element: string): boolean {
     const validElements = [
       'cmi.core.lesson_status',
@@ -276,10 +331,26 @@ export class Scorm12API implements ScormAPI12 {
       'cmi.comments',
       'cmi.student_data.mastery_score',
       'cmi.student_data.max_time_allowed',
-      'cmi.student_data.time_limit_action'
+      'cmi.student_data.time_limit_action',
+      'cmi.interactions._count',
+      'cmi.interactions._children',
+      'cmi.objectives._count',
+      'cmi.objectives._children'
+    ];
+    
+    // Support dynamic elements with indices
+    const dynamicPatterns = [
+      /^cmi\.interactions\.\d+\.(id|objectives\._count|time|type|correct_responses\._count|weighting|student_response|result|latency)$/,
+      /^cmi\.interactions\.\d+\.objectives\.\d+\.id$/,
+      /^cmi\.interactions\.\d+\.correct_responses\.\d+\.pattern$/,
+      /^cmi\.objectives\.\d+\.(id|score\._children|score\.(raw|min|max)|status)$/
     ];
     
-    return validElements.includes(element);
+    if (validElements.includes(element)) {
+      return true;
+    }
+    
+    return dynamicPatterns.some(pattern => pattern.test(element));
   }
 
   private isReadOnlyElement(element: string): boolean {
@@ -289,10 +360,20 @@ export class Scorm12API implements ScormAPI12 {
       'cmi.launch_data',
       'cmi.student_data.mastery_score',
       'cmi.student_data.max_time_allowed',
-      'cmi.student_data.time_limit_action'
+      'cmi.student_data.time_limit_action',
+      'cmi.interactions._count',
+      'cmi.interactions._children',
+      'cmi.objectives._count',
+      'cmi.objectives._children'
     ];
     
-    return readOnlyElements.includes(element);
+    const readOnlyPatterns = [
+      /^cmi\.interactions\.\d+\.(objectives|correct_responses)\._count$/,
+      /^cmi\.objectives\.\d+\.score\._children$/
+    ];
+    
+    return readOnlyElements.includes(element) ||
+           readOnlyPatterns.some(pattern => pattern.test(element));
   }
 
   private isWriteOnlyElement(element: string): boolean {
@@ -301,10 +382,33 @@ export class Scorm12API implements ScormAPI12 {
       'cmi.core.exit'
     ];
     
-    return writeOnlyElements.includes(element);
+    // Interaction data is write-only in SCORM 1.2 (only the counts can be read back)
+    const writeOnlyPatterns = [
+      /^cmi\.interactions\.\d+\.(id|time|type|weighting|student_response|result|latency)$/,
+      /^cmi\.interactions\.\d+\.(objectives\.\d+\.id|correct_responses\.\d+\.pattern)$/
+    ];
+    
+    return writeOnlyElements.includes(element) ||
+           writeOnlyPatterns.some(pattern => pattern.test(element));
   }
 
   private isValidValue(element: string, value: string): boolean {
+    if (/^cmi\.interactions\.\d+\.result$/.test(element)) {
+      return ['correct', 'wrong', 'unanticipated', 'neutral'].includes(value) || (value !== '' && !isNaN(Number(value)));
+    }
+    
+    if (/^cmi\.interactions\.\d+\.latency$/.test(element)) {
+      return /^\d{2,}:\d{2}:\d{2}(\.\d{1,2})?$/.test(value);
+    }
+    
+    if (/^cmi\.objectives\.\d+\.status$/.test(element)) {
+      return ['passed', 'completed', 'failed', 'incomplete', 'browsed', 'not attempted'].includes(value);
+    }
+    
+    if (/^cmi\.objectives\.\d+\.score\.(raw|min|max)$/.test(element)) {
+      return value === '' || (!isNaN(parseFloat(value)) && isFinite(Number(value)));
+    }
+    
     // Validate specific element values
     switch (element) {
       case 'cmi.core.lesson_status':
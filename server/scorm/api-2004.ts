@@ -23,6 +23,14 @@ export class Scorm2004API implements ScormAPI2004 {
   private onCommit: (data: Record<string, string>) => Promise<void>;
   private onTerminate: () => Promise<void>;
 
+  // Supported children of the collection elements (returned for <collection>._children)
+  private readonly collectionChildren: Record<string, string> = {
+    'cmi.interactions._children': 'id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description',
+    'cmi.objectives._children': 'id,score,success_status,completion_status,progress_measure,description',
+    'cmi.comments_from_learner._children': 'comment,location,timestamp',
+    'cmi.comments_from_lms._children': 'comment,location,timestamp'
+  };
+
   // SCORM 2004 Error Codes
   private readonly errorCodes: Record<string, string> = {
     '0': 'No error',
@@ -178,7 +186,7 @@ export class Scorm2004API implements ScormAPI2004 {
       return '';
     }
     
-    const value = this.data[element] || '';
+    const value = this.getCollectionValue(element) ?? (this.data[element] || '');
     this.lastError = '0';
     
     console.log(`📖 SCORM 2004 GetValue("${element}") = "${value}"`);
@@ -210,6 +218,12 @@ export class Scorm2004API implements ScormAPI2004 {
       return 'false';
     }
     
+    // Collection entries must be written in order - n can be at most the current _count
+    if (!this.isValidCollectionIndex(element)) {
+      this.lastError = '351'; // General set failure
+      return 'false';
+    }
+    
     // Validate value based on element type
     const validation = this.validateValue(element, value);
     if (!validation.valid) {
@@ -279,6 +293,49 @@ export class Scorm2004API implements ScormAPI2004 {
     });
   }
 
+  /**
+   * Resolve _count and _children for interactions, objectives and comments.
+   * Counts are derived from the stored entries so they survive resume.
+   */
+  private getCollectionValue(element: string): string | undefined {
+    if (this.collectionChildren[element]) {
+      return this.collectionChildren[element];
+    }
+    if (element.endsWith('.score._children')) {
+      return 'scaled,raw,min,max';
+    }
+    if (element.endsWith('._count')) {
+      return String(this.countEntries(element.slice(0, -'_count'.length)));
+    }
+    return undefined;
+  }
+
+  private countEntries(prefix: string): number {
+    let count = 0;
+    for (const key of Object.keys(this.data)) {
+      if (!key.startsWith(prefix)) continue;
+      const index = parseInt(key.slice(prefix.length), 10);
+      if (!isNaN(index) && index + 1 > count) {
+        count = index + 1;
+      }
+    }
+    return count;
+  }
+
+  private isValidCollectionIndex(element: string): boolean {
+    const match = element.match(/^(cmi\.(?:interactions|objectives|comments_from_learner)\.)(\d+)\.(?:(objectives|correct_responses)\.(\d+)\.)?/);
+    if (!match) {
+      return true;
+    }
+    if (parseInt(match[2], 10) > this.countEntries(match[1])) {
+      return false;
+    }
+    if (match[3]) {
+      return parseInt(match[4], 10) <= this.countEntries(`${match[1]}${match[2]}.${match[3]}.`);
+    }
+    return true;
+  }
+
   private isValidElement(element: string): boolean {
     const validElements = [
       'cmi.completion_status',
@@ -299,6 +356,10 @@ export class Scorm2004API implements ScormAPI2004 {
       'cmi.comments_from_learner._children',
       'cmi.comments_from_lms._count',
       'cmi.comments_from_lms._children',
+      'cmi.interactions._count',
+      'cmi.interactions._children',
+      'cmi.objectives._count',
+      'cmi.objectives._children',
       'cmi.learner_preference.audio_level',
       'cmi.learner_preference.language',
       'cmi.learner_preference.delivery_speed',
@@ -310,7 +371,9 @@ export class Scorm2004API implements ScormAPI2004 {
       /^cmi\.comments_from_learner\.\d+\.(comment|location|timestamp)$/,
       /^cmi\.comments_from_lms\.\d+\.(comment|location|timestamp)$/,
       /^cmi\.interactions\.\d+\.(id|type|objectives\._count|timestamp|correct_responses\._count|weighting|learner_response|result|latency|description)$/,
-      /^cmi\.objectives\.\d+\.(id|score\.(scaled|raw|min|max)|success_status|completion_status|progress_measure|description)$/
+      /^cmi\.interactions\.\d+\.objectives\.\d+\.id$/,
+      /^cmi\.interactions\.\d+\.correct_responses\.\d+\.pattern$/,
+      /^cmi\.objectives\.\d+\.(id|score\._children|score\.(scaled|raw|min|max)|success_status|completion_status|progress_measure|description)$/
     ];
     
     if (validElements.includes(element)) {
@@ -326,11 +389,19 @@ export class Scorm2004API implements ScormAPI2004 {
       'cmi.learner_name',
       'cmi.launch_data',
       'cmi.comments_from_lms._count',
-      'cmi.comments_from_lms._children'
+      'cmi.comments_from_lms._children',
+      'cmi.comments_from_learner._count',
+      'cmi.comments_from_learner._children',
+      'cmi.interactions._count',
+      'cmi.interactions._children',
+      'cmi.objectives._count',
+      'cmi.objectives._children'
     ];
     
     const readOnlyPatterns = [
-      /^cmi\.comments_from_lms\.\d+\.(comment|location|timestamp)$/
+      /^cmi\.comments_from_lms\.\d+\.(comment|location|timestamp)$/,
+      /^cmi\.interactions\.\d+\.(objectives|correct_responses)\._count$/,
+      /^cmi\.objectives\.\d+\.score\._children$/
     ];
     
     return readOnlyElements.includes(element) ||
@@ -347,6 +418,20 @@ export class Scorm2004API implements ScormAPI2004 {
   }
 
   private validateValue(element: string, value: string): { valid: boolean; errorCode: string } {
+    if (/^cmi\.interactions\.\d+\.result$/.test(element)) {
+      if (!['correct', 'incorrect', 'unanticipated', 'neutral'].includes(value) && (value === '' || isNaN(Number(value)))) {
+        return { valid: false, errorCode: '406' }; // Type mismatch
+      }
+      return { valid: true, errorCode: '0' };
+    }
+    
+    if (/^cmi\.interactions\.\d+\.latency$/.test(element)) {
+      if (!/^P(\d+Y)?(\d+M)?(\d+D)?(T(\d+H)?(\d+M)?(\d+(\.\d{1,2})?S)?)?$/.test(value)) {
+        return { valid: false, errorCode: '406' }; // Type mismatch
+      }
+      return { valid: true, errorCode: '0' };
+    }
+    
     switch (element) {
       case 'cmi.completion_status':
         if (!['completed', 'incomplete', 'not attempted', 'unknown'].includes(value)) {
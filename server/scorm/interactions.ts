@@ -0,0 +1,264 @@
+/**
+ * SCORM Interactions & Objectives
+ * Extracts cmi.interactions.n.* and cmi.objectives.n.* from committed runtime data
+ * and aggregates stored interactions into a question-level item analysis
+ */
+
+import type { InsertScormInteraction, InsertScormObjective, ScormInteraction } from "@shared/schema";
+import type { ScormDataPairs } from "./persist";
+
+type AttemptKeys = Pick<InsertScormInteraction, 'attemptId' | 'assignmentId' | 'userId' | 'courseId' | 'organisationId'>;
+
+export interface ItemAnalysisQuestion {
+  interactionId: string;
+  description: string | null;
+  type: string | null;
+  responses: number;
+  correct: number;
+  percentCorrect: number | null;
+  averageLatencySeconds: number | null;
+  correctResponses: string[];
+  commonWrongResponses: { response: string; count: number }[];
+}
+
+export interface ItemAnalysisReport {
+  courseId: string;
+  learners: number;
+  attempts: number;
+  questions: ItemAnalysisQuestion[];
+}
+
+const COMMON_WRONG_RESPONSE_LIMIT = 3;
+
+/**
+ * Group indexed pairs (e.g. cmi.interactions.3.result) by their index
+ */
+function groupByIndex(pairs: ScormDataPairs, prefix: string): Map<number, Record<string, string>> {
+  const groups = new Map<number, Record<string, string>>();
+
+  for (const [key, value] of Object.entries(pairs)) {
+    if (!key.startsWith(prefix)) continue;
+    const match = key.slice(prefix.length).match(/^(\d+)\.(.+)$/);
+    if (!match) continue;
+
+    const index = parseInt(match[1], 10);
+    const fields = groups.get(index) || {};
+    fields[match[2]] = value;
+    groups.set(index, fields);
+  }
+
+  return groups;
+}
+
+/**
+ * Values of a nested collection (e.g. correct_responses.n.pattern), in index order
+ */
+function collectNested(fields: Record<string, string>, collection: string, field: string): string[] {
+  const values: { index: number; value: string }[] = [];
+  const pattern = new RegExp(`^${collection}\\.(\\d+)\\.${field}$`);
+
+  for (const [key, value] of Object.entries(fields)) {
+    const match = key.match(pattern);
+    if (match && value !== '') {
+      values.push({ index: parseInt(match[1], 10), value });
+    }
+  }
+
+  return values.sort((a, b) => a.index - b.index).map(v => v.value);
+}
+
+function toDecimal(value: string | undefined): string | null {
+  if (value === undefined || value === '' || isNaN(Number(value))) {
+    return null;
+  }
+  return String(Number(value));
+}
+
+function emptyToNull(value: string | undefined): string | null {
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Parse a latency into seconds.
+ * SCORM 1.2 uses HHHH:MM:SS.SS, SCORM 2004 uses ISO 8601 durations (PT1M30S).
+ */
+export function parseLatencySeconds(latency: string | null | undefined): number | null {
+  if (!latency) {
+    return null;
+  }
+
+  const timespan = latency.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (timespan) {
+    return parseInt(timespan[1], 10) * 3600 + parseInt(timespan[2], 10) * 60 + parseFloat(timespan[3]);
+  }
+
+  const duration = latency.match(/^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (duration && latency !== 'P' && !latency.endsWith('T')) {
+    const [, years, months, days, hours, minutes, seconds] = duration;
+    return (parseInt(years || '0', 10) * 365 + parseInt(months || '0', 10) * 30 + parseInt(days || '0', 10)) * 86400
+      + parseInt(hours || '0', 10) * 3600
+      + parseInt(minutes || '0', 10) * 60
+      + parseFloat(seconds || '0');
+  }
+
+  return null;
+}
+
+/**
+ * Normalise a result so both versions can be compared - SCORM 1.2 reports "wrong" where 2004 uses "incorrect"
+ */
+function normaliseResult(result: string | undefined): string | null {
+  if (!result) {
+    return null;
+  }
+  return result === 'wrong' ? 'incorrect' : result;
+}
+
+/**
+ * Build interaction rows from committed runtime data
+ */
+export function extractInteractions(
+  pairs: ScormDataPairs,
+  standard: '1.2' | '2004' | string,
+  attempt: AttemptKeys
+): InsertScormInteraction[] {
+  const isScorm12 = standard === '1.2';
+  const rows: InsertScormInteraction[] = [];
+
+  for (const [index, fields] of Array.from(groupByIndex(pairs, 'cmi.interactions.').entries())) {
+    const latency = emptyToNull(fields['latency']);
+    const latencySeconds = parseLatencySeconds(latency);
+    const correctResponses = collectNested(fields, 'correct_responses', 'pattern');
+    const objectiveIds = collectNested(fields, 'objectives', 'id');
+
+    rows.push({
+      ...attempt,
+      interactionIndex: index,
+      interactionId: emptyToNull(fields['id']),
+      type: emptyToNull(fields['type']),
+      description: isScorm12 ? null : emptyToNull(fields['description']),
+      learnerResponse: emptyToNull(isScorm12 ? fields['student_response'] : fields['learner_response']),
+      correctResponses: correctResponses.length > 0 ? correctResponses : null,
+      result: normaliseResult(fields['result']),
+      weighting: toDecimal(fields['weighting']),
+      latency,
+      latencySeconds: latencySeconds === null ? null : latencySeconds.toFixed(2),
+      timestamp: emptyToNull(isScorm12 ? fields['time'] : fields['timestamp']),
+      objectiveIds: objectiveIds.length > 0 ? objectiveIds : null,
+    });
+  }
+
+  return rows.sort((a, b) => a.interactionIndex - b.interactionIndex);
+}
+
+/**
+ * Build objective rows from committed runtime data
+ */
+export function extractObjectives(
+  pairs: ScormDataPairs,
+  standard: '1.2' | '2004' | string,
+  attempt: AttemptKeys
+): InsertScormObjective[] {
+  const isScorm12 = standard === '1.2';
+  const rows: InsertScormObjective[] = [];
+
+  for (const [index, fields] of Array.from(groupByIndex(pairs, 'cmi.objectives.').entries())) {
+    rows.push({
+      ...attempt,
+      objectiveIndex: index,
+      objectiveId: emptyToNull(fields['id']),
+      description: isScorm12 ? null : emptyToNull(fields['description']),
+      scoreRaw: toDecimal(fields['score.raw']),
+      scoreMin: toDecimal(fields['score.min']),
+      scoreMax: toDecimal(fields['score.max']),
+      scoreScaled: isScorm12 ? null : toDecimal(fields['score.scaled']),
+      status: isScorm12 ? emptyToNull(fields['status']) : null,
+      successStatus: isScorm12 ? null : emptyToNull(fields['success_status']),
+      completionStatus: isScorm12 ? null : emptyToNull(fields['completion_status']),
+      progressMeasure: isScorm12 ? null : toDecimal(fields['progress_measure']),
+    });
+  }
+
+  return rows.sort((a, b) => a.objectiveIndex - b.objectiveIndex);
+}
+
+/**
+ * Question-level item analysis: percent correct, most common wrong responses and average latency.
+ * Interactions are grouped by their content-defined id; questions are returned hardest first.
+ */
+export function buildItemAnalysis(courseId: string, interactions: ScormInteraction[]): ItemAnalysisReport {
+  const questions = new Map<string, {
+    description: string | null;
+    type: string | null;
+    responses: number;
+    judged: number;
+    correct: number;
+    latencyTotal: number;
+    latencyCount: number;
+    correctResponses: Set<string>;
+    wrongResponses: Map<string, number>;
+  }>();
+
+  for (const interaction of interactions) {
+    const key = interaction.interactionId || `interaction_${interaction.interactionIndex}`;
+    const question = questions.get(key) || {
+      description: null,
+      type: null,
+      responses: 0,
+      judged: 0,
+      correct: 0,
+      latencyTotal: 0,
+      latencyCount: 0,
+      correctResponses: new Set<string>(),
+      wrongResponses: new Map<string, number>(),
+    };
+
+    question.description = question.description || interaction.description;
+    question.type = question.type || interaction.type;
+    question.responses++;
+    (interaction.correctResponses || []).forEach(response => question.correctResponses.add(response));
+
+    if (interaction.result === 'correct') {
+      question.judged++;
+      question.correct++;
+    } else if (interaction.result === 'incorrect') {
+      question.judged++;
+      const response = interaction.learnerResponse || '(no response)';
+      question.wrongResponses.set(response, (question.wrongResponses.get(response) || 0) + 1);
+    }
+
+    if (interaction.latencySeconds !== null) {
+      question.latencyTotal += Number(interaction.latencySeconds);
+      question.latencyCount++;
+    }
+
+    questions.set(key, question);
+  }
+
+  const results: ItemAnalysisQuestion[] = Array.from(questions.entries()).map(([interactionId, question]) => ({
+    interactionId,
+    description: question.description,
+    type: question.type,
+    responses: question.responses,
+    correct: question.correct,
+    percentCorrect: question.judged > 0 ? Math.round((question.correct / question.judged) * 100) : null,
+    averageLatencySeconds: question.latencyCount > 0
+      ? Math.round((question.latencyTotal / question.latencyCount) * 10) / 10
+      : null,
+    correctResponses: Array.from(question.correctResponses),
+    commonWrongResponses: Array.from(question.wrongResponses.entries())
+      .map(([response, count]) => ({ response, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, COMMON_WRONG_RESPONSE_LIMIT),
+  }));
+
+  // Hardest questions first; questions without a judged result go last
+  results.sort((a, b) => (a.percentCorrect ?? 101) - (b.percentCorrect ?? 101) || a.interactionId.localeCompare(b.interactionId));
+
+  return {
+    courseId,
+    learners: new Set(interactions.map(i => i.userId)).size,
+    attempts: new Set(interactions.map(i => i.attemptId)).size,
+    questions: results,
+  };
+}
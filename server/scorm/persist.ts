@@ -4,8 +4,9 @@
  */
 
 import { db } from "../db";
-import { scormAttempts } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { scormAttempts, scormInteractions, scormObjectives } from "@shared/schema";
+import { eq, and, sql } from "drizzle-orm";
+import { extractInteractions, extractObjectives } from "./interactions";
 
 export interface ScormAttemptData {
   attemptId: string;
@@ -139,10 +140,82 @@ export class ScormPersistence {
       .set(updateData)
       .where(eq(scormAttempts.attemptId, attemptId));
     
+    await this.persistInteractions(currentAttempt, pairs);
+    
     console.log(`✅ SCORM data persisted for attempt: ${attemptId}`);
     console.log(`📈 Completion status: ${updateData.completed}, Progress: ${updateData.progressPercent}%`);
   }
 
+  /**
+   * Persist cmi.interactions and cmi.objectives as structured rows.
+   * Each commit carries the full data model, so rows are upserted by (attempt, index).
+   */
+  async persistInteractions(
+    attempt: Pick<ScormAttemptData, 'attemptId' | 'assignmentId' | 'userId' | 'courseId' | 'organisationId'> & { standard?: string | null },
+    pairs: ScormDataPairs
+  ): Promise<void> {
+    const keys = {
+      attemptId: attempt.attemptId,
+      assignmentId: attempt.assignmentId,
+      userId: attempt.userId,
+      courseId: attempt.courseId,
+      organisationId: attempt.organisationId,
+    };
+    // Older commit paths don't always record the standard - cmi.core.* only exists in SCORM 1.2
+    const standard = attempt.standard || (Object.keys(pairs).some(key => key.startsWith('cmi.core.')) ? '1.2' : '2004');
+    const interactions = extractInteractions(pairs, standard, keys);
+    const objectives = extractObjectives(pairs, standard, keys);
+
+    if (interactions.length > 0) {
+      await db
+        .insert(scormInteractions)
+        .values(interactions)
+        .onConflictDoUpdate({
+          target: [scormInteractions.attemptId, scormInteractions.interactionIndex],
+          set: {
+            interactionId: sql`excluded.interaction_id`,
+            type: sql`excluded.type`,
+            description: sql`excluded.description`,
+            learnerResponse: sql`excluded.learner_response`,
+            correctResponses: sql`excluded.correct_responses`,
+            result: sql`excluded.result`,
+            weighting: sql`excluded.weighting`,
+            latency: sql`excluded.latency`,
+            latencySeconds: sql`excluded.latency_seconds`,
+            timestamp: sql`excluded.timestamp`,
+            objectiveIds: sql`excluded.objective_ids`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    if (objectives.length > 0) {
+      await db
+        .insert(scormObjectives)
+        .values(objectives)
+        .onConflictDoUpdate({
+          target: [scormObjectives.attemptId, scormObjectives.objectiveIndex],
+          set: {
+            objectiveId: sql`excluded.objective_id`,
+            description: sql`excluded.description`,
+            scoreRaw: sql`excluded.score_raw`,
+            scoreMin: sql`excluded.score_min`,
+            scoreMax: sql`excluded.score_max`,
+            scoreScaled: sql`excluded.score_scaled`,
+            status: sql`excluded.status`,
+            successStatus: sql`excluded.success_status`,
+            completionStatus: sql`excluded.completion_status`,
+            progressMeasure: sql`excluded.progress_measure`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    if (interactions.length > 0 || objectives.length > 0) {
+      console.log(`📝 Stored ${interactions.length} interaction(s) and ${objectives.length} objective(s) for attempt: ${attempt.attemptId}`);
+    }
+  }
+
   /**
    * Map SCORM 1.2 fields to database columns
    */
@@ -0,0 +1,452 @@
+/**
+ * Assessment Service
+ *
+ * Native assessments: quick knowledge checks and policy acknowledgements built from a question
+ * bank here rather than uploaded as a SCORM package. Courses with scormVersion 'assessment' use it.
+ *
+ * Each attempt draws its questions from the bank (optionally a random subset, shuffled) and keeps
+ * its own copy of them. Choice questions are marked on submission; free-text answers wait for an
+ * admin to mark them. Scores are checked against the passmark of the course version the assignment
+ * is pinned to. A pass - or a fail once no attempts are left - is recorded through
+ * CourseCompletionService, so completions, certificates and the training matrix treat it exactly
+ * like a SCORM result.
+ */
+
+import { storage } from '../storage';
+import { courseCompletionService } from './CourseCompletionService';
+import { courseVersionService } from './CourseVersionService';
+import type {
+  Assignment,
+  AssessmentAttempt,
+  AssessmentAttemptQuestion,
+  AssessmentQuestion,
+  AssessmentQuestionInput,
+  Course,
+  CourseAssessment,
+  InsertCourseAssessment,
+  User,
+} from '@shared/schema';
+
+const LOG_PREFIX = '[Assessment]';
+
+// Answers submitted this long after the time limit still count, to allow for network delay
+const SUBMISSION_GRACE_MS = 60 * 1000;
+
+export class AssessmentError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'AssessmentError';
+  }
+}
+
+// An attempt as the learner sees it - correct answers are never sent while it can still be changed
+export interface LearnerAssessmentAttempt {
+  id: string;
+  attemptNumber: number;
+  status: AssessmentAttempt['status'];
+  questions: Omit<AssessmentAttemptQuestion, 'correctOptionIds'>[];
+  answers: AssessmentAttempt['answers'];
+  startedAt: Date | null;
+  expiresAt: Date | null;
+  submittedAt: Date | null;
+  score: number | null;
+  passed: boolean | null;
+}
+
+export interface LearnerAssessmentState {
+  courseTitle: string;
+  passmark: number;
+  questionCount: number;
+  timeLimitMinutes: number | null;
+  maxAttempts: number | null;
+  attemptsUsed: number;
+  canStart: boolean;
+  assignmentCompleted: boolean;
+  current: LearnerAssessmentAttempt | null; // in progress or awaiting marking
+  attempts: LearnerAssessmentAttempt[];
+}
+
+export class AssessmentService {
+
+  isAssessment(course: Pick<Course, 'scormVersion'>): boolean {
+    return course.scormVersion === 'assessment';
+  }
+
+  /**
+   * Replace a course's settings and question bank
+   */
+  async saveAssessment(course: Course, settings: Omit<InsertCourseAssessment, 'courseId'>, questions: AssessmentQuestionInput[]): Promise<{ assessment: CourseAssessment; questions: AssessmentQuestion[] }> {
+    if (!this.isAssessment(course)) {
+      throw new AssessmentError(400, 'This course is not an assessment');
+    }
+
+    questions.forEach((question, index) => this.validateQuestion(question, index + 1));
+
+    if (settings.questionsPerAttempt && settings.questionsPerAttempt > questions.length) {
+      throw new AssessmentError(400, `Each attempt asks ${settings.questionsPerAttempt} questions but the bank only has ${questions.length}`);
+    }
+
+    return await storage.saveCourseAssessment(course.id, settings, questions);
+  }
+
+  /**
+   * Where a learner is with an assessment assignment
+   */
+  async getLearnerState(assignment: Assignment): Promise<LearnerAssessmentState> {
+    const { course, assessment, bank } = await this.load(assignment);
+    const attempts = await this.expireOverdueAttempts(assignment, await storage.getAssessmentAttemptsByAssignment(assignment.id));
+    const current = attempts.find(a => a.status !== 'completed');
+    const assignmentCompleted = assignment.status === 'completed';
+
+    return {
+      courseTitle: course.title,
+      passmark: course.passmark ?? 80,
+      questionCount: Math.min(assessment?.questionsPerAttempt || bank.length, bank.length),
+      timeLimitMinutes: assessment?.timeLimitMinutes ?? null,
+      maxAttempts: assessment?.maxAttempts ?? null,
+      attemptsUsed: attempts.length,
+      canStart: !assignmentCompleted && !current && bank.length > 0 && !this.attemptsExhausted(assessment, attempts.length),
+      assignmentCompleted,
+      current: current ? this.toLearnerView(current) : null,
+      attempts: attempts.map(a => this.toLearnerView(a)),
+    };
+  }
+
+  /**
+   * Start a new attempt, or return the one already under way
+   */
+  async startAttempt(assignment: Assignment): Promise<LearnerAssessmentAttempt> {
+    if (assignment.isLocked) {
+      throw new AssessmentError(423, 'This course unlocks when the previous course in your learning path is passed');
+    }
+    if (assignment.status === 'completed') {
+      throw new AssessmentError(400, 'You have already completed this assessment');
+    }
+
+    const { assessment, bank, version } = await this.load(assignment);
+    const attempts = await this.expireOverdueAttempts(assignment, await storage.getAssessmentAttemptsByAssignment(assignment.id));
+
+    const current = attempts.find(a => a.status !== 'completed');
+    if (current?.status === 'in_progress') {
+      return this.toLearnerView(current);
+    }
+    if (current?.status === 'awaiting_marking') {
+      throw new AssessmentError(409, 'Your last attempt is waiting to be marked');
+    }
+    if (this.attemptsExhausted(assessment, attempts.length)) {
+      throw new AssessmentError(400, 'You have used all your attempts at this assessment');
+    }
+    if (bank.length === 0) {
+      throw new AssessmentError(400, 'This assessment has no questions yet');
+    }
+
+    const now = new Date();
+    const attemptNumber = attempts.length + 1;
+    let attempt: AssessmentAttempt;
+    try {
+      attempt = await storage.createAssessmentAttempt({
+        assignmentId: assignment.id,
+        userId: assignment.userId,
+        courseId: assignment.courseId,
+        courseVersionId: version.id,
+        organisationId: assignment.organisationId,
+        attemptNumber,
+        status: 'in_progress',
+        questions: this.drawQuestions(bank, assessment),
+        answers: {},
+        expiresAt: assessment?.timeLimitMinutes ? new Date(now.getTime() + assessment.timeLimitMinutes * 60 * 1000) : null,
+      });
+    } catch (error: any) {
+      // Another request started this attempt first - carry on with theirs
+      if (error?.code !== '23505') {
+        throw error;
+      }
+      const started = (await storage.getAssessmentAttemptsByAssignment(assignment.id)).find(a => a.attemptNumber === attemptNumber);
+      if (!started) {
+        throw error;
+      }
+      return this.toLearnerView(started);
+    }
+
+    if (assignment.status === 'not_started' || assignment.status === 'overdue') {
+      await storage.updateAssignment(assignment.id, {
+        status: 'in_progress',
+        startedAt: assignment.startedAt || now,
+      });
+    }
+
+    console.log(`${LOG_PREFIX} Attempt ${attempt.attemptNumber} started for assignment ${assignment.id}`);
+    return this.toLearnerView(attempt);
+  }
+
+  /**
+   * Save answers so far, so nothing is lost if the time runs out or the learner leaves
+   */
+  async saveAnswers(attempt: AssessmentAttempt, answers: Record<string, string[] | string>): Promise<LearnerAssessmentAttempt> {
+    this.assertOpen(attempt);
+    const updated = await storage.updateAssessmentAttempt(attempt.id, {
+      answers: { ...attempt.answers, ...this.cleanAnswers(attempt, answers) },
+    }, 'in_progress');
+    if (!updated) {
+      throw new AssessmentError(400, 'This attempt has already been submitted');
+    }
+    return this.toLearnerView(updated);
+  }
+
+  /**
+   * Hand in an attempt. Choice questions are marked straight away; free text waits for an admin.
+   */
+  async submit(attempt: AssessmentAttempt, answers?: Record<string, string[] | string>): Promise<LearnerAssessmentAttempt> {
+    if (attempt.status !== 'in_progress') {
+      throw new AssessmentError(400, 'This attempt has already been submitted');
+    }
+
+    // Answers sent after the time limit are ignored - the saved ones stand
+    const inTime = !attempt.expiresAt || Date.now() <= attempt.expiresAt.getTime() + SUBMISSION_GRACE_MS;
+    const finalAnswers = answers && inTime ? { ...attempt.answers, ...this.cleanAnswers(attempt, answers) } : attempt.answers;
+
+    const submission = { answers: finalAnswers, submittedAt: new Date() };
+
+    if (attempt.questions.some(q => q.type === 'free_text')) {
+      const submitted = await storage.updateAssessmentAttempt(attempt.id, { ...submission, status: 'awaiting_marking' }, 'in_progress');
+      if (!submitted) {
+        return this.toLearnerView(await this.reload(attempt));
+      }
+      console.log(`${LOG_PREFIX} Attempt ${attempt.id} submitted - awaiting marking`);
+      return this.toLearnerView(submitted);
+    }
+
+    return this.toLearnerView(await this.finalise({ ...attempt, ...submission }, {}));
+  }
+
+  /**
+   * Mark the free-text answers of a submitted attempt and record the result
+   */
+  async mark(attempt: AssessmentAttempt, marks: Record<string, boolean>, marker: User): Promise<AssessmentAttempt> {
+    if (attempt.status !== 'awaiting_marking') {
+      throw new AssessmentError(400, 'This attempt is not waiting to be marked');
+    }
+
+    const freeText = attempt.questions.filter(q => q.type === 'free_text');
+    const unmarked = freeText.filter(q => typeof marks[q.questionId] !== 'boolean');
+    if (unmarked.length > 0) {
+      throw new AssessmentError(400, 'Mark every written answer as correct or incorrect');
+    }
+
+    const manualMarks: Record<string, boolean> = {};
+    freeText.forEach(q => {
+      manualMarks[q.questionId] = marks[q.questionId];
+    });
+
+    return await this.finalise(attempt, manualMarks, marker);
+  }
+
+  /**
+   * Percentage of the available points scored
+   */
+  score(questions: AssessmentAttemptQuestion[], answers: AssessmentAttempt['answers'], manualMarks: Record<string, boolean>): number {
+    const total = questions.reduce((sum, q) => sum + q.points, 0);
+    if (total === 0) {
+      return 0;
+    }
+    const earned = questions
+      .filter(q => this.isCorrect(q, answers[q.questionId], manualMarks))
+      .reduce((sum, q) => sum + q.points, 0);
+    return Math.round((earned / total) * 100);
+  }
+
+  private isCorrect(question: AssessmentAttemptQuestion, answer: string[] | string | undefined, manualMarks: Record<string, boolean>): boolean {
+    if (question.type === 'free_text') {
+      return manualMarks[question.questionId] === true;
+    }
+    const chosen = Array.isArray(answer) ? answer : [];
+    return chosen.length === question.correctOptionIds.length
+      && question.correctOptionIds.every(id => chosen.includes(id));
+  }
+
+  private async finalise(attempt: AssessmentAttempt, manualMarks: Record<string, boolean>, marker?: User): Promise<AssessmentAttempt> {
+    const assignment = await storage.getAssignment(attempt.assignmentId);
+    if (!assignment) {
+      throw new AssessmentError(404, 'Assignment not found');
+    }
+    const { course, assessment } = await this.load(assignment);
+
+    const score = this.score(attempt.questions, attempt.answers, manualMarks);
+    const passed = score >= (course.passmark ?? 80);
+
+    // Only the request that moves the attempt on records the result - a second submit or marking does nothing
+    let updated = await storage.updateAssessmentAttempt(attempt.id, {
+      answers: attempt.answers,
+      submittedAt: attempt.submittedAt,
+      status: 'completed',
+      score,
+      passed,
+      manualMarks: Object.keys(manualMarks).length > 0 ? manualMarks : null,
+      markedBy: marker?.id ?? null,
+      markedAt: marker ? new Date() : null,
+    }, attempt.status);
+    if (!updated) {
+      return await this.reload(attempt);
+    }
+    console.log(`${LOG_PREFIX} Attempt ${attempt.id} scored ${score}% (${passed ? 'pass' : 'fail'})`);
+
+    // A fail only completes the assignment once there are no attempts left to retry with
+    if (passed || this.attemptsExhausted(assessment, attempt.attemptNumber)) {
+      const startedAt = attempt.startedAt ?? new Date();
+      const completion = await courseCompletionService.recordCompletion({
+        assignment,
+        course,
+        passed,
+        score,
+        timeSpent: Math.max(1, Math.round(((attempt.submittedAt ?? new Date()).getTime() - startedAt.getTime()) / 60000)),
+        runtimeData: { assessmentAttemptId: attempt.id, attemptNumber: attempt.attemptNumber },
+      });
+      if (completion) {
+        updated = (await storage.updateAssessmentAttempt(attempt.id, { completionId: completion.id })) ?? updated;
+      }
+    }
+
+    return updated;
+  }
+
+  private async reload(attempt: AssessmentAttempt): Promise<AssessmentAttempt> {
+    return (await storage.getAssessmentAttempt(attempt.id)) ?? attempt;
+  }
+
+  private async load(assignment: Assignment) {
+    const pinned = await courseVersionService.getCourseForAssignment(assignment);
+    if (!pinned || !this.isAssessment(pinned.course)) {
+      throw new AssessmentError(404, 'Assessment not found');
+    }
+    const [assessment, bank] = await Promise.all([
+      storage.getCourseAssessment(assignment.courseId),
+      storage.getAssessmentQuestions(assignment.courseId),
+    ]);
+    return { ...pinned, assessment, bank };
+  }
+
+  private attemptsExhausted(assessment: CourseAssessment | undefined, attemptsUsed: number): boolean {
+    return !!assessment?.maxAttempts && attemptsUsed >= assessment.maxAttempts;
+  }
+
+  /**
+   * Submit attempts whose time ran out without the learner handing them in
+   */
+  private async expireOverdueAttempts(assignment: Assignment, attempts: AssessmentAttempt[]): Promise<AssessmentAttempt[]> {
+    const now = Date.now();
+    const results: AssessmentAttempt[] = [];
+    for (const attempt of attempts) {
+      if (attempt.status === 'in_progress' && attempt.expiresAt && now > attempt.expiresAt.getTime() + SUBMISSION_GRACE_MS) {
+        console.log(`${LOG_PREFIX} Attempt ${attempt.id} ran out of time - submitting saved answers`);
+        await this.submit(attempt);
+        results.push(await this.reload(attempt));
+      } else {
+        results.push(attempt);
+      }
+    }
+    return results;
+  }
+
+  private assertOpen(attempt: AssessmentAttempt): void {
+    if (attempt.status !== 'in_progress') {
+      throw new AssessmentError(400, 'This attempt has already been submitted');
+    }
+    if (attempt.expiresAt && Date.now() > attempt.expiresAt.getTime() + SUBMISSION_GRACE_MS) {
+      throw new AssessmentError(400, 'The time limit for this attempt has passed');
+    }
+  }
+
+  // Keep only answers to questions in the attempt, in the shape each question type expects
+  private cleanAnswers(attempt: AssessmentAttempt, answers: Record<string, string[] | string>): Record<string, string[] | string> {
+    const cleaned: Record<string, string[] | string> = {};
+    attempt.questions.forEach(question => {
+      const answer = answers[question.questionId];
+      if (answer === undefined) {
+        return;
+      }
+      if (question.type === 'free_text') {
+        cleaned[question.questionId] = String(answer).slice(0, 10000);
+      } else {
+        const optionIds = question.options.map(o => o.id);
+        const chosen = (Array.isArray(answer) ? answer : [answer]).filter(id => optionIds.includes(id));
+        cleaned[question.questionId] = question.type === 'multiple_choice' ? chosen : chosen.slice(0, 1);
+      }
+    });
+    return cleaned;
+  }
+
+  private drawQuestions(bank: AssessmentQuestion[], assessment: CourseAssessment | undefined): AssessmentAttemptQuestion[] {
+    const count = Math.min(assessment?.questionsPerAttempt || bank.length, bank.length);
+    const shuffleQuestions = assessment?.shuffleQuestions ?? true;
+    const shuffleOptions = assessment?.shuffleOptions ?? true;
+
+    let drawn = shuffle(bank).slice(0, count);
+    if (!shuffleQuestions) {
+      // A random subset, still asked in the order the bank lists them
+      drawn = bank.filter(question => drawn.includes(question));
+    }
+
+    return drawn.map(question => ({
+      questionId: question.id,
+      type: question.type,
+      prompt: question.prompt,
+      options: shuffleOptions && question.type !== 'true_false' ? shuffle(question.options) : question.options,
+      correctOptionIds: question.correctOptionIds,
+      points: question.points,
+    }));
+  }
+
+  private toLearnerView(attempt: AssessmentAttempt): LearnerAssessmentAttempt {
+    return {
+      id: attempt.id,
+      attemptNumber: attempt.attemptNumber,
+      status: attempt.status,
+      questions: attempt.questions.map(({ correctOptionIds, ...question }) => question),
+      answers: attempt.answers,
+      startedAt: attempt.startedAt,
+      expiresAt: attempt.expiresAt,
+      submittedAt: attempt.submittedAt,
+      score: attempt.score,
+      passed: attempt.passed,
+    };
+  }
+
+  private validateQuestion(question: AssessmentQuestionInput, number: number): void {
+    const options = question.options ?? [];
+    const correct = question.correctOptionIds ?? [];
+    const optionIds = options.map(o => o.id);
+
+    if (question.type === 'free_text') {
+      if (options.length > 0) {
+        throw new AssessmentError(400, `Question ${number}: written answer questions have no options`);
+      }
+      return;
+    }
+    if (options.length < 2) {
+      throw new AssessmentError(400, `Question ${number}: add at least two answer options`);
+    }
+    if (new Set(optionIds).size !== optionIds.length) {
+      throw new AssessmentError(400, `Question ${number}: answer options must be unique`);
+    }
+    if (correct.length === 0 || correct.some(id => !optionIds.includes(id))) {
+      throw new AssessmentError(400, `Question ${number}: choose the correct answer`);
+    }
+    if (question.type !== 'multiple_choice' && correct.length !== 1) {
+      throw new AssessmentError(400, `Question ${number}: only one answer can be correct`);
+    }
+  }
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    const swap = result[i];
+    result[i] = result[j];
+    result[j] = swap;
+  }
+  return result;
+}
+
+// Export singleton instance
+export const assessmentService = new AssessmentService();
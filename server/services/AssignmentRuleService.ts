@@ -0,0 +1,246 @@
+/**
+ * Assignment Rule Service
+ *
+ * Standing per-organisation rules that assign a course to every learner matching a
+ * department / job title / user group / start date filter. Rules are evaluated when users are created
+ * or updated, and again by the nightly sweep so nobody is missed.
+ */
+
+import { storage } from '../storage';
+import { automatedEmailService } from './AutomatedEmailService';
+import type { Assignment, AssignmentRule, User } from '@shared/schema';
+
+const LOG_PREFIX = '[AssignmentRules]';
+
+// The fields of a rule that decide who it applies to - previews run on unsaved rules too
+export type AssignmentRuleCriteria = Pick<AssignmentRule, 'courseId' | 'department' | 'jobTitle' | 'groupId' | 'createdOnOrAfter' | 'dueDaysAfterStart'>;
+
+export interface AssignmentRulePreview {
+  matchingUsers: number;
+  alreadyAssigned: number;
+  users: {
+    id: string;
+    name: string;
+    email: string | null;
+    department: string | null;
+    jobTitle: string | null;
+    alreadyAssigned: boolean;
+    dueDate: Date | null;
+  }[];
+}
+
+export interface AssignmentRuleRunResult {
+  rulesEvaluated: number;
+  assignmentsCreated: number;
+}
+
+export class AssignmentRuleService {
+
+  /**
+   * Whether a user falls under a rule. Text conditions are case-insensitive; empty conditions match anyone.
+   */
+  matchesUser(rule: AssignmentRuleCriteria, user: User, userGroupIds: string[] = []): boolean {
+    if (user.role !== 'user' || user.status !== 'active') {
+      return false;
+    }
+    if (rule.department && !this.sameText(rule.department, user.department)) {
+      return false;
+    }
+    if (rule.jobTitle && !this.sameText(rule.jobTitle, user.jobTitle)) {
+      return false;
+    }
+    if (rule.groupId && !userGroupIds.includes(rule.groupId)) {
+      return false;
+    }
+    if (rule.createdOnOrAfter && (!user.createdAt || new Date(user.createdAt) < new Date(rule.createdOnOrAfter))) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Show which users a rule would affect without assigning anything.
+   */
+  async previewRule(organisationId: string, rule: AssignmentRuleCriteria): Promise<AssignmentRulePreview> {
+    const orgUsers = await storage.getUsersByOrganisation(organisationId);
+    const courseAssignments = await storage.getAssignmentsByCourse(rule.courseId);
+    const assignedUserIds = new Set(courseAssignments.map(a => a.userId));
+    const groupIdsByUser = await this.groupIdsByUser(organisationId);
+
+    const users = orgUsers
+      .filter(user => this.matchesUser(rule, user, groupIdsByUser.get(user.id)))
+      .map(user => ({
+        id: user.id,
+        name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || user.id,
+        email: user.email,
+        department: user.department,
+        jobTitle: user.jobTitle,
+        alreadyAssigned: assignedUserIds.has(user.id),
+        dueDate: this.calculateDueDate(rule, user),
+      }));
+
+    return {
+      matchingUsers: users.length,
+      alreadyAssigned: users.filter(u => u.alreadyAssigned).length,
+      users,
+    };
+  }
+
+  /**
+   * Apply every active rule in the user's organisation to one user.
+   * Called after users are created or their details change.
+   */
+  async applyRulesForUser(user: User): Promise<Assignment[]> {
+    if (!user.organisationId) {
+      return [];
+    }
+
+    const rules = await storage.getActiveAssignmentRules(user.organisationId);
+    if (rules.length === 0) {
+      return [];
+    }
+    const userGroupIds = await storage.getUserGroupIdsForUser(user.id);
+    const created: Assignment[] = [];
+
+    for (const rule of rules) {
+      if (!this.matchesUser(rule, user, userGroupIds)) continue;
+      const assignment = await this.assignIfMissing(rule, user);
+      if (assignment) {
+        created.push(assignment);
+      }
+    }
+
+    if (created.length > 0) {
+      console.log(`${LOG_PREFIX} ${created.length} course(s) auto-assigned to user ${user.id}`);
+    }
+    return created;
+  }
+
+  /**
+   * Apply one rule to every matching user in its organisation.
+   */
+  async applyRule(rule: AssignmentRule): Promise<number> {
+    const orgUsers = await storage.getUsersByOrganisation(rule.organisationId);
+    const groupIdsByUser = rule.groupId ? await this.groupIdsByUser(rule.organisationId) : new Map<string, string[]>();
+    let createdCount = 0;
+
+    for (const user of orgUsers) {
+      if (!this.matchesUser(rule, user, groupIdsByUser.get(user.id))) continue;
+      try {
+        if (await this.assignIfMissing(rule, user)) {
+          createdCount++;
+        }
+      } catch (error) {
+        console.error(`${LOG_PREFIX} Failed to apply rule ${rule.id} to user ${user.id}:`, error);
+      }
+    }
+
+    await storage.updateAssignmentRule(rule.id, { lastRunAt: new Date() });
+    console.log(`${LOG_PREFIX} Rule ${rule.id} (${rule.name}) created ${createdCount} assignment(s)`);
+    return createdCount;
+  }
+
+  /**
+   * Nightly sweep - apply every active rule across all organisations.
+   */
+  async runSweep(): Promise<AssignmentRuleRunResult> {
+    const rules = await storage.getActiveAssignmentRules();
+    const result: AssignmentRuleRunResult = { rulesEvaluated: 0, assignmentsCreated: 0 };
+
+    for (const rule of rules) {
+      try {
+        result.assignmentsCreated += await this.applyRule(rule);
+        result.rulesEvaluated++;
+      } catch (error) {
+        console.error(`${LOG_PREFIX} Sweep failed for rule ${rule.id}:`, error);
+        // Continue with the remaining rules
+      }
+    }
+
+    console.log(`${LOG_PREFIX} Sweep complete: ${result.rulesEvaluated} rule(s), ${result.assignmentsCreated} assignment(s) created`);
+    return result;
+  }
+
+  calculateDueDate(rule: AssignmentRuleCriteria, user: User): Date | null {
+    if (rule.dueDaysAfterStart === null || rule.dueDaysAfterStart === undefined) {
+      return null;
+    }
+    const dueDate = new Date(user.createdAt || Date.now());
+    dueDate.setDate(dueDate.getDate() + rule.dueDaysAfterStart);
+    return dueDate;
+  }
+
+  private async assignIfMissing(rule: AssignmentRule, user: User): Promise<Assignment | null> {
+    const existing = await storage.getExistingAssignment(rule.courseId, user.id);
+    if (existing) {
+      return null;
+    }
+
+    let assignment: Assignment;
+    try {
+      assignment = await storage.createAssignment({
+        courseId: rule.courseId,
+        userId: user.id,
+        organisationId: rule.organisationId,
+        dueDate: this.calculateDueDate(rule, user),
+        status: 'not_started',
+        assignedBy: rule.createdBy,
+        notificationsEnabled: true,
+        assignmentRuleId: rule.id,
+      });
+    } catch (error: any) {
+      // Another request assigned the course in the meantime
+      if (error.code === '23505') {
+        return null;
+      }
+      throw error;
+    }
+
+    await this.notifyAssigned(assignment, user);
+    return assignment;
+  }
+
+  private async notifyAssigned(assignment: Assignment, user: User): Promise<void> {
+    if (!user.email) {
+      return;
+    }
+    try {
+      const [organisation, course] = await Promise.all([
+        storage.getOrganisation(assignment.organisationId),
+        storage.getCourse(assignment.courseId),
+      ]);
+
+      if (organisation && course) {
+        await automatedEmailService.sendCourseAssigned({
+          userName: `${user.firstName} ${user.lastName}`,
+          courseName: course.title,
+          dueDate: assignment.dueDate?.toISOString(),
+          orgName: organisation.displayName || organisation.name,
+          courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment.courseId}`,
+          userEmail: user.email,
+          organisationId: assignment.organisationId,
+          courseId: assignment.courseId,
+          assignmentId: assignment.id,
+        });
+      }
+    } catch (error) {
+      console.warn(`${LOG_PREFIX} Failed to send course assigned email for ${assignment.id}:`, error);
+    }
+  }
+
+  private async groupIdsByUser(organisationId: string): Promise<Map<string, string[]>> {
+    const members = await storage.getUserGroupMembersByOrganisation(organisationId);
+    const groupIdsByUser = new Map<string, string[]>();
+    for (const member of members) {
+      groupIdsByUser.set(member.userId, [...(groupIdsByUser.get(member.userId) || []), member.groupId]);
+    }
+    return groupIdsByUser;
+  }
+
+  private sameText(expected: string, actual: string | null): boolean {
+    return !!actual && expected.trim().toLowerCase() === actual.trim().toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const assignmentRuleService = new AssignmentRuleService();
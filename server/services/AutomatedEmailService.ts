@@ -1,12 +1,15 @@
 /**
  * Automated Email Service
  * 
- * Handles automated email notifications using hardcoded templates.
+ * Handles automated email notifications using hardcoded templates, in each recipient's language.
  * Routes all emails through EmailOrchestrator to maintain idempotency and prevent duplicates.
+ * Assignment and overdue emails for learners on daily/weekly delivery go into their digest instead.
  */
 
 import { EmailOrchestrator } from './EmailOrchestrator';
-import { AutomatedEmailTemplates, type CourseAssignedData, type CourseCompletedData, type DueDatePassedData } from './AutomatedEmailTemplates';
+import type { CourseAssignedData, CourseCompletedData, DueDatePassedData } from './AutomatedEmailTemplates';
+import { emailLocaleService } from './EmailLocaleService';
+import { learnerDigestService } from './LearnerDigestService';
 
 const LOG_PREFIX = '[AutomatedEmail]';
 const emailOrchestrator = new EmailOrchestrator();
@@ -17,16 +20,30 @@ export class AutomatedEmailService {
    * Send course assigned notification to user
    */
   async sendCourseAssigned(data: CourseAssignedData & { userEmail: string; organisationId?: string; courseId: string; assignmentId: string }): Promise<void> {
+    const resourceId = `course-assign:${data.userEmail}:${data.courseId}:${data.assignmentId}`;
+    const collected = await learnerDigestService.collect(data.userEmail, {
+      type: 'course_assigned',
+      resourceId,
+      courseId: data.courseId,
+      courseName: data.courseName,
+      dueDate: data.dueDate,
+      courseUrl: data.courseUrl,
+      organisationId: data.organisationId,
+    });
+    if (collected) {
+      return;
+    }
+
     console.log(`${LOG_PREFIX} Queueing course assigned email to ${data.userEmail}`);
     
-    const template = AutomatedEmailTemplates.courseAssigned(data);
+    const template = await emailLocaleService.renderForRecipient('courseAssigned', data, data.userEmail);
     
     await emailOrchestrator.queue({
       triggerEvent: 'COURSE_ASSIGNED',
       toEmail: data.userEmail,
       context: {},
       organisationId: data.organisationId,
-      resourceId: `course-assign:${data.userEmail}:${data.courseId}:${data.assignmentId}`,
+      resourceId,
       preRenderedContent: {
         subject: template.subject,
         htmlBody: template.html,
@@ -42,7 +59,7 @@ export class AutomatedEmailService {
   async sendUserCourseCompleted(data: CourseCompletedData & { organisationId?: string; courseId: string; completionId: string }): Promise<void> {
     console.log(`${LOG_PREFIX} Queueing course ${data.status.toLowerCase()} email to ${data.userEmail}`);
     
-    const template = AutomatedEmailTemplates.userCourseCompleted(data);
+    const template = await emailLocaleService.renderForRecipient('userCourseCompleted', data, data.userEmail);
     const triggerEvent = data.status === 'PASS' ? 'COURSE_COMPLETED' : 'COURSE_FAILED';
     
     await emailOrchestrator.queue({
@@ -64,16 +81,30 @@ export class AutomatedEmailService {
    * Send due date passed notification to user
    */
   async sendDueDatePassed(data: DueDatePassedData & { userEmail: string; organisationId?: string; courseId: string; assignmentId: string }): Promise<void> {
+    const resourceId = `due-date-passed:${data.userEmail}:${data.courseId}:${data.assignmentId}`;
+    const collected = await learnerDigestService.collect(data.userEmail, {
+      type: 'due_date_passed',
+      resourceId,
+      courseId: data.courseId,
+      courseName: data.courseName,
+      dueDate: data.dueDate,
+      courseUrl: data.courseUrl,
+      organisationId: data.organisationId,
+    });
+    if (collected) {
+      return;
+    }
+
     console.log(`${LOG_PREFIX} Queueing due date passed email to ${data.userEmail}`);
     
-    const template = AutomatedEmailTemplates.dueDatePassed(data);
+    const template = await emailLocaleService.renderForRecipient('dueDatePassed', data, data.userEmail);
     
     await emailOrchestrator.queue({
       triggerEvent: 'COURSE_ASSIGNED', // Reuse COURSE_ASSIGNED trigger for due date notifications
       toEmail: data.userEmail,
       context: {},
       organisationId: data.organisationId,
-      resourceId: `due-date-passed:${data.userEmail}:${data.courseId}:${data.assignmentId}`,
+      resourceId,
       preRenderedContent: {
         subject: template.subject,
         htmlBody: template.html,
@@ -89,7 +120,7 @@ export class AutomatedEmailService {
   async sendAdminCandidateCompleted(data: CourseCompletedData & { adminEmail: string; organisationId?: string; courseId: string; completionId: string }): Promise<void> {
     console.log(`${LOG_PREFIX} Queueing candidate completion notification to admin ${data.adminEmail}`);
     
-    const template = AutomatedEmailTemplates.adminCandidateCompleted(data);
+    const template = await emailLocaleService.renderForRecipient('adminCandidateCompleted', data, data.adminEmail);
     const triggerEvent = data.status === 'PASS' ? 'COURSE_COMPLETED' : 'COURSE_FAILED';
     
     await emailOrchestrator.queue({
@@ -121,7 +152,7 @@ export class AutomatedEmailService {
   }): Promise<void> {
     console.log(`${LOG_PREFIX} Queueing new user notification to admin ${data.adminEmail}`);
     
-    const template = AutomatedEmailTemplates.adminNewUserAdded(data);
+    const template = await emailLocaleService.renderForRecipient('adminNewUserAdded', data, data.adminEmail);
     
     await emailOrchestrator.queue({
       triggerEvent: 'USER_FAST_ADD',
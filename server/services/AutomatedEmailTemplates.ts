@@ -787,4 +787,308 @@ export class AutomatedEmailTemplates {
       text: `${adminName ? `Hi ${adminName},` : 'Hi,'}\n\nYour organization's subscription has been ${changeType}.\n\n${previousPlan ? `Previous Plan: ${previousPlan}\n` : ''}New Plan: ${planName}\nEffective: ${effectiveDate}\nUpdated by: ${updatedBy}\n\n${orgName}`
     };
   }
+
+  /**
+   * ADMIN: Scheduled Report Delivery
+   */
+  static scheduledReport(data: {
+    reportName: string;
+    reportTitle: string;
+    orgName: string;
+    generatedAt: string;
+    rowCount: number;
+    filename: string;
+  }): EmailTemplateData {
+    const { reportName, reportTitle, orgName, generatedAt, rowCount, filename } = data;
+    
+    const mjml = `
+      <mjml>
+        <mj-head>
+          <mj-attributes>
+            <mj-all font-family="Arial, sans-serif" />
+            <mj-text color="#333333" line-height="1.6" />
+          </mj-attributes>
+        </mj-head>
+        <mj-body background-color="#f4f4f4">
+          <mj-section background-color="#ffffff" padding="40px 20px">
+            <mj-column>
+              <mj-text font-size="24px" font-weight="bold" color="#2563eb" align="center">
+                ${reportName}
+              </mj-text>
+              
+              <mj-divider border-color="#e5e7eb" padding="20px 0" />
+              
+              <mj-text font-size="16px">
+                Hi,
+              </mj-text>
+              
+              <mj-text font-size="16px">
+                Your scheduled ${reportTitle} report is attached as <strong>${filename}</strong>.
+              </mj-text>
+              
+              <mj-text font-size="14px" color="#6b7280">
+                Generated: ${generatedAt}<br />
+                Rows: ${rowCount}
+              </mj-text>
+              
+              <mj-text font-size="14px" color="#6b7280" padding-top="20px">
+                ${orgName}
+              </mj-text>
+            </mj-column>
+          </mj-section>
+        </mj-body>
+      </mjml>
+    `;
+    
+    const { html } = mjml2html(mjml);
+    
+    return {
+      subject: `${reportName} - ${generatedAt}`,
+      html,
+      text: `Hi,\n\nYour scheduled ${reportTitle} report is attached as ${filename}.\n\nGenerated: ${generatedAt}\nRows: ${rowCount}\n\n${orgName}`
+    };
+  }
+
+  /**
+   * MANAGER: Weekly team training digest
+   */
+  static managerDigest(data: {
+    managerName: string;
+    orgName: string;
+    teamSize: number;
+    items: { staffName: string; courseTitle: string; status: string; date: string | null }[];
+    teamUrl: string;
+  }): EmailTemplateData {
+    const { managerName, orgName, teamSize, items, teamUrl } = data;
+    
+    const rows = items.map(item => `
+                <tr style="border-bottom:1px solid #e5e7eb;">
+                  <td style="padding:6px 0;">${item.staffName}</td>
+                  <td style="padding:6px 0;">${item.courseTitle}</td>
+                  <td style="padding:6px 0;">${item.status}</td>
+                  <td style="padding:6px 0;">${item.date || '-'}</td>
+                </tr>`).join('');
+    
+    const mjml = `
+      <mjml>
+        <mj-head>
+          <mj-attributes>
+            <mj-all font-family="Arial, sans-serif" />
+            <mj-text color="#333333" line-height="1.6" />
+          </mj-attributes>
+        </mj-head>
+        <mj-body background-color="#f4f4f4">
+          <mj-section background-color="#ffffff" padding="40px 20px">
+            <mj-column>
+              <mj-text font-size="24px" font-weight="bold" color="#2563eb" align="center">
+                Your Team's Training
+              </mj-text>
+              
+              <mj-divider border-color="#e5e7eb" padding="20px 0" />
+              
+              <mj-text font-size="16px">
+                Hi ${managerName},
+              </mj-text>
+              
+              <mj-text font-size="16px">
+                ${items.length} training item${items.length === 1 ? ' needs' : 's need'} attention across your team of ${teamSize}.
+              </mj-text>
+              
+              <mj-table font-size="13px">
+                <tr style="border-bottom:2px solid #e5e7eb;text-align:left;">
+                  <th style="padding:6px 0;">Staff</th>
+                  <th style="padding:6px 0;">Course</th>
+                  <th style="padding:6px 0;">Status</th>
+                  <th style="padding:6px 0;">Date</th>
+                </tr>${rows}
+              </mj-table>
+              
+              <mj-button background-color="#2563eb" color="#ffffff" href="${teamUrl}" padding="20px 0">
+                View My Team
+              </mj-button>
+              
+              <mj-text font-size="14px" color="#6b7280" padding-top="20px">
+                ${orgName}
+              </mj-text>
+            </mj-column>
+          </mj-section>
+        </mj-body>
+      </mjml>
+    `;
+    
+    const { html } = mjml2html(mjml);
+    
+    return {
+      subject: `Team training: ${items.length} item${items.length === 1 ? '' : 's'} need${items.length === 1 ? 's' : ''} attention`,
+      html,
+      text: `Hi ${managerName},\n\n${items.length} training item(s) need attention across your team of ${teamSize}:\n\n${items.map(item => `- ${item.staffName}: ${item.courseTitle} - ${item.status}${item.date ? ` (${item.date})` : ''}`).join('\n')}\n\nView your team: ${teamUrl}\n\n${orgName}`
+    };
+  }
+
+  /**
+   * USER: Digest of course assignments and overdue courses held back for daily/weekly delivery
+   */
+  static learnerDigest(data: {
+    userName: string;
+    orgName: string;
+    frequency: 'daily' | 'weekly';
+    items: { type: 'course_assigned' | 'due_date_passed'; courseName: string; dueDate: string | null; courseUrl: string | null }[];
+    coursesUrl: string;
+  }): EmailTemplateData {
+    const { userName, orgName, frequency, items, coursesUrl } = data;
+    
+    const assigned = items.filter(item => item.type === 'course_assigned');
+    const overdue = items.filter(item => item.type === 'due_date_passed');
+    const list = (sectionItems: typeof items) => sectionItems.map(item => `
+                <tr style="border-bottom:1px solid #e5e7eb;">
+                  <td style="padding:6px 0;">${item.courseUrl ? `<a href="${item.courseUrl}" style="color:#2563eb;">${item.courseName}</a>` : item.courseName}</td>
+                  <td style="padding:6px 0;">${item.dueDate || '-'}</td>
+                </tr>`).join('');
+    const section = (heading: string, color: string, sectionItems: typeof items) => sectionItems.length === 0 ? '' : `
+              <mj-text font-size="18px" font-weight="bold" color="${color}" padding-top="20px">
+                ${heading}
+              </mj-text>
+              
+              <mj-table font-size="14px">
+                <tr style="border-bottom:2px solid #e5e7eb;text-align:left;">
+                  <th style="padding:6px 0;">Course</th>
+                  <th style="padding:6px 0;">Due</th>
+                </tr>${list(sectionItems)}
+              </mj-table>`;
+    
+    const mjml = `
+      <mjml>
+        <mj-head>
+          <mj-attributes>
+            <mj-all font-family="Arial, sans-serif" />
+            <mj-text color="#333333" line-height="1.6" />
+          </mj-attributes>
+        </mj-head>
+        <mj-body background-color="#f4f4f4">
+          <mj-section background-color="#ffffff" padding="40px 20px">
+            <mj-column>
+              <mj-text font-size="24px" font-weight="bold" color="#2563eb" align="center">
+                Your ${frequency === 'daily' ? 'Daily' : 'Weekly'} Training Update
+              </mj-text>
+              
+              <mj-divider border-color="#e5e7eb" padding="20px 0" />
+              
+              <mj-text font-size="16px">
+                Hi ${userName},
+              </mj-text>
+              
+              <mj-text font-size="16px">
+                Here is what has changed in your training since your last update.
+              </mj-text>
+              ${section(`New courses (${assigned.length})`, '#2563eb', assigned)}
+              ${section(`Overdue courses (${overdue.length})`, '#dc2626', overdue)}
+              
+              <mj-button background-color="#2563eb" color="#ffffff" href="${coursesUrl}" padding="20px 0">
+                View My Courses
+              </mj-button>
+              
+              <mj-text font-size="14px" color="#6b7280" padding-top="20px">
+                ${orgName}
+              </mj-text>
+            </mj-column>
+          </mj-section>
+        </mj-body>
+      </mjml>
+    `;
+    
+    const { html } = mjml2html(mjml);
+    const textSection = (heading: string, sectionItems: typeof items) => sectionItems.length === 0 ? '' :
+      `${heading}:\n${sectionItems.map(item => `- ${item.courseName}${item.dueDate ? ` (due ${item.dueDate})` : ''}`).join('\n')}\n\n`;
+    
+    return {
+      subject: `Your ${frequency} training update: ${items.length} item${items.length === 1 ? '' : 's'}`,
+      html,
+      text: `Hi ${userName},\n\nHere is what has changed in your training since your last update.\n\n${textSection('New courses', assigned)}${textSection('Overdue courses', overdue)}View your courses: ${coursesUrl}\n\n${orgName}`
+    };
+  }
+
+  static classroomBooking(data: {
+    userName: string;
+    orgName: string;
+    status: 'booked' | 'waitlisted' | 'cancelled' | 'session_cancelled';
+    sessionTitle: string;
+    courseTitle: string;
+    when: string;
+    location: string;
+    bookingsUrl: string;
+  }): EmailTemplateData {
+    const { userName, orgName, status, sessionTitle, courseTitle, when, location, bookingsUrl } = data;
+    
+    const headings = {
+      booked: 'Your Place Is Booked',
+      waitlisted: "You're on the Waiting List",
+      cancelled: 'Booking Cancelled',
+      session_cancelled: 'Session Cancelled',
+    };
+    const messages = {
+      booked: 'Your place is confirmed. The attached calendar invite adds the session to your calendar.',
+      waitlisted: 'The session is full, so you have been added to the waiting list. We will email you with a calendar invite if a place comes up.',
+      cancelled: 'Your booking has been cancelled. The attached file removes the session from your calendar.',
+      session_cancelled: 'This session has been cancelled by the organiser. The attached file removes it from your calendar.',
+    };
+    const subjects = {
+      booked: `Booking confirmed: ${sessionTitle}`,
+      waitlisted: `Waiting list: ${sessionTitle}`,
+      cancelled: `Booking cancelled: ${sessionTitle}`,
+      session_cancelled: `Session cancelled: ${sessionTitle}`,
+    };
+    
+    const mjml = `
+      <mjml>
+        <mj-head>
+          <mj-attributes>
+            <mj-all font-family="Arial, sans-serif" />
+            <mj-text color="#333333" line-height="1.6" />
+          </mj-attributes>
+        </mj-head>
+        <mj-body background-color="#f4f4f4">
+          <mj-section background-color="#ffffff" padding="40px 20px">
+            <mj-column>
+              <mj-text font-size="24px" font-weight="bold" color="#2563eb" align="center">
+                ${headings[status]}
+              </mj-text>
+              
+              <mj-divider border-color="#e5e7eb" padding="20px 0" />
+              
+              <mj-text font-size="16px">
+                Hi ${userName},
+              </mj-text>
+              
+              <mj-text font-size="16px">
+                ${messages[status]}
+              </mj-text>
+              
+              <mj-table font-size="14px">
+                <tr><td style="padding:4px 0;font-weight:bold;">Session</td><td style="padding:4px 0;">${sessionTitle}</td></tr>
+                <tr><td style="padding:4px 0;font-weight:bold;">Course</td><td style="padding:4px 0;">${courseTitle}</td></tr>
+                <tr><td style="padding:4px 0;font-weight:bold;">When</td><td style="padding:4px 0;">${when}</td></tr>
+                <tr><td style="padding:4px 0;font-weight:bold;">Where</td><td style="padding:4px 0;">${location}</td></tr>
+              </mj-table>
+              
+              <mj-button background-color="#2563eb" color="#ffffff" href="${bookingsUrl}" padding="20px 0">
+                View My Sessions
+              </mj-button>
+              
+              <mj-text font-size="14px" color="#6b7280" padding-top="20px">
+                ${orgName}
+              </mj-text>
+            </mj-column>
+          </mj-section>
+        </mj-body>
+      </mjml>
+    `;
+    
+    const { html } = mjml2html(mjml);
+    
+    return {
+      subject: subjects[status],
+      html,
+      text: `Hi ${userName},\n\n${messages[status]}\n\nSession: ${sessionTitle}\nCourse: ${courseTitle}\nWhen: ${when}\nWhere: ${location}\n\nView your sessions: ${bookingsUrl}\n\n${orgName}`
+    };
+  }
 }
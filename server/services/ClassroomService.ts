@@ -0,0 +1,295 @@
+/**
+ * Classroom Service
+ *
+ * Instructor-led and virtual classroom sessions. Learners book (or are booked onto) a session
+ * until it is full, after which they join a first come, first served waiting list that moves up
+ * whenever a place frees. Booking emails carry a calendar invite. When the trainer marks someone
+ * as attended the session's course is completed for them exactly as a SCORM pass would be - a
+ * completion, a certificate and a green cell in the training matrix.
+ */
+
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import { emailLocaleService } from './EmailLocaleService';
+import { courseCompletionService } from './CourseCompletionService';
+import { calendarAttachment, type CalendarEvent } from '../classroom/ics';
+import type { ClassroomBooking, ClassroomSession, Course, Organisation, User } from '@shared/schema';
+
+const LOG_PREFIX = '[Classroom]';
+
+const DEFAULT_ORGANIZER_EMAIL = 'no-reply@intellms.com';
+
+// Booking statuses that hold a place on the session
+const PLACE_HOLDING_STATUSES: ClassroomBooking['status'][] = ['booked', 'attended', 'no_show'];
+
+type BookingEmailStatus = 'booked' | 'waitlisted' | 'cancelled' | 'session_cancelled';
+
+export class ClassroomBookingError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ClassroomBookingError';
+  }
+}
+
+export interface SessionPlaces {
+  capacity: number;
+  booked: number;
+  waitlisted: number;
+  available: number;
+}
+
+export class ClassroomService {
+
+  getPlaces(session: Pick<ClassroomSession, 'capacity'>, bookings: ClassroomBooking[]): SessionPlaces {
+    const booked = bookings.filter(b => PLACE_HOLDING_STATUSES.includes(b.status)).length;
+    return {
+      capacity: session.capacity,
+      booked,
+      waitlisted: bookings.filter(b => b.status === 'waitlisted').length,
+      available: Math.max(session.capacity - booked, 0),
+    };
+  }
+
+  /**
+   * Book a learner onto a session, or onto its waiting list when it is full.
+   * A learner who cancelled earlier can book again.
+   */
+  async book(session: ClassroomSession, learner: User, bookedBy: User): Promise<ClassroomBooking> {
+    if (session.cancelledAt) {
+      throw new ClassroomBookingError(400, 'This session has been cancelled');
+    }
+    if (new Date(session.startsAt) <= new Date()) {
+      throw new ClassroomBookingError(400, 'This session has already started');
+    }
+    if (learner.organisationId !== session.organisationId) {
+      throw new ClassroomBookingError(400, 'User not found in this organisation');
+    }
+
+    // Places are counted against the locked session row, so the last place is only taken once
+    const result = await storage.bookClassroomPlace(
+      session.id,
+      { userId: learner.id, organisationId: session.organisationId, bookedBy: bookedBy.id },
+      (locked, bookings) => {
+        if (locked.cancelledAt) {
+          throw new ClassroomBookingError(400, 'This session has been cancelled');
+        }
+        return this.getPlaces(locked, bookings).available > 0 ? 'booked' : 'waitlisted';
+      }
+    );
+    if (!result) {
+      throw new ClassroomBookingError(404, 'Session not found');
+    }
+    const { booking, alreadyBooked } = result;
+    if (alreadyBooked) {
+      throw new ClassroomBookingError(409, booking.status === 'waitlisted'
+        ? 'Already on the waiting list for this session'
+        : 'Already booked onto this session');
+    }
+
+    const status = booking.status as 'booked' | 'waitlisted';
+    console.log(`${LOG_PREFIX} User ${learner.id} ${status} on session ${session.id}`);
+    await this.sendBookingEmail(session, booking, status);
+    return booking;
+  }
+
+  /**
+   * Cancel a booking or waiting list place. A freed place goes to the next person waiting.
+   */
+  async cancelBooking(session: ClassroomSession, booking: ClassroomBooking): Promise<ClassroomBooking> {
+    if (booking.status !== 'booked' && booking.status !== 'waitlisted') {
+      throw new ClassroomBookingError(400, 'Only upcoming bookings can be cancelled');
+    }
+
+    const cancelled = await storage.updateClassroomBooking(booking.id, {
+      status: 'cancelled',
+      cancelledAt: new Date(),
+    });
+
+    // Only a confirmed place was ever in the learner's calendar
+    if (booking.status === 'booked') {
+      await this.sendBookingEmail(session, cancelled, 'cancelled');
+      await this.promoteFromWaitlist(session);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Give free places to the waiting list in booking order. Returns the bookings promoted.
+   */
+  async promoteFromWaitlist(session: ClassroomSession): Promise<ClassroomBooking[]> {
+    if (session.cancelledAt || new Date(session.startsAt) <= new Date()) {
+      return [];
+    }
+
+    const promoted = await storage.promoteClassroomWaitlist(session.id, (locked, bookings) => this.getPlaces(locked, bookings).available);
+    for (const booking of promoted) {
+      console.log(`${LOG_PREFIX} User ${booking.userId} promoted from the waiting list on session ${session.id}`);
+      await this.sendBookingEmail(session, booking, 'booked');
+    }
+    return promoted;
+  }
+
+  /**
+   * Send confirmed learners a fresh invite after the time or place of a session changes
+   */
+  async resendInvites(session: ClassroomSession): Promise<void> {
+    const bookings = await storage.getClassroomBookingsBySession(session.id);
+    for (const booking of bookings.filter(b => b.status === 'booked')) {
+      await this.sendBookingEmail(session, booking, 'booked');
+    }
+  }
+
+  /**
+   * Cancel the whole session. Everyone booked or waiting is told; the bookings are kept for the record.
+   */
+  async cancelSession(session: ClassroomSession): Promise<ClassroomSession> {
+    const cancelled = await storage.updateClassroomSession(session.id, { cancelledAt: new Date() });
+    const bookings = await storage.getClassroomBookingsBySession(session.id);
+
+    for (const booking of bookings.filter(b => b.status === 'booked' || b.status === 'waitlisted')) {
+      const updated = await storage.updateClassroomBooking(booking.id, {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+      });
+      await this.sendBookingEmail(cancelled, updated, 'session_cancelled');
+    }
+
+    console.log(`${LOG_PREFIX} Session ${session.id} cancelled`);
+    return cancelled;
+  }
+
+  /**
+   * Record whether a booked learner turned up. Attending completes the session's course for them.
+   */
+  async markAttendance(session: ClassroomSession, booking: ClassroomBooking, attended: boolean, markedBy: User): Promise<ClassroomBooking> {
+    if (session.cancelledAt) {
+      throw new ClassroomBookingError(400, 'This session has been cancelled');
+    }
+    if (new Date(session.startsAt) > new Date()) {
+      throw new ClassroomBookingError(400, 'Attendance can be marked once the session has started');
+    }
+    if (!PLACE_HOLDING_STATUSES.includes(booking.status)) {
+      throw new ClassroomBookingError(400, 'Only learners with a confirmed place can be marked');
+    }
+
+    // A completion and certificate have been issued - that cannot be taken back from here
+    if (booking.completionId) {
+      if (!attended) {
+        throw new ClassroomBookingError(409, 'Attendance has already been recorded as a completion');
+      }
+      return booking;
+    }
+
+    let completionId: string | null = null;
+    if (attended) {
+      const course = await storage.getCourse(session.courseId);
+      if (!course) {
+        throw new ClassroomBookingError(400, 'The course for this session no longer exists');
+      }
+
+      const assignment = await courseCompletionService.getAssignmentToComplete(session.courseId, booking.userId, session.organisationId, markedBy.id);
+      const completion = await courseCompletionService.recordCompletion({
+        assignment,
+        course,
+        passed: true,
+        score: null,
+        unscored: true,
+        timeSpent: Math.round((new Date(session.endsAt).getTime() - new Date(session.startsAt).getTime()) / 60000),
+        runtimeData: { classroomSessionId: session.id, classroomBookingId: booking.id },
+      });
+      completionId = completion?.id || null;
+    }
+
+    console.log(`${LOG_PREFIX} User ${booking.userId} marked ${attended ? 'attended' : 'no show'} on session ${session.id}`);
+    return await storage.updateClassroomBooking(booking.id, {
+      status: attended ? 'attended' : 'no_show',
+      attendanceMarkedBy: markedBy.id,
+      attendanceMarkedAt: new Date(),
+      completionId,
+    });
+  }
+
+  private async sendBookingEmail(session: ClassroomSession, booking: ClassroomBooking, status: BookingEmailStatus): Promise<void> {
+    try {
+      const [learner, organisation, course, trainer] = await Promise.all([
+        storage.getUser(booking.userId),
+        storage.getOrganisation(session.organisationId),
+        storage.getCourse(session.courseId),
+        session.trainerId ? storage.getUser(session.trainerId) : Promise.resolve(undefined),
+      ]);
+      if (!learner?.email || !organisation) {
+        return;
+      }
+
+      const template = emailLocaleService.render('classroomBooking', {
+        userName: learner.firstName || 'there',
+        orgName: organisation.displayName || organisation.name,
+        status,
+        sessionTitle: session.title,
+        courseTitle: course?.title || session.title,
+        when: this.describeWhen(session),
+        location: this.describeLocation(session),
+        bookingsUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/user/classroom`,
+      }, learner.preferredLanguage);
+
+      // Waiting list places never reach the learner's calendar
+      const attachments = status === 'waitlisted'
+        ? undefined
+        : [calendarAttachment(this.toCalendarEvent(session, learner, organisation, trainer), status === 'booked' ? 'REQUEST' : 'CANCEL')];
+
+      await emailOrchestrator.queue({
+        triggerEvent: 'CLASSROOM_BOOKING',
+        toEmail: learner.email,
+        context: {},
+        organisationId: session.organisationId,
+        // Resent invites and re-bookings are new emails, so the time is part of the key
+        resourceId: `classroom:${booking.id}:${status}:${Date.now()}`,
+        preRenderedContent: {
+          subject: template.subject,
+          htmlBody: template.html,
+          textBody: template.text,
+        },
+        attachments,
+        priority: 1,
+      });
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Failed to send ${status} email for booking ${booking.id}:`, error);
+    }
+  }
+
+  private toCalendarEvent(session: ClassroomSession, learner: User, organisation: Organisation, trainer?: User): CalendarEvent {
+    return {
+      uid: `classroom-${session.id}-${learner.id}@intellms`,
+      title: session.title,
+      description: [session.description, session.meetingUrl ? `Join: ${session.meetingUrl}` : null].filter(Boolean).join('\n\n'),
+      location: session.deliveryMode === 'virtual' ? session.meetingUrl : session.venue,
+      url: session.meetingUrl,
+      startsAt: new Date(session.startsAt),
+      endsAt: new Date(session.endsAt),
+      organizerName: trainer ? `${trainer.firstName || ''} ${trainer.lastName || ''}`.trim() || organisation.name : organisation.displayName || organisation.name,
+      organizerEmail: trainer?.email || organisation.contactEmail || DEFAULT_ORGANIZER_EMAIL,
+      attendeeName: `${learner.firstName || ''} ${learner.lastName || ''}`.trim() || learner.email!,
+      attendeeEmail: learner.email!,
+      // Calendars replace their copy of the event when the sequence goes up
+      sequence: Math.floor(new Date(session.updatedAt || session.createdAt || Date.now()).getTime() / 1000),
+    };
+  }
+
+  private describeWhen(session: ClassroomSession): string {
+    const start = new Date(session.startsAt);
+    const end = new Date(session.endsAt);
+    const day = start.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Europe/London' });
+    const time = (date: Date) => date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' });
+    return `${day}, ${time(start)} - ${time(end)} (UK time)`;
+  }
+
+  private describeLocation(session: ClassroomSession): string {
+    if (session.deliveryMode === 'virtual') {
+      return session.meetingUrl ? `Online - ${session.meetingUrl}` : 'Online';
+    }
+    return session.venue || 'To be confirmed';
+  }
+}
+
+// Export singleton instance
+export const classroomService = new ClassroomService();
@@ -0,0 +1,196 @@
+/**
+ * Compliance Service
+ *
+ * Measures an organisation against its mandatory course designations: every active learner in
+ * a designation's scope must hold an in-date pass for the course. Compliance is the share of those
+ * required (learner, course) pairs that are in date, reported overall, per department, per course
+ * and per designation against the target percentages the organisation has set.
+ */
+
+import { storage } from '../storage';
+import { externalTrainingService } from './ExternalTrainingService';
+import type { Completion, Course, MandatoryCourse, User } from '@shared/schema';
+
+export const NO_DEPARTMENT_LABEL = 'No department';
+
+export interface ComplianceFigures {
+  required: number;
+  inDate: number;
+  percent: number | null; // null when nothing is required
+  targetPercent: number | null;
+  meetsTarget: boolean;
+}
+
+export interface DepartmentCompliance extends ComplianceFigures {
+  department: string;
+}
+
+export interface CourseCompliance extends ComplianceFigures {
+  courseId: string;
+  courseTitle: string;
+}
+
+export interface DesignationCompliance extends ComplianceFigures {
+  mandatoryCourseId: string;
+  courseId: string;
+  courseTitle: string;
+}
+
+export interface OrganisationCompliance {
+  overall: ComplianceFigures;
+  byDepartment: DepartmentCompliance[];
+  byCourse: CourseCompliance[];
+  byDesignation: DesignationCompliance[];
+}
+
+interface Tally {
+  required: number;
+  inDate: number;
+  targetPercent: number | null;
+}
+
+export class ComplianceService {
+
+  /**
+   * Whether a learner falls under a designation. Text scopes are case-insensitive; empty scopes match anyone.
+   */
+  appliesTo(designation: Pick<MandatoryCourse, 'department' | 'jobTitle'>, user: User): boolean {
+    if (user.role !== 'user' || user.status !== 'active') {
+      return false;
+    }
+    if (designation.department && !this.sameText(designation.department, user.department)) {
+      return false;
+    }
+    if (designation.jobTitle && !this.sameText(designation.jobTitle, user.jobTitle)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * A course is in date when the learner's latest pass has not passed its certificate expiry.
+   * `expiryOverrides` holds expiry dates set by the completion itself (external certificates) by completion ID.
+   */
+  isInDate(course: Pick<Course, 'certificateExpiryPeriod'>, passes: Completion[], now: Date = new Date(), expiryOverrides?: Map<string, Date>): boolean {
+    const latestPass = passes.reduce<Completion | null>((latest, completion) =>
+      !latest || new Date(completion.completedAt!) > new Date(latest.completedAt!) ? completion : latest
+    , null);
+    if (!latestPass) {
+      return false;
+    }
+    const overrideDate = expiryOverrides?.get(latestPass.id);
+    if (overrideDate) {
+      return overrideDate >= now;
+    }
+    if (!course.certificateExpiryPeriod) {
+      return true;
+    }
+    const expiryDate = new Date(latestPass.completedAt!);
+    expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
+    return expiryDate >= now;
+  }
+
+  /**
+   * Course IDs the organisation has designated as mandatory for anyone
+   */
+  async getMandatoryCourseIds(organisationId: string): Promise<string[]> {
+    const designations = await storage.getMandatoryCoursesByOrganisation(organisationId);
+    return Array.from(new Set(designations.map(d => d.courseId)));
+  }
+
+  /**
+   * Compliance for an organisation, overall and broken down by department, course and designation
+   */
+  async getOrganisationCompliance(organisationId: string, now: Date = new Date()): Promise<OrganisationCompliance> {
+    const designations = await storage.getMandatoryCoursesByOrganisation(organisationId);
+    if (designations.length === 0) {
+      return { overall: this.toFigures({ required: 0, inDate: 0, targetPercent: null }), byDepartment: [], byCourse: [], byDesignation: [] };
+    }
+
+    const orgUsers = await storage.getUsersByOrganisation(organisationId);
+    const courseIds = Array.from(new Set(designations.map(d => d.courseId)));
+    const courseList = await Promise.all(courseIds.map(courseId => storage.getCourse(courseId)));
+    const coursesById = new Map(courseList.filter((c): c is Course => Boolean(c)).map(c => [c.id, c]));
+
+    // Passes keyed by "userId:courseId"
+    const completions = await storage.getCompletionsByOrganisation(organisationId);
+    const passesByPair = new Map<string, Completion[]>();
+    completions.forEach(completion => {
+      if (completion.status !== 'pass') return;
+      const key = `${completion.userId}:${completion.courseId}`;
+      passesByPair.set(key, [...(passesByPair.get(key) || []), completion]);
+    });
+
+    // Approved external training that carries its own expiry date
+    const expiryOverrides = new Map<string, Date>();
+    (await externalTrainingService.getExternalCompletions(organisationId)).forEach((external, completionId) => {
+      if (external.expiryDate) expiryOverrides.set(completionId, external.expiryDate);
+    });
+
+    const overall: Tally = { required: 0, inDate: 0, targetPercent: null };
+    const departments = new Map<string, Tally>();
+    const byCourse = new Map<string, Tally>(courseIds.map(courseId => [courseId, { required: 0, inDate: 0, targetPercent: null }]));
+    const byDesignation = new Map<string, Tally>(designations.map(d => [d.id, { required: 0, inDate: 0, targetPercent: d.targetPercent }]));
+
+    orgUsers.forEach(user => {
+      const departmentLabel = user.department?.trim() || NO_DEPARTMENT_LABEL;
+
+      courseIds.forEach(courseId => {
+        const course = coursesById.get(courseId);
+        const applicable = designations.filter(d => d.courseId === courseId && this.appliesTo(d, user));
+        if (!course || applicable.length === 0) return;
+
+        const inDate = this.isInDate(course, passesByPair.get(`${user.id}:${courseId}`) || [], now, expiryOverrides);
+        // A course required by several designations counts once, against the strictest target
+        const targetPercent = Math.max(...applicable.map(d => d.targetPercent));
+
+        const department = departments.get(departmentLabel) || { required: 0, inDate: 0, targetPercent: null };
+        departments.set(departmentLabel, department);
+        [overall, department, byCourse.get(courseId)!].forEach(tally => this.count(tally, inDate, targetPercent));
+        applicable.forEach(d => this.count(byDesignation.get(d.id)!, inDate, d.targetPercent));
+      });
+    });
+
+    return {
+      overall: this.toFigures(overall),
+      byDepartment: Array.from(departments.entries())
+        .map(([department, tally]) => ({ department, ...this.toFigures(tally) }))
+        .sort((a, b) => a.department.localeCompare(b.department)),
+      byCourse: courseIds.map(courseId => ({
+        courseId,
+        courseTitle: coursesById.get(courseId)?.title || 'Unknown course',
+        ...this.toFigures(byCourse.get(courseId)!),
+      })),
+      byDesignation: designations.map(d => ({
+        mandatoryCourseId: d.id,
+        courseId: d.courseId,
+        courseTitle: coursesById.get(d.courseId)?.title || 'Unknown course',
+        ...this.toFigures(byDesignation.get(d.id)!),
+      })),
+    };
+  }
+
+  private count(tally: Tally, inDate: boolean, targetPercent: number): void {
+    tally.required++;
+    if (inDate) tally.inDate++;
+    tally.targetPercent = Math.max(tally.targetPercent ?? 0, targetPercent);
+  }
+
+  private toFigures(tally: Tally): ComplianceFigures {
+    const percent = tally.required > 0 ? Math.round((tally.inDate / tally.required) * 1000) / 10 : null;
+    return {
+      required: tally.required,
+      inDate: tally.inDate,
+      percent,
+      targetPercent: tally.targetPercent,
+      meetsTarget: tally.required === 0 || tally.inDate * 100 >= tally.required * (tally.targetPercent ?? 100),
+    };
+  }
+
+  private sameText(expected: string, actual: string | null): boolean {
+    return !!actual && actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const complianceService = new ComplianceService();
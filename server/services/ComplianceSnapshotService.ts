@@ -0,0 +1,216 @@
+/**
+ * Compliance Snapshot Service
+ *
+ * Live analytics only ever show the current state, so a nightly job records each organisation's
+ * compliance: mandatory training in date (ComplianceService) and assigned / overdue / expired counts
+ * from the training matrix, for the organisation as a whole, each department and each course.
+ * The full matrix is stored alongside so it can be shown exactly as it stood on a past date.
+ */
+
+import { storage } from '../storage';
+import { complianceService, NO_DEPARTMENT_LABEL } from './ComplianceService';
+import { trainingMatrixService } from './TrainingMatrixService';
+import type { ComplianceSnapshot, ComplianceSnapshotMatrix, InsertComplianceSnapshot } from '@shared/schema';
+
+const LOG_PREFIX = '[ComplianceSnapshots]';
+
+export type ComplianceSnapshotScope = 'organisation' | 'department' | 'course';
+
+export interface ComplianceTrendPoint {
+  date: string;
+  required: number;
+  inDate: number;
+  percent: number | null;
+  targetPercent: number | null;
+  assigned: number;
+  overdue: number;
+  expired: number;
+}
+
+export interface ComplianceSnapshotRunResult {
+  organisations: number;
+  failed: number;
+}
+
+interface MatrixCounts {
+  assigned: number;
+  overdue: number;
+  expired: number;
+}
+
+export class ComplianceSnapshotService {
+
+  /**
+   * Calendar date in server time, as stored in snapshotDate
+   */
+  toSnapshotDate(date: Date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Snapshot every active organisation. Failures are logged and the run carries on.
+   */
+  async runNightlySnapshots(now: Date = new Date()): Promise<ComplianceSnapshotRunResult> {
+    const organisations = (await storage.getAllOrganisations()).filter(org => org.status === 'active');
+    const result: ComplianceSnapshotRunResult = { organisations: 0, failed: 0 };
+
+    for (const organisation of organisations) {
+      try {
+        await this.takeSnapshot(organisation.id, now);
+        result.organisations++;
+      } catch (error) {
+        result.failed++;
+        console.error(`${LOG_PREFIX} Failed to snapshot organisation ${organisation.id}:`, error);
+        // Continue with the remaining organisations
+      }
+    }
+
+    console.log(`${LOG_PREFIX} Run complete: ${result.organisations} organisation(s) recorded, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Record today's figures and matrix for one organisation, replacing any earlier snapshot from today
+   */
+  async takeSnapshot(organisationId: string, now: Date = new Date()): Promise<void> {
+    const snapshotDate = this.toSnapshotDate(now);
+    const matrix = await trainingMatrixService.buildMatrix(organisationId);
+    const compliance = await complianceService.getOrganisationCompliance(organisationId, now);
+    const mandatoryCourseIds = compliance.byCourse.map(c => c.courseId);
+
+    // Tally the matrix cells overall, per department and per course
+    const overall: MatrixCounts = { assigned: 0, overdue: 0, expired: 0 };
+    const byDepartment = new Map<string, MatrixCounts>();
+    const byCourse = new Map<string, MatrixCounts>();
+    const tally = (counts: MatrixCounts, cell: any) => {
+      if (!cell || cell.status === 'blank') return;
+      counts.assigned++;
+      if (cell.label === 'Overdue') counts.overdue++;
+      if (cell.label === 'Expired') counts.expired++;
+    };
+
+    matrix.staff.forEach((staffMember, staffIndex) => {
+      const department = staffMember.department?.trim() || NO_DEPARTMENT_LABEL;
+      matrix.courses.forEach((course, courseIndex) => {
+        const cell = matrix.matrix[staffIndex][courseIndex];
+        if (!byDepartment.has(department)) byDepartment.set(department, { assigned: 0, overdue: 0, expired: 0 });
+        if (!byCourse.has(course.id)) byCourse.set(course.id, { assigned: 0, overdue: 0, expired: 0 });
+        [overall, byDepartment.get(department)!, byCourse.get(course.id)!].forEach(counts => tally(counts, cell));
+      });
+    });
+
+    const empty: MatrixCounts = { assigned: 0, overdue: 0, expired: 0 };
+    const toRow = (
+      scope: ComplianceSnapshotScope,
+      figures: { required: number; inDate: number; targetPercent: number | null } | undefined,
+      counts: MatrixCounts = empty,
+      key: { department?: string; courseId?: string } = {}
+    ): InsertComplianceSnapshot => ({
+      organisationId,
+      snapshotDate,
+      scope,
+      department: key.department ?? null,
+      courseId: key.courseId ?? null,
+      requiredCount: figures?.required ?? 0,
+      inDateCount: figures?.inDate ?? 0,
+      targetPercent: figures?.targetPercent ?? null,
+      assignedCount: counts.assigned,
+      overdueCount: counts.overdue,
+      expiredCount: counts.expired,
+    });
+
+    const departments = new Set([...Array.from(byDepartment.keys()), ...compliance.byDepartment.map(d => d.department)]);
+    const courseIds = new Set([...Array.from(byCourse.keys()), ...mandatoryCourseIds]);
+
+    const rows: InsertComplianceSnapshot[] = [
+      toRow('organisation', compliance.overall, overall),
+      ...Array.from(departments).map(department => toRow(
+        'department',
+        compliance.byDepartment.find(d => d.department === department),
+        byDepartment.get(department),
+        { department }
+      )),
+      ...Array.from(courseIds).map(courseId => toRow(
+        'course',
+        compliance.byCourse.find(c => c.courseId === courseId),
+        byCourse.get(courseId),
+        { courseId }
+      )),
+    ];
+
+    await storage.saveComplianceSnapshot(organisationId, snapshotDate, rows, {
+      organisationId,
+      snapshotDate,
+      staff: matrix.staff.map(s => ({
+        id: s.id,
+        firstName: s.firstName,
+        lastName: s.lastName,
+        email: s.email,
+        department: s.department,
+        jobTitle: s.jobTitle,
+      })),
+      courses: matrix.courses.map(c => ({
+        id: c.id,
+        title: c.title,
+        certificateExpiryPeriod: c.certificateExpiryPeriod,
+        mandatory: mandatoryCourseIds.includes(c.id),
+      })),
+      // Only what is shown in the grid - record IDs are left out
+      cells: matrix.matrix.map(row => row.map(cell => ({
+        status: cell.status,
+        label: cell.label,
+        dueDate: cell.dueDate ?? null,
+        completionDate: cell.completionDate ?? null,
+        expiryDate: cell.expiryDate ?? null,
+        score: cell.score ?? null,
+      }))),
+    });
+  }
+
+  /**
+   * Daily trend between two dates (inclusive). Without an organisation the figures are summed across
+   * the platform; a department or course narrows the trend to that slice of an organisation.
+   */
+  async getTrend(
+    organisationId: string | undefined,
+    from: string,
+    to: string,
+    slice: { department?: string; courseId?: string } = {}
+  ): Promise<ComplianceTrendPoint[]> {
+    const scope: ComplianceSnapshotScope = slice.courseId ? 'course' : slice.department ? 'department' : 'organisation';
+    const snapshots = await storage.getComplianceSnapshots({ organisationId, scope, from, to, ...slice });
+
+    const byDate = new Map<string, ComplianceSnapshot[]>();
+    snapshots.forEach(snapshot => {
+      byDate.set(snapshot.snapshotDate, [...(byDate.get(snapshot.snapshotDate) || []), snapshot]);
+    });
+
+    return Array.from(byDate.entries()).map(([date, rows]) => {
+      const required = rows.reduce((sum, row) => sum + row.requiredCount, 0);
+      const inDate = rows.reduce((sum, row) => sum + row.inDateCount, 0);
+      return {
+        date,
+        required,
+        inDate,
+        percent: required > 0 ? Math.round((inDate / required) * 1000) / 10 : null,
+        // Targets are per organisation, so there is no platform-wide target
+        targetPercent: rows.length === 1 ? rows[0].targetPercent : null,
+        assigned: rows.reduce((sum, row) => sum + row.assignedCount, 0),
+        overdue: rows.reduce((sum, row) => sum + row.overdueCount, 0),
+        expired: rows.reduce((sum, row) => sum + row.expiredCount, 0),
+      };
+    });
+  }
+
+  /**
+   * The training matrix as recorded on a date - the latest snapshot taken on or before it
+   */
+  async getMatrixAt(organisationId: string, date: string): Promise<ComplianceSnapshotMatrix | undefined> {
+    return await storage.getComplianceSnapshotMatrix(organisationId, date);
+  }
+}
+
+// Export singleton instance
+export const complianceSnapshotService = new ComplianceSnapshotService();
@@ -0,0 +1,188 @@
+/**
+ * Course Completion Service
+ *
+ * Records a finished course the same way the SCORM completion route does: the assignment is
+ * completed, a completion is created, learning path steps unlock, admins and the learner are
+ * notified and passes get a certificate. Used by runtimes that report outside the SCORM routes
+ * (xAPI and cmi5 statements, native assessments) and by classroom session attendance.
+ */
+
+import { storage } from '../storage';
+import { certificateService } from './certificateService';
+import { emailNotificationService } from './EmailNotificationService';
+import { emailOrchestrator } from './EmailOrchestrator';
+import { learningPathService } from './LearningPathService';
+import type { Assignment, Completion, Course } from '@shared/schema';
+
+const LOG_PREFIX = '[CourseCompletion]';
+
+export interface CourseCompletionInput {
+  assignment: Assignment;
+  course: Course;
+  passed: boolean;
+  score: number | null;
+  timeSpent?: number; // in minutes
+  runtimeData?: Record<string, any>;
+  unscored?: boolean; // training with no score, e.g. attending a classroom session - no score is stored
+}
+
+export class CourseCompletionService {
+
+  /**
+   * The assignment a completion from outside the course player is recorded against: the learner's
+   * open assignment for the course, a new cycle after a previous completion, or a new assignment
+   * when the course was never assigned to them
+   */
+  async getAssignmentToComplete(courseId: string, userId: string, organisationId: string, assignedBy: string): Promise<Assignment> {
+    const current = await storage.getExistingAssignment(courseId, userId);
+    if (current && current.status !== 'completed') {
+      return current;
+    }
+
+    const assignmentData = {
+      courseId,
+      userId,
+      organisationId,
+      status: 'not_started' as const,
+      assignedBy: current?.assignedBy || assignedBy,
+      notificationsEnabled: current?.notificationsEnabled ?? true,
+      recertificationCycle: (current?.recertificationCycle ?? 0) + 1,
+    };
+
+    return current
+      ? await storage.openRecertificationCycle(current.id, assignmentData)
+      : await storage.createAssignment(assignmentData);
+  }
+
+  /**
+   * Record the outcome of an assignment. Returns undefined when the assignment already has a completion.
+   */
+  async recordCompletion(input: CourseCompletionInput): Promise<Completion | undefined> {
+    const { assignment, course, passed, score } = input;
+
+    const existingCompletions = await storage.getCompletionsByAssignment(assignment.id);
+    if (existingCompletions.length > 0) {
+      return undefined;
+    }
+
+    const completion = await storage.createCompletion({
+      assignmentId: assignment.id,
+      userId: assignment.userId,
+      courseId: assignment.courseId,
+      organisationId: assignment.organisationId,
+      score: score !== null ? score.toString() : input.unscored ? null : '0',
+      status: passed ? 'pass' : 'fail',
+      timeSpent: input.timeSpent || 0,
+      scormData: input.runtimeData,
+    });
+
+    await storage.updateAssignment(assignment.id, {
+      status: 'completed',
+      completedAt: new Date(),
+    });
+
+    console.log(`${LOG_PREFIX} Assignment ${assignment.id} completed (${passed ? 'pass' : 'fail'}, score ${score ?? 'n/a'})`);
+
+    // Unlock the next step of any learning path this course belongs to
+    try {
+      await learningPathService.handleCompletion(completion);
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Error updating learning path progress:`, error);
+    }
+
+    await this.notify(completion, assignment, course, passed);
+
+    if (passed) {
+      try {
+        await this.issueCertificate(completion, assignment, course);
+      } catch (error) {
+        console.error(`${LOG_PREFIX} Certificate generation failed for completion ${completion.id}:`, error);
+      }
+    }
+
+    return completion;
+  }
+
+  private async notify(completion: Completion, assignment: Assignment, course: Course, passed: boolean): Promise<void> {
+    // Organisation admins
+    try {
+      if (passed) {
+        await emailNotificationService.notifyLearnerCompletedCourse(assignment.organisationId, assignment.userId, assignment.courseId, completion.id);
+      } else {
+        await emailNotificationService.notifyLearnerFailedCourse(assignment.organisationId, assignment.userId, assignment.courseId, completion.id);
+      }
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Error sending admin completion notification:`, error);
+    }
+
+    // The learner
+    try {
+      const [learner, organisation] = await Promise.all([
+        storage.getUser(assignment.userId),
+        storage.getOrganisation(assignment.organisationId),
+      ]);
+
+      if (learner?.email && organisation) {
+        const templateKey = passed ? 'course_completed' : 'course_failed';
+        await emailOrchestrator.queue({
+          triggerEvent: passed ? 'COURSE_COMPLETED' : 'COURSE_FAILED',
+          templateKey,
+          toEmail: learner.email,
+          context: {
+            user: {
+              name: `${learner.firstName} ${learner.lastName}`,
+              email: learner.email,
+              firstName: learner.firstName || undefined,
+              lastName: learner.lastName || undefined,
+            },
+            course: {
+              title: course.title,
+              description: course.description || undefined,
+            },
+            org: {
+              name: organisation.name,
+            },
+            attempt: {
+              score: completion.score?.toString() || '0',
+              passed,
+            },
+          },
+          organisationId: assignment.organisationId,
+          resourceId: `learner-notification-${completion.id}`,
+          priority: 1,
+        });
+      }
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Error sending learner completion email:`, error);
+    }
+  }
+
+  private async issueCertificate(completion: Completion, assignment: Assignment, course: Course): Promise<void> {
+    const [user, organisation] = await Promise.all([
+      storage.getUser(assignment.userId),
+      storage.getOrganisation(assignment.organisationId),
+    ]);
+
+    if (!user || !organisation) {
+      return;
+    }
+
+    const { certificateUrl, verificationCode } = await certificateService.generateCertificate(completion, user, course, organisation);
+    await storage.createCertificate({
+      completionId: completion.id,
+      userId: assignment.userId,
+      courseId: assignment.courseId,
+      organisationId: assignment.organisationId,
+      certificateUrl,
+      verificationCode,
+      expiryDate: course.certificateExpiryPeriod
+        ? new Date(Date.now() + course.certificateExpiryPeriod * 30 * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    console.log(`${LOG_PREFIX} Certificate issued for completion ${completion.id}`);
+  }
+}
+
+// Export singleton instance
+export const courseCompletionService = new CourseCompletionService();
@@ -0,0 +1,304 @@
+/**
+ * Course Version Service
+ *
+ * A course's content package, manifest and passmark are versioned. Publishing a new package adds
+ * a version instead of overwriting the course; the course's own package fields mirror its current
+ * version so listings keep working. Each assignment cycle is pinned to the version the learner
+ * first launched, so someone mid-attempt keeps the content they started, and completions and
+ * certificates record the version actually completed.
+ *
+ * A new version can require retraining: everyone who passed an earlier version gets a fresh
+ * assignment cycle on the new one. As with recertification, their earlier pass keeps counting
+ * until then.
+ */
+
+import { storage } from '../storage';
+import { automatedEmailService } from './AutomatedEmailService';
+import type { Assignment, Course, CourseVersion, InsertCourseVersion, User } from '@shared/schema';
+
+const LOG_PREFIX = '[CourseVersion]';
+
+// Course fields that belong to a version rather than to the course
+export const VERSIONED_COURSE_FIELDS = ['scormPackageUrl', 'scormVersion', 'launchUrlOverride', 'xapiActivityId', 'passmark'] as const;
+
+export type CourseVersionContent = Pick<CourseVersion, typeof VERSIONED_COURSE_FIELDS[number]>;
+
+export interface PublishCourseVersionInput extends Partial<CourseVersionContent> {
+  changeNotes?: string | null;
+  requireRetraining?: boolean;
+  retrainingDueDate?: Date | null;
+}
+
+export interface PublishCourseVersionResult {
+  version: CourseVersion;
+  learnersReassigned: number;
+}
+
+export class CourseVersionError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'CourseVersionError';
+  }
+}
+
+export class CourseVersionService {
+
+  /**
+   * Directory under public/scos the version's package is extracted to. Version 1 keeps the
+   * course ID so content extracted before versioning is reused.
+   */
+  getContentKey(version: Pick<CourseVersion, 'courseId' | 'versionNumber'>): string {
+    return version.versionNumber === 1 ? version.courseId : `${version.courseId}-v${version.versionNumber}`;
+  }
+
+  /**
+   * The course as a learner pinned to this version sees it
+   */
+  withVersion(course: Course, version: CourseVersion): Course {
+    return {
+      ...course,
+      scormPackageUrl: version.scormPackageUrl,
+      scormVersion: version.scormVersion,
+      launchUrlOverride: version.launchUrlOverride,
+      xapiActivityId: version.xapiActivityId,
+      scormOrganizations: version.scormOrganizations,
+      defaultOrganization: version.defaultOrganization,
+      passmark: version.passmark,
+    };
+  }
+
+  /**
+   * Whether saving these fields would change the course's content and so needs a new version
+   */
+  changesContent(course: Course, changes: Partial<CourseVersionContent>): boolean {
+    return VERSIONED_COURSE_FIELDS.some(field =>
+      changes[field] !== undefined && (changes[field] ?? null) !== (course[field] ?? null)
+    );
+  }
+
+  /**
+   * The course's current version. Courses created before versioning get version 1 from their own fields.
+   */
+  async ensureCurrentVersion(course: Course): Promise<CourseVersion> {
+    if (course.currentVersionId) {
+      const current = await storage.getCourseVersion(course.currentVersionId);
+      if (current) {
+        return current;
+      }
+    }
+
+    const [latest] = await storage.getCourseVersionsByCourse(course.id);
+    if (latest) {
+      await storage.updateCourse(course.id, { currentVersionId: latest.id });
+      return latest;
+    }
+
+    try {
+      const version = await storage.createCourseVersion({
+        courseId: course.id,
+        versionNumber: 1,
+        ...this.pickContent(course),
+        scormOrganizations: course.scormOrganizations as InsertCourseVersion['scormOrganizations'],
+        defaultOrganization: course.defaultOrganization,
+        createdBy: course.createdBy,
+      });
+      await storage.updateCourse(course.id, { currentVersionId: version.id });
+      console.log(`${LOG_PREFIX} Created version 1 for course ${course.id}`);
+      return version;
+    } catch (error) {
+      // Another request created version 1 first
+      const [created] = await storage.getCourseVersionsByCourse(course.id);
+      if (created) {
+        return created;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The course and version an assignment is taken on, pinning the assignment to the current
+   * version the first time it is launched
+   */
+  async getCourseForAssignment(assignment: Assignment): Promise<{ course: Course; version: CourseVersion } | undefined> {
+    const course = await storage.getCourse(assignment.courseId);
+    if (!course) {
+      return undefined;
+    }
+
+    let version = assignment.courseVersionId ? await storage.getCourseVersion(assignment.courseVersionId) : undefined;
+    if (!version) {
+      version = await this.ensureCurrentVersion(course);
+      await storage.updateAssignment(assignment.id, { courseVersionId: version.id });
+    }
+
+    return { course: this.withVersion(course, version), version };
+  }
+
+  /**
+   * Store the manifest read from a version's package. The course mirrors it while the version is current.
+   */
+  async recordManifest(version: CourseVersion, manifest: { scormVersion?: string | null; scormOrganizations?: any; defaultOrganization?: string | null }): Promise<void> {
+    await storage.recordCourseVersionManifest(version.id, {
+      scormVersion: manifest.scormVersion ?? version.scormVersion,
+      scormOrganizations: manifest.scormOrganizations ?? null,
+      defaultOrganization: manifest.defaultOrganization ?? null,
+    });
+
+    const course = await storage.getCourse(version.courseId);
+    if (course?.currentVersionId === version.id) {
+      await storage.updateCourse(course.id, {
+        scormVersion: manifest.scormVersion ?? version.scormVersion,
+        scormOrganizations: manifest.scormOrganizations ?? null,
+        defaultOrganization: manifest.defaultOrganization ?? null,
+      });
+    }
+  }
+
+  /**
+   * Publish a new version of a course. Fields not given are carried over from the current version.
+   */
+  async publishVersion(course: Course, input: PublishCourseVersionInput, publishedBy: User): Promise<PublishCourseVersionResult> {
+    const current = await this.ensureCurrentVersion(course);
+    const content = this.pickContent(current);
+    VERSIONED_COURSE_FIELDS.forEach(field => this.copyField(content, input, field));
+
+    if (!content.scormPackageUrl && !content.launchUrlOverride && content.scormVersion !== 'assessment') {
+      throw new CourseVersionError(400, 'A new version needs a content package');
+    }
+    if (content.passmark !== null && (content.passmark < 0 || content.passmark > 100)) {
+      throw new CourseVersionError(400, 'The passmark must be between 0 and 100');
+    }
+
+    const [latest] = await storage.getCourseVersionsByCourse(course.id);
+    const version = await storage.createCourseVersion({
+      courseId: course.id,
+      versionNumber: (latest?.versionNumber ?? 0) + 1,
+      ...content,
+      changeNotes: input.changeNotes || null,
+      requiresRetraining: !!input.requireRetraining,
+      createdBy: publishedBy.id,
+    });
+
+    await storage.updateCourse(course.id, {
+      ...content,
+      scormOrganizations: null,
+      defaultOrganization: null,
+      currentVersionId: version.id,
+    });
+    console.log(`${LOG_PREFIX} Published version ${version.versionNumber} of course ${course.id}`);
+
+    await this.readManifest(version);
+
+    const learnersReassigned = input.requireRetraining
+      ? await this.reassignCompleters(course, version, input.retrainingDueDate || null)
+      : 0;
+
+    return { version, learnersReassigned };
+  }
+
+  private copyField<K extends keyof CourseVersionContent>(target: CourseVersionContent, source: Partial<CourseVersionContent>, field: K): void {
+    const value = source[field];
+    if (value !== undefined) {
+      target[field] = value;
+    }
+  }
+
+  private pickContent(source: CourseVersionContent): CourseVersionContent {
+    return {
+      scormPackageUrl: source.scormPackageUrl,
+      scormVersion: source.scormVersion,
+      launchUrlOverride: source.launchUrlOverride,
+      xapiActivityId: source.xapiActivityId,
+      passmark: source.passmark,
+    };
+  }
+
+  /**
+   * Read a new SCORM package's manifest now rather than on the first learner's launch.
+   * Failures are left for the launch route to retry and report.
+   */
+  private async readManifest(version: CourseVersion): Promise<void> {
+    if (!version.scormPackageUrl || version.launchUrlOverride || version.scormVersion === 'xapi' || version.scormVersion === 'cmi5') {
+      return;
+    }
+    try {
+      const { EnhancedScormService } = await import('./enhancedScormService');
+      const packageInfo = await new EnhancedScormService().processScormPackage(version.scormPackageUrl, this.getContentKey(version));
+      await this.recordManifest(version, {
+        scormVersion: packageInfo.version,
+        scormOrganizations: packageInfo.organizations,
+        defaultOrganization: packageInfo.defaultOrganization,
+      });
+    } catch (error) {
+      console.warn(`${LOG_PREFIX} Could not read the package for version ${version.id}:`, error);
+    }
+  }
+
+  /**
+   * Open a new cycle on the new version for every learner whose current cycle ended in a pass
+   */
+  private async reassignCompleters(course: Course, version: CourseVersion, dueDate: Date | null): Promise<number> {
+    const assignments = await storage.getAssignmentsByCourse(course.id);
+    let reassigned = 0;
+
+    for (const assignment of assignments.filter(a => a.status === 'completed')) {
+      try {
+        const completions = await storage.getCompletionsByAssignment(assignment.id);
+        if (!completions.some(c => c.status === 'pass')) {
+          continue;
+        }
+
+        const next = await storage.openRecertificationCycle(assignment.id, {
+          courseId: course.id,
+          userId: assignment.userId,
+          organisationId: assignment.organisationId,
+          dueDate,
+          status: 'not_started',
+          assignedBy: assignment.assignedBy,
+          notificationsEnabled: assignment.notificationsEnabled ?? true,
+          recertificationCycle: assignment.recertificationCycle + 1,
+          courseVersionId: version.id,
+        });
+        reassigned++;
+        await this.notifyRetraining(next, course);
+      } catch (error) {
+        console.error(`${LOG_PREFIX} Failed to reassign ${assignment.id} for version ${version.id}:`, error);
+        // Continue with the remaining learners
+      }
+    }
+
+    console.log(`${LOG_PREFIX} ${reassigned} learner(s) reassigned course ${course.id} for version ${version.versionNumber}`);
+    return reassigned;
+  }
+
+  private async notifyRetraining(assignment: Assignment, course: Course): Promise<void> {
+    if (!assignment.notificationsEnabled) {
+      return;
+    }
+    try {
+      const [organisation, learner] = await Promise.all([
+        storage.getOrganisation(assignment.organisationId),
+        storage.getUser(assignment.userId),
+      ]);
+
+      if (organisation && learner?.email) {
+        await automatedEmailService.sendCourseAssigned({
+          userName: `${learner.firstName} ${learner.lastName}`,
+          courseName: course.title,
+          dueDate: assignment.dueDate?.toISOString(),
+          orgName: organisation.displayName || organisation.name,
+          courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment.courseId}`,
+          userEmail: learner.email,
+          organisationId: assignment.organisationId,
+          courseId: assignment.courseId,
+          assignmentId: assignment.id,
+        });
+      }
+    } catch (error) {
+      console.warn(`${LOG_PREFIX} Failed to send course assigned email for ${assignment.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const courseVersionService = new CourseVersionService();
@@ -0,0 +1,224 @@
+/**
+ * Email Delivery Event Service
+ *
+ * Receives the delivery event webhooks of the API email providers. Each adapter verifies its
+ * provider's signature and normalises the payload; this service matches the events to
+ * email_sends and email_logs by provider message id, and puts addresses that hard bounce or
+ * complain on the suppression list so EmailOrchestrator.queue stops mailing them.
+ */
+
+import { storage } from '../storage';
+import type { BaseAdapter, DeliveryEvent, DeliveryEventType, WebhookRequest } from './adapters/BaseAdapter';
+import { SendGridAdapter } from './adapters/SendGridAdapter';
+import { BrevoAdapter } from './adapters/BrevoAdapter';
+import { MailgunAdapter } from './adapters/MailgunAdapter';
+import { PostmarkAdapter } from './adapters/PostmarkAdapter';
+import { MailjetAdapter } from './adapters/MailjetAdapter';
+import { SparkPostAdapter } from './adapters/SparkPostAdapter';
+import type { EmailProvider } from './MailerService';
+import type { EmailSend, InsertEmailSend } from '@shared/schema';
+
+const LOG_PREFIX = '[EmailDeliveryEvents]';
+
+// Webhook URL segment for each provider: /api/webhooks/email/:provider
+export const EMAIL_WEBHOOK_PROVIDERS: Record<string, EmailProvider> = {
+  sendgrid: 'sendgrid_api',
+  brevo: 'brevo_api',
+  mailgun: 'mailgun_api',
+  postmark: 'postmark_api',
+  mailjet: 'mailjet_api',
+  sparkpost: 'sparkpost_api',
+};
+
+// Events arrive out of order - a send only moves on to a later stage, so a late
+// "delivered" doesn't hide an open or a bounce
+const EVENT_RANK: Record<DeliveryEventType, number> = {
+  delivered: 1,
+  opened: 2,
+  clicked: 3,
+  bounced: 4,
+  complained: 5,
+};
+
+export class EmailWebhookError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'EmailWebhookError';
+  }
+}
+
+export interface EmailWebhookResult {
+  received: number; // Events in the payload the platform tracks
+  matched: number; // Events matched to an email send
+}
+
+export class EmailDeliveryEventService {
+  private adapters: Map<EmailProvider, BaseAdapter> = new Map();
+
+  constructor() {
+    this.adapters.set('sendgrid_api', new SendGridAdapter());
+    this.adapters.set('brevo_api', new BrevoAdapter());
+    this.adapters.set('mailgun_api', new MailgunAdapter());
+    this.adapters.set('postmark_api', new PostmarkAdapter());
+    this.adapters.set('mailjet_api', new MailjetAdapter());
+    this.adapters.set('sparkpost_api', new SparkPostAdapter());
+  }
+
+  /**
+   * Verify and apply a provider webhook. Webhooks for an organisation's own provider account
+   * carry its id and are checked against that organisation's signing key, otherwise the platform's.
+   */
+  async handleWebhook(
+    providerSlug: string,
+    rawBody: unknown,
+    headers: WebhookRequest['headers'],
+    organisationId?: string
+  ): Promise<EmailWebhookResult> {
+    const provider = EMAIL_WEBHOOK_PROVIDERS[providerSlug];
+    const adapter = provider ? this.adapters.get(provider) : undefined;
+    if (!provider || !adapter) {
+      throw new EmailWebhookError(404, 'Unknown email provider');
+    }
+
+    const signingKey = await this.getSigningKey(provider, organisationId);
+    if (!signingKey) {
+      throw new EmailWebhookError(401, 'No webhook signing key is configured for this provider');
+    }
+
+    const request: WebhookRequest = {
+      rawBody: Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : '',
+      headers,
+    };
+    if (!adapter.verifyWebhook(request, signingKey)) {
+      console.warn(`${LOG_PREFIX} Rejected ${providerSlug} webhook with an invalid signature`);
+      throw new EmailWebhookError(401, 'Invalid webhook signature');
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(request.rawBody);
+    } catch {
+      throw new EmailWebhookError(400, 'Webhook payload is not valid JSON');
+    }
+
+    const events = adapter.parseWebhookEvents(payload);
+    let matched = 0;
+    for (let i = 0; i < events.length; i++) {
+      if (await this.applyEvent(events[i], organisationId)) {
+        matched++;
+      }
+    }
+
+    console.log(`${LOG_PREFIX} ${providerSlug} webhook: ${events.length} events, ${matched} matched`);
+    return { received: events.length, matched };
+  }
+
+  private async getSigningKey(provider: EmailProvider, organisationId?: string): Promise<string | null> {
+    const settings = organisationId
+      ? await storage.getOrganisationSettings(organisationId)
+      : await storage.getSystemEmailSettings();
+
+    return settings?.emailProvider === provider ? settings.webhookSigningKey || null : null;
+  }
+
+  /**
+   * Record an event against its send and logs. Returns whether an email send was matched.
+   */
+  private async applyEvent(event: DeliveryEvent, organisationId?: string): Promise<boolean> {
+    let emailSend = await storage.getEmailSendByProviderMessageId(event.messageId);
+
+    // An organisation's webhook can only report on that organisation's emails
+    if (emailSend && organisationId && emailSend.organisationId !== organisationId) {
+      emailSend = undefined;
+    }
+
+    const advancesSend = !emailSend?.deliveryEvent || EVENT_RANK[event.type] >= EVENT_RANK[emailSend.deliveryEvent];
+
+    if (emailSend) {
+      await storage.updateEmailSend(emailSend.id, this.getSendUpdates(emailSend, event, advancesSend));
+    }
+
+    if (advancesSend) {
+      await storage.updateEmailLogsByMessageId(event.messageId, {
+        deliveryEvent: event.type,
+        deliveryEventAt: event.occurredAt,
+      }, organisationId);
+    }
+
+    if (event.type === 'bounced' || event.type === 'complained') {
+      await this.suppress(event, emailSend, organisationId);
+    }
+
+    return !!emailSend;
+  }
+
+  private getSendUpdates(emailSend: EmailSend, event: DeliveryEvent, advancesSend: boolean): Partial<InsertEmailSend> {
+    const updates: Partial<InsertEmailSend> = advancesSend ? { deliveryEvent: event.type } : {};
+
+    switch (event.type) {
+      case 'delivered':
+        updates.deliveredAt = emailSend.deliveredAt ?? event.occurredAt;
+        break;
+      case 'opened':
+        updates.openedAt = emailSend.openedAt ?? event.occurredAt;
+        break;
+      case 'clicked':
+        updates.clickedAt = emailSend.clickedAt ?? event.occurredAt;
+        break;
+      case 'bounced':
+        updates.bouncedAt = event.occurredAt;
+        updates.deliveryDetail = event.detail || null;
+        break;
+      case 'complained':
+        updates.complainedAt = event.occurredAt;
+        break;
+    }
+
+    return updates;
+  }
+
+  /**
+   * Hard bounces and spam complaints suppress the address for all email, not just marketing
+   */
+  private async suppress(event: DeliveryEvent, emailSend: EmailSend | undefined, webhookOrganisationId?: string): Promise<void> {
+    const email = (event.email || emailSend?.toEmail || '').trim().toLowerCase();
+    if (!email) {
+      return;
+    }
+
+    // System emails have no organisation - file the suppression under the recipient's
+    const organisationId = emailSend?.organisationId
+      || webhookOrganisationId
+      || (await storage.getUserByEmail(email))?.organisationId;
+    if (!organisationId) {
+      console.warn(`${LOG_PREFIX} Can't suppress ${email} after ${event.type} - no organisation found`);
+      return;
+    }
+
+    if (await storage.isEmailDeliverySuppressed(email, organisationId)) {
+      return;
+    }
+
+    await storage.createSuppressionListEntry({
+      organisationId,
+      email,
+      suppressionType: 'global',
+      channels: ['email'],
+      reason: event.type === 'bounced' ? 'bounce' : 'complaint',
+      source: 'automated_bounce',
+      evidenceData: {
+        providerMessageId: event.messageId,
+        emailSendId: emailSend?.id ?? null,
+        occurredAt: event.occurredAt.toISOString(),
+        detail: event.detail ?? null,
+      },
+      isPermanent: true,
+      isActive: true,
+    });
+
+    console.log(`${LOG_PREFIX} Suppressed ${email} for organisation ${organisationId} after ${event.type === 'bounced' ? 'a hard bounce' : 'a spam complaint'}`);
+  }
+}
+
+// Export singleton instance
+export const emailDeliveryEventService = new EmailDeliveryEventService();
@@ -0,0 +1,145 @@
+/**
+ * Email Locale Service
+ *
+ * Chooses the language of each automated email. The recipient's preferred language is tried
+ * first, then each fallback in turn (cy → en-GB → en), and the first locale with a translation
+ * of the template is used. The templates in AutomatedEmailTemplates are the en defaults;
+ * translations live in server/services/emailLocales/, one file per locale.
+ */
+
+import { storage } from '../storage';
+import { AutomatedEmailTemplates, type EmailTemplateData } from './AutomatedEmailTemplates';
+import { welshEmailTemplates } from './emailLocales/cy';
+import { EMAIL_LOCALES } from '@shared/schema';
+
+export const BASE_EMAIL_LOCALE = 'en'; // The locale AutomatedEmailTemplates is written in
+export const DEFAULT_EMAIL_LOCALE = 'en-GB';
+
+export type AutomatedEmailTemplateKey = Exclude<keyof typeof AutomatedEmailTemplates, 'prototype'>;
+export type AutomatedEmailTemplateData<K extends AutomatedEmailTemplateKey> = Parameters<typeof AutomatedEmailTemplates[K]>[0];
+
+// A locale's translations - any template left out falls back to the next locale in the chain
+export type LocalisedEmailTemplates = {
+  [K in AutomatedEmailTemplateKey]?: (data: AutomatedEmailTemplateData<K>) => EmailTemplateData;
+};
+
+const TRANSLATIONS: Record<string, LocalisedEmailTemplates> = {
+  cy: welshEmailTemplates,
+};
+
+export interface LocalisedEmailTemplate extends EmailTemplateData {
+  locale: string; // The locale actually used after fallbacks
+}
+
+export interface TranslationCompleteness {
+  baseLocale: string;
+  locales: {
+    locale: string;
+    name: string;
+    fallbackChain: string[];
+    translated: number;
+    total: number;
+  }[];
+  templates: {
+    key: string;
+    resolvedLocales: Record<string, string>; // Requested locale -> locale the template is sent in
+  }[];
+}
+
+/**
+ * Locales to try for a preference, most specific first: cy-GB → cy → en-GB → en
+ */
+export function getLocaleFallbackChain(locale?: string | null): string[] {
+  const chain: string[] = [];
+  const add = (candidate: string) => {
+    if (!chain.includes(candidate)) {
+      chain.push(candidate);
+    }
+  };
+
+  if (locale) {
+    add(locale);
+    add(locale.split('-')[0]);
+  }
+  add(DEFAULT_EMAIL_LOCALE);
+  add(BASE_EMAIL_LOCALE);
+  return chain;
+}
+
+// The static template methods - the class's other own properties are name, length and prototype
+function isAutomatedEmailTemplateKey(name: string): name is AutomatedEmailTemplateKey {
+  return name !== 'prototype' && typeof Object.getOwnPropertyDescriptor(AutomatedEmailTemplates, name)?.value === 'function';
+}
+
+export class EmailLocaleService {
+  /**
+   * Render an automated email template in the best available locale
+   */
+  render<K extends AutomatedEmailTemplateKey>(
+    templateKey: K,
+    data: AutomatedEmailTemplateData<K>,
+    locale?: string | null
+  ): LocalisedEmailTemplate {
+    const resolvedLocale = this.resolveLocale(templateKey, locale);
+    const translated = TRANSLATIONS[resolvedLocale]?.[templateKey] as ((data: AutomatedEmailTemplateData<K>) => EmailTemplateData) | undefined;
+    const build = translated || (AutomatedEmailTemplates[templateKey] as (data: AutomatedEmailTemplateData<K>) => EmailTemplateData);
+
+    return { ...build(data), locale: resolvedLocale };
+  }
+
+  /**
+   * Render a template in the language of the user with this email address, if they have chosen one
+   */
+  async renderForRecipient<K extends AutomatedEmailTemplateKey>(
+    templateKey: K,
+    data: AutomatedEmailTemplateData<K>,
+    toEmail: string
+  ): Promise<LocalisedEmailTemplate> {
+    const recipient = await storage.getUserByEmail(toEmail);
+    return this.render(templateKey, data, recipient?.preferredLanguage);
+  }
+
+  /**
+   * Which templates each selectable language has a translation for
+   */
+  getTranslationCompleteness(): TranslationCompleteness {
+    const templateKeys = Object.getOwnPropertyNames(AutomatedEmailTemplates)
+      .filter(isAutomatedEmailTemplateKey)
+      .sort();
+    const locales = Object.keys(EMAIL_LOCALES) as (keyof typeof EMAIL_LOCALES)[];
+
+    const templates = templateKeys.map(key => {
+      const resolvedLocales: Record<string, string> = {};
+      locales.forEach(locale => {
+        resolvedLocales[locale] = this.resolveLocale(key, locale);
+      });
+      return { key, resolvedLocales };
+    });
+
+    return {
+      baseLocale: BASE_EMAIL_LOCALE,
+      locales: locales.map(locale => ({
+        locale,
+        name: EMAIL_LOCALES[locale],
+        fallbackChain: getLocaleFallbackChain(locale),
+        translated: templates.filter(template => template.resolvedLocales[locale] === locale).length,
+        total: templates.length,
+      })),
+      templates,
+    };
+  }
+
+  // First locale in the chain with a translation - the base locale has every template
+  private resolveLocale(templateKey: AutomatedEmailTemplateKey, locale?: string | null): string {
+    const chain = getLocaleFallbackChain(locale);
+    for (const candidate of chain) {
+      if (candidate === BASE_EMAIL_LOCALE || TRANSLATIONS[candidate]?.[templateKey]) {
+        return candidate;
+      }
+    }
+    return BASE_EMAIL_LOCALE;
+  }
+}
+
+// Export singleton instance
+export const emailLocaleService = new EmailLocaleService();
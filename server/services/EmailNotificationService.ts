@@ -29,7 +29,7 @@ export class EmailNotificationService {
   /**
    * Get all active admin users for an organization
    */
-  private async getOrganizationAdmins(organizationId: string): Promise<Array<{id: string, email: string, firstName?: string, lastName?: string}>> {
+  private async getOrganizationAdmins(organizationId: string): Promise<Array<{id: string, email: string, firstName?: string, lastName?: string, preferredLanguage?: string}>> {
     try {
       const allUsers = await storage.getUsersByOrganisation(organizationId);
       const admins = allUsers.filter(user => user.role === 'admin' && user.status === 'active' && user.email);
@@ -37,7 +37,8 @@ export class EmailNotificationService {
         id: admin.id,
         email: admin.email!,
         firstName: admin.firstName || undefined,
-        lastName: admin.lastName || undefined
+        lastName: admin.lastName || undefined,
+        preferredLanguage: admin.preferredLanguage || undefined
       }));
     } catch (error) {
       console.error('[EmailNotificationService] Failed to get organization admins:', error);
@@ -137,7 +138,7 @@ export class EmailNotificationService {
       }
 
       // Send to each existing admin using the new automated template
-      const { AutomatedEmailTemplates } = await import('./AutomatedEmailTemplates');
+      const { emailLocaleService } = await import('./EmailLocaleService');
       
       const newAdminName = newAdmin.firstName && newAdmin.lastName 
         ? `${newAdmin.firstName} ${newAdmin.lastName}`.trim() 
@@ -145,13 +146,13 @@ export class EmailNotificationService {
       
       for (const existingAdmin of adminsToNotify) {
         try {
-          const emailTemplate = AutomatedEmailTemplates.newAdminAdded({
+          const emailTemplate = emailLocaleService.render('newAdminAdded', {
             existingAdminName: existingAdmin.firstName || existingAdmin.email,
             newAdminName,
             newAdminEmail: newAdmin.email!,
             addedBy: addedByName,
             orgName: organization.displayName || organization.name
-          });
+          }, existingAdmin.preferredLanguage);
 
           await this.emailOrchestrator.queue({
             triggerEvent: 'NEW_ADMIN_ADDED',
@@ -433,11 +434,11 @@ export class EmailNotificationService {
       }
 
       // Send to each admin using the new automated template
-      const { AutomatedEmailTemplates } = await import('./AutomatedEmailTemplates');
+      const { emailLocaleService } = await import('./EmailLocaleService');
       
       for (const admin of admins) {
         try {
-          const emailTemplate = AutomatedEmailTemplates.planUpdated({
+          const emailTemplate = emailLocaleService.render('planUpdated', {
             adminName: admin.firstName || admin.email,
             orgName: organization.displayName || organization.name,
             planName: newPlan?.name || 'Updated Plan',
@@ -445,7 +446,7 @@ export class EmailNotificationService {
             changeType,
             effectiveDate: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
             updatedBy: changedByName
-          });
+          }, admin.preferredLanguage);
 
           await this.emailOrchestrator.queue({
             triggerEvent: 'PLAN_UPDATED',
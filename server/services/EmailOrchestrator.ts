@@ -3,24 +3,27 @@
  * 
  * This service provides the core email functionality for the new template system:
  * - render(): Template rendering with variable validation and HTML escaping
- * - queue(): Email queuing with idempotency and retry policy 
+ * - queue(): Email queuing with idempotency protection
+ * - deliver(): Sends a queued email for EmailQueueWorker and applies the retry policy
  * - sendNow(): Immediate email sending for testing
- * - Automatic retry logic with exponential backoff
  * - Integration with existing MailerService (preserved exactly)
  * 
  * Key Features:
  * - Idempotency prevents duplicate sends within 10 minutes
- * - Retry policy: 3 attempts with exponential backoff (2s, 8s, 32s)
+ * - Retry policy: 3 retries with exponential backoff (2s, 8s, 32s), then dead_letter
+ * - Queued sends and retries live in email_sends, so they survive a restart
  * - Template variable validation and security (HTML escaping)
  * - Comprehensive logging to email_sends table
  * - Support for trigger events and context variables
+ * - Skips recipients suppressed after a hard bounce or spam complaint (see EmailDeliveryEventService)
  */
 
 import Handlebars from 'handlebars';
 import { storage } from '../storage';
-import { MailerService, type EmailResult } from './MailerService';
+import { MailerService, type EmailResult, type EmailProvider } from './MailerService';
 import { emailTemplateResolver } from './EmailTemplateResolutionService';
 import { isGdprEnabled } from '../config/gdpr';
+import type { EmailAttachment } from './adapters/BaseAdapter';
 import type { 
   EmailSend,
   InsertEmailSend,
@@ -52,11 +55,32 @@ export interface TemplateRenderContext {
     name?: string;
     email?: string;
     fullName?: string;
+    contact_email?: string;
+    phone?: string;
   };
   course?: {
     title?: string;
     description?: string;
   };
+  
+  // Training expiry / recertification variables
+  completion?: {
+    date?: string;
+    status?: string;
+  };
+  expiry?: {
+    date?: string;
+    days_remaining?: number;
+    days_expired?: number;
+    validity_period?: string;
+  };
+  renewal?: {
+    start_url?: string;
+    urgent_url?: string;
+  };
+  compliance?: {
+    impact_level?: string;
+  };
   plan?: {
     name?: string;
     oldPrice?: string;
@@ -211,6 +235,13 @@ export interface TemplateRenderContext {
   supportPhone?: string;
   
   // Authentication
+  reset?: {
+    reset_url?: string;
+    request_time?: string;
+    ip_address?: string;
+    expires_at?: string;
+    expires_in_hours?: number;
+  };
   
   // PECR Marketing Consent Variables
   marketingConsent?: {
@@ -235,6 +266,16 @@ export interface QueueEmailParams {
   triggerEvent: 'ORG_FAST_ADD' | 'USER_FAST_ADD' | 'COURSE_ASSIGNED' | 'COURSE_COMPLETED' | 'COURSE_FAILED' | 'PLAN_UPDATED' | 
     // New Automated Emails
     'WELCOME_EMAIL' | 'PASSWORD_RESET' | 'COURSE_REMINDER' | 'CERTIFICATE_ISSUED' | 'NEW_ADMIN_ADDED' |
+    // Recertification Events
+    'TRAINING_EXPIRING' | 'TRAINING_EXPIRED' |
+    // Scheduled report subscriptions
+    'SCHEDULED_REPORT' |
+    // Weekly team summary for line managers
+    'MANAGER_DIGEST' |
+    // Classroom session bookings (carry a calendar invite)
+    'CLASSROOM_BOOKING' |
+    // Daily/weekly learner digests of assignments and overdue courses
+    'LEARNER_DIGEST' |
     // GDPR Breach Management Events (Articles 33 & 34)
     'BREACH_ICO_NOTIFICATION' | 'BREACH_SUBJECT_NOTIFICATION' | 'BREACH_DEADLINE_ALERT' | 
     'BREACH_URGENT_ALERT' | 'BREACH_OVERDUE_ALERT' | 'BREACH_ESCALATION_ALERT' |
@@ -259,6 +300,9 @@ export interface QueueEmailParams {
     htmlBody: string;
     textBody: string;
   };
+  
+  // Files sent with the email (e.g. scheduled report exports)
+  attachments?: EmailAttachment[];
 }
 
 export interface SendNowParams {
@@ -531,6 +575,10 @@ export class EmailOrchestrator {
       'COURSE_FAILED',
       'ORG_FAST_ADD',
       'USER_FAST_ADD',
+      'SCHEDULED_REPORT',
+      'MANAGER_DIGEST',
+      'CLASSROOM_BOOKING',
+      'LEARNER_DIGEST',
       // GDPR Dashboard Compliance Service Events
       'COMPLIANCE_DAILY_DIGEST',
       'COMPLIANCE_WEEKLY_REPORT',
@@ -759,6 +807,18 @@ export class EmailOrchestrator {
         };
       }
 
+      // Addresses that hard bounced or sent a spam complaint are not mailed again
+      if (await storage.isEmailDeliverySuppressed(params.toEmail, params.organisationId)) {
+        console.log(`${this.LOG_PREFIX} Recipient is suppressed after a bounce or complaint: ${params.toEmail}`);
+        return {
+          success: false,
+          error: {
+            code: 'RECIPIENT_SUPPRESSED',
+            message: `${params.toEmail} is on the suppression list after a bounce or spam complaint`
+          }
+        };
+      }
+
       // Get email provider settings to set proper from fields
       let fromEmail = params.context.fromEmail;
       let fromName = params.context.fromName;
@@ -811,6 +871,7 @@ export class EmailOrchestrator {
         subject: rendered.subject,
         htmlContent: rendered.htmlContent,
         textContent: rendered.textContent || null,
+        attachments: params.attachments || null,
         templateVariables: params.context,
         status: 'pending',
         retryCount: 0,
@@ -819,6 +880,7 @@ export class EmailOrchestrator {
         replyTo
       };
 
+      // Sent by EmailQueueWorker on its next poll
       const createdSend = await storage.createEmailSend(emailSend);
       
       console.log(`${this.LOG_PREFIX} Email queued successfully`, {
@@ -827,15 +889,11 @@ export class EmailOrchestrator {
         triggerEvent: params.triggerEvent,
         toEmail: params.toEmail
       });
-
-      // Send immediately (can be changed to background processing later)
-      const sendResult = await this.processSendQueue(createdSend.id);
       
       return {
         success: true,
         emailSendId: createdSend.id,
-        idempotencyStatus: 'new',
-        sendResult: sendResult || undefined
+        idempotencyStatus: 'new'
       };
 
     } catch (error: any) {
@@ -1008,7 +1066,8 @@ export class EmailOrchestrator {
         subject: emailSend.subject,
         html: emailSend.htmlContent,
         text: emailSend.textContent || undefined,
-        templateType: emailSend.templateKey as any
+        templateType: emailSend.templateKey as any,
+        attachments: emailSend.attachments || undefined
       });
       
       return {
@@ -1063,24 +1122,37 @@ export class EmailOrchestrator {
       subject: emailSend.subject,
       html: emailSend.htmlContent,
       text: emailSend.textContent || undefined,
-      templateType: emailSend.templateKey as any
+      templateType: emailSend.templateKey as any,
+      attachments: emailSend.attachments || undefined
     });
   }
   
   /**
-   * Process queued emails with retry logic
+   * Provider a queued email will be sent through first, used by EmailQueueWorker for rate limits
    */
-  private async processSendQueue(emailSendId: string): Promise<EmailResult | null> {
-    try {
-      const emailSend = await storage.getEmailSend(emailSendId);
-      if (!emailSend) {
-        console.error(`${this.LOG_PREFIX} Email send record not found: ${emailSendId}`);
-        return null;
+  async resolveSendProvider(emailSend: EmailSend): Promise<EmailProvider | null> {
+    if (emailSend.organisationId) {
+      const orgProvider = await this.resolveOrganizationEmailProvider(emailSend.organisationId);
+      if (orgProvider.source === this.PROVIDER_SOURCES.ORG_CUSTOM && orgProvider.providerType) {
+        return orgProvider.providerType as EmailProvider;
       }
+    }
+
+    const resolved = await mailerService.resolveEffectiveSettings(emailSend.organisationId || undefined);
+    return resolved.settings?.provider || null;
+  }
 
-      // Update attempt timestamp (status stays pending until sent/failed)
+  /**
+   * Send a queued email claimed by EmailQueueWorker, scheduling a retry if it fails
+   */
+  async deliver(emailSend: EmailSend, provider: EmailProvider | null): Promise<EmailResult | null> {
+    const emailSendId = emailSend.id;
+    try {
+      // Recorded before sending so other workers count this attempt against the rate limits
+      // (status stays pending until sent/failed)
       await storage.updateEmailSend(emailSendId, {
-        lastAttemptAt: new Date()
+        lastAttemptAt: new Date(),
+        provider
       });
 
       // Send using organization-specific email provider with system fallback
@@ -1095,7 +1167,9 @@ export class EmailOrchestrator {
           provider: sendResult.provider,
           providerMessageId: sendResult.details.messageId || null,
           sentAt: new Date(),
-          routingSource: this.mapProviderSourceToRoutingSource(providerSource) as 'system_default' | 'org_primary' | 'org_fallback'
+          routingSource: this.mapProviderSourceToRoutingSource(providerSource) as 'system_default' | 'org_primary' | 'org_fallback',
+          lockedBy: null,
+          lockedUntil: null
         });
 
         console.log(`${this.LOG_PREFIX} Email sent successfully`, {
@@ -1106,7 +1180,7 @@ export class EmailOrchestrator {
         });
       } else {
         // Handle failure and retry logic
-        await this.handleSendFailure(emailSendId, emailSend, sendResult);
+        await this.handleSendFailure(emailSend, sendResult.error);
       }
 
       return sendResult;
@@ -1114,12 +1188,9 @@ export class EmailOrchestrator {
     } catch (error: any) {
       console.error(`${this.LOG_PREFIX} Send processing failed for ${emailSendId}:`, error);
       
-      // Update status to failed
-      await storage.updateEmailSend(emailSendId, {
-        status: 'failed',
-        errorMessage: error.message,
-        errorCode: error.name || 'UNKNOWN_ERROR',
-        lastAttemptAt: new Date()
+      await this.handleSendFailure(emailSend, {
+        code: error.name || 'UNKNOWN_ERROR',
+        short: error.message
       });
 
       return null;
@@ -1144,7 +1215,8 @@ export class EmailOrchestrator {
   /**
    * Handle send failures with exponential backoff retry
    */
-  private async handleSendFailure(emailSendId: string, emailSend: EmailSend, sendResult: EmailResult): Promise<void> {
+  private async handleSendFailure(emailSend: EmailSend, error: EmailResult['error']): Promise<void> {
+    const emailSendId = emailSend.id;
     const newRetryCount = emailSend.retryCount + 1;
     
     if (newRetryCount <= this.MAX_RETRIES) {
@@ -1156,9 +1228,11 @@ export class EmailOrchestrator {
         status: 'retrying',
         retryCount: newRetryCount,
         nextRetryAt,
-        errorMessage: sendResult.error?.short || 'Send failed',
-        errorCode: sendResult.error?.code || 'SEND_FAILED',
-        lastAttemptAt: new Date()
+        errorMessage: error?.short || 'Send failed',
+        errorCode: error?.code || 'SEND_FAILED',
+        lastAttemptAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null
       });
 
       console.log(`${this.LOG_PREFIX} Email scheduled for retry ${newRetryCount}/${this.MAX_RETRIES}`, {
@@ -1167,21 +1241,20 @@ export class EmailOrchestrator {
         delay: retryDelay
       });
 
-      // TODO: Implement background job queue for processing retries
-      // For now, we'll mark as failed after max retries
-      
     } else {
-      // Max retries exceeded, mark as permanently failed
+      // Max retries exceeded - dead-lettered until a superadmin requeues it
       await storage.updateEmailSend(emailSendId, {
-        status: 'failed',
-        errorMessage: `Max retries (${this.MAX_RETRIES}) exceeded. Last error: ${sendResult.error?.short || 'Send failed'}`,
-        errorCode: sendResult.error?.code || 'MAX_RETRIES_EXCEEDED',
-        lastAttemptAt: new Date()
+        status: 'dead_letter',
+        errorMessage: `Max retries (${this.MAX_RETRIES}) exceeded. Last error: ${error?.short || 'Send failed'}`,
+        errorCode: error?.code || 'MAX_RETRIES_EXCEEDED',
+        lastAttemptAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null
       });
 
-      console.error(`${this.LOG_PREFIX} Email permanently failed after ${this.MAX_RETRIES} retries`, {
+      console.error(`${this.LOG_PREFIX} Email dead-lettered after ${this.MAX_RETRIES} retries`, {
         emailSendId,
-        finalError: sendResult.error
+        finalError: error
       });
     }
   }
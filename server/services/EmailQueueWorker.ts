@@ -0,0 +1,179 @@
+/**
+ * Email Queue Worker
+ *
+ * Delivers the email_sends rows EmailOrchestrator.queue creates, including their retries.
+ * Due rows are claimed with FOR UPDATE SKIP LOCKED and held under a lease, so any number of
+ * workers - in the web process or started with `npm run worker:email` - can share the queue
+ * without sending an email twice, and a crashed worker's sends are picked up once its lease
+ * runs out. Sends that run out of retries are dead-lettered until a superadmin requeues them.
+ */
+
+import { hostname } from 'os';
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import type { EmailProvider } from './MailerService';
+import type { EmailSend } from '@shared/schema';
+
+const LOG_PREFIX = '[EmailQueueWorker]';
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 20;
+const LEASE_MS = 5 * 60 * 1000; // Must outlast the slowest send, or another worker sends it again
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMITED_DELAY_MS = 15 * 1000;
+
+// Sends per minute, kept under each provider's default account limits
+const PROVIDER_RATE_LIMITS: Record<EmailProvider, number> = {
+  smtp_generic: 60,
+  sendgrid_api: 600,
+  brevo_api: 400,
+  mailgun_api: 300,
+  postmark_api: 300,
+  mailjet_api: 300,
+  sparkpost_api: 300,
+};
+
+// Sends per minute for one organisation, so a bulk send doesn't hold up everyone else's email
+const ORGANISATION_RATE_LIMIT = 120;
+
+export class EmailQueueError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'EmailQueueError';
+  }
+}
+
+export class EmailQueueWorker {
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private stopping = false;
+
+  start(): void {
+    if (this.timer || this.currentRun) {
+      return;
+    }
+    this.stopping = false;
+
+    const poll = () => {
+      this.timer = null;
+      this.currentRun = this.drainQueue().finally(() => {
+        this.currentRun = null;
+        if (!this.stopping) {
+          this.timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      });
+    };
+
+    poll();
+    console.log(`${LOG_PREFIX} Worker ${this.workerId} started - polling every ${POLL_INTERVAL_MS / 1000}s`);
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+    console.log(`${LOG_PREFIX} Worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Put a dead-lettered send - or one that failed permanently before the queue existed - back on the
+   * queue with a fresh set of retries
+   */
+  async requeue(emailSendId: string): Promise<EmailSend> {
+    const emailSend = await storage.getEmailSend(emailSendId);
+    if (!emailSend) {
+      throw new EmailQueueError(404, 'Email send not found');
+    }
+    if (emailSend.status !== 'dead_letter' && emailSend.status !== 'failed') {
+      throw new EmailQueueError(409, 'Only failed or dead-lettered emails can be requeued');
+    }
+
+    const requeued = await storage.updateEmailSend(emailSendId, {
+      status: 'pending',
+      retryCount: 0,
+      nextRetryAt: null,
+      errorMessage: null,
+      errorCode: null,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+
+    console.log(`${LOG_PREFIX} Requeued email send ${emailSendId}`);
+    return requeued;
+  }
+
+  // Keep claiming while full batches come back so a backlog doesn't wait a poll interval per batch
+  private async drainQueue(): Promise<void> {
+    try {
+      while (!this.stopping) {
+        const { claimed, deferred } = await this.processDueSends();
+        // A short batch means the queue is empty; a fully deferred one means the rate limits are spent
+        if (claimed < BATCH_SIZE || deferred === claimed) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Queue run failed:`, error);
+      // Don't throw - claimed sends are picked up again when their lease runs out
+    }
+  }
+
+  /**
+   * Claim and send one batch of due emails. Returns how many were claimed and how many of those
+   * were handed back because of rate limits.
+   */
+  private async processDueSends(): Promise<{ claimed: number; deferred: number }> {
+    const claimed = await storage.claimDueEmailSends(this.workerId, BATCH_SIZE, new Date(Date.now() + LEASE_MS));
+    if (claimed.length === 0) {
+      return { claimed: 0, deferred: 0 };
+    }
+
+    // Counts come from the database so they cover every worker; sends from other workers
+    // after this point can overshoot a limit by at most one batch each
+    const { byProvider, byOrganisation } = await storage.getEmailSendAttemptCounts(new Date(Date.now() - RATE_LIMIT_WINDOW_MS));
+
+    let sent = 0;
+    let deferred = 0;
+    for (const emailSend of claimed) {
+      const provider = await emailOrchestrator.resolveSendProvider(emailSend);
+      const providerAttempts = provider ? byProvider[provider] || 0 : 0;
+      const organisationAttempts = emailSend.organisationId ? byOrganisation[emailSend.organisationId] || 0 : 0;
+
+      if ((provider && providerAttempts >= PROVIDER_RATE_LIMITS[provider]) || organisationAttempts >= ORGANISATION_RATE_LIMIT) {
+        // Not an attempt - hand the send back without using up a retry
+        await storage.updateEmailSend(emailSend.id, {
+          nextRetryAt: new Date(Date.now() + RATE_LIMITED_DELAY_MS),
+          lockedBy: null,
+          lockedUntil: null,
+        });
+        deferred++;
+        continue;
+      }
+
+      if (provider) {
+        byProvider[provider] = providerAttempts + 1;
+      }
+      if (emailSend.organisationId) {
+        byOrganisation[emailSend.organisationId] = organisationAttempts + 1;
+      }
+
+      await emailOrchestrator.deliver(emailSend, provider);
+      sent++;
+    }
+
+    console.log(`${LOG_PREFIX} Processed ${claimed.length} queued emails: ${sent} attempted, ${deferred} deferred by rate limits`);
+    return { claimed: claimed.length, deferred };
+  }
+}
+
+// Export singleton instance
+export const emailQueueWorker = new EmailQueueWorker();
@@ -0,0 +1,121 @@
+/**
+ * External Training Service
+ *
+ * Training done elsewhere - a previous employer or an outside provider - recorded against the
+ * library course it satisfies. A learner or admin submits the record with the certificate as
+ * evidence and an admin approves or rejects it. Approval completes the course for the learner
+ * from the external completion date: a pass with no score and a certificate carrying the external
+ * expiry, so the record counts in the training matrix, recertification and compliance figures.
+ * Training older than the learner's latest completion is approved as history only.
+ */
+
+import { storage } from '../storage';
+import { learningPathService } from './LearningPathService';
+import { certificateService } from './certificateService';
+import type { Course, ExternalTrainingRecord, User } from '@shared/schema';
+
+const LOG_PREFIX = '[ExternalTraining]';
+
+export class ExternalTrainingError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ExternalTrainingError';
+  }
+}
+
+export interface ExternalCompletion {
+  recordId: string;
+  provider: string;
+  expiryDate: Date | null;
+}
+
+export class ExternalTrainingService {
+
+  /**
+   * The external certificate's own expiry, otherwise the course's expiry period from the completion date
+   */
+  getExpiryDate(record: Pick<ExternalTrainingRecord, 'completedAt' | 'expiryDate'>, course: Pick<Course, 'certificateExpiryPeriod'>): Date | null {
+    if (record.expiryDate) {
+      return new Date(record.expiryDate);
+    }
+    if (!course.certificateExpiryPeriod) {
+      return null;
+    }
+    const expiryDate = new Date(record.completedAt);
+    expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
+    return expiryDate;
+  }
+
+  /**
+   * Approved records for an organisation, keyed by the completion they created
+   */
+  async getExternalCompletions(organisationId: string): Promise<Map<string, ExternalCompletion>> {
+    const records = await storage.getExternalTrainingRecordsByOrganisation(organisationId);
+    return new Map(records
+      .filter(r => r.status === 'approved' && r.completionId)
+      .map(r => [r.completionId!, {
+        recordId: r.id,
+        provider: r.provider,
+        expiryDate: r.expiryDate ? new Date(r.expiryDate) : null,
+      }]));
+  }
+
+  /**
+   * Approve a pending record and complete the course for the learner. A record older than the
+   * learner's latest completion of the course is approved without completing anything.
+   */
+  async approve(record: ExternalTrainingRecord, reviewer: User, reviewNotes?: string | null): Promise<ExternalTrainingRecord> {
+    if (record.status !== 'pending') {
+      throw new ExternalTrainingError(400, 'This record has already been reviewed');
+    }
+
+    const course = await storage.getCourse(record.courseId);
+    if (!course) {
+      throw new ExternalTrainingError(400, 'The course this record maps to no longer exists');
+    }
+
+    const result = await storage.approveExternalTrainingRecord(
+      record,
+      { reviewedBy: reviewer.id, reviewNotes: reviewNotes || null },
+      { expiryDate: this.getExpiryDate(record, course), verificationCode: certificateService.generateVerificationCode() }
+    );
+    if (!result) {
+      throw new ExternalTrainingError(400, 'This record has already been reviewed');
+    }
+
+    const { completion } = result;
+    if (!completion) {
+      console.log(`${LOG_PREFIX} Record ${record.id} approved by ${reviewer.id} - a later completion already exists`);
+      return result.record;
+    }
+
+    try {
+      await learningPathService.handleCompletion(completion);
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Error updating learning path progress:`, error);
+    }
+
+    console.log(`${LOG_PREFIX} Record ${record.id} approved by ${reviewer.id} - completion ${completion.id}`);
+    return result.record;
+  }
+
+  /**
+   * Reject a pending record. The reason is shown to the learner.
+   */
+  async reject(record: ExternalTrainingRecord, reviewer: User, reason: string): Promise<ExternalTrainingRecord> {
+    if (record.status !== 'pending') {
+      throw new ExternalTrainingError(400, 'This record has already been reviewed');
+    }
+
+    console.log(`${LOG_PREFIX} Record ${record.id} rejected by ${reviewer.id}`);
+    return await storage.updateExternalTrainingRecord(record.id, {
+      status: 'rejected',
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewNotes: reason,
+    });
+  }
+}
+
+// Export singleton instance
+export const externalTrainingService = new ExternalTrainingService();
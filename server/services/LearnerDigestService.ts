@@ -0,0 +1,188 @@
+/**
+ * Learner Digest Service
+ *
+ * Learners on daily or weekly delivery - their own choice, or their organisation's default - get
+ * their course assignment and overdue emails as one digest instead of an email per event.
+ * AutomatedEmailService hands those events to collect(), and the hourly run sends each learner
+ * everything collected before their latest digest time: the organisation's digest hour, on its
+ * digest weekday for weekly delivery.
+ */
+
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import { emailLocaleService } from './EmailLocaleService';
+import type { LearnerDigestEvent, OrgNotificationSettings, User } from '@shared/schema';
+
+const LOG_PREFIX = '[LearnerDigest]';
+
+// Used until an organisation saves its own notification settings
+const DEFAULT_DIGEST_HOUR = 8;
+const DEFAULT_DIGEST_WEEKDAY = 1; // Monday
+
+export type EmailDeliveryFrequency = 'immediate' | 'daily' | 'weekly';
+export type LearnerDigestEventType = 'course_assigned' | 'due_date_passed';
+
+export interface LearnerDigestEventInput {
+  type: LearnerDigestEventType;
+  resourceId: string; // The key the event's own email would be sent with
+  courseId: string;
+  courseName: string;
+  dueDate?: string;
+  courseUrl?: string;
+  organisationId?: string;
+}
+
+export interface LearnerDigestRunResult {
+  learners: number;
+  sent: number;
+  failed: number;
+}
+
+export class LearnerDigestService {
+
+  /**
+   * The user's own delivery choice, falling back to their organisation's default
+   */
+  getDeliveryFrequency(user: User, settings: OrgNotificationSettings | undefined): EmailDeliveryFrequency {
+    return user.emailDeliveryFrequency || settings?.learnerEmailDelivery || 'immediate';
+  }
+
+  /**
+   * Hold an event back for the recipient's next digest. Returns false when they get their emails
+   * immediately, in which case the caller sends the event's own email.
+   */
+  async collect(toEmail: string, event: LearnerDigestEventInput): Promise<boolean> {
+    const user = await storage.getUserByEmail(toEmail);
+    if (!user) {
+      return false;
+    }
+    const settings = user.organisationId ? await storage.getOrgNotificationSettings(user.organisationId) : undefined;
+    const frequency = this.getDeliveryFrequency(user, settings);
+    if (frequency === 'immediate') {
+      return false;
+    }
+
+    await storage.createLearnerDigestEvent({
+      userId: user.id,
+      organisationId: event.organisationId || user.organisationId,
+      eventType: event.type,
+      resourceId: event.resourceId,
+      courseId: event.courseId,
+      courseName: event.courseName,
+      dueDate: event.dueDate || null,
+      courseUrl: event.courseUrl || null,
+    });
+
+    console.log(`${LOG_PREFIX} Held ${event.type} for ${toEmail} until their ${frequency} digest`);
+    return true;
+  }
+
+  /**
+   * The most recent digest time at or before `now`
+   */
+  getLatestDigestTime(frequency: 'daily' | 'weekly', settings: OrgNotificationSettings | undefined, now: Date): Date {
+    const hour = settings?.digestHour ?? DEFAULT_DIGEST_HOUR;
+    const digestTime = new Date(now);
+    digestTime.setHours(hour, 0, 0, 0);
+    if (frequency === 'weekly') {
+      const weekday = settings?.digestWeekday ?? DEFAULT_DIGEST_WEEKDAY;
+      digestTime.setDate(digestTime.getDate() - ((digestTime.getDay() - weekday + 7) % 7));
+    }
+    if (digestTime > now) {
+      digestTime.setDate(digestTime.getDate() - (frequency === 'weekly' ? 7 : 1));
+    }
+    // Moving the date keeps the clock time, which is an hour late if the digest hour was skipped when the clocks went forward
+    digestTime.setHours(hour, 0, 0, 0);
+    return digestTime;
+  }
+
+  /**
+   * Send each learner a digest of the events collected before their latest digest time.
+   * Learners who have since switched to immediate delivery get whatever is waiting straight away.
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<LearnerDigestRunResult> {
+    const result: LearnerDigestRunResult = { learners: 0, sent: 0, failed: 0 };
+
+    const eventsByUser = new Map<string, LearnerDigestEvent[]>();
+    (await storage.getPendingLearnerDigestEvents()).forEach(event => {
+      eventsByUser.set(event.userId, [...(eventsByUser.get(event.userId) || []), event]);
+    });
+    const settingsByOrganisation = new Map<string, OrgNotificationSettings | undefined>();
+
+    for (const userId of Array.from(eventsByUser.keys())) {
+      const events = eventsByUser.get(userId)!;
+      try {
+        const user = await storage.getUser(userId);
+        if (!user?.email || user.status !== 'active') {
+          // Nobody to send to - drop the events rather than send a stale digest later
+          await storage.markLearnerDigestEventsDigested(events.map(event => event.id));
+          continue;
+        }
+
+        const organisationId = user.organisationId;
+        if (organisationId && !settingsByOrganisation.has(organisationId)) {
+          settingsByOrganisation.set(organisationId, await storage.getOrgNotificationSettings(organisationId));
+        }
+        const settings = organisationId ? settingsByOrganisation.get(organisationId) : undefined;
+        const frequency = this.getDeliveryFrequency(user, settings);
+
+        const digestTime = frequency === 'immediate' ? now : this.getLatestDigestTime(frequency, settings, now);
+        const due = events.filter(event => event.createdAt && event.createdAt <= digestTime);
+        if (due.length === 0) {
+          continue;
+        }
+        result.learners++;
+
+        const organisation = organisationId ? await storage.getOrganisation(organisationId) : undefined;
+        const template = emailLocaleService.render('learnerDigest', {
+          userName: user.firstName || 'there',
+          orgName: organisation?.displayName || organisation?.name || 'inteLMS',
+          frequency: frequency === 'weekly' ? 'weekly' : 'daily',
+          items: due.map(event => ({
+            type: event.eventType as LearnerDigestEventType,
+            courseName: event.courseName,
+            dueDate: event.dueDate,
+            courseUrl: event.courseUrl,
+          })),
+          coursesUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/user/courses`,
+        }, user.preferredLanguage);
+
+        const queued = await emailOrchestrator.queue({
+          triggerEvent: 'LEARNER_DIGEST',
+          toEmail: user.email,
+          context: {},
+          organisationId: organisationId || undefined,
+          resourceId: `LEARNER_DIGEST:${user.id}:${digestTime.toISOString()}`,
+          preRenderedContent: {
+            subject: template.subject,
+            htmlBody: template.html,
+            textBody: template.text,
+          },
+          priority: 3,
+        });
+
+        // A duplicate means another server already queued this digest
+        if (queued.success || queued.idempotencyStatus === 'duplicate') {
+          await storage.markLearnerDigestEventsDigested(due.map(event => event.id));
+        }
+        if (queued.success) {
+          result.sent++;
+        } else if (queued.idempotencyStatus !== 'duplicate') {
+          result.failed++;
+        }
+      } catch (error) {
+        result.failed++;
+        console.error(`${LOG_PREFIX} Failed to send digest to user ${userId}:`, error);
+        // Continue with the remaining learners - their events stay pending for the next run
+      }
+    }
+
+    if (result.learners > 0) {
+      console.log(`${LOG_PREFIX} Run complete: ${result.sent} sent, ${result.failed} failed`);
+    }
+    return result;
+  }
+}
+
+// Export singleton instance
+export const learnerDigestService = new LearnerDigestService();
@@ -0,0 +1,381 @@
+/**
+ * Learning Path Service
+ *
+ * Groups several courses into an ordered programme. Assigning a path creates the
+ * child assignments up front; steps whose prerequisites have not been passed are
+ * created locked and are opened one by one as pass completions are recorded.
+ */
+
+import { storage } from '../storage';
+import { automatedEmailService } from './AutomatedEmailService';
+import type { Assignment, Completion, LearningPath, LearningPathCourse, LearningPathEnrolment } from '@shared/schema';
+
+const LOG_PREFIX = '[LearningPath]';
+
+export interface LearningPathStepProgress {
+  courseId: string;
+  courseTitle: string;
+  sortOrder: number;
+  prerequisiteCourseIds: string[];
+  assignmentId: string | null;
+  isLocked: boolean;
+  passed: boolean;
+  status: string;
+}
+
+export interface LearningPathProgress {
+  enrolmentId: string;
+  learningPathId: string;
+  title: string;
+  description: string | null;
+  status: LearningPathEnrolment['status'];
+  dueDate: Date | null;
+  completedSteps: number;
+  totalSteps: number;
+  percentComplete: number;
+  steps: LearningPathStepProgress[];
+}
+
+export class LearningPathService {
+
+  /**
+   * Resolve the prerequisite course IDs for a step.
+   * A null rule means "the previous step in the path"; an explicit array is used as-is.
+   */
+  getPrerequisites(step: LearningPathCourse, steps: LearningPathCourse[]): string[] {
+    if (Array.isArray(step.prerequisiteCourseIds)) {
+      return step.prerequisiteCourseIds;
+    }
+    const ordered = [...steps].sort((a, b) => a.sortOrder - b.sortOrder);
+    const index = ordered.findIndex(s => s.id === step.id);
+    return index > 0 ? [ordered[index - 1].courseId] : [];
+  }
+
+  /**
+   * Validate an ordered list of steps before it is saved.
+   * Prerequisites must point at courses earlier in the same path so a path can never deadlock.
+   */
+  validateSteps(steps: { courseId: string; prerequisiteCourseIds?: string[] | null }[]): string | null {
+    const seen = new Set<string>();
+    for (const step of steps) {
+      if (seen.has(step.courseId)) {
+        return `Course ${step.courseId} appears more than once in the path`;
+      }
+      for (const prerequisite of step.prerequisiteCourseIds || []) {
+        if (!seen.has(prerequisite)) {
+          return `Prerequisite ${prerequisite} must be an earlier step in the path`;
+        }
+      }
+      seen.add(step.courseId);
+    }
+    return null;
+  }
+
+  /**
+   * Assign a learning path to one or more users.
+   * Creates the enrolment and one assignment per step, locking steps whose prerequisites are not yet passed.
+   */
+  async assignPath(params: {
+    learningPath: LearningPath;
+    userIds: string[];
+    assignedBy: string;
+    dueDate?: Date | null;
+  }): Promise<{ enrolled: number; skipped: number; enrolments: LearningPathEnrolment[] }> {
+    const { learningPath, userIds, assignedBy, dueDate = null } = params;
+    const steps = await storage.getLearningPathCourses(learningPath.id);
+    const enrolments: LearningPathEnrolment[] = [];
+    let skipped = 0;
+
+    for (const userId of userIds) {
+      const existing = await storage.getLearningPathEnrolmentByUser(learningPath.id, userId);
+      if (existing) {
+        skipped++;
+        continue;
+      }
+
+      const enrolment = await storage.createLearningPathEnrolment({
+        learningPathId: learningPath.id,
+        userId,
+        organisationId: learningPath.organisationId,
+        dueDate,
+        assignedBy,
+        status: 'not_started',
+      });
+
+      await this.createStepAssignments(enrolment, steps, steps, assignedBy);
+      enrolments.push(await this.refreshEnrolment(enrolment));
+    }
+
+    console.log(`${LOG_PREFIX} Path ${learningPath.id} assigned to ${enrolments.length} user(s), ${skipped} already enrolled`);
+    return { enrolled: enrolments.length, skipped, enrolments };
+  }
+
+  /**
+   * Give learners already on a path assignments for steps added after they enrolled.
+   * Added steps follow the same prerequisite rules, so they stay locked until the earlier steps are passed.
+   */
+  async addStepsToEnrolments(learningPath: LearningPath, courseIds: string[], assignedBy: string): Promise<void> {
+    const steps = await storage.getLearningPathCourses(learningPath.id);
+    const added = steps.filter(step => courseIds.includes(step.courseId));
+    if (added.length === 0) {
+      return;
+    }
+
+    const enrolments = await storage.getLearningPathEnrolmentsByPath(learningPath.id);
+    for (const enrolment of enrolments) {
+      await this.createStepAssignments(enrolment, added, steps, assignedBy);
+      await this.refreshEnrolment(enrolment);
+    }
+    console.log(`${LOG_PREFIX} Added ${added.length} step(s) to path ${learningPath.id} for ${enrolments.length} enrolled user(s)`);
+  }
+
+  /**
+   * React to a newly recorded completion.
+   * Only passes matter: they may unlock later steps in any path the learner is enrolled on.
+   */
+  async handleCompletion(completion: Completion): Promise<void> {
+    if (completion.status !== 'pass') {
+      return;
+    }
+
+    const enrolments = await storage.getLearningPathEnrolmentsByUser(completion.userId);
+    for (const enrolment of enrolments) {
+      if (enrolment.status === 'completed') {
+        continue;
+      }
+      const steps = await storage.getLearningPathCourses(enrolment.learningPathId);
+      if (steps.some(step => step.courseId === completion.courseId)) {
+        await this.refreshEnrolment(enrolment);
+      }
+    }
+  }
+
+  /**
+   * Unlock any steps whose prerequisites are now passed and recompute the enrolment status.
+   */
+  async refreshEnrolment(enrolment: LearningPathEnrolment): Promise<LearningPathEnrolment> {
+    const steps = await storage.getLearningPathCourses(enrolment.learningPathId);
+    const passedCourseIds = await this.getPassedCourseIds(enrolment.userId);
+    const pathAssignments = await this.getStepAssignments(enrolment, steps);
+
+    for (const step of steps) {
+      const assignment = pathAssignments.get(step.courseId);
+      if (!assignment || !assignment.isLocked) {
+        continue;
+      }
+      const prerequisites = this.getPrerequisites(step, steps);
+      if (prerequisites.every(courseId => passedCourseIds.has(courseId))) {
+        const unlocked = await storage.updateAssignment(assignment.id, { isLocked: false, unlockedAt: new Date() });
+        pathAssignments.set(step.courseId, unlocked);
+        console.log(`${LOG_PREFIX} Unlocked course ${step.courseId} for user ${enrolment.userId}`);
+        await this.notifyAssignmentAvailable(unlocked);
+      }
+    }
+
+    const completedSteps = steps.filter(step => passedCourseIds.has(step.courseId)).length;
+    const anyStarted = Array.from(pathAssignments.values()).some(a => a.status !== 'not_started');
+
+    let status: LearningPathEnrolment['status'] = 'not_started';
+    if (steps.length > 0 && completedSteps === steps.length) {
+      status = 'completed';
+    } else if (completedSteps > 0 || anyStarted) {
+      status = 'in_progress';
+    }
+
+    if (status === enrolment.status) {
+      return enrolment;
+    }
+
+    return await storage.updateLearningPathEnrolment(enrolment.id, {
+      status,
+      completedAt: status === 'completed' ? new Date() : null,
+    });
+  }
+
+  /**
+   * Progress for every path a learner is enrolled on, step by step.
+   */
+  async getUserProgress(userId: string): Promise<LearningPathProgress[]> {
+    const enrolments = await storage.getLearningPathEnrolmentsByUser(userId);
+    const passedCourseIds = await this.getPassedCourseIds(userId);
+    const progress: LearningPathProgress[] = [];
+
+    for (const enrolment of enrolments) {
+      const learningPath = await storage.getLearningPath(enrolment.learningPathId);
+      if (!learningPath) {
+        continue;
+      }
+      const steps = await storage.getLearningPathCourses(enrolment.learningPathId);
+      const pathAssignments = await this.getStepAssignments(enrolment, steps);
+
+      const stepProgress: LearningPathStepProgress[] = [];
+      for (const step of steps) {
+        const course = await storage.getCourse(step.courseId);
+        const assignment = pathAssignments.get(step.courseId);
+        stepProgress.push({
+          courseId: step.courseId,
+          courseTitle: course?.title || 'Unknown course',
+          sortOrder: step.sortOrder,
+          prerequisiteCourseIds: this.getPrerequisites(step, steps),
+          assignmentId: assignment?.id || null,
+          isLocked: assignment?.isLocked ?? false,
+          passed: passedCourseIds.has(step.courseId),
+          status: assignment?.status || 'not_started',
+        });
+      }
+
+      progress.push(this.summarise(enrolment, learningPath, stepProgress));
+    }
+
+    return progress;
+  }
+
+  /**
+   * Per-user path progress for an organisation, keyed by user ID then learning path ID.
+   * Used for the single learning-path column in the training matrix.
+   */
+  async getOrganisationProgress(organisationId: string): Promise<{
+    learningPaths: LearningPath[];
+    progress: Map<string, Map<string, { completedSteps: number; totalSteps: number; percentComplete: number; status: LearningPathEnrolment['status'] }>>;
+  }> {
+    const learningPaths = await storage.getLearningPathsByOrganisation(organisationId);
+    const enrolments = await storage.getLearningPathEnrolmentsByOrganisation(organisationId);
+    const completions = await storage.getCompletionsByOrganisation(organisationId);
+    const stepsByPath = new Map<string, LearningPathCourse[]>();
+
+    for (const learningPath of learningPaths) {
+      stepsByPath.set(learningPath.id, await storage.getLearningPathCourses(learningPath.id));
+    }
+
+    const progress = new Map<string, Map<string, { completedSteps: number; totalSteps: number; percentComplete: number; status: LearningPathEnrolment['status'] }>>();
+    for (const enrolment of enrolments) {
+      const steps = stepsByPath.get(enrolment.learningPathId) || [];
+      const passed = new Set(
+        completions.filter(c => c.userId === enrolment.userId && c.status === 'pass').map(c => c.courseId)
+      );
+      const completedSteps = steps.filter(step => passed.has(step.courseId)).length;
+
+      if (!progress.has(enrolment.userId)) {
+        progress.set(enrolment.userId, new Map());
+      }
+      progress.get(enrolment.userId)!.set(enrolment.learningPathId, {
+        completedSteps,
+        totalSteps: steps.length,
+        percentComplete: steps.length > 0 ? Math.round((completedSteps / steps.length) * 100) : 0,
+        status: enrolment.status,
+      });
+    }
+
+    return { learningPaths, progress };
+  }
+
+  private summarise(enrolment: LearningPathEnrolment, learningPath: LearningPath, steps: LearningPathStepProgress[]): LearningPathProgress {
+    const completedSteps = steps.filter(step => step.passed).length;
+    return {
+      enrolmentId: enrolment.id,
+      learningPathId: learningPath.id,
+      title: learningPath.title,
+      description: learningPath.description,
+      status: enrolment.status,
+      dueDate: enrolment.dueDate,
+      completedSteps,
+      totalSteps: steps.length,
+      percentComplete: steps.length > 0 ? Math.round((completedSteps / steps.length) * 100) : 0,
+      steps,
+    };
+  }
+
+  /**
+   * Create the enrolment's assignments for the given steps, locking those whose prerequisites are not yet passed
+   */
+  private async createStepAssignments(enrolment: LearningPathEnrolment, create: LearningPathCourse[], steps: LearningPathCourse[], assignedBy: string): Promise<void> {
+    const passedCourseIds = await this.getPassedCourseIds(enrolment.userId);
+
+    for (const step of create) {
+      const prerequisites = this.getPrerequisites(step, steps);
+      const isLocked = !prerequisites.every(courseId => passedCourseIds.has(courseId));
+      const existingAssignment = await storage.getExistingAssignment(step.courseId, enrolment.userId);
+
+      if (existingAssignment) {
+        // Reuse the assignment the learner already has rather than duplicating it
+        if (!existingAssignment.learningPathEnrolmentId) {
+          await storage.updateAssignment(existingAssignment.id, { learningPathEnrolmentId: enrolment.id });
+        }
+        continue;
+      }
+
+      const assignment = await storage.createAssignment({
+        courseId: step.courseId,
+        userId: enrolment.userId,
+        organisationId: enrolment.organisationId,
+        dueDate: enrolment.dueDate,
+        status: 'not_started',
+        assignedBy,
+        learningPathEnrolmentId: enrolment.id,
+        isLocked,
+        unlockedAt: isLocked ? null : new Date(),
+      });
+
+      if (!isLocked) {
+        await this.notifyAssignmentAvailable(assignment);
+      }
+    }
+  }
+
+  private async getPassedCourseIds(userId: string): Promise<Set<string>> {
+    const completions = await storage.getCompletionsByUser(userId);
+    return new Set(completions.filter(c => c.status === 'pass').map(c => c.courseId));
+  }
+
+  /**
+   * Map each step's course to the learner's assignment for it.
+   * Falls back to a pre-existing assignment that was linked when the path was assigned.
+   */
+  private async getStepAssignments(enrolment: LearningPathEnrolment, steps: LearningPathCourse[]): Promise<Map<string, Assignment>> {
+    const linked = await storage.getAssignmentsByLearningPathEnrolment(enrolment.id);
+    const byCourse = new Map<string, Assignment>(linked.map(a => [a.courseId, a]));
+
+    for (const step of steps) {
+      if (!byCourse.has(step.courseId)) {
+        const existing = await storage.getExistingAssignment(step.courseId, enrolment.userId);
+        if (existing) {
+          byCourse.set(step.courseId, existing);
+        }
+      }
+    }
+
+    return byCourse;
+  }
+
+  private async notifyAssignmentAvailable(assignment: Assignment): Promise<void> {
+    if (!assignment.notificationsEnabled) {
+      return;
+    }
+    try {
+      const [organisation, course, learner] = await Promise.all([
+        storage.getOrganisation(assignment.organisationId),
+        storage.getCourse(assignment.courseId),
+        storage.getUser(assignment.userId),
+      ]);
+
+      if (organisation && course && learner?.email) {
+        await automatedEmailService.sendCourseAssigned({
+          userName: `${learner.firstName} ${learner.lastName}`,
+          courseName: course.title,
+          dueDate: assignment.dueDate?.toISOString(),
+          orgName: organisation.displayName || organisation.name,
+          courseUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment.courseId}`,
+          userEmail: learner.email,
+          organisationId: assignment.organisationId,
+          courseId: assignment.courseId,
+          assignmentId: assignment.id,
+        });
+      }
+    } catch (error) {
+      console.warn(`${LOG_PREFIX} Failed to send course assigned email for ${assignment.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const learningPathService = new LearningPathService();
@@ -17,6 +17,8 @@ import type {
   EmailLog
 } from '@shared/schema';
 
+import type { EmailAttachment } from './adapters/BaseAdapter';
+
 // SMTP Adapter
 import { SMTPAdapter } from './adapters/SMTPAdapter';
 
@@ -80,6 +82,7 @@ export interface EmailSendParams {
   text?: string;
   html?: string;
   templateType?: string;
+  attachments?: EmailAttachment[];
 }
 
 export interface EmailResult {
@@ -762,7 +765,8 @@ export class MailerService {
       html: params.html,
       fromEmail: resolved.settings.fromEmail,
       fromName: resolved.settings.fromName,
-      replyTo: resolved.settings.replyTo
+      replyTo: resolved.settings.replyTo,
+      attachments: params.attachments
     }, resolved.settings);
 
     // Log delivery result with routing info
@@ -0,0 +1,217 @@
+/**
+ * Recertification Service
+ *
+ * Renews training before certificates lapse. Once a certificate enters its course's
+ * recertification window (courses.recertificationLeadDays before expiry) the learner's
+ * completed assignment is superseded by a fresh assignment cycle. Superseded cycles are
+ * kept, so attempts and completions from every cycle stay linked to their own assignment.
+ *
+ * Learners are told through the training_expiring and training_expired email templates.
+ */
+
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import type { Assignment, Certificate, Course } from '@shared/schema';
+
+const LOG_PREFIX = '[Recertification]';
+
+export interface RecertificationRunResult {
+  certificatesChecked: number;
+  cyclesOpened: number;
+  expiringNotified: number;
+  expiredNotified: number;
+}
+
+export class RecertificationService {
+
+  /**
+   * Process every certificate inside its recertification window.
+   * Safe to run repeatedly - each certificate records which steps have already happened.
+   */
+  async processDueRecertifications(): Promise<RecertificationRunResult> {
+    const result: RecertificationRunResult = {
+      certificatesChecked: 0,
+      cyclesOpened: 0,
+      expiringNotified: 0,
+      expiredNotified: 0,
+    };
+
+    const dueCertificates = await storage.getCertificatesDueForRecertification();
+    console.log(`${LOG_PREFIX} ${dueCertificates.length} certificate(s) inside the recertification window`);
+
+    for (const certificate of dueCertificates) {
+      result.certificatesChecked++;
+      try {
+        await this.processCertificate(certificate, result);
+      } catch (error) {
+        console.error(`${LOG_PREFIX} Failed to process certificate ${certificate.id}:`, error);
+        // Continue with the remaining certificates
+      }
+    }
+
+    console.log(`${LOG_PREFIX} Run complete: ${result.cyclesOpened} cycle(s) opened, ${result.expiringNotified} expiring and ${result.expiredNotified} expired notification(s) sent`);
+    return result;
+  }
+
+  /**
+   * Every assignment cycle for a learner and course, oldest first, with the completions recorded against each.
+   */
+  async getHistory(userId: string, courseId: string) {
+    const cycles = await storage.getAssignmentHistory(courseId, userId);
+    return Promise.all(cycles.map(async (assignment) => ({
+      ...assignment,
+      completions: await storage.getCompletionsByAssignment(assignment.id),
+    })));
+  }
+
+  private async processCertificate(certificate: Certificate, result: RecertificationRunResult): Promise<void> {
+    const [course, learner] = await Promise.all([
+      storage.getCourse(certificate.courseId),
+      storage.getUser(certificate.userId),
+    ]);
+
+    if (!course || !certificate.expiryDate || !learner || learner.status !== 'active') {
+      return;
+    }
+
+    const now = new Date();
+    const expiryDate = new Date(certificate.expiryDate);
+    let assignment: Assignment | undefined;
+
+    if (!certificate.recertificationAssignmentId) {
+      assignment = await this.openCycle(certificate, course);
+      result.cyclesOpened++;
+
+      const notify = expiryDate > now && assignment.notificationsEnabled !== false;
+      if (notify) {
+        await this.sendExpiryEmail('training_expiring', certificate, course, assignment);
+        result.expiringNotified++;
+      }
+
+      await storage.updateCertificate(certificate.id, {
+        recertificationAssignmentId: assignment.id,
+        ...(notify && { expiringNotifiedAt: now }),
+      });
+    }
+
+    if (expiryDate <= now && !certificate.expiredNotifiedAt) {
+      assignment = assignment || await storage.getAssignment(certificate.recertificationAssignmentId!);
+      if (assignment?.notificationsEnabled !== false) {
+        await this.sendExpiryEmail('training_expired', certificate, course, assignment);
+        result.expiredNotified++;
+      }
+      await storage.updateCertificate(certificate.id, { expiredNotifiedAt: now });
+    }
+  }
+
+  /**
+   * Open a new assignment cycle for the certificate's learner and course.
+   * An assignment that is still open (e.g. an admin already reassigned the course) is reused as-is.
+   */
+  private async openCycle(certificate: Certificate, course: Course): Promise<Assignment> {
+    const current = await storage.getExistingAssignment(course.id, certificate.userId);
+
+    if (current && current.status !== 'completed') {
+      console.log(`${LOG_PREFIX} Reusing open assignment ${current.id} for certificate ${certificate.id}`);
+      return current;
+    }
+
+    const assignmentData = {
+      courseId: course.id,
+      userId: certificate.userId,
+      organisationId: certificate.organisationId,
+      dueDate: certificate.expiryDate,
+      status: 'not_started' as const,
+      assignedBy: current?.assignedBy || 'system',
+      notificationsEnabled: current?.notificationsEnabled ?? true,
+      recertificationCycle: (current?.recertificationCycle ?? 0) + 1,
+    };
+
+    const assignment = current
+      ? await storage.openRecertificationCycle(current.id, assignmentData)
+      : await storage.createAssignment(assignmentData);
+
+    console.log(`${LOG_PREFIX} Opened cycle ${assignment.recertificationCycle} (${assignment.id}) for user ${certificate.userId} on course ${course.id}`);
+    return assignment;
+  }
+
+  private async sendExpiryEmail(
+    templateKey: 'training_expiring' | 'training_expired',
+    certificate: Certificate,
+    course: Course,
+    assignment?: Assignment
+  ): Promise<void> {
+    const [organisation, learner, completion] = await Promise.all([
+      storage.getOrganisation(certificate.organisationId),
+      storage.getUser(certificate.userId),
+      storage.getCompletion(certificate.completionId),
+    ]);
+
+    if (!organisation || !learner?.email || !certificate.expiryDate) {
+      return;
+    }
+
+    // The templates require an admin contact - fall back to the platform reply-to address
+    const systemSettings = organisation.contactEmail ? undefined : await storage.getSystemEmailSettings();
+    const contactEmail = organisation.contactEmail || systemSettings?.replyTo || systemSettings?.fromEmail || undefined;
+
+    const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+    const expiryDate = new Date(certificate.expiryDate);
+    const dayMs = 1000 * 60 * 60 * 24;
+    const courseUrl = `${process.env.REPLIT_URL || 'http://localhost:5000'}/course/${assignment?.courseId || course.id}`;
+    const expired = templateKey === 'training_expired';
+
+    const result = await emailOrchestrator.queue({
+      triggerEvent: expired ? 'TRAINING_EXPIRED' : 'TRAINING_EXPIRING',
+      templateKey,
+      toEmail: learner.email,
+      context: {
+        user: {
+          id: learner.id,
+          name: `${learner.firstName} ${learner.lastName}`,
+          firstName: learner.firstName || undefined,
+          lastName: learner.lastName || undefined,
+          email: learner.email,
+        },
+        org: {
+          name: organisation.displayName || organisation.name,
+        },
+        course: {
+          title: course.title,
+          description: course.description || course.title,
+        },
+        completion: {
+          date: formatDate(new Date(completion?.completedAt || certificate.issuedAt || expiryDate)),
+          status: 'Passed',
+        },
+        expiry: {
+          date: formatDate(expiryDate),
+          days_remaining: Math.max(0, Math.ceil((expiryDate.getTime() - Date.now()) / dayMs)),
+          days_expired: Math.max(0, Math.floor((Date.now() - expiryDate.getTime()) / dayMs)),
+          validity_period: course.certificateExpiryPeriod ? `${course.certificateExpiryPeriod} months` : 'N/A',
+        },
+        renewal: {
+          start_url: courseUrl,
+          urgent_url: courseUrl,
+        },
+        compliance: {
+          impact_level: 'Training no longer valid',
+        },
+        admin: {
+          contact_email: contactEmail,
+          phone: organisation.contactPhone || undefined,
+        },
+      },
+      organisationId: certificate.organisationId,
+      resourceId: `recertification:${certificate.id}:${templateKey}`,
+      priority: expired ? 1 : 2,
+    });
+
+    if (!result.success && result.idempotencyStatus !== 'duplicate') {
+      console.warn(`${LOG_PREFIX} Failed to queue ${templateKey} email for certificate ${certificate.id}:`, result.error?.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const recertificationService = new RecertificationService();
@@ -0,0 +1,260 @@
+/**
+ * Report Subscription Service
+ *
+ * Runs saved report definitions on their daily, weekly or monthly schedule. Each run builds
+ * the report in memory from the stored training matrix filters and emails it to every
+ * recipient as an attachment through the EmailOrchestrator.
+ */
+
+import { createObjectCsvStringifier } from 'csv-writer';
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import { emailLocaleService } from './EmailLocaleService';
+import { trainingMatrixService } from './TrainingMatrixService';
+import { trainingMatrixExportService, type TrainingMatrixExportFormat } from './TrainingMatrixExportService';
+import type { EmailAttachment } from './adapters/BaseAdapter';
+import type { ReportSubscription } from '@shared/schema';
+
+const LOG_PREFIX = '[ReportSubscription]';
+
+export const REPORT_TITLES: Record<ReportSubscription['reportType'], string> = {
+  training_matrix: 'Training Matrix',
+  overdue: 'Overdue Training',
+  completions: 'Completion Analytics',
+};
+
+export interface ReportSchedule {
+  frequency: ReportSubscription['frequency'];
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  hour?: number | null;
+}
+
+export interface GeneratedReport {
+  attachment: EmailAttachment;
+  rowCount: number;
+}
+
+export interface ReportDeliveryResult {
+  recipients: number;
+  queued: number; // Handed to the email queue - the worker sends them and records the outcome
+  rowCount: number;
+  error?: string;
+}
+
+export interface ReportRunResult {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+export class ReportSubscriptionService {
+
+  /**
+   * First scheduled time strictly after `from`, in server time
+   */
+  getNextRunAt(schedule: ReportSchedule, from: Date = new Date()): Date {
+    const hour = schedule.hour ?? 7;
+    const next = new Date(from);
+    next.setHours(hour, 0, 0, 0);
+
+    if (schedule.frequency === 'daily') {
+      if (next <= from) {
+        next.setDate(next.getDate() + 1);
+      }
+    } else if (schedule.frequency === 'weekly') {
+      const dayOfWeek = schedule.dayOfWeek ?? 1;
+      next.setDate(next.getDate() + ((dayOfWeek - next.getDay() + 7) % 7));
+      if (next <= from) {
+        next.setDate(next.getDate() + 7);
+      }
+    } else {
+      // Monthly - days are capped at 28 so every month has the run day
+      next.setDate(schedule.dayOfMonth ?? 1);
+      if (next <= from) {
+        next.setMonth(next.getMonth() + 1);
+      }
+    }
+
+    // Moving the date keeps the clock time, which is an hour late if the run hour was skipped when the clocks went forward
+    next.setHours(hour, 0, 0, 0);
+    return next;
+  }
+
+  /**
+   * Send every active subscription whose next run time has passed.
+   * Each subscription is claimed before it is sent, so overlapping runs never send it twice.
+   */
+  async runDueReports(): Promise<ReportRunResult> {
+    const now = new Date();
+    const result: ReportRunResult = { due: 0, sent: 0, failed: 0 };
+
+    const dueSubscriptions = await storage.getDueReportSubscriptions(now);
+    console.log(`${LOG_PREFIX} ${dueSubscriptions.length} report subscription(s) due`);
+
+    for (const subscription of dueSubscriptions) {
+      result.due++;
+      try {
+        const claimed = await storage.claimReportSubscriptionRun(
+          subscription.id,
+          subscription.nextRunAt!,
+          this.getNextRunAt(subscription, now)
+        );
+        if (!claimed) {
+          continue;
+        }
+
+        const delivery = await this.deliver(claimed);
+        if (delivery.error) {
+          result.failed++;
+        } else {
+          result.sent++;
+        }
+      } catch (error) {
+        result.failed++;
+        console.error(`${LOG_PREFIX} Failed to run report subscription ${subscription.id}:`, error);
+        // Continue with the remaining subscriptions
+      }
+    }
+
+    console.log(`${LOG_PREFIX} Run complete: ${result.sent} sent, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Generate the report now and email it to the subscription's recipients, recording the outcome
+   */
+  async deliver(subscription: ReportSubscription): Promise<ReportDeliveryResult> {
+    const runAt = new Date();
+    const result: ReportDeliveryResult = { recipients: subscription.recipients.length, queued: 0, rowCount: 0 };
+
+    try {
+      const organisation = await storage.getOrganisation(subscription.organisationId);
+      const report = await this.generateReport(subscription, runAt);
+      result.rowCount = report.rowCount;
+
+      const templateData = {
+        reportName: subscription.name,
+        reportTitle: REPORT_TITLES[subscription.reportType],
+        orgName: organisation?.displayName || organisation?.name || 'inteLMS',
+        generatedAt: runAt.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' }),
+        rowCount: report.rowCount,
+        filename: report.attachment.filename,
+      };
+
+      const failures: string[] = [];
+      for (const recipient of subscription.recipients) {
+        // Recipients can be users with their own language or outside addresses
+        const template = await emailLocaleService.renderForRecipient('scheduledReport', templateData, recipient);
+        const queued = await emailOrchestrator.queue({
+          triggerEvent: 'SCHEDULED_REPORT',
+          toEmail: recipient,
+          context: {},
+          organisationId: subscription.organisationId,
+          resourceId: `report:${subscription.id}:${runAt.toISOString()}`,
+          preRenderedContent: {
+            subject: template.subject,
+            htmlBody: template.html,
+            textBody: template.text,
+          },
+          attachments: [report.attachment],
+          priority: 3,
+        });
+
+        if (queued.success) {
+          result.queued++;
+        } else {
+          failures.push(`${recipient}: ${queued.error?.message || 'could not be queued'}`);
+        }
+      }
+
+      if (failures.length > 0) {
+        result.error = failures.join('; ');
+      }
+    } catch (error: any) {
+      result.error = error.message || 'Failed to generate report';
+    }
+
+    await storage.updateReportSubscription(subscription.id, {
+      lastRunAt: runAt,
+      lastRunStatus: result.error && result.queued === 0 ? 'failed' : 'queued',
+      lastError: result.error || null,
+    });
+
+    console.log(`${LOG_PREFIX} "${subscription.name}" queued for ${result.queued}/${result.recipients} recipient(s)${result.error ? ` - ${result.error}` : ''}`);
+    return result;
+  }
+
+  /**
+   * Build the report file for a subscription. The training matrix can be sent as CSV, XLSX or PDF;
+   * the overdue list and completion analytics are CSV only.
+   */
+  async generateReport(subscription: ReportSubscription, runAt: Date = new Date()): Promise<GeneratedReport> {
+    const slug = subscription.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || subscription.reportType;
+    const filename = `${slug}-${runAt.toISOString().slice(0, 10)}`;
+
+    if (subscription.reportType === 'training_matrix') {
+      const organisation = await storage.getOrganisation(subscription.organisationId);
+      if (!organisation) {
+        throw new Error('Organisation not found');
+      }
+      const file = await trainingMatrixExportService.export(
+        organisation,
+        subscription.filters || {},
+        subscription.format as TrainingMatrixExportFormat,
+        filename
+      );
+      return {
+        attachment: { filename: file.filename, contentType: file.contentType, content: file.content.toString('base64') },
+        rowCount: file.rowCount,
+      };
+    }
+
+    const { header, records } = await this.buildRows(subscription);
+    const csvStringifier = createObjectCsvStringifier({ header });
+    const csv = csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records);
+
+    return {
+      attachment: {
+        filename: `${filename}.csv`,
+        contentType: 'text/csv',
+        content: Buffer.from(csv, 'utf8').toString('base64'),
+      },
+      rowCount: records.length,
+    };
+  }
+
+  private async buildRows(subscription: ReportSubscription): Promise<{
+    header: { id: string; title: string }[];
+    records: Record<string, string | number | null>[];
+  }> {
+    if (subscription.reportType === 'overdue') {
+      const overdue = await trainingMatrixService.buildOverdueList(subscription.organisationId, subscription.filters || {});
+      return {
+        header: [
+          { id: 'staffName', title: 'Staff Name' },
+          { id: 'email', title: 'Email' },
+          { id: 'department', title: 'Department' },
+          { id: 'jobTitle', title: 'Job Title' },
+          { id: 'courseTitle', title: 'Course' },
+          { id: 'dueDate', title: 'Due Date' },
+        ],
+        records: overdue,
+      };
+    }
+
+    const analytics = await storage.getCompletionAnalytics(subscription.organisationId);
+    return {
+      header: [
+        { id: 'monthName', title: 'Month' },
+        { id: 'total', title: 'Completions' },
+        { id: 'successful', title: 'Passed' },
+        { id: 'failed', title: 'Failed' },
+      ],
+      records: analytics,
+    };
+  }
+}
+
+// Export singleton instance
+export const reportSubscriptionService = new ReportSubscriptionService();
@@ -0,0 +1,177 @@
+/**
+ * Team Service
+ *
+ * Reporting lines within an organisation. A user's `managerId` points at the person they report
+ * to; users flagged `isManager` can see and assign training for everyone below them - their direct
+ * reports and, in turn, those people's reports. Managers also get a weekly digest of their team's
+ * overdue, expired and soon-due training.
+ */
+
+import { storage } from '../storage';
+import { emailOrchestrator } from './EmailOrchestrator';
+import { emailLocaleService } from './EmailLocaleService';
+import { trainingMatrixService } from './TrainingMatrixService';
+import type { User } from '@shared/schema';
+
+const LOG_PREFIX = '[Teams]';
+
+// Matrix labels that make it into a manager's digest
+const DIGEST_LABELS = ['Overdue', 'Expired', 'Due Soon', 'Expiring'];
+
+export interface TeamMember {
+  user: User;
+  isDirectReport: boolean;
+}
+
+export interface ManagerDigestRunResult {
+  managers: number;
+  sent: number;
+  failed: number;
+}
+
+export class TeamService {
+
+  /**
+   * Everyone below the manager in the reporting line, from an already-loaded list of organisation users
+   */
+  collectTeam(managerId: string, orgUsers: User[]): TeamMember[] {
+    const reportsByManager = new Map<string, User[]>();
+    orgUsers.forEach(user => {
+      if (!user.managerId) return;
+      reportsByManager.set(user.managerId, [...(reportsByManager.get(user.managerId) || []), user]);
+    });
+
+    // Breadth-first down the reporting line; the visited set stops a bad loop in the data running forever
+    const team: TeamMember[] = [];
+    const visited = new Set<string>([managerId]);
+    let level = reportsByManager.get(managerId) || [];
+    let isDirectReport = true;
+    while (level.length > 0) {
+      const nextLevel: User[] = [];
+      level.forEach(user => {
+        if (visited.has(user.id)) return;
+        visited.add(user.id);
+        team.push({ user, isDirectReport });
+        nextLevel.push(...(reportsByManager.get(user.id) || []));
+      });
+      level = nextLevel;
+      isDirectReport = false;
+    }
+    return team;
+  }
+
+  async getTeam(manager: Pick<User, 'id' | 'organisationId'>): Promise<TeamMember[]> {
+    if (!manager.organisationId) {
+      return [];
+    }
+    const orgUsers = await storage.getUsersByOrganisation(manager.organisationId);
+    return this.collectTeam(manager.id, orgUsers);
+  }
+
+  async getTeamMemberIds(manager: Pick<User, 'id' | 'organisationId'>): Promise<string[]> {
+    return (await this.getTeam(manager)).map(member => member.user.id);
+  }
+
+  /**
+   * Why `managerId` cannot be set as the manager of `userId`, or null if it can.
+   * Pass a null userId when the user is being created.
+   */
+  async validateManager(userId: string | null, managerId: string, organisationId: string | null): Promise<string | null> {
+    if (userId && userId === managerId) {
+      return 'A user cannot report to themselves';
+    }
+    const manager = await storage.getUser(managerId);
+    if (!manager || !organisationId || manager.organisationId !== organisationId) {
+      return 'Manager not found in this organisation';
+    }
+    if (userId) {
+      const team = await this.getTeamMemberIds({ id: userId, organisationId });
+      if (team.includes(managerId)) {
+        return 'That manager already reports to this user';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Send each active manager a summary of their team's training that needs attention.
+   * Managers whose team has nothing outstanding are skipped.
+   */
+  async sendManagerDigests(now: Date = new Date()): Promise<ManagerDigestRunResult> {
+    const result: ManagerDigestRunResult = { managers: 0, sent: 0, failed: 0 };
+    const organisations = (await storage.getAllOrganisations()).filter(org => org.status === 'active');
+    const runDate = now.toISOString().slice(0, 10);
+
+    for (const organisation of organisations) {
+      const orgUsers = await storage.getUsersByOrganisation(organisation.id);
+      const managers = orgUsers.filter(user => user.isManager && user.status === 'active' && user.email);
+
+      for (const manager of managers) {
+        result.managers++;
+        try {
+          const team = this.collectTeam(manager.id, orgUsers);
+          if (team.length === 0) continue;
+
+          const matrix = await trainingMatrixService.buildMatrix(organisation.id, {
+            teamUserIds: team.map(member => member.user.id),
+          });
+          const items: { staffName: string; courseTitle: string; status: string; date: string | null }[] = [];
+          matrix.staff.forEach((staffMember, staffIndex) => {
+            matrix.courses.forEach((course, courseIndex) => {
+              const cell = matrix.matrix[staffIndex][courseIndex];
+              if (!cell || !DIGEST_LABELS.includes(cell.label)) return;
+              items.push({
+                staffName: `${staffMember.firstName || ''} ${staffMember.lastName || ''}`.trim() || staffMember.email || 'Unknown',
+                courseTitle: course.title,
+                status: cell.label,
+                date: cell.expiryDate || cell.dueDate || null,
+              });
+            });
+          });
+          if (items.length === 0) continue;
+
+          // Most urgent first
+          items.sort((a, b) => DIGEST_LABELS.indexOf(a.status) - DIGEST_LABELS.indexOf(b.status));
+
+          const template = emailLocaleService.render('managerDigest', {
+            managerName: manager.firstName || 'there',
+            orgName: organisation.displayName || organisation.name,
+            teamSize: team.length,
+            items,
+            teamUrl: `${process.env.REPLIT_URL || 'http://localhost:5000'}/user/team`,
+          }, manager.preferredLanguage);
+
+          const queued = await emailOrchestrator.queue({
+            triggerEvent: 'MANAGER_DIGEST',
+            toEmail: manager.email!,
+            context: {},
+            organisationId: organisation.id,
+            resourceId: `MANAGER_DIGEST:${manager.id}:${runDate}`,
+            preRenderedContent: {
+              subject: template.subject,
+              htmlBody: template.html,
+              textBody: template.text,
+            },
+            priority: 3,
+          });
+
+          if (queued.success) {
+            result.sent++;
+          } else {
+            result.failed++;
+          }
+        } catch (error) {
+          result.failed++;
+          console.error(`${LOG_PREFIX} Failed to send digest to manager ${manager.id}:`, error);
+          // Continue with the remaining managers
+        }
+      }
+    }
+
+    console.log(`${LOG_PREFIX} Digest run complete: ${result.sent} sent, ${result.failed} failed (${result.managers} manager(s))`);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const teamService = new TeamService();
@@ -0,0 +1,462 @@
+/**
+ * Training Matrix Export Service
+ *
+ * Renders the training matrix as CSV, XLSX or PDF entirely in memory, so concurrent exports
+ * never share a file. XLSX and PDF use the same status colours as the on-screen grid:
+ * the workbook has one sheet per department with frozen headers, and the PDF is a paginated
+ * landscape grid with the organisation's logo.
+ */
+
+import ExcelJS from 'exceljs';
+import { createObjectCsvStringifier } from 'csv-writer';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib';
+import { ObjectStorageService } from '../objectStorage';
+import { trainingMatrixService, type TrainingMatrix, type TrainingMatrixFilters } from './TrainingMatrixService';
+import type { Organisation } from '@shared/schema';
+
+export type TrainingMatrixExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const TRAINING_MATRIX_EXPORT_FORMATS: TrainingMatrixExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+export interface TrainingMatrixExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  rowCount: number;
+}
+
+type MatrixCell = TrainingMatrix['matrix'][number][number];
+
+// Fill / text colours per cell status, matching the on-screen legend
+const STATUS_COLOURS: Record<string, { fill: string; text: string }> = {
+  red: { fill: 'F8D7DA', text: '842029' },
+  failed: { fill: 'F5C2C7', text: '842029' },
+  amber: { fill: 'FFF3CD', text: '664D03' },
+  green: { fill: 'D4EDDA', text: '0F5132' },
+  blue: { fill: 'D1ECF1', text: '055160' },
+  grey: { fill: 'E5E7EB', text: '374151' },
+};
+
+const STATUS_LEGEND: { status: string; label: string }[] = [
+  { status: 'green', label: 'Complete / in date' },
+  { status: 'amber', label: 'Expiring or due soon' },
+  { status: 'red', label: 'Overdue or expired' },
+  { status: 'failed', label: 'Failed' },
+  { status: 'blue', label: 'In progress' },
+  { status: 'grey', label: 'Not started' },
+];
+
+const CONTENT_TYPES: Record<TrainingMatrixExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+// A4 landscape, in points
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const PAGE_MARGIN = 28;
+const NAME_COLUMN_WIDTH = 130;
+const MIN_COURSE_COLUMN_WIDTH = 68;
+const HEADER_ROW_HEIGHT = 34;
+const ROW_HEIGHT = 24;
+
+export class TrainingMatrixExportService {
+
+  /**
+   * Build the filtered matrix for an organisation and render it in the requested format
+   */
+  async export(
+    organisation: Organisation,
+    filters: TrainingMatrixFilters,
+    format: TrainingMatrixExportFormat,
+    filename: string = `training-matrix-${new Date().toISOString().split('T')[0]}`
+  ): Promise<TrainingMatrixExportFile> {
+    const matrix = await trainingMatrixService.buildMatrix(organisation.id, filters);
+
+    let content: Buffer;
+    if (format === 'xlsx') {
+      content = await this.toXlsx(organisation, matrix);
+    } else if (format === 'pdf') {
+      content = await this.toPdf(organisation, matrix);
+    } else {
+      content = this.toCsv(matrix);
+    }
+
+    return { filename: `${filename}.${format}`, contentType: CONTENT_TYPES[format], content, rowCount: matrix.staff.length };
+  }
+
+  private toCsv(matrix: TrainingMatrix): Buffer {
+    const csvStringifier = createObjectCsvStringifier({
+      header: [
+        { id: 'staffName', title: 'Staff Name' },
+        { id: 'department', title: 'Department' },
+        { id: 'jobTitle', title: 'Job Title' },
+        ...matrix.courses.map(course => ({ id: course.id, title: course.title })),
+      ],
+    });
+
+    const records = matrix.staff.map((staffMember, staffIndex) => {
+      const record: Record<string, string> = {
+        staffName: `${staffMember.firstName} ${staffMember.lastName}`,
+        department: staffMember.department || '',
+        jobTitle: staffMember.jobTitle || '',
+      };
+      matrix.courses.forEach((course, courseIndex) => {
+        record[course.id] = this.cellText(matrix.matrix[staffIndex][courseIndex]).join(' - ');
+      });
+      return record;
+    });
+
+    return Buffer.from(csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records), 'utf8');
+  }
+
+  private async toXlsx(organisation: Organisation, matrix: TrainingMatrix): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'inteLMS';
+    workbook.created = new Date();
+
+    const generatedAt = new Date().toLocaleString('en-GB', { dateStyle: 'long', timeStyle: 'short' });
+    const learningPaths = matrix.learningPaths || [];
+    const usedSheetNames = new Set<string>();
+
+    // Group staff rows by department, keeping each row's index into the matrix
+    const departments = new Map<string, number[]>();
+    matrix.staff.forEach((staffMember, staffIndex) => {
+      const department = staffMember.department || 'No department';
+      departments.set(department, [...(departments.get(department) || []), staffIndex]);
+    });
+    if (departments.size === 0) {
+      departments.set('Training Matrix', []);
+    }
+
+    const departmentNames = Array.from(departments.keys()).sort((a, b) => a.localeCompare(b));
+    for (const department of departmentNames) {
+      const sheet = workbook.addWorksheet(this.sheetName(department, usedSheetNames), {
+        views: [{ state: 'frozen', xSplit: 1, ySplit: 4 }],
+        pageSetup: { orientation: 'landscape', fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+      });
+
+      sheet.getCell('A1').value = `Training Matrix - ${organisation.displayName || organisation.name}`;
+      sheet.getCell('A1').font = { bold: true, size: 14 };
+      sheet.getCell('A2').value = `${department} · Generated ${generatedAt}`;
+      sheet.getCell('A2').font = { italic: true, color: { argb: 'FF6B7280' } };
+
+      const header = sheet.getRow(4);
+      header.values = [
+        'Staff Name',
+        'Email',
+        'Job Title',
+        ...matrix.courses.map(course => course.title),
+        ...learningPaths.map(path => `${path.title} (path)`),
+      ];
+      header.font = { bold: true };
+      header.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+      header.height = 36;
+      header.eachCell(cell => {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } };
+        cell.border = { bottom: { style: 'thin', color: { argb: 'FF9CA3AF' } } };
+      });
+
+      sheet.getColumn(1).width = 26;
+      sheet.getColumn(2).width = 30;
+      sheet.getColumn(3).width = 20;
+      for (let column = 4; column < 4 + matrix.courses.length + learningPaths.length; column++) {
+        sheet.getColumn(column).width = 20;
+      }
+
+      for (const staffIndex of departments.get(department)!) {
+        const staffMember = matrix.staff[staffIndex];
+        const row = sheet.addRow([
+          `${staffMember.firstName} ${staffMember.lastName}`,
+          staffMember.email || '',
+          staffMember.jobTitle || '',
+          ...matrix.courses.map((_, courseIndex) => this.cellText(matrix.matrix[staffIndex][courseIndex]).join('\n')),
+          ...learningPaths.map((_, pathIndex) => {
+            const pathCell = matrix.learningPathMatrix[staffIndex]?.[pathIndex];
+            return pathCell ? `${pathCell.completedSteps}/${pathCell.totalSteps} courses` : '-';
+          }),
+        ]);
+        row.alignment = { vertical: 'middle', wrapText: true };
+
+        matrix.courses.forEach((_, courseIndex) => {
+          const colours = this.statusColours(matrix.matrix[staffIndex][courseIndex]);
+          const cell = row.getCell(4 + courseIndex);
+          cell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+          if (colours) {
+            cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${colours.fill}` } };
+            cell.font = { color: { argb: `FF${colours.text}` } };
+          }
+        });
+      }
+
+      sheet.autoFilter = {
+        from: { row: 4, column: 1 },
+        to: { row: 4, column: 3 + matrix.courses.length + learningPaths.length },
+      };
+    }
+
+    // Colour key
+    const key = workbook.addWorksheet(this.sheetName('Key', usedSheetNames));
+    key.getColumn(1).width = 28;
+    key.addRow(['Status']).font = { bold: true };
+    for (const { status, label } of STATUS_LEGEND) {
+      const cell = key.addRow([label]).getCell(1);
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${STATUS_COLOURS[status].fill}` } };
+      cell.font = { color: { argb: `FF${STATUS_COLOURS[status].text}` } };
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private async toPdf(organisation: Organisation, matrix: TrainingMatrix): Promise<Buffer> {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const logo = await this.loadLogo(pdfDoc, organisation.logoUrl);
+
+    const organisationName = organisation.displayName || organisation.name;
+    const generatedAt = new Date().toLocaleString('en-GB', { dateStyle: 'long', timeStyle: 'short' });
+    pdfDoc.setTitle(`Training Matrix - ${organisationName}`);
+    pdfDoc.setCreator('inteLMS');
+
+    // Split wide matrices into column bands, each printed across as many pages as its rows need
+    const tableWidth = PAGE_WIDTH - PAGE_MARGIN * 2 - NAME_COLUMN_WIDTH;
+    const coursesPerPage = Math.max(1, Math.floor(tableWidth / MIN_COURSE_COLUMN_WIDTH));
+    const tableTop = PAGE_HEIGHT - PAGE_MARGIN - 78;
+    const rowsPerPage = Math.max(1, Math.floor((tableTop - HEADER_ROW_HEIGHT - PAGE_MARGIN - 14) / ROW_HEIGHT));
+
+    const courseBands: number[][] = [];
+    for (let start = 0; start < Math.max(matrix.courses.length, 1); start += coursesPerPage) {
+      courseBands.push(matrix.courses.slice(start, start + coursesPerPage).map((_, offset) => start + offset));
+    }
+    const staffIndexes = matrix.staff.map((_, staffIndex) => staffIndex);
+    const staffPages: number[][] = [];
+    for (let start = 0; start < Math.max(staffIndexes.length, 1); start += rowsPerPage) {
+      staffPages.push(staffIndexes.slice(start, start + rowsPerPage));
+    }
+
+    const pages: PDFPage[] = [];
+    for (const band of courseBands) {
+      const columnWidth = band.length > 0 ? tableWidth / band.length : tableWidth;
+
+      for (const staffPage of staffPages) {
+        const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        pages.push(page);
+
+        // Page header
+        page.drawText('Training Matrix Report', { x: PAGE_MARGIN, y: PAGE_HEIGHT - PAGE_MARGIN - 18, size: 18, font: boldFont });
+        page.drawText(this.pdfText(organisationName, boldFont, 12, 400), { x: PAGE_MARGIN, y: PAGE_HEIGHT - PAGE_MARGIN - 36, size: 12, font: boldFont, color: rgb(0.3, 0.3, 0.3) });
+        page.drawText(`Generated on ${generatedAt}`, { x: PAGE_MARGIN, y: PAGE_HEIGHT - PAGE_MARGIN - 50, size: 9, font, color: rgb(0.45, 0.45, 0.45) });
+        if (logo) {
+          const scaled = logo.scaleToFit(110, 50);
+          page.drawImage(logo, { x: PAGE_WIDTH - PAGE_MARGIN - scaled.width, y: PAGE_HEIGHT - PAGE_MARGIN - scaled.height, width: scaled.width, height: scaled.height });
+        }
+        this.drawLegend(page, font, PAGE_HEIGHT - PAGE_MARGIN - 66);
+
+        // Column headers
+        let y = tableTop;
+        this.drawBox(page, PAGE_MARGIN, y - HEADER_ROW_HEIGHT, NAME_COLUMN_WIDTH, HEADER_ROW_HEIGHT, this.hexColour('F3F4F6'));
+        page.drawText('Staff', { x: PAGE_MARGIN + 4, y: y - HEADER_ROW_HEIGHT / 2 - 3, size: 8, font: boldFont });
+        band.forEach((courseIndex, column) => {
+          const x = PAGE_MARGIN + NAME_COLUMN_WIDTH + column * columnWidth;
+          this.drawBox(page, x, y - HEADER_ROW_HEIGHT, columnWidth, HEADER_ROW_HEIGHT, this.hexColour('F3F4F6'));
+          this.drawLines(page, this.wrapText(matrix.courses[courseIndex].title, boldFont, 7, columnWidth - 6, 3), x + 3, y - 10, 7, boldFont);
+        });
+        y -= HEADER_ROW_HEIGHT;
+
+        if (staffPage.length === 0) {
+          page.drawText('No staff match the selected filters.', { x: PAGE_MARGIN + 4, y: y - 16, size: 9, font, color: rgb(0.45, 0.45, 0.45) });
+        }
+
+        // Staff rows
+        for (const staffIndex of staffPage) {
+          const staffMember = matrix.staff[staffIndex];
+          this.drawBox(page, PAGE_MARGIN, y - ROW_HEIGHT, NAME_COLUMN_WIDTH, ROW_HEIGHT);
+          this.drawLines(page, [
+            this.pdfText(`${staffMember.firstName} ${staffMember.lastName}`, boldFont, 7.5, NAME_COLUMN_WIDTH - 8),
+            this.pdfText(staffMember.jobTitle || staffMember.department || '', font, 6.5, NAME_COLUMN_WIDTH - 8),
+          ], PAGE_MARGIN + 4, y - 9, 7.5, boldFont, font);
+
+          band.forEach((courseIndex, column) => {
+            const cell = matrix.matrix[staffIndex][courseIndex];
+            const colours = this.statusColours(cell);
+            const x = PAGE_MARGIN + NAME_COLUMN_WIDTH + column * columnWidth;
+            this.drawBox(page, x, y - ROW_HEIGHT, columnWidth, ROW_HEIGHT, colours ? this.hexColour(colours.fill) : undefined);
+            const [label, detail] = this.cellText(cell);
+            const textColour = colours ? this.hexColour(colours.text) : rgb(0.6, 0.6, 0.6);
+            page.drawText(this.pdfText(label, boldFont, 7, columnWidth - 6), { x: x + 3, y: y - 10, size: 7, font: boldFont, color: textColour });
+            if (detail) {
+              page.drawText(this.pdfText(detail, font, 6, columnWidth - 6), { x: x + 3, y: y - 19, size: 6, font, color: textColour });
+            }
+          });
+          y -= ROW_HEIGHT;
+        }
+      }
+    }
+
+    pages.forEach((page, index) => {
+      const footer = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(footer, {
+        x: PAGE_WIDTH - PAGE_MARGIN - font.widthOfTextAtSize(footer, 8),
+        y: PAGE_MARGIN / 2,
+        size: 8,
+        font,
+        color: rgb(0.45, 0.45, 0.45),
+      });
+    });
+
+    return Buffer.from(await pdfDoc.save());
+  }
+
+  /**
+   * Cell label plus its date detail, e.g. ['In date', 'Exp: 01/02/2026']
+   */
+  private cellText(cell: MatrixCell | null): string[] {
+    if (!cell) {
+      return [''];
+    }
+    if (cell.status === 'blank') {
+      return ['-'];
+    }
+    if (cell.expiryDate) {
+      return [cell.label, `Exp: ${cell.expiryDate}`];
+    }
+    if (cell.dueDate) {
+      return [cell.label, `Due: ${cell.dueDate}`];
+    }
+    if (cell.completionDate) {
+      return [cell.label, cell.completionDate];
+    }
+    return [cell.label];
+  }
+
+  private statusColours(cell: MatrixCell | null) {
+    return cell ? STATUS_COLOURS[cell.status] : undefined;
+  }
+
+  // Excel sheet names: 31 characters, no []:*?/\ and unique within the workbook
+  private sheetName(name: string, used: Set<string>): string {
+    const base = name.replace(/[\[\]:*?\/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let candidate = base;
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  private async loadLogo(pdfDoc: PDFDocument, logoUrl: string | null): Promise<PDFImage | null> {
+    if (!logoUrl) {
+      return null;
+    }
+
+    try {
+      let bytes: Buffer;
+      if (logoUrl.startsWith('/objects/')) {
+        const objectFile = await new ObjectStorageService().getObjectEntityFile(logoUrl);
+        [bytes] = await objectFile.download();
+      } else if (logoUrl.startsWith('http')) {
+        const response = await fetch(logoUrl);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        bytes = Buffer.from(await response.arrayBuffer());
+      } else {
+        return null;
+      }
+
+      // PNG files start 0x89 'P' 'N' 'G', JPEGs 0xFF 0xD8; other formats can't be embedded
+      if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+        return await pdfDoc.embedPng(bytes);
+      }
+      if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return await pdfDoc.embedJpg(bytes);
+      }
+      console.warn(`⚠️ Training matrix PDF: logo ${logoUrl} is not a PNG or JPEG, leaving it out`);
+    } catch (error) {
+      console.warn(`⚠️ Training matrix PDF: could not load logo ${logoUrl}:`, error);
+    }
+    return null;
+  }
+
+  private drawLegend(page: PDFPage, font: PDFFont, y: number) {
+    let x = PAGE_MARGIN;
+    for (const { status, label } of STATUS_LEGEND) {
+      this.drawBox(page, x, y - 2, 9, 9, this.hexColour(STATUS_COLOURS[status].fill));
+      page.drawText(label, { x: x + 12, y, size: 7, font, color: rgb(0.3, 0.3, 0.3) });
+      x += 12 + font.widthOfTextAtSize(label, 7) + 14;
+    }
+  }
+
+  private drawBox(page: PDFPage, x: number, y: number, width: number, height: number, fill?: RGB) {
+    page.drawRectangle({
+      x,
+      y,
+      width,
+      height,
+      color: fill,
+      borderColor: rgb(0.82, 0.82, 0.82),
+      borderWidth: 0.5,
+    });
+  }
+
+  private drawLines(page: PDFPage, lines: string[], x: number, y: number, size: number, firstFont: PDFFont, restFont: PDFFont = firstFont) {
+    lines.forEach((line, index) => {
+      page.drawText(line, { x, y: y - index * (size + 2), size: index === 0 ? size : size - 1, font: index === 0 ? firstFont : restFont });
+    });
+  }
+
+  private wrapText(text: string, font: PDFFont, size: number, maxWidth: number, maxLines: number): string[] {
+    const words = this.pdfSafe(text).split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+
+    if (lines.length > maxLines) {
+      lines.length = maxLines;
+      lines[maxLines - 1] = `${lines[maxLines - 1]}...`;
+    }
+    return lines.map(line => this.pdfText(line, font, size, maxWidth));
+  }
+
+  // Truncate to fit the column width
+  private pdfText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let safe = this.pdfSafe(text);
+    if (font.widthOfTextAtSize(safe, size) <= maxWidth) {
+      return safe;
+    }
+    while (safe.length > 0 && font.widthOfTextAtSize(`${safe}...`, size) > maxWidth) {
+      safe = safe.slice(0, -1);
+    }
+    return `${safe}...`;
+  }
+
+  // The standard PDF fonts only cover WinAnsi characters
+  private pdfSafe(text: string): string {
+    return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+  }
+
+  private hexColour(hex: string): RGB {
+    return rgb(
+      parseInt(hex.slice(0, 2), 16) / 255,
+      parseInt(hex.slice(2, 4), 16) / 255,
+      parseInt(hex.slice(4, 6), 16) / 255
+    );
+  }
+}
+
+// Export singleton instance
+export const trainingMatrixExportService = new TrainingMatrixExportService();
@@ -0,0 +1,444 @@
+/**
+ * Training Matrix Service
+ *
+ * Builds the staff x course compliance grid shown on the training matrix page. Each cell
+ * is RAG-rated from the learner's assignment, latest completion and certificate expiry.
+ * Completions from approved external training are flagged so admins can tell them apart.
+ * Scheduled reports use the same grid so emailed exports match what admins see on screen.
+ */
+
+import { storage } from '../storage';
+import { learningPathService } from './LearningPathService';
+import { complianceService } from './ComplianceService';
+import { externalTrainingService } from './ExternalTrainingService';
+
+export interface TrainingMatrixFilters {
+  departments?: string[];
+  roles?: string[]; // job titles
+  courses?: string[];
+  statuses?: string[];
+  staff?: string[];
+  mandatoryOnly?: boolean;
+  teamUserIds?: string[]; // a manager's team - unlike `staff`, an empty list matches nobody
+}
+
+export type TrainingMatrix = Awaited<ReturnType<TrainingMatrixService['buildMatrix']>>;
+
+export class TrainingMatrixService {
+
+  /**
+   * Build the matrix for an organisation's active learners, applying the page filters
+   */
+  async buildMatrix(organisationId: string, filters: TrainingMatrixFilters = {}) {
+    const departmentFilter = filters.departments || [];
+    const roleFilter = filters.roles || [];
+    const courseFilter = filters.courses || [];
+    const statusFilter = filters.statuses || [];
+    const staffIdFilter = filters.staff || [];
+
+    // Get all staff members in the organisation
+    const staff = await storage.getUsersByOrganisation(organisationId);
+    let activeStaff = staff.filter(u => u.status === 'active' && u.role === 'user');
+
+    // Restrict to a manager's team
+    if (filters.teamUserIds) {
+      const teamUserIds = filters.teamUserIds;
+      activeStaff = activeStaff.filter(s => teamUserIds.includes(s.id));
+    }
+
+    // Apply staff filter
+    if (staffIdFilter.length > 0) {
+      activeStaff = activeStaff.filter(s => staffIdFilter.includes(s.id));
+    }
+
+    // Apply department filter
+    if (departmentFilter.length > 0) {
+      activeStaff = activeStaff.filter(s => s.department && departmentFilter.includes(s.department));
+    }
+
+    // Apply role/job title filter (treating jobTitle as role)
+    if (roleFilter.length > 0) {
+      activeStaff = activeStaff.filter(s => s.jobTitle && roleFilter.includes(s.jobTitle));
+    }
+
+    // Get all courses assigned to users in this organisation
+    const assignments = await storage.getAssignmentsByOrganisation(organisationId);
+    let courseIds = Array.from(new Set(assignments.map(a => a.courseId)));
+    
+    const courses = await Promise.all(
+      courseIds.map(async (courseId) => {
+        return await storage.getCourse(courseId);
+      })
+    );
+    let validCourses = courses.filter((c): c is NonNullable<typeof c> => Boolean(c));
+
+    // Apply course filter
+    if (courseFilter.length > 0) {
+      validCourses = validCourses.filter(c => courseFilter.includes(c.id));
+    }
+
+    // Only courses the organisation has designated as mandatory
+    if (filters.mandatoryOnly) {
+      const mandatoryCourseIds = await complianceService.getMandatoryCourseIds(organisationId);
+      validCourses = validCourses.filter(c => mandatoryCourseIds.includes(c.id));
+    }
+
+    // Get all completions for this organisation
+    const completions = await storage.getCompletionsByOrganisation(organisationId);
+    
+    // Get all certificates for this organisation
+    const certificates = await storage.getCertificatesByOrganisation(organisationId);
+    
+    // Get all SCORM attempts for this organisation to show attempt status
+    const scormAttempts = await storage.getScormAttemptsByOrganisation(organisationId);
+
+    // Completions that came from approved external training records
+    const externalCompletions = await externalTrainingService.getExternalCompletions(organisationId);
+
+    // Calculate matrix data only for filtered staff and courses
+    const matrix: any[][] = [];
+    const summary = { red: 0, amber: 0, green: 0, grey: 0, blue: 0, failed: 0 };
+
+    // Current date for expiry calculations (Europe/London timezone)
+    const now = new Date();
+    const thirtyDaysFromNow = new Date();
+    thirtyDaysFromNow.setDate(now.getDate() + 30);
+
+    // Build matrix for filtered staff and courses
+    for (const staffMember of activeStaff) {
+      const staffRow: any[] = [];
+      
+      for (const course of validCourses) {
+        // Find assignment for this staff member and course
+        const assignment = assignments.find(a => 
+          a.userId === staffMember.id && a.courseId === course.id
+        );
+
+        if (!assignment) {
+          // No assignment - blank cell
+          staffRow.push({
+            status: 'blank',
+            label: '-',
+            attemptCount: 0
+          });
+          continue;
+        }
+
+        // Find latest successful completion
+        const userCompletions = completions.filter(c => 
+          c.userId === staffMember.id && 
+          c.courseId === course.id &&
+          c.status === 'pass'
+        );
+        
+        const latestCompletion = userCompletions.sort((a, b) => 
+          new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
+        )[0];
+
+        // Check for failed attempts
+        const failedCompletions = completions.filter(c => 
+          c.userId === staffMember.id && 
+          c.courseId === course.id &&
+          c.status === 'fail'
+        );
+
+        const latestFailedCompletion = failedCompletions.sort((a, b) => 
+          new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
+        )[0];
+
+        // If there are failed attempts but no successful completion, show failed status
+        if (!latestCompletion && latestFailedCompletion) {
+          staffRow.push({
+            status: 'failed',
+            label: 'Failed',
+            score: latestFailedCompletion.score ? parseFloat(latestFailedCompletion.score) : null,
+            completionDate: new Date(latestFailedCompletion.completedAt!).toLocaleDateString('en-GB'),
+            attemptCount: completions.filter(c => 
+              c.userId === staffMember.id && c.courseId === course.id
+            ).length,
+            assignmentId: assignment.id,
+            completionId: latestFailedCompletion.id
+          });
+          
+          // Update summary counts for failed attempts
+          if (!summary.failed) summary.failed = 0;
+          summary.failed++;
+          continue;
+        }
+
+        if (!latestCompletion) {
+          // Not completed - check SCORM attempt status and assignment due date
+          // Only consider active attempts for training matrix status
+          const userAttempts = scormAttempts.filter(a => 
+            a.userId === staffMember.id && 
+            a.courseId === course.id &&
+            a.isActive // Only active attempts
+          );
+          
+          // Only log when there are discrepancies for debugging
+          const allUserAttempts = scormAttempts.filter(a => 
+            a.userId === staffMember.id && a.courseId === course.id
+          );
+          
+          if (allUserAttempts.length > 0 && userAttempts.length !== allUserAttempts.length) {
+            console.log(`🎯 Training Matrix - Found inactive attempts for ${staffMember.firstName} ${staffMember.lastName}:`, {
+              totalAttempts: allUserAttempts.length,
+              activeAttempts: userAttempts.length,
+              courseTitle: course.title
+            });
+          }
+          
+          const latestAttempt = userAttempts.sort((a, b) => 
+            new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+          )[0];
+          
+          const now = new Date();
+          const sevenDaysFromNow = new Date();
+          sevenDaysFromNow.setDate(now.getDate() + 7);
+          
+          let cellStatus: 'red' | 'amber' | 'blue' | 'grey' | 'failed';
+          let cellLabel: string;
+          
+          // Check SCORM attempt status first for accurate lifecycle tracking
+          if (latestAttempt) {
+            if (latestAttempt.status === 'completed') {
+              // This shouldn't happen as we already checked for completions above
+              cellStatus = 'grey';
+              cellLabel = 'Completed';
+            } else if (latestAttempt.status === 'in_progress') {
+              cellStatus = 'blue';
+              cellLabel = 'In Progress';
+            } else {
+              // not_started or abandoned
+              cellStatus = 'grey';
+              cellLabel = 'Not Started';
+            }
+          } else {
+            // No attempt yet - check assignment status and due date
+            if (assignment.status === 'overdue') {
+              cellStatus = 'red';
+              cellLabel = 'Overdue';
+            } else {
+              // Check due date for assignments that aren't overdue
+              if (assignment.dueDate) {
+                const dueDate = new Date(assignment.dueDate);
+                if (dueDate < now) {
+                  cellStatus = 'red';
+                  cellLabel = 'Overdue';
+                } else if (dueDate <= sevenDaysFromNow) {
+                  cellStatus = 'amber';
+                  cellLabel = 'Due Soon';
+                } else {
+                  cellStatus = 'grey';
+                  cellLabel = 'Not Started';
+                }
+              } else {
+                cellStatus = 'grey';
+                cellLabel = 'Not Started';
+              }
+            }
+          }
+          
+          staffRow.push({
+            status: cellStatus,
+            label: cellLabel,
+            dueDate: assignment.dueDate ? new Date(assignment.dueDate).toLocaleDateString('en-GB') : null,
+            attemptCount: completions.filter(c => 
+              c.userId === staffMember.id && c.courseId === course.id
+            ).length,
+            assignmentId: assignment.id
+          });
+          
+          // Update summary counts
+          if (cellStatus === 'blue') {
+            if (!summary.blue) summary.blue = 0;
+            summary.blue++;
+          } else {
+            summary[cellStatus]++;
+          }
+          continue;
+        }
+
+        // Has completion - check expiry
+        const completionDate = new Date(latestCompletion.completedAt!);
+        
+        // Calculate expiry date - an external certificate's own expiry takes precedence
+        const external = externalCompletions.get(latestCompletion.id);
+        let expiryDate: Date | null = null;
+        if (external?.expiryDate) {
+          expiryDate = new Date(external.expiryDate);
+        } else if (course.certificateExpiryPeriod) {
+          expiryDate = new Date(completionDate);
+          expiryDate.setMonth(expiryDate.getMonth() + course.certificateExpiryPeriod);
+        }
+
+        // Determine status
+        let status: 'red' | 'amber' | 'green';
+        let label: string;
+        let dateLabel: string = '';
+
+        if (!expiryDate) {
+          // No expiry
+          status = 'green';
+          label = 'Complete';
+          dateLabel = 'No expiry';
+        } else if (expiryDate < now) {
+          // Expired
+          status = 'red';
+          label = 'Expired';
+          dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
+        } else if (expiryDate <= thirtyDaysFromNow) {
+          // Expiring within 30 days
+          status = 'amber';
+          label = 'Expiring';
+          dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
+        } else {
+          // Valid and not expiring soon
+          status = 'green';
+          label = 'In date';
+          dateLabel = `Exp: ${expiryDate.toLocaleDateString('en-GB')}`;
+        }
+
+        staffRow.push({
+          status,
+          label,
+          date: dateLabel,
+          score: latestCompletion.score ? parseFloat(latestCompletion.score) : null,
+          completionDate: completionDate.toLocaleDateString('en-GB'),
+          expiryDate: expiryDate?.toLocaleDateString('en-GB') || null,
+          attemptCount: userCompletions.length,
+          assignmentId: assignment.id,
+          completionId: latestCompletion.id,
+          ...(external && { external: true, provider: external.provider })
+        });
+
+        summary[status]++;
+      }
+      
+      matrix.push(staffRow);
+    }
+
+    // Apply status filtering if specified
+    let finalStaff = activeStaff;
+    let finalCourses = validCourses;
+    let finalMatrix = matrix;
+    let finalSummary = summary;
+
+    if (statusFilter.length > 0) {
+      const staffToKeep: boolean[] = new Array(activeStaff.length).fill(false);
+      const coursesToKeep: boolean[] = new Array(validCourses.length).fill(false);
+      const filteredMatrix: any[][] = [];
+      const filteredSummary = { red: 0, amber: 0, green: 0, grey: 0, blue: 0 };
+
+      // Check each staff row
+      for (let staffIndex = 0; staffIndex < matrix.length; staffIndex++) {
+        const staffRow = matrix[staffIndex];
+        const filteredRow: any[] = [];
+        let staffHasVisibleCells = false;
+
+        // Check each course cell for this staff member
+        for (let courseIndex = 0; courseIndex < staffRow.length; courseIndex++) {
+          const cell = staffRow[courseIndex];
+          
+          // If this cell matches the status filter
+          if (statusFilter.includes(cell.status)) {
+            filteredRow.push(cell);
+            staffHasVisibleCells = true;
+            coursesToKeep[courseIndex] = true;
+            filteredSummary[cell.status as keyof typeof filteredSummary]++;
+          } else {
+            filteredRow.push(null);
+          }
+        }
+
+        // If this staff member has any visible cells, keep them
+        if (staffHasVisibleCells) {
+          filteredMatrix.push(filteredRow);
+          staffToKeep[staffIndex] = true;
+        }
+      }
+
+      // Create final filtered arrays
+      finalStaff = activeStaff.filter((_, index) => staffToKeep[index]);
+      finalCourses = validCourses.filter((_, index) => coursesToKeep[index]);
+      
+      // Remove null columns from filtered matrix
+      finalMatrix = filteredMatrix.map(row => 
+        row.filter((_, colIndex) => coursesToKeep[colIndex])
+      );
+      
+      finalSummary = { ...filteredSummary, failed: 0 };
+    }
+
+    // Learning paths are shown as one column each, summarising progress across their courses
+    const pathProgress = await learningPathService.getOrganisationProgress(organisationId);
+    const enrolledPaths = pathProgress.learningPaths.filter(path =>
+      finalStaff.some(s => pathProgress.progress.get(s.id)?.has(path.id))
+    );
+    const learningPathMatrix = finalStaff.map(s =>
+      enrolledPaths.map(path => pathProgress.progress.get(s.id)?.get(path.id) || null)
+    );
+
+    return {
+      staff: finalStaff.map(s => ({
+        id: s.id,
+        firstName: s.firstName,
+        lastName: s.lastName,
+        email: s.email,
+        department: s.department,
+        jobTitle: s.jobTitle,
+        role: s.role
+      })),
+      courses: finalCourses.map(c => ({
+        id: c.id,
+        title: c.title,
+        category: c.category,
+        certificateExpiryPeriod: c.certificateExpiryPeriod,
+        status: c.status
+      })),
+      matrix: finalMatrix,
+      learningPaths: enrolledPaths.map(path => ({
+        id: path.id,
+        title: path.title,
+      })),
+      learningPathMatrix,
+      summary: finalSummary
+    };
+  }
+
+  /**
+   * Overdue assignments within the filtered matrix, one row per learner and course
+   */
+  async buildOverdueList(organisationId: string, filters: TrainingMatrixFilters = {}) {
+    const { staff, courses, matrix } = await this.buildMatrix(organisationId, { ...filters, statuses: ['red'] });
+    const overdue: {
+      staffName: string;
+      email: string | null;
+      department: string | null;
+      jobTitle: string | null;
+      courseTitle: string;
+      dueDate: string | null;
+    }[] = [];
+
+    staff.forEach((staffMember, staffIndex) => {
+      courses.forEach((course, courseIndex) => {
+        const cell = matrix[staffIndex][courseIndex];
+        if (cell?.label === 'Overdue') {
+          overdue.push({
+            staffName: `${staffMember.firstName} ${staffMember.lastName}`,
+            email: staffMember.email,
+            department: staffMember.department,
+            jobTitle: staffMember.jobTitle,
+            courseTitle: course.title,
+            dueDate: cell.dueDate,
+          });
+        }
+      });
+    });
+
+    return overdue;
+  }
+}
+
+// Export singleton instance
+export const trainingMatrixService = new TrainingMatrixService();
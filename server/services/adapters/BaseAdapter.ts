@@ -1,10 +1,17 @@
 /**
  * Base adapter interface for all email providers
- * Defines standard interface for SMTP and API providers
+ * Defines standard interface for SMTP and API providers, including their inbound delivery event webhooks
  */
 
+import { timingSafeEqual } from 'crypto';
 import type { EffectiveEmailSettings } from '../MailerService';
 
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string; // base64
+}
+
 export interface EmailMessage {
   to: string;
   subject: string;
@@ -13,6 +20,7 @@ export interface EmailMessage {
   fromEmail: string;
   fromName: string;
   replyTo?: string;
+  attachments?: EmailAttachment[];
 }
 
 export interface HealthCheckResult {
@@ -45,6 +53,22 @@ export interface SendResult {
   };
 }
 
+export type DeliveryEventType = 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained'; // bounced = hard bounces only
+
+// A provider webhook event normalised onto the events the platform tracks
+export interface DeliveryEvent {
+  type: DeliveryEventType;
+  messageId: string; // As returned by send() - matched against email_sends.provider_message_id
+  email?: string;
+  occurredAt: Date;
+  detail?: string;
+}
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
 export abstract class BaseAdapter {
   /**
    * Health check to verify provider connectivity and credentials
@@ -56,6 +80,58 @@ export abstract class BaseAdapter {
    */
   abstract send(message: EmailMessage, settings: EffectiveEmailSettings): Promise<SendResult>;
 
+  /**
+   * Verify an inbound delivery event webhook against the configured signing key.
+   * Providers that don't sign their payloads are set up to send the key as the
+   * basic auth password (or bearer token) of the webhook URL.
+   */
+  verifyWebhook(request: WebhookRequest, signingKey: string): boolean {
+    const authorization = this.getHeader(request, 'authorization');
+    if (!authorization) return false;
+
+    const [scheme, credentials = ''] = authorization.split(' ');
+    if (scheme.toLowerCase() === 'bearer') {
+      return this.safeEqual(credentials, signingKey);
+    }
+    if (scheme.toLowerCase() === 'basic') {
+      const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+      return this.safeEqual(decoded.substring(decoded.indexOf(':') + 1), signingKey);
+    }
+    return false;
+  }
+
+  /**
+   * Normalise a webhook payload into delivery events, skipping events the platform doesn't track
+   */
+  abstract parseWebhookEvents(payload: any): DeliveryEvent[];
+
+  protected getHeader(request: WebhookRequest, name: string): string | undefined {
+    const value = request.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Constant-time string comparison for signatures and secrets
+   */
+  protected safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+  }
+
+  /**
+   * Webhook timestamps - unix seconds or ISO strings depending on provider. Falls back to now when missing
+   */
+  protected fromUnixSeconds(value: unknown): Date {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date();
+  }
+
+  protected fromIsoDate(value: unknown): Date {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : new Date();
+  }
+
   /**
    * Create masked preview of API key for diagnostics
    */
@@ -3,7 +3,7 @@
  * API Documentation: https://developers.brevo.com/
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
 export class BrevoAdapter extends BaseAdapter {
@@ -104,6 +104,12 @@ export class BrevoAdapter extends BaseAdapter {
         ...(message.text && { textContent: message.text }),
         ...(message.html && { htmlContent: message.html }),
         ...(message.replyTo && { replyTo: { email: message.replyTo } }),
+        ...(message.attachments?.length && {
+          attachment: message.attachments.map(attachment => ({
+            content: attachment.content,
+            name: attachment.filename
+          }))
+        }),
         headers: {
           'X-Mailer': 'inteLMS-Brevo-Service'
         }
@@ -179,6 +185,33 @@ export class BrevoAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * One event per webhook. Brevo doesn't sign webhooks - the signing key is set as
+   * the webhook's bearer token or basic auth password.
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const messageId = payload?.['message-id'];
+    if (!messageId) return [];
+
+    const base = { messageId, email: payload.email, occurredAt: this.fromUnixSeconds(payload.ts_event) };
+    switch (payload.event) {
+      case 'delivered':
+        return [{ ...base, type: 'delivered' }];
+      case 'opened':
+      case 'unique_opened':
+        return [{ ...base, type: 'opened' }];
+      case 'click':
+        return [{ ...base, type: 'clicked' }];
+      case 'hard_bounce':
+      case 'invalid_email':
+        return [{ ...base, type: 'bounced', detail: payload.reason }];
+      case 'spam':
+        return [{ ...base, type: 'complained' }];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Map Brevo API errors to user-friendly messages
    */
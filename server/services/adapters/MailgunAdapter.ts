@@ -3,9 +3,13 @@
  * API Documentation: https://documentation.mailgun.com/en/latest/api_reference.html
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { createHmac } from 'crypto';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult, type WebhookRequest } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
+// Mailgun webhooks older than this are treated as replays
+const WEBHOOK_MAX_AGE_SECONDS = 5 * 60;
+
 export class MailgunAdapter extends BaseAdapter {
   private readonly baseUrl = 'https://api.mailgun.net/v3';
 
@@ -104,6 +108,10 @@ export class MailgunAdapter extends BaseAdapter {
       if (message.replyTo) {
         formData.append('h:Reply-To', message.replyTo);
       }
+      for (const attachment of message.attachments || []) {
+        const blob = new Blob([Buffer.from(attachment.content, 'base64')], { type: attachment.contentType });
+        formData.append('attachment', blob, attachment.filename);
+      }
       
       formData.append('h:X-Mailer', 'inteLMS-Mailgun-Service');
 
@@ -175,6 +183,54 @@ export class MailgunAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Webhooks carry a signature block: HMAC-SHA256 of timestamp + token with the HTTP webhook signing key
+   */
+  verifyWebhook(request: WebhookRequest, signingKey: string): boolean {
+    let signature: any;
+    try {
+      signature = JSON.parse(request.rawBody).signature;
+    } catch {
+      return false;
+    }
+    if (!signature?.timestamp || !signature?.token || !signature?.signature) return false;
+
+    // Reject replayed webhooks
+    const age = Math.abs(Date.now() / 1000 - Number(signature.timestamp));
+    if (!Number.isFinite(age) || age > WEBHOOK_MAX_AGE_SECONDS) return false;
+
+    const expected = createHmac('sha256', signingKey).update(`${signature.timestamp}${signature.token}`).digest('hex');
+    return this.safeEqual(expected, String(signature.signature));
+  }
+
+  /**
+   * One event per webhook. The message-id header matches the id from send() without its angle brackets
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const event = payload?.['event-data'];
+    const messageId = event?.message?.headers?.['message-id'];
+    if (!messageId) return [];
+
+    const base = { messageId, email: event.recipient, occurredAt: this.fromUnixSeconds(event.timestamp) };
+    switch (event.event) {
+      case 'delivered':
+        return [{ ...base, type: 'delivered' }];
+      case 'opened':
+        return [{ ...base, type: 'opened' }];
+      case 'clicked':
+        return [{ ...base, type: 'clicked' }];
+      case 'failed':
+        // Temporary failures are retried by Mailgun
+        return event.severity === 'permanent'
+          ? [{ ...base, type: 'bounced', detail: event['delivery-status']?.description || event.reason }]
+          : [];
+      case 'complained':
+        return [{ ...base, type: 'complained' }];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Map Mailgun API errors to user-friendly messages
    */
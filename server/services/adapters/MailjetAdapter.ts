@@ -3,7 +3,7 @@
  * API Documentation: https://dev.mailjet.com/email/guides/
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
 export class MailjetAdapter extends BaseAdapter {
@@ -103,6 +103,13 @@ export class MailjetAdapter extends BaseAdapter {
               Email: message.replyTo
             }
           }),
+          ...(message.attachments?.length && {
+            Attachments: message.attachments.map(attachment => ({
+              ContentType: attachment.contentType,
+              Filename: attachment.filename,
+              Base64Content: attachment.content
+            }))
+          }),
           Headers: {
             'X-Mailer': 'inteLMS-Mailjet-Service'
           }
@@ -180,6 +187,41 @@ export class MailjetAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Event API posts an array of events (or a single event when grouping is off). Mailjet
+   * doesn't sign webhooks - the signing key goes in the URL's basic auth credentials.
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const events: DeliveryEvent[] = [];
+
+    for (const event of Array.isArray(payload) ? payload : [payload]) {
+      if (!event?.MessageID) continue;
+
+      const base = { messageId: event.MessageID.toString(), email: event.email, occurredAt: this.fromUnixSeconds(event.time) };
+      switch (event.event) {
+        case 'sent': // Accepted by the recipient's mail server
+          events.push({ ...base, type: 'delivered' });
+          break;
+        case 'open':
+          events.push({ ...base, type: 'opened' });
+          break;
+        case 'click':
+          events.push({ ...base, type: 'clicked' });
+          break;
+        case 'bounce':
+          if (event.hard_bounce) {
+            events.push({ ...base, type: 'bounced', detail: event.error });
+          }
+          break;
+        case 'spam':
+          events.push({ ...base, type: 'complained' });
+          break;
+      }
+    }
+
+    return events;
+  }
+
   /**
    * Map Mailjet API errors to user-friendly messages
    */
@@ -3,9 +3,12 @@
  * API Documentation: https://postmarkapp.com/developer/api/email-api
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
+// Postmark bounce types that mean the address can't receive mail
+const PERMANENT_BOUNCE_TYPES = ['HardBounce', 'BadEmailAddress', 'ManuallyDeactivated'];
+
 export class PostmarkAdapter extends BaseAdapter {
   private readonly baseUrl = 'https://api.postmarkapp.com';
 
@@ -94,6 +97,13 @@ export class PostmarkAdapter extends BaseAdapter {
         ...(message.text && { TextBody: message.text }),
         ...(message.html && { HtmlBody: message.html }),
         ...(message.replyTo && { ReplyTo: message.replyTo }),
+        ...(message.attachments?.length && {
+          Attachments: message.attachments.map(attachment => ({
+            Name: attachment.filename,
+            Content: attachment.content,
+            ContentType: attachment.contentType
+          }))
+        }),
         Headers: [
           { Name: 'X-Mailer', Value: 'inteLMS-Postmark-Service' }
         ]
@@ -169,6 +179,32 @@ export class PostmarkAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * One event per webhook, identified by RecordType. Postmark doesn't sign webhooks -
+   * the signing key goes in the webhook URL's basic auth credentials.
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const messageId = payload?.MessageID;
+    if (!messageId) return [];
+
+    switch (payload.RecordType) {
+      case 'Delivery':
+        return [{ type: 'delivered', messageId, email: payload.Recipient, occurredAt: this.fromIsoDate(payload.DeliveredAt) }];
+      case 'Open':
+        return [{ type: 'opened', messageId, email: payload.Recipient, occurredAt: this.fromIsoDate(payload.ReceivedAt) }];
+      case 'Click':
+        return [{ type: 'clicked', messageId, email: payload.Recipient, occurredAt: this.fromIsoDate(payload.ReceivedAt) }];
+      case 'Bounce':
+        return PERMANENT_BOUNCE_TYPES.includes(payload.Type)
+          ? [{ type: 'bounced', messageId, email: payload.Email, occurredAt: this.fromIsoDate(payload.BouncedAt), detail: payload.Description }]
+          : [];
+      case 'SpamComplaint':
+        return [{ type: 'complained', messageId, email: payload.Email, occurredAt: this.fromIsoDate(payload.BouncedAt) }];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Map Postmark API errors to user-friendly messages
    */
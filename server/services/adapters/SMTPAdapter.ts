@@ -8,7 +8,7 @@ import type { Transporter } from 'nodemailer';
 import { createConnection } from 'net';
 import { lookup } from 'dns';
 import { promisify } from 'util';
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
 const dnsLookup = promisify(lookup);
@@ -108,6 +108,11 @@ export class SMTPAdapter extends BaseAdapter {
         text: message.text,
         html: message.html,
         replyTo: message.replyTo,
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: Buffer.from(attachment.content, 'base64'),
+          contentType: attachment.contentType
+        })),
         headers: {
           'X-Mailer': 'inteLMS-SMTP-Service',
           'X-SMTP-Provider': this.detectProvider(host),
@@ -321,6 +326,13 @@ export class SMTPAdapter extends BaseAdapter {
     return 'Custom SMTP';
   }
 
+  /**
+   * SMTP relays have no delivery webhooks
+   */
+  parseWebhookEvents(): DeliveryEvent[] {
+    return [];
+  }
+
   /**
    * Map SMTP errors to user-friendly messages
    */
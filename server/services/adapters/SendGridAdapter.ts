@@ -3,9 +3,13 @@
  * API Documentation: https://docs.sendgrid.com/api-reference/mail-send/mail-send
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { createPublicKey, verify } from 'crypto';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult, type WebhookRequest } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
+// Signed webhooks older than this are treated as replays
+const WEBHOOK_MAX_AGE_SECONDS = 5 * 60;
+
 export class SendGridAdapter extends BaseAdapter {
   private readonly baseUrl = 'https://api.sendgrid.com/v3';
 
@@ -101,6 +105,14 @@ export class SendGridAdapter extends BaseAdapter {
           ...(message.html ? [{ type: 'text/html', value: message.html }] : [])
         ],
         ...(message.replyTo && { reply_to: { email: message.replyTo } }),
+        ...(message.attachments?.length && {
+          attachments: message.attachments.map(attachment => ({
+            content: attachment.content,
+            filename: attachment.filename,
+            type: attachment.contentType,
+            disposition: 'attachment'
+          }))
+        }),
         headers: {
           'X-Mailer': 'inteLMS-SendGrid-Service'
         }
@@ -169,6 +181,63 @@ export class SendGridAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Event Webhook signature: ECDSA over timestamp + raw body. The signing key is the
+   * verification key shown when signed event webhooks are enabled in SendGrid.
+   */
+  verifyWebhook(request: WebhookRequest, signingKey: string): boolean {
+    const signature = this.getHeader(request, 'x-twilio-email-event-webhook-signature');
+    const timestamp = this.getHeader(request, 'x-twilio-email-event-webhook-timestamp');
+    if (!signature || !timestamp) return false;
+
+    // Reject replayed webhooks - the timestamp is signed, so it can't be refreshed
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > WEBHOOK_MAX_AGE_SECONDS) return false;
+
+    try {
+      const publicKey = createPublicKey({ key: Buffer.from(signingKey, 'base64'), format: 'der', type: 'spki' });
+      return verify('sha256', Buffer.from(timestamp + request.rawBody), publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Event Webhook posts a batch of events. sg_message_id is the X-Message-Id from send() plus a suffix
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const events: DeliveryEvent[] = [];
+
+    for (const event of Array.isArray(payload) ? payload : []) {
+      const messageId = typeof event?.sg_message_id === 'string' ? event.sg_message_id.split('.')[0] : '';
+      if (!messageId) continue;
+
+      const base = { messageId, email: event.email, occurredAt: this.fromUnixSeconds(event.timestamp) };
+      switch (event.event) {
+        case 'delivered':
+          events.push({ ...base, type: 'delivered' });
+          break;
+        case 'open':
+          events.push({ ...base, type: 'opened' });
+          break;
+        case 'click':
+          events.push({ ...base, type: 'clicked' });
+          break;
+        case 'bounce':
+          // type "blocked" is a temporary rejection by the receiving server
+          if (event.type !== 'blocked') {
+            events.push({ ...base, type: 'bounced', detail: event.reason });
+          }
+          break;
+        case 'spamreport':
+          events.push({ ...base, type: 'complained' });
+          break;
+      }
+    }
+
+    return events;
+  }
+
   /**
    * Map SendGrid API errors to user-friendly messages
    */
@@ -3,9 +3,12 @@
  * API Documentation: https://developers.sparkpost.com/api/
  */
 
-import { BaseAdapter, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
+import { BaseAdapter, type DeliveryEvent, type EmailMessage, type HealthCheckResult, type SendResult } from './BaseAdapter';
 import type { EffectiveEmailSettings } from '../MailerService';
 
+// SparkPost bounce classes for invalid or rejected recipients
+const HARD_BOUNCE_CLASSES = [10, 25, 30, 90];
+
 export class SparkPostAdapter extends BaseAdapter {
   private readonly baseUrl = 'https://api.sparkpost.com/api/v1';
 
@@ -97,6 +100,13 @@ export class SparkPostAdapter extends BaseAdapter {
           ...(message.text && { text: message.text }),
           ...(message.html && { html: message.html }),
           ...(message.replyTo && { reply_to: message.replyTo }),
+          ...(message.attachments?.length && {
+            attachments: message.attachments.map(attachment => ({
+              name: attachment.filename,
+              type: attachment.contentType,
+              data: attachment.content
+            }))
+          }),
           headers: {
             'X-Mailer': 'inteLMS-SparkPost-Service'
           }
@@ -177,6 +187,44 @@ export class SparkPostAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Webhooks post batches of message and engagement events keyed by transmission id. SparkPost
+   * authenticates webhooks with basic auth - the signing key is the password.
+   */
+  parseWebhookEvents(payload: any): DeliveryEvent[] {
+    const events: DeliveryEvent[] = [];
+
+    for (const item of Array.isArray(payload) ? payload : []) {
+      const event = item?.msys?.message_event || item?.msys?.track_event;
+      if (!event?.transmission_id) continue;
+
+      const base = { messageId: event.transmission_id.toString(), email: event.rcpt_to, occurredAt: this.fromUnixSeconds(event.timestamp) };
+      switch (event.type) {
+        case 'delivery':
+          events.push({ ...base, type: 'delivered' });
+          break;
+        case 'open':
+        case 'initial_open':
+          events.push({ ...base, type: 'opened' });
+          break;
+        case 'click':
+          events.push({ ...base, type: 'clicked' });
+          break;
+        case 'bounce':
+        case 'out_of_band':
+          if (HARD_BOUNCE_CLASSES.includes(Number(event.bounce_class))) {
+            events.push({ ...base, type: 'bounced', detail: event.reason });
+          }
+          break;
+        case 'spam_complaint':
+          events.push({ ...base, type: 'complained' });
+          break;
+      }
+    }
+
+    return events;
+  }
+
   /**
    * Map SparkPost API errors to user-friendly messages
    */
@@ -2,8 +2,9 @@ import { storage } from "../storage";
 import { ObjectStorageService } from "../objectStorage";
 import { ObjectPermission, ObjectAclPolicy } from "../objectAcl";
 import puppeteer from "puppeteer";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import QRCode from "qrcode";
 import fs from "fs/promises";
 import type { User, Course, Completion, Organisation, CertificateTemplate } from "@shared/schema";
 
@@ -18,8 +19,19 @@ export interface CertificateData {
   passFailStatus: string;
   dateCompleted: string;
   certificateId: string;
+  verificationCode: string;
+  verifyUrl: string;
+  verifyQrDataUrl: string;
 }
 
+export interface GeneratedCertificate {
+  certificateUrl: string;
+  verificationCode: string; // Store this with the certificate - it is the code printed on the PDF
+}
+
+// Crockford base32 - no I, L, O or U so codes survive being read aloud or typed from paper
+const VERIFICATION_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
 export class CertificateService {
   private readonly placeholders = [
     '{{USERNAME}}',
@@ -31,7 +43,9 @@ export class CertificateService {
     '{{SCORE_PERCENT}}',
     '{{PASS_FAIL}}',
     '{{DATE_COMPLETED}}',
-    '{{CERTIFICATE_ID}}'
+    '{{CERTIFICATE_ID}}',
+    '{{VERIFY_URL}}',
+    '{{VERIFY_QR}}'
   ];
 
   async generateCertificate(
@@ -39,7 +53,7 @@ export class CertificateService {
     user: User,
     course: Course,
     organisation: Organisation
-  ): Promise<string> {
+  ): Promise<GeneratedCertificate> {
     try {
       // Get certificate template
       const template = await this.getCertificateTemplate(organisation.id);
@@ -71,13 +85,52 @@ export class CertificateService {
       
       console.log(`📜 Generated certificate for ${user.email} - Course: ${course.title} - URL: ${certificateUrl}`);
       
-      return certificateUrl;
+      return { certificateUrl, verificationCode: certificateData.verificationCode };
     } catch (error) {
       console.error('Error generating certificate:', error);
       throw new Error('Failed to generate certificate');
     }
   }
 
+  /**
+   * Verification code for a completion's certificate. The code stored with an existing certificate
+   * is reused, so regenerating the PDF prints the code already on record; otherwise a new one.
+   */
+  async getVerificationCode(completionId: string): Promise<string> {
+    const certificate = await storage.getCertificateByCompletionId(completionId);
+    return certificate?.verificationCode || this.generateVerificationCode();
+  }
+
+  /**
+   * Random 80-bit code (XXXX-XXXX-XXXX-XXXX) - nothing is derived from the completion, so codes
+   * cannot be guessed or recomputed
+   */
+  generateVerificationCode(): string {
+    const bytes = randomBytes(16);
+    let code = '';
+    for (let i = 0; i < 16; i++) {
+      code += VERIFICATION_ALPHABET[bytes[i] & 31];
+    }
+    return code.match(/.{4}/g)!.join('-');
+  }
+
+  /**
+   * Give certificates issued before verification codes existed a code of their own.
+   * Returns how many certificates were updated.
+   */
+  async backfillVerificationCodes(): Promise<number> {
+    const certificates = await storage.getCertificatesWithoutVerificationCode();
+    for (const certificate of certificates) {
+      await storage.updateCertificate(certificate.id, { verificationCode: this.generateVerificationCode() });
+    }
+    return certificates.length;
+  }
+
+  getVerificationUrl(verificationCode: string): string {
+    const baseUrl = process.env.REPLIT_URL || 'http://localhost:5000';
+    return `${baseUrl}/verify/${verificationCode}`;
+  }
+
   private async getCertificateTemplate(organisationId: string): Promise<CertificateTemplate> {
     // Try to get organisation-specific template first
     const orgTemplates = await storage.getCertificateTemplates();
@@ -122,6 +175,10 @@ export class CertificateService {
     });
     const adminName = admins.length > 0 ? `${admins[0].firstName} ${admins[0].lastName}` : 'Administrator';
 
+    const verificationCode = await this.getVerificationCode(completion.id);
+    const verifyUrl = this.getVerificationUrl(verificationCode);
+    const verifyQrDataUrl = await QRCode.toDataURL(verifyUrl, { margin: 1, width: 240 });
+
     return {
       userName: `${user.firstName} ${user.lastName}`,
       userEmail: user.email || '',
@@ -132,7 +189,10 @@ export class CertificateService {
       scorePercent: completion.score ? `${completion.score}%` : 'N/A',
       passFailStatus: completion.status.toUpperCase(),
       dateCompleted: completion.completedAt?.toLocaleDateString() || new Date().toLocaleDateString(),
-      certificateId: `CERT-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`
+      certificateId: verificationCode,
+      verificationCode,
+      verifyUrl,
+      verifyQrDataUrl
     };
   }
 
@@ -149,6 +209,8 @@ export class CertificateService {
     result = result.replace(/{{PASS_FAIL}}/g, data.passFailStatus);
     result = result.replace(/{{DATE_COMPLETED}}/g, data.dateCompleted);
     result = result.replace(/{{CERTIFICATE_ID}}/g, data.certificateId);
+    result = result.replace(/{{VERIFY_URL}}/g, data.verifyUrl);
+    result = result.replace(/{{VERIFY_QR}}/g, `<img src="${data.verifyQrDataUrl}" alt="Verify certificate" style="width: 100%; height: 100%; object-fit: contain;">`);
     
     return result;
   }
@@ -316,7 +378,11 @@ export class CertificateService {
           <div class="details">
             <div>
               <strong>Date:</strong> {{DATE_COMPLETED}}<br>
-              <strong>Certificate ID:</strong> {{CERTIFICATE_ID}}
+              <strong>Certificate ID:</strong> {{CERTIFICATE_ID}}<br>
+              <strong>Verify at:</strong> {{VERIFY_URL}}
+            </div>
+            <div style="width: 90px; height: 90px;">
+              {{VERIFY_QR}}
             </div>
             <div>
               <strong>Authorised by:</strong><br>
@@ -388,9 +454,14 @@ export class CertificateService {
         result: data.passFailStatus,
         certificate_id: data.certificateId,
         cert_id: data.certificateId,
-        id: data.certificateId
+        id: data.certificateId,
+        verification_code: data.verificationCode,
+        verify_url: data.verifyUrl,
+        verification_url: data.verifyUrl
       };
 
+      const qrImage = await pdfDoc.embedPng(data.verifyQrDataUrl);
+
       // Helper function to normalize field names for better matching
       const normalizeFieldName = (fieldName: string): string => {
         return fieldName
@@ -416,6 +487,20 @@ export class CertificateService {
           
           console.log(`🔍 Processing form field: '${fieldName}' (normalized: '${normalizedFieldName}')`);
           
+          // QR code fields are placeholders for the image - draw it over each widget rectangle
+          if (normalizedFieldName === 'verify_qr' || normalizedFieldName === 'qr_code') {
+            const pages = pdfDoc.getPages();
+            field.acroField.getWidgets().forEach(widget => {
+              const rect = widget.getRectangle();
+              const page = pages.find(p => p.ref === widget.P()) || pages[0];
+              const size = Math.min(rect.width, rect.height);
+              page.drawImage(qrImage, { x: rect.x, y: rect.y, width: size, height: size });
+            });
+            fieldsFilledCount++;
+            console.log(`✅ Drew verification QR code at field '${fieldName}'`);
+            return;
+          }
+          
           // Look for matching data using normalized field name
           let value = dataMapping[normalizedFieldName];
           
@@ -521,7 +606,23 @@ export class CertificateService {
               font: font,
               color: rgb(0, 0, 0),
             });
+            yPosition -= lineSpacing;
           }
+          
+          page.drawText(`Verify at: ${data.verifyUrl}`, {
+            x: 100,
+            y: yPosition,
+            size: fontSize - 6,
+            font: font,
+            color: rgb(0, 0, 0),
+          });
+          
+          page.drawImage(qrImage, {
+            x: width - 140,
+            y: 40,
+            width: 100,
+            height: 100,
+          });
         }
       }
       
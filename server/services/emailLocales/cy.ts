@@ -0,0 +1,384 @@
+import mjml2html from "mjml";
+import type { LocalisedEmailTemplates } from "../EmailLocaleService";
+
+/**
+ * Welsh (cy) automated email templates
+ *
+ * Translations of the learner-facing templates in AutomatedEmailTemplates, with the same
+ * layout and data. Templates not translated here are sent in English.
+ */
+
+function layout(heading: string, headingColor: string, body: string, orgName: string): string {
+  const mjml = `
+    <mjml>
+      <mj-head>
+        <mj-attributes>
+          <mj-all font-family="Arial, sans-serif" />
+          <mj-text color="#333333" line-height="1.6" />
+        </mj-attributes>
+      </mj-head>
+      <mj-body background-color="#f4f4f4">
+        <mj-section background-color="#ffffff" padding="40px 20px">
+          <mj-column>
+            <mj-text font-size="24px" font-weight="bold" color="${headingColor}" align="center">
+              ${heading}
+            </mj-text>
+
+            <mj-divider border-color="#e5e7eb" padding="20px 0" />
+
+            ${body}
+
+            <mj-text font-size="14px" color="#6b7280" padding-top="20px">
+              ${orgName}
+            </mj-text>
+          </mj-column>
+        </mj-section>
+      </mj-body>
+    </mjml>
+  `;
+
+  return mjml2html(mjml).html;
+}
+
+// Callers describe durations in English, e.g. "1 hour" - numerals take the singular in Welsh
+function welshDuration(duration: string): string {
+  const match = duration.trim().match(/^(\d+)\s+(hour|minute|day)s?$/i);
+  if (!match) {
+    return duration;
+  }
+  const units: Record<string, string> = { hour: 'awr', minute: 'munud', day: 'diwrnod' };
+  return `${match[1]} ${units[match[2].toLowerCase()]}`;
+}
+
+export const welshEmailTemplates: LocalisedEmailTemplates = {
+  courseAssigned({ userName, courseName, dueDate, orgName, courseUrl }) {
+    const html = layout("Cwrs Newydd Wedi'i Neilltuo", '#2563eb', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Mae cwrs newydd wedi'i neilltuo i chi: <strong>${courseName}</strong>
+      </mj-text>
+
+      ${dueDate ? `
+      <mj-text font-size="16px" color="#dc2626">
+        <strong>Dyddiad Cau:</strong> ${dueDate}
+      </mj-text>
+      ` : ''}
+
+      ${courseUrl ? `
+      <mj-button background-color="#2563eb" color="#ffffff" href="${courseUrl}" padding="20px 0">
+        Dechrau'r Cwrs
+      </mj-button>
+      ` : ''}
+    `, orgName);
+
+    return {
+      subject: `Cwrs Newydd Wedi'i Neilltuo: ${courseName}`,
+      html,
+      text: `Helo ${userName},\n\nMae cwrs newydd wedi'i neilltuo i chi: ${courseName}\n${dueDate ? `Dyddiad Cau: ${dueDate}\n` : ''}\n${courseUrl ? `Agor eich cwrs: ${courseUrl}\n` : ''}\n\n${orgName}`
+    };
+  },
+
+  userCourseCompleted({ userName, courseName, score, status, completedDate, orgName }) {
+    const isPassed = status === 'PASS';
+    const statusColor = isPassed ? '#10b981' : '#dc2626';
+    const statusText = isPassed ? "Wedi'i Gwblhau'n Llwyddiannus" : 'Heb ei Basio';
+
+    const html = layout(`Cwrs ${statusText}`, statusColor, `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        ${isPassed
+          ? `Llongyfarchiadau! Rydych wedi cwblhau'r cwrs hwn yn llwyddiannus: <strong>${courseName}</strong>`
+          : `Rydych wedi cwblhau <strong>${courseName}</strong>, ond heb gyrraedd y marc llwyddo.`
+        }
+      </mj-text>
+
+      <mj-text font-size="18px" font-weight="bold" color="${statusColor}" align="center" padding="20px 0">
+        Sgôr: ${score}%
+      </mj-text>
+
+      <mj-text font-size="16px">
+        <strong>Cwblhawyd:</strong> ${completedDate}
+      </mj-text>
+
+      ${!isPassed ? `
+      <mj-text font-size="16px" color="#dc2626">
+        Cysylltwch â'ch gweinyddwr os oes angen i chi ailsefyll y cwrs hwn.
+      </mj-text>
+      ` : ''}
+    `, orgName);
+
+    return {
+      subject: isPassed ? `Cwrs Wedi'i Gwblhau: ${courseName}` : `Cwrs Heb ei Basio: ${courseName}`,
+      html,
+      text: `Helo ${userName},\n\n${isPassed ? 'Llongyfarchiadau! ' : ''}Rydych wedi cwblhau: ${courseName}\n\nSgôr: ${score}%\nStatws: ${statusText}\nCwblhawyd: ${completedDate}\n${!isPassed ? "\nCysylltwch â'ch gweinyddwr os oes angen i chi ailsefyll y cwrs hwn.\n" : ''}\n${orgName}`
+    };
+  },
+
+  dueDatePassed({ userName, courseName, dueDate, orgName, courseUrl }) {
+    const html = layout('Cwrs yn Hwyr', '#dc2626', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px" color="#dc2626">
+        Mae'r dyddiad cau ar gyfer <strong>${courseName}</strong> wedi mynd heibio.
+      </mj-text>
+
+      <mj-text font-size="16px">
+        <strong>Dyddiad Cau:</strong> ${dueDate}
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Cwblhewch y cwrs hwn cyn gynted â phosibl.
+      </mj-text>
+
+      ${courseUrl ? `
+      <mj-button background-color="#dc2626" color="#ffffff" href="${courseUrl}" padding="20px 0">
+        Cwblhau'r Cwrs Nawr
+      </mj-button>
+      ` : ''}
+    `, orgName);
+
+    return {
+      subject: `Cwrs yn Hwyr: ${courseName}`,
+      html,
+      text: `Helo ${userName},\n\nMae'r dyddiad cau ar gyfer ${courseName} wedi mynd heibio.\n\nDyddiad Cau: ${dueDate}\n\nCwblhewch y cwrs hwn cyn gynted â phosibl.\n${courseUrl ? `\nCwblhau'r cwrs: ${courseUrl}\n` : ''}\n${orgName}`
+    };
+  },
+
+  welcomeEmail({ userName, userEmail, temporaryPassword, orgName, loginUrl }) {
+    const html = layout(`Croeso i ${orgName}`, '#2563eb', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Croeso! Mae eich cyfrif wedi'i greu ac rydych yn barod i ddechrau eich hyfforddiant.
+      </mj-text>
+
+      <mj-text font-size="16px" padding="10px 0">
+        <strong>E-bost:</strong> ${userEmail}
+      </mj-text>
+
+      <mj-section background-color="#f9fafb" padding="20px" border-radius="8px">
+        <mj-column>
+          <mj-text font-size="14px" color="#6b7280" align="center">
+            Eich Cyfrinair Dros Dro
+          </mj-text>
+          <mj-text font-size="20px" font-weight="bold" color="#2563eb" align="center" padding="10px 0">
+            ${temporaryPassword}
+          </mj-text>
+          <mj-text font-size="12px" color="#dc2626" align="center">
+            Bydd angen i chi newid y cyfrinair hwn y tro cyntaf i chi fewngofnodi
+          </mj-text>
+        </mj-column>
+      </mj-section>
+
+      <mj-button background-color="#2563eb" color="#ffffff" href="${loginUrl}" padding="20px 0">
+        Mewngofnodi Nawr
+      </mj-button>
+    `, orgName);
+
+    return {
+      subject: `Croeso i ${orgName} - Mae Eich Cyfrif yn Barod`,
+      html,
+      text: `Helo ${userName},\n\nCroeso! Mae eich cyfrif wedi'i greu.\n\nE-bost: ${userEmail}\nCyfrinair Dros Dro: ${temporaryPassword}\n\nBydd angen i chi newid y cyfrinair hwn y tro cyntaf i chi fewngofnodi.\n\nMewngofnodi: ${loginUrl}\n\n${orgName}`
+    };
+  },
+
+  passwordReset({ userName, resetLink, expiryTime, orgName }) {
+    const expiry = welshDuration(expiryTime);
+    const html = layout('Cais i Ailosod Cyfrinair', '#2563eb', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Cawsom gais i ailosod eich cyfrinair. Cliciwch y botwm isod i greu cyfrinair newydd:
+      </mj-text>
+
+      <mj-button background-color="#2563eb" color="#ffffff" href="${resetLink}" padding="20px 0">
+        Ailosod Cyfrinair
+      </mj-button>
+
+      <mj-text font-size="14px" color="#dc2626" padding="10px 0">
+        Bydd y ddolen hon yn dod i ben ymhen ${expiry}.
+      </mj-text>
+
+      <mj-text font-size="14px" color="#6b7280">
+        Os na wnaethoch ofyn i ailosod eich cyfrinair, anwybyddwch yr e-bost hwn. Ni fydd eich cyfrinair yn newid.
+      </mj-text>
+    `, orgName);
+
+    return {
+      subject: `Cais i Ailosod Cyfrinair - ${orgName}`,
+      html,
+      text: `Helo ${userName},\n\nCawsom gais i ailosod eich cyfrinair.\n\nAilosod eich cyfrinair: ${resetLink}\n\nBydd y ddolen hon yn dod i ben ymhen ${expiry}.\n\nOs na wnaethoch ofyn am hyn, anwybyddwch yr e-bost hwn.\n\n${orgName}`
+    };
+  },
+
+  courseReminder({ userName, courseName, dueDate, daysRemaining, orgName, courseUrl }) {
+    const urgencyColor = daysRemaining <= 3 ? '#dc2626' : '#f59e0b';
+    const html = layout('Nodyn Atgoffa am Gwrs', urgencyColor, `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Nodyn atgoffa cyfeillgar bod angen cwblhau eich cwrs <strong>${courseName}</strong> cyn bo hir.
+      </mj-text>
+
+      <mj-section background-color="#fef3c7" padding="20px" border-radius="8px">
+        <mj-column>
+          <mj-text font-size="18px" font-weight="bold" color="${urgencyColor}" align="center">
+            ${daysRemaining} diwrnod ar ôl
+          </mj-text>
+          <mj-text font-size="14px" align="center" padding="5px 0">
+            Dyddiad cau: ${dueDate}
+          </mj-text>
+        </mj-column>
+      </mj-section>
+
+      ${courseUrl ? `
+      <mj-button background-color="${urgencyColor}" color="#ffffff" href="${courseUrl}" padding="20px 0">
+        Parhau â'r Cwrs
+      </mj-button>
+      ` : ''}
+    `, orgName);
+
+    return {
+      subject: `Nodyn atgoffa: ${courseName} - ${daysRemaining} diwrnod ar ôl`,
+      html,
+      text: `Helo ${userName},\n\nNodyn atgoffa bod angen cwblhau eich cwrs "${courseName}" cyn bo hir.\n\nDyddiad Cau: ${dueDate}\nDiwrnodau ar ôl: ${daysRemaining}\n${courseUrl ? `\nParhau â'r cwrs: ${courseUrl}\n` : ''}\n${orgName}`
+    };
+  },
+
+  certificateIssued({ userName, courseName, issueDate, certificateUrl, orgName }) {
+    const html = layout("🎓 Tystysgrif Wedi'i Chyhoeddi", '#10b981', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Llongyfarchiadau! Mae eich tystysgrif ar gyfer <strong>${courseName}</strong> wedi'i chyhoeddi.
+      </mj-text>
+
+      <mj-text font-size="16px" padding="10px 0">
+        <strong>Dyddiad Cyhoeddi:</strong> ${issueDate}
+      </mj-text>
+
+      <mj-button background-color="#10b981" color="#ffffff" href="${certificateUrl}" padding="20px 0">
+        Lawrlwytho'r Dystysgrif
+      </mj-button>
+
+      <mj-text font-size="14px" color="#6b7280">
+        Gallwch weld eich tystysgrif unrhyw bryd o'ch dangosfwrdd.
+      </mj-text>
+    `, orgName);
+
+    return {
+      subject: `Tystysgrif Wedi'i Chyhoeddi: ${courseName}`,
+      html,
+      text: `Helo ${userName},\n\nLlongyfarchiadau! Mae eich tystysgrif ar gyfer "${courseName}" wedi'i chyhoeddi.\n\nDyddiad Cyhoeddi: ${issueDate}\n\nLawrlwytho: ${certificateUrl}\n\n${orgName}`
+    };
+  },
+
+  learnerDigest({ userName, orgName, frequency, items, coursesUrl }) {
+    const assigned = items.filter(item => item.type === 'course_assigned');
+    const overdue = items.filter(item => item.type === 'due_date_passed');
+    const section = (heading: string, color: string, sectionItems: typeof items) => sectionItems.length === 0 ? '' : `
+      <mj-text font-size="18px" font-weight="bold" color="${color}" padding-top="20px">
+        ${heading}
+      </mj-text>
+
+      <mj-table font-size="14px">
+        <tr style="border-bottom:2px solid #e5e7eb;text-align:left;">
+          <th style="padding:6px 0;">Cwrs</th>
+          <th style="padding:6px 0;">Dyddiad Cau</th>
+        </tr>${sectionItems.map(item => `
+        <tr style="border-bottom:1px solid #e5e7eb;">
+          <td style="padding:6px 0;">${item.courseUrl ? `<a href="${item.courseUrl}" style="color:#2563eb;">${item.courseName}</a>` : item.courseName}</td>
+          <td style="padding:6px 0;">${item.dueDate || '-'}</td>
+        </tr>`).join('')}
+      </mj-table>`;
+    const textSection = (heading: string, sectionItems: typeof items) => sectionItems.length === 0 ? '' :
+      `${heading}:\n${sectionItems.map(item => `- ${item.courseName}${item.dueDate ? ` (dyddiad cau ${item.dueDate})` : ''}`).join('\n')}\n\n`;
+    const period = frequency === 'daily' ? 'Dyddiol' : 'Wythnosol';
+
+    const html = layout(`Eich Diweddariad Hyfforddiant ${period}`, '#2563eb', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        Dyma beth sydd wedi newid yn eich hyfforddiant ers eich diweddariad diwethaf.
+      </mj-text>
+      ${section(`Cyrsiau newydd (${assigned.length})`, '#2563eb', assigned)}
+      ${section(`Cyrsiau hwyr (${overdue.length})`, '#dc2626', overdue)}
+
+      <mj-button background-color="#2563eb" color="#ffffff" href="${coursesUrl}" padding="20px 0">
+        Gweld Fy Nghyrsiau
+      </mj-button>
+    `, orgName);
+
+    return {
+      subject: `Eich diweddariad hyfforddiant ${period.toLowerCase()}: ${items.length} eitem`,
+      html,
+      text: `Helo ${userName},\n\nDyma beth sydd wedi newid yn eich hyfforddiant ers eich diweddariad diwethaf.\n\n${textSection('Cyrsiau newydd', assigned)}${textSection('Cyrsiau hwyr', overdue)}Gweld eich cyrsiau: ${coursesUrl}\n\n${orgName}`
+    };
+  },
+
+  classroomBooking({ userName, orgName, status, sessionTitle, courseTitle, when, location, bookingsUrl }) {
+    const headings = {
+      booked: "Mae Eich Lle Wedi'i Archebu",
+      waitlisted: 'Rydych ar y Rhestr Aros',
+      cancelled: "Archeb Wedi'i Chanslo",
+      session_cancelled: "Sesiwn Wedi'i Chanslo",
+    };
+    const messages = {
+      booked: "Mae eich lle wedi'i gadarnhau. Mae'r gwahoddiad calendr sydd ynghlwm yn ychwanegu'r sesiwn at eich calendr.",
+      waitlisted: "Mae'r sesiwn yn llawn, felly rydych wedi cael eich ychwanegu at y rhestr aros. Byddwn yn anfon e-bost gyda gwahoddiad calendr atoch os daw lle ar gael.",
+      cancelled: "Mae eich archeb wedi'i chanslo. Mae'r ffeil sydd ynghlwm yn tynnu'r sesiwn o'ch calendr.",
+      session_cancelled: "Mae'r trefnydd wedi canslo'r sesiwn hon. Mae'r ffeil sydd ynghlwm yn ei thynnu o'ch calendr.",
+    };
+    const subjects = {
+      booked: `Archeb wedi'i chadarnhau: ${sessionTitle}`,
+      waitlisted: `Rhestr aros: ${sessionTitle}`,
+      cancelled: `Archeb wedi'i chanslo: ${sessionTitle}`,
+      session_cancelled: `Sesiwn wedi'i chanslo: ${sessionTitle}`,
+    };
+
+    const html = layout(headings[status], '#2563eb', `
+      <mj-text font-size="16px">
+        Helo ${userName},
+      </mj-text>
+
+      <mj-text font-size="16px">
+        ${messages[status]}
+      </mj-text>
+
+      <mj-table font-size="14px">
+        <tr><td style="padding:4px 0;font-weight:bold;">Sesiwn</td><td style="padding:4px 0;">${sessionTitle}</td></tr>
+        <tr><td style="padding:4px 0;font-weight:bold;">Cwrs</td><td style="padding:4px 0;">${courseTitle}</td></tr>
+        <tr><td style="padding:4px 0;font-weight:bold;">Pryd</td><td style="padding:4px 0;">${when}</td></tr>
+        <tr><td style="padding:4px 0;font-weight:bold;">Ble</td><td style="padding:4px 0;">${location}</td></tr>
+      </mj-table>
+
+      <mj-button background-color="#2563eb" color="#ffffff" href="${bookingsUrl}" padding="20px 0">
+        Gweld Fy Sesiynau
+      </mj-button>
+    `, orgName);
+
+    return {
+      subject: subjects[status],
+      html,
+      text: `Helo ${userName},\n\n${messages[status]}\n\nSesiwn: ${sessionTitle}\nCwrs: ${courseTitle}\nPryd: ${when}\nBle: ${location}\n\nGweld eich sesiynau: ${bookingsUrl}\n\n${orgName}`
+    };
+  },
+};
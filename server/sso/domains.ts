@@ -0,0 +1,51 @@
+/**
+ * SSO Email Domain Verification
+ * An organisation proves it owns an email domain with a DNS TXT record before the domain sends
+ * anyone to its identity provider. Superadmins can approve a domain without the record.
+ */
+
+import { randomBytes } from "crypto";
+import { promises as dns } from "dns";
+import { storage } from "../storage";
+
+const RECORD_LABEL = '_intelms-verification';
+const RECORD_PREFIX = 'intelms-domain-verification=';
+
+export function normaliseEmailDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, '');
+}
+
+export function generateDomainVerificationToken(): string {
+  return randomBytes(18).toString('hex');
+}
+
+// The TXT record the organisation publishes to prove it owns the domain
+export function domainVerificationRecord(domain: string, token: string): { name: string; value: string } {
+  return { name: `${RECORD_LABEL}.${domain}`, value: `${RECORD_PREFIX}${token}` };
+}
+
+// True when the domain publishes the expected TXT record - a missing record or a lookup failure is false
+export async function hasDomainVerificationRecord(domain: string, token: string): Promise<boolean> {
+  const { name, value } = domainVerificationRecord(domain, token);
+  try {
+    const records = await dns.resolveTxt(name);
+    return records.some(chunks => chunks.join('').trim() === value);
+  } catch (error) {
+    console.log(`🔐 No verification record found at ${name}: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+// Domains saved before verification existed are listed unverified until the organisation proves them
+export async function backfillSsoEmailDomains(): Promise<number> {
+  let added = 0;
+  for (const config of await storage.getSsoConfigsWithEmailDomains()) {
+    const before = (await storage.getSsoEmailDomains(config.organisationId)).length;
+    const after = await storage.syncSsoEmailDomains(
+      config.organisationId,
+      (config.emailDomains || []).map(domain => ({ domain, verificationToken: generateDomainVerificationToken() }))
+    );
+    added += after.length - before;
+  }
+  return added;
+}
@@ -0,0 +1,185 @@
+/**
+ * SSO Account Linking and Just-in-Time Provisioning
+ * Maps IdP attributes onto user fields, then finds, links or creates the user for the organisation.
+ */
+
+import { storage } from "../storage";
+import { assignmentRuleService } from "../services/AssignmentRuleService";
+import type { InsertUser, OrganisationSsoConfig, User } from "@shared/schema";
+
+export type SsoAttributeField = 'email' | 'firstName' | 'lastName' | 'department' | 'jobTitle';
+
+export interface SsoIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean; // only a verified email may link the sign-in to an existing account
+  firstName: string | null;
+  lastName: string | null;
+  department: string | null;
+  jobTitle: string | null;
+}
+
+export type LicenseCapacityCheck = (organisationId: string) => Promise<{ canProceed: boolean; error?: string }>;
+
+/**
+ * Raised for sign-ins the IdP accepted but we refuse - the message is shown to the learner
+ */
+export class SsoLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsoLoginError';
+  }
+}
+
+// Attribute names the common IdPs send when no mapping is configured
+const DEFAULT_ATTRIBUTES: Record<'saml' | 'oidc', Record<SsoAttributeField, string[]>> = {
+  saml: {
+    email: ['email', 'mail', 'urn:oid:0.9.2342.19200300.100.1.3', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'],
+    firstName: ['firstName', 'givenName', 'urn:oid:2.5.4.42', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'],
+    lastName: ['lastName', 'sn', 'surname', 'urn:oid:2.5.4.4', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'],
+    department: ['department', 'urn:oid:2.5.4.11', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/department'],
+    jobTitle: ['jobTitle', 'title', 'urn:oid:2.5.4.12', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/title'],
+  },
+  oidc: {
+    email: ['email', 'preferred_username', 'upn'],
+    firstName: ['given_name'],
+    lastName: ['family_name'],
+    department: ['department'],
+    jobTitle: ['job_title', 'jobTitle'],
+  },
+};
+
+function attributeValue(attributes: Record<string, unknown>, name: string): string | null {
+  const value = attributes[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : null;
+}
+
+/**
+ * Build the identity from raw SAML attributes or OIDC claims - configured names win over the defaults
+ */
+export function mapSsoIdentity(config: OrganisationSsoConfig, subject: string, attributes: Record<string, unknown>): SsoIdentity {
+  const protocol = config.protocol === 'oidc' ? 'oidc' : 'saml';
+  const mapping = config.attributeMapping || {};
+
+  const readAttribute = (field: SsoAttributeField): { name: string; value: string } | null => {
+    const names = [mapping[field], ...DEFAULT_ATTRIBUTES[protocol][field]].filter((name): name is string => !!name);
+    for (const name of names) {
+      const value = attributeValue(attributes, name);
+      if (value) {
+        return { name, value };
+      }
+    }
+    return null;
+  };
+  const read = (field: SsoAttributeField): string | null => readAttribute(field)?.value ?? null;
+
+  const emailAttribute = readAttribute('email');
+  const email = emailAttribute?.value || (subject.includes('@') ? subject : null);
+  // A SAML assertion is signed by the organisation's own IdP. OIDC users can often set
+  // preferred_username or upn themselves, so only an email claim marked verified counts there.
+  const emailVerified = protocol === 'saml'
+    ? !!email
+    : emailAttribute?.name === 'email' && attributes.email_verified === true;
+  return {
+    subject,
+    email: email ? email.toLowerCase() : null,
+    emailVerified,
+    firstName: read('firstName'),
+    lastName: read('lastName'),
+    department: read('department'),
+    jobTitle: read('jobTitle'),
+  };
+}
+
+/**
+ * Profile fields the IdP is authoritative for - only overwrite with values it actually sent
+ */
+function profileUpdates(identity: SsoIdentity): Partial<InsertUser> {
+  return {
+    ...(identity.firstName && { firstName: identity.firstName }),
+    ...(identity.lastName && { lastName: identity.lastName }),
+    ...(identity.department && { department: identity.department }),
+    ...(identity.jobTitle && { jobTitle: identity.jobTitle }),
+  };
+}
+
+/**
+ * Resolve the user for an SSO sign-in: by linked subject, then by verified email within the
+ * organisation, then (if enabled) by creating a new learner account.
+ */
+export async function resolveSsoUser(
+  config: OrganisationSsoConfig,
+  identity: SsoIdentity,
+  checkCapacity: LicenseCapacityCheck
+): Promise<User> {
+  const organisation = await storage.getOrganisation(config.organisationId);
+  if (!organisation) {
+    throw new SsoLoginError('Organisation not found');
+  }
+  if (organisation.status === 'archived') {
+    throw new SsoLoginError('Your account has been Archived. Please get in touch if this is an error or if you need to be reinstated');
+  }
+
+  let user = await storage.getUserBySsoSubject(config.organisationId, identity.subject);
+
+  if (!user && identity.email) {
+    const existing = await storage.getUserByEmail(identity.email);
+    if (existing) {
+      if (existing.role === 'superadmin' || existing.organisationId !== config.organisationId) {
+        throw new SsoLoginError('This account cannot sign in through your organisation\'s identity provider');
+      }
+      if (!identity.emailVerified) {
+        console.log(`[SSO] Refused to link ${identity.email} in organisation ${config.organisationId}: email not verified by the identity provider`);
+        throw new SsoLoginError('Your identity provider has not verified your email address, so it cannot sign you in to your existing account. Please contact your administrator.');
+      }
+      user = existing;
+    }
+  }
+
+  if (user) {
+    if (user.status !== 'active') {
+      throw new SsoLoginError('Account is not active');
+    }
+    return await storage.updateUser(user.id, {
+      ...profileUpdates(identity),
+      ssoSubject: identity.subject,
+      lastActive: new Date(),
+    });
+  }
+
+  if (!config.jitProvisioning) {
+    throw new SsoLoginError('No account exists for you yet. Please ask your administrator to add you.');
+  }
+  if (!identity.email) {
+    throw new SsoLoginError('Your identity provider did not send an email address');
+  }
+
+  const licenseCheck = await checkCapacity(config.organisationId);
+  if (!licenseCheck.canProceed) {
+    console.log(`[SSO] JIT provisioning refused for ${identity.email}: ${licenseCheck.error}`);
+    throw new SsoLoginError('Your organisation has no licences available. Please contact your administrator.');
+  }
+
+  const newUser = await storage.createUser({
+    email: identity.email,
+    firstName: identity.firstName,
+    lastName: identity.lastName,
+    department: identity.department,
+    jobTitle: identity.jobTitle,
+    role: 'user',
+    status: 'active',
+    organisationId: config.organisationId,
+    ssoSubject: identity.subject,
+    lastActive: new Date(),
+  });
+  console.log(`[SSO] Provisioned ${newUser.email} for organisation ${config.organisationId}`);
+
+  try {
+    await assignmentRuleService.applyRulesForUser(newUser);
+  } catch (error) {
+    console.error('[SSO] Failed to apply assignment rules:', error);
+  }
+
+  return newUser;
+}
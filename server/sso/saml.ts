@@ -0,0 +1,173 @@
+/**
+ * SAML 2.0 Service Provider
+ * One SP per organisation - the organisation id is part of the ACS URL so each IdP posts
+ * back to its own endpoint. Signature and audience checks are done by node-saml.
+ * Responses must answer an AuthnRequest we sent, and each assertion is accepted once; both ids
+ * are kept in the database so this holds across server instances.
+ */
+
+import { SAML, ValidateInResponseTo, type CacheItem, type CacheProvider, type Profile } from "@node-saml/node-saml";
+import { storage } from "../storage";
+import type { OrganisationSsoConfig } from "@shared/schema";
+
+// How long the learner has at the IdP before the AuthnRequest is no longer answerable
+const REQUEST_ID_TTL_MS = 15 * 60 * 1000;
+// A replay also needs an unanswered request id, so assertion ids only have to outlive those
+const ASSERTION_ID_TTL_MS = 24 * 60 * 60 * 1000;
+const ACCEPTED_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificate: string;
+}
+
+export function samlSpEntityId(baseUrl: string, organisationId: string): string {
+  return `${baseUrl}/api/sso/${organisationId}/saml/metadata`;
+}
+
+export function samlAcsUrl(baseUrl: string, organisationId: string): string {
+  return `${baseUrl}/api/sso/${organisationId}/saml/acs`;
+}
+
+/**
+ * Pull the entity id, redirect-binding SSO URL and signing certificates out of IdP metadata XML
+ */
+export function parseIdpMetadata(xml: string): IdpMetadata {
+  const entityId = xml.match(/<(?:\w+:)?EntityDescriptor[^>]*\bentityID="([^"]+)"/)?.[1];
+  if (!entityId) {
+    throw new Error('Metadata has no EntityDescriptor entityID');
+  }
+
+  const ssoServices = Array.from(xml.matchAll(/<(?:\w+:)?SingleSignOnService\b[^>]*>/g)).map(match => ({
+    binding: match[0].match(/\bBinding="([^"]+)"/)?.[1] || '',
+    location: match[0].match(/\bLocation="([^"]+)"/)?.[1] || '',
+  }));
+  const ssoService = ssoServices.find(service => service.binding.endsWith(':HTTP-Redirect')) ||
+    ssoServices.find(service => service.binding.endsWith(':HTTP-POST'));
+  if (!ssoService?.location) {
+    throw new Error('Metadata has no HTTP-Redirect or HTTP-POST SingleSignOnService');
+  }
+
+  // Signing keys only - encryption-only keys cannot verify assertions
+  const keyDescriptors = Array.from(xml.matchAll(/<(?:\w+:)?KeyDescriptor\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?KeyDescriptor>/g))
+    .filter(match => !/\buse="encryption"/.test(match[1]));
+  const certificates = keyDescriptors
+    .map(match => match[2].match(/<(?:\w+:)?X509Certificate>([\s\S]*?)<\/(?:\w+:)?X509Certificate>/)?.[1])
+    .filter((cert): cert is string => !!cert)
+    .map(cert => cert.replace(/\s+/g, ''));
+  if (certificates.length === 0) {
+    throw new Error('Metadata has no signing certificate');
+  }
+
+  return {
+    entityId,
+    ssoUrl: ssoService.location,
+    certificate: Array.from(new Set(certificates)).join('\n\n'),
+  };
+}
+
+/**
+ * node-saml request id cache backed by the saml_message_ids table
+ */
+class SamlRequestIdCache implements CacheProvider {
+  constructor(private organisationId: string) {}
+
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    const now = new Date();
+    await storage.deleteExpiredSamlMessageIds(now);
+    const saved = await storage.createSamlMessageId({
+      organisationId: this.organisationId,
+      kind: 'request',
+      messageId: key,
+      value,
+      expiresAt: new Date(now.getTime() + REQUEST_ID_TTL_MS),
+    });
+    return saved ? { value, createdAt: now.getTime() } : null;
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    return (await storage.getSamlMessageIdValue(this.organisationId, 'request', key)) ?? null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) {
+      return null;
+    }
+    return (await storage.deleteSamlMessageId(this.organisationId, 'request', key)) ?? null;
+  }
+}
+
+function samlClient(config: OrganisationSsoConfig, baseUrl: string): SAML {
+  if (!config.samlSsoUrl || !config.samlCertificate) {
+    throw new Error('SAML identity provider is not configured');
+  }
+
+  return new SAML({
+    entryPoint: config.samlSsoUrl,
+    issuer: samlSpEntityId(baseUrl, config.organisationId),
+    callbackUrl: samlAcsUrl(baseUrl, config.organisationId),
+    idpCert: config.samlCertificate.split(/\n\s*\n/).map(cert => cert.trim()).filter(Boolean),
+    idpIssuer: config.samlEntityId || undefined,
+    audience: samlSpEntityId(baseUrl, config.organisationId),
+    identifierFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    acceptedClockSkewMs: ACCEPTED_CLOCK_SKEW_MS,
+    disableRequestedAuthnContext: true,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: REQUEST_ID_TTL_MS,
+    cacheProvider: new SamlRequestIdCache(config.organisationId),
+  });
+}
+
+/**
+ * ID attribute of the validated assertion
+ */
+function assertionId(profile: Profile): string | undefined {
+  const parsed = profile.getAssertion?.() as { Assertion?: { $?: { ID?: unknown } } } | undefined;
+  const id = parsed?.Assertion?.$?.ID;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/**
+ * URL that sends the browser to the IdP with an AuthnRequest
+ */
+export async function buildSamlLoginUrl(config: OrganisationSsoConfig, baseUrl: string, relayState: string): Promise<string> {
+  return samlClient(config, baseUrl).getAuthorizeUrlAsync(relayState, undefined, {});
+}
+
+/**
+ * Validate the SAMLResponse posted to the ACS and return the asserted attributes.
+ * IdP-initiated responses (no InResponseTo) and replayed assertions are refused.
+ */
+export async function validateSamlResponse(config: OrganisationSsoConfig, baseUrl: string, body: Record<string, string>): Promise<Profile> {
+  const { profile } = await samlClient(config, baseUrl).validatePostResponseAsync(body);
+  if (!profile) {
+    throw new Error('SAML response did not contain an assertion');
+  }
+
+  const id = assertionId(profile);
+  if (!id) {
+    throw new Error('SAML assertion has no ID');
+  }
+  const firstUse = await storage.createSamlMessageId({
+    organisationId: config.organisationId,
+    kind: 'assertion',
+    messageId: id,
+    expiresAt: new Date(Date.now() + ASSERTION_ID_TTL_MS),
+  });
+  if (!firstUse) {
+    throw new Error(`SAML assertion ${id} has already been used`);
+  }
+  return profile;
+}
+
+export function generateSamlSpMetadata(config: OrganisationSsoConfig, baseUrl: string): string {
+  return new SAML({
+    issuer: samlSpEntityId(baseUrl, config.organisationId),
+    callbackUrl: samlAcsUrl(baseUrl, config.organisationId),
+    idpCert: config.samlCertificate || 'unconfigured',
+    wantAssertionsSigned: true,
+  }).generateServiceProviderMetadata(null);
+}
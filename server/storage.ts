@@ -2,9 +2,34 @@ import {
   users,
   organisations,
   courses,
+  courseVersions,
   courseFolders,
   organisationCourseFolders,
   assignments,
+  learningPaths,
+  learningPathCourses,
+  learningPathEnrolments,
+  assignmentRules,
+  mandatoryCourses,
+  organisationRoles,
+  classroomSessions,
+  classroomBookings,
+  externalTrainingRecords,
+  courseAssessments,
+  assessmentQuestions,
+  assessmentAttempts,
+  complianceSnapshots,
+  complianceSnapshotMatrices,
+  reportSubscriptions,
+  organisationSsoConfigs,
+  samlMessageIds,
+  ssoEmailDomains,
+  scimTokens,
+  userMfa,
+  passwordResetTokens,
+  sessions,
+  userGroups,
+  userGroupMembers,
   completions,
   certificates,
   certificateTemplates,
@@ -12,6 +37,11 @@ import {
   platformSettings,
   todoItems,
   scormAttempts,
+  scormInteractions,
+  scormObjectives,
+  xapiLaunchSessions,
+  xapiStatements,
+  xapiDocuments,
   plans,
   planFeatures,
   planFeatureMappings,
@@ -26,6 +56,7 @@ import {
   emailSettingsLock, // NEW: Email settings lock table
   billingLocks, // NEW: Billing/subscription distributed lock table
   orgNotificationSettings, // Organization notification settings
+  learnerDigestEvents,
   emailProviderConfigs, // Email provider configurations
   supportTickets,
   supportTicketResponses,
@@ -82,6 +113,8 @@ import {
   type InsertOrganisation,
   type Course,
   type InsertCourse,
+  type CourseVersion,
+  type InsertCourseVersion,
   type CourseFolder,
   type InsertCourseFolder,
   type OrganisationCourseFolder,
@@ -90,6 +123,49 @@ import {
   type InsertAssignment,
   type Completion,
   type InsertCompletion,
+  type LearningPath,
+  type InsertLearningPath,
+  type LearningPathCourse,
+  type InsertLearningPathCourse,
+  type LearningPathEnrolment,
+  type InsertLearningPathEnrolment,
+  type AssignmentRule,
+  type InsertAssignmentRule,
+  type MandatoryCourse,
+  type InsertMandatoryCourse,
+  type OrganisationRole,
+  type InsertOrganisationRole,
+  type ClassroomSession,
+  type InsertClassroomSession,
+  type ClassroomBooking,
+  type InsertClassroomBooking,
+  type ExternalTrainingRecord,
+  type InsertExternalTrainingRecord,
+  type CourseAssessment,
+  type InsertCourseAssessment,
+  type AssessmentQuestion,
+  type AssessmentQuestionInput,
+  type AssessmentAttempt,
+  type InsertAssessmentAttempt,
+  type ComplianceSnapshot,
+  type InsertComplianceSnapshot,
+  type ComplianceSnapshotMatrix,
+  type InsertComplianceSnapshotMatrix,
+  type OrganisationSsoConfig,
+  type InsertOrganisationSsoConfig,
+  type InsertSamlMessageId,
+  type SsoEmailDomain,
+  type ScimToken,
+  type UserMfa,
+  type InsertUserMfa,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type ReportSubscription,
+  type InsertReportSubscription,
+  type InsertScimToken,
+  type UserGroup,
+  type InsertUserGroup,
+  type UserGroupMember,
   type Certificate,
   type InsertCertificate,
   type CertificateTemplate,
@@ -102,6 +178,14 @@ import {
   type InsertTodoItem,
   type ScormAttempt,
   type InsertScormAttempt,
+  type ScormInteraction,
+  type ScormObjective,
+  type XapiLaunchSession,
+  type InsertXapiLaunchSession,
+  type XapiStatement,
+  type InsertXapiStatement,
+  type XapiDocument,
+  type InsertXapiDocument,
   type Plan,
   type InsertPlan,
   type PlanFeature,
@@ -130,6 +214,10 @@ import {
   type InsertBillingLock,
   type EmailProviderConfigs, // Email provider configurations
   type InsertEmailProviderConfigs,
+  type OrgNotificationSettings,
+  type InsertOrgNotificationSettings,
+  type LearnerDigestEvent,
+  type InsertLearnerDigestEvent,
   type SupportTicket,
   type InsertSupportTicket,
   type SupportTicketResponse,
@@ -221,7 +309,7 @@ import {
   type InsertIntegrationAuditLogs,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, count, sql, like, or, isNull, avg, ilike, inArray } from "drizzle-orm";
+import { eq, and, desc, asc, count, sql, like, or, isNull, avg, ilike, inArray, notInArray, lte, gte, gt, isNotNull } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -268,11 +356,17 @@ export interface IStorage {
   // Course operations
   getCourse(id: string): Promise<Course | undefined>;
   createCourse(course: InsertCourse): Promise<Course>;
-  updateCourse(id: string, course: Partial<InsertCourse>): Promise<Course>;
+  updateCourse(id: string, course: Partial<InsertCourse & Pick<Course, 'currentVersionId'>>): Promise<Course>;
   deleteCourse(id: string): Promise<void>;
   getAllCourses(): Promise<Course[]>;
   getCoursesByStatus(status: string): Promise<Course[]>;
 
+  // Course version operations
+  getCourseVersion(id: string): Promise<CourseVersion | undefined>;
+  getCourseVersionsByCourse(courseId: string): Promise<CourseVersion[]>;
+  createCourseVersion(version: InsertCourseVersion): Promise<CourseVersion>;
+  recordCourseVersionManifest(id: string, manifest: Pick<InsertCourseVersion, 'scormVersion' | 'scormOrganizations' | 'defaultOrganization'>): Promise<CourseVersion>;
+
   // Course folder operations
   getCourseFolder(id: string): Promise<CourseFolder | undefined>;
   createCourseFolder(folder: InsertCourseFolder): Promise<CourseFolder>;
@@ -300,14 +394,171 @@ export interface IStorage {
   removeDuplicateAssignments(): Promise<{ duplicatesRemoved: number; duplicateGroups: number }>;
   findDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ courseId: string; userId: string; count: number; duplicateIds: string[] }[]>;
   removeDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ duplicatesRemoved: number; duplicateGroups: number }>;
+  getAssignmentsByLearningPathEnrolment(enrolmentId: string): Promise<Assignment[]>;
+  getAssignmentHistory(courseId: string, userId: string): Promise<Assignment[]>;
+  openRecertificationCycle(previousAssignmentId: string, assignment: InsertAssignment): Promise<Assignment>;
+
+  // Learning path operations
+  getLearningPath(id: string): Promise<LearningPath | undefined>;
+  createLearningPath(path: InsertLearningPath): Promise<LearningPath>;
+  updateLearningPath(id: string, path: Partial<InsertLearningPath>): Promise<LearningPath>;
+  deleteLearningPath(id: string): Promise<void>;
+  getLearningPathsByOrganisation(organisationId: string): Promise<LearningPath[]>;
+  getLearningPathCourses(learningPathId: string): Promise<LearningPathCourse[]>;
+  setLearningPathCourses(learningPathId: string, steps: Omit<InsertLearningPathCourse, 'learningPathId'>[]): Promise<LearningPathCourse[]>;
+  getLearningPathEnrolment(id: string): Promise<LearningPathEnrolment | undefined>;
+  getLearningPathEnrolmentByUser(learningPathId: string, userId: string): Promise<LearningPathEnrolment | undefined>;
+  createLearningPathEnrolment(enrolment: InsertLearningPathEnrolment): Promise<LearningPathEnrolment>;
+  updateLearningPathEnrolment(id: string, enrolment: Partial<InsertLearningPathEnrolment>): Promise<LearningPathEnrolment>;
+  getLearningPathEnrolmentsByUser(userId: string): Promise<LearningPathEnrolment[]>;
+  getLearningPathEnrolmentsByOrganisation(organisationId: string): Promise<LearningPathEnrolment[]>;
+  getLearningPathEnrolmentsByPath(learningPathId: string): Promise<LearningPathEnrolment[]>;
+
+  // Assignment rule operations
+  getAssignmentRule(id: string): Promise<AssignmentRule | undefined>;
+  createAssignmentRule(rule: InsertAssignmentRule): Promise<AssignmentRule>;
+  updateAssignmentRule(id: string, rule: Partial<InsertAssignmentRule> & { lastRunAt?: Date }): Promise<AssignmentRule>;
+  deleteAssignmentRule(id: string): Promise<void>;
+  getAssignmentRulesByOrganisation(organisationId: string): Promise<AssignmentRule[]>;
+  getActiveAssignmentRules(organisationId?: string): Promise<AssignmentRule[]>;
+
+  // Mandatory course designations
+  getMandatoryCourse(id: string): Promise<MandatoryCourse | undefined>;
+  getMandatoryCoursesByOrganisation(organisationId: string): Promise<MandatoryCourse[]>;
+  createMandatoryCourse(designation: InsertMandatoryCourse): Promise<MandatoryCourse>;
+  updateMandatoryCourse(id: string, designation: Partial<InsertMandatoryCourse>): Promise<MandatoryCourse>;
+  deleteMandatoryCourse(id: string): Promise<void>;
+
+  // Custom roles
+  getOrganisationRole(id: string): Promise<OrganisationRole | undefined>;
+  getOrganisationRoles(organisationId: string): Promise<OrganisationRole[]>;
+  createOrganisationRole(role: InsertOrganisationRole): Promise<OrganisationRole>;
+  updateOrganisationRole(id: string, role: Partial<InsertOrganisationRole>): Promise<OrganisationRole>;
+  deleteOrganisationRole(id: string): Promise<void>;
+
+  // Classroom sessions
+  getClassroomSession(id: string): Promise<ClassroomSession | undefined>;
+  getClassroomSessionsByOrganisation(organisationId: string): Promise<ClassroomSession[]>;
+  createClassroomSession(session: InsertClassroomSession): Promise<ClassroomSession>;
+  updateClassroomSession(id: string, session: Partial<InsertClassroomSession> & { cancelledAt?: Date | null }): Promise<ClassroomSession>;
+  deleteClassroomSession(id: string): Promise<void>;
+  getClassroomBooking(id: string): Promise<ClassroomBooking | undefined>;
+  getClassroomBookingsBySession(sessionId: string): Promise<ClassroomBooking[]>;
+  getClassroomBookingsByUser(userId: string): Promise<ClassroomBooking[]>;
+  createClassroomBooking(booking: InsertClassroomBooking): Promise<ClassroomBooking>;
+  updateClassroomBooking(id: string, booking: Partial<ClassroomBooking>): Promise<ClassroomBooking>;
+  bookClassroomPlace(
+    sessionId: string,
+    booking: Pick<InsertClassroomBooking, 'userId' | 'organisationId' | 'bookedBy'>,
+    chooseStatus: (session: ClassroomSession, bookings: ClassroomBooking[]) => ClassroomBooking['status']
+  ): Promise<{ booking: ClassroomBooking; alreadyBooked: boolean } | undefined>;
+  promoteClassroomWaitlist(
+    sessionId: string,
+    placesAvailable: (session: ClassroomSession, bookings: ClassroomBooking[]) => number
+  ): Promise<ClassroomBooking[]>;
+
+  // External training records
+  getExternalTrainingRecord(id: string): Promise<ExternalTrainingRecord | undefined>;
+  getExternalTrainingRecordsByOrganisation(organisationId: string): Promise<ExternalTrainingRecord[]>;
+  getExternalTrainingRecordsByUser(userId: string): Promise<ExternalTrainingRecord[]>;
+  createExternalTrainingRecord(record: InsertExternalTrainingRecord): Promise<ExternalTrainingRecord>;
+  updateExternalTrainingRecord(id: string, record: Partial<ExternalTrainingRecord>): Promise<ExternalTrainingRecord>;
+  deleteExternalTrainingRecord(id: string): Promise<void>;
+  approveExternalTrainingRecord(
+    record: ExternalTrainingRecord,
+    review: { reviewedBy: string; reviewNotes: string | null },
+    certificate: { expiryDate: Date | null; verificationCode: string }
+  ): Promise<{ record: ExternalTrainingRecord; completion: Completion | null } | undefined>;
+
+  // Native assessments
+  getCourseAssessment(courseId: string): Promise<CourseAssessment | undefined>;
+  getAssessmentQuestions(courseId: string): Promise<AssessmentQuestion[]>;
+  saveCourseAssessment(courseId: string, settings: Omit<InsertCourseAssessment, 'courseId'>, questions: AssessmentQuestionInput[]): Promise<{ assessment: CourseAssessment; questions: AssessmentQuestion[] }>;
+  getAssessmentAttempt(id: string): Promise<AssessmentAttempt | undefined>;
+  getAssessmentAttemptsByAssignment(assignmentId: string): Promise<AssessmentAttempt[]>;
+  getAssessmentAttemptsAwaitingMarking(organisationId: string): Promise<AssessmentAttempt[]>;
+  createAssessmentAttempt(attempt: InsertAssessmentAttempt): Promise<AssessmentAttempt>;
+  updateAssessmentAttempt(id: string, attempt: Partial<AssessmentAttempt>, expectedStatus?: AssessmentAttempt['status']): Promise<AssessmentAttempt | undefined>;
+
+  // Compliance snapshots
+  saveComplianceSnapshot(organisationId: string, snapshotDate: string, rows: InsertComplianceSnapshot[], matrix: InsertComplianceSnapshotMatrix): Promise<void>;
+  getComplianceSnapshots(filters: {
+    organisationId?: string;
+    scope: string;
+    from: string;
+    to: string;
+    department?: string;
+    courseId?: string;
+  }): Promise<ComplianceSnapshot[]>;
+  getComplianceSnapshotMatrix(organisationId: string, onOrBefore: string): Promise<ComplianceSnapshotMatrix | undefined>;
+
+  // Scheduled report subscriptions
+  getReportSubscription(id: string): Promise<ReportSubscription | undefined>;
+  getReportSubscriptionsByOrganisation(organisationId: string): Promise<ReportSubscription[]>;
+  createReportSubscription(subscription: InsertReportSubscription & { nextRunAt: Date }): Promise<ReportSubscription>;
+  updateReportSubscription(id: string, subscription: Partial<InsertReportSubscription> & { nextRunAt?: Date; lastRunAt?: Date; lastRunStatus?: string; lastError?: string | null }): Promise<ReportSubscription>;
+  deleteReportSubscription(id: string): Promise<void>;
+  getDueReportSubscriptions(now: Date): Promise<ReportSubscription[]>;
+  claimReportSubscriptionRun(id: string, dueAt: Date, nextRunAt: Date): Promise<ReportSubscription | undefined>;
+
+  // Single sign-on configuration
+  getSsoConfig(organisationId: string): Promise<OrganisationSsoConfig | undefined>;
+  getSsoConfigByEmailDomain(domain: string): Promise<OrganisationSsoConfig | undefined>;
+  upsertSsoConfig(config: InsertOrganisationSsoConfig): Promise<OrganisationSsoConfig>;
+  getSsoConfigsWithEmailDomains(): Promise<OrganisationSsoConfig[]>;
+  getSsoEmailDomains(organisationId: string): Promise<SsoEmailDomain[]>;
+  getVerifiedSsoEmailDomain(domain: string): Promise<SsoEmailDomain | undefined>;
+  syncSsoEmailDomains(organisationId: string, domains: { domain: string; verificationToken: string }[]): Promise<SsoEmailDomain[]>;
+  verifySsoEmailDomain(id: string, verifiedBy: string | null): Promise<SsoEmailDomain | undefined>;
+  getUserBySsoSubject(organisationId: string, subject: string): Promise<User | undefined>;
+  createSamlMessageId(entry: InsertSamlMessageId): Promise<boolean>;
+  getSamlMessageIdValue(organisationId: string, kind: string, messageId: string): Promise<string | null | undefined>;
+  deleteSamlMessageId(organisationId: string, kind: string, messageId: string): Promise<string | null | undefined>;
+  deleteExpiredSamlMessageIds(now: Date): Promise<void>;
+
+  // Multi-factor authentication
+  getUserMfa(userId: string): Promise<UserMfa | undefined>;
+  upsertUserMfa(mfa: InsertUserMfa): Promise<UserMfa>;
+  updateUserMfa(userId: string, mfa: Partial<InsertUserMfa>): Promise<UserMfa>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteUserMfa(userId: string): Promise<void>;
+
+  // Password reset and login lockout
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getLatestPasswordResetToken(userId: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<PasswordResetToken | undefined>;
+  deletePasswordResetTokensForUser(userId: string): Promise<void>;
+  incrementFailedLoginAttempts(userId: string): Promise<User>;
+  deleteUserSessions(userId: string): Promise<number>;
+
+  // SCIM provisioning tokens
+  createScimToken(token: InsertScimToken): Promise<ScimToken>;
+  getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined>;
+  getScimTokensByOrganisation(organisationId: string): Promise<ScimToken[]>;
+  updateScimToken(id: string, token: Partial<{ lastUsedAt: Date; revokedAt: Date }>): Promise<ScimToken>;
+
+  // User groups
+  getUserGroup(id: string): Promise<UserGroup | undefined>;
+  getUserGroupsByOrganisation(organisationId: string): Promise<UserGroup[]>;
+  createUserGroup(group: InsertUserGroup): Promise<UserGroup>;
+  updateUserGroup(id: string, group: Partial<InsertUserGroup>): Promise<UserGroup>;
+  deleteUserGroup(id: string): Promise<void>;
+  getUserGroupMembers(groupId: string): Promise<UserGroupMember[]>;
+  getUserGroupMembersByOrganisation(organisationId: string): Promise<UserGroupMember[]>;
+  getUserGroupIdsForUser(userId: string): Promise<string[]>;
+  addUserGroupMembers(groupId: string, organisationId: string, userIds: string[]): Promise<void>;
+  removeUserGroupMembers(groupId: string, userIds?: string[]): Promise<void>;
+  removeUserFromAllGroups(userId: string): Promise<void>;
 
   // Completion operations
   getCompletion(id: string): Promise<Completion | undefined>;
-  createCompletion(completion: InsertCompletion): Promise<Completion>;
+  createCompletion(completion: InsertCompletion & { completedAt?: Date }): Promise<Completion>;
   updateCompletion(id: string, completion: Partial<InsertCompletion>): Promise<Completion>;
   getCompletionsByUser(userId: string): Promise<Completion[]>;
   getCompletionsByOrganisation(organisationId: string): Promise<Completion[]>;
   getCompletionsByAssignment(assignmentId: string): Promise<Completion[]>;
+  getCompletionsByCourse(courseId: string): Promise<Completion[]>;
 
   // Certificate operations
   getCertificate(id: string): Promise<Certificate | undefined>;
@@ -325,6 +576,9 @@ export interface IStorage {
   getDefaultCertificateTemplate(): Promise<CertificateTemplate | undefined>;
   clearDefaultCertificateTemplates(): Promise<void>;
   getCertificateByCompletionId(completionId: string): Promise<Certificate | undefined>;
+  getCertificateByVerificationCode(verificationCode: string): Promise<Certificate | undefined>;
+  getCertificatesWithoutVerificationCode(): Promise<Certificate[]>;
+  getCertificatesDueForRecertification(): Promise<Certificate[]>;
 
   // Organisation settings operations
   getOrganisationSettings(organisationId: string): Promise<OrganisationSettings | undefined>;
@@ -352,6 +606,30 @@ export interface IStorage {
   getScormAttemptsByAssignment(assignmentId: string): Promise<ScormAttempt[]>;
   getScormAttemptsByOrganisation(organisationId: string): Promise<ScormAttempt[]>;
   getActiveScormAttempt(userId: string, assignmentId: string): Promise<ScormAttempt | undefined>;
+  getScormInteractionsByCourse(courseId: string, organisationId?: string): Promise<ScormInteraction[]>;
+  getScormObjectivesByAttempt(attemptId: string): Promise<ScormObjective[]>;
+
+  // xAPI LRS operations
+  createXapiLaunchSession(session: InsertXapiLaunchSession): Promise<XapiLaunchSession>;
+  getXapiLaunchSession(id: string): Promise<XapiLaunchSession | undefined>;
+  updateXapiLaunchSession(id: string, session: Partial<InsertXapiLaunchSession>): Promise<XapiLaunchSession>;
+  getXapiStatement(organisationId: string, id: string): Promise<XapiStatement | undefined>;
+  createXapiStatements(statements: InsertXapiStatement[]): Promise<XapiStatement[]>;
+  voidXapiStatement(organisationId: string, id: string): Promise<void>;
+  queryXapiStatements(organisationId: string, filters: {
+    agentKey?: string;
+    verbId?: string;
+    activityId?: string;
+    registration?: string;
+    since?: Date;
+    until?: Date;
+    limit: number;
+    ascending?: boolean;
+  }): Promise<XapiStatement[]>;
+  getXapiDocument(organisationId: string, documentType: string, key: { documentId: string; activityId?: string; agentKey?: string; registration?: string }): Promise<XapiDocument | undefined>;
+  getXapiDocumentIds(organisationId: string, documentType: string, key: { activityId?: string; agentKey?: string; registration?: string }, since?: Date): Promise<string[]>;
+  saveXapiDocument(document: InsertXapiDocument): Promise<XapiDocument>;
+  deleteXapiDocuments(organisationId: string, documentType: string, key: { documentId?: string; activityId?: string; agentKey?: string; registration?: string }): Promise<void>;
 
   // Analytics operations
   getPlatformStats(): Promise<{
@@ -360,7 +638,7 @@ export interface IStorage {
     totalCourses: number;
     totalCompletions: number;
   }>;
-  getCompletionAnalytics(): Promise<any[]>;
+  getCompletionAnalytics(organisationId?: string, userIds?: string[]): Promise<any[]>;
   getPopularCoursesThisMonth(): Promise<any[]>;
   getOrganisationStats(organisationId: string): Promise<{
     activeUsers: number;
@@ -470,6 +748,7 @@ export interface IStorage {
     offset?: number;
   }): Promise<EmailLog[]>;
   getEmailLogById(id: string): Promise<EmailLog | undefined>;
+  updateEmailLogsByMessageId(messageId: string, updates: Partial<InsertEmailLog>, organisationId?: string): Promise<void>;
 
   // Email orchestrator send operations
   createEmailSend(emailSend: InsertEmailSend): Promise<EmailSend>;
@@ -488,6 +767,9 @@ export interface IStorage {
     offset?: number;
   }): Promise<EmailSend[]>;
   getEmailSendsForRetry(maxRetries?: number): Promise<EmailSend[]>;
+  getEmailSendByProviderMessageId(messageId: string): Promise<EmailSend | undefined>;
+  claimDueEmailSends(workerId: string, limit: number, leaseUntil: Date): Promise<EmailSend[]>;
+  getEmailSendAttemptCounts(since: Date): Promise<{ byProvider: Record<string, number>; byOrganisation: Record<string, number> }>;
 
   // Email settings lock operations
   createEmailSettingsLock(lock: InsertEmailSettingsLock): Promise<EmailSettingsLock>;
@@ -503,6 +785,13 @@ export interface IStorage {
   upsertEmailProviderConfig(orgId: string, config: Partial<InsertEmailProviderConfigs>): Promise<EmailProviderConfigs>;
   deleteEmailProviderConfig(id: string): Promise<void>;
 
+  // Organisation notification settings and learner digests
+  getOrgNotificationSettings(orgId: string): Promise<OrgNotificationSettings | undefined>;
+  upsertOrgNotificationSettings(settings: InsertOrgNotificationSettings): Promise<OrgNotificationSettings>;
+  createLearnerDigestEvent(event: InsertLearnerDigestEvent): Promise<LearnerDigestEvent | undefined>;
+  getPendingLearnerDigestEvents(): Promise<LearnerDigestEvent[]>;
+  markLearnerDigestEventsDigested(ids: string[]): Promise<void>;
+
   // Billing distributed lock operations - critical for enterprise-grade concurrency protection
   acquireBillingLock(lockType: string, resourceId: string, lockedBy: string, options?: {
     lockReason?: string;
@@ -1046,6 +1335,7 @@ export interface IStorage {
   deleteSuppressionListEntry(id: string): Promise<void>;
   isEmailSuppressed(email: string, organisationId: string, channel: string): Promise<boolean>;
   isPhoneSuppressed(phone: string, organisationId: string, channel: string): Promise<boolean>;
+  isEmailDeliverySuppressed(email: string, organisationId?: string | null): Promise<boolean>;
   addToSuppressionList(contact: { email?: string; phone?: string; }, organisationId: string, reason: string, channels: string[]): Promise<SuppressionList>;
   bulkAddToSuppressionList(contacts: { email?: string; phone?: string; }[], organisationId: string, reason: string, channels: string[]): Promise<number>;
   getGlobalSuppressions(): Promise<SuppressionList[]>;
@@ -1298,6 +1588,13 @@ export class DatabaseStorage implements IStorage {
 
   async deleteUser(id: string): Promise<void> {
     await db.delete(users).where(eq(users.id, id));
+    // Their reports no longer have a manager
+    await db.update(users).set({ managerId: null }).where(eq(users.managerId, id));
+    // Sessions they were running keep going without a named trainer
+    await db.update(classroomSessions).set({ trainerId: null }).where(eq(classroomSessions.trainerId, id));
+    await db.delete(classroomBookings).where(eq(classroomBookings.userId, id));
+    await db.delete(externalTrainingRecords).where(eq(externalTrainingRecords.userId, id));
+    await db.delete(learnerDigestEvents).where(eq(learnerDigestEvents.userId, id));
   }
 
   async getUsersByOrganisation(organisationId: string): Promise<User[]> {
@@ -1391,8 +1688,9 @@ export class DatabaseStorage implements IStorage {
     await db.delete(emailSends).where(eq(emailSends.organisationId, id));
     await db.delete(emailProviderConfigs).where(eq(emailProviderConfigs.orgId, id));
     
-    // 5a. Delete organisation notification settings
+    // 5a. Delete organisation notification settings and undelivered learner digest events
     await db.delete(orgNotificationSettings).where(eq(orgNotificationSettings.orgId, id));
+    await db.delete(learnerDigestEvents).where(eq(learnerDigestEvents.organisationId, id));
     
     // 5b. Delete billing locks for this organisation
     await db.delete(billingLocks).where(eq(billingLocks.resourceId, id));
@@ -1521,7 +1819,7 @@ export class DatabaseStorage implements IStorage {
     return course;
   }
 
-  async updateCourse(id: string, courseData: Partial<InsertCourse>): Promise<Course> {
+  async updateCourse(id: string, courseData: Partial<InsertCourse & Pick<Course, 'currentVersionId'>>): Promise<Course> {
     const [course] = await db
       .update(courses)
       .set({ ...courseData, updatedAt: new Date() })
@@ -1532,6 +1830,9 @@ export class DatabaseStorage implements IStorage {
 
   async deleteCourse(id: string): Promise<void> {
     await db.delete(courses).where(eq(courses.id, id));
+    await db.delete(courseVersions).where(eq(courseVersions.courseId, id));
+    await db.delete(courseAssessments).where(eq(courseAssessments.courseId, id));
+    await db.delete(assessmentQuestions).where(eq(assessmentQuestions.courseId, id));
   }
 
   async getAllCourses(): Promise<Course[]> {
@@ -1542,6 +1843,34 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(courses).where(eq(courses.status, status as any)).orderBy(desc(courses.createdAt));
   }
 
+  // Course version operations
+  async getCourseVersion(id: string): Promise<CourseVersion | undefined> {
+    const [version] = await db.select().from(courseVersions).where(eq(courseVersions.id, id));
+    return version;
+  }
+
+  async getCourseVersionsByCourse(courseId: string): Promise<CourseVersion[]> {
+    return await db.select().from(courseVersions).where(eq(courseVersions.courseId, courseId)).orderBy(desc(courseVersions.versionNumber));
+  }
+
+  async createCourseVersion(versionData: InsertCourseVersion): Promise<CourseVersion> {
+    const [version] = await db
+      .insert(courseVersions)
+      .values(versionData)
+      .returning();
+    return version;
+  }
+
+  // Versions are otherwise immutable - only the manifest read from the package is filled in
+  async recordCourseVersionManifest(id: string, manifest: Pick<InsertCourseVersion, 'scormVersion' | 'scormOrganizations' | 'defaultOrganization'>): Promise<CourseVersion> {
+    const [version] = await db
+      .update(courseVersions)
+      .set(manifest)
+      .where(eq(courseVersions.id, id))
+      .returning();
+    return version;
+  }
+
   // Course folder operations
   async getCourseFolder(id: string): Promise<CourseFolder | undefined> {
     const [folder] = await db.select().from(courseFolders).where(eq(courseFolders.id, id));
@@ -1658,32 +1987,42 @@ export class DatabaseStorage implements IStorage {
         startedAt: assignments.startedAt,
         completedAt: assignments.completedAt,
         notificationsEnabled: assignments.notificationsEnabled,
-        // Include course details
+        learningPathEnrolmentId: assignments.learningPathEnrolmentId,
+        isLocked: assignments.isLocked,
+        unlockedAt: assignments.unlockedAt,
+        recertificationCycle: assignments.recertificationCycle,
+        previousAssignmentId: assignments.previousAssignmentId,
+        supersededAt: assignments.supersededAt,
+        assignmentRuleId: assignments.assignmentRuleId,
+        courseVersionId: assignments.courseVersionId,
+        // Include course details, as of the version the assignment is pinned to
         courseTitle: courses.title,
         courseDescription: courses.description,
         coverImageUrl: courses.coverImageUrl,
         estimatedDuration: courses.estimatedDuration,
-        passmark: courses.passmark,
+        passmark: sql<number | null>`coalesce(${courseVersions.passmark}, ${courses.passmark})`,
+        scormVersion: sql<string | null>`coalesce(${courseVersions.scormVersion}, ${courses.scormVersion})`,
       })
       .from(assignments)
       .innerJoin(courses, eq(assignments.courseId, courses.id))
-      .where(eq(assignments.userId, userId))
+      .leftJoin(courseVersions, eq(assignments.courseVersionId, courseVersions.id))
+      .where(and(eq(assignments.userId, userId), isNull(assignments.supersededAt)))
       .orderBy(desc(assignments.assignedAt));
   }
 
   async getAssignmentsByOrganisation(organisationId: string): Promise<Assignment[]> {
-    return await db.select().from(assignments).where(eq(assignments.organisationId, organisationId)).orderBy(desc(assignments.assignedAt));
+    return await db.select().from(assignments).where(and(eq(assignments.organisationId, organisationId), isNull(assignments.supersededAt))).orderBy(desc(assignments.assignedAt));
   }
 
   async getAssignmentsByCourse(courseId: string): Promise<Assignment[]> {
-    return await db.select().from(assignments).where(eq(assignments.courseId, courseId)).orderBy(desc(assignments.assignedAt));
+    return await db.select().from(assignments).where(and(eq(assignments.courseId, courseId), isNull(assignments.supersededAt))).orderBy(desc(assignments.assignedAt));
   }
 
   async getExistingAssignment(courseId: string, userId: string): Promise<Assignment | undefined> {
     const [assignment] = await db
       .select()
       .from(assignments)
-      .where(and(eq(assignments.courseId, courseId), eq(assignments.userId, userId)));
+      .where(and(eq(assignments.courseId, courseId), eq(assignments.userId, userId), isNull(assignments.supersededAt)));
     return assignment;
   }
 
@@ -1697,114 +2036,1115 @@ export class DatabaseStorage implements IStorage {
         count: count(assignments.id).as('count'),
       })
       .from(assignments)
+      .where(isNull(assignments.supersededAt))
       .groupBy(assignments.courseId, assignments.userId)
       .having(sql`count(${assignments.id}) > 1`);
 
-    // Get the actual assignment IDs for each duplicate group
-    const result = [];
-    for (const group of duplicateGroups) {
-      const duplicateAssignments = await db
-        .select({
-          id: assignments.id,
-          assignedAt: assignments.assignedAt,
-        })
-        .from(assignments)
-        .where(and(eq(assignments.courseId, group.courseId), eq(assignments.userId, group.userId)))
-        .orderBy(asc(assignments.assignedAt)); // Earliest first
+    // Get the actual assignment IDs for each duplicate group
+    const result = [];
+    for (const group of duplicateGroups) {
+      const duplicateAssignments = await db
+        .select({
+          id: assignments.id,
+          assignedAt: assignments.assignedAt,
+        })
+        .from(assignments)
+        .where(and(eq(assignments.courseId, group.courseId), eq(assignments.userId, group.userId), isNull(assignments.supersededAt)))
+        .orderBy(asc(assignments.assignedAt)); // Earliest first
+
+      result.push({
+        courseId: group.courseId,
+        userId: group.userId,
+        count: group.count,
+        duplicateIds: duplicateAssignments.slice(1).map(a => a.id) // Keep first (earliest), remove rest
+      });
+    }
+
+    return result;
+  }
+
+  async findDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ courseId: string; userId: string; count: number; duplicateIds: string[] }[]> {
+    // ORGANIZATION-SCOPED duplicate search - ADMIN safe
+    // Find duplicate assignments within a specific organization
+    const duplicateGroups = await db
+      .select({
+        courseId: assignments.courseId,
+        userId: assignments.userId,
+        count: count(assignments.id).as('count'),
+      })
+      .from(assignments)
+      .where(and(eq(assignments.organisationId, organisationId), isNull(assignments.supersededAt)))
+      .groupBy(assignments.courseId, assignments.userId)
+      .having(sql`count(${assignments.id}) > 1`);
+
+    // Get the actual assignment IDs for each duplicate group
+    const result = [];
+    for (const group of duplicateGroups) {
+      const duplicateAssignments = await db
+        .select({
+          id: assignments.id,
+          assignedAt: assignments.assignedAt,
+        })
+        .from(assignments)
+        .where(and(eq(assignments.courseId, group.courseId), eq(assignments.userId, group.userId), isNull(assignments.supersededAt)))
+        .orderBy(asc(assignments.assignedAt)); // Earliest first
+
+      result.push({
+        courseId: group.courseId,
+        userId: group.userId,
+        count: group.count,
+        duplicateIds: duplicateAssignments.slice(1).map(a => a.id) // Keep first (earliest), remove rest
+      });
+    }
+
+    return result;
+  }
+
+  async removeDuplicateAssignments(): Promise<{ duplicatesRemoved: number; duplicateGroups: number }> {
+    // GLOBAL cleanup - SUPERADMIN only
+    const duplicateGroups = await this.findDuplicateAssignments();
+    let totalRemoved = 0;
+
+    for (const group of duplicateGroups) {
+      if (group.duplicateIds.length > 0) {
+        // Delete duplicate assignments (keeping the earliest one)
+        await db
+          .delete(assignments)
+          .where(sql`${assignments.id} = ANY(${group.duplicateIds})`);
+        
+        totalRemoved += group.duplicateIds.length;
+      }
+    }
+
+    return {
+      duplicatesRemoved: totalRemoved,
+      duplicateGroups: duplicateGroups.length
+    };
+  }
+
+  async removeDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ duplicatesRemoved: number; duplicateGroups: number }> {
+    // ORGANIZATION-SCOPED cleanup - ADMIN safe
+    const duplicateGroups = await this.findDuplicateAssignmentsByOrganisation(organisationId);
+    let totalRemoved = 0;
+
+    for (const group of duplicateGroups) {
+      if (group.duplicateIds.length > 0) {
+        // Delete duplicate assignments (keeping the earliest one) - only within the organization
+        await db
+          .delete(assignments)
+          .where(and(
+            sql`${assignments.id} = ANY(${group.duplicateIds})`,
+            eq(assignments.organisationId, organisationId) // Double-check organization boundary
+          ));
+        
+        totalRemoved += group.duplicateIds.length;
+      }
+    }
+
+    return {
+      duplicatesRemoved: totalRemoved,
+      duplicateGroups: duplicateGroups.length
+    };
+  }
+
+  async getAssignmentsByLearningPathEnrolment(enrolmentId: string): Promise<Assignment[]> {
+    return await db.select().from(assignments).where(eq(assignments.learningPathEnrolmentId, enrolmentId));
+  }
+
+  async getAssignmentHistory(courseId: string, userId: string): Promise<Assignment[]> {
+    // All recertification cycles, including superseded ones
+    return await db
+      .select()
+      .from(assignments)
+      .where(and(eq(assignments.courseId, courseId), eq(assignments.userId, userId)))
+      .orderBy(asc(assignments.recertificationCycle));
+  }
+
+  async openRecertificationCycle(previousAssignmentId: string, assignmentData: InsertAssignment): Promise<Assignment> {
+    // Supersede and create in one transaction so there is always exactly one active assignment
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(assignments)
+        .set({ supersededAt: new Date() })
+        .where(eq(assignments.id, previousAssignmentId));
+
+      const [assignment] = await tx
+        .insert(assignments)
+        .values({ ...assignmentData, previousAssignmentId })
+        .returning();
+      return assignment;
+    });
+  }
+
+  // Learning path operations
+  async getLearningPath(id: string): Promise<LearningPath | undefined> {
+    const [path] = await db.select().from(learningPaths).where(eq(learningPaths.id, id));
+    return path;
+  }
+
+  async createLearningPath(pathData: InsertLearningPath): Promise<LearningPath> {
+    const [path] = await db
+      .insert(learningPaths)
+      .values(pathData)
+      .returning();
+    return path;
+  }
+
+  async updateLearningPath(id: string, pathData: Partial<InsertLearningPath>): Promise<LearningPath> {
+    const [path] = await db
+      .update(learningPaths)
+      .set({ ...pathData, updatedAt: new Date() })
+      .where(eq(learningPaths.id, id))
+      .returning();
+    return path;
+  }
+
+  async deleteLearningPath(id: string): Promise<void> {
+    await db.delete(learningPathCourses).where(eq(learningPathCourses.learningPathId, id));
+    await db.delete(learningPaths).where(eq(learningPaths.id, id));
+  }
+
+  async getLearningPathsByOrganisation(organisationId: string): Promise<LearningPath[]> {
+    return await db.select().from(learningPaths).where(eq(learningPaths.organisationId, organisationId)).orderBy(asc(learningPaths.title));
+  }
+
+  async getLearningPathCourses(learningPathId: string): Promise<LearningPathCourse[]> {
+    return await db
+      .select()
+      .from(learningPathCourses)
+      .where(eq(learningPathCourses.learningPathId, learningPathId))
+      .orderBy(asc(learningPathCourses.sortOrder));
+  }
+
+  async setLearningPathCourses(learningPathId: string, steps: Omit<InsertLearningPathCourse, 'learningPathId'>[]): Promise<LearningPathCourse[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(learningPathCourses).where(eq(learningPathCourses.learningPathId, learningPathId));
+      if (steps.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(learningPathCourses)
+        .values(steps.map(step => ({ ...step, learningPathId })))
+        .returning();
+    });
+  }
+
+  async getLearningPathEnrolment(id: string): Promise<LearningPathEnrolment | undefined> {
+    const [enrolment] = await db.select().from(learningPathEnrolments).where(eq(learningPathEnrolments.id, id));
+    return enrolment;
+  }
+
+  async getLearningPathEnrolmentByUser(learningPathId: string, userId: string): Promise<LearningPathEnrolment | undefined> {
+    const [enrolment] = await db
+      .select()
+      .from(learningPathEnrolments)
+      .where(and(eq(learningPathEnrolments.learningPathId, learningPathId), eq(learningPathEnrolments.userId, userId)));
+    return enrolment;
+  }
+
+  async createLearningPathEnrolment(enrolmentData: InsertLearningPathEnrolment): Promise<LearningPathEnrolment> {
+    const [enrolment] = await db
+      .insert(learningPathEnrolments)
+      .values(enrolmentData)
+      .returning();
+    return enrolment;
+  }
+
+  async updateLearningPathEnrolment(id: string, enrolmentData: Partial<InsertLearningPathEnrolment>): Promise<LearningPathEnrolment> {
+    const [enrolment] = await db
+      .update(learningPathEnrolments)
+      .set(enrolmentData)
+      .where(eq(learningPathEnrolments.id, id))
+      .returning();
+    return enrolment;
+  }
+
+  async getLearningPathEnrolmentsByUser(userId: string): Promise<LearningPathEnrolment[]> {
+    return await db.select().from(learningPathEnrolments).where(eq(learningPathEnrolments.userId, userId)).orderBy(desc(learningPathEnrolments.assignedAt));
+  }
+
+  async getLearningPathEnrolmentsByOrganisation(organisationId: string): Promise<LearningPathEnrolment[]> {
+    return await db.select().from(learningPathEnrolments).where(eq(learningPathEnrolments.organisationId, organisationId)).orderBy(desc(learningPathEnrolments.assignedAt));
+  }
+
+  async getLearningPathEnrolmentsByPath(learningPathId: string): Promise<LearningPathEnrolment[]> {
+    return await db.select().from(learningPathEnrolments).where(eq(learningPathEnrolments.learningPathId, learningPathId)).orderBy(desc(learningPathEnrolments.assignedAt));
+  }
+
+  // Assignment rule operations
+  async getAssignmentRule(id: string): Promise<AssignmentRule | undefined> {
+    const [rule] = await db.select().from(assignmentRules).where(eq(assignmentRules.id, id));
+    return rule;
+  }
+
+  async createAssignmentRule(ruleData: InsertAssignmentRule): Promise<AssignmentRule> {
+    const [rule] = await db
+      .insert(assignmentRules)
+      .values(ruleData)
+      .returning();
+    return rule;
+  }
+
+  async updateAssignmentRule(id: string, ruleData: Partial<InsertAssignmentRule> & { lastRunAt?: Date }): Promise<AssignmentRule> {
+    const [rule] = await db
+      .update(assignmentRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(assignmentRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAssignmentRule(id: string): Promise<void> {
+    await db.delete(assignmentRules).where(eq(assignmentRules.id, id));
+  }
+
+  async getAssignmentRulesByOrganisation(organisationId: string): Promise<AssignmentRule[]> {
+    return await db.select().from(assignmentRules).where(eq(assignmentRules.organisationId, organisationId)).orderBy(asc(assignmentRules.name));
+  }
+
+  async getActiveAssignmentRules(organisationId?: string): Promise<AssignmentRule[]> {
+    const conditions = [eq(assignmentRules.isActive, true)];
+    if (organisationId) {
+      conditions.push(eq(assignmentRules.organisationId, organisationId));
+    }
+    return await db.select().from(assignmentRules).where(and(...conditions)).orderBy(asc(assignmentRules.createdAt));
+  }
+
+  // Mandatory course designations
+  async getMandatoryCourse(id: string): Promise<MandatoryCourse | undefined> {
+    const [designation] = await db.select().from(mandatoryCourses).where(eq(mandatoryCourses.id, id));
+    return designation;
+  }
+
+  async getMandatoryCoursesByOrganisation(organisationId: string): Promise<MandatoryCourse[]> {
+    return await db.select().from(mandatoryCourses).where(eq(mandatoryCourses.organisationId, organisationId)).orderBy(asc(mandatoryCourses.createdAt));
+  }
+
+  async createMandatoryCourse(designationData: InsertMandatoryCourse): Promise<MandatoryCourse> {
+    const [designation] = await db
+      .insert(mandatoryCourses)
+      .values(designationData)
+      .returning();
+    return designation;
+  }
+
+  async updateMandatoryCourse(id: string, designationData: Partial<InsertMandatoryCourse>): Promise<MandatoryCourse> {
+    const [designation] = await db
+      .update(mandatoryCourses)
+      .set({ ...designationData, updatedAt: new Date() })
+      .where(eq(mandatoryCourses.id, id))
+      .returning();
+    return designation;
+  }
+
+  async deleteMandatoryCourse(id: string): Promise<void> {
+    await db.delete(mandatoryCourses).where(eq(mandatoryCourses.id, id));
+  }
+
+  // Custom roles
+  async getOrganisationRole(id: string): Promise<OrganisationRole | undefined> {
+    const [role] = await db.select().from(organisationRoles).where(eq(organisationRoles.id, id));
+    return role;
+  }
+
+  async getOrganisationRoles(organisationId: string): Promise<OrganisationRole[]> {
+    return await db.select().from(organisationRoles).where(eq(organisationRoles.organisationId, organisationId)).orderBy(asc(organisationRoles.name));
+  }
+
+  async createOrganisationRole(roleData: InsertOrganisationRole): Promise<OrganisationRole> {
+    const [role] = await db
+      .insert(organisationRoles)
+      .values(roleData)
+      .returning();
+    return role;
+  }
+
+  async updateOrganisationRole(id: string, roleData: Partial<InsertOrganisationRole>): Promise<OrganisationRole> {
+    const [role] = await db
+      .update(organisationRoles)
+      .set({ ...roleData, updatedAt: new Date() })
+      .where(eq(organisationRoles.id, id))
+      .returning();
+    return role;
+  }
+
+  async deleteOrganisationRole(id: string): Promise<void> {
+    // Users holding the role fall back to their base role
+    await db.update(users).set({ customRoleId: null }).where(eq(users.customRoleId, id));
+    await db.delete(organisationRoles).where(eq(organisationRoles.id, id));
+  }
+
+  // Classroom sessions
+  async getClassroomSession(id: string): Promise<ClassroomSession | undefined> {
+    const [session] = await db.select().from(classroomSessions).where(eq(classroomSessions.id, id));
+    return session;
+  }
+
+  async getClassroomSessionsByOrganisation(organisationId: string): Promise<ClassroomSession[]> {
+    return await db.select().from(classroomSessions).where(eq(classroomSessions.organisationId, organisationId)).orderBy(asc(classroomSessions.startsAt));
+  }
+
+  async createClassroomSession(sessionData: InsertClassroomSession): Promise<ClassroomSession> {
+    const [session] = await db
+      .insert(classroomSessions)
+      .values(sessionData)
+      .returning();
+    return session;
+  }
+
+  async updateClassroomSession(id: string, sessionData: Partial<InsertClassroomSession> & { cancelledAt?: Date | null }): Promise<ClassroomSession> {
+    const [session] = await db
+      .update(classroomSessions)
+      .set({ ...sessionData, updatedAt: new Date() })
+      .where(eq(classroomSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteClassroomSession(id: string): Promise<void> {
+    await db.delete(classroomBookings).where(eq(classroomBookings.sessionId, id));
+    await db.delete(classroomSessions).where(eq(classroomSessions.id, id));
+  }
+
+  async getClassroomBooking(id: string): Promise<ClassroomBooking | undefined> {
+    const [booking] = await db.select().from(classroomBookings).where(eq(classroomBookings.id, id));
+    return booking;
+  }
+
+  async getClassroomBookingsBySession(sessionId: string): Promise<ClassroomBooking[]> {
+    // Booking order matters - the waitlist is first come, first served
+    return await db.select().from(classroomBookings).where(eq(classroomBookings.sessionId, sessionId)).orderBy(asc(classroomBookings.bookedAt));
+  }
+
+  async getClassroomBookingsByUser(userId: string): Promise<ClassroomBooking[]> {
+    return await db.select().from(classroomBookings).where(eq(classroomBookings.userId, userId));
+  }
+
+  async createClassroomBooking(bookingData: InsertClassroomBooking): Promise<ClassroomBooking> {
+    const [booking] = await db
+      .insert(classroomBookings)
+      .values(bookingData)
+      .returning();
+    return booking;
+  }
+
+  async updateClassroomBooking(id: string, bookingData: Partial<ClassroomBooking>): Promise<ClassroomBooking> {
+    const [booking] = await db
+      .update(classroomBookings)
+      .set(bookingData)
+      .where(eq(classroomBookings.id, id))
+      .returning();
+    return booking;
+  }
+
+  // Places are counted and taken with the session row locked, so two bookings at once cannot both
+  // get the last place. A learner who already holds a place or is waiting gets that booking back untouched.
+  async bookClassroomPlace(
+    sessionId: string,
+    booking: Pick<InsertClassroomBooking, 'userId' | 'organisationId' | 'bookedBy'>,
+    chooseStatus: (session: ClassroomSession, bookings: ClassroomBooking[]) => ClassroomBooking['status']
+  ): Promise<{ booking: ClassroomBooking; alreadyBooked: boolean } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(classroomSessions).where(eq(classroomSessions.id, sessionId)).for('update');
+      if (!session) {
+        return undefined;
+      }
+
+      const bookings = await tx.select().from(classroomBookings).where(eq(classroomBookings.sessionId, sessionId));
+      const existing = bookings.find(b => b.userId === booking.userId);
+      if (existing && existing.status !== 'cancelled') {
+        return { booking: existing, alreadyBooked: true };
+      }
+
+      const status = chooseStatus(session, bookings);
+      const [saved] = existing
+        ? await tx
+            .update(classroomBookings)
+            .set({ status, bookedBy: booking.bookedBy, bookedAt: new Date(), cancelledAt: null })
+            .where(eq(classroomBookings.id, existing.id))
+            .returning()
+        : await tx
+            .insert(classroomBookings)
+            .values({ ...booking, sessionId, status })
+            .returning();
+      return { booking: saved, alreadyBooked: false };
+    });
+  }
+
+  // Fills free places from the waiting list in booking order, with the session row locked like bookClassroomPlace
+  async promoteClassroomWaitlist(
+    sessionId: string,
+    placesAvailable: (session: ClassroomSession, bookings: ClassroomBooking[]) => number
+  ): Promise<ClassroomBooking[]> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(classroomSessions).where(eq(classroomSessions.id, sessionId)).for('update');
+      if (!session) {
+        return [];
+      }
+
+      const bookings = await tx
+        .select()
+        .from(classroomBookings)
+        .where(eq(classroomBookings.sessionId, sessionId))
+        .orderBy(asc(classroomBookings.bookedAt));
+      const waiting = bookings.filter(b => b.status === 'waitlisted').slice(0, placesAvailable(session, bookings));
+      if (waiting.length === 0) {
+        return [];
+      }
+
+      const promoted = await tx
+        .update(classroomBookings)
+        .set({ status: 'booked' })
+        .where(inArray(classroomBookings.id, waiting.map(b => b.id)))
+        .returning();
+      return waiting.map(b => promoted.find(p => p.id === b.id)!);
+    });
+  }
+
+  // External training records
+  async getExternalTrainingRecord(id: string): Promise<ExternalTrainingRecord | undefined> {
+    const [record] = await db.select().from(externalTrainingRecords).where(eq(externalTrainingRecords.id, id));
+    return record;
+  }
+
+  async getExternalTrainingRecordsByOrganisation(organisationId: string): Promise<ExternalTrainingRecord[]> {
+    return await db.select().from(externalTrainingRecords).where(eq(externalTrainingRecords.organisationId, organisationId)).orderBy(desc(externalTrainingRecords.createdAt));
+  }
+
+  async getExternalTrainingRecordsByUser(userId: string): Promise<ExternalTrainingRecord[]> {
+    return await db.select().from(externalTrainingRecords).where(eq(externalTrainingRecords.userId, userId)).orderBy(desc(externalTrainingRecords.createdAt));
+  }
+
+  async createExternalTrainingRecord(recordData: InsertExternalTrainingRecord): Promise<ExternalTrainingRecord> {
+    const [record] = await db
+      .insert(externalTrainingRecords)
+      .values(recordData)
+      .returning();
+    return record;
+  }
+
+  async updateExternalTrainingRecord(id: string, recordData: Partial<ExternalTrainingRecord>): Promise<ExternalTrainingRecord> {
+    const [record] = await db
+      .update(externalTrainingRecords)
+      .set({ ...recordData, updatedAt: new Date() })
+      .where(eq(externalTrainingRecords.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteExternalTrainingRecord(id: string): Promise<void> {
+    await db.delete(externalTrainingRecords).where(eq(externalTrainingRecords.id, id));
+  }
+
+  async approveExternalTrainingRecord(
+    record: ExternalTrainingRecord,
+    review: { reviewedBy: string; reviewNotes: string | null },
+    certificate: { expiryDate: Date | null; verificationCode: string }
+  ): Promise<{ record: ExternalTrainingRecord; completion: Completion | null } | undefined> {
+    // Approval and the completion it creates are written together. Only a pending record can be
+    // claimed, so a second reviewer gets undefined and nothing is written twice.
+    return await db.transaction(async (tx) => {
+      const [approved] = await tx
+        .update(externalTrainingRecords)
+        .set({ status: 'approved', reviewedBy: review.reviewedBy, reviewedAt: new Date(), reviewNotes: review.reviewNotes, updatedAt: new Date() })
+        .where(and(eq(externalTrainingRecords.id, record.id), eq(externalTrainingRecords.status, 'pending')))
+        .returning();
+      if (!approved) {
+        return undefined;
+      }
+
+      // Training older than the learner's latest completion is approved but completes nothing
+      const completedAt = new Date(record.completedAt);
+      const [latest] = await tx
+        .select({ completedAt: completions.completedAt })
+        .from(completions)
+        .where(and(eq(completions.userId, record.userId), eq(completions.courseId, record.courseId)))
+        .orderBy(desc(completions.completedAt))
+        .limit(1);
+      if (latest?.completedAt && latest.completedAt >= completedAt) {
+        return { record: approved, completion: null };
+      }
+
+      // Complete the open assignment, otherwise start a new recertification cycle for it
+      const [current] = await tx
+        .select()
+        .from(assignments)
+        .where(and(eq(assignments.courseId, record.courseId), eq(assignments.userId, record.userId), isNull(assignments.supersededAt)));
+      let assignment = current;
+      if (!current || current.status === 'completed') {
+        if (current) {
+          await tx.update(assignments).set({ supersededAt: new Date() }).where(eq(assignments.id, current.id));
+        }
+        [assignment] = await tx
+          .insert(assignments)
+          .values({
+            courseId: record.courseId,
+            userId: record.userId,
+            organisationId: record.organisationId,
+            status: 'not_started',
+            assignedBy: current?.assignedBy || review.reviewedBy,
+            notificationsEnabled: current?.notificationsEnabled ?? true,
+            recertificationCycle: (current?.recertificationCycle ?? 0) + 1,
+            previousAssignmentId: current?.id ?? null,
+          })
+          .returning();
+      }
+
+      const [course] = await tx.select({ currentVersionId: courses.currentVersionId }).from(courses).where(eq(courses.id, record.courseId));
+      const courseVersionId = assignment.courseVersionId || course?.currentVersionId || null;
+
+      const [completion] = await tx
+        .insert(completions)
+        .values({
+          assignmentId: assignment.id,
+          userId: record.userId,
+          courseId: record.courseId,
+          organisationId: record.organisationId,
+          score: null,
+          status: 'pass',
+          timeSpent: 0,
+          scormData: { externalTrainingRecordId: record.id, provider: record.provider },
+          courseVersionId,
+          completedAt,
+        })
+        .returning();
+
+      await tx.update(assignments).set({ status: 'completed', completedAt }).where(eq(assignments.id, assignment.id));
+
+      // The uploaded evidence stands in for the certificate we would otherwise generate
+      const [issued] = await tx
+        .insert(certificates)
+        .values({
+          completionId: completion.id,
+          userId: record.userId,
+          courseId: record.courseId,
+          organisationId: record.organisationId,
+          certificateUrl: record.evidenceUrl,
+          expiryDate: certificate.expiryDate,
+          verificationCode: certificate.verificationCode,
+          courseVersionId,
+        })
+        .returning();
+
+      const [linked] = await tx
+        .update(externalTrainingRecords)
+        .set({ completionId: completion.id, certificateId: issued.id, updatedAt: new Date() })
+        .where(eq(externalTrainingRecords.id, record.id))
+        .returning();
+      return { record: linked, completion };
+    });
+  }
+
+  // Native assessments
+  async getCourseAssessment(courseId: string): Promise<CourseAssessment | undefined> {
+    const [assessment] = await db.select().from(courseAssessments).where(eq(courseAssessments.courseId, courseId));
+    return assessment;
+  }
+
+  async getAssessmentQuestions(courseId: string): Promise<AssessmentQuestion[]> {
+    return await db.select().from(assessmentQuestions).where(eq(assessmentQuestions.courseId, courseId)).orderBy(asc(assessmentQuestions.sortOrder));
+  }
+
+  async saveCourseAssessment(courseId: string, settings: Omit<InsertCourseAssessment, 'courseId'>, questionData: AssessmentQuestionInput[]): Promise<{ assessment: CourseAssessment; questions: AssessmentQuestion[] }> {
+    // The bank is saved as a whole: questions left out are removed. Attempts keep their own copies.
+    return await db.transaction(async (tx) => {
+      const [assessment] = await tx
+        .insert(courseAssessments)
+        .values({ ...settings, courseId })
+        .onConflictDoUpdate({
+          target: courseAssessments.courseId,
+          set: { ...settings, updatedAt: new Date() },
+        })
+        .returning();
+
+      const keptIds = questionData.filter(q => q.id).map(q => q.id!);
+      await tx.delete(assessmentQuestions).where(keptIds.length > 0
+        ? and(eq(assessmentQuestions.courseId, courseId), notInArray(assessmentQuestions.id, keptIds))
+        : eq(assessmentQuestions.courseId, courseId));
+
+      const questions: AssessmentQuestion[] = [];
+      for (let index = 0; index < questionData.length; index++) {
+        const { id, ...question } = questionData[index];
+        const values = { ...question, courseId, sortOrder: index };
+        const [saved] = id
+          ? await tx
+              .update(assessmentQuestions)
+              .set({ ...values, updatedAt: new Date() })
+              .where(and(eq(assessmentQuestions.id, id), eq(assessmentQuestions.courseId, courseId)))
+              .returning()
+          : await tx.insert(assessmentQuestions).values(values).returning();
+        if (saved) {
+          questions.push(saved);
+        }
+      }
+
+      return { assessment, questions };
+    });
+  }
+
+  async getAssessmentAttempt(id: string): Promise<AssessmentAttempt | undefined> {
+    const [attempt] = await db.select().from(assessmentAttempts).where(eq(assessmentAttempts.id, id));
+    return attempt;
+  }
+
+  async getAssessmentAttemptsByAssignment(assignmentId: string): Promise<AssessmentAttempt[]> {
+    return await db.select().from(assessmentAttempts).where(eq(assessmentAttempts.assignmentId, assignmentId)).orderBy(asc(assessmentAttempts.attemptNumber));
+  }
+
+  async getAssessmentAttemptsAwaitingMarking(organisationId: string): Promise<AssessmentAttempt[]> {
+    return await db
+      .select()
+      .from(assessmentAttempts)
+      .where(and(eq(assessmentAttempts.organisationId, organisationId), eq(assessmentAttempts.status, 'awaiting_marking')))
+      .orderBy(asc(assessmentAttempts.submittedAt));
+  }
+
+  async createAssessmentAttempt(attemptData: InsertAssessmentAttempt): Promise<AssessmentAttempt> {
+    const [attempt] = await db
+      .insert(assessmentAttempts)
+      .values(attemptData)
+      .returning();
+    return attempt;
+  }
+
+  // With expectedStatus, nothing is updated (and undefined returned) once another request has moved the attempt on
+  async updateAssessmentAttempt(id: string, attemptData: Partial<AssessmentAttempt>, expectedStatus?: AssessmentAttempt['status']): Promise<AssessmentAttempt | undefined> {
+    const [attempt] = await db
+      .update(assessmentAttempts)
+      .set(attemptData)
+      .where(and(
+        eq(assessmentAttempts.id, id),
+        expectedStatus ? eq(assessmentAttempts.status, expectedStatus) : undefined
+      ))
+      .returning();
+    return attempt;
+  }
+
+  // Compliance snapshots
+  async saveComplianceSnapshot(organisationId: string, snapshotDate: string, rows: InsertComplianceSnapshot[], matrix: InsertComplianceSnapshotMatrix): Promise<void> {
+    // Replace any earlier snapshot for the same day so a re-run never double counts
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(complianceSnapshots)
+        .where(and(eq(complianceSnapshots.organisationId, organisationId), eq(complianceSnapshots.snapshotDate, snapshotDate)));
+      await tx
+        .delete(complianceSnapshotMatrices)
+        .where(and(eq(complianceSnapshotMatrices.organisationId, organisationId), eq(complianceSnapshotMatrices.snapshotDate, snapshotDate)));
+
+      if (rows.length > 0) {
+        await tx.insert(complianceSnapshots).values(rows);
+      }
+      await tx.insert(complianceSnapshotMatrices).values(matrix);
+    });
+  }
+
+  async getComplianceSnapshots(filters: {
+    organisationId?: string;
+    scope: string;
+    from: string;
+    to: string;
+    department?: string;
+    courseId?: string;
+  }): Promise<ComplianceSnapshot[]> {
+    const conditions = [
+      eq(complianceSnapshots.scope, filters.scope),
+      gte(complianceSnapshots.snapshotDate, filters.from),
+      lte(complianceSnapshots.snapshotDate, filters.to),
+    ];
+    if (filters.organisationId) {
+      conditions.push(eq(complianceSnapshots.organisationId, filters.organisationId));
+    }
+    if (filters.department) {
+      conditions.push(eq(complianceSnapshots.department, filters.department));
+    }
+    if (filters.courseId) {
+      conditions.push(eq(complianceSnapshots.courseId, filters.courseId));
+    }
+    return await db.select().from(complianceSnapshots).where(and(...conditions)).orderBy(asc(complianceSnapshots.snapshotDate));
+  }
+
+  async getComplianceSnapshotMatrix(organisationId: string, onOrBefore: string): Promise<ComplianceSnapshotMatrix | undefined> {
+    const [matrix] = await db
+      .select()
+      .from(complianceSnapshotMatrices)
+      .where(and(eq(complianceSnapshotMatrices.organisationId, organisationId), lte(complianceSnapshotMatrices.snapshotDate, onOrBefore)))
+      .orderBy(desc(complianceSnapshotMatrices.snapshotDate))
+      .limit(1);
+    return matrix;
+  }
+
+  // Scheduled report subscriptions
+  async getReportSubscription(id: string): Promise<ReportSubscription | undefined> {
+    const [subscription] = await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.id, id));
+    return subscription;
+  }
+
+  async getReportSubscriptionsByOrganisation(organisationId: string): Promise<ReportSubscription[]> {
+    return await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.organisationId, organisationId)).orderBy(asc(reportSubscriptions.name));
+  }
+
+  async createReportSubscription(subscriptionData: InsertReportSubscription & { nextRunAt: Date }): Promise<ReportSubscription> {
+    const [subscription] = await db
+      .insert(reportSubscriptions)
+      .values(subscriptionData)
+      .returning();
+    return subscription;
+  }
+
+  async updateReportSubscription(id: string, subscriptionData: Partial<InsertReportSubscription> & { nextRunAt?: Date; lastRunAt?: Date; lastRunStatus?: string; lastError?: string | null }): Promise<ReportSubscription> {
+    const [subscription] = await db
+      .update(reportSubscriptions)
+      .set({ ...subscriptionData, updatedAt: new Date() })
+      .where(eq(reportSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  async deleteReportSubscription(id: string): Promise<void> {
+    await db.delete(reportSubscriptions).where(eq(reportSubscriptions.id, id));
+  }
+
+  async getDueReportSubscriptions(now: Date): Promise<ReportSubscription[]> {
+    return await db
+      .select()
+      .from(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.isActive, true), lte(reportSubscriptions.nextRunAt, now)))
+      .orderBy(asc(reportSubscriptions.nextRunAt));
+  }
+
+  // Moves the subscription on to its next run only if no other worker has already done so
+  async claimReportSubscriptionRun(id: string, dueAt: Date, nextRunAt: Date): Promise<ReportSubscription | undefined> {
+    const [subscription] = await db
+      .update(reportSubscriptions)
+      .set({ nextRunAt })
+      .where(and(eq(reportSubscriptions.id, id), eq(reportSubscriptions.nextRunAt, dueAt)))
+      .returning();
+    return subscription;
+  }
+
+  // Single sign-on configuration
+  async getSsoConfig(organisationId: string): Promise<OrganisationSsoConfig | undefined> {
+    const [config] = await db.select().from(organisationSsoConfigs).where(eq(organisationSsoConfigs.organisationId, organisationId));
+    return config;
+  }
+
+  // Only a verified domain routes to the organisation's IdP
+  async getSsoConfigByEmailDomain(domain: string): Promise<OrganisationSsoConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(organisationSsoConfigs)
+      .innerJoin(ssoEmailDomains, eq(ssoEmailDomains.organisationId, organisationSsoConfigs.organisationId))
+      .where(and(
+        eq(organisationSsoConfigs.isEnabled, true),
+        eq(ssoEmailDomains.domain, domain.toLowerCase()),
+        isNotNull(ssoEmailDomains.verifiedAt)
+      ));
+    return config?.organisation_sso_configs;
+  }
+
+  async upsertSsoConfig(configData: InsertOrganisationSsoConfig): Promise<OrganisationSsoConfig> {
+    const [config] = await db
+      .insert(organisationSsoConfigs)
+      .values(configData)
+      .onConflictDoUpdate({
+        target: organisationSsoConfigs.organisationId,
+        set: {
+          ...configData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return config;
+  }
+
+  async getSsoConfigsWithEmailDomains(): Promise<OrganisationSsoConfig[]> {
+    return db
+      .select()
+      .from(organisationSsoConfigs)
+      .where(sql`cardinality(${organisationSsoConfigs.emailDomains}) > 0`);
+  }
+
+  async getSsoEmailDomains(organisationId: string): Promise<SsoEmailDomain[]> {
+    return db
+      .select()
+      .from(ssoEmailDomains)
+      .where(eq(ssoEmailDomains.organisationId, organisationId))
+      .orderBy(asc(ssoEmailDomains.domain));
+  }
+
+  async getVerifiedSsoEmailDomain(domain: string): Promise<SsoEmailDomain | undefined> {
+    const [entry] = await db
+      .select()
+      .from(ssoEmailDomains)
+      .where(and(eq(ssoEmailDomains.domain, domain), isNotNull(ssoEmailDomains.verifiedAt)));
+    return entry;
+  }
+
+  // Adds newly listed domains as unverified and drops the ones no longer listed - kept domains keep their state
+  async syncSsoEmailDomains(organisationId: string, domains: { domain: string; verificationToken: string }[]): Promise<SsoEmailDomain[]> {
+    return db.transaction(async (tx) => {
+      const listed = domains.map(entry => entry.domain);
+      await tx
+        .delete(ssoEmailDomains)
+        .where(and(
+          eq(ssoEmailDomains.organisationId, organisationId),
+          listed.length > 0 ? notInArray(ssoEmailDomains.domain, listed) : undefined
+        ));
+      if (domains.length > 0) {
+        await tx
+          .insert(ssoEmailDomains)
+          .values(domains.map(entry => ({ ...entry, organisationId })))
+          .onConflictDoNothing({ target: [ssoEmailDomains.organisationId, ssoEmailDomains.domain] });
+      }
+      return tx
+        .select()
+        .from(ssoEmailDomains)
+        .where(eq(ssoEmailDomains.organisationId, organisationId))
+        .orderBy(asc(ssoEmailDomains.domain));
+    });
+  }
+
+  // Throws a unique violation when another organisation verified the domain first
+  async verifySsoEmailDomain(id: string, verifiedBy: string | null): Promise<SsoEmailDomain | undefined> {
+    const [entry] = await db
+      .update(ssoEmailDomains)
+      .set({ verifiedAt: new Date(), verifiedBy })
+      .where(and(eq(ssoEmailDomains.id, id), isNull(ssoEmailDomains.verifiedAt)))
+      .returning();
+    return entry;
+  }
+
+  async getUserBySsoSubject(organisationId: string, subject: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.organisationId, organisationId), eq(users.ssoSubject, subject)));
+    return user;
+  }
+
+  // Returns false when the id is already recorded
+  async createSamlMessageId(entry: InsertSamlMessageId): Promise<boolean> {
+    const inserted = await db
+      .insert(samlMessageIds)
+      .values(entry)
+      .onConflictDoNothing({ target: [samlMessageIds.organisationId, samlMessageIds.kind, samlMessageIds.messageId] })
+      .returning({ id: samlMessageIds.id });
+    return inserted.length > 0;
+  }
+
+  async getSamlMessageIdValue(organisationId: string, kind: string, messageId: string): Promise<string | null | undefined> {
+    const [entry] = await db
+      .select({ value: samlMessageIds.value })
+      .from(samlMessageIds)
+      .where(and(
+        eq(samlMessageIds.organisationId, organisationId),
+        eq(samlMessageIds.kind, kind),
+        eq(samlMessageIds.messageId, messageId),
+        gt(samlMessageIds.expiresAt, new Date())
+      ));
+    return entry?.value;
+  }
+
+  async deleteSamlMessageId(organisationId: string, kind: string, messageId: string): Promise<string | null | undefined> {
+    const [entry] = await db
+      .delete(samlMessageIds)
+      .where(and(
+        eq(samlMessageIds.organisationId, organisationId),
+        eq(samlMessageIds.kind, kind),
+        eq(samlMessageIds.messageId, messageId)
+      ))
+      .returning({ value: samlMessageIds.value });
+    return entry?.value;
+  }
+
+  async deleteExpiredSamlMessageIds(now: Date): Promise<void> {
+    await db.delete(samlMessageIds).where(lte(samlMessageIds.expiresAt, now));
+  }
+
+  // Multi-factor authentication
+  async getUserMfa(userId: string): Promise<UserMfa | undefined> {
+    const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, userId));
+    return mfa;
+  }
+
+  async upsertUserMfa(mfaData: InsertUserMfa): Promise<UserMfa> {
+    const [mfa] = await db
+      .insert(userMfa)
+      .values(mfaData)
+      .onConflictDoUpdate({
+        target: userMfa.userId,
+        set: { ...mfaData, enrolledAt: new Date(), updatedAt: new Date() },
+      })
+      .returning();
+    return mfa;
+  }
+
+  async updateUserMfa(userId: string, mfaData: Partial<InsertUserMfa>): Promise<UserMfa> {
+    const [mfa] = await db
+      .update(userMfa)
+      .set({ ...mfaData, updatedAt: new Date() })
+      .where(eq(userMfa.userId, userId))
+      .returning();
+    return mfa;
+  }
+
+  // Removes the code in the same statement that checks it, so two sign-ins cannot both spend it
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const consumed = await db
+      .update(userMfa)
+      .set({
+        recoveryCodeHashes: sql`array_remove(${userMfa.recoveryCodeHashes}, ${codeHash})`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(userMfa.userId, userId), sql`${codeHash} = ANY(${userMfa.recoveryCodeHashes})`))
+      .returning({ id: userMfa.id });
+    return consumed.length > 0;
+  }
+
+  async deleteUserMfa(userId: string): Promise<void> {
+    await db.delete(userMfa).where(eq(userMfa.userId, userId));
+  }
+
+  // Password reset and login lockout
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens).values(tokenData).returning();
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getLatestPasswordResetToken(userId: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  // Only succeeds for an unused token, so two requests racing with the same link cannot both reset
+  async markPasswordResetTokenUsed(id: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return token;
+  }
+
+  async deletePasswordResetTokensForUser(userId: string): Promise<void> {
+    await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+  }
+
+  async incrementFailedLoginAttempts(userId: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Sessions store the signed-in user as sess.user (password login) or its OIDC claims (Replit Auth)
+  async deleteUserSessions(userId: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(or(
+        sql`${sessions.sess} -> 'user' ->> 'id' = ${userId}`,
+        sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${userId}`
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  // SCIM provisioning tokens
+  async createScimToken(tokenData: InsertScimToken): Promise<ScimToken> {
+    const [token] = await db.insert(scimTokens).values(tokenData).returning();
+    return token;
+  }
 
-      result.push({
-        courseId: group.courseId,
-        userId: group.userId,
-        count: group.count,
-        duplicateIds: duplicateAssignments.slice(1).map(a => a.id) // Keep first (earliest), remove rest
-      });
-    }
+  async getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined> {
+    const [token] = await db.select().from(scimTokens).where(eq(scimTokens.tokenHash, tokenHash));
+    return token;
+  }
 
-    return result;
+  async getScimTokensByOrganisation(organisationId: string): Promise<ScimToken[]> {
+    return await db.select().from(scimTokens).where(eq(scimTokens.organisationId, organisationId)).orderBy(desc(scimTokens.createdAt));
   }
 
-  async findDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ courseId: string; userId: string; count: number; duplicateIds: string[] }[]> {
-    // ORGANIZATION-SCOPED duplicate search - ADMIN safe
-    // Find duplicate assignments within a specific organization
-    const duplicateGroups = await db
-      .select({
-        courseId: assignments.courseId,
-        userId: assignments.userId,
-        count: count(assignments.id).as('count'),
-      })
-      .from(assignments)
-      .where(eq(assignments.organisationId, organisationId))
-      .groupBy(assignments.courseId, assignments.userId)
-      .having(sql`count(${assignments.id}) > 1`);
+  async updateScimToken(id: string, tokenData: Partial<{ lastUsedAt: Date; revokedAt: Date }>): Promise<ScimToken> {
+    const [token] = await db.update(scimTokens).set(tokenData).where(eq(scimTokens.id, id)).returning();
+    return token;
+  }
 
-    // Get the actual assignment IDs for each duplicate group
-    const result = [];
-    for (const group of duplicateGroups) {
-      const duplicateAssignments = await db
-        .select({
-          id: assignments.id,
-          assignedAt: assignments.assignedAt,
-        })
-        .from(assignments)
-        .where(and(eq(assignments.courseId, group.courseId), eq(assignments.userId, group.userId)))
-        .orderBy(asc(assignments.assignedAt)); // Earliest first
+  // User groups
+  async getUserGroup(id: string): Promise<UserGroup | undefined> {
+    const [group] = await db.select().from(userGroups).where(eq(userGroups.id, id));
+    return group;
+  }
 
-      result.push({
-        courseId: group.courseId,
-        userId: group.userId,
-        count: group.count,
-        duplicateIds: duplicateAssignments.slice(1).map(a => a.id) // Keep first (earliest), remove rest
-      });
-    }
+  async getUserGroupsByOrganisation(organisationId: string): Promise<UserGroup[]> {
+    return await db.select().from(userGroups).where(eq(userGroups.organisationId, organisationId)).orderBy(asc(userGroups.displayName));
+  }
 
-    return result;
+  async createUserGroup(groupData: InsertUserGroup): Promise<UserGroup> {
+    const [group] = await db.insert(userGroups).values(groupData).returning();
+    return group;
   }
 
-  async removeDuplicateAssignments(): Promise<{ duplicatesRemoved: number; duplicateGroups: number }> {
-    // GLOBAL cleanup - SUPERADMIN only
-    const duplicateGroups = await this.findDuplicateAssignments();
-    let totalRemoved = 0;
+  async updateUserGroup(id: string, groupData: Partial<InsertUserGroup>): Promise<UserGroup> {
+    const [group] = await db
+      .update(userGroups)
+      .set({ ...groupData, updatedAt: new Date() })
+      .where(eq(userGroups.id, id))
+      .returning();
+    return group;
+  }
 
-    for (const group of duplicateGroups) {
-      if (group.duplicateIds.length > 0) {
-        // Delete duplicate assignments (keeping the earliest one)
-        await db
-          .delete(assignments)
-          .where(sql`${assignments.id} = ANY(${group.duplicateIds})`);
-        
-        totalRemoved += group.duplicateIds.length;
-      }
-    }
+  async deleteUserGroup(id: string): Promise<void> {
+    await db.delete(userGroupMembers).where(eq(userGroupMembers.groupId, id));
+    await db.delete(userGroups).where(eq(userGroups.id, id));
+  }
 
-    return {
-      duplicatesRemoved: totalRemoved,
-      duplicateGroups: duplicateGroups.length
-    };
+  async getUserGroupMembers(groupId: string): Promise<UserGroupMember[]> {
+    return await db.select().from(userGroupMembers).where(eq(userGroupMembers.groupId, groupId));
   }
 
-  async removeDuplicateAssignmentsByOrganisation(organisationId: string): Promise<{ duplicatesRemoved: number; duplicateGroups: number }> {
-    // ORGANIZATION-SCOPED cleanup - ADMIN safe
-    const duplicateGroups = await this.findDuplicateAssignmentsByOrganisation(organisationId);
-    let totalRemoved = 0;
+  async getUserGroupMembersByOrganisation(organisationId: string): Promise<UserGroupMember[]> {
+    return await db.select().from(userGroupMembers).where(eq(userGroupMembers.organisationId, organisationId));
+  }
 
-    for (const group of duplicateGroups) {
-      if (group.duplicateIds.length > 0) {
-        // Delete duplicate assignments (keeping the earliest one) - only within the organization
-        await db
-          .delete(assignments)
-          .where(and(
-            sql`${assignments.id} = ANY(${group.duplicateIds})`,
-            eq(assignments.organisationId, organisationId) // Double-check organization boundary
-          ));
-        
-        totalRemoved += group.duplicateIds.length;
-      }
+  async getUserGroupIdsForUser(userId: string): Promise<string[]> {
+    const rows = await db.select({ groupId: userGroupMembers.groupId }).from(userGroupMembers).where(eq(userGroupMembers.userId, userId));
+    return rows.map(row => row.groupId);
+  }
+
+  async addUserGroupMembers(groupId: string, organisationId: string, userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
     }
+    await db
+      .insert(userGroupMembers)
+      .values(userIds.map(userId => ({ groupId, organisationId, userId })))
+      .onConflictDoNothing();
+  }
 
-    return {
-      duplicatesRemoved: totalRemoved,
-      duplicateGroups: duplicateGroups.length
-    };
+  async removeUserGroupMembers(groupId: string, userIds?: string[]): Promise<void> {
+    if (userIds && userIds.length === 0) {
+      return;
+    }
+    await db.delete(userGroupMembers).where(and(
+      eq(userGroupMembers.groupId, groupId),
+      userIds ? inArray(userGroupMembers.userId, userIds) : undefined
+    ));
+  }
+
+  async removeUserFromAllGroups(userId: string): Promise<void> {
+    await db.delete(userGroupMembers).where(eq(userGroupMembers.userId, userId));
   }
 
   // Completion operations
@@ -1813,10 +3153,18 @@ export class DatabaseStorage implements IStorage {
     return completion;
   }
 
-  async createCompletion(completionData: InsertCompletion): Promise<Completion> {
+  async createCompletion(completionData: InsertCompletion & { completedAt?: Date }): Promise<Completion> {
+    // Record the version completed: the one the assignment was pinned to, else the course's current version
+    let courseVersionId = completionData.courseVersionId;
+    if (courseVersionId === undefined) {
+      const [assignment] = await db.select({ courseVersionId: assignments.courseVersionId }).from(assignments).where(eq(assignments.id, completionData.assignmentId));
+      const [course] = await db.select({ currentVersionId: courses.currentVersionId }).from(courses).where(eq(courses.id, completionData.courseId));
+      courseVersionId = assignment?.courseVersionId || course?.currentVersionId || null;
+    }
+
     const [completion] = await db
       .insert(completions)
-      .values(completionData)
+      .values({ ...completionData, courseVersionId })
       .returning();
     return completion;
   }
@@ -1842,6 +3190,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(completions).where(eq(completions.assignmentId, assignmentId)).orderBy(desc(completions.completedAt));
   }
 
+  async getCompletionsByCourse(courseId: string): Promise<Completion[]> {
+    return await db.select().from(completions).where(eq(completions.courseId, courseId)).orderBy(desc(completions.completedAt));
+  }
+
   // Certificate operations
   async getCertificate(id: string): Promise<Certificate | undefined> {
     const [certificate] = await db.select().from(certificates).where(eq(certificates.id, id));
@@ -1849,9 +3201,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCertificate(certificateData: InsertCertificate): Promise<Certificate> {
+    // A certificate records the same course version as its completion
+    let courseVersionId = certificateData.courseVersionId;
+    if (courseVersionId === undefined) {
+      const [completion] = await db.select({ courseVersionId: completions.courseVersionId }).from(completions).where(eq(completions.id, certificateData.completionId));
+      courseVersionId = completion?.courseVersionId || null;
+    }
+
     const [certificate] = await db
       .insert(certificates)
-      .values(certificateData)
+      .values({ ...certificateData, courseVersionId })
       .returning();
     return certificate;
   }
@@ -1873,8 +3232,10 @@ export class DatabaseStorage implements IStorage {
       courseId: certificates.courseId,
       organisationId: certificates.organisationId,
       certificateUrl: certificates.certificateUrl,
+      verificationCode: certificates.verificationCode,
       expiryDate: certificates.expiryDate,
       issuedAt: certificates.issuedAt,
+      revokedAt: certificates.revokedAt,
       courseTitle: courses.title,
       score: completions.score,
     }).from(certificates)
@@ -1933,6 +3294,38 @@ export class DatabaseStorage implements IStorage {
     return certificate;
   }
 
+  async getCertificateByVerificationCode(verificationCode: string): Promise<Certificate | undefined> {
+    const [certificate] = await db.select().from(certificates).where(eq(certificates.verificationCode, verificationCode));
+    return certificate;
+  }
+
+  async getCertificatesWithoutVerificationCode(): Promise<Certificate[]> {
+    return await db.select().from(certificates).where(isNull(certificates.verificationCode));
+  }
+
+  async getCertificatesDueForRecertification(): Promise<Certificate[]> {
+    // Latest certificate per user+course that is inside its course's recertification window
+    // and has not yet been through the expired notification
+    const rows = await db
+      .select({ certificate: certificates })
+      .from(certificates)
+      .innerJoin(courses, eq(certificates.courseId, courses.id))
+      .where(and(
+        sql`${certificates.expiryDate} IS NOT NULL`,
+        sql`${courses.recertificationLeadDays} IS NOT NULL`,
+        sql`${certificates.expiryDate} <= now() + (${courses.recertificationLeadDays} * interval '1 day')`,
+        isNull(certificates.expiredNotifiedAt),
+        sql`NOT EXISTS (
+          SELECT 1 FROM certificates newer
+          WHERE newer.user_id = ${certificates.userId}
+            AND newer.course_id = ${certificates.courseId}
+            AND newer.issued_at > ${certificates.issuedAt}
+        )`
+      ))
+      .orderBy(asc(certificates.expiryDate));
+    return rows.map(row => row.certificate);
+  }
+
   // Organisation settings operations
   async getOrganisationSettings(organisationId: string): Promise<OrganisationSettings | undefined> {
     const [settings] = await db.select().from(organisationSettings).where(eq(organisationSettings.organisationId, organisationId));
@@ -2030,8 +3423,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Get completion analytics for charts
-  async getCompletionAnalytics(): Promise<any[]> {
+  async getCompletionAnalytics(organisationId?: string, userIds?: string[]): Promise<any[]> {
     // Get completion data grouped by month for the last 12 months
+    const conditions = [sql`${completions.completedAt} >= NOW() - INTERVAL '12 months'`];
+    if (organisationId) {
+      conditions.push(eq(completions.organisationId, organisationId));
+    }
+    if (userIds) {
+      // An empty team matches nothing rather than everyone
+      if (userIds.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(completions.userId, userIds));
+    }
     const completionsByMonth = await db
       .select({
         month: sql<string>`TO_CHAR(${completions.completedAt}, 'YYYY-MM')`,
@@ -2040,7 +3444,7 @@ export class DatabaseStorage implements IStorage {
         failed: sql<number>`COUNT(CASE WHEN ${completions.status} = 'fail' THEN 1 END)`
       })
       .from(completions)
-      .where(sql`${completions.completedAt} >= NOW() - INTERVAL '12 months'`)
+      .where(and(...conditions))
       .groupBy(sql`TO_CHAR(${completions.completedAt}, 'YYYY-MM')`)
       .orderBy(sql`TO_CHAR(${completions.completedAt}, 'YYYY-MM')`);
 
@@ -2244,6 +3648,161 @@ export class DatabaseStorage implements IStorage {
     return attempt;
   }
 
+  async getScormInteractionsByCourse(courseId: string, organisationId?: string): Promise<ScormInteraction[]> {
+    const conditions = [eq(scormInteractions.courseId, courseId)];
+    if (organisationId) {
+      conditions.push(eq(scormInteractions.organisationId, organisationId));
+    }
+    return await db
+      .select()
+      .from(scormInteractions)
+      .where(and(...conditions))
+      .orderBy(asc(scormInteractions.attemptId), asc(scormInteractions.interactionIndex));
+  }
+
+  async getScormObjectivesByAttempt(attemptId: string): Promise<ScormObjective[]> {
+    return await db
+      .select()
+      .from(scormObjectives)
+      .where(eq(scormObjectives.attemptId, attemptId))
+      .orderBy(asc(scormObjectives.objectiveIndex));
+  }
+
+  // xAPI LRS operations
+  async createXapiLaunchSession(sessionData: InsertXapiLaunchSession): Promise<XapiLaunchSession> {
+    const [session] = await db.insert(xapiLaunchSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async getXapiLaunchSession(id: string): Promise<XapiLaunchSession | undefined> {
+    const [session] = await db.select().from(xapiLaunchSessions).where(eq(xapiLaunchSessions.id, id));
+    return session;
+  }
+
+  async updateXapiLaunchSession(id: string, sessionData: Partial<InsertXapiLaunchSession>): Promise<XapiLaunchSession> {
+    const [session] = await db
+      .update(xapiLaunchSessions)
+      .set(sessionData)
+      .where(eq(xapiLaunchSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async getXapiStatement(organisationId: string, id: string): Promise<XapiStatement | undefined> {
+    const [statement] = await db
+      .select()
+      .from(xapiStatements)
+      .where(and(eq(xapiStatements.organisationId, organisationId), eq(xapiStatements.id, id)));
+    return statement;
+  }
+
+  async createXapiStatements(statementData: InsertXapiStatement[]): Promise<XapiStatement[]> {
+    if (statementData.length === 0) {
+      return [];
+    }
+    return await db.insert(xapiStatements).values(statementData).returning();
+  }
+
+  async voidXapiStatement(organisationId: string, id: string): Promise<void> {
+    await db
+      .update(xapiStatements)
+      .set({ voided: true })
+      .where(and(eq(xapiStatements.organisationId, organisationId), eq(xapiStatements.id, id)));
+  }
+
+  async queryXapiStatements(organisationId: string, filters: {
+    agentKey?: string;
+    verbId?: string;
+    activityId?: string;
+    registration?: string;
+    since?: Date;
+    until?: Date;
+    limit: number;
+    ascending?: boolean;
+  }): Promise<XapiStatement[]> {
+    const conditions = [
+      eq(xapiStatements.organisationId, organisationId),
+      eq(xapiStatements.voided, false),
+    ];
+    if (filters.agentKey) conditions.push(eq(xapiStatements.agentKey, filters.agentKey));
+    if (filters.verbId) conditions.push(eq(xapiStatements.verbId, filters.verbId));
+    if (filters.activityId) conditions.push(eq(xapiStatements.activityId, filters.activityId));
+    if (filters.registration) conditions.push(eq(xapiStatements.registration, filters.registration));
+    if (filters.since) conditions.push(sql`${xapiStatements.stored} > ${filters.since}`);
+    if (filters.until) conditions.push(sql`${xapiStatements.stored} <= ${filters.until}`);
+
+    return await db
+      .select()
+      .from(xapiStatements)
+      .where(and(...conditions))
+      .orderBy(filters.ascending ? asc(xapiStatements.stored) : desc(xapiStatements.stored))
+      .limit(filters.limit);
+  }
+
+  async getXapiDocument(organisationId: string, documentType: string, key: { documentId: string; activityId?: string; agentKey?: string; registration?: string }): Promise<XapiDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(xapiDocuments)
+      .where(and(
+        eq(xapiDocuments.organisationId, organisationId),
+        eq(xapiDocuments.documentType, documentType),
+        eq(xapiDocuments.documentId, key.documentId),
+        eq(xapiDocuments.activityId, key.activityId || ''),
+        eq(xapiDocuments.agentKey, key.agentKey || ''),
+        eq(xapiDocuments.registration, key.registration || '')
+      ));
+    return document;
+  }
+
+  async getXapiDocumentIds(organisationId: string, documentType: string, key: { activityId?: string; agentKey?: string; registration?: string }, since?: Date): Promise<string[]> {
+    const conditions = [
+      eq(xapiDocuments.organisationId, organisationId),
+      eq(xapiDocuments.documentType, documentType),
+      eq(xapiDocuments.activityId, key.activityId || ''),
+      eq(xapiDocuments.agentKey, key.agentKey || ''),
+      eq(xapiDocuments.registration, key.registration || ''),
+    ];
+    if (since) conditions.push(sql`${xapiDocuments.updatedAt} > ${since}`);
+
+    const rows = await db
+      .select({ documentId: xapiDocuments.documentId })
+      .from(xapiDocuments)
+      .where(and(...conditions))
+      .orderBy(asc(xapiDocuments.documentId));
+    return rows.map(row => row.documentId);
+  }
+
+  async saveXapiDocument(documentData: InsertXapiDocument): Promise<XapiDocument> {
+    const [document] = await db
+      .insert(xapiDocuments)
+      .values(documentData)
+      .onConflictDoUpdate({
+        target: [xapiDocuments.organisationId, xapiDocuments.documentType, xapiDocuments.activityId, xapiDocuments.agentKey, xapiDocuments.registration, xapiDocuments.documentId],
+        set: {
+          contentType: documentData.contentType,
+          content: documentData.content,
+          etag: documentData.etag,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return document;
+  }
+
+  async deleteXapiDocuments(organisationId: string, documentType: string, key: { documentId?: string; activityId?: string; agentKey?: string; registration?: string }): Promise<void> {
+    const conditions = [
+      eq(xapiDocuments.organisationId, organisationId),
+      eq(xapiDocuments.documentType, documentType),
+      eq(xapiDocuments.activityId, key.activityId || ''),
+      eq(xapiDocuments.agentKey, key.agentKey || ''),
+    ];
+    // Deleting state without a registration clears every registration (xAPI 1.0.3 multiple document DELETE)
+    if (key.registration !== undefined) conditions.push(eq(xapiDocuments.registration, key.registration));
+    if (key.documentId) conditions.push(eq(xapiDocuments.documentId, key.documentId));
+
+    await db.delete(xapiDocuments).where(and(...conditions));
+  }
+
   // Plan operations
   async getPlan(id: string): Promise<Plan | undefined> {
     const [plan] = await db.select().from(plans).where(eq(plans.id, id));
@@ -2651,6 +4210,17 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  async updateEmailLogsByMessageId(messageId: string, updates: Partial<InsertEmailLog>, organisationId?: string): Promise<void> {
+    const conditions = [inArray(emailLogs.messageId, [messageId, `<${messageId}>`])];
+    if (organisationId) {
+      conditions.push(eq(emailLogs.organisationId, organisationId));
+    }
+    await db
+      .update(emailLogs)
+      .set(updates)
+      .where(and(...conditions));
+  }
+
   // Email orchestrator send operations
   async createEmailSend(emailSendData: InsertEmailSend): Promise<EmailSend> {
     const [emailSend] = await db.insert(emailSends).values(emailSendData).returning();
@@ -2759,6 +4329,65 @@ export class DatabaseStorage implements IStorage {
       .limit(100); // Process max 100 retries at once
   }
 
+  // Some providers wrap message ids in angle brackets when sending but not in their webhooks
+  async getEmailSendByProviderMessageId(messageId: string): Promise<EmailSend | undefined> {
+    const [emailSend] = await db
+      .select()
+      .from(emailSends)
+      .where(inArray(emailSends.providerMessageId, [messageId, `<${messageId}>`]))
+      .orderBy(desc(emailSends.createdAt))
+      .limit(1);
+    return emailSend;
+  }
+
+  // SKIP LOCKED lets several queue workers claim at once without waiting on or sharing rows
+  async claimDueEmailSends(workerId: string, limit: number, leaseUntil: Date): Promise<EmailSend[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailSends.id })
+        .from(emailSends)
+        .where(and(
+          inArray(emailSends.status, ['pending', 'retrying']),
+          or(isNull(emailSends.nextRetryAt), lte(emailSends.nextRetryAt, sql`NOW()`)),
+          or(isNull(emailSends.lockedUntil), sql`${emailSends.lockedUntil} < NOW()`)
+        ))
+        .orderBy(sql`COALESCE(${emailSends.nextRetryAt}, ${emailSends.createdAt})`)
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(emailSends)
+        .set({ lockedBy: workerId, lockedUntil: leaseUntil, updatedAt: new Date() })
+        .where(inArray(emailSends.id, due.map(row => row.id)))
+        .returning();
+    });
+  }
+
+  async getEmailSendAttemptCounts(since: Date): Promise<{ byProvider: Record<string, number>; byOrganisation: Record<string, number> }> {
+    const providerRows = await db
+      .select({ provider: emailSends.provider, attempts: count() })
+      .from(emailSends)
+      .where(and(gte(emailSends.lastAttemptAt, since), sql`${emailSends.provider} IS NOT NULL`))
+      .groupBy(emailSends.provider);
+
+    const organisationRows = await db
+      .select({ organisationId: emailSends.organisationId, attempts: count() })
+      .from(emailSends)
+      .where(and(gte(emailSends.lastAttemptAt, since), sql`${emailSends.organisationId} IS NOT NULL`))
+      .groupBy(emailSends.organisationId);
+
+    const byProvider: Record<string, number> = {};
+    providerRows.forEach(row => { byProvider[row.provider!] = row.attempts; });
+    const byOrganisation: Record<string, number> = {};
+    organisationRows.forEach(row => { byOrganisation[row.organisationId!] = row.attempts; });
+
+    return { byProvider, byOrganisation };
+  }
+
   // Email settings lock operations
   async createEmailSettingsLock(lockData: InsertEmailSettingsLock): Promise<EmailSettingsLock> {
     const [lock] = await db.insert(emailSettingsLock).values(lockData).returning();
@@ -2850,6 +4479,52 @@ export class DatabaseStorage implements IStorage {
     await db.delete(emailProviderConfigs).where(eq(emailProviderConfigs.id, id));
   }
 
+  // Organisation notification settings and learner digests
+  async getOrgNotificationSettings(orgId: string): Promise<OrgNotificationSettings | undefined> {
+    const [settings] = await db.select().from(orgNotificationSettings).where(eq(orgNotificationSettings.orgId, orgId));
+    return settings;
+  }
+
+  async upsertOrgNotificationSettings(settingsData: InsertOrgNotificationSettings): Promise<OrgNotificationSettings> {
+    const [settings] = await db
+      .insert(orgNotificationSettings)
+      .values(settingsData)
+      .onConflictDoUpdate({
+        target: orgNotificationSettings.orgId,
+        set: { ...settingsData, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  // Undefined when the event was already collected
+  async createLearnerDigestEvent(eventData: InsertLearnerDigestEvent): Promise<LearnerDigestEvent | undefined> {
+    const [event] = await db
+      .insert(learnerDigestEvents)
+      .values(eventData)
+      .onConflictDoNothing({ target: learnerDigestEvents.resourceId })
+      .returning();
+    return event;
+  }
+
+  async getPendingLearnerDigestEvents(): Promise<LearnerDigestEvent[]> {
+    return await db
+      .select()
+      .from(learnerDigestEvents)
+      .where(isNull(learnerDigestEvents.digestedAt))
+      .orderBy(asc(learnerDigestEvents.createdAt));
+  }
+
+  async markLearnerDigestEventsDigested(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db
+      .update(learnerDigestEvents)
+      .set({ digestedAt: new Date() })
+      .where(inArray(learnerDigestEvents.id, ids));
+  }
+
   // Billing distributed lock operations - enterprise-grade concurrency protection
   async acquireBillingLock(
     lockType: string, 
@@ -6140,6 +7815,34 @@ export class DatabaseStorage implements IStorage {
     return suppressions.length > 0;
   }
 
+  // Global suppressions (hard bounces, spam complaints) stop every email, not just marketing
+  async isEmailDeliverySuppressed(email: string, organisationId?: string | null): Promise<boolean> {
+    const conditions = [
+      sql`lower(${suppressionList.email}) = ${email.toLowerCase()}`,
+      eq(suppressionList.suppressionType, 'global'),
+      sql`'email' = ANY(${suppressionList.channels})`,
+      eq(suppressionList.isActive, true),
+      or(
+        eq(suppressionList.isPermanent, true),
+        gte(suppressionList.suppressUntil, new Date())
+      ),
+    ];
+    if (organisationId) {
+      conditions.push(or(
+        eq(suppressionList.organisationId, organisationId),
+        eq(suppressionList.isGlobal, true)
+      ));
+    }
+
+    const suppressions = await db
+      .select({ id: suppressionList.id })
+      .from(suppressionList)
+      .where(and(...conditions))
+      .limit(1);
+
+    return suppressions.length > 0;
+  }
+
   async addToSuppressionList(contact: { email?: string; phone?: string; }, organisationId: string, reason: string, channels: string[]): Promise<SuppressionList> {
     return await this.createSuppressionListEntry({
       organisationId,
@@ -0,0 +1,247 @@
+/**
+ * xAPI / cmi5 Launch Sessions
+ * Each launch gets LRS credentials scoped to one learner, course and registration.
+ * Plain xAPI content receives its credentials in the launch URL (the "Tin Can" launch convention);
+ * cmi5 content exchanges a one-time fetch URL for them, as the cmi5 spec requires.
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { CMI5_CATEGORY, CMI5_SESSION_EXTENSION, XAPI_VERBS, agentKey, prepareStatement } from "./statements";
+import type { Assignment, Course, User, XapiLaunchSession } from "@shared/schema";
+
+const SESSION_LIFETIME_MS = 12 * 60 * 60 * 1000;
+
+export interface XapiLaunch {
+  session: XapiLaunchSession;
+  launchUrl: string;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret, 'utf8').digest('hex');
+}
+
+function secretMatches(secret: string, expectedHash: string | null): boolean {
+  if (!expectedHash) {
+    return false;
+  }
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * The learner as an xAPI Agent. cmi5 requires an account-based identifier.
+ */
+export function learnerAgent(user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>): any {
+  return {
+    objectType: 'Agent',
+    name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Learner',
+    account: {
+      homePage: process.env.REPLIT_URL || 'http://localhost:5000',
+      name: user.id,
+    },
+  };
+}
+
+/**
+ * The LRS itself as the authority on stored statements
+ */
+export function lrsAuthority(): any {
+  return {
+    objectType: 'Agent',
+    name: 'inteLMS LRS',
+    account: {
+      homePage: process.env.REPLIT_URL || 'http://localhost:5000',
+      name: 'lrs',
+    },
+  };
+}
+
+/**
+ * Basic auth credentials for a session - sent as `Authorization: Basic <token>`
+ */
+async function issueToken(session: XapiLaunchSession): Promise<string> {
+  const secret = randomBytes(32).toString('hex');
+  await storage.updateXapiLaunchSession(session.id, {
+    tokenHash: hashSecret(secret),
+    tokenIssuedAt: new Date(),
+  });
+  return Buffer.from(`${session.id}:${secret}`).toString('base64');
+}
+
+/**
+ * Resolve the launch session from an LRS request's Authorization header
+ */
+export async function authenticateLaunchSession(authorization: string | undefined): Promise<XapiLaunchSession | undefined> {
+  if (!authorization?.startsWith('Basic ')) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const session = await storage.getXapiLaunchSession(decoded.slice(0, separator));
+  if (!session || session.expiresAt < new Date() || !secretMatches(decoded.slice(separator + 1), session.tokenHash)) {
+    return undefined;
+  }
+  return session;
+}
+
+/**
+ * cmi5 fetch URL - hands out the auth token exactly once per launch
+ */
+export async function fetchCmi5AuthToken(sessionId: string, secret: string): Promise<string | undefined> {
+  const session = await storage.getXapiLaunchSession(sessionId);
+  if (!session || session.standard !== 'cmi5' || session.tokenIssuedAt || session.expiresAt < new Date()) {
+    return undefined;
+  }
+  if (!secretMatches(secret, session.fetchSecretHash)) {
+    return undefined;
+  }
+  return issueToken(session);
+}
+
+/**
+ * Start a new launch of an xAPI or cmi5 course and build the content URL to send the learner to
+ */
+export async function createLaunch(params: {
+  user: User;
+  course: Course;
+  assignment: Assignment;
+  baseUrl: string;
+}): Promise<XapiLaunch> {
+  const { user, course, assignment, baseUrl } = params;
+  const standard = course.scormVersion === 'cmi5' ? 'cmi5' : 'xapi';
+  const contentUrl = course.launchUrlOverride || course.scormPackageUrl;
+  const activityId = course.xapiActivityId;
+
+  if (!contentUrl || !activityId) {
+    throw new Error(`Course ${course.id} is missing its ${standard} launch URL or activity id`);
+  }
+
+  const fetchSecret = standard === 'cmi5' ? randomBytes(32).toString('hex') : undefined;
+  const session = await storage.createXapiLaunchSession({
+    organisationId: assignment.organisationId,
+    userId: user.id,
+    courseId: course.id,
+    assignmentId: assignment.id,
+    standard,
+    registration: randomUUID(),
+    activityId,
+    launchMode: 'Normal',
+    fetchSecretHash: fetchSecret ? hashSecret(fetchSecret) : null,
+    expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS),
+  });
+
+  const actor = learnerAgent(user);
+  const endpoint = `${baseUrl}/api/xapi/`;
+  const query = new URLSearchParams({
+    endpoint,
+    actor: JSON.stringify(actor),
+    registration: session.registration,
+  });
+
+  if (standard === 'cmi5') {
+    query.set('fetch', `${baseUrl}/api/xapi/cmi5/fetch/${session.id}?secret=${fetchSecret}`);
+    query.set('activityId', activityId);
+    await writeCmi5LaunchData(session, actor, course, contentUrl, baseUrl);
+  } else {
+    query.set('auth', `Basic ${await issueToken(session)}`);
+    query.set('activity_id', activityId);
+  }
+
+  if (assignment.status === 'not_started') {
+    await storage.updateAssignment(assignment.id, { status: 'in_progress', startedAt: new Date() });
+  }
+
+  const separator = contentUrl.includes('?') ? '&' : '?';
+  return { session, launchUrl: `${contentUrl}${separator}${query.toString()}` };
+}
+
+/**
+ * cmi5 requires the LMS to write LMS.LaunchData and record a "launched" statement before the AU starts
+ */
+async function writeCmi5LaunchData(session: XapiLaunchSession, actor: any, course: Course, contentUrl: string, baseUrl: string): Promise<void> {
+  const contextTemplate = {
+    contextActivities: {
+      grouping: [{ objectType: 'Activity', id: session.activityId }],
+    },
+    extensions: {
+      [CMI5_SESSION_EXTENSION]: session.id,
+    },
+  };
+
+  const launchData = {
+    contextTemplate,
+    launchMode: session.launchMode,
+    launchMethod: 'AnyWindow',
+    moveOn: course.cmi5MoveOn || 'CompletedOrPassed',
+    returnURL: `${baseUrl}/user/courses`,
+    ...(course.passmark ? { masteryScore: course.passmark / 100 } : {}),
+  };
+
+  const content = JSON.stringify(launchData);
+  await storage.saveXapiDocument({
+    organisationId: session.organisationId,
+    documentType: 'state',
+    documentId: 'LMS.LaunchData',
+    activityId: session.activityId,
+    agentKey: agentKey(actor)!,
+    registration: session.registration,
+    contentType: 'application/json',
+    content,
+    etag: createHash('sha1').update(content).digest('hex'),
+  });
+
+  await recordLmsStatement(session, actor, XAPI_VERBS.launched, {
+    context: {
+      ...contextTemplate,
+      contextActivities: {
+        ...contextTemplate.contextActivities,
+        category: [{ objectType: 'Activity', id: CMI5_CATEGORY }],
+      },
+      extensions: {
+        ...contextTemplate.extensions,
+        'https://w3id.org/xapi/cmi5/context/extensions/launchmode': session.launchMode,
+        'https://w3id.org/xapi/cmi5/context/extensions/launchurl': contentUrl,
+        'https://w3id.org/xapi/cmi5/context/extensions/moveon': launchData.moveOn,
+      },
+    },
+  });
+}
+
+/**
+ * Store a statement issued by the LMS itself (launched, satisfied) for a launch session
+ */
+export async function recordLmsStatement(session: XapiLaunchSession, actor: any, verbId: string, extra: Record<string, any> = {}): Promise<void> {
+  const verbName = verbId.split('/').pop();
+  const statement = prepareStatement({
+    actor,
+    verb: { id: verbId, display: { 'en-US': verbName } },
+    object: { objectType: 'Activity', id: session.activityId },
+    ...extra,
+    context: {
+      ...extra.context,
+      registration: session.registration,
+    },
+  }, lrsAuthority(), new Date());
+
+  await storage.createXapiStatements([{
+    id: statement.id,
+    organisationId: session.organisationId,
+    launchSessionId: session.id,
+    userId: session.userId,
+    courseId: session.courseId,
+    registration: session.registration,
+    agentKey: agentKey(actor)!,
+    verbId,
+    activityId: session.activityId,
+    statement,
+    voided: false,
+    timestamp: new Date(statement.timestamp),
+  }]);
+}
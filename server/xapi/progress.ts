@@ -0,0 +1,121 @@
+/**
+ * xAPI / cmi5 Progress
+ * Maps statements about a launched course onto the assignment - completion, pass/fail and certificates
+ * go through the same pipeline as SCORM (CourseCompletionService)
+ */
+
+import { storage } from "../storage";
+import { courseCompletionService } from "../services/CourseCompletionService";
+import { courseVersionService } from "../services/CourseVersionService";
+import { parseLatencySeconds } from "../scorm/interactions";
+import { XAPI_VERBS, resultScorePercent, type StoredStatementOutcome } from "./statements";
+import { learnerAgent, recordLmsStatement } from "./launch";
+import type { Course, XapiLaunchSession } from "@shared/schema";
+
+const COMPLETION_VERBS: string[] = [XAPI_VERBS.completed, XAPI_VERBS.passed, XAPI_VERBS.failed, XAPI_VERBS.satisfied];
+
+/**
+ * Apply newly stored statements from a launch session to the learner's assignment
+ */
+export async function applyStatements(session: XapiLaunchSession, statements: any[]): Promise<void> {
+  const relevant = statements.filter(statement => statement.object?.id === session.activityId);
+  if (relevant.length === 0) {
+    return;
+  }
+
+  if (relevant.some(statement => statement.verb.id === XAPI_VERBS.terminated) && !session.terminatedAt) {
+    await storage.updateXapiLaunchSession(session.id, { terminatedAt: new Date() });
+  }
+
+  const outcome = relevant.find(statement => COMPLETION_VERBS.includes(statement.verb.id));
+  if (session.satisfiedAt || (!outcome && session.standard !== 'cmi5')) {
+    return;
+  }
+
+  // The passmark and moveOn of the version the learner launched
+  const assignment = await storage.getAssignment(session.assignmentId);
+  const course = assignment && (await courseVersionService.getCourseForAssignment(assignment))?.course;
+  if (!course) {
+    return;
+  }
+
+  if (session.standard === 'cmi5') {
+    // moveOn NotApplicable is satisfied as soon as the AU reports anything
+    if (outcome || course.cmi5MoveOn === 'NotApplicable') {
+      await applyCmi5Outcome(session, course);
+    }
+  } else if (outcome) {
+    await recordOutcome(session, course, outcome, isPassingStatement(outcome, course));
+  }
+}
+
+/**
+ * Plain xAPI: passed/failed decide directly; completed and satisfied use result.success,
+ * then the course passmark, and otherwise count as a pass (completion-only content)
+ */
+function isPassingStatement(statement: any, course: Course): boolean {
+  if (statement.verb.id === XAPI_VERBS.passed) return true;
+  if (statement.verb.id === XAPI_VERBS.failed) return false;
+  if (typeof statement.result?.success === 'boolean') return statement.result.success;
+
+  const score = resultScorePercent(statement.result);
+  return score === null || score >= (course.passmark || 80);
+}
+
+/**
+ * cmi5: the LMS decides when the AU is satisfied using the course's moveOn criteria.
+ * A failed statement does not close the assignment - the learner can relaunch and try again.
+ */
+async function applyCmi5Outcome(session: XapiLaunchSession, course: Course): Promise<void> {
+  const latest = async (verbId: string) => {
+    const [statement] = await storage.queryXapiStatements(session.organisationId, {
+      registration: session.registration,
+      activityId: session.activityId,
+      verbId,
+      limit: 1,
+    });
+    return statement?.statement as StoredStatementOutcome | undefined;
+  };
+
+  const [completed, passed] = await Promise.all([latest(XAPI_VERBS.completed), latest(XAPI_VERBS.passed)]);
+  const moveOn = course.cmi5MoveOn || 'CompletedOrPassed';
+  const satisfied =
+    moveOn === 'NotApplicable' ||
+    (moveOn === 'Completed' && !!completed) ||
+    (moveOn === 'Passed' && !!passed) ||
+    (moveOn === 'CompletedAndPassed' && !!completed && !!passed) ||
+    (moveOn === 'CompletedOrPassed' && (!!completed || !!passed));
+
+  if (!satisfied) {
+    return;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (user) {
+    await recordLmsStatement(session, learnerAgent(user), XAPI_VERBS.satisfied);
+  }
+  await recordOutcome(session, course, passed || completed, true);
+}
+
+async function recordOutcome(session: XapiLaunchSession, course: Course, statement: StoredStatementOutcome | undefined, passed: boolean): Promise<void> {
+  const assignment = await storage.getAssignment(session.assignmentId);
+  if (!assignment || assignment.supersededAt) {
+    return;
+  }
+
+  await storage.updateXapiLaunchSession(session.id, { satisfiedAt: new Date() });
+
+  const durationSeconds = parseLatencySeconds(statement?.result?.duration);
+  await courseCompletionService.recordCompletion({
+    assignment,
+    course,
+    passed,
+    score: resultScorePercent(statement?.result),
+    timeSpent: durationSeconds !== null ? Math.round(durationSeconds / 60) : undefined,
+    runtimeData: {
+      standard: session.standard,
+      registration: session.registration,
+      statementId: statement?.id,
+    },
+  });
+}
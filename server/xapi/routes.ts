@@ -0,0 +1,536 @@
+/**
+ * xAPI Learning Record Store Routes (xAPI 1.0.3)
+ * Statements, activity state, activity profile and agent profile resources plus the cmi5 fetch URL.
+ * Every request is authenticated with the credentials of one launch session and scoped to its organisation.
+ */
+
+import express, { Router, type Request, type Response, type NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { authenticateLaunchSession, fetchCmi5AuthToken, learnerAgent, lrsAuthority } from './launch';
+import { applyStatements } from './progress';
+import {
+  XAPI_VERBS,
+  XAPI_VERSION,
+  agentKey,
+  isUuid,
+  parseAgentParam,
+  prepareStatement,
+  sameStatement,
+  validateStatement,
+} from './statements';
+import type { InsertXapiStatement, XapiLaunchSession } from '@shared/schema';
+
+const router = Router();
+
+const MAX_STATEMENT_LIMIT = 500;
+
+type DocumentType = 'state' | 'activity_profile' | 'agent_profile';
+
+interface LrsRequest extends Request {
+  xapiSession?: XapiLaunchSession;
+  xapiAgentKey?: string;
+}
+
+// Documents can be any content type - keep non-JSON bodies as text
+router.use(express.text({ type: () => true, limit: '10mb' }));
+
+/**
+ * CORS and version headers - content is often served from another origin (package storage)
+ */
+router.use((req: Request, res: Response, next: NextFunction) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Experience-API-Version, If-Match, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, Last-Modified, X-Experience-API-Version, X-Experience-API-Consistent-Through');
+  res.setHeader('X-Experience-API-Version', XAPI_VERSION);
+
+  if (req.method === 'OPTIONS') {
+    return res.sendStatus(204);
+  }
+  next();
+});
+
+/**
+ * GET /xapi/about - unauthenticated, per spec
+ */
+router.get('/about', (_req, res) => {
+  res.json({ version: [XAPI_VERSION, '1.0.0'] });
+});
+
+/**
+ * POST /xapi/cmi5/fetch/:sessionId
+ * cmi5 fetch URL - returns the launch's auth token once; any further call is an error
+ */
+router.post('/cmi5/fetch/:sessionId', async (req, res) => {
+  try {
+    const token = await fetchCmi5AuthToken(req.params.sessionId, String(req.query.secret || ''));
+    if (!token) {
+      return res.status(200).json({ 'error-code': '1', 'error-text': 'This fetch URL has already been used or has expired' });
+    }
+    res.json({ 'auth-token': token });
+  } catch (error) {
+    console.error('❌ cmi5 fetch error:', error);
+    res.status(200).json({ 'error-code': '3', 'error-text': 'General application error' });
+  }
+});
+
+/**
+ * Launch session authentication and X-Experience-API-Version check
+ */
+router.use(async (req: LrsRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = req.headers['x-experience-api-version'];
+    if (typeof version !== 'string' || !version.startsWith('1.0')) {
+      return res.status(400).json({ message: 'X-Experience-API-Version header must be 1.0.x' });
+    }
+
+    const session = await authenticateLaunchSession(req.headers.authorization);
+    if (!session) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="xAPI"');
+      return res.status(401).json({ message: 'Invalid or expired launch credentials' });
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user) {
+      return res.status(401).json({ message: 'Invalid or expired launch credentials' });
+    }
+
+    req.xapiSession = session;
+    req.xapiAgentKey = agentKey(learnerAgent(user))!;
+    next();
+  } catch (error) {
+    console.error('❌ xAPI authentication error:', error);
+    res.status(500).json({ message: 'Failed to authenticate xAPI request' });
+  }
+});
+
+// ===== STATEMENTS =====
+
+async function storeStatements(req: LrsRequest, res: Response, statements: any[]): Promise<string[] | undefined> {
+  const session = req.xapiSession!;
+
+  for (const statement of statements) {
+    const error = validateStatement(statement);
+    if (error) {
+      res.status(400).json({ message: error });
+      return undefined;
+    }
+    // Launch credentials only allow statements about the launched learner
+    if (agentKey(statement.actor) !== req.xapiAgentKey) {
+      res.status(403).json({ message: 'Statement actor does not match the launched learner' });
+      return undefined;
+    }
+    if (session.standard === 'cmi5' && statement.context?.registration !== session.registration) {
+      res.status(403).json({ message: 'cmi5 statements must use the launch registration' });
+      return undefined;
+    }
+  }
+
+  const stored = new Date();
+  const prepared = statements.map(statement => prepareStatement(statement, lrsAuthority(), stored));
+
+  const ids = prepared.map(statement => statement.id);
+  if (new Set(ids).size !== ids.length) {
+    res.status(400).json({ message: 'Statement ids in a batch must be unique' });
+    return undefined;
+  }
+
+  // Re-posting an identical statement is a no-op; a different statement with the same id is a conflict
+  const toInsert: any[] = [];
+  for (const statement of prepared) {
+    const existing = await storage.getXapiStatement(session.organisationId, statement.id);
+    if (existing) {
+      if (!sameStatement(existing.statement, statement)) {
+        res.status(409).json({ message: `Statement ${statement.id} already exists with different content` });
+        return undefined;
+      }
+      continue;
+    }
+    toInsert.push(statement);
+  }
+
+  // A learner may only void their own statements from this launch
+  const voiding = toInsert.filter(statement => statement.verb.id === XAPI_VERBS.voided);
+  const voidTargets: string[] = [];
+  for (const statement of voiding) {
+    const target = await storage.getXapiStatement(session.organisationId, statement.object.id);
+    if (!target) {
+      // A target earlier in this batch belongs to this launch by the checks above
+      const inBatch = toInsert.find(candidate => candidate.id === statement.object.id);
+      if (inBatch && inBatch.verb.id !== XAPI_VERBS.voided) {
+        voidTargets.push(inBatch.id);
+      }
+      continue;
+    }
+    const ownsTarget = target.agentKey === req.xapiAgentKey
+      && (target.launchSessionId === session.id || target.registration === session.registration);
+    if (!ownsTarget) {
+      res.status(403).json({ message: `Statement ${target.id} cannot be voided by this launch` });
+      return undefined;
+    }
+    if (target.verbId !== XAPI_VERBS.voided) {
+      voidTargets.push(target.id);
+    }
+  }
+
+  const rows: InsertXapiStatement[] = toInsert.map(statement => ({
+    id: statement.id,
+    organisationId: session.organisationId,
+    launchSessionId: session.id,
+    userId: session.userId,
+    courseId: session.courseId,
+    registration: statement.context?.registration || null,
+    agentKey: agentKey(statement.actor) || '',
+    verbId: statement.verb.id,
+    activityId: (statement.object.objectType || 'Activity') === 'Activity' ? statement.object.id : null,
+    statement,
+    voided: false,
+    timestamp: new Date(statement.timestamp),
+  }));
+
+  await storage.createXapiStatements(rows);
+
+  for (const targetId of voidTargets) {
+    await storage.voidXapiStatement(session.organisationId, targetId);
+  }
+
+  try {
+    await applyStatements(session, toInsert);
+  } catch (error) {
+    console.error(`❌ Failed to apply xAPI statements for session ${session.id}:`, error);
+  }
+
+  return ids;
+}
+
+/**
+ * Statements sent without a JSON content type arrive as text
+ */
+function statementBody(req: Request): any {
+  return typeof req.body === 'string' ? safeParse(req.body) : req.body;
+}
+
+/**
+ * PUT /xapi/statements?statementId=
+ */
+router.put('/statements', async (req: LrsRequest, res) => {
+  try {
+    const statementId = req.query.statementId;
+    if (!isUuid(statementId)) {
+      return res.status(400).json({ message: 'statementId parameter must be a UUID' });
+    }
+    const body = statementBody(req);
+    if (body?.id && body.id !== statementId) {
+      return res.status(400).json({ message: 'statementId parameter does not match the statement id' });
+    }
+
+    const ids = await storeStatements(req, res, [{ ...body, id: statementId }]);
+    if (ids) {
+      res.sendStatus(204);
+    }
+  } catch (error) {
+    console.error('❌ Error storing xAPI statement:', error);
+    res.status(500).json({ message: 'Failed to store statement' });
+  }
+});
+
+/**
+ * POST /xapi/statements - single statement or batch
+ */
+router.post('/statements', async (req: LrsRequest, res) => {
+  try {
+    const body = statementBody(req);
+    const statements = Array.isArray(body) ? body : [body];
+    const ids = await storeStatements(req, res, statements);
+    if (ids) {
+      res.json(ids);
+    }
+  } catch (error) {
+    console.error('❌ Error storing xAPI statements:', error);
+    res.status(500).json({ message: 'Failed to store statements' });
+  }
+});
+
+/**
+ * GET /xapi/statements - single statement (statementId / voidedStatementId) or filtered query
+ */
+router.get('/statements', async (req: LrsRequest, res) => {
+  try {
+    const session = req.xapiSession!;
+    res.setHeader('X-Experience-API-Consistent-Through', new Date().toISOString());
+
+    const { statementId, voidedStatementId } = req.query;
+    if (statementId || voidedStatementId) {
+      const id = String(statementId || voidedStatementId);
+      const statement = isUuid(id) ? await storage.getXapiStatement(session.organisationId, id) : undefined;
+      // statementId never returns voided statements; voidedStatementId only returns voided ones
+      if (!statement || statement.voided !== !!voidedStatementId || statement.agentKey !== req.xapiAgentKey) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      res.setHeader('Last-Modified', statement.stored.toUTCString());
+      return res.json(statement.statement);
+    }
+
+    // Launch credentials can only read the launched learner's statements
+    const requestedAgent = req.query.agent ? agentKey(parseAgentParam(req.query.agent)) : req.xapiAgentKey;
+    if (requestedAgent !== req.xapiAgentKey) {
+      return res.status(403).json({ message: 'Launch credentials can only query the launched learner' });
+    }
+
+    const limitParam = parseInt(String(req.query.limit || '0'), 10);
+    const limit = limitParam > 0 ? Math.min(limitParam, MAX_STATEMENT_LIMIT) : MAX_STATEMENT_LIMIT;
+    const statements = await storage.queryXapiStatements(session.organisationId, {
+      agentKey: requestedAgent,
+      verbId: req.query.verb ? String(req.query.verb) : undefined,
+      activityId: req.query.activity ? String(req.query.activity) : undefined,
+      registration: req.query.registration ? String(req.query.registration) : undefined,
+      since: req.query.since ? new Date(String(req.query.since)) : undefined,
+      until: req.query.until ? new Date(String(req.query.until)) : undefined,
+      limit,
+      ascending: req.query.ascending === 'true',
+    });
+
+    res.json({ statements: statements.map(s => s.statement), more: '' });
+  } catch (error) {
+    console.error('❌ Error querying xAPI statements:', error);
+    res.status(500).json({ message: 'Failed to query statements' });
+  }
+});
+
+// ===== DOCUMENTS (state, activity profile, agent profile) =====
+
+interface DocumentKey {
+  documentId?: string;
+  activityId?: string;
+  agentKey?: string;
+  registration?: string;
+}
+
+/**
+ * Read the document key from the query string. Returns an error message when required parameters are missing.
+ */
+function documentKey(req: LrsRequest, type: DocumentType, single: boolean): { key: DocumentKey; error?: string } {
+  const key: DocumentKey = {};
+
+  if (type !== 'agent_profile') {
+    if (typeof req.query.activityId !== 'string') {
+      return { key, error: 'activityId parameter is required' };
+    }
+    key.activityId = req.query.activityId;
+  }
+
+  if (type !== 'activity_profile') {
+    const agent = agentKey(parseAgentParam(req.query.agent));
+    if (!agent) {
+      return { key, error: 'agent parameter must be a JSON Agent' };
+    }
+    if (agent !== req.xapiAgentKey) {
+      return { key, error: 'forbidden' };
+    }
+    key.agentKey = agent;
+  }
+
+  if (type === 'state' && req.query.registration !== undefined) {
+    if (!isUuid(req.query.registration)) {
+      return { key, error: 'registration parameter must be a UUID' };
+    }
+    key.registration = req.query.registration;
+  }
+
+  const idParam = type === 'state' ? req.query.stateId : req.query.profileId;
+  if (typeof idParam === 'string') {
+    key.documentId = idParam;
+  } else if (single) {
+    return { key, error: `${type === 'state' ? 'stateId' : 'profileId'} parameter is required` };
+  }
+
+  return { key };
+}
+
+function bodyContent(req: Request): { content: string; contentType: string; json?: any } {
+  const contentType = (req.headers['content-type'] || 'application/octet-stream').split(';')[0].trim();
+  const content = typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? '');
+
+  if (contentType === 'application/json') {
+    try {
+      return { content, contentType, json: typeof req.body === 'string' ? JSON.parse(req.body) : req.body };
+    } catch {
+      return { content, contentType };
+    }
+  }
+  return { content, contentType };
+}
+
+function etagFor(content: string): string {
+  return createHash('sha1').update(content, 'utf8').digest('hex');
+}
+
+function registerDocumentResource(path: string, type: DocumentType) {
+  router.get(path, async (req: LrsRequest, res) => {
+    try {
+      const single = type === 'state' ? req.query.stateId !== undefined : req.query.profileId !== undefined;
+      const { key, error } = documentKey(req, type, single);
+      if (error) {
+        return res.status(error === 'forbidden' ? 403 : 400).json({ message: error });
+      }
+      const organisationId = req.xapiSession!.organisationId;
+
+      if (!single) {
+        const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+        return res.json(await storage.getXapiDocumentIds(organisationId, type, key, since));
+      }
+
+      const document = await storage.getXapiDocument(organisationId, type, { ...key, documentId: key.documentId! });
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      res.setHeader('ETag', `"${document.etag}"`);
+      if (document.updatedAt) {
+        res.setHeader('Last-Modified', document.updatedAt.toUTCString());
+      }
+      res.type(document.contentType).send(document.content);
+    } catch (error) {
+      console.error(`❌ Error fetching xAPI ${type} document:`, error);
+      res.status(500).json({ message: 'Failed to fetch document' });
+    }
+  });
+
+  const save = (merge: boolean) => async (req: LrsRequest, res: Response) => {
+    try {
+      const { key, error } = documentKey(req, type, true);
+      if (error) {
+        return res.status(error === 'forbidden' ? 403 : 400).json({ message: error });
+      }
+      const organisationId = req.xapiSession!.organisationId;
+      const documentLookup = { ...key, documentId: key.documentId! };
+      const existing = await storage.getXapiDocument(organisationId, type, documentLookup);
+
+      // Optimistic concurrency (profiles must use it; state may)
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+      if (ifMatch && (!existing || ifMatch.replace(/"/g, '') !== existing.etag)) {
+        return res.status(412).json({ message: 'Document has changed' });
+      }
+      if (ifNoneMatch === '*' && existing) {
+        return res.status(412).json({ message: 'Document already exists' });
+      }
+      if (!merge && type !== 'state' && existing && !ifMatch && !ifNoneMatch) {
+        return res.status(409).json({ message: 'Document exists - send If-Match or If-None-Match' });
+      }
+
+      const incoming = bodyContent(req);
+      let content = incoming.content;
+      let contentType = incoming.contentType;
+
+      // POST merges JSON objects into the stored document
+      if (merge && existing) {
+        const existingJson = existing.contentType === 'application/json' ? safeParse(existing.content) : undefined;
+        if (!isPlainObject(existingJson) || !isPlainObject(incoming.json)) {
+          return res.status(400).json({ message: 'Only JSON object documents can be merged' });
+        }
+        content = JSON.stringify({ ...existingJson, ...incoming.json });
+        contentType = 'application/json';
+      }
+
+      await storage.saveXapiDocument({
+        organisationId,
+        documentType: type,
+        documentId: documentLookup.documentId,
+        activityId: key.activityId || '',
+        agentKey: key.agentKey || '',
+        registration: key.registration || '',
+        contentType,
+        content,
+        etag: etagFor(content),
+      });
+
+      res.sendStatus(204);
+    } catch (error) {
+      console.error(`❌ Error saving xAPI ${type} document:`, error);
+      res.status(500).json({ message: 'Failed to save document' });
+    }
+  };
+
+  router.put(path, save(false));
+  router.post(path, save(true));
+
+  router.delete(path, async (req: LrsRequest, res) => {
+    try {
+      // Only state supports deleting every document for an activity/agent at once
+      const { key, error } = documentKey(req, type, type !== 'state');
+      if (error) {
+        return res.status(error === 'forbidden' ? 403 : 400).json({ message: error });
+      }
+      const organisationId = req.xapiSession!.organisationId;
+
+      const ifMatch = req.headers['if-match'];
+      if (ifMatch && key.documentId) {
+        const existing = await storage.getXapiDocument(organisationId, type, { ...key, documentId: key.documentId });
+        if (!existing || ifMatch.replace(/"/g, '') !== existing.etag) {
+          return res.status(412).json({ message: 'Document has changed' });
+        }
+      }
+
+      await storage.deleteXapiDocuments(organisationId, type, {
+        ...key,
+        registration: key.documentId ? key.registration || '' : key.registration,
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error(`❌ Error deleting xAPI ${type} document:`, error);
+      res.status(500).json({ message: 'Failed to delete document' });
+    }
+  });
+}
+
+function safeParse(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+registerDocumentResource('/activities/state', 'state');
+registerDocumentResource('/activities/profile', 'activity_profile');
+registerDocumentResource('/agents/profile', 'agent_profile');
+
+/**
+ * GET /xapi/activities - the Activity definition (only the launched course's activity is known)
+ */
+router.get('/activities', (req: LrsRequest, res) => {
+  if (typeof req.query.activityId !== 'string') {
+    return res.status(400).json({ message: 'activityId parameter is required' });
+  }
+  res.json({ objectType: 'Activity', id: req.query.activityId });
+});
+
+/**
+ * GET /xapi/agents - the Person object for the launched learner
+ */
+router.get('/agents', async (req: LrsRequest, res) => {
+  try {
+    const requested = agentKey(parseAgentParam(req.query.agent));
+    if (!requested) {
+      return res.status(400).json({ message: 'agent parameter must be a JSON Agent' });
+    }
+    if (requested !== req.xapiAgentKey) {
+      return res.status(403).json({ message: 'Launch credentials can only read the launched learner' });
+    }
+
+    const user = await storage.getUser(req.xapiSession!.userId);
+    const agent = learnerAgent(user!);
+    res.json({ objectType: 'Person', name: [agent.name], account: [agent.account] });
+  } catch (error) {
+    console.error('❌ Error fetching xAPI agent:', error);
+    res.status(500).json({ message: 'Failed to fetch agent' });
+  }
+});
+
+export { router as xapiRoutes };
@@ -0,0 +1,153 @@
+/**
+ * xAPI Statement Helpers
+ * Validation and normalisation for statements stored by the LRS (xAPI 1.0.3)
+ */
+
+import { randomUUID } from "crypto";
+
+export const XAPI_VERSION = '1.0.3';
+
+export const XAPI_VERBS = {
+  launched: 'http://adlnet.gov/expapi/verbs/launched',
+  initialized: 'http://adlnet.gov/expapi/verbs/initialized',
+  completed: 'http://adlnet.gov/expapi/verbs/completed',
+  passed: 'http://adlnet.gov/expapi/verbs/passed',
+  failed: 'http://adlnet.gov/expapi/verbs/failed',
+  terminated: 'http://adlnet.gov/expapi/verbs/terminated',
+  voided: 'http://adlnet.gov/expapi/verbs/voided',
+  satisfied: 'https://w3id.org/xapi/adl/verbs/satisfied',
+} as const;
+
+export const CMI5_CATEGORY = 'https://w3id.org/xapi/cmi5/context/categories/cmi5';
+export const CMI5_SESSION_EXTENSION = 'https://w3id.org/xapi/cmi5/context/extensions/sessionid';
+
+/**
+ * The parts of a stored statement the LMS reads back when deciding an outcome
+ */
+export interface StoredStatementOutcome {
+  id?: string;
+  result?: {
+    success?: boolean;
+    duration?: string;
+    score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  };
+}
+
+const UUID_PATTERN =/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Normalised identifier for an Agent - whichever inverse functional identifier it carries
+ */
+export function agentKey(agent: any): string | null {
+  if (!agent || typeof agent !== 'object') {
+    return null;
+  }
+  if (typeof agent.mbox === 'string') {
+    return `mbox:${agent.mbox.toLowerCase()}`;
+  }
+  if (typeof agent.mbox_sha1sum === 'string') {
+    return `mbox_sha1sum:${agent.mbox_sha1sum.toLowerCase()}`;
+  }
+  if (typeof agent.openid === 'string') {
+    return `openid:${agent.openid}`;
+  }
+  if (agent.account && typeof agent.account.homePage === 'string' && typeof agent.account.name === 'string') {
+    return `account:${agent.account.homePage}|${agent.account.name}`;
+  }
+  return null;
+}
+
+/**
+ * Parse the JSON `agent` query parameter used by the state and agent profile resources
+ */
+export function parseAgentParam(value: unknown): any | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the parts of a statement the LRS relies on. Returns an error message, or null when valid.
+ */
+export function validateStatement(statement: any): string | null {
+  if (!statement || typeof statement !== 'object' || Array.isArray(statement)) {
+    return 'Statement must be a JSON object';
+  }
+  if (statement.id !== undefined && !isUuid(statement.id)) {
+    return 'Statement id must be a UUID';
+  }
+  if (!agentKey(statement.actor) && statement.actor?.objectType !== 'Group') {
+    return 'Statement actor must be an Agent with an inverse functional identifier';
+  }
+  if (!statement.verb || typeof statement.verb.id !== 'string') {
+    return 'Statement verb must have an id';
+  }
+  if (!statement.object || typeof statement.object !== 'object') {
+    return 'Statement object is required';
+  }
+  if ((statement.object.objectType === undefined || statement.object.objectType === 'Activity') && typeof statement.object.id !== 'string') {
+    return 'Statement activity must have an id';
+  }
+  if (statement.verb.id === XAPI_VERBS.voided && (statement.object.objectType !== 'StatementRef' || !isUuid(statement.object.id))) {
+    return 'Voiding statements must target a StatementRef';
+  }
+  if (statement.context?.registration !== undefined && !isUuid(statement.context.registration)) {
+    return 'Context registration must be a UUID';
+  }
+  if (statement.timestamp !== undefined && isNaN(Date.parse(statement.timestamp))) {
+    return 'Statement timestamp must be an ISO 8601 date';
+  }
+  return null;
+}
+
+/**
+ * Fill in the LRS-assigned properties (id, timestamp, stored, authority, version)
+ */
+export function prepareStatement(statement: any, authority: any, stored: Date): any {
+  return {
+    ...statement,
+    id: statement.id || randomUUID(),
+    timestamp: statement.timestamp || stored.toISOString(),
+    stored: stored.toISOString(),
+    authority,
+    version: statement.version || '1.0.0',
+  };
+}
+
+/**
+ * Statements are equal if everything the client supplied matches - used for idempotent re-posts
+ */
+export function sameStatement(a: any, b: any): boolean {
+  const strip = ({ stored, authority, version, ...rest }: any) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+/**
+ * Score as a percentage from a statement result - scaled wins, then raw against max
+ */
+export function resultScorePercent(result: any): number | null {
+  const score = result?.score;
+  if (!score) {
+    return null;
+  }
+  if (typeof score.scaled === 'number') {
+    return Math.round(score.scaled * 100);
+  }
+  if (typeof score.raw === 'number') {
+    if (typeof score.max === 'number' && score.max > 0) {
+      const min = typeof score.min === 'number' ? score.min : 0;
+      return Math.round(((score.raw - min) / (score.max - min)) * 100);
+    }
+    return Math.round(score.raw);
+  }
+  return null;
+}
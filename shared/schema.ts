@@ -11,6 +11,7 @@ import {
   decimal,
   pgEnum,
   unique,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -48,6 +49,26 @@ export const completionStatusEnum = pgEnum('completion_status', ['pass', 'fail']
 // SCORM standard enum
 export const scormStandardEnum = pgEnum('scorm_standard', ['1.2', '2004']);
 
+// Learning path status enum
+export const learningPathStatusEnum = pgEnum('learning_path_status', ['draft', 'published', 'archived']);
+
+// Learning path enrolment status enum
+export const learningPathEnrolmentStatusEnum = pgEnum('learning_path_enrolment_status', ['not_started', 'in_progress', 'completed']);
+
+// Scheduled report enums
+export const scheduledReportTypeEnum = pgEnum('scheduled_report_type', ['training_matrix', 'overdue', 'completions']);
+export const reportFrequencyEnum = pgEnum('report_frequency', ['daily', 'weekly', 'monthly']);
+
+// Classroom session booking status enum
+export const classroomBookingStatusEnum = pgEnum('classroom_booking_status', ['booked', 'waitlisted', 'cancelled', 'attended', 'no_show']);
+
+// External training record review status enum
+export const externalTrainingStatusEnum = pgEnum('external_training_status', ['pending', 'approved', 'rejected']);
+
+// Native assessment enums
+export const assessmentQuestionTypeEnum = pgEnum('assessment_question_type', ['single_choice', 'multiple_choice', 'true_false', 'free_text']);
+export const assessmentAttemptStatusEnum = pgEnum('assessment_attempt_status', ['in_progress', 'awaiting_marking', 'completed']);
+
 // SCORM attempt status enum
 export const scormAttemptStatusEnum = pgEnum('scorm_attempt_status', ['not_started', 'in_progress', 'completed', 'abandoned']);
 
@@ -140,7 +161,14 @@ export const emailTriggerEventEnum = pgEnum('email_trigger_event', [
   'COURSE_ASSIGNED',
   'COURSE_COMPLETED',
   'COURSE_FAILED',
-  'PLAN_UPDATED'
+  'PLAN_UPDATED',
+  'TRAINING_EXPIRING',
+  'TRAINING_EXPIRED',
+  'PASSWORD_RESET',
+  'SCHEDULED_REPORT',
+  'MANAGER_DIGEST',
+  'CLASSROOM_BOOKING',
+  'LEARNER_DIGEST'
 ]);
 
 // Email send status enum for orchestrator
@@ -148,7 +176,24 @@ export const emailSendStatusEnum = pgEnum('email_send_status', [
   'pending',     // Pending for sending
   'sent',        // Successfully sent
   'failed',      // Permanently failed after retries
-  'retrying'     // Temporarily failed, will retry
+  'retrying',    // Temporarily failed, will retry
+  'dead_letter'  // Out of retries - waits for a superadmin to requeue
+]);
+
+// Delivery events reported back by email provider webhooks
+export const emailDeliveryEventEnum = pgEnum('email_delivery_event', [
+  'delivered',
+  'opened',
+  'clicked',
+  'bounced',     // Hard bounce - the address is suppressed
+  'complained'   // Spam complaint - the address is suppressed
+]);
+
+// How a learner's assignment and overdue emails reach them - see server/services/LearnerDigestService.ts
+export const emailDeliveryFrequencyEnum = pgEnum('email_delivery_frequency', [
+  'immediate',  // One email per event
+  'daily',      // One digest a day
+  'weekly'      // One digest a week
 ]);
 
 // GDPR enums (UK GDPR and Data Protection Act 2018 compliance)
@@ -378,6 +423,13 @@ export const secureEraseMethodEnum = pgEnum('secure_erase_method', [
   'physical_destruction'  // Physical destruction of storage media
 ]);
 
+// Languages a user can choose for their emails - see server/services/EmailLocaleService.ts
+export const EMAIL_LOCALES = {
+  'en-GB': 'English (UK)',
+  'cy': 'Cymraeg (Welsh)',
+} as const;
+export type EmailLocale = keyof typeof EMAIL_LOCALES;
+
 // Users table (required for Replit Auth)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -391,10 +443,20 @@ export const users = pgTable("users", {
   organisationId: varchar("organisation_id"),
   jobTitle: varchar("job_title"),
   department: varchar("department"),
+  managerId: varchar("manager_id"), // reporting line - the user this person reports to
+  isManager: boolean("is_manager").notNull().default(false), // can see and assign training for their reports
+  customRoleId: varchar("custom_role_id"), // organisation role granting permissions on top of the base role
   phone: varchar("phone"),
   bio: text("bio"),
+  preferredLanguage: varchar("preferred_language"), // EmailLocale for their emails - unset means en-GB
+  emailDeliveryFrequency: emailDeliveryFrequencyEnum("email_delivery_frequency"), // unset means the organisation default
   allowCertificateDownload: boolean("allow_certificate_download").default(false),
   requiresPasswordChange: boolean("requires_password_change").default(false), // Flag to force password change on next login
+  ssoSubject: varchar("sso_subject"), // identity provider subject (SAML NameID / OIDC sub) linked to this account
+  scimExternalId: varchar("scim_external_id"), // the provisioning client's own id for this user
+  mfaEnabled: boolean("mfa_enabled").default(false), // TOTP enrolled - the secret lives in user_mfa
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // consecutive failures, cleared on sign-in
+  lockedUntil: timestamp("locked_until"), // password sign-in refused until then
   lastActive: timestamp("last_active"),
   // Stripe fields for individual billing (PAYG or per-user mapping)
   stripeCustomerId: varchar("stripe_customer_id"), // Individual Stripe Customer ID for PAYG users
@@ -471,17 +533,42 @@ export const courses = pgTable("courses", {
   category: varchar("category"),
   tags: text("tags"), // comma-separated
   certificateExpiryPeriod: integer("certificate_expiry_period"), // in months, null = never expires
+  recertificationLeadDays: integer("recertification_lead_days").default(30), // days before expiry to reassign, null = no automatic recertification
   // Enhanced SCORM fields
   launchUrlOverride: varchar("launch_url_override", { length: 500 }),
-  scormVersion: varchar("scorm_version", { length: 10 }),
+  scormVersion: varchar("scorm_version", { length: 10 }), // "1.2", "2004", "xapi", "cmi5" or "assessment" (built here, no package)
+  xapiActivityId: varchar("xapi_activity_id", { length: 500 }), // Root activity IRI (cmi5 AU id) for xapi / cmi5 courses
+  cmi5MoveOn: varchar("cmi5_move_on", { length: 30 }).default('CompletedOrPassed'), // Passed, Completed, CompletedAndPassed, CompletedOrPassed, NotApplicable
   scormOrganizations: jsonb("scorm_organizations"), // Store organizations and items for multi-SCO support
   defaultOrganization: varchar("default_organization", { length: 191 }),
+  currentVersionId: varchar("current_version_id"), // the package, manifest and passmark fields above mirror this version
   status: courseStatusEnum("status").notNull().default('draft'),
   createdBy: varchar("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Course versions - each content package a course has had. A version is never changed once
+// published (only the manifest, read from the package on first launch, is filled in later).
+export const courseVersions = pgTable("course_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull(),
+  versionNumber: integer("version_number").notNull(),
+  scormPackageUrl: varchar("scorm_package_url"),
+  scormVersion: varchar("scorm_version", { length: 10 }),
+  launchUrlOverride: varchar("launch_url_override", { length: 500 }),
+  xapiActivityId: varchar("xapi_activity_id", { length: 500 }),
+  scormOrganizations: jsonb("scorm_organizations"),
+  defaultOrganization: varchar("default_organization", { length: 191 }),
+  passmark: integer("passmark").default(80),
+  changeNotes: text("change_notes"),
+  requiresRetraining: boolean("requires_retraining").notNull().default(false), // learners who passed an earlier version were reassigned
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("course_versions_course_number_unique").on(table.courseId, table.versionNumber),
+]);
+
 // Organisation course folder access table
 export const organisationCourseFolders = pgTable("organisation_course_folders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -504,11 +591,485 @@ export const assignments = pgTable("assignments", {
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   notificationsEnabled: boolean("notifications_enabled").default(true),
+  // Learning path linkage - locked assignments open once the previous step is passed
+  learningPathEnrolmentId: varchar("learning_path_enrolment_id"),
+  isLocked: boolean("is_locked").notNull().default(false),
+  unlockedAt: timestamp("unlocked_at"),
+  // Recertification cycles - each renewal gets a fresh assignment, the previous one is kept as history
+  recertificationCycle: integer("recertification_cycle").notNull().default(1),
+  previousAssignmentId: varchar("previous_assignment_id"),
+  supersededAt: timestamp("superseded_at"),
+  // Set when the assignment was created by a standing assignment rule
+  assignmentRuleId: varchar("assignment_rule_id"),
+  // The course version this cycle is taken on - pinned at first launch so a new version never changes content mid-attempt
+  courseVersionId: varchar("course_version_id"),
 }, (table) => ({
-  // UNIQUE CONSTRAINT: Prevent duplicate assignments for same user+course combination
-  uniqueUserCourse: unique("assignments_user_course_unique").on(table.userId, table.courseId),
+  // UNIQUE CONSTRAINT: Prevent duplicate active assignments for same user+course combination
+  // (superseded recertification cycles are excluded so history can be kept)
+  uniqueUserCourse: uniqueIndex("assignments_user_course_active_unique").on(table.userId, table.courseId).where(sql`superseded_at IS NULL`),
 }));
 
+// Learning paths table - ordered programmes of several courses
+export const learningPaths = pgTable("learning_paths", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  status: learningPathStatusEnum("status").notNull().default('draft'),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_learning_paths_organisation").on(table.organisationId),
+]);
+
+// Learning path steps table - one row per course in the path, in order
+export const learningPathCourses = pgTable("learning_path_courses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  learningPathId: varchar("learning_path_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  // Course IDs (within the same path) that must be passed before this step unlocks.
+  // null = the previous step in sort order, [] = no prerequisite
+  prerequisiteCourseIds: jsonb("prerequisite_course_ids").$type<string[] | null>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_learning_path_courses_path").on(table.learningPathId),
+  unique("learning_path_courses_path_course_unique").on(table.learningPathId, table.courseId),
+]);
+
+// Learning path enrolments table - a user assigned to a path
+export const learningPathEnrolments = pgTable("learning_path_enrolments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  learningPathId: varchar("learning_path_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  organisationId: varchar("organisation_id").notNull(),
+  status: learningPathEnrolmentStatusEnum("status").notNull().default('not_started'),
+  dueDate: timestamp("due_date"),
+  assignedBy: varchar("assigned_by").notNull(),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_learning_path_enrolments_user").on(table.userId),
+  index("idx_learning_path_enrolments_organisation").on(table.organisationId),
+  unique("learning_path_enrolments_path_user_unique").on(table.learningPathId, table.userId),
+]);
+
+// Assignment rules table - standing rules that assign a course to matching users
+export const assignmentRules = pgTable("assignment_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  name: varchar("name").notNull(),
+  courseId: varchar("course_id").notNull(),
+  // Match conditions - null means "any"
+  department: varchar("department"),
+  jobTitle: varchar("job_title"),
+  groupId: varchar("group_id"), // only members of this user group
+  createdOnOrAfter: timestamp("created_on_or_after"), // only users whose account was created on/after this date
+  dueDaysAfterStart: integer("due_days_after_start"), // due date = user created date + N days, null = no due date
+  isActive: boolean("is_active").notNull().default(false),
+  lastRunAt: timestamp("last_run_at"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_assignment_rules_organisation").on(table.organisationId),
+]);
+
+// Mandatory course designations - the training an organisation requires, optionally only for
+// one department and/or job title, with the percentage of staff that should be in date
+export const mandatoryCourses = pgTable("mandatory_courses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  // Scope - null means "everyone"
+  department: varchar("department"),
+  jobTitle: varchar("job_title"),
+  targetPercent: integer("target_percent").notNull().default(100),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_mandatory_courses_organisation").on(table.organisationId),
+]);
+
+// Named permissions that gate admin features - see server/auth/permissions.ts
+export const PERMISSION_KEYS = [
+  'users.view',
+  'users.manage',
+  'users.delete',
+  'courses.assign',
+  'reports.view',
+  'gdpr.manage',
+  'billing.manage',
+  'roles.manage',
+] as const;
+export type Permission = typeof PERMISSION_KEYS[number];
+
+// Custom roles - named permission bundles an organisation can give its users, e.g. a GDPR officer
+export const organisationRoles = pgTable("organisation_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("organisation_roles_org_name_unique").on(table.organisationId, table.name),
+]);
+
+// Instructor-led and virtual classroom sessions. Each session delivers a course from the
+// organisation's library, so attendance counts towards that course like a SCORM pass.
+export const classroomSessions = pgTable("classroom_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  deliveryMode: varchar("delivery_mode").notNull().default('in_person'), // 'in_person' | 'virtual'
+  venue: text("venue"),
+  meetingUrl: varchar("meeting_url"),
+  capacity: integer("capacity").notNull(),
+  trainerId: varchar("trainer_id"), // the user running the session - can mark attendance
+  selfBookingEnabled: boolean("self_booking_enabled").notNull().default(true),
+  cancelledAt: timestamp("cancelled_at"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_classroom_sessions_organisation").on(table.organisationId),
+  index("idx_classroom_sessions_starts_at").on(table.startsAt),
+]);
+
+// A learner's place on a classroom session. Waitlisted bookings are promoted in booking order
+// when a place frees up.
+export const classroomBookings = pgTable("classroom_bookings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  organisationId: varchar("organisation_id").notNull(),
+  status: classroomBookingStatusEnum("status").notNull().default('booked'),
+  bookedBy: varchar("booked_by").notNull(), // the learner for self-bookings, otherwise the admin
+  bookedAt: timestamp("booked_at").defaultNow(),
+  cancelledAt: timestamp("cancelled_at"),
+  // Attendance
+  attendanceMarkedBy: varchar("attendance_marked_by"),
+  attendanceMarkedAt: timestamp("attendance_marked_at"),
+  completionId: varchar("completion_id"), // the completion recorded for attending
+}, (table) => [
+  index("idx_classroom_bookings_user").on(table.userId),
+  unique("classroom_bookings_session_user_unique").on(table.sessionId, table.userId),
+]);
+
+// Training done elsewhere - a previous employer or an outside provider - recorded against the course
+// it satisfies. Once an admin has checked the evidence and approved it, it counts as a pass of that course.
+export const externalTrainingRecords = pgTable("external_training_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  courseId: varchar("course_id").notNull(), // the course in our library it satisfies
+  provider: varchar("provider").notNull(),
+  externalCourseTitle: varchar("external_course_title"), // the provider's name for the course, if different
+  completedAt: timestamp("completed_at").notNull(),
+  expiryDate: timestamp("expiry_date"), // from the external certificate - null means the course's own expiry period applies
+  evidenceUrl: varchar("evidence_url"), // object storage path of the uploaded certificate
+  evidenceFileName: varchar("evidence_file_name"),
+  notes: text("notes"),
+  status: externalTrainingStatusEnum("status").notNull().default('pending'),
+  submittedBy: varchar("submitted_by").notNull(),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"), // why it was rejected, or anything the reviewer noted
+  // Set on approval
+  completionId: varchar("completion_id"),
+  certificateId: varchar("certificate_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_external_training_records_organisation").on(table.organisationId),
+  index("idx_external_training_records_user").on(table.userId),
+]);
+
+// Native assessments - courses with scormVersion 'assessment' are a question bank built here
+// rather than an uploaded package. One settings row per course.
+export const courseAssessments = pgTable("course_assessments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().unique(),
+  questionsPerAttempt: integer("questions_per_attempt"), // drawn at random from the bank, null = every question
+  shuffleQuestions: boolean("shuffle_questions").notNull().default(true),
+  shuffleOptions: boolean("shuffle_options").notNull().default(true),
+  timeLimitMinutes: integer("time_limit_minutes"), // null = untimed
+  maxAttempts: integer("max_attempts"), // per assignment cycle, null = unlimited
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export interface AssessmentOption {
+  id: string;
+  text: string;
+}
+
+export const assessmentQuestions = pgTable("assessment_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull(),
+  type: assessmentQuestionTypeEnum("type").notNull(),
+  prompt: text("prompt").notNull(),
+  options: jsonb("options").$type<AssessmentOption[]>().notNull().default([]), // empty for free text
+  correctOptionIds: jsonb("correct_option_ids").$type<string[]>().notNull().default([]), // free text is marked by hand
+  points: integer("points").notNull().default(1),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_assessment_questions_course").on(table.courseId),
+]);
+
+// A question as served in an attempt. Attempts keep their own copy so editing the bank
+// never changes an attempt that is under way or already marked.
+export type AssessmentAttemptQuestion = Pick<typeof assessmentQuestions.$inferSelect, 'type' | 'prompt' | 'options' | 'correctOptionIds' | 'points'> & {
+  questionId: string;
+};
+
+export const assessmentAttempts = pgTable("assessment_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assignmentId: varchar("assignment_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  courseVersionId: varchar("course_version_id"),
+  organisationId: varchar("organisation_id").notNull(),
+  attemptNumber: integer("attempt_number").notNull(),
+  status: assessmentAttemptStatusEnum("status").notNull().default('in_progress'),
+  questions: jsonb("questions").$type<AssessmentAttemptQuestion[]>().notNull(),
+  answers: jsonb("answers").$type<Record<string, string[] | string>>().notNull().default({}), // option ids, or the text for free text
+  manualMarks: jsonb("manual_marks").$type<Record<string, boolean>>(), // free text question id -> correct
+  startedAt: timestamp("started_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // from the time limit
+  submittedAt: timestamp("submitted_at"),
+  score: integer("score"), // percentage, once fully marked
+  passed: boolean("passed"),
+  markedBy: varchar("marked_by"),
+  markedAt: timestamp("marked_at"),
+  completionId: varchar("completion_id"), // set when this attempt decided the assignment
+}, (table) => [
+  index("idx_assessment_attempts_assignment").on(table.assignmentId),
+  index("idx_assessment_attempts_organisation_status").on(table.organisationId, table.status),
+  unique("assessment_attempts_assignment_number_unique").on(table.assignmentId, table.attemptNumber), // two starts at once cannot both create attempt N
+]);
+
+// Nightly compliance snapshots - one row for the organisation, one per department and one per course
+export const complianceSnapshots = pgTable("compliance_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  snapshotDate: varchar("snapshot_date", { length: 10 }).notNull(), // YYYY-MM-DD, server time
+  scope: varchar("scope").notNull(), // 'organisation' | 'department' | 'course'
+  department: varchar("department"), // department scope only
+  courseId: varchar("course_id"), // course scope only
+  // Mandatory training - see ComplianceService
+  requiredCount: integer("required_count").notNull().default(0),
+  inDateCount: integer("in_date_count").notNull().default(0),
+  targetPercent: integer("target_percent"),
+  // All assigned training, as shown on the training matrix
+  assignedCount: integer("assigned_count").notNull().default(0),
+  overdueCount: integer("overdue_count").notNull().default(0),
+  expiredCount: integer("expired_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_compliance_snapshots_org_date").on(table.organisationId, table.snapshotDate),
+]);
+
+// The full training matrix as it stood when a nightly snapshot was taken, kept for audits
+export const complianceSnapshotMatrices = pgTable("compliance_snapshot_matrices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  snapshotDate: varchar("snapshot_date", { length: 10 }).notNull(),
+  staff: jsonb("staff").$type<{
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    department: string | null;
+    jobTitle: string | null;
+  }[]>().notNull(),
+  courses: jsonb("courses").$type<{
+    id: string;
+    title: string;
+    certificateExpiryPeriod: number | null;
+    mandatory: boolean;
+  }[]>().notNull(),
+  // cells[staffIndex][courseIndex]
+  cells: jsonb("cells").$type<{
+    status: string;
+    label: string;
+    dueDate?: string | null;
+    completionDate?: string | null;
+    expiryDate?: string | null;
+    score?: number | null;
+  }[][]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("compliance_snapshot_matrices_org_date_unique").on(table.organisationId, table.snapshotDate),
+]);
+
+// Organisation single sign-on configuration - one identity provider per organisation
+export const organisationSsoConfigs = pgTable("organisation_sso_configs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull().unique(),
+  protocol: varchar("protocol").notNull().default('saml'), // 'saml' | 'oidc'
+  isEnabled: boolean("is_enabled").notNull().default(false),
+  enforceSso: boolean("enforce_sso").notNull().default(false), // password login is refused for this organisation's users
+  emailDomains: text("email_domains").array(), // routes new users to this IdP at sign in (e.g. nhs.net)
+  // SAML 2.0 identity provider
+  samlMetadataXml: text("saml_metadata_xml"),
+  samlEntityId: varchar("saml_entity_id"),
+  samlSsoUrl: varchar("saml_sso_url"),
+  samlCertificate: text("saml_certificate"), // IdP signing certificate(s), PEM bodies separated by blank lines
+  // OpenID Connect provider
+  oidcIssuerUrl: varchar("oidc_issuer_url"),
+  oidcClientId: varchar("oidc_client_id"),
+  oidcClientSecret: varchar("oidc_client_secret"),
+  // IdP attribute / claim names for each user field
+  attributeMapping: jsonb("attribute_mapping").$type<{
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    department?: string;
+    jobTitle?: string;
+  }>(),
+  jitProvisioning: boolean("jit_provisioning").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// SAML AuthnRequest ids awaiting a response and assertion ids already used - in the database so
+// every server instance sees them and a response is only ever accepted once
+export const samlMessageIds = pgTable("saml_message_ids", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  kind: varchar("kind").notNull(), // 'request' | 'assertion'
+  messageId: varchar("message_id").notNull(),
+  value: varchar("value"), // IssueInstant of an AuthnRequest
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("saml_message_ids_org_kind_message_unique").on(table.organisationId, table.kind, table.messageId),
+  index("idx_saml_message_ids_expires").on(table.expiresAt),
+]);
+
+// Email domains an organisation routes to its IdP - only used for discovery once proven by a DNS TXT
+// record or approved by a superadmin, and a verified domain belongs to one organisation only
+export const ssoEmailDomains = pgTable("sso_email_domains", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  domain: varchar("domain").notNull(),
+  verificationToken: varchar("verification_token").notNull(), // expected in the domain's TXT record
+  verifiedAt: timestamp("verified_at"),
+  verifiedBy: varchar("verified_by"), // superadmin who approved it, null when proven by DNS
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("sso_email_domains_org_domain_unique").on(table.organisationId, table.domain),
+  uniqueIndex("sso_email_domains_verified_domain_unique").on(table.domain).where(sql`verified_at IS NOT NULL`),
+]);
+
+// TOTP secrets and recovery codes - kept off the users table so they never reach user JSON
+export const userMfa = pgTable("user_mfa", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  totpSecret: varchar("totp_secret").notNull(), // base32
+  lastUsedStep: integer("last_used_step"), // last accepted TOTP time step, refused on replay
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default(sql`ARRAY[]::text[]`), // sha256, removed when used
+  enrolledAt: timestamp("enrolled_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Forgot-password links - only a hash of the token is stored; each link works once
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(), // sha256
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: varchar("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_password_reset_tokens_user").on(table.userId),
+]);
+
+// SCIM bearer tokens - only a hash is stored, the token is shown once when created
+export const scimTokens = pgTable("scim_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  name: varchar("name").notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  tokenPrefix: varchar("token_prefix").notNull(), // first characters, to tell tokens apart in the UI
+  createdBy: varchar("created_by").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_scim_tokens_organisation").on(table.organisationId),
+]);
+
+// User groups - provisioned over SCIM and usable as assignment rule targets
+export const userGroups = pgTable("user_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  displayName: varchar("display_name").notNull(),
+  externalId: varchar("external_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_user_groups_organisation").on(table.organisationId),
+  unique("user_groups_organisation_name_unique").on(table.organisationId, table.displayName),
+]);
+
+export const userGroupMembers = pgTable("user_group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  organisationId: varchar("organisation_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_user_group_members_user").on(table.userId),
+  unique("user_group_members_group_user_unique").on(table.groupId, table.userId),
+]);
+
+// Saved report definitions - run on a schedule and emailed to the recipients as an attachment
+export const reportSubscriptions = pgTable("report_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  name: varchar("name").notNull(),
+  reportType: scheduledReportTypeEnum("report_type").notNull(),
+  // Training matrix filters - empty means "all"
+  filters: jsonb("filters").$type<{
+    departments?: string[];
+    roles?: string[];
+    courses?: string[];
+    statuses?: string[];
+    mandatoryOnly?: boolean;
+  }>().notNull().default({}),
+  format: varchar("format").notNull().default('csv'), // 'csv' | 'xlsx' | 'pdf' - xlsx and pdf for the training matrix only
+  frequency: reportFrequencyEnum("frequency").notNull(),
+  dayOfWeek: integer("day_of_week"), // weekly: 0 = Sunday
+  dayOfMonth: integer("day_of_month"), // monthly: 1-28
+  hour: integer("hour").notNull().default(7), // server time
+  recipients: text("recipients").array().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: varchar("last_run_status"), // 'queued' | 'failed' - the email_sends rows record each recipient's delivery
+  lastError: text("last_error"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_report_subscriptions_organisation").on(table.organisationId),
+  index("idx_report_subscriptions_next_run").on(table.nextRunAt),
+]);
+
 // Course completions table
 export const completions = pgTable("completions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -521,6 +1082,7 @@ export const completions = pgTable("completions", {
   attemptNumber: integer("attempt_number").default(1),
   timeSpent: integer("time_spent"), // in minutes
   scormData: jsonb("scorm_data"), // SCORM completion data
+  courseVersionId: varchar("course_version_id"), // the course version completed
   completedAt: timestamp("completed_at").defaultNow(),
 });
 
@@ -532,8 +1094,18 @@ export const certificates = pgTable("certificates", {
   courseId: varchar("course_id").notNull(),
   organisationId: varchar("organisation_id").notNull(),
   certificateUrl: varchar("certificate_url"),
+  verificationCode: varchar("verification_code").unique(), // printed on the certificate and encoded in its QR code
   expiryDate: timestamp("expiry_date"),
+  courseVersionId: varchar("course_version_id"), // the course version completed
   issuedAt: timestamp("issued_at").defaultNow(),
+  // Revocation - a revoked certificate verifies as invalid
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: varchar("revoked_by"),
+  revocationReason: text("revocation_reason"),
+  // Recertification tracking
+  recertificationAssignmentId: varchar("recertification_assignment_id"), // assignment opened to renew this certificate
+  expiringNotifiedAt: timestamp("expiring_notified_at"),
+  expiredNotifiedAt: timestamp("expired_notified_at"),
 });
 
 // Certificate templates table
@@ -589,6 +1161,7 @@ export const scormAttempts = pgTable("scorm_attempts", {
   
   // Course configuration at attempt time
   passmark: integer("passmark"), // course passmark when attempt was made
+  courseVersionId: varchar("course_version_id"), // course version the attempt was made on
   
   // Attempt lifecycle
   isActive: boolean("is_active").default(true), // false when terminated/finished
@@ -606,6 +1179,119 @@ export const scormAttempts = pgTable("scorm_attempts", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// SCORM interactions table - one row per cmi.interactions.n entry (question-level responses)
+export const scormInteractions = pgTable("scorm_interactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attemptId: varchar("attempt_id").notNull(), // scorm_attempts.attempt_id
+  assignmentId: varchar("assignment_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  organisationId: varchar("organisation_id").notNull(),
+  interactionIndex: integer("interaction_index").notNull(), // n in cmi.interactions.n
+  interactionId: varchar("interaction_id"), // question identifier set by the content
+  type: varchar("type"), // true-false, choice, fill-in, matching, performance, sequencing, likert, numeric, ...
+  description: text("description"), // SCORM 2004 only
+  learnerResponse: text("learner_response"), // 2004 learner_response / 1.2 student_response
+  correctResponses: jsonb("correct_responses").$type<string[]>(),
+  result: varchar("result"), // correct, incorrect, unanticipated, neutral or a numeric value (1.2 "wrong" is stored as incorrect)
+  weighting: decimal("weighting", { precision: 7, scale: 2 }),
+  latency: varchar("latency"), // raw SCORM timespan / ISO 8601 duration
+  latencySeconds: decimal("latency_seconds", { precision: 10, scale: 2 }),
+  timestamp: varchar("timestamp"), // 2004 timestamp / 1.2 time
+  objectiveIds: jsonb("objective_ids").$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_scorm_interactions_course").on(table.courseId),
+  unique("scorm_interactions_attempt_index_unique").on(table.attemptId, table.interactionIndex),
+]);
+
+// SCORM objectives table - one row per cmi.objectives.n entry
+export const scormObjectives = pgTable("scorm_objectives", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  attemptId: varchar("attempt_id").notNull(), // scorm_attempts.attempt_id
+  assignmentId: varchar("assignment_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  organisationId: varchar("organisation_id").notNull(),
+  objectiveIndex: integer("objective_index").notNull(), // n in cmi.objectives.n
+  objectiveId: varchar("objective_id"),
+  description: text("description"), // SCORM 2004 only
+  scoreRaw: decimal("score_raw", { precision: 7, scale: 2 }),
+  scoreMin: decimal("score_min", { precision: 7, scale: 2 }),
+  scoreMax: decimal("score_max", { precision: 7, scale: 2 }),
+  scoreScaled: decimal("score_scaled", { precision: 5, scale: 4 }), // SCORM 2004 only
+  status: varchar("status"), // SCORM 1.2 lesson status style value
+  successStatus: varchar("success_status"), // SCORM 2004
+  completionStatus: varchar("completion_status"), // SCORM 2004
+  progressMeasure: decimal("progress_measure", { precision: 5, scale: 4 }), // SCORM 2004
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_scorm_objectives_course").on(table.courseId),
+  unique("scorm_objectives_attempt_index_unique").on(table.attemptId, table.objectiveIndex),
+]);
+
+// xAPI / cmi5 launch sessions - each launch gets its own LRS credentials scoped to one learner and course
+export const xapiLaunchSessions = pgTable("xapi_launch_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  courseId: varchar("course_id").notNull(),
+  assignmentId: varchar("assignment_id").notNull(),
+  standard: varchar("standard", { length: 10 }).notNull(), // "xapi" or "cmi5"
+  registration: varchar("registration").notNull(), // xAPI registration UUID
+  activityId: varchar("activity_id", { length: 500 }).notNull(),
+  launchMode: varchar("launch_mode", { length: 20 }).notNull().default('Normal'),
+  tokenHash: varchar("token_hash"), // sha256 of the LRS auth secret, set once issued
+  fetchSecretHash: varchar("fetch_secret_hash"), // cmi5 only - sha256 of the one-time fetch URL secret
+  tokenIssuedAt: timestamp("token_issued_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  satisfiedAt: timestamp("satisfied_at"),
+  terminatedAt: timestamp("terminated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_xapi_launch_sessions_registration").on(table.registration),
+]);
+
+// xAPI statements stored by the LRS, scoped per organisation
+export const xapiStatements = pgTable("xapi_statements", {
+  id: varchar("id").primaryKey(), // statement id (UUID) - supplied by the content or generated on store
+  organisationId: varchar("organisation_id").notNull(),
+  launchSessionId: varchar("launch_session_id"),
+  userId: varchar("user_id"),
+  courseId: varchar("course_id"),
+  registration: varchar("registration"),
+  agentKey: varchar("agent_key", { length: 500 }).notNull(), // normalised actor identifier, e.g. mbox:mailto:jo@example.com
+  verbId: varchar("verb_id", { length: 500 }).notNull(),
+  activityId: varchar("activity_id", { length: 500 }), // object id when the object is an Activity
+  statement: jsonb("statement").notNull(),
+  voided: boolean("voided").notNull().default(false),
+  timestamp: timestamp("timestamp").notNull(),
+  stored: timestamp("stored").notNull().defaultNow(),
+}, (table) => [
+  index("idx_xapi_statements_org_stored").on(table.organisationId, table.stored),
+  index("idx_xapi_statements_registration").on(table.registration),
+]);
+
+// xAPI documents - activity state, activity profile and agent profile
+export const xapiDocuments = pgTable("xapi_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organisationId: varchar("organisation_id").notNull(),
+  documentType: varchar("document_type", { length: 20 }).notNull(), // state, activity_profile, agent_profile
+  documentId: varchar("document_id", { length: 500 }).notNull(), // stateId or profileId
+  activityId: varchar("activity_id", { length: 500 }).notNull().default(''), // empty for agent profiles
+  agentKey: varchar("agent_key", { length: 500 }).notNull().default(''), // empty for activity profiles
+  registration: varchar("registration").notNull().default(''), // state documents only
+  contentType: varchar("content_type").notNull().default('application/octet-stream'),
+  content: text("content").notNull(),
+  etag: varchar("etag").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("xapi_documents_key_unique").on(table.organisationId, table.documentType, table.activityId, table.agentKey, table.registration, table.documentId),
+]);
+
 // Organisation settings table
 export const organisationSettings = pgTable("organisation_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -619,6 +1305,7 @@ export const organisationSettings = pgTable("organisation_settings", {
   completionEmailsEnabled: boolean("completion_emails_enabled").default(true),
   reminderDays: integer("reminder_days").default(7), // days before due date
   defaultCertificateDownload: boolean("default_certificate_download").default(false),
+  requireAdminMfa: boolean("require_admin_mfa").default(false), // admins must use TOTP to sign in
   // Provider-agnostic email configuration
   emailProvider: emailProviderEnum("email_provider"),
   
@@ -642,6 +1329,7 @@ export const organisationSettings = pgTable("organisation_settings", {
   // Provider-specific optional fields
   apiDomain: varchar("api_domain"), // For Mailgun
   apiRegion: varchar("api_region"), // For SES
+  webhookSigningKey: varchar("webhook_signing_key"), // Verifies the provider's delivery event webhooks
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -805,6 +1493,7 @@ export const systemEmailSettings = pgTable("system_email_settings", {
   // Provider-specific optional fields
   apiDomain: varchar("api_domain"), // For Mailgun
   apiRegion: varchar("api_region"), // For SES
+  webhookSigningKey: varchar("webhook_signing_key"), // Verifies the provider's delivery event webhooks
   
   // System settings
   isActive: boolean("is_active").default(true),
@@ -831,6 +1520,8 @@ export const emailLogs = pgTable("email_logs", {
   smtpStatus: varchar("smtp_status"), // SMTP status code
   endpoint: varchar("endpoint"), // API endpoint used
   messageId: varchar("message_id"), // Provider message ID
+  deliveryEvent: emailDeliveryEventEnum("delivery_event"), // Latest event from the provider's webhook
+  deliveryEventAt: timestamp("delivery_event_at"),
   
   // Status and errors
   status: varchar("status").notNull(), // "sent", "failed"
@@ -871,6 +1562,7 @@ export const emailSends = pgTable("email_sends", {
   // Content (rendered)
   htmlContent: text("html_content").notNull(),
   textContent: text("text_content"),
+  attachments: jsonb("attachments").$type<{ filename: string; contentType: string; content: string }[]>(), // base64 content, kept for retries
   
   // Template context used for rendering
   templateVariables: jsonb("template_variables"), // Variables passed to template engine
@@ -887,10 +1579,22 @@ export const emailSends = pgTable("email_sends", {
   nextRetryAt: timestamp("next_retry_at"),
   lastAttemptAt: timestamp("last_attempt_at"),
   
+  // Queue worker lease - see EmailQueueWorker
+  lockedBy: varchar("locked_by"), // Worker currently delivering the send
+  lockedUntil: timestamp("locked_until"), // A crashed worker's sends are claimed again after this
+  
   // Success tracking
   sentAt: timestamp("sent_at"),
   deliveredAt: timestamp("delivered_at"), // If provider supports delivery confirmations
   
+  // Delivery events from the provider's webhook
+  deliveryEvent: emailDeliveryEventEnum("delivery_event"), // Latest event - see EmailDeliveryEventService
+  deliveryDetail: text("delivery_detail"), // Bounce or complaint reason given by the provider
+  openedAt: timestamp("opened_at"),
+  clickedAt: timestamp("clicked_at"),
+  bouncedAt: timestamp("bounced_at"),
+  complainedAt: timestamp("complained_at"),
+  
   // Metadata
   fromEmail: varchar("from_email"),
   fromName: varchar("from_name"),
@@ -905,6 +1609,7 @@ export const emailSends = pgTable("email_sends", {
   index("idx_email_sends_org").on(table.organisationId),
   index("idx_email_sends_retry").on(table.status, table.nextRetryAt),
   index("idx_email_sends_created").on(table.createdAt),
+  index("idx_email_sends_provider_message").on(table.providerMessageId),
   unique("unique_email_send_idempotency").on(table.idempotencyKey),
 ]);
 
@@ -989,10 +1694,32 @@ export const orgNotificationSettings = pgTable("org_notification_settings", {
   sendToAdmins: boolean("send_to_admins").default(true),
   extraRecipients: jsonb("extra_recipients"), // Array of additional email addresses
   emailProviderConfigId: varchar("email_provider_config_id"), // nullable FK to EmailProviderConfigs
+  // Learner digests - defaults for learners who haven't chosen their own delivery
+  learnerEmailDelivery: emailDeliveryFrequencyEnum("learner_email_delivery").notNull().default('immediate'),
+  digestHour: integer("digest_hour").notNull().default(8), // 0-23, server time
+  digestWeekday: integer("digest_weekday").notNull().default(1), // 0 = Sunday, for weekly digests
   updatedAt: timestamp("updated_at").defaultNow(),
   updatedBy: varchar("updated_by").notNull(),
 });
 
+// Learner email events held back for their next digest. `resourceId` is the key the event's own
+// email would have been sent with, so an event is only collected once.
+export const learnerDigestEvents = pgTable("learner_digest_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  organisationId: varchar("organisation_id"),
+  eventType: varchar("event_type").notNull(), // LearnerDigestEventType - course_assigned | due_date_passed
+  resourceId: varchar("resource_id").notNull().unique(),
+  courseId: varchar("course_id").notNull(),
+  courseName: varchar("course_name").notNull(),
+  dueDate: varchar("due_date"), // as shown in the email
+  courseUrl: varchar("course_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+  digestedAt: timestamp("digested_at"), // set once the digest including it has been queued
+}, (table) => [
+  index("idx_learner_digest_events_pending").on(table.digestedAt, table.userId),
+]);
+
 // Email provider configurations table - stores provider-specific settings
 export const emailProviderConfigs = pgTable("email_provider_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1048,6 +1775,10 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     fields: [users.organisationId],
     references: [organisations.id],
   }),
+  customRole: one(organisationRoles, {
+    fields: [users.customRoleId],
+    references: [organisationRoles.id],
+  }),
   assignments: many(assignments),
   completions: many(completions),
   certificates: many(certificates),
@@ -1081,6 +1812,7 @@ export const coursesRelations = relations(courses, ({ one, many }) => ({
   assignments: many(assignments),
   completions: many(completions),
   certificates: many(certificates),
+  versions: many(courseVersions),
   folder: one(courseFolders, {
     fields: [courses.folderId],
     references: [courseFolders.id],
@@ -1106,6 +1838,17 @@ export const organisationCourseFoldersRelations = relations(organisationCourseFo
   }),
 }));
 
+export const courseVersionsRelations = relations(courseVersions, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseVersions.courseId],
+    references: [courses.id],
+  }),
+  createdByUser: one(users, {
+    fields: [courseVersions.createdBy],
+    references: [users.id],
+  }),
+}));
+
 export const assignmentsRelations = relations(assignments, ({ one, many }) => ({
   course: one(courses, {
     fields: [assignments.courseId],
@@ -1123,9 +1866,158 @@ export const assignmentsRelations = relations(assignments, ({ one, many }) => ({
     fields: [assignments.assignedBy],
     references: [users.id],
   }),
+  learningPathEnrolment: one(learningPathEnrolments, {
+    fields: [assignments.learningPathEnrolmentId],
+    references: [learningPathEnrolments.id],
+  }),
   completions: many(completions),
 }));
 
+export const learningPathsRelations = relations(learningPaths, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [learningPaths.organisationId],
+    references: [organisations.id],
+  }),
+  courses: many(learningPathCourses),
+  enrolments: many(learningPathEnrolments),
+}));
+
+export const learningPathCoursesRelations = relations(learningPathCourses, ({ one }) => ({
+  learningPath: one(learningPaths, {
+    fields: [learningPathCourses.learningPathId],
+    references: [learningPaths.id],
+  }),
+  course: one(courses, {
+    fields: [learningPathCourses.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const learningPathEnrolmentsRelations = relations(learningPathEnrolments, ({ one, many }) => ({
+  learningPath: one(learningPaths, {
+    fields: [learningPathEnrolments.learningPathId],
+    references: [learningPaths.id],
+  }),
+  user: one(users, {
+    fields: [learningPathEnrolments.userId],
+    references: [users.id],
+  }),
+  assignments: many(assignments),
+}));
+
+export const assignmentRulesRelations = relations(assignmentRules, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [assignmentRules.organisationId],
+    references: [organisations.id],
+  }),
+  course: one(courses, {
+    fields: [assignmentRules.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const organisationRolesRelations = relations(organisationRoles, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [organisationRoles.organisationId],
+    references: [organisations.id],
+  }),
+  users: many(users),
+}));
+
+export const classroomSessionsRelations = relations(classroomSessions, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [classroomSessions.organisationId],
+    references: [organisations.id],
+  }),
+  course: one(courses, {
+    fields: [classroomSessions.courseId],
+    references: [courses.id],
+  }),
+  trainer: one(users, {
+    fields: [classroomSessions.trainerId],
+    references: [users.id],
+  }),
+  bookings: many(classroomBookings),
+}));
+
+export const classroomBookingsRelations = relations(classroomBookings, ({ one }) => ({
+  session: one(classroomSessions, {
+    fields: [classroomBookings.sessionId],
+    references: [classroomSessions.id],
+  }),
+  user: one(users, {
+    fields: [classroomBookings.userId],
+    references: [users.id],
+  }),
+  completion: one(completions, {
+    fields: [classroomBookings.completionId],
+    references: [completions.id],
+  }),
+}));
+
+export const externalTrainingRecordsRelations = relations(externalTrainingRecords, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [externalTrainingRecords.organisationId],
+    references: [organisations.id],
+  }),
+  user: one(users, {
+    fields: [externalTrainingRecords.userId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [externalTrainingRecords.courseId],
+    references: [courses.id],
+  }),
+  completion: one(completions, {
+    fields: [externalTrainingRecords.completionId],
+    references: [completions.id],
+  }),
+}));
+
+export const courseAssessmentsRelations = relations(courseAssessments, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseAssessments.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const assessmentQuestionsRelations = relations(assessmentQuestions, ({ one }) => ({
+  course: one(courses, {
+    fields: [assessmentQuestions.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const assessmentAttemptsRelations = relations(assessmentAttempts, ({ one }) => ({
+  assignment: one(assignments, {
+    fields: [assessmentAttempts.assignmentId],
+    references: [assignments.id],
+  }),
+  user: one(users, {
+    fields: [assessmentAttempts.userId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [assessmentAttempts.courseId],
+    references: [courses.id],
+  }),
+  completion: one(completions, {
+    fields: [assessmentAttempts.completionId],
+    references: [completions.id],
+  }),
+}));
+
+export const mandatoryCoursesRelations = relations(mandatoryCourses, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [mandatoryCourses.organisationId],
+    references: [organisations.id],
+  }),
+  course: one(courses, {
+    fields: [mandatoryCourses.courseId],
+    references: [courses.id],
+  }),
+}));
+
 export const completionsRelations = relations(completions, ({ one }) => ({
   assignment: one(assignments, {
     fields: [completions.assignmentId],
@@ -3649,6 +4541,7 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 }).extend({
   password: z.string().min(6).optional(), // Allow password for creation, will be hashed into passwordHash
+  preferredLanguage: z.enum(Object.keys(EMAIL_LOCALES) as [EmailLocale, ...EmailLocale[]]).nullable().optional(),
 });
 
 // Schema for user creation with password
@@ -3656,6 +4549,25 @@ export const createUserWithPasswordSchema = insertUserSchema.extend({
   password: z.string().min(6), // Required password for new user creation
 });
 
+// Fields an administrator may change through PUT /api/users/:id - anything else is rejected
+export const updateUserSchema = insertUserSchema.pick({
+  email: true,
+  firstName: true,
+  lastName: true,
+  profileImageUrl: true,
+  jobTitle: true,
+  department: true,
+  phone: true,
+  bio: true,
+  status: true,
+  allowCertificateDownload: true,
+  emailDeliveryFrequency: true,
+  customRoleId: true,
+  managerId: true,
+}).extend({
+  preferredLanguage: z.string().nullable().optional(), // an empty string clears it; the route checks the locale
+}).partial().strict();
+
 export const insertOrganisationSchema = createInsertSchema(organisations).omit({
   id: true,
   createdAt: true,
@@ -3664,15 +4576,190 @@ export const insertOrganisationSchema = createInsertSchema(organisations).omit({
 
 export const insertCourseSchema = createInsertSchema(courses).omit({
   id: true,
+  currentVersionId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertCourseVersionSchema = createInsertSchema(courseVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAssignmentSchema = createInsertSchema(assignments).omit({
   id: true,
   assignedAt: true,
 });
 
+export const insertLearningPathSchema = createInsertSchema(learningPaths).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLearningPathCourseSchema = createInsertSchema(learningPathCourses).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  prerequisiteCourseIds: z.array(z.string()).nullable().optional(),
+});
+
+export const insertLearningPathEnrolmentSchema = createInsertSchema(learningPathEnrolments).omit({
+  id: true,
+  assignedAt: true,
+});
+
+export const insertAssignmentRuleSchema = createInsertSchema(assignmentRules).omit({
+  id: true,
+  lastRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMandatoryCourseSchema = createInsertSchema(mandatoryCourses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  targetPercent: z.number().int().min(1).max(100).optional(),
+});
+
+export const insertOrganisationRoleSchema = createInsertSchema(organisationRoles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, 'Role name is required').max(100),
+  permissions: z.array(z.enum(PERMISSION_KEYS)),
+});
+
+export const insertClassroomSessionSchema = createInsertSchema(classroomSessions).omit({
+  id: true,
+  cancelledAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  title: z.string().trim().min(1, 'Title is required'),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  deliveryMode: z.enum(['in_person', 'virtual']).optional(),
+  meetingUrl: z.string().url().nullable().optional(),
+  capacity: z.number().int().min(1),
+});
+
+export const insertClassroomBookingSchema = createInsertSchema(classroomBookings).omit({
+  id: true,
+  bookedAt: true,
+  cancelledAt: true,
+  attendanceMarkedBy: true,
+  attendanceMarkedAt: true,
+  completionId: true,
+});
+
+export const insertExternalTrainingRecordSchema = createInsertSchema(externalTrainingRecords).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewNotes: true,
+  completionId: true,
+  certificateId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  provider: z.string().trim().min(1, 'Provider is required'),
+  completedAt: z.coerce.date(),
+  expiryDate: z.coerce.date().nullable().optional(),
+});
+
+export const insertCourseAssessmentSchema = createInsertSchema(courseAssessments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  questionsPerAttempt: z.number().int().min(1).nullable().optional(),
+  timeLimitMinutes: z.number().int().min(1).max(600).nullable().optional(),
+  maxAttempts: z.number().int().min(1).nullable().optional(),
+});
+
+export const insertAssessmentQuestionSchema = createInsertSchema(assessmentQuestions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  prompt: z.string().trim().min(1, 'Question text is required'),
+  options: z.array(z.object({ id: z.string().min(1), text: z.string().trim().min(1, 'Answer options need text') })).default([]),
+  correctOptionIds: z.array(z.string()).default([]),
+  points: z.number().int().min(1).max(100).default(1),
+});
+
+export const insertComplianceSnapshotSchema = createInsertSchema(complianceSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserMfaSchema = createInsertSchema(userMfa).omit({
+  id: true,
+  enrolledAt: true,
+  updatedAt: true,
+});
+
+export const insertReportSubscriptionSchema = createInsertSchema(reportSubscriptions).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastRunStatus: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  filters: z.object({
+    departments: z.array(z.string()).optional(),
+    roles: z.array(z.string()).optional(),
+    courses: z.array(z.string()).optional(),
+    statuses: z.array(z.string()).optional(),
+    mandatoryOnly: z.boolean().optional(),
+  }).optional(),
+  format: z.enum(['csv', 'xlsx', 'pdf']).optional(),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(28).nullable().optional(),
+  hour: z.number().int().min(0).max(23).optional(),
+  recipients: z.array(z.string().email()).min(1, 'At least one recipient is required'),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertScimTokenSchema = createInsertSchema(scimTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertUserGroupSchema = createInsertSchema(userGroups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganisationSsoConfigSchema = createInsertSchema(organisationSsoConfigs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  attributeMapping: z.object({
+    email: z.string().optional(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    department: z.string().optional(),
+    jobTitle: z.string().optional(),
+  }).nullable().optional(),
+});
+
 export const insertCompletionSchema = createInsertSchema(completions).omit({
   id: true,
   completedAt: true,
@@ -3695,6 +4782,36 @@ export const insertScormAttemptSchema = createInsertSchema(scormAttempts).omit({
   updatedAt: true,
 });
 
+export const insertScormInteractionSchema = createInsertSchema(scormInteractions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  correctResponses: z.array(z.string()).nullable().optional(),
+  objectiveIds: z.array(z.string()).nullable().optional(),
+});
+
+export const insertScormObjectiveSchema = createInsertSchema(scormObjectives).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertXapiLaunchSessionSchema = createInsertSchema(xapiLaunchSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertXapiStatementSchema = createInsertSchema(xapiStatements).omit({
+  stored: true,
+});
+
+export const insertXapiDocumentSchema = createInsertSchema(xapiDocuments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOrganisationSettingsSchema = createInsertSchema(organisationSettings).omit({
   id: true,
   createdAt: true,
@@ -3766,6 +4883,12 @@ export const insertEmailSendSchema = createInsertSchema(emailSends).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  attachments: z.array(z.object({
+    filename: z.string(),
+    contentType: z.string(),
+    content: z.string(),
+  })).nullable().optional(),
 });
 
 export const insertEmailSettingsLockSchema = createInsertSchema(emailSettingsLock).omit({
@@ -3795,6 +4918,12 @@ export const insertOrgNotificationSettingsSchema = createInsertSchema(orgNotific
   updatedAt: true,
 });
 
+export const insertLearnerDigestEventSchema = createInsertSchema(learnerDigestEvents).omit({
+  id: true,
+  createdAt: true,
+  digestedAt: true,
+});
+
 export const insertEmailProviderConfigsSchema = createInsertSchema(emailProviderConfigs).omit({
   id: true,
   updatedAt: true,
@@ -4092,9 +5221,61 @@ export type Organisation = typeof organisations.$inferSelect;
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
 export type Course = typeof courses.$inferSelect;
 
+export type InsertCourseVersion = z.infer<typeof insertCourseVersionSchema>;
+export type CourseVersion = typeof courseVersions.$inferSelect;
+
 export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
 export type Assignment = typeof assignments.$inferSelect;
 
+export type InsertLearningPath = z.infer<typeof insertLearningPathSchema>;
+export type LearningPath = typeof learningPaths.$inferSelect;
+
+export type InsertLearningPathCourse = z.infer<typeof insertLearningPathCourseSchema>;
+export type LearningPathCourse = typeof learningPathCourses.$inferSelect;
+
+export type InsertLearningPathEnrolment = z.infer<typeof insertLearningPathEnrolmentSchema>;
+export type LearningPathEnrolment = typeof learningPathEnrolments.$inferSelect;
+
+export type InsertAssignmentRule = z.infer<typeof insertAssignmentRuleSchema>;
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type InsertMandatoryCourse = z.infer<typeof insertMandatoryCourseSchema>;
+export type MandatoryCourse = typeof mandatoryCourses.$inferSelect;
+export type InsertOrganisationRole = z.infer<typeof insertOrganisationRoleSchema>;
+export type OrganisationRole = typeof organisationRoles.$inferSelect;
+export type InsertClassroomSession = z.infer<typeof insertClassroomSessionSchema>;
+export type ClassroomSession = typeof classroomSessions.$inferSelect;
+export type InsertClassroomBooking = z.infer<typeof insertClassroomBookingSchema>;
+export type ClassroomBooking = typeof classroomBookings.$inferSelect;
+export type InsertExternalTrainingRecord = z.infer<typeof insertExternalTrainingRecordSchema>;
+export type ExternalTrainingRecord = typeof externalTrainingRecords.$inferSelect;
+export type InsertCourseAssessment = z.infer<typeof insertCourseAssessmentSchema>;
+export type CourseAssessment = typeof courseAssessments.$inferSelect;
+export type InsertAssessmentQuestion = z.infer<typeof insertAssessmentQuestionSchema>;
+export type AssessmentQuestion = typeof assessmentQuestions.$inferSelect;
+export type AssessmentQuestionInput = Omit<InsertAssessmentQuestion, 'courseId' | 'sortOrder'> & { id?: string }; // a question in a saved bank - new ones have no id
+export type InsertAssessmentAttempt = typeof assessmentAttempts.$inferInsert; // written by the assessment service only
+export type AssessmentAttempt = typeof assessmentAttempts.$inferSelect;
+export type InsertComplianceSnapshot = z.infer<typeof insertComplianceSnapshotSchema>;
+export type ComplianceSnapshot = typeof complianceSnapshots.$inferSelect;
+export type InsertComplianceSnapshotMatrix = typeof complianceSnapshotMatrices.$inferInsert; // written by the snapshot job only
+export type ComplianceSnapshotMatrix = typeof complianceSnapshotMatrices.$inferSelect;
+export type InsertOrganisationSsoConfig = z.infer<typeof insertOrganisationSsoConfigSchema>;
+export type InsertSamlMessageId = typeof samlMessageIds.$inferInsert; // written by the SAML service provider only
+export type SamlMessageId = typeof samlMessageIds.$inferSelect;
+export type SsoEmailDomain = typeof ssoEmailDomains.$inferSelect;
+export type InsertUserMfa = z.infer<typeof insertUserMfaSchema>;
+export type UserMfa = typeof userMfa.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertReportSubscription = z.infer<typeof insertReportSubscriptionSchema>;
+export type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+export type InsertScimToken = z.infer<typeof insertScimTokenSchema>;
+export type ScimToken = typeof scimTokens.$inferSelect;
+export type InsertUserGroup = z.infer<typeof insertUserGroupSchema>;
+export type UserGroup = typeof userGroups.$inferSelect;
+export type UserGroupMember = typeof userGroupMembers.$inferSelect;
+export type OrganisationSsoConfig = typeof organisationSsoConfigs.$inferSelect;
+
 export type InsertCompletion = z.infer<typeof insertCompletionSchema>;
 export type Completion = typeof completions.$inferSelect;
 
@@ -4107,6 +5288,21 @@ export type CertificateTemplate = typeof certificateTemplates.$inferSelect;
 export type InsertScormAttempt = z.infer<typeof insertScormAttemptSchema>;
 export type ScormAttempt = typeof scormAttempts.$inferSelect;
 
+export type InsertScormInteraction = z.infer<typeof insertScormInteractionSchema>;
+export type ScormInteraction = typeof scormInteractions.$inferSelect;
+
+export type InsertScormObjective = z.infer<typeof insertScormObjectiveSchema>;
+export type ScormObjective = typeof scormObjectives.$inferSelect;
+
+export type InsertXapiLaunchSession = z.infer<typeof insertXapiLaunchSessionSchema>;
+export type XapiLaunchSession = typeof xapiLaunchSessions.$inferSelect;
+
+export type InsertXapiStatement = z.infer<typeof insertXapiStatementSchema>;
+export type XapiStatement = typeof xapiStatements.$inferSelect;
+
+export type InsertXapiDocument = z.infer<typeof insertXapiDocumentSchema>;
+export type XapiDocument = typeof xapiDocuments.$inferSelect;
+
 export type InsertOrganisationSettings = z.infer<typeof insertOrganisationSettingsSchema>;
 export type OrganisationSettings = typeof organisationSettings.$inferSelect;
 
@@ -4144,6 +5340,8 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 
 export type InsertOrgNotificationSettings = z.infer<typeof insertOrgNotificationSettingsSchema>;
 export type OrgNotificationSettings = typeof orgNotificationSettings.$inferSelect;
+export type InsertLearnerDigestEvent = z.infer<typeof insertLearnerDigestEventSchema>;
+export type LearnerDigestEvent = typeof learnerDigestEvents.$inferSelect;
 
 export type InsertEmailProviderConfigs = z.infer<typeof insertEmailProviderConfigsSchema>;
 export type EmailProviderConfigs = typeof emailProviderConfigs.$inferSelect;
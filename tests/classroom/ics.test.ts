@@ -0,0 +1,174 @@
+/**
+ * Classroom Calendar Invite Tests
+ *
+ * Checks the iCalendar (RFC 5545) invites attached to booking emails: UTC timestamps, text and
+ * parameter escaping, line folding at 75 octets, and cancellations.
+ */
+
+import { test, describe, assert } from '../setup/test-setup.ts';
+import { buildCalendarInvite, calendarAttachment, type CalendarEvent } from '../../server/classroom/ics.ts';
+
+const event: CalendarEvent = {
+  uid: 'booking-123@intelms',
+  title: 'Manual Handling',
+  startsAt: new Date('2026-06-01T09:30:00+01:00'), // BST
+  endsAt: new Date('2026-06-01T12:00:00+01:00'),
+  organizerName: 'Training Team',
+  organizerEmail: 'training@example.com',
+  attendeeName: 'Jo Bloggs',
+  attendeeEmail: 'jo@example.com',
+};
+
+function lines(ics: string): string[] {
+  return ics.split('\r\n');
+}
+
+// Reverse folding: a CRLF followed by a space joins the next line onto this one
+function unfold(ics: string): string[] {
+  return lines(ics.replace(/\r\n /g, ''));
+}
+
+function property(ics: string, name: string): string | undefined {
+  return unfold(ics).find(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+describe('Classroom calendar invites', () => {
+  describe('Structure', () => {
+    test('ends every line with CRLF, including the last', () => {
+      const ics = buildCalendarInvite(event);
+      assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+      assert.ok(!/[^\r]\n/.test(ics), 'bare LF found');
+    });
+
+    test('wraps a single event in a calendar with the request method', () => {
+      const ics = unfold(buildCalendarInvite(event));
+      assert.strictEqual(ics[0], 'BEGIN:VCALENDAR');
+      assert.ok(ics.includes('METHOD:REQUEST'));
+      assert.ok(ics.includes('STATUS:CONFIRMED'));
+      assert.ok(ics.includes('UID:booking-123@intelms'));
+      assert.ok(ics.includes('SEQUENCE:0'));
+    });
+
+    test('a cancellation keeps the UID and marks the event cancelled', () => {
+      const ics = unfold(buildCalendarInvite({ ...event, sequence: 2 }, 'CANCEL'));
+      assert.ok(ics.includes('METHOD:CANCEL'));
+      assert.ok(ics.includes('STATUS:CANCELLED'));
+      assert.ok(ics.includes('UID:booking-123@intelms'));
+      assert.ok(ics.includes('SEQUENCE:2'));
+    });
+
+    test('leaves out optional properties that are not set', () => {
+      const ics = buildCalendarInvite(event);
+      assert.strictEqual(property(ics, 'DESCRIPTION'), undefined);
+      assert.strictEqual(property(ics, 'LOCATION'), undefined);
+      assert.strictEqual(property(ics, 'URL'), undefined);
+    });
+  });
+
+  describe('UTC timestamps', () => {
+    test('writes start and end in UTC', () => {
+      const ics = buildCalendarInvite(event);
+      assert.strictEqual(property(ics, 'DTSTART'), 'DTSTART:20260601T083000Z');
+      assert.strictEqual(property(ics, 'DTEND'), 'DTEND:20260601T110000Z');
+    });
+
+    test('handles times either side of the clocks changing', () => {
+      const ics = buildCalendarInvite({
+        ...event,
+        startsAt: new Date('2026-10-25T00:30:00+01:00'), // BST, before the clocks go back
+        endsAt: new Date('2026-10-25T02:30:00+00:00'), // GMT, after
+      });
+      assert.strictEqual(property(ics, 'DTSTART'), 'DTSTART:20261024T233000Z');
+      assert.strictEqual(property(ics, 'DTEND'), 'DTEND:20261025T023000Z');
+    });
+
+    test('stamps the invite in UTC without milliseconds', () => {
+      assert.match(property(buildCalendarInvite(event), 'DTSTAMP') || '', /^DTSTAMP:\d{8}T\d{6}Z$/);
+    });
+  });
+
+  describe('Escaping', () => {
+    test('escapes backslashes, semicolons, commas and newlines in text', () => {
+      const ics = buildCalendarInvite({
+        ...event,
+        title: 'Fire Safety; Level 2, Part\\B',
+        description: 'Bring ID.\nWear flat shoes.\r\nArrive early',
+        location: 'Room 4, Main Building',
+      });
+      assert.strictEqual(property(ics, 'SUMMARY'), 'SUMMARY:Fire Safety\\; Level 2\\, Part\\\\B');
+      assert.strictEqual(property(ics, 'DESCRIPTION'), 'DESCRIPTION:Bring ID.\\nWear flat shoes.\\nArrive early');
+      assert.strictEqual(property(ics, 'LOCATION'), 'LOCATION:Room 4\\, Main Building');
+    });
+
+    test('leaves plain names unquoted', () => {
+      assert.strictEqual(property(buildCalendarInvite(event), 'ORGANIZER'), 'ORGANIZER;CN=Training Team:mailto:training@example.com');
+    });
+
+    test('quotes names containing separators instead of backslash-escaping them', () => {
+      const ics = buildCalendarInvite({ ...event, attendeeName: 'Bloggs, Jo; Ward: 3' });
+      assert.strictEqual(
+        property(ics, 'ATTENDEE'),
+        'ATTENDEE;CN="Bloggs, Jo; Ward: 3";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:jo@example.com'
+      );
+    });
+
+    test('drops double quotes and line breaks from names', () => {
+      const ics = buildCalendarInvite({ ...event, organizerName: 'The "Training"\nTeam' });
+      assert.strictEqual(property(ics, 'ORGANIZER'), 'ORGANIZER;CN=The TrainingTeam:mailto:training@example.com');
+    });
+  });
+
+  describe('Line folding', () => {
+    const description = 'Please read the moving and handling policy before the session. '.repeat(5).trim();
+
+    test('keeps every physical line within 75 octets', () => {
+      const ics = buildCalendarInvite({ ...event, description });
+      lines(ics).forEach(line => assert.ok(Buffer.byteLength(line, 'utf8') <= 75, `${Buffer.byteLength(line, 'utf8')} octets: ${line}`));
+    });
+
+    test('starts continuation lines with a single space and unfolds to the original', () => {
+      const ics = buildCalendarInvite({ ...event, description });
+      const folded = lines(ics);
+      const start = folded.findIndex(line => line.startsWith('DESCRIPTION:'));
+      assert.strictEqual(Buffer.byteLength(folded[start], 'utf8'), 75);
+      assert.ok(folded[start + 1].startsWith(' '));
+      assert.strictEqual(property(ics, 'DESCRIPTION'), `DESCRIPTION:${description}`);
+    });
+
+    test('does not fold lines of exactly 75 octets', () => {
+      const title = 'x'.repeat(75 - 'SUMMARY:'.length);
+      const folded = lines(buildCalendarInvite({ ...event, title }));
+      const start = folded.indexOf(`SUMMARY:${title}`);
+      assert.ok(start !== -1);
+      assert.ok(!folded[start + 1].startsWith(' '));
+    });
+
+    test('counts multi-byte characters by octet and never splits them', () => {
+      const welsh = 'Hyfforddiant codi a chario â llaw – sesiwn ymarferol 🏋️ i staff gofal. '.repeat(4).trim();
+      const ics = buildCalendarInvite({ ...event, description: welsh });
+      lines(ics).forEach(line => {
+        assert.ok(Buffer.byteLength(line, 'utf8') <= 75);
+        assert.ok(!line.includes('�'));
+      });
+      assert.strictEqual(property(ics, 'DESCRIPTION'), `DESCRIPTION:${welsh}`);
+      // Round-trips through UTF-8 bytes, as it does in the attachment
+      assert.strictEqual(Buffer.from(ics, 'utf8').toString('utf8'), ics);
+    });
+  });
+
+  describe('Attachment', () => {
+    test('base64-encodes the invite with the method in the content type', () => {
+      const attachment = calendarAttachment(event);
+      assert.strictEqual(attachment.filename, 'invite.ics');
+      assert.strictEqual(attachment.contentType, 'text/calendar; charset=utf-8; method=REQUEST');
+      const decoded = Buffer.from(attachment.content, 'base64').toString('utf8');
+      assert.strictEqual(property(decoded, 'UID'), 'UID:booking-123@intelms');
+    });
+
+    test('names cancellations separately', () => {
+      const attachment = calendarAttachment(event, 'CANCEL');
+      assert.strictEqual(attachment.filename, 'cancelled.ics');
+      assert.strictEqual(attachment.contentType, 'text/calendar; charset=utf-8; method=CANCEL');
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Email Provider Webhook Adapter Tests
+ *
+ * Checks webhook signature verification (SendGrid ECDSA, Mailgun HMAC and the basic/bearer key
+ * used by the other providers), rejection of bad signatures and stale timestamps, and how each
+ * provider's events are normalised - in particular which bounces count as hard bounces.
+ */
+
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto';
+import { mock } from 'node:test';
+import { test, describe, afterEach, assert } from '../setup/test-setup.ts';
+import type { WebhookRequest } from '../../server/services/adapters/BaseAdapter.ts';
+import { SendGridAdapter } from '../../server/services/adapters/SendGridAdapter.ts';
+import { MailgunAdapter } from '../../server/services/adapters/MailgunAdapter.ts';
+import { BrevoAdapter } from '../../server/services/adapters/BrevoAdapter.ts';
+import { PostmarkAdapter } from '../../server/services/adapters/PostmarkAdapter.ts';
+import { MailjetAdapter } from '../../server/services/adapters/MailjetAdapter.ts';
+import { SparkPostAdapter } from '../../server/services/adapters/SparkPostAdapter.ts';
+
+const NOW_SECONDS = 1_790_000_000;
+
+function setClock(seconds: number) {
+  mock.method(Date, 'now', () => seconds * 1000);
+}
+
+describe('Email provider webhooks', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  describe('SendGrid signature', () => {
+    const adapter = new SendGridAdapter();
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const verificationKey = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    const rawBody = JSON.stringify([{ event: 'delivered', sg_message_id: 'abc123.filter0001', email: 'jo@example.com' }]);
+
+    function signedRequest(timestamp: string, body = rawBody, signedBody = body): WebhookRequest {
+      const signature = sign('sha256', Buffer.from(timestamp + signedBody), privateKey).toString('base64');
+      return {
+        rawBody: body,
+        headers: {
+          'x-twilio-email-event-webhook-signature': signature,
+          'x-twilio-email-event-webhook-timestamp': timestamp,
+        },
+      };
+    }
+
+    test('accepts a fresh, correctly signed webhook', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS - 10)), verificationKey), true);
+    });
+
+    test('rejects a body that was changed after signing', () => {
+      setClock(NOW_SECONDS);
+      const request = signedRequest(String(NOW_SECONDS), rawBody.replace('delivered', 'bounce'), rawBody);
+      assert.strictEqual(adapter.verifyWebhook(request, verificationKey), false);
+    });
+
+    test('rejects a signature made with another key', () => {
+      setClock(NOW_SECONDS);
+      const other = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS)), other), false);
+    });
+
+    test('rejects a replayed webhook older than five minutes', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS - 299)), verificationKey), true);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS - 301)), verificationKey), false);
+    });
+
+    test('rejects a timestamp too far in the future', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS + 301)), verificationKey), false);
+    });
+
+    test('rejects a timestamp that is not a number', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest('yesterday'), verificationKey), false);
+    });
+
+    test('rejects missing headers and unusable keys', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook({ rawBody, headers: {} }, verificationKey), false);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS)), 'not-a-key'), false);
+    });
+  });
+
+  describe('Mailgun signature', () => {
+    const adapter = new MailgunAdapter();
+    const signingKey = 'mailgun-signing-key';
+
+    function signedRequest(timestamp: string, key = signingKey): WebhookRequest {
+      const token = 'a'.repeat(50);
+      const signature = createHmac('sha256', key).update(`${timestamp}${token}`).digest('hex');
+      return { rawBody: JSON.stringify({ signature: { timestamp, token, signature }, 'event-data': {} }), headers: {} };
+    }
+
+    test('accepts a fresh, correctly signed webhook', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS)), signingKey), true);
+    });
+
+    test('rejects a signature made with another key', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS), 'other-key'), signingKey), false);
+    });
+
+    test('rejects a replayed webhook older than five minutes', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest(String(NOW_SECONDS - 301)), signingKey), false);
+    });
+
+    test('rejects a timestamp that is not a number', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook(signedRequest('yesterday'), signingKey), false);
+    });
+
+    test('rejects bodies without a signature block or that are not JSON', () => {
+      setClock(NOW_SECONDS);
+      assert.strictEqual(adapter.verifyWebhook({ rawBody: JSON.stringify({ 'event-data': {} }), headers: {} }, signingKey), false);
+      assert.strictEqual(adapter.verifyWebhook({ rawBody: 'not json', headers: {} }, signingKey), false);
+    });
+  });
+
+  describe('Key in the webhook URL credentials', () => {
+    // Brevo, Postmark, Mailjet and SparkPost don't sign payloads
+    const adapter = new PostmarkAdapter();
+    const request = (authorization?: string): WebhookRequest => ({ rawBody: '{}', headers: authorization ? { authorization } : {} });
+
+    test('accepts the key as the basic auth password', () => {
+      const credentials = Buffer.from('postmark:webhook-key').toString('base64');
+      assert.strictEqual(adapter.verifyWebhook(request(`Basic ${credentials}`), 'webhook-key'), true);
+    });
+
+    test('accepts the key as a bearer token', () => {
+      assert.strictEqual(adapter.verifyWebhook(request('Bearer webhook-key'), 'webhook-key'), true);
+    });
+
+    test('rejects a wrong key, another scheme or no credentials', () => {
+      const credentials = Buffer.from('postmark:wrong-key').toString('base64');
+      assert.strictEqual(adapter.verifyWebhook(request(`Basic ${credentials}`), 'webhook-key'), false);
+      assert.strictEqual(adapter.verifyWebhook(request('Bearer webhook-key-longer'), 'webhook-key'), false);
+      assert.strictEqual(adapter.verifyWebhook(request('Token webhook-key'), 'webhook-key'), false);
+      assert.strictEqual(adapter.verifyWebhook(request(), 'webhook-key'), false);
+    });
+  });
+
+  describe('Event parsing', () => {
+    test('SendGrid: strips the message id suffix and keeps only hard bounces', () => {
+      const events = new SendGridAdapter().parseWebhookEvents([
+        { event: 'delivered', sg_message_id: 'abc.filter1', email: 'a@example.com', timestamp: NOW_SECONDS },
+        { event: 'bounce', type: 'bounce', sg_message_id: 'def.filter1', email: 'b@example.com', reason: '550 No such user' },
+        { event: 'bounce', type: 'blocked', sg_message_id: 'ghi.filter1', email: 'c@example.com' },
+        { event: 'spamreport', sg_message_id: 'jkl.filter1', email: 'd@example.com' },
+        { event: 'processed', sg_message_id: 'mno.filter1' },
+        { event: 'delivered' },
+      ]);
+      assert.deepStrictEqual(events.map(event => [event.type, event.messageId, event.email]), [
+        ['delivered', 'abc', 'a@example.com'],
+        ['bounced', 'def', 'b@example.com'],
+        ['complained', 'jkl', 'd@example.com'],
+      ]);
+      assert.strictEqual(events[0].occurredAt.getTime(), NOW_SECONDS * 1000);
+      assert.strictEqual(events[1].detail, '550 No such user');
+    });
+
+    test('Mailgun: permanent failures bounce, temporary ones are ignored', () => {
+      const adapter = new MailgunAdapter();
+      const event = (data: Record<string, unknown>) => adapter.parseWebhookEvents({
+        'event-data': { recipient: 'a@example.com', timestamp: NOW_SECONDS, message: { headers: { 'message-id': 'msg@mailgun' } }, ...data },
+      });
+      assert.deepStrictEqual(event({ event: 'failed', severity: 'permanent', 'delivery-status': { description: 'Mailbox does not exist' } }).map(e => [e.type, e.detail]), [['bounced', 'Mailbox does not exist']]);
+      assert.deepStrictEqual(event({ event: 'failed', severity: 'temporary' }), []);
+      assert.deepStrictEqual(event({ event: 'complained' }).map(e => e.type), ['complained']);
+      assert.deepStrictEqual(adapter.parseWebhookEvents({ 'event-data': { event: 'delivered' } }), []);
+    });
+
+    test('Brevo: hard bounces and invalid addresses bounce, soft bounces are ignored', () => {
+      const adapter = new BrevoAdapter();
+      const event = (name: string) => adapter.parseWebhookEvents({ event: name, 'message-id': '<m@brevo>', email: 'a@example.com', ts_event: NOW_SECONDS });
+      assert.deepStrictEqual(event('hard_bounce').map(e => e.type), ['bounced']);
+      assert.deepStrictEqual(event('invalid_email').map(e => e.type), ['bounced']);
+      assert.deepStrictEqual(event('soft_bounce'), []);
+      assert.deepStrictEqual(event('spam').map(e => e.type), ['complained']);
+      assert.deepStrictEqual(event('unique_opened').map(e => e.type), ['opened']);
+    });
+
+    test('Postmark: only permanent bounce types bounce', () => {
+      const adapter = new PostmarkAdapter();
+      const bounce = (type: string) => adapter.parseWebhookEvents({
+        RecordType: 'Bounce', Type: type, MessageID: 'pm-1', Email: 'a@example.com', BouncedAt: '2026-09-21T10:00:00Z', Description: 'Unknown user',
+      });
+      assert.deepStrictEqual(bounce('HardBounce').map(e => [e.type, e.email, e.occurredAt.toISOString()]), [['bounced', 'a@example.com', '2026-09-21T10:00:00.000Z']]);
+      assert.deepStrictEqual(bounce('SoftBounce'), []);
+      assert.deepStrictEqual(bounce('Transient'), []);
+      assert.deepStrictEqual(
+        adapter.parseWebhookEvents({ RecordType: 'SpamComplaint', MessageID: 'pm-1', Email: 'a@example.com' }).map(e => e.type),
+        ['complained']
+      );
+    });
+
+    test('Mailjet: accepts single events and batches, and only hard bounces bounce', () => {
+      const adapter = new MailjetAdapter();
+      assert.deepStrictEqual(adapter.parseWebhookEvents({ event: 'sent', MessageID: 123, email: 'a@example.com' }).map(e => [e.type, e.messageId]), [['delivered', '123']]);
+      const events = adapter.parseWebhookEvents([
+        { event: 'bounce', hard_bounce: true, MessageID: 1, email: 'a@example.com', error: 'user unknown' },
+        { event: 'bounce', hard_bounce: false, MessageID: 2, email: 'b@example.com' },
+        { event: 'spam', MessageID: 3, email: 'c@example.com' },
+      ]);
+      assert.deepStrictEqual(events.map(e => [e.type, e.messageId]), [['bounced', '1'], ['complained', '3']]);
+    });
+
+    test('SparkPost: only hard bounce classes bounce', () => {
+      const adapter = new SparkPostAdapter();
+      const bounce = (bounceClass: number) => adapter.parseWebhookEvents([
+        { msys: { message_event: { type: 'bounce', bounce_class: String(bounceClass), transmission_id: '99', rcpt_to: 'a@example.com', timestamp: String(NOW_SECONDS) } } },
+      ]);
+      assert.deepStrictEqual(bounce(10).map(e => e.type), ['bounced']);
+      assert.deepStrictEqual(bounce(25).map(e => e.type), ['bounced']);
+      assert.deepStrictEqual(bounce(21), []);
+      assert.deepStrictEqual(
+        adapter.parseWebhookEvents([{ msys: { message_event: { type: 'spam_complaint', transmission_id: '99', rcpt_to: 'a@example.com' } } }]).map(e => e.type),
+        ['complained']
+      );
+    });
+
+    test('ignores payloads of the wrong shape', () => {
+      assert.deepStrictEqual(new SendGridAdapter().parseWebhookEvents({ event: 'delivered' }), []);
+      assert.deepStrictEqual(new SparkPostAdapter().parseWebhookEvents(null), []);
+      assert.deepStrictEqual(new MailgunAdapter().parseWebhookEvents(undefined), []);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * TOTP and Recovery Code Tests
+ *
+ * Checks code generation against the RFC 6238 SHA-1 test vectors, the one-step drift window,
+ * refusal of replayed steps, and recovery code generation and hashing.
+ */
+
+import { mock } from 'node:test';
+import { test, describe, afterEach, assert } from '../setup/test-setup.ts';
+import { verifyTotp, generateTotpSecret, generateRecoveryCodes, hashRecoveryCode } from '../../server/mfa/totp.ts';
+
+// RFC 6238 appendix B seed "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 SHA-1 vectors (seconds since the epoch -> 8-digit code); authenticator apps show the last 6 digits
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+function setClock(seconds: number) {
+  mock.method(Date, 'now', () => seconds * 1000);
+}
+
+function codeAt(seconds: number): string {
+  const vector = RFC_VECTORS.find(([time]) => time === seconds);
+  assert.ok(vector, `No RFC vector for ${seconds}`);
+  return vector[1].slice(-6);
+}
+
+describe('TOTP', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  describe('RFC 6238 test vectors', () => {
+    for (const [seconds, expected] of RFC_VECTORS) {
+      test(`accepts ${expected.slice(-6)} at T=${seconds}`, () => {
+        setClock(seconds);
+        assert.strictEqual(verifyTotp(RFC_SECRET, expected.slice(-6)), Math.floor(seconds / 30));
+      });
+    }
+
+    test('rejects a wrong code', () => {
+      setClock(1111111109);
+      assert.strictEqual(verifyTotp(RFC_SECRET, '081805'), null);
+    });
+
+    test('ignores case, spaces and padding in the secret and spaces in the code', () => {
+      setClock(1234567890);
+      const secret = RFC_SECRET.toLowerCase().replace(/(.{4})/g, '$1 ') + '====';
+      assert.strictEqual(verifyTotp(secret, '005 924'), Math.floor(1234567890 / 30));
+    });
+
+    test('rejects codes that are not six digits', () => {
+      setClock(1234567890);
+      assert.strictEqual(verifyTotp(RFC_SECRET, '89005924'), null);
+      assert.strictEqual(verifyTotp(RFC_SECRET, '00592'), null);
+      assert.strictEqual(verifyTotp(RFC_SECRET, 'abcdef'), null);
+      assert.strictEqual(verifyTotp(RFC_SECRET, ''), null);
+    });
+  });
+
+  describe('Drift window', () => {
+    // T=1111111109 and T=1111111111 fall in consecutive 30-second steps
+    const earlierStep = Math.floor(1111111109 / 30);
+    const laterStep = Math.floor(1111111111 / 30);
+
+    test('the vectors used are one step apart', () => {
+      assert.strictEqual(laterStep, earlierStep + 1);
+    });
+
+    test("accepts the previous step's code", () => {
+      setClock(1111111111);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1111111109)), earlierStep);
+    });
+
+    test("accepts the next step's code", () => {
+      setClock(1111111109);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1111111111)), laterStep);
+    });
+
+    test('rejects a code two steps old', () => {
+      setClock(1111111111 + 30);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1111111109)), null);
+    });
+
+    test('rejects a code two steps ahead', () => {
+      setClock(1111111109 - 30);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1111111111)), null);
+    });
+  });
+
+  describe('Replay protection', () => {
+    const step = Math.floor(1234567890 / 30);
+
+    test('refuses the step that was last used', () => {
+      setClock(1234567890);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1234567890), step), null);
+    });
+
+    test('refuses an earlier step still inside the drift window', () => {
+      setClock(1111111111);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1111111109), Math.floor(1111111109 / 30)), null);
+    });
+
+    test('accepts a step after the one last used', () => {
+      setClock(1234567890);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1234567890), step - 1), step);
+    });
+
+    test('treats a null last step as never used', () => {
+      setClock(1234567890);
+      assert.strictEqual(verifyTotp(RFC_SECRET, codeAt(1234567890), null), step);
+    });
+  });
+
+  describe('Secrets', () => {
+    test('generates 160-bit base32 secrets', () => {
+      const secret = generateTotpSecret();
+      assert.match(secret, /^[A-Z2-7]{32}$/);
+      assert.notStrictEqual(generateTotpSecret(), secret);
+    });
+  });
+});
+
+describe('Recovery codes', () => {
+  test('generates ten distinct xxxxx-xxxxx codes', () => {
+    const { codes } = generateRecoveryCodes();
+    assert.strictEqual(codes.length, 10);
+    assert.strictEqual(new Set(codes).size, 10);
+    codes.forEach(code => assert.match(code, /^[a-z2-9]{5}-[a-z2-9]{5}$/));
+  });
+
+  test('stores the SHA-256 hash of each code, not the code', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    assert.deepStrictEqual(hashes, codes.map(hashRecoveryCode));
+    hashes.forEach((hash, index) => {
+      assert.match(hash, /^[0-9a-f]{64}$/);
+      assert.ok(!hash.includes(codes[index].replace('-', '')));
+    });
+  });
+
+  test('hashes the code the same however it is typed', () => {
+    const hash = hashRecoveryCode('abcde-fghjk');
+    assert.strictEqual(hashRecoveryCode('ABCDE-FGHJK'), hash);
+    assert.strictEqual(hashRecoveryCode('abcdefghjk'), hash);
+    assert.strictEqual(hashRecoveryCode(' abcde fghjk '), hash);
+    assert.notStrictEqual(hashRecoveryCode('abcde-fghjm'), hash);
+  });
+});
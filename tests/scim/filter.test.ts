@@ -0,0 +1,158 @@
+/**
+ * SCIM Filter Parser Tests
+ *
+ * Checks parsing of filter expressions and PATCH paths (RFC 7644 section 3.4.2.2), evaluation
+ * against resource JSON, and rejection of operators and syntax the endpoint does not support.
+ */
+
+import { test, describe, assert } from '../setup/test-setup.ts';
+import { parseFilter, parsePath, matchesFilter, ScimFilterError } from '../../server/scim/filter.ts';
+
+const user = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  userName: 'Jo.Bloggs@example.com',
+  active: true,
+  name: { givenName: 'Jo', familyName: 'Bloggs' },
+  emails: [
+    { value: 'jo.bloggs@example.com', type: 'work', primary: true },
+    { value: 'jo@home.example', type: 'home' },
+  ],
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User': { department: 'Care' },
+};
+
+describe('SCIM filters', () => {
+  describe('Parsing', () => {
+    test('parses an eq comparison with a quoted value', () => {
+      assert.deepStrictEqual(parseFilter('userName eq "jo.bloggs@example.com"'), {
+        type: 'compare',
+        path: 'userName',
+        operator: 'eq',
+        value: 'jo.bloggs@example.com',
+      });
+    });
+
+    test('treats operators case-insensitively', () => {
+      assert.deepStrictEqual(parseFilter('userName EQ "jo"'), parseFilter('userName eq "jo"'));
+    });
+
+    test('keeps spaces, brackets and escaped quotes inside quoted values', () => {
+      const node = parseFilter('displayName eq "Care (North) \\"A\\" [Team]"');
+      assert.strictEqual(node.type === 'compare' && node.value, 'Care (North) "A" [Team]');
+    });
+
+    test('parses unquoted true, false, null and numbers', () => {
+      const values = ['active eq true', 'active eq False', 'manager eq null', 'age gt 42'].map(filter => {
+        const node = parseFilter(filter);
+        return node.type === 'compare' ? node.value : undefined;
+      });
+      assert.deepStrictEqual(values, [true, false, null, 42]);
+    });
+
+    test('parses pr without a value', () => {
+      assert.deepStrictEqual(parseFilter('title pr'), { type: 'compare', path: 'title', operator: 'pr' });
+    });
+
+    test('parses and with higher precedence than or', () => {
+      const node = parseFilter('a eq "1" or b eq "2" and c eq "3"');
+      assert.strictEqual(node.type, 'or');
+      assert.ok(node.type === 'or' && node.right.type === 'and');
+    });
+
+    test('lets parentheses override precedence', () => {
+      const node = parseFilter('(a eq "1" or b eq "2") and c eq "3"');
+      assert.strictEqual(node.type, 'and');
+      assert.ok(node.type === 'and' && node.left.type === 'or');
+    });
+
+    test('parses not and value path filters', () => {
+      assert.strictEqual(parseFilter('not (active eq true)').type, 'not');
+      const node = parseFilter('emails[type eq "work"]');
+      assert.strictEqual(node.type === 'valuePath' && node.path, 'emails');
+    });
+  });
+
+  describe('Rejected filters', () => {
+    const rejected: [string, RegExp][] = [
+      ['userName like "jo"', /Unsupported filter operator "like"/],
+      ['userName regex "j.*"', /Unsupported filter operator "regex"/],
+      ['userName eq', /Filter ended unexpectedly/],
+      ['userName eq "jo" and', /Filter ended unexpectedly/],
+      ['(userName eq "jo"', /Filter ended unexpectedly/],
+      ['userName eq "jo")', /Unexpected "\)"/],
+      ['userName eq "jo" extra', /Unexpected "extra"/],
+      ['"jo" eq userName', /Expected an attribute name/],
+      ['userName eq jo', /Invalid comparison value "jo"/],
+      ['userName eq "jo', /Unexpected input in filter/],
+      ['emails[type eq "work"', /Filter ended unexpectedly/],
+    ];
+
+    for (const [filter, message] of rejected) {
+      test(`rejects ${filter}`, () => {
+        assert.throws(() => parseFilter(filter), (error: unknown) => error instanceof ScimFilterError && message.test(error.message));
+      });
+    }
+  });
+
+  describe('Matching', () => {
+    const matches = (filter: string) => matchesFilter(user, parseFilter(filter));
+
+    test('eq ignores case in attribute names and string values', () => {
+      assert.strictEqual(matches('USERNAME eq "jo.bloggs@EXAMPLE.com"'), true);
+      assert.strictEqual(matches('userName eq "someone@example.com"'), false);
+    });
+
+    test('and needs both sides, or needs either', () => {
+      assert.strictEqual(matches('userName eq "jo.bloggs@example.com" and active eq true'), true);
+      assert.strictEqual(matches('userName eq "jo.bloggs@example.com" and active eq false'), false);
+      assert.strictEqual(matches('userName eq "nobody" or active eq true'), true);
+    });
+
+    test('matches sub-attributes and multi-valued attributes', () => {
+      assert.strictEqual(matches('name.familyName sw "blo"'), true);
+      assert.strictEqual(matches('emails.value ew "@home.example"'), true);
+      assert.strictEqual(matches('emails[type eq "work" and primary eq true]'), true);
+      assert.strictEqual(matches('emails[type eq "other"]'), false);
+    });
+
+    test('ne needs every value of a multi-valued attribute to differ', () => {
+      assert.strictEqual(matches('emails.type ne "home"'), false);
+      assert.strictEqual(matches('emails.type ne "other"'), true);
+    });
+
+    test('matches extension attributes by their full URN', () => {
+      assert.strictEqual(matches('urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department eq "care"'), true);
+    });
+
+    test('pr and eq null for missing attributes', () => {
+      assert.strictEqual(matches('title pr'), false);
+      assert.strictEqual(matches('name.givenName pr'), true);
+      assert.strictEqual(matches('title eq null'), true);
+    });
+  });
+
+  describe('PATCH paths', () => {
+    test('parses attribute and sub-attribute paths', () => {
+      assert.deepStrictEqual(parsePath('name.givenName'), { schema: undefined, attribute: 'name', subAttribute: 'givenName' });
+    });
+
+    test('parses a filtered path with a sub-attribute', () => {
+      const path = parsePath('emails[type eq "work"].value');
+      assert.strictEqual(path.attribute, 'emails');
+      assert.strictEqual(path.subAttribute, 'value');
+      assert.strictEqual(path.filter?.type, 'compare');
+    });
+
+    test('drops the core schema prefix and keeps extension schemas', () => {
+      assert.strictEqual(parsePath('urn:ietf:params:scim:schemas:core:2.0:User:userName').attribute, 'userName');
+      const extension = parsePath('urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department');
+      assert.strictEqual(extension.schema, 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User');
+      assert.strictEqual(extension.attribute, 'department');
+    });
+
+    test('rejects malformed paths', () => {
+      assert.throws(() => parsePath('emails]type eq "work"['), ScimFilterError);
+      assert.throws(() => parsePath('emails[type eq "work"]value'), ScimFilterError);
+      assert.throws(() => parsePath('emails[type like "work"]'), ScimFilterError);
+    });
+  });
+});
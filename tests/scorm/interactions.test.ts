@@ -0,0 +1,204 @@
+/**
+ * SCORM Interaction Tests
+ *
+ * Checks that cmi.interactions.n.* and cmi.objectives.n.* are read from committed runtime data for
+ * both SCORM 1.2 and 2004, that latencies in either format become seconds, and how stored
+ * interactions are rolled up into the item analysis report.
+ */
+
+import { test, describe, assert } from '../setup/test-setup.ts';
+import type { ScormInteraction } from '../../shared/schema.ts';
+import { parseLatencySeconds, extractInteractions, extractObjectives, buildItemAnalysis } from '../../server/scorm/interactions.ts';
+
+const attempt = {
+  attemptId: 'attempt-1',
+  assignmentId: 'assignment-1',
+  userId: 'user-1',
+  courseId: 'course-1',
+  organisationId: 'org-1',
+};
+
+function interaction(fields: Partial<ScormInteraction>): ScormInteraction {
+  return {
+    ...attempt,
+    interactionIndex: 0,
+    interactionId: 'q1',
+    type: 'choice',
+    description: null,
+    learnerResponse: null,
+    correctResponses: null,
+    result: null,
+    latencySeconds: null,
+    ...fields,
+  } as ScormInteraction;
+}
+
+describe('SCORM interactions', () => {
+  describe('Latency', () => {
+    test('reads SCORM 1.2 timespans', () => {
+      assert.strictEqual(parseLatencySeconds('0000:01:30'), 90);
+      assert.strictEqual(parseLatencySeconds('01:00:02.5'), 3602.5);
+    });
+
+    test('reads SCORM 2004 durations', () => {
+      assert.strictEqual(parseLatencySeconds('PT1M30S'), 90);
+      assert.strictEqual(parseLatencySeconds('PT0.25S'), 0.25);
+      assert.strictEqual(parseLatencySeconds('P1DT1H'), 90000);
+    });
+
+    test('returns null for empty or malformed values', () => {
+      assert.strictEqual(parseLatencySeconds(null), null);
+      assert.strictEqual(parseLatencySeconds(''), null);
+      assert.strictEqual(parseLatencySeconds('P'), null);
+      assert.strictEqual(parseLatencySeconds('PT'), null);
+      assert.strictEqual(parseLatencySeconds('90 seconds'), null);
+    });
+  });
+
+  describe('Extracting interactions', () => {
+    test('reads SCORM 2004 interactions in index order with nested patterns and objectives', () => {
+      const rows = extractInteractions({
+        'cmi.interactions.1.id': 'q2',
+        'cmi.interactions.1.result': 'correct',
+        'cmi.interactions.0.id': 'q1',
+        'cmi.interactions.0.type': 'choice',
+        'cmi.interactions.0.description': 'Who signs the fire log?',
+        'cmi.interactions.0.learner_response': 'b',
+        'cmi.interactions.0.correct_responses.1.pattern': 'c',
+        'cmi.interactions.0.correct_responses.0.pattern': 'a',
+        'cmi.interactions.0.objectives.0.id': 'fire-safety',
+        'cmi.interactions.0.result': 'incorrect',
+        'cmi.interactions.0.weighting': '1.0',
+        'cmi.interactions.0.latency': 'PT12S',
+        'cmi.interactions.0.timestamp': '2026-03-01T09:00:00',
+        'cmi.core.score.raw': '50',
+      }, '2004', attempt);
+
+      assert.strictEqual(rows.length, 2);
+      assert.deepStrictEqual(rows.map(row => row.interactionId), ['q1', 'q2']);
+      assert.deepStrictEqual(rows[0], {
+        ...attempt,
+        interactionIndex: 0,
+        interactionId: 'q1',
+        type: 'choice',
+        description: 'Who signs the fire log?',
+        learnerResponse: 'b',
+        correctResponses: ['a', 'c'],
+        result: 'incorrect',
+        weighting: '1',
+        latency: 'PT12S',
+        latencySeconds: '12.00',
+        timestamp: '2026-03-01T09:00:00',
+        objectiveIds: ['fire-safety'],
+      });
+    });
+
+    test('reads SCORM 1.2 field names and treats "wrong" as incorrect', () => {
+      const [row] = extractInteractions({
+        'cmi.interactions.0.id': 'q1',
+        'cmi.interactions.0.student_response': 'b',
+        'cmi.interactions.0.result': 'wrong',
+        'cmi.interactions.0.time': '09:00:00',
+        'cmi.interactions.0.latency': '0000:00:12',
+        'cmi.interactions.0.description': 'Not part of SCORM 1.2',
+      }, '1.2', attempt);
+
+      assert.strictEqual(row.learnerResponse, 'b');
+      assert.strictEqual(row.result, 'incorrect');
+      assert.strictEqual(row.timestamp, '09:00:00');
+      assert.strictEqual(row.latencySeconds, '12.00');
+      assert.strictEqual(row.description, null);
+    });
+
+    test('stores empty and non-numeric values as null', () => {
+      const [row] = extractInteractions({
+        'cmi.interactions.0.id': '',
+        'cmi.interactions.0.weighting': 'heavy',
+        'cmi.interactions.0.latency': 'soon',
+        'cmi.interactions.0.correct_responses.0.pattern': '',
+      }, '2004', attempt);
+
+      assert.strictEqual(row.interactionId, null);
+      assert.strictEqual(row.weighting, null);
+      assert.strictEqual(row.latency, 'soon');
+      assert.strictEqual(row.latencySeconds, null);
+      assert.strictEqual(row.correctResponses, null);
+    });
+
+    test('ignores keys that are not indexed interaction fields', () => {
+      assert.deepStrictEqual(extractInteractions({ 'cmi.interactions._count': '2', 'cmi.interactions.x.id': 'q1' }, '2004', attempt), []);
+    });
+  });
+
+  describe('Extracting objectives', () => {
+    test('reads SCORM 2004 scores and statuses', () => {
+      const [row] = extractObjectives({
+        'cmi.objectives.0.id': 'fire-safety',
+        'cmi.objectives.0.score.raw': '8',
+        'cmi.objectives.0.score.max': '10',
+        'cmi.objectives.0.score.scaled': '0.8',
+        'cmi.objectives.0.success_status': 'passed',
+        'cmi.objectives.0.completion_status': 'completed',
+        'cmi.objectives.0.progress_measure': '1',
+      }, '2004', attempt);
+
+      assert.strictEqual(row.objectiveId, 'fire-safety');
+      assert.strictEqual(row.scoreRaw, '8');
+      assert.strictEqual(row.scoreMin, null);
+      assert.strictEqual(row.scoreScaled, '0.8');
+      assert.strictEqual(row.successStatus, 'passed');
+      assert.strictEqual(row.completionStatus, 'completed');
+      assert.strictEqual(row.progressMeasure, '1');
+      assert.strictEqual(row.status, null);
+    });
+
+    test('reads the single SCORM 1.2 status and leaves the 2004 fields empty', () => {
+      const [row] = extractObjectives({
+        'cmi.objectives.0.id': 'fire-safety',
+        'cmi.objectives.0.status': 'passed',
+        'cmi.objectives.0.score.scaled': '0.8',
+      }, '1.2', attempt);
+
+      assert.strictEqual(row.status, 'passed');
+      assert.strictEqual(row.successStatus, null);
+      assert.strictEqual(row.scoreScaled, null);
+    });
+  });
+
+  describe('Item analysis', () => {
+    test('works out percent correct, average latency and common wrong answers per question', () => {
+      const report = buildItemAnalysis('course-1', [
+        interaction({ result: 'correct', learnerResponse: 'a', correctResponses: ['a'], latencySeconds: '10.00' }),
+        interaction({ userId: 'user-2', attemptId: 'attempt-2', result: 'incorrect', learnerResponse: 'b', latencySeconds: '20.00' }),
+        interaction({ userId: 'user-3', attemptId: 'attempt-3', result: 'incorrect', learnerResponse: 'b' }),
+        interaction({ userId: 'user-3', attemptId: 'attempt-4', result: 'incorrect', learnerResponse: null }),
+      ]);
+
+      assert.strictEqual(report.learners, 3);
+      assert.strictEqual(report.attempts, 4);
+      assert.deepStrictEqual(report.questions[0], {
+        interactionId: 'q1',
+        description: null,
+        type: 'choice',
+        responses: 4,
+        correct: 1,
+        percentCorrect: 25,
+        averageLatencySeconds: 15,
+        correctResponses: ['a'],
+        commonWrongResponses: [{ response: 'b', count: 2 }, { response: '(no response)', count: 1 }],
+      });
+    });
+
+    test('lists the hardest questions first and unjudged questions last', () => {
+      const report = buildItemAnalysis('course-1', [
+        interaction({ interactionId: 'easy', result: 'correct' }),
+        interaction({ interactionId: 'unjudged', result: 'neutral' }),
+        interaction({ interactionId: 'hard', result: 'incorrect' }),
+        interaction({ interactionId: null, interactionIndex: 4, result: 'correct' }),
+      ]);
+
+      assert.deepStrictEqual(report.questions.map(q => q.interactionId), ['hard', 'easy', 'interaction_4', 'unjudged']);
+      assert.strictEqual(report.questions[3].percentCorrect, null);
+    });
+  });
+});